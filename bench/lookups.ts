@@ -0,0 +1,135 @@
+/**
+ * Benchmarks the indexed single-country getters against the previous
+ * `countries.find` implementations.
+ *
+ * Run with `npm run bench`.
+ */
+import { performance } from "perf_hooks";
+import { countries } from "../src/countries";
+import {
+  getCountryByAlpha2,
+  getCountryByAlpha3,
+  getCountryByCapital,
+  getCountryByCode,
+  getCountryByName,
+  searchCountryByCodeOrName,
+} from "../src";
+
+const ITERATIONS = 200_000;
+
+// ============================================================================
+// PREVIOUS IMPLEMENTATIONS (linear scan)
+// ============================================================================
+
+const legacy = {
+  getCountryByName: (name: string) => countries.find((c) => c.name === name),
+  getCountryByAlpha2: (code: string) =>
+    countries.find((c) => c.alpha2 === code),
+  getCountryByAlpha3: (code: string) =>
+    countries.find((c) => c.alpha3 === code),
+  getCountryByCode: (code: string) => {
+    const upperCode = code.toUpperCase();
+    return countries.find(
+      (c) =>
+        c.alpha2 === upperCode || c.alpha3 === upperCode || c.numeric === code,
+    );
+  },
+  getCountryByCapital: (capital: string) =>
+    countries.find((c) => c.capital?.toLowerCase() === capital.toLowerCase()),
+  searchCountryByCodeOrName: (identifier: string) => {
+    const lower = identifier.toLowerCase();
+    const upper = identifier.toUpperCase();
+    return countries.find(
+      (c) =>
+        c.alpha2 === upper ||
+        c.alpha3 === upper ||
+        c.numeric === identifier ||
+        c.name.toLowerCase() === lower ||
+        c.officialName?.toLowerCase() === lower ||
+        c.nativeName?.toLowerCase() === lower,
+    );
+  },
+};
+
+// ============================================================================
+// INPUTS (every country, so early and late entries are equally represented)
+// ============================================================================
+
+const names = countries.map((c) => c.name);
+const alpha2 = countries.map((c) => c.alpha2);
+const alpha3 = countries.map((c) => c.alpha3);
+const numeric = countries.map((c) => c.numeric);
+const capitals = countries.map((c) => c.capital);
+const officialNames = countries.map((c) => c.officialName);
+
+// ============================================================================
+// HARNESS
+// ============================================================================
+
+const time = <T extends string>(
+  fn: (input: T) => unknown,
+  inputs: readonly T[],
+) => {
+  // Warm up so the JIT has compiled both variants before measuring
+  for (let i = 0; i < 10_000; i++) fn(inputs[i % inputs.length]);
+
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) fn(inputs[i % inputs.length]);
+  return performance.now() - start;
+};
+
+/**
+ * Time both variants of a getter over the same inputs
+ */
+const compare = <T extends string>(
+  name: string,
+  indexed: (input: T) => unknown,
+  linear: (input: T) => unknown,
+  inputs: readonly T[],
+) => {
+  const linearMs = time(linear, inputs);
+  const indexedMs = time(indexed, inputs);
+  return {
+    function: name,
+    "find (ms)": Number(linearMs.toFixed(1)),
+    "indexed (ms)": Number(indexedMs.toFixed(1)),
+    speedup: `${(linearMs / indexedMs).toFixed(1)}x`,
+  };
+};
+
+const results = [
+  compare("getCountryByName", getCountryByName, legacy.getCountryByName, names),
+  compare(
+    "getCountryByAlpha2",
+    getCountryByAlpha2,
+    legacy.getCountryByAlpha2,
+    alpha2,
+  ),
+  compare(
+    "getCountryByAlpha3",
+    getCountryByAlpha3,
+    legacy.getCountryByAlpha3,
+    alpha3,
+  ),
+  compare(
+    "getCountryByCode",
+    getCountryByCode,
+    legacy.getCountryByCode,
+    numeric,
+  ),
+  compare(
+    "getCountryByCapital",
+    getCountryByCapital,
+    legacy.getCountryByCapital,
+    capitals,
+  ),
+  compare(
+    "searchCountryByCodeOrName",
+    searchCountryByCodeOrName,
+    legacy.searchCountryByCodeOrName,
+    officialNames,
+  ),
+];
+
+console.log(`${ITERATIONS.toLocaleString()} lookups per function\n`);
+console.table(results);
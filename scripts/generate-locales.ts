@@ -0,0 +1,50 @@
+/**
+ * Generates the per-locale country name modules in `src/locales` from the
+ * CLDR data bundled with Node (`Intl.DisplayNames`).
+ *
+ * Run with `npm run generate:locales`.
+ */
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { countries } from "../src/countries";
+import { supportedLocales } from "../src/types";
+
+const OUT_DIR = join(__dirname, "..", "src", "locales");
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+/** "pt-BR" -> "ptBR", "zh-Hant" -> "zhHant" */
+const exportName = (locale: string): string => locale.replace(/-/g, "");
+
+supportedLocales.forEach((locale) => {
+  const regionNames = new Intl.DisplayNames([locale], {
+    type: "region",
+    fallback: "none",
+  });
+
+  const entries = countries.map((c) => {
+    const name = regionNames.of(c.alpha2);
+    if (!name) throw new Error(`No ${locale} name for ${c.alpha2}`);
+    return `    ${c.alpha2}: ${JSON.stringify(name)},`;
+  });
+
+  const source = [
+    `import { LocaleData } from "../types";`,
+    ``,
+    `/**`,
+    ` * Country names in ${languageNames.of(locale)} (${locale}), from CLDR.`,
+    ` * Generated by scripts/generate-locales.ts — do not edit by hand.`,
+    ` */`,
+    `export const ${exportName(locale)}: LocaleData = {`,
+    `  locale: ${JSON.stringify(locale)},`,
+    `  names: {`,
+    ...entries,
+    `  },`,
+    `};`,
+    ``,
+  ].join("\n");
+
+  writeFileSync(join(OUT_DIR, `${locale}.ts`), source);
+});
+
+console.log(`Wrote ${supportedLocales.length} locales to ${OUT_DIR}`);
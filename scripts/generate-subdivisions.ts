@@ -0,0 +1,90 @@
+/**
+ * Generates the per-country ISO 3166-2 subdivision modules in
+ * `src/subdivisions` from the iso-codes project's `iso_3166-2.json`, plus an
+ * index with each module's data type and a loader for it.
+ *
+ * Run with `npm run generate:subdivisions [path/to/iso_3166-2.json]`.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { countries } from "../src/countries";
+
+const SOURCE = process.argv[2] ?? "/usr/share/iso-codes/json/iso_3166-2.json";
+const OUT_DIR = join(__dirname, "..", "src", "subdivisions");
+
+interface IsoSubdivision {
+  code: string;
+  name: string;
+  type: string;
+  parent?: string;
+}
+
+const entries: IsoSubdivision[] = JSON.parse(readFileSync(SOURCE, "utf8"))[
+  "3166-2"
+];
+
+mkdirSync(OUT_DIR, { recursive: true });
+
+countries.forEach((c) => {
+  const rows = entries
+    .filter((s) => s.code.startsWith(`${c.alpha2}-`))
+    .sort((a, b) => (a.code < b.code ? -1 : 1))
+    .map((s) => {
+      const fields = [
+        `code: ${JSON.stringify(s.code)}`,
+        `name: ${JSON.stringify(s.name)}`,
+        `type: ${JSON.stringify(s.type)}`,
+      ];
+      if (s.parent) {
+        // Most parents are given without the country prefix ("NX" for "AZ-NX")
+        const parent = s.parent.includes("-")
+          ? s.parent
+          : `${c.alpha2}-${s.parent}`;
+        fields.push(`parent: ${JSON.stringify(parent)}`);
+      }
+      return `  { ${fields.join(", ")} },`;
+    });
+  if (!rows.length) throw new Error(`No subdivisions for ${c.alpha2}`);
+
+  const source = [
+    `/**`,
+    ` * ISO 3166-2 subdivisions of ${c.name} (${c.alpha2}), from iso-codes.`,
+    ` * Generated by scripts/generate-subdivisions.ts — do not edit by hand.`,
+    ` */`,
+    `export const ${c.alpha2} = [`,
+    ...rows,
+    `] as const;`,
+    ``,
+  ].join("\n");
+
+  writeFileSync(join(OUT_DIR, `${c.alpha2}.ts`), source);
+});
+
+// Type queries and one literal import() per country, so importing the index
+// never pulls in the data modules and bundlers can still follow every path
+const index = [
+  `/**`,
+  ` * Subdivision data by country: the type of each module's data, and a`,
+  ` * loader that imports the module on first use.`,
+  ` * Generated by scripts/generate-subdivisions.ts — do not edit by hand.`,
+  ` */`,
+  `export interface SubdivisionData {`,
+  ...countries.map(
+    (c) => `  ${c.alpha2}: (typeof import("./${c.alpha2}"))["${c.alpha2}"];`,
+  ),
+  `}`,
+  ``,
+  `export const subdivisionLoaders: {`,
+  `  readonly [C in keyof SubdivisionData]: () => Promise<SubdivisionData[C]>;`,
+  `} = {`,
+  ...countries.map(
+    (c) =>
+      `  ${c.alpha2}: () => import("./${c.alpha2}").then((m) => m.${c.alpha2}),`,
+  ),
+  `};`,
+  ``,
+].join("\n");
+
+writeFileSync(join(OUT_DIR, "index.ts"), index);
+
+console.log(`Wrote ${countries.length} countries to ${OUT_DIR}`);
@@ -0,0 +1,93 @@
+import { CountryCode } from "./types";
+
+// ============================================================================
+// AREA CODES FOR SHARED CALLING CODES
+// ============================================================================
+
+/**
+ * Leading digits of the national significant number that identify a country
+ * among the countries sharing a calling code. A country sharing a calling code
+ * without an entry here (the United States for +1, Russia for +7) is the fallback.
+ * The +44 Crown Dependencies are not in the dataset, so +44 needs no entries.
+ */
+export const phoneNumberPrefixes: Partial<
+  Record<CountryCode, readonly string[]>
+> = {
+  // North American Numbering Plan (+1)
+  CA: [
+    "204",
+    "226",
+    "236",
+    "249",
+    "250",
+    "257",
+    "263",
+    "273",
+    "289",
+    "306",
+    "343",
+    "354",
+    "365",
+    "367",
+    "368",
+    "382",
+    "387",
+    "403",
+    "416",
+    "418",
+    "428",
+    "431",
+    "437",
+    "438",
+    "450",
+    "460",
+    "468",
+    "474",
+    "506",
+    "514",
+    "519",
+    "537",
+    "548",
+    "568",
+    "579",
+    "581",
+    "584",
+    "587",
+    "600",
+    "604",
+    "613",
+    "639",
+    "647",
+    "672",
+    "683",
+    "705",
+    "709",
+    "742",
+    "753",
+    "778",
+    "780",
+    "782",
+    "807",
+    "819",
+    "825",
+    "867",
+    "873",
+    "879",
+    "902",
+    "905",
+    "942",
+  ],
+  AG: ["268"],
+  BS: ["242"],
+  BB: ["246"],
+  DM: ["767"],
+  DO: ["809", "829", "849"],
+  GD: ["473"],
+  JM: ["876", "658"],
+  KN: ["869"],
+  LC: ["758"],
+  VC: ["784"],
+  TT: ["868"],
+  // Russia and Kazakhstan (+7)
+  KZ: ["6", "7"],
+};
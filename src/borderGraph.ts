@@ -0,0 +1,129 @@
+import { countries } from "./countries";
+import { foldCode, getCountryIndexes } from "./indexes";
+import { Country, CountryCode } from "./types";
+
+// ============================================================================
+// LAND BORDER GRAPH
+// ============================================================================
+
+let adjacency: ReadonlyMap<Country, readonly Country[]> | undefined;
+
+/**
+ * Land neighbours of every country, resolved from `borders` on first use
+ */
+const getAdjacency = (): ReadonlyMap<Country, readonly Country[]> => {
+  if (!adjacency) {
+    const { alpha3 } = getCountryIndexes();
+    adjacency = new Map(
+      countries.map((c) => [c, c.borders.map((code) => alpha3.get(code)!)]),
+    );
+  }
+  return adjacency;
+};
+
+const lookup = (code: CountryCode): Country | undefined =>
+  getCountryIndexes().alpha2.get(foldCode(code));
+
+/**
+ * Breadth-first search over land borders from `start`, recording how each
+ * country was reached. Stops early once `target` is reached.
+ */
+const explore = (
+  start: Country,
+  target?: Country,
+): Map<Country, Country | undefined> => {
+  const graph = getAdjacency();
+  const previous = new Map<Country, Country | undefined>([[start, undefined]]);
+  const queue: Country[] = [start];
+
+  for (let i = 0; i < queue.length; i++) {
+    if (target && previous.has(target)) break;
+    graph.get(queue[i])!.forEach((next) => {
+      if (!previous.has(next)) {
+        previous.set(next, queue[i]);
+        queue.push(next);
+      }
+    });
+  }
+  return previous;
+};
+
+/**
+ * Get the shortest overland route between two countries, crossing the fewest borders.
+ *
+ * @param from - The alpha-2 code of the starting country
+ * @param to - The alpha-2 code of the destination country
+ * @returns The countries along the route including both ends, or `undefined`
+ * if either code is unknown or no land route exists
+ *
+ * @example
+ * getBorderPath("PT", "PL")?.map((c) => c.alpha2); // ["PT", "ES", "FR", "DE", "PL"]
+ * getBorderPath("GB", "FR");                       // undefined
+ */
+export const getBorderPath = (
+  from: CountryCode,
+  to: CountryCode,
+): Country[] | undefined => {
+  const start = lookup(from);
+  const target = lookup(to);
+  if (!start || !target) return undefined;
+
+  const previous = explore(start, target);
+  if (!previous.has(target)) return undefined;
+
+  const path: Country[] = [];
+  for (let c: Country | undefined = target; c; c = previous.get(c)) {
+    path.unshift(c);
+  }
+  return path;
+};
+
+/**
+ * Get the number of land borders crossed on the shortest route between two countries.
+ * Returns 0 for the same country and `undefined` when there is no land route.
+ *
+ * @example
+ * getBorderDistance("PT", "PL"); // 4
+ * getBorderDistance("FR", "FR"); // 0
+ */
+export const getBorderDistance = (
+  from: CountryCode,
+  to: CountryCode,
+): number | undefined => {
+  const path = getBorderPath(from, to);
+  return path && path.length - 1;
+};
+
+/**
+ * Get all countries without a coastline. Countries bordering only the
+ * Caspian Sea, such as Kazakhstan, count as landlocked.
+ */
+export const getLandlockedCountries = (): Country[] =>
+  countries.filter((c) => c.landlocked);
+
+/**
+ * Get the landlocked countries whose neighbours are all landlocked too,
+ * so reaching the sea means crossing at least two borders
+ *
+ * @example
+ * getDoublyLandlockedCountries(); // [Liechtenstein, Uzbekistan]
+ */
+export const getDoublyLandlockedCountries = (): Country[] => {
+  const graph = getAdjacency();
+  return getLandlockedCountries().filter((c) =>
+    graph.get(c)!.every((neighbor) => neighbor.landlocked),
+  );
+};
+
+/**
+ * Get every country reachable from a country over land, including itself.
+ * Island countries return only themselves; unknown codes return an empty array.
+ *
+ * @example
+ * getConnectedLandmass("IE").map((c) => c.alpha2); // ["IE", "GB"]
+ * getConnectedLandmass("JP").map((c) => c.alpha2); // ["JP"]
+ */
+export const getConnectedLandmass = (code: CountryCode): Country[] => {
+  const start = lookup(code);
+  return start ? Array.from(explore(start).keys()) : [];
+};
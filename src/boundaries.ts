@@ -0,0 +1,1987 @@
+import { CountryCode, Polygon } from "./types";
+
+// ============================================================================
+// COUNTRY BOUNDARIES
+// ============================================================================
+
+/**
+ * Simplified land outlines for every country, keyed by alpha-2 code. Each
+ * polygon is an outer ring followed by any holes; rings that cross the
+ * antimeridian continue past longitude 180 instead of wrapping.
+ *
+ * Outlines keep only a few dozen points per country and small islands are
+ * approximated by boxes, so lookups within roughly 20 km of a border or
+ * coastline may be off. Territories without their own entry in the dataset,
+ * such as Western Sahara or Taiwan, are not covered.
+ */
+export const boundaries: Record<CountryCode, readonly Polygon[]> = {
+  AD: [[[1.41, 42.43, 1.79, 42.43, 1.79, 42.66, 1.41, 42.66]]],
+  AE: [
+    [
+      [
+        51.6, 24.25, 52.6, 24.15, 54.4, 24.55, 55.3, 25.3, 56.05, 25.9, 56.4,
+        25.3, 56.35, 24.95, 55.85, 24.5, 55.8, 24, 55.65, 22, 55.2, 22.7, 52.6,
+        22.9,
+      ],
+    ],
+  ],
+  AF: [
+    [
+      [
+        60.87, 29.86, 61.7, 31.4, 60.85, 31.5, 60.5, 33, 60.9, 34.3, 61.27,
+        35.61, 63.1, 35.85, 64.8, 37.1, 65.6, 37.5, 66.54, 37.36, 67.78, 37.18,
+        68.3, 37.1, 69.5, 37.2, 70.2, 37.8, 71, 38.45, 71.5, 37.9, 71.6, 36.75,
+        72.5, 37, 74.9, 37.25, 74.6, 37, 73, 36.9, 71.5, 36.5, 71.2, 36, 71.6,
+        35.2, 71, 34.4, 71.1, 34.1, 70, 34, 69.3, 33, 69.5, 31.5, 68.3, 31.8,
+        67, 31.3, 66.4, 30, 66.3, 29.8, 64.5, 29.5, 62.5, 29.4,
+      ],
+    ],
+  ],
+  AG: [
+    [[-61.9, 17, -61.65, 17, -61.65, 17.2, -61.9, 17.2]],
+    [[-61.9, 17.55, -61.7, 17.55, -61.7, 17.73, -61.9, 17.73]],
+  ],
+  AL: [
+    [
+      [
+        20, 39.65, 20.7, 40.3, 20.98, 40.86, 20.75, 41.15, 20.5, 41.4, 20.57,
+        41.86, 20.6, 42.15, 20.05, 42.55, 19.6, 42.5, 19.37, 41.85, 19.5, 41.3,
+        19.4, 40.8, 19.3, 40.4, 19.7, 40,
+      ],
+    ],
+  ],
+  AM: [
+    [
+      [
+        43.45, 41.1, 44, 41.2, 45, 41.3, 45.6, 41, 45.9, 40.3, 45.6, 39.8, 46.5,
+        39.5, 46.5, 38.9, 46.1, 38.85, 45.5, 39.5, 44.77, 39.71, 43.6, 40.1,
+        43.75, 40.75,
+      ],
+    ],
+  ],
+  AO: [
+    [
+      [
+        12.3, -6.05, 13.5, -5.9, 16.3, -5.9, 17, -7.5, 17.6, -8.1, 19.4, -8,
+        19.5, -7, 21.8, -7.3, 21.8, -9.5, 22.3, -11, 23.9, -10.9, 24, -11, 24,
+        -13, 22, -13, 22, -16.2, 23.3, -17.6, 21, -18, 20, -17.9, 18.5, -17.4,
+        14.2, -17.4, 13.4, -17, 11.75, -17.25, 12.15, -15.2, 13.4, -12.6, 13.8,
+        -11, 13.2, -9,
+      ],
+    ],
+    [[12, -5, 12.8, -4.4, 13.1, -4.6, 12.5, -5.2, 12.2, -5.8]],
+  ],
+  AR: [
+    [
+      [
+        -67.18, -22.82, -65.7, -22.1, -64.3, -22.8, -62.65, -22.24, -61, -23.8,
+        -59.5, -24.6, -57.55, -25.35, -58.6, -27.3, -55.9, -27.4, -54.6, -25.6,
+        -53.7, -26.2, -54.6, -27.2, -55.8, -28, -57.6, -30.2, -57.9, -31.5,
+        -58.2, -33, -58.4, -33.9, -58.2, -34.5, -57.3, -35.3, -56.7, -36.4,
+        -57.5, -38, -62, -39, -62.3, -40.6, -65, -41, -64.5, -42.3, -65, -45,
+        -67.5, -46, -65.8, -47.8, -69, -50, -68.4, -52.35, -69, -52, -71.9, -52,
+        -72.3, -51.6, -72.5, -50.7, -73.4, -49.5, -72.3, -48, -71.8, -46, -71.7,
+        -44, -71.8, -42, -71.7, -40, -71, -38, -70.4, -36, -70, -33, -69.8, -30,
+        -68.8, -27, -68.5, -25.2, -67.3, -24,
+      ],
+    ],
+    [[-68.6, -52.6, -66.6, -53.6, -65.2, -54.7, -66.5, -55, -68.6, -54.9]],
+  ],
+  AT: [
+    [
+      [
+        13.85, 48.8, 14.7, 48.6, 15, 49, 16.95, 48.6, 17, 48.15, 17.15, 48,
+        17.05, 47.7, 16.45, 47.4, 16.1, 46.85, 15.6, 46.7, 14.5, 46.4, 13.7,
+        46.5, 12.4, 46.7, 11.5, 47, 10.45, 46.85, 9.62, 47.05, 9.53, 47.27,
+        9.55, 47.55, 10.2, 47.3, 11.1, 47.4, 12.75, 47.65, 12.95, 48.2, 13.4,
+        48.55,
+      ],
+    ],
+  ],
+  AU: [
+    [
+      [
+        113.5, -22, 114.1, -21.8, 116.7, -20.6, 119, -20, 121, -19.5, 122.2,
+        -17, 124, -16.3, 125.5, -14.5, 127, -13.8, 129.5, -14.9, 130, -13, 131,
+        -12.2, 132.6, -11.5, 135.5, -12.2, 136.8, -12.3, 135.5, -15, 137.8,
+        -16.5, 139.5, -17.5, 141, -16.5, 141.6, -12.5, 142.5, -10.7, 143.5, -14,
+        145.3, -15, 146, -18.5, 148.8, -20.3, 150.8, -22.5, 153.2, -25, 153.6,
+        -28.2, 153, -31, 151.3, -33.9, 150.1, -36.3, 149.9, -37.5, 147, -38.2,
+        146.3, -39.1, 144.9, -37.9, 143.5, -38.8, 140.5, -38, 139.6, -37, 138.6,
+        -35.5, 138.45, -34.9, 137.8, -33.5, 135.8, -34.8, 134, -32.5, 131,
+        -31.5, 126, -32.3, 124, -33, 121.8, -33.9, 118, -35, 115, -34.3, 115.7,
+        -32, 115, -29.5, 113.5, -26,
+      ],
+    ],
+    [
+      [
+        144.6, -40.7, 148.3, -40.9, 148.3, -42.2, 147, -43.6, 146, -43.6, 145.2,
+        -42.2,
+      ],
+    ],
+  ],
+  AZ: [
+    [
+      [
+        48.58, 41.84, 46.45, 41.9, 46.5, 41.3, 45, 41.3, 45.6, 41, 45.9, 40.3,
+        45.6, 39.8, 46.5, 39.5, 46.5, 38.9, 47, 39.2, 48, 39.6, 48.3, 39, 48,
+        38.5, 48.9, 38.4, 49, 39.2, 49.5, 40.2, 50.4, 40.35, 49.6, 40.6,
+      ],
+    ],
+    [[44.77, 39.71, 45.5, 39.5, 46.1, 38.85, 45.4, 38.95, 44.8, 39.6]],
+  ],
+  BA: [
+    [
+      [
+        19, 44.87, 19.35, 44.2, 19.6, 44.05, 19.25, 43.55, 18.7, 43.25, 18.45,
+        42.55, 17.7, 43, 17.2, 43.5, 16.2, 44.2, 15.75, 44.8, 16, 45.2, 16.9,
+        45.25, 17.5, 45.1,
+      ],
+    ],
+  ],
+  BB: [[[-59.66, 13.05, -59.42, 13.15, -59.58, 13.34, -59.66, 13.3]]],
+  BD: [
+    [
+      [
+        89.1, 21.65, 88.7, 23, 88.6, 24.3, 88.1, 24.6, 88.45, 25.2, 88.1, 25.8,
+        88.4, 26.5, 89, 26.3, 89.8, 25.3, 92.4, 25, 92.1, 24.3, 91.3, 24.1,
+        91.6, 23, 92.3, 23.6, 92.6, 22, 92.3, 20.7, 91.8, 22.3, 91, 22.5, 90.5,
+        22,
+      ],
+    ],
+  ],
+  BE: [
+    [
+      [
+        2.55, 51.1, 3.37, 51.37, 4.25, 51.37, 5.1, 51.45, 5.85, 51.15, 5.7,
+        50.75, 6.05, 50.72, 6.4, 50.32, 6.1, 50.15, 5.85, 49.7, 5.8, 49.5, 4.85,
+        49.8, 4.2, 50, 3, 50.78,
+      ],
+    ],
+  ],
+  BF: [
+    [
+      [
+        -5.52, 10.44, -4.7, 9.7, -3.6, 9.9, -2.69, 9.48, -2.8, 10.4, -2.8, 10.9,
+        0, 11, 0.9, 11, 1.4, 11.4, 2.4, 11.9, 2, 12.7, 0.9, 13, 0.24, 14.92,
+        -0.7, 15.1, -2, 14.2, -3.2, 13.7, -4.4, 12.7, -5.4, 11.3,
+      ],
+    ],
+  ],
+  BG: [
+    [
+      [
+        22.68, 44.22, 22.95, 43.85, 24, 43.7, 25.4, 43.65, 26.1, 43.95, 27.25,
+        44.1, 28.58, 43.75, 28, 43.2, 27.7, 42.5, 27.98, 41.98, 27, 42.1, 26.35,
+        41.72, 25.3, 41.25, 24.1, 41.55, 22.95, 41.34, 22.85, 42, 22.35, 42.35,
+        22.5, 42.7, 23, 43.2, 22.4, 43.8,
+      ],
+    ],
+  ],
+  BH: [[[50.4, 25.8, 50.45, 26.25, 50.65, 26.3, 50.65, 25.8]]],
+  BI: [
+    [
+      [
+        29, -2.8, 29.8, -2.8, 30.8, -2.4, 30.8, -3.3, 30.2, -4.3, 29.4, -4.45,
+        29.2, -3.3,
+      ],
+    ],
+  ],
+  BJ: [
+    [
+      [
+        1.63, 6.22, 2.7, 6.37, 2.75, 7, 2.7, 9, 3.1, 9.1, 3.6, 10.3, 3.6, 11.7,
+        2.85, 12.3, 2.4, 11.9, 1.4, 11.4, 0.9, 11, 0.8, 10.7, 1.4, 9.3, 1.6, 9,
+        1.6, 6.9,
+      ],
+    ],
+  ],
+  BN: [[[114.1, 4.6, 114.6, 4, 115.1, 4.4, 115.35, 4.9, 114.9, 5.05]]],
+  BO: [
+    [
+      [
+        -69.57, -10.95, -68.7, -12.5, -68.9, -13, -69, -14.5, -69.4, -15.5, -69,
+        -16.2, -69.5, -17.5, -68.5, -18.5, -68.8, -20, -67.9, -22, -67.18,
+        -22.82, -65.7, -22.1, -64.3, -22.8, -62.65, -22.24, -62.3, -21, -61.8,
+        -19.6, -59.1, -19.3, -58.15, -20.15, -57.5, -18.2, -58.4, -16.3, -60.2,
+        -16.3, -60.5, -13.8, -62, -13.2, -64, -12.5, -65.3, -11, -65.4, -9.7,
+        -66.6, -9.9, -68.6, -11.1,
+      ],
+    ],
+  ],
+  BR: [
+    [
+      [
+        -51.6, 4.2, -50, 1.8, -50, 0, -49, -0.2, -48.4, -1.3, -47, -0.7, -44.4,
+        -2.3, -41.5, -2.9, -38.5, -3.7, -35.2, -5.4, -34.8, -7.1, -35, -9, -37,
+        -11, -38.5, -13, -39, -17.5, -40.5, -20.5, -42, -23, -44.5, -23.3,
+        -46.5, -24.1, -48.5, -26, -48.8, -28.5, -50.5, -31, -52.5, -33, -53.4,
+        -33.75, -53.5, -32.5, -55.6, -30.9, -56, -30.9, -57.6, -30.2, -55.8,
+        -28, -54.6, -27.2, -53.7, -26.2, -54.6, -25.6, -54.3, -24, -55.4, -23.9,
+        -55.6, -22.6, -56.5, -22.2, -58, -22, -58.15, -20.15, -57.5, -18.2,
+        -58.4, -16.3, -60.2, -16.3, -60.5, -13.8, -62, -13.2, -64, -12.5, -65.3,
+        -11, -65.4, -9.7, -66.6, -9.9, -68.6, -11.1, -69.57, -10.95, -70.6, -11,
+        -70.6, -9.5, -72.2, -10, -73.2, -9.4, -74, -7.5, -73, -5, -70.6, -4.2,
+        -69.95, -4.2, -69.4, -1.2, -70, -0.2, -70, 0.6, -69.4, 1, -69.85, 1.72,
+        -66.9, 1.2, -65.5, 0.7, -64, 1.5, -64.8, 2.3, -64, 4.1, -62.8, 4,
+        -60.73, 5.2, -60, 4.5, -59.6, 3.9, -59.9, 2.8, -59.7, 1.8, -58.7, 1.25,
+        -56.48, 1.92, -55.9, 1.9, -54.6, 2.3, -52.9, 2.2,
+      ],
+    ],
+  ],
+  BS: [
+    [[-79, 26.5, -77.9, 26.5, -77.9, 26.75, -79, 26.75]],
+    [[-77.6, 25.9, -76.9, 25.9, -76.9, 26.9, -77.6, 26.9]],
+    [[-78.5, 23.9, -77.2, 23.9, -77.2, 25.2, -78.5, 25.2]],
+    [[-76.8, 24.6, -76.1, 24.6, -76.1, 25.6, -76.8, 25.6]],
+    [[-76.2, 23, -75, 23, -75, 24, -76.2, 24]],
+    [[-73.8, 20.9, -73, 20.9, -73, 21.3, -73.8, 21.3]],
+  ],
+  BT: [[[88.9, 27.3, 90, 28.3, 92, 27.8, 92.1, 26.85, 90, 26.7, 88.75, 26.8]]],
+  BW: [
+    [
+      [
+        25.25, -17.8, 26.2, -19.5, 27.3, -20.5, 28, -21.6, 29.35, -22.2, 27,
+        -23.6, 25.5, -25.7, 23, -25.3, 21.6, -26.9, 20, -24.75, 20, -22, 21,
+        -22, 21, -18.3, 23.3, -18, 24.2, -18,
+      ],
+    ],
+  ],
+  BY: [
+    [
+      [
+        23.5, 53.95, 24.8, 54, 25.8, 54.3, 25.7, 54.8, 26.8, 55.2, 26.6, 55.7,
+        27, 55.85, 28.15, 56.15, 29.4, 55.95, 30.9, 55.6, 30.8, 54.8, 31.8, 54,
+        32.7, 53.3, 31.8, 52.8, 31.78, 52.1, 30.5, 51.3, 28, 51.6, 26.5, 51.8,
+        25, 51.9, 23.6, 51.53, 23.2, 52.2, 23.6, 52.6, 23.9, 53.2,
+      ],
+    ],
+  ],
+  BZ: [
+    [
+      [
+        -88.3, 18.5, -89.15, 17.95, -89.2, 15.9, -88.9, 15.9, -88.2, 16.2,
+        -88.3, 17.5,
+      ],
+    ],
+  ],
+  CA: [
+    [
+      [
+        -141, 60.3, -141, 69.6, -134, 69.6, -128, 70.2, -117, 69, -108, 68.3,
+        -98, 68, -94, 69, -88, 68.5, -82, 67, -86, 65, -90.5, 63, -94, 60, -93,
+        58.5, -88, 56.5, -82, 55, -79.5, 51.5, -79, 54.5, -76.8, 56.5, -77.5,
+        59, -78, 62.3, -73, 62, -69.5, 61, -64.7, 60.3, -61.5, 56.5, -57.1,
+        51.4, -60, 50.2, -66.5, 50.2, -69.5, 48, -64.5, 48.8, -64.5, 46.2, -61,
+        45.5, -60, 46, -61, 45, -63.5, 44.5, -65.6, 43.4, -66.2, 44.4, -67,
+        44.8, -67.8, 47.1, -69.2, 47.4, -71.5, 45, -74.7, 45, -76.3, 44.2, -79,
+        43.3, -82.5, 42, -82.4, 45.3, -84.8, 46.5, -89.6, 48, -95.2, 49, -123,
+        49, -123.4, 48.3, -125.8, 48.8, -128.4, 50.8, -127.5, 52, -130, 54.7,
+        -130, 56, -133.5, 58.8, -137.5, 59.2, -139, 60.3,
+      ],
+    ],
+    [
+      [
+        -65, 61.8, -71, 62.8, -78, 64.3, -73.5, 67.5, -81.5, 69.5, -88.5, 73.5,
+        -80, 73.7, -72, 71.5, -68, 70.3, -62, 66.8,
+      ],
+    ],
+    [
+      [
+        -119, 71.5, -117.5, 69, -106, 68.8, -101.5, 69.5, -102, 72.7, -113,
+        73.3,
+      ],
+    ],
+    [[-125, 71.9, -120, 71.5, -117.5, 73.5, -118, 74.3, -124, 74.3]],
+    [
+      [
+        -80, 74.5, -92, 74.5, -100, 75.2, -117, 75.5, -123, 76.5, -110, 78.5,
+        -95, 81, -75, 83.1, -62, 82.2, -70, 79, -78, 76.5,
+      ],
+    ],
+    [
+      [
+        -59.4, 47.6, -56, 47.6, -53.2, 46.6, -52.6, 47.7, -53.5, 49.5, -55.7,
+        51.6, -57.3, 50.7, -59.4, 48.5,
+      ],
+    ],
+    [[-64.4, 46.6, -62, 46.45, -62, 46, -64, 46.35]],
+  ],
+  CD: [
+    [
+      [
+        12.2, -5.8, 12.3, -6.05, 13.5, -5.9, 16.3, -5.9, 17, -7.5, 17.6, -8.1,
+        19.4, -8, 19.5, -7, 21.8, -7.3, 21.8, -9.5, 22.3, -11, 23.9, -10.9, 24,
+        -11, 25.3, -11.2, 26, -11.9, 27.2, -11.6, 28.4, -12.4, 29, -13.4, 29.8,
+        -13.4, 29.8, -12.2, 28.5, -11, 28.7, -8.5, 30.75, -8.2, 29.6, -6, 29.4,
+        -4.45, 29.2, -3.3, 29, -2.8, 29.1, -2, 29.6, -1.4, 29.8, 0.2, 30, 1, 31,
+        2.2, 30.7, 3, 30.85, 3.49, 29.5, 4.6, 28.5, 4.4, 27.45, 5.02, 26, 5.1,
+        24, 4.9, 22.5, 4.2, 20.5, 4.4, 19, 4, 18.6, 3.5, 18.1, 1.5, 17.7, -0.5,
+        16.2, -2.3, 15.6, -4.05, 15.3, -4.3, 14.6, -4.9, 13.1, -4.6, 12.5, -5.2,
+      ],
+    ],
+  ],
+  CF: [
+    [
+      [
+        27.45, 5.02, 26.5, 6.5, 25.3, 7.6, 24.25, 8.63, 23.5, 9, 22.87, 10.92,
+        21.7, 10.4, 20, 9.1, 18.9, 8.8, 17, 7.9, 15.5, 7.5, 14.6, 5.9, 15, 4,
+        16.2, 2.2, 16.6, 3.5, 18.6, 3.5, 19, 4, 20.5, 4.4, 22.5, 4.2, 24, 4.9,
+        26, 5.1,
+      ],
+    ],
+  ],
+  CG: [
+    [
+      [
+        11.1, -3.95, 11.6, -2.8, 12.5, -2.3, 14.4, -2, 13.9, -1, 14.4, -0.5,
+        14.2, 1.4, 13.3, 2.16, 14.5, 2.1, 16.2, 2.2, 16.6, 3.5, 18.6, 3.5, 18.1,
+        1.5, 17.7, -0.5, 16.2, -2.3, 15.6, -4.05, 15.3, -4.3, 14.6, -4.9, 13.1,
+        -4.6, 12.8, -4.4, 12, -5,
+      ],
+    ],
+  ],
+  CH: [
+    [
+      [
+        7.58, 47.59, 6.95, 47.45, 6.1, 46.6, 5.95, 46.15, 6.3, 46.15, 6.8, 46.4,
+        7.05, 45.95, 7.9, 45.95, 8.4, 46.45, 9.02, 45.83, 9.3, 46.5, 10.1,
+        46.25, 10.45, 46.55, 10.45, 46.85, 9.62, 47.05, 9.47, 47.05, 9.53,
+        47.27, 9.55, 47.55, 8.6, 47.8, 8.2, 47.6,
+      ],
+    ],
+  ],
+  CI: [
+    [
+      [
+        -7.52, 4.35, -5, 5.1, -4, 5.25, -3.1, 5.1, -2.75, 5.6, -3.2, 6.3, -2.5,
+        8.2, -2.69, 9.48, -3.6, 9.9, -4.7, 9.7, -5.52, 10.44, -6.2, 10.2, -7,
+        10.2, -8, 10.3, -8.1, 10.1, -7.9, 9.4, -8.2, 8.5, -8.47, 7.56, -8.2,
+        6.3, -7.5, 5.6,
+      ],
+    ],
+  ],
+  CL: [
+    [
+      [
+        -70.4, -18.35, -69.5, -17.5, -68.5, -18.5, -68.8, -20, -67.9, -22,
+        -67.18, -22.82, -67.3, -24, -68.5, -25.2, -68.8, -27, -69.8, -30, -70,
+        -33, -70.4, -36, -71, -38, -71.7, -40, -71.8, -42, -71.7, -44, -71.8,
+        -46, -72.3, -48, -73.4, -49.5, -72.5, -50.7, -72.3, -51.6, -71.9, -52,
+        -69, -52, -68.4, -52.35, -71, -53.9, -74, -52.5, -75.5, -48, -74.5, -44,
+        -74.2, -42.5, -73.7, -41.8, -73.5, -39, -73.6, -37, -72, -34, -71.6,
+        -33, -71.5, -30, -70.9, -27, -70.5, -23.5, -70.2, -20,
+      ],
+    ],
+    [[-68.6, -52.6, -68.6, -54.9, -71, -55.2, -73, -54, -70.5, -53]],
+  ],
+  CM: [
+    [
+      [
+        8.5, 4.6, 9, 4, 9.6, 3.8, 9.9, 2.9, 9.8, 2.3, 11.33, 2.17, 13.3, 2.16,
+        14.5, 2.1, 16.2, 2.2, 15, 4, 14.6, 5.9, 15.5, 7.5, 14.5, 8, 15.6, 10,
+        14.9, 10.9, 15, 12, 14.2, 13, 14.6, 12.2, 13.8, 10.9, 13.2, 9.5, 12.2,
+        8.4, 11.8, 7, 11, 6.6, 9.8, 6.8, 8.9, 5.8,
+      ],
+    ],
+  ],
+  CN: [
+    [
+      [
+        87.8, 49.17, 88, 48.6, 90.7, 47, 90.9, 45.3, 93.5, 45, 95.3, 44.3, 96.4,
+        42.7, 100, 42.6, 105, 41.6, 110.4, 42.8, 111.9, 43.7, 113.5, 44.8,
+        117.4, 46.6, 119.7, 47.2, 115.5, 48.1, 116.7, 49.85, 117.8, 49.5, 120,
+        51.8, 121.2, 53.3, 125.5, 53.1, 127.5, 49.8, 130.6, 48.9, 134.75, 48.3,
+        133.1, 45.1, 131, 44.8, 131.2, 43, 130.7, 42.3, 129.7, 42.45, 128, 41.9,
+        126.6, 41.7, 125, 40.5, 124.3, 39.85, 121.2, 38.8, 122.2, 40.6, 121,
+        40.8, 119.5, 39.8, 117.8, 38.9, 119, 37.7, 120.7, 37.8, 122.6, 37.4,
+        120.3, 36, 119.2, 35, 120.9, 32.6, 121.9, 31.7, 121.9, 30.9, 121.9, 29,
+        120.5, 27.2, 119.6, 26.2, 118, 24.5, 116.5, 23, 114.5, 22.55, 113.9,
+        22.5, 113.6, 22.25, 113, 22, 111, 21.5, 110.2, 20.3, 109.7, 21.5, 108,
+        21.55, 106.7, 22, 106, 22.9, 105.3, 23.3, 104, 22.8, 102.5, 22.75,
+        102.1, 22.45, 101.6, 21.2, 101.15, 21.55, 100.1, 21.7, 99.2, 22.1, 99.5,
+        23, 98.7, 23.9, 97.5, 24, 98, 25, 98.7, 25.9, 98.7, 27.5, 97.55, 28.2,
+        96, 29.4, 94, 29.3, 92, 27.8, 90, 28.3, 88.9, 27.3, 88.1, 27.9, 86.9,
+        28, 85, 28.6, 83.5, 29.3, 81, 30.2, 79.5, 31, 78.8, 32.5, 78.4, 32.6,
+        79.3, 33.2, 78.3, 34.6, 77.8, 35.5, 76, 36.9, 74.9, 37.25, 75.1, 38,
+        74.8, 38.6, 73.6, 39.45, 74, 40, 75.6, 40.6, 76.9, 41, 78.4, 41.4,
+        80.25, 42.05, 80.3, 44, 80.4, 45.1, 82.5, 45.5, 83, 47.2, 85.5, 47,
+        85.7, 48.5, 87.3, 49.1,
+      ],
+    ],
+    [
+      [
+        108.6, 19.2, 109.5, 18.2, 110.5, 18.7, 111, 19.7, 110.5, 20.1, 109.5,
+        20, 108.7, 19.9,
+      ],
+    ],
+  ],
+  CO: [
+    [
+      [
+        -77.4, 8.7, -76, 9.4, -75.5, 10.5, -74.8, 11, -73, 11.6, -72.2, 12.4,
+        -71.7, 12.45, -71.3, 11.85, -72.3, 11.1, -72.8, 10, -72.9, 9.1, -72.4,
+        8.4, -72.4, 7.4, -70.1, 7, -69.4, 6.1, -67.45, 6.2, -67.8, 5.3, -67.8,
+        4, -67.3, 3.3, -67.8, 2.8, -66.9, 1.2, -69.85, 1.72, -69.4, 1, -70, 0.6,
+        -70, -0.2, -69.4, -1.2, -69.95, -4.2, -70.7, -3.8, -72, -2.4, -73.6,
+        -1.3, -75.2, -0.1, -77.4, 0.4, -79, 1.4, -78.5, 2.5, -77.5, 3.8, -77.3,
+        5, -77.5, 6.5, -77.9, 7.2, -77.2, 7.9,
+      ],
+    ],
+  ],
+  CR: [
+    [
+      [
+        -83.7, 10.95, -82.6, 9.6, -82.9, 8, -83.6, 8.4, -84.8, 9.6, -85.8, 10.3,
+        -85.7, 11.1, -84.7, 11.1,
+      ],
+    ],
+  ],
+  CU: [
+    [
+      [
+        -84.95, 21.85, -84, 22.7, -82.4, 23.25, -80.5, 23.1, -77.5, 21.8, -75.6,
+        21.1, -74.1, 20.25, -74.6, 19.9, -77.7, 19.85, -77.1, 20.6, -78.5, 21.6,
+        -81, 21.7, -82, 22.2, -83.4, 21.8,
+      ],
+    ],
+    [[-83.2, 21.5, -82.5, 21.6, -82.6, 21.9, -83.1, 21.95]],
+  ],
+  CV: [
+    [[-23.8, 14.9, -23.45, 14.9, -23.45, 15.35, -23.8, 15.35]],
+    [[-25.4, 16.9, -24.9, 16.9, -24.9, 17.2, -25.4, 17.2]],
+    [[-23, 16.55, -22.85, 16.55, -22.85, 16.85, -23, 16.85]],
+    [[-23, 15.95, -22.65, 15.95, -22.65, 16.25, -23, 16.25]],
+    [[-24.55, 14.8, -24.3, 14.8, -24.3, 15.05, -24.55, 15.05]],
+  ],
+  CY: [
+    [
+      [
+        32.3, 35.1, 33, 35.4, 34.6, 35.7, 34, 35, 33.9, 34.95, 32.9, 34.6, 32.3,
+        34.7,
+      ],
+    ],
+  ],
+  CZ: [
+    [
+      [
+        14.82, 50.87, 16.3, 50.65, 16.9, 50.45, 17.7, 50.05, 18.85, 49.5, 18.1,
+        49, 17.2, 48.85, 16.95, 48.6, 15, 49, 14.7, 48.6, 13.85, 48.8, 12.6,
+        49.7, 12.1, 50.3, 13.6, 50.75,
+      ],
+    ],
+  ],
+  DE: [
+    [
+      [
+        7.2, 53.25, 8, 53.7, 8.7, 53.9, 8.6, 54.9, 9.4, 54.8, 9.9, 54.8, 10.9,
+        54.4, 11, 54, 12.3, 54.35, 13.4, 54.7, 14.2, 53.95, 14.4, 53.3, 14.6,
+        52.6, 14.75, 52.05, 15, 51.1, 14.82, 50.87, 13.6, 50.75, 12.1, 50.3,
+        12.6, 49.7, 13.85, 48.8, 13.4, 48.55, 12.95, 48.2, 12.75, 47.65, 11.1,
+        47.4, 10.2, 47.3, 9.55, 47.55, 8.6, 47.8, 8.2, 47.6, 7.58, 47.59, 8.2,
+        49, 6.35, 49.45, 6.52, 49.8, 6.13, 50.18, 6.4, 50.32, 6.05, 50.72, 6,
+        50.8, 6.2, 51.4, 6.15, 51.85, 7.05, 52.25, 6.7, 52.5, 7.05, 52.6,
+      ],
+    ],
+  ],
+  DJ: [
+    [
+      [
+        43.12, 12.7, 43.4, 12.1, 43, 11.75, 43.25, 11.55, 43.25, 11.46, 42.9,
+        11, 41.8, 11.6, 42.4, 12.47,
+      ],
+    ],
+  ],
+  DK: [
+    [
+      [
+        8.6, 54.9, 8.1, 55.5, 8.1, 56.6, 8.6, 57.1, 10.6, 57.75, 10.3, 56.6,
+        10.9, 56.4, 10.2, 55.9, 9.6, 55.5, 9.9, 54.8, 9.4, 54.8,
+      ],
+    ],
+    [[11.1, 55.2, 12.2, 55, 12.7, 55.6, 12.5, 56.1, 11.8, 55.95, 11, 55.75]],
+    [[9.7, 55.5, 10.8, 55.3, 10.7, 55.05, 10, 55.1]],
+    [[11, 54.85, 12, 54.65, 12.1, 54.9, 11.2, 54.95]],
+    [[14.7, 55.1, 14.9, 55.3, 15.15, 55.1, 14.95, 54.98]],
+  ],
+  DM: [[[-61.49, 15.2, -61.25, 15.25, -61.24, 15.63, -61.48, 15.63]]],
+  DO: [
+    [
+      [
+        -71.75, 19.75, -70, 19.7, -69.2, 19.35, -68.35, 18.6, -69, 18.4, -70,
+        18.2, -71.1, 18.1, -71.4, 17.6, -71.75, 18.05, -71.9, 18.6, -71.75, 19,
+      ],
+    ],
+  ],
+  DZ: [
+    [
+      [
+        -2.2, 35.1, 1, 36.5, 3, 36.85, 5, 36.8, 8.6, 36.95, 8.3, 35, 8.4, 34,
+        7.5, 33.2, 9.05, 32.1, 9.5, 30.2, 10, 28.5, 9.8, 26.5, 10.2, 24.9, 11.6,
+        24.3, 11.98, 23.52, 7.5, 20.9, 5.8, 19.45, 4.25, 19.15, 3.3, 19, 3.1,
+        19.8, 1.2, 20.7, -4.83, 25, -8.67, 27.29, -8.67, 27.67, -8.7, 28.7,
+        -6.5, 29.5, -5.2, 30, -3.8, 31.2, -2.9, 31.8, -1.2, 32.1, -1.7, 33,
+        -1.8, 34.5,
+      ],
+    ],
+  ],
+  EC: [
+    [
+      [
+        -80.3, -3.4, -79.5, -4.6, -78.7, -4.6, -78.3, -3.4, -77, -2.5, -75.5,
+        -1.5, -75.2, -0.1, -77.4, 0.4, -79, 1.4, -80.1, 0.8, -80.5, -0.5, -81,
+        -1.5, -80.9, -2.2,
+      ],
+    ],
+    [[-91.6, -1.05, -89.3, -1, -89.3, -0.5, -90.5, -0.2, -91.5, 0.1]],
+  ],
+  EE: [
+    [
+      [
+        28.05, 59.45, 27.5, 58.8, 27.7, 57.8, 27.35, 57.55, 26, 57.8, 25, 58.05,
+        24.3, 57.9, 23.5, 58.3, 23.5, 59.2, 24.8, 59.5, 26, 59.6,
+      ],
+    ],
+    [[21.8, 58.5, 23.3, 58.6, 22.9, 58, 22.1, 57.9]],
+  ],
+  EG: [
+    [
+      [
+        25.15, 31.6, 27, 31.3, 29.9, 31.2, 31, 31.6, 32.3, 31.3, 34.27, 31.22,
+        34.9, 29.5, 34.3, 27.8, 32.6, 29.9, 32.4, 29.6, 33.5, 27.5, 34.5, 26,
+        35.6, 23.9, 36.9, 22, 25, 22, 24.9, 30,
+      ],
+    ],
+  ],
+  ER: [
+    [
+      [
+        38.6, 18, 39, 16.6, 39.5, 15.6, 40.3, 14.9, 41.7, 13.6, 43.12, 12.7,
+        42.4, 12.47, 41.2, 13.3, 40.1, 14.5, 39.1, 14.7, 38.4, 14.4, 37.3, 14.4,
+        36.45, 14.3, 37, 17,
+      ],
+    ],
+  ],
+  ES: [
+    [
+      [
+        -1.8, 43.35, -0.7, 42.8, 0.7, 42.85, 1.45, 42.6, 1.8, 42.45, 3.2, 42.45,
+        3.2, 41.9, 2, 41.2, 0.9, 41, 0, 39.8, 0.2, 38.8, -0.8, 37.6, -2.1, 36.7,
+        -4.4, 36.7, -5.35, 36.15, -5.6, 36, -6.3, 36.5, -7.4, 37.2, -7.5, 37.6,
+        -7, 38, -7.3, 38.5, -7, 39, -7.5, 39.7, -6.9, 40.25, -6.8, 41, -6.2,
+        41.6, -6.6, 41.95, -8.2, 42.1, -8.9, 41.9, -9.3, 43, -8, 43.75, -5.8,
+        43.6, -3.5, 43.45,
+      ],
+    ],
+    [[2.3, 39.55, 3.1, 39.95, 3.45, 39.7, 2.9, 39.35]],
+    [[3.8, 39.95, 4.3, 39.85, 4.3, 39.8, 3.8, 39.9]],
+    [[1.2, 38.95, 1.6, 39.1, 1.6, 38.85, 1.35, 38.83]],
+    [[-16.95, 28.35, -16.1, 28.6, -16.4, 28, -16.7, 28]],
+    [[-15.8, 28.2, -15.4, 28.15, -15.4, 27.8, -15.65, 27.75]],
+    [[-14.5, 28.05, -13.8, 28.75, -13.9, 28.2, -14.2, 28.05]],
+    [[-13.9, 28.85, -13.45, 29.2, -13.45, 28.95, -13.85, 28.85]],
+  ],
+  ET: [
+    [
+      [
+        34.1, 9.5, 35, 11.5, 36.1, 12.7, 36.45, 14.3, 37.3, 14.4, 38.4, 14.4,
+        39.1, 14.7, 40.1, 14.5, 41.2, 13.3, 42.4, 12.47, 41.8, 11.6, 42.9, 11,
+        44, 9, 48, 8, 46.9, 6.5, 45, 5, 43.7, 4.8, 42, 4.2, 41.9, 3.98, 41,
+        3.95, 39.5, 3.5, 38, 3.6, 36, 4.45, 35.3, 5, 34.6, 6.6, 33, 7.8, 34.1,
+        8.6,
+      ],
+    ],
+  ],
+  FI: [
+    [
+      [
+        20.55, 69.06, 22.4, 68.7, 24, 68.8, 25.8, 69.4, 27.9, 70.08, 28.93,
+        69.05, 28.4, 68.5, 30, 67.7, 29.1, 66.9, 30.1, 65.7, 29.7, 64.8, 30.6,
+        64.2, 29.9, 63.7, 31.5, 62.9, 30, 61.8, 27.8, 60.55, 26.5, 60.4, 25,
+        60.1, 23, 59.85, 21.3, 60.5, 21.4, 61.5, 21.2, 62.6, 22.5, 63.8, 24.5,
+        64.8, 25.4, 65.3, 24.15, 65.8, 23.7, 66.8, 23.6, 67.9, 22, 68.5,
+      ],
+    ],
+  ],
+  FJ: [
+    [[177.2, -18.3, 178.7, -18.3, 178.7, -17.3, 177.2, -17.3]],
+    [[178.4, -16.9, 179.95, -16.9, 179.95, -16.1, 178.4, -16.1]],
+    [[179.8, -17.1, 180.15, -17.1, 180.15, -16.7, 179.8, -16.7]],
+    [[181.1, -18.3, 181.25, -18.3, 181.25, -18.15, 181.1, -18.15]],
+  ],
+  FM: [
+    [[158.1, 6.8, 158.35, 6.8, 158.35, 7.05, 158.1, 7.05]],
+    [[151.5, 7.2, 152, 7.2, 152, 7.6, 151.5, 7.6]],
+    [[138.05, 9.4, 138.2, 9.4, 138.2, 9.65, 138.05, 9.65]],
+    [[162.9, 5.25, 163.05, 5.25, 163.05, 5.4, 162.9, 5.4]],
+  ],
+  FR: [
+    [
+      [
+        -1.8, 43.35, -1.25, 44.6, -1.2, 46.2, -2.2, 47.1, -4.5, 47.9, -4.8,
+        48.35, -3, 48.8, -1.6, 48.7, -1.9, 49.7, -1.2, 49.4, 0.2, 49.5, 1.5,
+        50.1, 1.6, 50.9, 2.55, 51.1, 3, 50.78, 4.2, 50, 4.85, 49.8, 5.8, 49.5,
+        6.35, 49.45, 8.2, 49, 7.58, 47.59, 6.95, 47.45, 6.1, 46.6, 5.95, 46.15,
+        6.3, 46.15, 6.8, 46.4, 7.05, 45.95, 6.6, 45.1, 7, 44.2, 7.5, 43.8, 6.2,
+        43.1, 4.8, 43.4, 3.1, 43.1, 3.2, 42.45, 1.8, 42.45, 1.45, 42.6, 0.7,
+        42.85, -0.7, 42.8,
+      ],
+    ],
+    [[8.6, 41.4, 9.2, 41.35, 9.55, 42.1, 9.45, 43, 8.6, 42.4, 8.55, 41.9]],
+  ],
+  GA: [
+    [
+      [
+        9.6, 1, 11.33, 1, 11.33, 2.17, 13.3, 2.16, 14.2, 1.4, 14.4, -0.5, 13.9,
+        -1, 14.4, -2, 12.5, -2.3, 11.6, -2.8, 11.1, -3.95, 9, -1.5, 8.7, -0.6,
+        9.3, -0.6, 9.35, 0.4,
+      ],
+    ],
+  ],
+  GB: [
+    [
+      [
+        -5.7, 50.05, -3.5, 50.2, -1, 50.7, 1.4, 51.2, 1.7, 52.7, 0.3, 53.4,
+        -0.2, 54.1, -1.5, 55.5, -2, 55.9, -1.8, 57.6, -3.2, 58.6, -5, 58.6,
+        -6.2, 57.5, -5.6, 56.4, -5.7, 55.3, -5.1, 54.7, -3.4, 54.9, -3.6, 54.3,
+        -3, 53.4, -4.7, 53.3, -4.2, 52.4, -5.3, 51.8, -3.2, 51.4, -4.2, 51.2,
+      ],
+    ],
+    [
+      [
+        -6, 55.25, -5.45, 54.45, -6.05, 54, -6.6, 54.05, -7, 54.25, -8.15,
+        54.45, -7.55, 54.75, -7.25, 55.05,
+      ],
+    ],
+    [[-7.6, 56.9, -7.2, 56.9, -6.1, 58.5, -6.9, 58.3, -7.5, 57.6]],
+    [[-3.4, 58.75, -2.7, 59.3, -2.4, 59, -3, 58.75]],
+    [[-1.4, 59.85, -1, 60.2, -0.75, 60.8, -1.6, 60.5]],
+  ],
+  GD: [[[-61.8, 12, -61.6, 12, -61.6, 12.24, -61.8, 12.24]]],
+  GE: [
+    [
+      [
+        40, 43.4, 42, 43.3, 44, 42.75, 45.3, 42.5, 46.45, 41.9, 46.5, 41.3, 45,
+        41.3, 44, 41.2, 43.45, 41.1, 42.8, 41.6, 41.55, 41.5, 41.7, 42, 41.5,
+        42.6,
+      ],
+    ],
+  ],
+  GH: [
+    [
+      [
+        -3.1, 5.1, -2, 4.75, -0.2, 5.5, 1.2, 6.1, 0.55, 6.9, 0.65, 8.3, 0.4,
+        9.5, 0.5, 10.6, 0, 11, -2.8, 10.9, -2.8, 10.4, -2.69, 9.48, -2.5, 8.2,
+        -3.2, 6.3, -2.75, 5.6,
+      ],
+    ],
+  ],
+  GM: [
+    [
+      [
+        -16.8, 13.6, -15, 13.8, -13.8, 13.5, -13.8, 13.3, -15, 13.35, -16.7,
+        13.15,
+      ],
+    ],
+  ],
+  GN: [
+    [
+      [
+        -15, 10.95, -14.7, 11.5, -13.7, 11.7, -13.7, 12, -13.7, 12.67, -12.4,
+        12.4, -11.37, 12.41, -10.6, 11.9, -9, 12.3, -8.3, 11, -8.1, 10.1, -7.9,
+        9.4, -8.2, 8.5, -8.47, 7.56, -9.3, 7.4, -9.5, 8.4, -10.3, 8.5, -10.7,
+        9.3, -11.2, 10, -12.4, 9.9, -12.9, 9.3, -13.3, 9.05, -13.75, 9.5, -14.5,
+        10.3,
+      ],
+    ],
+  ],
+  GQ: [
+    [[9.8, 2.3, 11.33, 2.17, 11.33, 1, 9.6, 1]],
+    [[8.4, 3.2, 8.95, 3.2, 8.95, 3.8, 8.4, 3.8]],
+  ],
+  GR: [
+    [
+      [
+        20, 39.65, 20.7, 39.05, 21.1, 38.35, 21.3, 37.8, 21.7, 36.95, 22.4,
+        36.4, 22.8, 36.75, 23.2, 36.45, 23.1, 37.3, 23.2, 37.75, 23.7, 37.8,
+        24.05, 37.65, 24.1, 38.2, 23.3, 38.65, 22.8, 38.85, 22.9, 39.4, 23.35,
+        39.2, 22.6, 40, 22.9, 40.6, 23.7, 40.2, 24, 40.7, 24.9, 40.9, 26.05,
+        40.75, 26.3, 41.2, 26.6, 41.6, 26.35, 41.72, 25.3, 41.25, 24.1, 41.55,
+        22.95, 41.34, 21.9, 41.1, 20.98, 40.86, 20.7, 40.3,
+      ],
+    ],
+    [
+      [
+        23.5, 35.55, 24.3, 35.55, 25.5, 35.35, 26.3, 35.3, 26.1, 35, 24.7, 34.9,
+        23.6, 35.2,
+      ],
+    ],
+    [[27.7, 36.45, 28.25, 36.45, 28.1, 35.9, 27.75, 35.9]],
+    [[25.85, 39.3, 26.2, 39.4, 26.6, 39.05, 26.2, 39, 25.85, 39.1]],
+    [[19.6, 39.8, 19.9, 39.8, 20.1, 39.4, 19.9, 39.4]],
+    [[22.9, 38.9, 23.5, 38.9, 24.6, 38.15, 24.3, 37.95, 23.6, 38.45]],
+  ],
+  GT: [
+    [
+      [
+        -92.2, 14.5, -91.7, 16, -90.9, 16.1, -90.9, 17.8, -89.15, 17.8, -89.2,
+        15.9, -88.2, 15.7, -89.2, 14.6, -89.35, 14.4, -89.6, 14.2, -90.1, 13.7,
+        -91.4, 13.9,
+      ],
+    ],
+  ],
+  GW: [
+    [
+      [
+        -16.7, 12.35, -15, 12.6, -13.7, 12.67, -13.7, 12, -13.7, 11.7, -14.7,
+        11.5, -15, 10.95, -15.5, 11.3, -16.3, 11.9,
+      ],
+    ],
+  ],
+  GY: [
+    [
+      [
+        -59.8, 8.3, -58.5, 7.3, -58, 6.8, -57.15, 5.95, -57.9, 4.9, -58, 3.5,
+        -56.48, 1.92, -58.7, 1.25, -59.7, 1.8, -59.9, 2.8, -59.6, 3.9, -60, 4.5,
+        -60.73, 5.2, -61.4, 5.95, -60.7, 7.5,
+      ],
+    ],
+  ],
+  HN: [
+    [
+      [
+        -88.2, 15.7, -86, 16, -84.3, 15.8, -83.2, 15, -84.7, 14.6, -86, 13.9,
+        -86.8, 13.3, -87.3, 12.95, -87.8, 13.2, -87.75, 13.85, -88.5, 14,
+        -89.35, 14.4, -89.2, 14.6,
+      ],
+    ],
+  ],
+  HR: [
+    [
+      [
+        13.6, 45.45, 14.6, 45.6, 15.2, 45.45, 15.6, 45.85, 15.65, 46.2, 16.6,
+        46.5, 16.9, 46.4, 17.6, 45.95, 18.85, 45.9, 19, 45.5, 19.4, 45.2, 19,
+        44.87, 17.5, 45.1, 16.9, 45.25, 16, 45.2, 15.75, 44.8, 16.2, 44.2, 17.2,
+        43.5, 17.7, 43, 18.45, 42.55, 18.55, 42.4, 17.5, 42.85, 16.4, 43.5,
+        15.2, 44.2, 14.5, 45.2, 13.9, 44.8, 13.55, 45.1,
+      ],
+    ],
+  ],
+  HT: [
+    [
+      [
+        -71.75, 19.75, -73.4, 19.9, -72.8, 19.25, -72.5, 18.8, -72.8, 18.6,
+        -74.45, 18.5, -74.3, 18.2, -73.4, 18.2, -72, 18.1, -71.75, 18.05, -71.9,
+        18.6, -71.75, 19,
+      ],
+    ],
+    [[-73.1, 18.95, -72.7, 18.75, -72.8, 18.85, -73.2, 19]],
+  ],
+  HU: [
+    [
+      [
+        16.1, 46.85, 16.45, 47.4, 17.05, 47.7, 17.15, 48, 17.8, 47.75, 19, 48.1,
+        20.5, 48.5, 22.15, 48.4, 22.9, 47.95, 22, 47.4, 21.3, 46.4, 20.25, 46.1,
+        19, 46.1, 18.85, 45.9, 17.6, 45.95, 16.9, 46.4, 16.6, 46.5,
+      ],
+    ],
+  ],
+  ID: [
+    [
+      [
+        95.3, 5.6, 97.5, 5.2, 98.7, 3.7, 100.4, 2.2, 102, 1, 103.7, -1, 104.5,
+        -2, 106, -3.2, 105.8, -5.9, 104.5, -5.9, 102.3, -4, 100.3, -1, 98.6,
+        1.7, 97, 3.5,
+      ],
+    ],
+    [
+      [
+        105.2, -6.8, 106, -5.9, 106.8, -6.05, 108.3, -6.3, 110.4, -6.9, 112.7,
+        -7, 114.4, -7.7, 114.4, -8.7, 111, -8.2, 108, -7.8, 106.4, -7.4,
+      ],
+    ],
+    [[114.4, -8.8, 115.7, -8.8, 115.7, -8.1, 114.4, -8.1]],
+    [[115.8, -8.9, 116.7, -8.9, 116.7, -8.2, 115.8, -8.2]],
+    [[116.8, -9.1, 119.2, -9.1, 119.2, -8.1, 116.8, -8.1]],
+    [[119.8, -8.9, 123, -8.9, 123, -8.2, 119.8, -8.2]],
+    [[118.9, -10.3, 120.8, -10.3, 120.8, -9.4, 118.9, -9.4]],
+    [
+      [
+        123.5, -10.35, 124.3, -10.1, 125.1, -9.5, 124.95, -9, 124, -9.35, 123.5,
+        -10,
+      ],
+    ],
+    [
+      [
+        108.9, 1.3, 109, 1.5, 109.65, 2, 111, 1, 112.5, 1.5, 114.5, 1.5, 115.5,
+        3, 116, 4, 117.6, 4.2, 117.9, 3, 117.9, 1, 117.3, 0, 116.8, -1.2, 116.3,
+        -3.9, 114.6, -4.1, 111.5, -3.3, 110.2, -2.9, 109, -0.5,
+      ],
+    ],
+    [
+      [
+        119.35, -5.6, 120.45, -5.6, 120.4, -3.2, 121.05, -2.65, 121.4, -4.7,
+        122.85, -4.5, 122, -3, 121.3, -1.9, 123.4, -1, 122, -0.8, 120.9, -1.3,
+        120.2, 0.45, 123.7, 0.35, 125.2, 1.45, 124.6, 1.6, 122.5, 1, 120.8, 1.3,
+        120, 0.9, 119.7, 0.2, 119.8, -1, 118.8, -2.8, 119.4, -3.5,
+      ],
+    ],
+    [[127.4, -0.8, 128.9, -0.8, 128.9, 2.3, 127.4, 2.3]],
+    [[127.8, -3.8, 130.9, -3.8, 130.9, -2.8, 127.8, -2.8]],
+    [[125.9, -3.9, 127.2, -3.9, 127.2, -3, 125.9, -3]],
+    [
+      [
+        130.9, -1.4, 131.3, -0.8, 132.5, -0.4, 134, -0.9, 134.2, -2.2, 135,
+        -3.3, 136, -2.3, 137.5, -1.5, 138.7, -1.8, 140, -2.35, 140.7, -2.45,
+        141, -2.6, 141, -9.1, 140, -8.1, 139, -8.1, 138, -8.4, 137.7, -7.5, 138,
+        -6.5, 136, -4.5, 134.5, -3.9, 133, -4, 132, -2.9, 133, -2.4, 132, -2.2,
+        131, -1.5,
+      ],
+    ],
+  ],
+  IE: [
+    [
+      [
+        -6.05, 54, -6.1, 52.9, -6.35, 52.2, -7.5, 52, -8.5, 51.6, -10.2, 51.6,
+        -10, 52.2, -9.2, 52.6, -10, 53.4, -9.9, 54.2, -8.5, 54.3, -8.7, 54.7,
+        -8.3, 55.15, -7.25, 55.05, -7.55, 54.75, -8.15, 54.45, -7, 54.25, -6.6,
+        54.05,
+      ],
+    ],
+  ],
+  IL: [
+    [
+      [
+        35.1, 33.09, 35.62, 33.25, 35.6, 32.7, 35.55, 32.4, 35.2, 32.55, 35,
+        32.3, 35, 31.85, 35.25, 31.8, 35.2, 31.72, 34.9, 31.35, 35.45, 31.35,
+        35.45, 31, 35.3, 30.5, 35, 29.55, 34.9, 29.5, 34.27, 31.22, 34.57,
+        31.55, 34.75, 32, 34.9, 32.5, 35, 32.9,
+      ],
+    ],
+  ],
+  IN: [
+    [
+      [
+        89.1, 21.65, 88.7, 23, 88.6, 24.3, 88.1, 24.6, 88.45, 25.2, 88.1, 25.8,
+        88.4, 26.5, 89, 26.3, 89.8, 25.3, 92.4, 25, 92.1, 24.3, 91.3, 24.1,
+        91.6, 23, 92.3, 23.6, 92.6, 22, 93.2, 22.3, 93.4, 23.9, 94.2, 24, 94.6,
+        25.5, 95.2, 26.5, 96, 27.2, 97.1, 27.2, 97.55, 28.2, 96, 29.4, 94, 29.3,
+        92, 27.8, 92.1, 26.85, 90, 26.7, 88.75, 26.8, 88.9, 27.3, 88.1, 27.9,
+        88, 26.4, 86, 26.6, 84.5, 27.3, 83.3, 27.4, 81.5, 28.4, 80.05, 28.85,
+        80.5, 29.7, 81, 30.2, 79.5, 31, 78.8, 32.5, 78.4, 32.6, 79.3, 33.2,
+        78.3, 34.6, 77.8, 35.5, 77, 35.5, 75.8, 34.9, 74, 34.6, 73.9, 34, 74.6,
+        33, 74.6, 31.9, 74.5, 31, 73.9, 30.3, 72, 28, 71, 27.5, 70.5, 26, 71,
+        24.6, 68.8, 23.95, 68.2, 23.7, 69, 22.4, 70.2, 20.9, 72.6, 21.2, 72.8,
+        20, 73, 18, 73.7, 15.5, 74.8, 12.8, 76.3, 9.5, 77.3, 8.1, 78.2, 8.9,
+        79.3, 10.3, 79.9, 11.5, 80.3, 13.5, 80.2, 15.5, 81.3, 16.4, 82.3, 17,
+        84.8, 19.3, 86.5, 20.3, 87, 21.6, 88.2, 21.6,
+      ],
+    ],
+    [[92.5, 10.5, 92.6, 11.6, 92.8, 13.6, 93.1, 13.6, 93, 12, 92.8, 10.6]],
+  ],
+  IQ: [
+    [
+      [
+        44.77, 37.17, 45.2, 36.5, 46, 35.8, 45.8, 35, 45.4, 34, 46.1, 33, 47.4,
+        32.4, 47.8, 31.4, 47.7, 31, 48, 30.45, 48.55, 29.95, 47.95, 29.95, 47.7,
+        30.1, 47.15, 30, 46.55, 29.1, 44.7, 29.2, 42.1, 31.1, 39.2, 32.15, 38.8,
+        33.4, 41, 34.4, 41.2, 35.6, 41.4, 36.5, 42.35, 37.1, 43, 37.35,
+      ],
+    ],
+  ],
+  IR: [
+    [
+      [
+        44.77, 37.17, 44.3, 37.8, 44.4, 38.4, 44.4, 39.4, 44.8, 39.6, 45.4,
+        38.95, 46.1, 38.85, 46.5, 38.9, 47, 39.2, 48, 39.6, 48.3, 39, 48, 38.5,
+        48.9, 38.4, 49.1, 37.6, 50.3, 37, 51.5, 36.8, 53.9, 36.9, 53.9, 37.35,
+        54.8, 37.8, 56, 38.1, 58, 37.65, 60, 37, 61.1, 36.6, 61.27, 35.61, 60.9,
+        34.3, 60.5, 33, 60.85, 31.5, 61.7, 31.4, 60.87, 29.86, 62.78, 28.26,
+        62.75, 27.3, 61.8, 26.2, 61.6, 25.2, 60, 25.35, 58, 25.6, 57.3, 25.8,
+        57, 27, 56.3, 27.2, 55, 26.7, 54, 26.6, 52.5, 27.5, 51.2, 28.3, 50.2,
+        29.9, 49, 30.4, 48.55, 29.95, 48, 30.45, 47.7, 31, 47.8, 31.4, 47.4,
+        32.4, 46.1, 33, 45.4, 34, 45.8, 35, 46, 35.8, 45.2, 36.5,
+      ],
+    ],
+  ],
+  IS: [
+    [
+      [
+        -24.5, 65.5, -22, 66.4, -18, 66.2, -15, 66.5, -13.5, 65.3, -14.5, 64.4,
+        -16.5, 63.8, -18.7, 63.4, -21, 63.8, -22.7, 63.8, -22, 64.5, -24, 64.9,
+      ],
+    ],
+  ],
+  IT: [
+    [
+      [
+        7.5, 43.8, 8.5, 44.3, 9.5, 44.1, 10.2, 43.9, 10.5, 43, 11.1, 42.4, 12.2,
+        41.8, 13, 41.25, 14, 40.8, 15, 40.25, 15.6, 40, 15.7, 38.2, 16, 38,
+        16.6, 38.4, 17.15, 39, 16.6, 39.7, 17.2, 40.4, 18.5, 40.1, 18, 40.65,
+        16.5, 41.2, 16.2, 41.9, 15.1, 42, 14, 42.7, 13.6, 43.5, 12.3, 44.3,
+        12.3, 44.6, 12.5, 45.5, 13.1, 45.75, 13.75, 45.6, 13.6, 45.95, 13.5,
+        46.35, 13.7, 46.5, 12.4, 46.7, 11.5, 47, 10.45, 46.85, 10.45, 46.55,
+        10.1, 46.25, 9.3, 46.5, 9.02, 45.83, 8.4, 46.45, 7.9, 45.95, 7.05,
+        45.95, 6.6, 45.1, 7, 44.2,
+      ],
+    ],
+    [
+      [
+        12.4, 37.8, 13.3, 38.2, 15.6, 38.3, 15.3, 37.5, 15.1, 36.7, 14.3, 37,
+        12.5, 37.6,
+      ],
+    ],
+    [
+      [
+        8.4, 38.9, 8.15, 40, 8.2, 40.9, 9.2, 41.25, 9.8, 40.8, 9.7, 39.2, 9,
+        39.1,
+      ],
+    ],
+  ],
+  JM: [
+    [
+      [
+        -78.4, 18.3, -77.5, 18.5, -76.3, 18.2, -76.2, 17.9, -77.2, 17.7, -78.3,
+        18.2,
+      ],
+    ],
+  ],
+  JO: [
+    [
+      [
+        35.6, 32.7, 35.55, 32.4, 35.55, 31.8, 35.45, 31.35, 35.45, 31, 35.3,
+        30.5, 35, 29.55, 35, 29.35, 36.5, 29.5, 37.9, 30.5, 37, 31.5, 39.2,
+        32.15, 38.8, 33.4, 37.5, 32.9, 36.8, 32.3, 35.8, 32.7,
+      ],
+    ],
+  ],
+  JP: [
+    [
+      [
+        130.9, 34.35, 131.8, 34.7, 133, 35.5, 135.5, 35.6, 136.8, 37.3, 138.5,
+        37.8, 140, 39.5, 140, 40.8, 141.4, 41.4, 141.5, 40.5, 142, 39.5, 141,
+        38.3, 141, 37, 140.8, 35.7, 139.8, 35, 139.1, 35.2, 138.8, 34.6, 137,
+        34.6, 136.9, 34.3, 136, 33.5, 135.1, 34.3, 134, 34.6, 133, 34.4, 132,
+        33.9, 130.9, 33.95,
+      ],
+    ],
+    [
+      [
+        129.8, 33.3, 130.5, 33.9, 131, 33.9, 132, 33, 131.4, 31.4, 130.7, 31,
+        130.2, 31.4, 130.1, 32.7,
+      ],
+    ],
+    [
+      [
+        132.4, 33.3, 133, 33.9, 134.6, 34.2, 134.7, 33.8, 134.1, 33.3, 133,
+        32.7, 132.5, 32.9,
+      ],
+    ],
+    [
+      [
+        140, 41.5, 139.9, 42.6, 141.2, 43.2, 141.6, 45.4, 142.5, 44.8, 144.2,
+        44.1, 145.3, 44.3, 145.8, 43.4, 143.3, 42, 141, 42.3, 140.7, 41.7,
+      ],
+    ],
+    [[127.65, 26.05, 128.3, 26.9, 128.35, 26.75, 127.8, 26.1]],
+  ],
+  KE: [
+    [
+      [
+        34, 4.2, 35.3, 5, 36, 4.45, 38, 3.6, 39.5, 3.5, 41, 3.95, 41.9, 3.98,
+        41, 2.8, 41, -0.85, 41.55, -1.65, 40.2, -2.8, 39.7, -4, 39.2, -4.7,
+        37.7, -3.3, 33.9, -1, 34, 0.2, 34.4, 1, 34.9, 2, 34.4, 3.6,
+      ],
+    ],
+  ],
+  KG: [
+    [
+      [
+        71, 42.3, 73.5, 42.5, 74.6, 43.2, 75.6, 42.85, 78.5, 42.8, 80.25, 42.05,
+        78.4, 41.4, 76.9, 41, 75.6, 40.6, 74, 40, 73.6, 39.45, 71.5, 39.6, 69.5,
+        39.55, 70, 39.9, 70.9, 40.25, 72, 40.25, 73.15, 40.85, 71.9, 41.7,
+      ],
+    ],
+  ],
+  KH: [
+    [
+      [
+        104.45, 10.42, 103.6, 10.5, 103, 11, 102.92, 11.64, 102.7, 12.5, 102.5,
+        13.5, 103, 14.3, 104.5, 14.4, 105.2, 14.35, 106, 14.4, 107.55, 14.7,
+        107.5, 12.3, 106.2, 11.7, 105.9, 11, 105.1, 10.9,
+      ],
+    ],
+  ],
+  KI: [
+    [[172.9, 1.3, 173.2, 1.3, 173.2, 1.6, 172.9, 1.6]],
+    [[-157.6, 1.7, -157.15, 1.7, -157.15, 2.05, -157.6, 2.05]],
+  ],
+  KM: [
+    [[43.2, -11.95, 43.55, -11.95, 43.55, -11.35, 43.2, -11.35]],
+    [[44.2, -12.4, 44.55, -12.4, 44.55, -12.05, 44.2, -12.05]],
+    [[43.6, -12.4, 43.9, -12.4, 43.9, -12.25, 43.6, -12.25]],
+  ],
+  KN: [[[-62.88, 17.08, -62.53, 17.08, -62.53, 17.42, -62.88, 17.42]]],
+  KP: [
+    [
+      [
+        124.3, 39.85, 125, 40.5, 126.6, 41.7, 128, 41.9, 129.7, 42.45, 130.7,
+        42.3, 129.7, 40.8, 128.5, 40, 127.5, 39.7, 127.5, 39.2, 128.35, 38.6,
+        127.1, 38.3, 126.7, 37.95, 126.1, 37.7, 125.2, 37.7, 124.7, 38.1, 125.1,
+        38.6, 125.4, 39.4, 124.7, 39.6,
+      ],
+    ],
+  ],
+  KR: [
+    [
+      [
+        128.35, 38.6, 129.4, 37, 129.5, 35.6, 129.1, 35.1, 127.5, 34.6, 126.3,
+        34.4, 126.5, 35.2, 126.1, 36.7, 126.6, 37.4, 126.1, 37.7, 126.7, 37.95,
+        127.1, 38.3,
+      ],
+    ],
+    [[126.15, 33.3, 126.9, 33.5, 126.95, 33.25, 126.3, 33.2]],
+  ],
+  KW: [
+    [
+      [
+        48.4, 28.55, 48, 29.3, 48.2, 29.55, 47.95, 29.95, 47.7, 30.1, 47.15, 30,
+        46.55, 29.1, 47.45, 29,
+      ],
+    ],
+  ],
+  KZ: [
+    [
+      [
+        49, 46.5, 48, 47.8, 47, 49.2, 48.7, 50.6, 50.5, 51.6, 54.5, 51, 58,
+        50.8, 61.5, 51.3, 61, 54, 65, 54.6, 70, 55.2, 73.5, 54, 77.8, 53.3, 80,
+        50.8, 83, 51, 85, 50, 87.3, 49.1, 85.7, 48.5, 85.5, 47, 83, 47.2, 82.5,
+        45.5, 80.4, 45.1, 80.3, 44, 80.25, 42.05, 78.5, 42.8, 75.6, 42.85, 74.6,
+        43.2, 73.5, 42.5, 71, 42.3, 70.4, 41.5, 69.1, 41.4, 68.6, 40.65, 68,
+        40.8, 66.6, 41.2, 66.1, 42, 65.8, 42.9, 64.9, 43.7, 62, 43.5, 61, 44.4,
+        58.6, 45.6, 56, 45, 56, 41.3, 52.6, 41.9, 52.8, 42.6, 51.2, 43.3, 51,
+        44, 50.3, 44.4, 51.3, 45.2, 53.2, 45.3, 53, 46.5, 51, 47,
+      ],
+    ],
+  ],
+  LA: [
+    [
+      [
+        100.1, 21.7, 101.15, 21.55, 101.6, 21.2, 102.1, 22.45, 102.7, 21.6, 104,
+        20.9, 104.6, 20.4, 104, 19.5, 105, 18.8, 106, 17.6, 106.6, 16.5, 107.5,
+        16, 107.55, 14.7, 106, 14.4, 105.2, 14.35, 105.6, 15.7, 104.8, 16.6,
+        104.7, 17.5, 103.3, 18.4, 102.6, 17.85, 101.2, 17.5, 101.1, 19.5, 100.5,
+        19.5, 100.1, 20.35,
+      ],
+    ],
+  ],
+  LB: [
+    [
+      [
+        35.95, 34.65, 36.3, 34.65, 36.6, 34.2, 36, 33.8, 35.8, 33.3, 35.62,
+        33.25, 35.1, 33.09, 35.45, 33.95,
+      ],
+    ],
+  ],
+  LC: [[[-61.08, 13.7, -60.87, 13.7, -60.87, 14.11, -61.08, 14.11]]],
+  LI: [[[9.47, 47.05, 9.62, 47.05, 9.62, 47.27, 9.53, 47.27]]],
+  LK: [
+    [
+      [
+        79.85, 9.8, 80.3, 9.8, 81.3, 8.5, 81.9, 7, 81.6, 6.4, 80.6, 5.9, 80,
+        6.2, 79.8, 7, 79.7, 8.2,
+      ],
+    ],
+  ],
+  LR: [
+    [
+      [
+        -11.5, 6.92, -10.7, 8, -10.3, 8.5, -9.5, 8.4, -9.3, 7.4, -8.47, 7.56,
+        -8.2, 6.3, -7.5, 5.6, -7.52, 4.35, -9, 4.9, -10.9, 6.3,
+      ],
+    ],
+  ],
+  LS: [
+    [
+      [
+        27, -29.6, 27.8, -28.9, 28.6, -28.6, 29.4, -29.2, 29.2, -29.9, 28.4,
+        -30.5, 27.5, -30.6,
+      ],
+    ],
+  ],
+  LT: [
+    [
+      [
+        26.6, 55.7, 26.8, 55.2, 25.7, 54.8, 25.8, 54.3, 24.8, 54, 23.5, 53.95,
+        22.8, 54.35, 22.6, 54.8, 21.3, 55.2, 21, 55.3, 21.05, 56.1, 22, 56.4,
+        24, 56.3, 25, 56.15,
+      ],
+    ],
+  ],
+  LU: [[[5.73, 49.55, 6.37, 49.46, 6.52, 49.8, 6.13, 50.18, 5.8, 49.9]]],
+  LV: [
+    [
+      [
+        21.05, 56.1, 21, 56.8, 21.5, 57.4, 22.6, 57.75, 23.2, 57, 24.05, 57.05,
+        24.4, 57.3, 24.3, 57.9, 25, 58.05, 26, 57.8, 27.35, 57.55, 27.85, 57.3,
+        28.15, 56.15, 27, 55.85, 26.6, 55.7, 25, 56.15, 24, 56.3, 22, 56.4,
+      ],
+    ],
+  ],
+  LY: [
+    [
+      [
+        11.55, 33.17, 13.2, 32.95, 15.2, 32.3, 15.5, 31.5, 18, 30.8, 19.8, 30.5,
+        20.1, 31.5, 20, 32.3, 21.5, 32.9, 23, 32.6, 25.15, 31.6, 24.9, 30, 25,
+        22, 25, 20, 24, 20, 24, 19.5, 15, 23.5, 14, 23.4, 11.98, 23.52, 11.6,
+        24.3, 10.2, 24.9, 9.8, 26.5, 10, 28.5, 9.5, 30.2, 10.2, 30.9, 10.3,
+        31.7,
+      ],
+    ],
+  ],
+  MA: [
+    [
+      [
+        -2.2, 35.1, -1.8, 34.5, -1.7, 33, -1.2, 32.1, -2.9, 31.8, -3.8, 31.2,
+        -5.2, 30, -6.5, 29.5, -8.7, 28.7, -8.67, 27.67, -13.17, 27.67, -12, 28,
+        -10, 29.3, -9.8, 30.6, -9.3, 32.5, -7.6, 33.6, -6.9, 34.05, -6.2, 35.1,
+        -5.9, 35.8, -5.4, 35.9,
+      ],
+    ],
+  ],
+  MC: [[[7.4, 43.72, 7.44, 43.72, 7.44, 43.76, 7.4, 43.76]]],
+  MD: [
+    [
+      [
+        26.62, 48.26, 27.4, 48.45, 28.3, 48.15, 29.2, 47.95, 29.6, 47.35, 29.95,
+        46.8, 30.1, 46.45, 29.6, 46.3, 28.95, 46.45, 28.75, 45.9, 28.2, 45.47,
+        28.1, 46.9, 27.3, 47.6,
+      ],
+    ],
+  ],
+  ME: [
+    [
+      [
+        18.45, 42.55, 18.55, 42.4, 19.37, 41.85, 19.6, 42.5, 20.05, 42.55,
+        20.35, 42.85, 19.95, 43.1, 19.5, 43.3, 19.25, 43.55, 18.7, 43.25,
+      ],
+    ],
+  ],
+  MG: [
+    [
+      [
+        49.3, -12, 50.5, -15.5, 49.5, -17.5, 48.5, -20.5, 47.2, -25, 45.2,
+        -25.6, 43.7, -23.5, 44, -20, 44.4, -16.2, 46.5, -15.7, 48, -13.5,
+      ],
+    ],
+  ],
+  MH: [
+    [[171, 7, 171.45, 7, 171.45, 7.25, 171, 7.25]],
+    [[167, 8.7, 167.8, 8.7, 167.8, 9.5, 167, 9.5]],
+  ],
+  MK: [
+    [
+      [
+        20.98, 40.86, 21.9, 41.1, 22.95, 41.34, 22.85, 42, 22.35, 42.35, 21.57,
+        42.24, 21, 42.2, 20.57, 41.86, 20.5, 41.4, 20.75, 41.15,
+      ],
+    ],
+  ],
+  ML: [
+    [
+      [
+        4.25, 19.15, 4.25, 16.8, 3.6, 15.4, 0.24, 14.92, -0.7, 15.1, -2, 14.2,
+        -3.2, 13.7, -4.4, 12.7, -5.4, 11.3, -5.52, 10.44, -6.2, 10.2, -7, 10.2,
+        -8, 10.3, -8.1, 10.1, -8.3, 11, -9, 12.3, -10.6, 11.9, -11.37, 12.41,
+        -11.5, 13.4, -12.24, 14.75, -11.5, 15.6, -10, 15.4, -5.5, 15.5, -5.3,
+        16.5, -6, 21, -4.83, 25, 1.2, 20.7, 3.1, 19.8, 3.3, 19,
+      ],
+    ],
+  ],
+  MM: [
+    [
+      [
+        92.3, 20.7, 92.6, 22, 93.2, 22.3, 93.4, 23.9, 94.2, 24, 94.6, 25.5,
+        95.2, 26.5, 96, 27.2, 97.1, 27.2, 97.55, 28.2, 98.7, 27.5, 98.7, 25.9,
+        98, 25, 97.5, 24, 98.7, 23.9, 99.5, 23, 99.2, 22.1, 100.1, 21.7, 100.1,
+        20.35, 99, 20.1, 98, 19.7, 97.7, 18.5, 98.5, 17, 98.9, 16.3, 98.2, 15.2,
+        99.2, 13, 99.1, 11, 98.6, 9.98, 98.5, 12, 97.6, 16.5, 97, 17, 96.3,
+        16.4, 95, 15.8, 94.2, 16, 94.5, 19, 93.5, 19.5,
+      ],
+    ],
+  ],
+  MN: [
+    [
+      [
+        87.8, 49.17, 91.5, 50.5, 94, 50.1, 97.5, 49.8, 98, 52, 102, 51.3, 105,
+        50.4, 108, 49.3, 114.5, 50.2, 116.7, 49.85, 115.5, 48.1, 119.7, 47.2,
+        117.4, 46.6, 113.5, 44.8, 111.9, 43.7, 110.4, 42.8, 105, 41.6, 100,
+        42.6, 96.4, 42.7, 95.3, 44.3, 93.5, 45, 90.9, 45.3, 90.7, 47, 88, 48.6,
+      ],
+    ],
+  ],
+  MR: [
+    [
+      [
+        -17.05, 20.85, -16.5, 19.5, -16, 18, -16.5, 16.05, -15, 16.6, -13.5,
+        16.2, -12.24, 14.75, -11.5, 15.6, -10, 15.4, -5.5, 15.5, -5.3, 16.5, -6,
+        21, -4.83, 25, -8.67, 27.29, -8.67, 26, -12, 26, -12, 23.45, -13, 23,
+        -13, 21.33,
+      ],
+    ],
+  ],
+  MT: [[[14.15, 36.05, 14.3, 36.1, 14.6, 35.85, 14.45, 35.78, 14.3, 35.85]]],
+  MU: [[[57.3, -20.52, 57.8, -20.52, 57.8, -19.97, 57.3, -19.97]]],
+  MV: [
+    [
+      [
+        72.5, 7.2, 73.8, 7, 73.8, 3, 73.6, 1.8, 73.3, -0.8, 73, -0.8, 72.8, 2,
+        72.6, 4.5,
+      ],
+    ],
+  ],
+  MW: [
+    [
+      [
+        32.9, -9.4, 34, -9.5, 34.6, -11.5, 34.6, -12, 35, -13.5, 35.8, -14.6,
+        35.9, -16, 35.2, -17.1, 34.3, -16, 34.5, -14.6, 33.7, -14.5, 33.2, -14,
+        32.7, -13.6, 33, -12.5, 33.3, -10.8,
+      ],
+    ],
+  ],
+  MX: [
+    [
+      [
+        -117.12, 32.53, -114.72, 32.72, -111.1, 31.3, -108.2, 31.3, -106.53,
+        31.78, -106.3, 31.6, -104.7, 29.9, -103, 29, -101.4, 29.8, -99.5, 27.5,
+        -97.1, 25.9, -97.7, 24, -97.3, 21.5, -96, 19.5, -94.5, 18.2, -92, 18.6,
+        -90.5, 19.8, -90.3, 21, -87, 21.5, -86.8, 20, -87.6, 18.4, -88.3, 18.5,
+        -89.15, 17.95, -89.15, 17.8, -90.9, 17.8, -90.9, 16.1, -91.7, 16, -92.2,
+        14.5, -93.5, 15.6, -94.7, 16.2, -96.5, 15.6, -98.5, 16.3, -101.5, 17.5,
+        -105.5, 20.4, -105.3, 21.5, -106.4, 23.4, -108, 25, -111, 27.8, -112.8,
+        30, -114.8, 31.8, -114.6, 31, -113.2, 28.8, -111.5, 26, -109.5, 23.2,
+        -110.3, 23.4, -112.2, 24.8, -114.2, 27.6, -115.7, 29.8, -116.6, 31.6,
+      ],
+    ],
+  ],
+  MY: [
+    [
+      [
+        100.1, 6.45, 101, 5.7, 102.1, 6.2, 103.4, 4, 103.4, 2.6, 104.3, 1.5,
+        103.4, 1.5, 101.3, 2.8, 100.4, 4.5, 100.3, 5.4,
+      ],
+    ],
+    [
+      [
+        109.65, 2, 111, 1, 112.5, 1.5, 114.5, 1.5, 115.5, 3, 116, 4, 117.6, 4.2,
+        118.3, 4.4, 119.3, 5.3, 118.1, 6, 117.7, 6.9, 116.8, 7, 116.1, 6, 115.4,
+        5.2, 114.9, 5.05, 114.1, 4.6, 113, 3.2, 111.3, 2.3, 110.3, 1.7,
+      ],
+    ],
+  ],
+  MZ: [
+    [
+      [
+        40.45, -10.45, 40.6, -12.5, 40.7, -14.5, 39, -17, 36.9, -17.9, 35, -20,
+        35.4, -22, 35.5, -24, 33, -25.4, 32.9, -26.86, 32.1, -26.8, 31.95,
+        -25.95, 32, -24.5, 31.3, -22.4, 32.4, -21.3, 32.9, -19, 32.7, -18, 33,
+        -16.9, 31, -15.9, 30.4, -15.6, 31.5, -14.8, 33.2, -14, 33.7, -14.5,
+        34.5, -14.6, 34.3, -16, 35.2, -17.1, 35.9, -16, 35.8, -14.6, 35, -13.5,
+        34.6, -12, 34.6, -11.5, 35, -11.5, 37, -11.6, 38.5, -11.3,
+      ],
+    ],
+  ],
+  NA: [
+    [
+      [
+        11.75, -17.25, 13.4, -17, 14.2, -17.4, 18.5, -17.4, 20, -17.9, 21, -18,
+        23.3, -17.6, 24.3, -17.5, 25.25, -17.8, 24.2, -18, 23.3, -18, 21, -18.3,
+        21, -22, 20, -22, 20, -24.75, 20, -28.4, 18, -28.9, 16.45, -28.6, 15.2,
+        -27, 14.5, -22.9, 13.2, -20.2,
+      ],
+    ],
+  ],
+  NE: [
+    [
+      [
+        11.98, 23.52, 14, 23.4, 15, 23.5, 15.9, 20.4, 15.5, 16, 13.6, 13.7, 12,
+        13.1, 10, 13.2, 8.5, 13, 6.9, 13.6, 4.2, 13.5, 3.6, 12.6, 3.6, 11.7,
+        2.85, 12.3, 2.4, 11.9, 2, 12.7, 0.9, 13, 0.24, 14.92, 3.6, 15.4, 4.25,
+        16.8, 4.25, 19.15, 5.8, 19.45, 7.5, 20.9,
+      ],
+    ],
+  ],
+  NG: [
+    [
+      [
+        2.7, 6.37, 3.4, 6.4, 4.5, 6.2, 5.5, 5, 6, 4.3, 7, 4.4, 8.5, 4.6, 8.9,
+        5.8, 9.8, 6.8, 11, 6.6, 11.8, 7, 12.2, 8.4, 13.2, 9.5, 13.8, 10.9, 14.6,
+        12.2, 14.2, 13, 13.6, 13.7, 12, 13.1, 10, 13.2, 8.5, 13, 6.9, 13.6, 4.2,
+        13.5, 3.6, 12.6, 3.6, 11.7, 3.6, 10.3, 3.1, 9.1, 2.7, 9, 2.75, 7,
+      ],
+    ],
+  ],
+  NI: [
+    [
+      [
+        -83.2, 15, -83.6, 13.5, -83.6, 12, -83.7, 10.95, -84.7, 11.1, -85.7,
+        11.1, -86.8, 12.2, -87.7, 12.9, -87.3, 12.95, -86.8, 13.3, -86, 13.9,
+        -84.7, 14.6,
+      ],
+    ],
+  ],
+  NL: [
+    [
+      [
+        3.37, 51.37, 3.9, 51.95, 4.55, 52.4, 4.75, 53, 5.6, 53.4, 7.2, 53.25,
+        7.05, 52.6, 6.7, 52.5, 7.05, 52.25, 6.15, 51.85, 6.2, 51.4, 6, 50.8,
+        5.7, 50.75, 5.85, 51.15, 5.1, 51.45, 4.25, 51.37,
+      ],
+    ],
+  ],
+  NO: [
+    [
+      [
+        7, 58, 5.5, 58.7, 5, 60, 4.9, 61.5, 5.5, 62.4, 8, 63.4, 10, 64.6, 12.5,
+        66, 13.5, 67.5, 15.5, 68.9, 18, 70, 21, 70.3, 24, 71.1, 28, 71.1, 31,
+        70.3, 30.9, 69.7, 28.93, 69.05, 27.9, 70.08, 25.8, 69.4, 24, 68.8, 22.4,
+        68.7, 20.55, 69.06, 18.1, 68.5, 16.1, 67.4, 14.5, 66.1, 14, 64.5, 12.1,
+        63.5, 12.3, 62.3, 12.6, 61, 12.4, 60, 11.7, 59.2, 11.4, 58.9, 10.5,
+        59.1, 9.5, 58.9, 8, 58.1,
+      ],
+    ],
+  ],
+  NP: [
+    [
+      [
+        88.1, 27.9, 86.9, 28, 85, 28.6, 83.5, 29.3, 81, 30.2, 80.5, 29.7, 80.05,
+        28.85, 81.5, 28.4, 83.3, 27.4, 84.5, 27.3, 86, 26.6, 88, 26.4,
+      ],
+    ],
+  ],
+  NR: [[[166.9, -0.56, 166.96, -0.56, 166.96, -0.5, 166.9, -0.5]]],
+  NZ: [
+    [
+      [
+        172.7, -34.4, 174.5, -35.6, 175, -36.8, 175.9, -37.3, 178.5, -37.7,
+        177.9, -39.1, 176.9, -39.6, 176.2, -40.5, 175.3, -41.6, 174.6, -41.3,
+        175, -40, 173.8, -39.2, 174.6, -38, 174.2, -36.5,
+      ],
+    ],
+    [
+      [
+        172.6, -40.5, 174.3, -41.2, 173.9, -42.3, 172.8, -43.6, 171.2, -44.5,
+        170.6, -45.9, 169, -46.7, 166.5, -46, 166.8, -45.2, 168.3, -44, 170,
+        -43, 171.5, -41.7,
+      ],
+    ],
+  ],
+  OM: [
+    [
+      [
+        55.65, 22, 55.8, 24, 55.85, 24.5, 56.35, 24.95, 57.5, 23.8, 58.6, 23.6,
+        59.8, 22.5, 58.8, 20.5, 57.7, 18.9, 56.6, 18, 55, 17, 53.1, 16.65, 52,
+        19, 55, 20,
+      ],
+    ],
+    [[56.1, 26.05, 56.2, 26.4, 56.4, 26.2, 56.35, 25.9]],
+  ],
+  PA: [
+    [
+      [
+        -82.9, 8, -82.6, 9.6, -81, 8.9, -79.5, 9.6, -77.4, 8.7, -77.2, 7.9,
+        -77.9, 7.2, -78.5, 8.4, -79.4, 8.85, -80.5, 8, -80.4, 7.3, -81.7, 8,
+      ],
+    ],
+  ],
+  PE: [
+    [
+      [
+        -69.95, -4.2, -70.7, -3.8, -72, -2.4, -73.6, -1.3, -75.2, -0.1, -75.5,
+        -1.5, -77, -2.5, -78.3, -3.4, -78.7, -4.6, -79.5, -4.6, -80.3, -3.4,
+        -81.3, -4.6, -81.2, -6, -79.5, -8, -78, -10.5, -77.2, -12, -76.2, -13.9,
+        -75, -15.5, -72, -17, -70.4, -18.35, -69.5, -17.5, -69, -16.2, -69.4,
+        -15.5, -69, -14.5, -68.9, -13, -68.7, -12.5, -69.57, -10.95, -70.6, -11,
+        -70.6, -9.5, -72.2, -10, -73.2, -9.4, -74, -7.5, -73, -5, -70.6, -4.2,
+      ],
+    ],
+  ],
+  PG: [
+    [
+      [
+        141, -2.6, 142.5, -3.2, 144, -3.8, 145.8, -5, 146, -5.9, 147.6, -6.1,
+        147, -6.8, 147.5, -7.5, 148.2, -8, 149.5, -9.5, 150.8, -10.3, 149,
+        -10.3, 147.2, -9.5, 146, -8.1, 144, -7.6, 143.4, -8.5, 142.5, -9.2, 141,
+        -9.1,
+      ],
+    ],
+    [
+      [
+        148.3, -5.5, 150, -5, 151.5, -4.2, 152.2, -4.1, 152, -5.5, 150, -6.3,
+        148.3, -6,
+      ],
+    ],
+    [[154.6, -5, 155.2, -5.5, 155.9, -6.8, 155.3, -6.9, 154.7, -5.6]],
+  ],
+  PH: [
+    [
+      [
+        120.6, 18.5, 122.2, 18.5, 122, 17, 121.6, 15.8, 122, 14, 124, 13.8,
+        124.2, 12.6, 123.2, 13, 122, 13.7, 120.6, 14, 120.9, 14.5, 120.9, 14.7,
+        120.6, 14.8, 119.9, 15.5, 119.8, 16.3, 120.4, 16.5,
+      ],
+    ],
+    [
+      [
+        121.9, 6.9, 122.2, 7.9, 123.5, 8.6, 124.8, 9, 125.5, 9.8, 126.6, 7.3,
+        126.2, 6.3, 125.4, 5.6, 124, 6.2, 123.9, 7.6, 122.8, 7.4,
+      ],
+    ],
+    [[121.9, 10.4, 123.1, 10.4, 123.1, 11.9, 121.9, 11.9]],
+    [[122.4, 9.1, 123.5, 9.1, 123.5, 10.9, 122.4, 10.9]],
+    [[123.3, 9.4, 124.1, 9.4, 124.1, 11.3, 123.3, 11.3]],
+    [[124.3, 10, 125.3, 10, 125.3, 11.6, 124.3, 11.6]],
+    [[124.2, 11.2, 125.8, 11.2, 125.8, 12.6, 124.2, 12.6]],
+    [[123.7, 9.6, 124.6, 9.6, 124.6, 10.2, 123.7, 10.2]],
+    [[117.2, 8.4, 117.6, 8.2, 119.9, 10.7, 119.5, 11.4]],
+    [[120.3, 12.2, 121.6, 12.2, 121.6, 13.5, 120.3, 13.5]],
+  ],
+  PK: [
+    [
+      [
+        68.2, 23.7, 68.8, 23.95, 71, 24.6, 70.5, 26, 71, 27.5, 72, 28, 73.9,
+        30.3, 74.5, 31, 74.6, 31.9, 74.6, 33, 73.9, 34, 74, 34.6, 75.8, 34.9,
+        77, 35.5, 77.8, 35.5, 76, 36.9, 74.9, 37.25, 74.6, 37, 73, 36.9, 71.5,
+        36.5, 71.2, 36, 71.6, 35.2, 71, 34.4, 71.1, 34.1, 70, 34, 69.3, 33,
+        69.5, 31.5, 68.3, 31.8, 67, 31.3, 66.4, 30, 66.3, 29.8, 64.5, 29.5,
+        62.5, 29.4, 60.87, 29.86, 62.78, 28.26, 62.75, 27.3, 61.8, 26.2, 61.6,
+        25.2, 64, 25.3, 66.5, 25.4, 67, 24.8, 67.5, 24,
+      ],
+    ],
+  ],
+  PL: [
+    [
+      [
+        14.2, 53.95, 16, 54.25, 17.5, 54.75, 18.6, 54.75, 18.7, 54.4, 19.6,
+        54.45, 22.8, 54.35, 23.5, 53.95, 23.9, 53.2, 23.6, 52.6, 23.2, 52.2,
+        23.6, 51.53, 24.1, 50.85, 23.4, 50.3, 22.7, 49.6, 22.55, 49.1, 21, 49.4,
+        19.5, 49.6, 18.85, 49.5, 17.7, 50.05, 16.9, 50.45, 16.3, 50.65, 14.82,
+        50.87, 15, 51.1, 14.75, 52.05, 14.6, 52.6, 14.4, 53.3,
+      ],
+    ],
+  ],
+  PT: [
+    [
+      [
+        -8.9, 41.9, -8.2, 42.1, -6.6, 41.95, -6.2, 41.6, -6.8, 41, -6.9, 40.25,
+        -7.5, 39.7, -7, 39, -7.3, 38.5, -7, 38, -7.5, 37.6, -7.4, 37.2, -8, 37,
+        -8.95, 37, -8.8, 38, -9.2, 38.45, -9.5, 38.75, -9.4, 39.4, -8.9, 40.2,
+        -8.65, 41,
+      ],
+    ],
+    [
+      [
+        -17.28, 32.78, -16.95, 32.87, -16.65, 32.78, -16.75, 32.63, -17.2,
+        32.68,
+      ],
+    ],
+    [[-25.87, 37.86, -25.5, 37.83, -25.15, 37.8, -25.2, 37.73, -25.85, 37.72]],
+    [[-27.4, 38.8, -27.05, 38.8, -27.05, 38.63, -27.4, 38.65]],
+  ],
+  PW: [[[134.4, 7.25, 134.7, 7.25, 134.7, 7.75, 134.4, 7.75]]],
+  PY: [
+    [
+      [
+        -62.65, -22.24, -62.3, -21, -61.8, -19.6, -59.1, -19.3, -58.15, -20.15,
+        -58, -22, -56.5, -22.2, -55.6, -22.6, -55.4, -23.9, -54.3, -24, -54.6,
+        -25.6, -55.9, -27.4, -58.6, -27.3, -57.55, -25.35, -59.5, -24.6, -61,
+        -23.8,
+      ],
+    ],
+  ],
+  QA: [[[50.8, 24.75, 50.75, 25.5, 51.2, 26.15, 51.6, 25.3, 51.6, 24.6]]],
+  RO: [
+    [
+      [
+        20.25, 46.1, 21.3, 46.4, 22, 47.4, 22.9, 47.95, 23.5, 48, 24.9, 47.75,
+        26.62, 48.26, 27.3, 47.6, 28.1, 46.9, 28.2, 45.47, 29.7, 45.2, 29,
+        44.75, 28.65, 44.3, 28.58, 43.75, 27.25, 44.1, 26.1, 43.95, 25.4, 43.65,
+        24, 43.7, 22.95, 43.85, 22.68, 44.22, 22, 44.6, 21.4, 44.8, 21.5, 45.2,
+        20.75, 45.75,
+      ],
+    ],
+  ],
+  RS: [
+    [
+      [
+        18.85, 45.9, 20.25, 46.1, 20.75, 45.75, 21.5, 45.2, 21.4, 44.8, 22,
+        44.6, 22.68, 44.22, 22.4, 43.8, 23, 43.2, 22.5, 42.7, 22.35, 42.35,
+        21.57, 42.24, 21.75, 42.7, 21.5, 42.9, 20.8, 43.25, 20.35, 42.85, 19.95,
+        43.1, 19.5, 43.3, 19.25, 43.55, 19.6, 44.05, 19.35, 44.2, 19, 44.87,
+        19.4, 45.2, 19, 45.5,
+      ],
+    ],
+  ],
+  RU: [
+    [
+      [
+        30.9, 69.7, 33, 69.4, 36, 69.1, 41, 67.7, 44, 68.5, 46, 67.8, 53, 68.6,
+        58, 68.9, 60.5, 69.9, 66.5, 70.8, 68.5, 73, 72, 72.8, 74, 73, 80, 73.5,
+        87, 75, 98, 76.5, 104, 77.7, 113, 76, 113.5, 73.5, 125, 73.5, 130, 71,
+        140, 72.5, 150, 71.5, 160, 70, 170, 70, 176, 69.8, 180, 68.9, 190.3,
+        66.1, 186, 64.5, 182, 65, 179, 62.5, 174, 61.8, 170, 60, 163, 59.9,
+        163.5, 56, 160, 53, 156.7, 51, 156, 53, 155.5, 56, 156.5, 57.8, 160,
+        61.5, 154, 59.2, 143, 59.3, 138, 56, 137, 54, 141, 52.5, 140.5, 48.5,
+        135, 43.5, 133, 42.8, 132, 43, 130.7, 42.3, 131.2, 43, 131, 44.8, 133.1,
+        45.1, 134.75, 48.3, 130.6, 48.9, 127.5, 49.8, 125.5, 53.1, 121.2, 53.3,
+        120, 51.8, 117.8, 49.5, 116.7, 49.85, 114.5, 50.2, 108, 49.3, 105, 50.4,
+        102, 51.3, 98, 52, 97.5, 49.8, 94, 50.1, 91.5, 50.5, 87.8, 49.17, 87.3,
+        49.1, 85, 50, 83, 51, 80, 50.8, 77.8, 53.3, 73.5, 54, 70, 55.2, 65,
+        54.6, 61, 54, 61.5, 51.3, 58, 50.8, 54.5, 51, 50.5, 51.6, 48.7, 50.6,
+        47, 49.2, 48, 47.8, 49, 46.5, 47.5, 45.6, 47.5, 43.8, 47.8, 42.6, 48.58,
+        41.84, 46.45, 41.9, 45.3, 42.5, 44, 42.75, 42, 43.3, 40, 43.4, 38, 44.5,
+        36.8, 45.2, 37.5, 46.6, 38.2, 47.1, 39.7, 48, 40.2, 49.6, 38, 50, 35.4,
+        50.6, 34.4, 51.25, 33.5, 52.35, 31.78, 52.1, 31.8, 52.8, 32.7, 53.3,
+        31.8, 54, 30.8, 54.8, 30.9, 55.6, 29.4, 55.95, 28.15, 56.15, 27.85,
+        57.3, 27.35, 57.55, 27.7, 57.8, 27.5, 58.8, 28.05, 59.45, 30.3, 59.85,
+        28.8, 60.2, 27.8, 60.55, 30, 61.8, 31.5, 62.9, 29.9, 63.7, 30.6, 64.2,
+        29.7, 64.8, 30.1, 65.7, 29.1, 66.9, 30, 67.7, 28.4, 68.5, 28.93, 69.05,
+      ],
+    ],
+    [[19.6, 54.45, 22.8, 54.35, 22.6, 54.8, 21.3, 55.2, 20, 54.95]],
+    [
+      [
+        141.8, 46, 142.1, 47.5, 142, 51, 142.3, 54.3, 143, 54.2, 143.2, 51.5,
+        143.6, 49.3, 144.7, 48.9, 143.2, 47, 143.5, 46.1, 142.6, 46.5,
+      ],
+    ],
+    [
+      [
+        51.5, 71.5, 53.5, 73.8, 58, 75.8, 68.5, 76.9, 68, 76.3, 60, 74.8, 56.5,
+        73, 57.5, 70.6, 53.5, 70.8,
+      ],
+    ],
+    [[91, 80.1, 96, 79, 105, 78.5, 104, 79.7, 99, 81.2]],
+    [[136, 75.7, 141, 73.9, 149.5, 75.2, 146, 75.6, 140, 76.2]],
+    [[178.5, 70.8, 182.5, 71.1, 180, 71.6, 178.7, 71.4]],
+  ],
+  RW: [
+    [
+      [
+        29.6, -1.4, 29.9, -1.4, 30.5, -1.05, 30.85, -2, 30.8, -2.4, 29.8, -2.8,
+        29, -2.8, 29.1, -2,
+      ],
+    ],
+  ],
+  SA: [
+    [
+      [
+        35, 29.35, 36.5, 29.5, 37.9, 30.5, 37, 31.5, 39.2, 32.15, 42.1, 31.1,
+        44.7, 29.2, 46.55, 29.1, 47.45, 29, 48.4, 28.55, 49.5, 27, 50.2, 26.3,
+        50.5, 25, 50.8, 24.75, 51.6, 24.6, 51.6, 24.25, 52.6, 22.9, 55.2, 22.7,
+        55.65, 22, 55, 20, 52, 19, 49, 18.6, 47, 17, 44, 17.4, 43.3, 17.3, 42.8,
+        16.4, 41.5, 18.3, 40, 20, 39.1, 21.5, 38.5, 23.5, 37, 25.5, 35.5, 27.8,
+        34.6, 28.1,
+      ],
+    ],
+  ],
+  SB: [
+    [[159.6, -9.9, 160.85, -9.9, 160.85, -9.25, 159.6, -9.25]],
+    [[160.85, -9.7, 161.5, -9.7, 161.5, -8.3, 160.85, -8.3]],
+    [[158.6, -8.6, 159.9, -8.6, 159.9, -7.4, 158.6, -7.4]],
+    [[157, -8.4, 158, -8.4, 158, -8, 157, -8]],
+    [[161.3, -10.8, 162.4, -10.8, 162.4, -10.2, 161.3, -10.2]],
+    [[156.5, -7.4, 157.4, -7.4, 157.4, -6.6, 156.5, -6.6]],
+  ],
+  SC: [
+    [[55.35, -4.8, 55.55, -4.8, 55.55, -4.55, 55.35, -4.55]],
+    [[55.65, -4.36, 55.8, -4.36, 55.8, -4.28, 55.65, -4.28]],
+  ],
+  SD: [
+    [
+      [
+        36.9, 22, 37.3, 21, 37.2, 19, 38.6, 18, 37, 17, 36.45, 14.3, 36.1, 12.7,
+        35, 11.5, 34.1, 9.5, 33, 10.2, 32.4, 11.1, 30, 10.3, 29, 9.7, 27.8, 9.6,
+        26.5, 9, 24.25, 8.63, 23.5, 9, 22.87, 10.92, 22.5, 12.5, 21.9, 12.8,
+        22.6, 14, 22.3, 14.3, 23, 15.7, 24, 15.7, 24, 19.5, 24, 20, 25, 20, 25,
+        22,
+      ],
+    ],
+  ],
+  SE: [
+    [
+      [
+        11.4, 58.9, 11, 58.3, 11.9, 57.7, 12.6, 56.6, 12.5, 56.2, 12.9, 55.4,
+        14.2, 55.4, 14.5, 56.1, 16, 56.2, 16.5, 57.2, 16.7, 58.5, 18.5, 59.3,
+        18.9, 59.8, 18.8, 60.3, 17.4, 60.7, 17.3, 62.4, 18.5, 63.2, 20.5, 63.8,
+        21.5, 64.8, 22.5, 65.8, 24.15, 65.8, 23.7, 66.8, 23.6, 67.9, 22, 68.5,
+        20.55, 69.06, 18.1, 68.5, 16.1, 67.4, 14.5, 66.1, 14, 64.5, 12.1, 63.5,
+        12.3, 62.3, 12.6, 61, 12.4, 60, 11.7, 59.2,
+      ],
+    ],
+    [[18.1, 57, 18.8, 57.9, 19.3, 57.9, 18.5, 56.9]],
+  ],
+  SG: [[[103.6, 1.2, 104.05, 1.2, 104.05, 1.45, 103.6, 1.45]]],
+  SI: [
+    [
+      [
+        13.7, 46.5, 14.5, 46.4, 15.6, 46.7, 16.1, 46.85, 16.6, 46.5, 15.65,
+        46.2, 15.6, 45.85, 15.2, 45.45, 14.6, 45.6, 13.6, 45.45, 13.75, 45.6,
+        13.6, 45.95, 13.5, 46.35,
+      ],
+    ],
+  ],
+  SK: [
+    [
+      [
+        16.95, 48.6, 17.2, 48.85, 18.1, 49, 18.85, 49.5, 19.5, 49.6, 21, 49.4,
+        22.55, 49.1, 22.15, 48.4, 20.5, 48.5, 19, 48.1, 17.8, 47.75, 17.15, 48,
+        17, 48.15,
+      ],
+    ],
+  ],
+  SL: [
+    [
+      [
+        -13.3, 9.05, -12.9, 9.3, -12.4, 9.9, -11.2, 10, -10.7, 9.3, -10.3, 8.5,
+        -10.7, 8, -11.5, 6.92, -12.5, 7.4, -13.3, 8.35, -13.1, 8.9,
+      ],
+    ],
+  ],
+  SM: [[[12.4, 43.9, 12.52, 43.9, 12.52, 43.99, 12.4, 43.99]]],
+  SN: [
+    [
+      [
+        -16.5, 16.05, -17.1, 14.9, -17.55, 14.75, -17.35, 14.6, -17, 14.5,
+        -16.75, 13.6, -16.7, 12.35, -15, 12.6, -13.7, 12.67, -12.4, 12.4,
+        -11.37, 12.41, -11.5, 13.4, -12.24, 14.75, -13.5, 16.2, -15, 16.6,
+      ],
+    ],
+  ],
+  SO: [
+    [
+      [
+        43.25, 11.46, 44.5, 10.4, 46, 10.7, 48, 11.2, 51.2, 11.85, 51, 10.4,
+        49.7, 8, 48, 5, 46, 2, 43.5, 0.3, 41.55, -1.65, 41, -0.85, 41, 2.8,
+        41.9, 3.98, 42, 4.2, 43.7, 4.8, 45, 5, 46.9, 6.5, 48, 8, 44, 9, 42.9,
+        11,
+      ],
+    ],
+  ],
+  SR: [
+    [
+      [
+        -57.15, 5.95, -55.1, 5.98, -54, 5.75, -54.4, 4.5, -54, 3.6, -54.6, 2.3,
+        -55.9, 1.9, -56.48, 1.92, -58, 3.5, -57.9, 4.9,
+      ],
+    ],
+  ],
+  SS: [
+    [
+      [
+        34.1, 9.5, 33, 10.2, 32.4, 11.1, 30, 10.3, 29, 9.7, 27.8, 9.6, 26.5, 9,
+        24.25, 8.63, 25.3, 7.6, 26.5, 6.5, 27.45, 5.02, 28.5, 4.4, 29.5, 4.6,
+        30.85, 3.49, 32, 3.6, 33.5, 3.75, 34, 4.2, 35.3, 5, 34.6, 6.6, 33, 7.8,
+        34.1, 8.6,
+      ],
+    ],
+  ],
+  ST: [
+    [[6.45, 0, 6.8, 0, 6.8, 0.42, 6.45, 0.42]],
+    [[7.3, 1.52, 7.47, 1.52, 7.47, 1.72, 7.3, 1.72]],
+  ],
+  SV: [
+    [
+      [
+        -90.1, 13.7, -89.6, 14.2, -89.35, 14.4, -88.5, 14, -87.75, 13.85, -87.8,
+        13.2, -88.5, 13.2, -89.8, 13.5,
+      ],
+    ],
+  ],
+  SY: [
+    [
+      [
+        42.35, 37.1, 41.4, 36.5, 41.2, 35.6, 41, 34.4, 38.8, 33.4, 37.5, 32.9,
+        36.8, 32.3, 35.8, 32.7, 35.62, 33.25, 35.8, 33.3, 36, 33.8, 36.6, 34.2,
+        36.3, 34.65, 35.95, 34.65, 35.85, 35.4, 36, 35.85, 36.7, 36.25, 36.7,
+        36.8, 38, 36.85, 39, 36.7, 41, 37.1,
+      ],
+    ],
+  ],
+  SZ: [
+    [
+      [
+        31.95, -25.95, 32.1, -26.8, 31.9, -27.3, 31.1, -27.2, 30.8, -26.3, 31.3,
+        -25.7,
+      ],
+    ],
+  ],
+  TD: [
+    [
+      [
+        15, 23.5, 24, 19.5, 24, 15.7, 23, 15.7, 22.3, 14.3, 22.6, 14, 21.9,
+        12.8, 22.5, 12.5, 22.87, 10.92, 21.7, 10.4, 20, 9.1, 18.9, 8.8, 17, 7.9,
+        15.5, 7.5, 14.5, 8, 15.6, 10, 14.9, 10.9, 15, 12, 14.2, 13, 13.6, 13.7,
+        15.5, 16, 15.9, 20.4,
+      ],
+    ],
+  ],
+  TG: [
+    [
+      [
+        1.2, 6.1, 1.63, 6.22, 1.6, 6.9, 1.6, 9, 1.4, 9.3, 0.8, 10.7, 0.9, 11, 0,
+        11, 0.5, 10.6, 0.4, 9.5, 0.65, 8.3, 0.55, 6.9,
+      ],
+    ],
+  ],
+  TH: [
+    [
+      [
+        100.1, 20.35, 100.5, 19.5, 101.1, 19.5, 101.2, 17.5, 102.6, 17.85,
+        103.3, 18.4, 104.7, 17.5, 104.8, 16.6, 105.6, 15.7, 105.2, 14.35, 104.5,
+        14.4, 103, 14.3, 102.5, 13.5, 102.7, 12.5, 102.92, 11.64, 102, 12.3,
+        101, 12.7, 100.9, 13.4, 100.6, 13.5, 100, 13.4, 99.9, 12, 99.2, 10.3,
+        100.2, 8.5, 100.5, 7.2, 101.5, 6.9, 102.1, 6.2, 101, 5.7, 100.1, 6.45,
+        99.6, 7.2, 98.3, 7.8, 98.3, 9, 98.6, 9.98, 99.1, 11, 99.2, 13, 98.2,
+        15.2, 98.9, 16.3, 98.5, 17, 97.7, 18.5, 98, 19.7, 99, 20.1,
+      ],
+    ],
+  ],
+  TJ: [
+    [
+      [
+        67.78, 37.18, 68, 38, 68.4, 38.8, 67.8, 39.5, 68.6, 40.1, 69.3, 40.75,
+        70.4, 40.95, 70.9, 40.25, 70, 39.9, 69.5, 39.55, 71.5, 39.6, 73.6,
+        39.45, 74.8, 38.6, 75.1, 38, 74.9, 37.25, 72.5, 37, 71.6, 36.75, 71.5,
+        37.9, 71, 38.45, 70.2, 37.8, 69.5, 37.2, 68.3, 37.1,
+      ],
+    ],
+  ],
+  TL: [
+    [
+      [
+        124.95, -9, 125.6, -8.5, 126.5, -8.4, 127.3, -8.35, 126, -9.2, 125.1,
+        -9.5,
+      ],
+    ],
+  ],
+  TM: [
+    [
+      [
+        52.6, 41.9, 56, 41.3, 57.1, 41.3, 58, 42.5, 58.6, 42.7, 60, 42.2, 61,
+        41.2, 62, 40.9, 63.6, 39.5, 65.5, 38.3, 66.54, 37.36, 65.6, 37.5, 64.8,
+        37.1, 63.1, 35.85, 61.27, 35.61, 61.1, 36.6, 60, 37, 58, 37.65, 56,
+        38.1, 54.8, 37.8, 53.9, 37.35, 53.8, 39, 53.2, 39.5, 53, 40, 52.8, 41,
+      ],
+    ],
+  ],
+  TN: [
+    [
+      [
+        8.6, 36.95, 9.8, 37.35, 10.3, 37.1, 11.1, 37.05, 10.5, 36.4, 11, 35.7,
+        10.2, 34.2, 11.5, 33.2, 11.55, 33.17, 10.3, 31.7, 10.2, 30.9, 9.5, 30.2,
+        9.05, 32.1, 7.5, 33.2, 8.4, 34, 8.3, 35,
+      ],
+    ],
+  ],
+  TO: [
+    [[-175.4, -21.3, -174.9, -21.3, -174.9, -21.05, -175.4, -21.05]],
+    [[-174.1, -18.8, -173.9, -18.8, -173.9, -18.55, -174.1, -18.55]],
+  ],
+  TR: [
+    [
+      [
+        29.1, 41.2, 31.3, 41.1, 33.5, 42, 35.1, 42, 36, 41.7, 37.5, 41, 39.5,
+        41.1, 41.55, 41.5, 42.8, 41.6, 43.45, 41.1, 43.75, 40.75, 43.6, 40.1,
+        44.77, 39.71, 44.8, 39.6, 44.4, 39.4, 44.4, 38.4, 44.3, 37.8, 44.77,
+        37.17, 43, 37.35, 42.35, 37.1, 41, 37.1, 39, 36.7, 38, 36.85, 36.7,
+        36.8, 36.7, 36.25, 36, 35.85, 36.2, 36.6, 35.5, 36.6, 34, 36.2, 32.8,
+        36.05, 31.5, 36.8, 30.6, 36.8, 30.4, 36.2, 29.2, 36.6, 28, 36.8, 27.3,
+        37, 26.4, 38.3, 26.8, 39, 26.1, 39.5, 26.2, 40.05, 27.5, 40.35, 29,
+        40.4, 29.9, 40.75, 29.05, 41.05,
+      ],
+    ],
+    [
+      [
+        26.35, 41.72, 26.6, 41.6, 26.3, 41.2, 26.05, 40.75, 26.2, 40.05, 26.7,
+        40.45, 27.5, 40.95, 28.9, 40.98, 29.05, 41.1, 29.1, 41.2, 28, 41.6,
+        27.98, 41.98, 27, 42.1,
+      ],
+    ],
+  ],
+  TT: [
+    [[-61.95, 10.05, -61, 10.1, -60.9, 10.8, -61.9, 10.85]],
+    [[-60.85, 11.13, -60.5, 11.13, -60.5, 11.35, -60.85, 11.35]],
+  ],
+  TV: [[[179.05, -8.65, 179.25, -8.65, 179.25, -8.45, 179.05, -8.45]]],
+  TZ: [
+    [
+      [
+        39.2, -4.7, 38.8, -6, 39.4, -6.9, 39.3, -8.3, 40.45, -10.45, 38.5,
+        -11.3, 37, -11.6, 35, -11.5, 34.6, -11.5, 34, -9.5, 32.9, -9.4, 30.75,
+        -8.2, 29.6, -6, 29.4, -4.45, 30.2, -4.3, 30.8, -3.3, 30.8, -2.4, 30.85,
+        -2, 30.5, -1.05, 33.9, -1, 37.7, -3.3,
+      ],
+    ],
+    [[39.2, -6.5, 39.6, -6.5, 39.6, -5.7, 39.2, -5.7]],
+  ],
+  UA: [
+    [
+      [
+        22.15, 48.4, 22.55, 49.1, 22.7, 49.6, 23.4, 50.3, 24.1, 50.85, 23.6,
+        51.53, 25, 51.9, 26.5, 51.8, 28, 51.6, 30.5, 51.3, 31.78, 52.1, 33.5,
+        52.35, 34.4, 51.25, 35.4, 50.6, 38, 50, 40.2, 49.6, 39.7, 48, 38.2,
+        47.1, 36.8, 46.7, 35.2, 46.3, 35, 45.7, 36.6, 45.45, 36.4, 45.1, 35.4,
+        45, 34.3, 44.5, 33.5, 44.6, 33.5, 45.1, 32.5, 45.4, 33.7, 46, 32, 46.5,
+        31.2, 46.6, 30.75, 46.35, 30.2, 45.85, 29.7, 45.2, 28.2, 45.47, 28.75,
+        45.9, 28.95, 46.45, 29.6, 46.3, 30.1, 46.45, 29.95, 46.8, 29.6, 47.35,
+        29.2, 47.95, 28.3, 48.15, 27.4, 48.45, 26.62, 48.26, 24.9, 47.75, 23.5,
+        48, 22.9, 47.95,
+      ],
+    ],
+  ],
+  UG: [
+    [
+      [
+        30.85, 3.49, 32, 3.6, 33.5, 3.75, 34, 4.2, 34.4, 3.6, 34.9, 2, 34.4, 1,
+        34, 0.2, 33.9, -1, 30.5, -1.05, 29.9, -1.4, 29.6, -1.4, 29.8, 0.2, 30,
+        1, 31, 2.2, 30.7, 3,
+      ],
+    ],
+  ],
+  US: [
+    [
+      [
+        -124.7, 48.4, -123, 49, -95.2, 49, -89.6, 48, -84.8, 46.5, -82.4, 45.3,
+        -82.5, 42, -79, 43.3, -76.3, 44.2, -74.7, 45, -71.5, 45, -69.2, 47.4,
+        -67.8, 47.1, -67, 44.8, -70, 43.7, -70.6, 41.6, -73.9, 40.5, -75.5,
+        38.5, -76, 36.9, -75.5, 35.2, -78, 33.8, -81, 31.7, -80, 26, -80.4,
+        25.1, -81.8, 26, -82.7, 28, -83.7, 29.9, -85.3, 29.7, -89.4, 30.3,
+        -89.3, 29, -90.5, 29.1, -94, 29.6, -97.2, 27.7, -97.1, 25.9, -99.5,
+        27.5, -101.4, 29.8, -103, 29, -104.7, 29.9, -106.3, 31.6, -106.53,
+        31.78, -108.2, 31.3, -111.1, 31.3, -114.72, 32.72, -117.12, 32.53,
+        -118.5, 34, -120.6, 34.6, -122.5, 37.7, -124.2, 40.4, -124.5, 43,
+        -124.1, 46.2,
+      ],
+    ],
+    [
+      [
+        -141, 69.6, -141, 60.3, -139, 60.3, -137.5, 59.2, -133.5, 58.8, -130,
+        56, -130, 54.7, -131.5, 54.7, -135.5, 57, -139, 59, -146, 60, -151.5,
+        59.2, -154, 57, -158.5, 55.5, -164.5, 54.5, -162, 55.9, -157.5, 58,
+        -162, 58.6, -165.5, 60.5, -164.8, 63, -168, 65.6, -166, 68.3, -162,
+        70.3, -156.5, 71.4, -152, 70.8, -145, 70.1,
+      ],
+    ],
+    [
+      [
+        -160.6, 21.8, -159.2, 22.4, -157, 21.4, -155.8, 20.3, -154.7, 19.5,
+        -155.9, 18.8, -156.2, 20.2, -158.4, 21.2,
+      ],
+    ],
+  ],
+  UY: [
+    [
+      [
+        -57.6, -30.2, -56, -30.9, -55.6, -30.9, -53.5, -32.5, -53.4, -33.75,
+        -54.9, -34.95, -56.2, -34.95, -57.8, -34.45, -58.4, -33.9, -58.2, -33,
+        -57.9, -31.5,
+      ],
+    ],
+  ],
+  UZ: [
+    [
+      [
+        56, 41.3, 56, 45, 58.6, 45.6, 61, 44.4, 62, 43.5, 64.9, 43.7, 65.8,
+        42.9, 66.1, 42, 66.6, 41.2, 68, 40.8, 68.6, 40.65, 69.1, 41.4, 70.4,
+        41.5, 71, 42.3, 71.9, 41.7, 73.15, 40.85, 72, 40.25, 70.9, 40.25, 70.4,
+        40.95, 69.3, 40.75, 68.6, 40.1, 67.8, 39.5, 68.4, 38.8, 68, 38, 67.78,
+        37.18, 66.54, 37.36, 65.5, 38.3, 63.6, 39.5, 62, 40.9, 61, 41.2, 60,
+        42.2, 58.6, 42.7, 58, 42.5, 57.1, 41.3,
+      ],
+    ],
+  ],
+  VC: [[[-61.28, 13.12, -61.1, 13.12, -61.1, 13.38, -61.28, 13.38]]],
+  VE: [
+    [
+      [
+        -71.3, 11.85, -71.6, 11, -71.5, 10, -71, 10.5, -70.9, 10.8, -70.2, 11.5,
+        -70.2, 12.2, -69.8, 11.5, -68.4, 10.5, -66.9, 10.62, -64.3, 10.6, -61.9,
+        10.7, -62.5, 10.2, -61, 9, -60.5, 8.5, -59.8, 8.3, -60.7, 7.5, -61.4,
+        5.95, -60.73, 5.2, -62.8, 4, -64, 4.1, -64.8, 2.3, -64, 1.5, -65.5, 0.7,
+        -66.9, 1.2, -67.8, 2.8, -67.3, 3.3, -67.8, 4, -67.8, 5.3, -67.45, 6.2,
+        -69.4, 6.1, -70.1, 7, -72.4, 7.4, -72.4, 8.4, -72.9, 9.1, -72.8, 10,
+        -72.3, 11.1,
+      ],
+    ],
+    [[-64.4, 11, -63.8, 11.2, -63.8, 10.9, -64.4, 10.85]],
+  ],
+  VN: [
+    [
+      [
+        108, 21.55, 107, 20.9, 106.5, 20.2, 105.8, 19, 106.5, 17.8, 107.2, 16.8,
+        108.2, 16.1, 108.9, 15, 109.3, 13.5, 109.2, 11.7, 108, 10.8, 106.8,
+        10.4, 105, 8.6, 104.8, 10.2, 104.45, 10.42, 105.1, 10.9, 105.9, 11,
+        106.2, 11.7, 107.5, 12.3, 107.55, 14.7, 107.5, 16, 106.6, 16.5, 106,
+        17.6, 105, 18.8, 104, 19.5, 104.6, 20.4, 104, 20.9, 102.7, 21.6, 102.1,
+        22.45, 102.5, 22.75, 104, 22.8, 105.3, 23.3, 106, 22.9, 106.7, 22,
+      ],
+    ],
+  ],
+  VU: [
+    [[168.1, -17.85, 168.6, -17.85, 168.6, -17.5, 168.1, -17.5]],
+    [[166.5, -15.7, 167.3, -15.7, 167.3, -14.6, 166.5, -14.6]],
+    [[167.1, -16.6, 167.9, -16.6, 167.9, -15.9, 167.1, -15.9]],
+    [[169.2, -19.65, 169.5, -19.65, 169.5, -19.3, 169.2, -19.3]],
+  ],
+  WS: [
+    [[-172.1, -14.1, -171.4, -14.1, -171.4, -13.8, -172.1, -13.8]],
+    [[-172.8, -13.85, -172.2, -13.85, -172.2, -13.45, -172.8, -13.45]],
+  ],
+  YE: [
+    [
+      [
+        42.8, 16.4, 43.3, 17.3, 44, 17.4, 47, 17, 49, 18.6, 52, 19, 53.1, 16.65,
+        52.2, 15.6, 49, 14, 45.5, 13, 45, 12.75, 43.5, 12.65, 43.25, 13.3, 42.7,
+        15.7,
+      ],
+    ],
+    [[53.3, 12.6, 54, 12.7, 54.5, 12.5, 53.8, 12.3]],
+  ],
+  ZA: [
+    [
+      [
+        16.45, -28.6, 18, -28.9, 20, -28.4, 20, -24.75, 21.6, -26.9, 23, -25.3,
+        25.5, -25.7, 27, -23.6, 29.35, -22.2, 31.3, -22.4, 32, -24.5, 31.95,
+        -25.95, 31.3, -25.7, 30.8, -26.3, 31.1, -27.2, 31.9, -27.3, 32.1, -26.8,
+        32.9, -26.86, 32.4, -28.5, 31, -29.9, 30, -31.3, 27.9, -33, 25.6, -34,
+        22, -34.2, 20, -34.8, 18.35, -34.3, 18.35, -33.9, 18, -32.8, 17.3,
+        -30.5,
+      ],
+      [
+        27, -29.6, 27.8, -28.9, 28.6, -28.6, 29.4, -29.2, 29.2, -29.9, 28.4,
+        -30.5, 27.5, -30.6,
+      ],
+    ],
+  ],
+  ZM: [
+    [
+      [
+        25.25, -17.8, 24.3, -17.5, 23.3, -17.6, 22, -16.2, 22, -13, 24, -13, 24,
+        -11, 25.3, -11.2, 26, -11.9, 27.2, -11.6, 28.4, -12.4, 29, -13.4, 29.8,
+        -13.4, 29.8, -12.2, 28.5, -11, 28.7, -8.5, 30.75, -8.2, 32.9, -9.4,
+        33.3, -10.8, 33, -12.5, 32.7, -13.6, 33.2, -14, 31.5, -14.8, 30.4,
+        -15.6, 29, -15.9, 28, -16.8, 27, -17.9,
+      ],
+    ],
+  ],
+  ZW: [
+    [
+      [
+        25.25, -17.8, 26.2, -19.5, 27.3, -20.5, 28, -21.6, 29.35, -22.2, 31.3,
+        -22.4, 32.4, -21.3, 32.9, -19, 32.7, -18, 33, -16.9, 31, -15.9, 30.4,
+        -15.6, 29, -15.9, 28, -16.8, 27, -17.9,
+      ],
+    ],
+  ],
+};
@@ -0,0 +1,129 @@
+import { getCurrency } from "./currency";
+import {
+  CurrencyCode,
+  CurrencyConverterOptions,
+  RateProvider,
+  RateTable,
+} from "./types";
+
+// ============================================================================
+// RATE PROVIDERS
+// ============================================================================
+
+/**
+ * Rate provider backed by an in-memory table quoted against one base currency.
+ * Pairs not involving the base are answered through it.
+ *
+ * @example
+ * const rates = new StaticRateProvider("USD", { EUR: 0.92, JPY: 157.3 });
+ * rates.getRate("USD", "EUR"); // 0.92
+ * rates.getRate("EUR", "JPY"); // 170.98 (157.3 / 0.92)
+ */
+export class StaticRateProvider implements RateProvider {
+  private readonly rates: RateTable;
+
+  constructor(
+    readonly base: CurrencyCode,
+    rates: RateTable,
+  ) {
+    this.rates = { ...rates, [base]: 1 };
+  }
+
+  getRate(from: CurrencyCode, to: CurrencyCode): number | undefined {
+    const fromRate = this.rates[from];
+    const toRate = this.rates[to];
+    return fromRate && toRate ? toRate / fromRate : undefined;
+  }
+
+  /**
+   * Replace or add rates, e.g. after fetching fresh quotes
+   */
+  setRates(rates: RateTable): void {
+    Object.assign(this.rates, rates, { [this.base]: 1 });
+  }
+}
+
+// ============================================================================
+// CURRENCY CONVERTER
+// ============================================================================
+
+/**
+ * Round half away from zero to the ISO 4217 minor units of a currency
+ * (2 for USD, 0 for JPY). The scaled amount is first cut to 15 significant
+ * digits, so binary noise like 1.005 * 100 = 100.49999999999999 rounds as
+ * the decimal 100.5 it stands for.
+ */
+const roundToMinorUnits = (amount: number, code: CurrencyCode): number => {
+  const factor = Math.pow(10, getCurrency(code).minorUnits);
+  const scaled = Number((Math.abs(amount) * factor).toPrecision(15));
+  return (Math.sign(amount) * Math.round(scaled)) / factor;
+};
+
+/**
+ * Converts amounts between currencies using a pluggable `RateProvider`.
+ * A missing direct rate is derived from the inverse pair, then by
+ * triangulating through the base currency.
+ *
+ * @example
+ * const converter = new CurrencyConverter(
+ *   new StaticRateProvider("USD", { EUR: 0.92, JPY: 157.3 }),
+ * );
+ * converter.convert(100, "USD", "EUR"); // 92
+ * converter.convert(100, "EUR", "JPY"); // 17098
+ * converter.convert(100, "USD", "BRL"); // undefined (no rate)
+ */
+export class CurrencyConverter {
+  private readonly base: CurrencyCode;
+
+  constructor(
+    private readonly provider: RateProvider,
+    options: CurrencyConverterOptions = {},
+  ) {
+    this.base = options.base ?? "USD";
+  }
+
+  /**
+   * Units of `to` per one unit of `from`, unrounded.
+   * Returns `undefined` if no rate can be found or derived.
+   */
+  getRate(from: CurrencyCode, to: CurrencyCode): number | undefined {
+    if (from === to) return 1;
+    const direct = this.getDirectRate(from, to);
+    if (direct !== undefined) return direct;
+
+    if (from === this.base || to === this.base) return undefined;
+    const fromBase = this.getDirectRate(from, this.base);
+    const toTarget = this.getDirectRate(this.base, to);
+    return fromBase !== undefined && toTarget !== undefined
+      ? fromBase * toTarget
+      : undefined;
+  }
+
+  /**
+   * Convert an amount, rounded to the minor units of the target currency.
+   * Returns `undefined` if no rate can be found or derived.
+   */
+  convert(
+    amount: number,
+    from: CurrencyCode,
+    to: CurrencyCode,
+  ): number | undefined {
+    const rate = this.getRate(from, to);
+    return rate === undefined
+      ? undefined
+      : roundToMinorUnits(amount * rate, to);
+  }
+
+  /**
+   * A provider rate for the pair or the inverse of the reverse pair
+   */
+  private getDirectRate(
+    from: CurrencyCode,
+    to: CurrencyCode,
+  ): number | undefined {
+    const rate = this.provider.getRate(from, to);
+    if (rate !== undefined) return rate;
+    const inverse = this.provider.getRate(to, from);
+    return inverse ? 1 / inverse : undefined;
+  }
+}
@@ -1,4 +1,4 @@
-export const countries = [
+const countryData = [
   {
     name: "United States",
     officialName: "United States of America",
@@ -10,15 +10,56 @@ export const countries = [
     subregion: "Northern America",
     continent: "North America",
     nativeName: "United States",
+    aliases: ["USA", "America"],
     languages: ["English"],
     flag: "🇺🇸",
-    currency: {
-      code: "USD",
-      name: "United States dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "1",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 38.9072, lng: -77.0369 },
+    centroid: { lat: 44.97, lng: -103.77 },
+    bounds: { south: 18.91, west: 172.44, north: 71.39, east: -66.95 },
+    landlocked: false,
+    borders: ["CAN", "MEX"],
+    timezones: [
+      { id: "America/New_York", primary: true },
+      { id: "America/Detroit", primary: false },
+      { id: "America/Kentucky/Louisville", primary: false },
+      { id: "America/Kentucky/Monticello", primary: false },
+      { id: "America/Indiana/Indianapolis", primary: false },
+      { id: "America/Indiana/Vincennes", primary: false },
+      { id: "America/Indiana/Winamac", primary: false },
+      { id: "America/Indiana/Marengo", primary: false },
+      { id: "America/Indiana/Petersburg", primary: false },
+      { id: "America/Indiana/Vevay", primary: false },
+      { id: "America/Chicago", primary: false },
+      { id: "America/Indiana/Tell_City", primary: false },
+      { id: "America/Indiana/Knox", primary: false },
+      { id: "America/Menominee", primary: false },
+      { id: "America/North_Dakota/Center", primary: false },
+      { id: "America/North_Dakota/New_Salem", primary: false },
+      { id: "America/North_Dakota/Beulah", primary: false },
+      { id: "America/Denver", primary: false },
+      { id: "America/Boise", primary: false },
+      { id: "America/Phoenix", primary: false },
+      { id: "America/Los_Angeles", primary: false },
+      { id: "America/Anchorage", primary: false },
+      { id: "America/Juneau", primary: false },
+      { id: "America/Sitka", primary: false },
+      { id: "America/Metlakatla", primary: false },
+      { id: "America/Yakutat", primary: false },
+      { id: "America/Nome", primary: false },
+      { id: "America/Adak", primary: false },
+      { id: "Pacific/Honolulu", primary: false },
+    ],
   },
   {
     name: "Canada",
@@ -31,15 +72,50 @@ export const countries = [
     subregion: "Northern America",
     continent: "North America",
     nativeName: "Canada",
+    aliases: [],
     languages: ["English", "French"],
     flag: "🇨🇦",
-    currency: {
-      code: "CAD",
-      name: "Canadian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "CAD",
+        name: "Canadian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "1",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 45.4215, lng: -75.6972 },
+    centroid: { lat: 62.4, lng: -96.47 },
+    bounds: { south: 41.68, west: -141, north: 83.11, east: -52.62 },
+    landlocked: false,
+    borders: ["USA"],
+    timezones: [
+      { id: "America/Toronto", primary: true },
+      { id: "America/St_Johns", primary: false },
+      { id: "America/Halifax", primary: false },
+      { id: "America/Glace_Bay", primary: false },
+      { id: "America/Moncton", primary: false },
+      { id: "America/Goose_Bay", primary: false },
+      { id: "America/Blanc-Sablon", primary: false },
+      { id: "America/Iqaluit", primary: false },
+      { id: "America/Atikokan", primary: false },
+      { id: "America/Winnipeg", primary: false },
+      { id: "America/Resolute", primary: false },
+      { id: "America/Rankin_Inlet", primary: false },
+      { id: "America/Regina", primary: false },
+      { id: "America/Swift_Current", primary: false },
+      { id: "America/Edmonton", primary: false },
+      { id: "America/Cambridge_Bay", primary: false },
+      { id: "America/Inuvik", primary: false },
+      { id: "America/Creston", primary: false },
+      { id: "America/Dawson_Creek", primary: false },
+      { id: "America/Fort_Nelson", primary: false },
+      { id: "America/Whitehorse", primary: false },
+      { id: "America/Dawson", primary: false },
+      { id: "America/Vancouver", primary: false },
+    ],
   },
   {
     name: "Brazil",
@@ -52,15 +128,43 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Brasil",
+    aliases: [],
     languages: ["Portuguese"],
     flag: "🇧🇷",
-    currency: {
-      code: "BRL",
-      name: "Brazilian real",
-      symbol: "R$",
-    },
+    currencies: [
+      {
+        code: "BRL",
+        name: "Brazilian real",
+        symbol: "R$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "55",
-    phoneMask: "##-#####-#####",
+    phoneMask: "##-#####-####",
+    capitalCoordinates: { lat: -15.7939, lng: -47.8828 },
+    centroid: { lat: -10.78, lng: -53.09 },
+    bounds: { south: -33.75, west: -73.99, north: 5.27, east: -32.39 },
+    landlocked: false,
+    borders: ["ARG", "BOL", "COL", "GUY", "PER", "PRY", "SUR", "URY", "VEN"],
+    timezones: [
+      { id: "America/Sao_Paulo", primary: true },
+      { id: "America/Noronha", primary: false },
+      { id: "America/Belem", primary: false },
+      { id: "America/Fortaleza", primary: false },
+      { id: "America/Recife", primary: false },
+      { id: "America/Araguaina", primary: false },
+      { id: "America/Maceio", primary: false },
+      { id: "America/Bahia", primary: false },
+      { id: "America/Campo_Grande", primary: false },
+      { id: "America/Cuiaba", primary: false },
+      { id: "America/Santarem", primary: false },
+      { id: "America/Porto_Velho", primary: false },
+      { id: "America/Boa_Vista", primary: false },
+      { id: "America/Manaus", primary: false },
+      { id: "America/Eirunepe", primary: false },
+      { id: "America/Rio_Branco", primary: false },
+    ],
   },
   {
     name: "United Kingdom",
@@ -73,15 +177,35 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "United Kingdom",
+    aliases: [
+      "UK",
+      "U.K.",
+      "Great Britain",
+      "Britain",
+      "England",
+      "Scotland",
+      "Wales",
+      "Northern Ireland",
+    ],
     languages: ["English"],
     flag: "🇬🇧",
-    currency: {
-      code: "GBP",
-      name: "British pound",
-      symbol: "£",
-    },
+    currencies: [
+      {
+        code: "GBP",
+        name: "British pound",
+        symbol: "£",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "44",
-    phoneMask: "####-#######",
+    phoneMask: "####-######",
+    capitalCoordinates: { lat: 51.5074, lng: -0.1278 },
+    centroid: { lat: 54, lng: -2.55 },
+    bounds: { south: 49.86, west: -8.65, north: 60.86, east: 1.77 },
+    landlocked: false,
+    borders: ["IRL"],
+    timezones: [{ id: "Europe/London", primary: true }],
   },
   {
     name: "Germany",
@@ -94,15 +218,29 @@ export const countries = [
     subregion: "Western Europe",
     continent: "Europe",
     nativeName: "Deutschland",
+    aliases: ["West Germany", "FRG"],
     languages: ["German"],
     flag: "🇩🇪",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "49",
     phoneMask: "###-########",
+    capitalCoordinates: { lat: 52.52, lng: 13.405 },
+    centroid: { lat: 51.16, lng: 10.45 },
+    bounds: { south: 47.27, west: 5.87, north: 55.06, east: 15.04 },
+    landlocked: false,
+    borders: ["AUT", "BEL", "CHE", "CZE", "DNK", "FRA", "LUX", "NLD", "POL"],
+    timezones: [
+      { id: "Europe/Berlin", primary: true },
+      { id: "Europe/Busingen", primary: false },
+    ],
   },
   {
     name: "France",
@@ -115,15 +253,26 @@ export const countries = [
     subregion: "Western Europe",
     continent: "Europe",
     nativeName: "France",
+    aliases: [],
     languages: ["French"],
     flag: "🇫🇷",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "33",
-    phoneMask: "#-##-##-##-###",
+    phoneMask: "#-##-##-##-##",
+    capitalCoordinates: { lat: 48.8566, lng: 2.3522 },
+    centroid: { lat: 46.6, lng: 2.45 },
+    bounds: { south: 41.33, west: -5.14, north: 51.09, east: 9.56 },
+    landlocked: false,
+    borders: ["AND", "BEL", "CHE", "DEU", "ESP", "ITA", "LUX", "MCO"],
+    timezones: [{ id: "Europe/Paris", primary: true }],
   },
   {
     name: "China",
@@ -136,15 +285,44 @@ export const countries = [
     subregion: "Eastern Asia",
     continent: "Asia",
     nativeName: "中国",
+    aliases: ["PRC", "Mainland China"],
     languages: ["Chinese"],
     flag: "🇨🇳",
-    currency: {
-      code: "CNY",
-      name: "Chinese yuan",
-      symbol: "¥",
-    },
+    currencies: [
+      {
+        code: "CNY",
+        name: "Chinese yuan",
+        symbol: "¥",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "86",
-    phoneMask: "###-####-#####",
+    phoneMask: "###-####-####",
+    capitalCoordinates: { lat: 39.9042, lng: 116.4074 },
+    centroid: { lat: 35.86, lng: 104.2 },
+    bounds: { south: 18.16, west: 73.5, north: 53.56, east: 134.77 },
+    landlocked: false,
+    borders: [
+      "AFG",
+      "BTN",
+      "IND",
+      "KAZ",
+      "KGZ",
+      "LAO",
+      "MMR",
+      "MNG",
+      "NPL",
+      "PAK",
+      "PRK",
+      "RUS",
+      "TJK",
+      "VNM",
+    ],
+    timezones: [
+      { id: "Asia/Shanghai", primary: true },
+      { id: "Asia/Urumqi", primary: false },
+    ],
   },
   {
     name: "Japan",
@@ -157,15 +335,26 @@ export const countries = [
     subregion: "Eastern Asia",
     continent: "Asia",
     nativeName: "日本",
+    aliases: ["Nippon", "Nihon"],
     languages: ["Japanese"],
     flag: "🇯🇵",
-    currency: {
-      code: "JPY",
-      name: "Japanese yen",
-      symbol: "¥",
-    },
+    currencies: [
+      {
+        code: "JPY",
+        name: "Japanese yen",
+        symbol: "¥",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "81",
-    phoneMask: "##-####-#####",
+    phoneMask: "##-####-####",
+    capitalCoordinates: { lat: 35.6762, lng: 139.6503 },
+    centroid: { lat: 36.2, lng: 138.25 },
+    bounds: { south: 24.05, west: 122.93, north: 45.56, east: 145.82 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Asia/Tokyo", primary: true }],
   },
   {
     name: "India",
@@ -178,15 +367,26 @@ export const countries = [
     subregion: "Southern Asia",
     continent: "Asia",
     nativeName: "भारत",
+    aliases: ["Bharat"],
     languages: ["Hindi", "English"],
     flag: "🇮🇳",
-    currency: {
-      code: "INR",
-      name: "Indian rupee",
-      symbol: "₹",
-    },
+    currencies: [
+      {
+        code: "INR",
+        name: "Indian rupee",
+        symbol: "₹",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "91",
-    phoneMask: "#####-######",
+    phoneMask: "#####-#####",
+    capitalCoordinates: { lat: 28.6139, lng: 77.209 },
+    centroid: { lat: 22.88, lng: 79.61 },
+    bounds: { south: 6.75, west: 68.11, north: 35.5, east: 97.4 },
+    landlocked: false,
+    borders: ["BGD", "BTN", "CHN", "MMR", "NPL", "PAK"],
+    timezones: [{ id: "Asia/Kolkata", primary: true }],
   },
   {
     name: "Australia",
@@ -199,15 +399,39 @@ export const countries = [
     subregion: "Australia and New Zealand",
     continent: "Oceania",
     nativeName: "Australia",
+    aliases: [],
     languages: ["English"],
     flag: "🇦🇺",
-    currency: {
-      code: "AUD",
-      name: "Australian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "AUD",
+        name: "Australian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "61",
-    phoneMask: "#-####-#####",
+    phoneMask: "#-####-####",
+    capitalCoordinates: { lat: -35.2809, lng: 149.13 },
+    centroid: { lat: -25.27, lng: 133.78 },
+    bounds: { south: -43.64, west: 112.92, north: -9.23, east: 153.64 },
+    landlocked: false,
+    borders: [],
+    timezones: [
+      { id: "Australia/Sydney", primary: true },
+      { id: "Australia/Lord_Howe", primary: false },
+      { id: "Antarctica/Macquarie", primary: false },
+      { id: "Australia/Hobart", primary: false },
+      { id: "Australia/Melbourne", primary: false },
+      { id: "Australia/Broken_Hill", primary: false },
+      { id: "Australia/Brisbane", primary: false },
+      { id: "Australia/Lindeman", primary: false },
+      { id: "Australia/Adelaide", primary: false },
+      { id: "Australia/Darwin", primary: false },
+      { id: "Australia/Perth", primary: false },
+      { id: "Australia/Eucla", primary: false },
+    ],
   },
   {
     name: "South Africa",
@@ -220,6 +444,7 @@ export const countries = [
     subregion: "Southern Africa",
     continent: "Africa",
     nativeName: "Afrika Borwa",
+    aliases: ["RSA"],
     languages: [
       "Afrikaans",
       "English",
@@ -234,13 +459,23 @@ export const countries = [
       "Ndebele",
     ],
     flag: "🇿🇦",
-    currency: {
-      code: "ZAR",
-      name: "South African rand",
-      symbol: "R",
-    },
+    currencies: [
+      {
+        code: "ZAR",
+        name: "South African rand",
+        symbol: "R",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "27",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: -25.7479, lng: 28.2293 },
+    centroid: { lat: -28.48, lng: 24.68 },
+    bounds: { south: -34.84, west: 16.45, north: -22.13, east: 32.89 },
+    landlocked: false,
+    borders: ["BWA", "LSO", "MOZ", "NAM", "SWZ", "ZWE"],
+    timezones: [{ id: "Africa/Johannesburg", primary: true }],
   },
   {
     name: "Nigeria",
@@ -253,15 +488,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Nigeria",
+    aliases: [],
     languages: ["English"],
     flag: "🇳🇬",
-    currency: {
-      code: "NGN",
-      name: "Nigerian naira",
-      symbol: "₦",
-    },
+    currencies: [
+      {
+        code: "NGN",
+        name: "Nigerian naira",
+        symbol: "₦",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "234",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 9.0765, lng: 7.3986 },
+    centroid: { lat: 9.08, lng: 8.68 },
+    bounds: { south: 4.27, west: 2.67, north: 13.89, east: 14.68 },
+    landlocked: false,
+    borders: ["BEN", "CMR", "NER", "TCD"],
+    timezones: [{ id: "Africa/Lagos", primary: true }],
   },
   {
     name: "Mexico",
@@ -274,15 +520,39 @@ export const countries = [
     subregion: "Central America",
     continent: "North America",
     nativeName: "México",
+    aliases: ["Méjico"],
     languages: ["Spanish"],
     flag: "🇲🇽",
-    currency: {
-      code: "MXN",
-      name: "Mexican peso",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "MXN",
+        name: "Mexican peso",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "52",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 19.4326, lng: -99.1332 },
+    centroid: { lat: 23.63, lng: -102.55 },
+    bounds: { south: 14.53, west: -118.4, north: 32.72, east: -86.7 },
+    landlocked: false,
+    borders: ["BLZ", "GTM", "USA"],
+    timezones: [
+      { id: "America/Mexico_City", primary: true },
+      { id: "America/Cancun", primary: false },
+      { id: "America/Merida", primary: false },
+      { id: "America/Monterrey", primary: false },
+      { id: "America/Matamoros", primary: false },
+      { id: "America/Chihuahua", primary: false },
+      { id: "America/Ciudad_Juarez", primary: false },
+      { id: "America/Ojinaga", primary: false },
+      { id: "America/Mazatlan", primary: false },
+      { id: "America/Bahia_Banderas", primary: false },
+      { id: "America/Hermosillo", primary: false },
+      { id: "America/Tijuana", primary: false },
+    ],
   },
   {
     name: "Russia",
@@ -295,15 +565,68 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "Россия",
+    aliases: ["USSR", "Soviet Union"],
     languages: ["Russian"],
     flag: "🇷🇺",
-    currency: {
-      code: "RUB",
-      name: "Russian ruble",
-      symbol: "₽",
-    },
+    currencies: [
+      {
+        code: "RUB",
+        name: "Russian ruble",
+        symbol: "₽",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "7",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-##-##",
+    capitalCoordinates: { lat: 55.7558, lng: 37.6173 },
+    centroid: { lat: 61.52, lng: 105.32 },
+    bounds: { south: 41.19, west: 19.64, north: 81.86, east: -169.05 },
+    landlocked: false,
+    borders: [
+      "AZE",
+      "BLR",
+      "CHN",
+      "EST",
+      "FIN",
+      "GEO",
+      "KAZ",
+      "LTU",
+      "LVA",
+      "MNG",
+      "NOR",
+      "POL",
+      "PRK",
+      "UKR",
+    ],
+    timezones: [
+      { id: "Europe/Moscow", primary: true },
+      { id: "Europe/Kaliningrad", primary: false },
+      { id: "Europe/Kirov", primary: false },
+      { id: "Europe/Volgograd", primary: false },
+      { id: "Europe/Astrakhan", primary: false },
+      { id: "Europe/Saratov", primary: false },
+      { id: "Europe/Ulyanovsk", primary: false },
+      { id: "Europe/Samara", primary: false },
+      { id: "Asia/Yekaterinburg", primary: false },
+      { id: "Asia/Omsk", primary: false },
+      { id: "Asia/Novosibirsk", primary: false },
+      { id: "Asia/Barnaul", primary: false },
+      { id: "Asia/Tomsk", primary: false },
+      { id: "Asia/Novokuznetsk", primary: false },
+      { id: "Asia/Krasnoyarsk", primary: false },
+      { id: "Asia/Irkutsk", primary: false },
+      { id: "Asia/Chita", primary: false },
+      { id: "Asia/Yakutsk", primary: false },
+      { id: "Asia/Khandyga", primary: false },
+      { id: "Asia/Vladivostok", primary: false },
+      { id: "Asia/Ust-Nera", primary: false },
+      { id: "Asia/Magadan", primary: false },
+      { id: "Asia/Sakhalin", primary: false },
+      { id: "Asia/Srednekolymsk", primary: false },
+      { id: "Asia/Kamchatka", primary: false },
+      { id: "Asia/Anadyr", primary: false },
+    ],
   },
   {
     name: "Saudi Arabia",
@@ -316,15 +639,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "المملكة العربية السعودية",
+    aliases: ["KSA"],
     languages: ["Arabic"],
     flag: "🇸🇦",
-    currency: {
-      code: "SAR",
-      name: "Saudi riyal",
-      symbol: "ر.س",
-    },
+    currencies: [
+      {
+        code: "SAR",
+        name: "Saudi riyal",
+        symbol: "ر.س",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "966",
-    phoneMask: "#-####-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 24.7136, lng: 46.6753 },
+    centroid: { lat: 23.89, lng: 45.08 },
+    bounds: { south: 16.38, west: 34.5, north: 32.16, east: 55.67 },
+    landlocked: false,
+    borders: ["ARE", "IRQ", "JOR", "KWT", "OMN", "QAT", "YEM"],
+    timezones: [{ id: "Asia/Riyadh", primary: true }],
   },
   {
     name: "Afghanistan",
@@ -337,15 +671,26 @@ export const countries = [
     subregion: "Southern Asia",
     continent: "Asia",
     nativeName: "افغانستان",
+    aliases: [],
     languages: ["Pashto", "Dari"],
     flag: "🇦🇫",
-    currency: {
-      code: "AFN",
-      name: "Afghan afghani",
-      symbol: "؋",
-    },
+    currencies: [
+      {
+        code: "AFN",
+        name: "Afghan afghani",
+        symbol: "؋",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "93",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 34.5553, lng: 69.2075 },
+    centroid: { lat: 33.94, lng: 67.71 },
+    bounds: { south: 29.38, west: 60.5, north: 38.49, east: 74.89 },
+    landlocked: true,
+    borders: ["CHN", "IRN", "PAK", "TJK", "TKM", "UZB"],
+    timezones: [{ id: "Asia/Kabul", primary: true }],
   },
   {
     name: "Albania",
@@ -358,15 +703,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Shqipëria",
+    aliases: [],
     languages: ["Albanian"],
     flag: "🇦🇱",
-    currency: {
-      code: "ALL",
-      name: "Albanian lek",
-      symbol: "L",
-    },
+    currencies: [
+      {
+        code: "ALL",
+        name: "Albanian lek",
+        symbol: "L",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "355",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 41.3275, lng: 19.8187 },
+    centroid: { lat: 41.15, lng: 20.17 },
+    bounds: { south: 39.64, west: 19.26, north: 42.66, east: 21.06 },
+    landlocked: false,
+    borders: ["GRC", "MKD", "MNE"],
+    timezones: [{ id: "Europe/Tirane", primary: true }],
   },
   {
     name: "Algeria",
@@ -379,15 +735,26 @@ export const countries = [
     subregion: "Northern Africa",
     continent: "Africa",
     nativeName: "الجزائر",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇩🇿",
-    currency: {
-      code: "DZD",
-      name: "Algerian dinar",
-      symbol: "د.ج",
-    },
+    currencies: [
+      {
+        code: "DZD",
+        name: "Algerian dinar",
+        symbol: "د.ج",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "213",
-    phoneMask: "##-###-#####",
+    phoneMask: "###-##-##-##",
+    capitalCoordinates: { lat: 36.7538, lng: 3.0588 },
+    centroid: { lat: 28.03, lng: 1.66 },
+    bounds: { south: 18.96, west: -8.67, north: 37.09, east: 11.98 },
+    landlocked: false,
+    borders: ["LBY", "MAR", "MLI", "MRT", "NER", "TUN"],
+    timezones: [{ id: "Africa/Algiers", primary: true }],
   },
   {
     name: "Andorra",
@@ -400,15 +767,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Andorra",
+    aliases: [],
     languages: ["Catalan"],
     flag: "🇦🇩",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "376",
-    phoneMask: "###-####",
+    phoneMask: "###-###",
+    capitalCoordinates: { lat: 42.5063, lng: 1.5218 },
+    centroid: { lat: 42.55, lng: 1.6 },
+    bounds: { south: 42.43, west: 1.41, north: 42.66, east: 1.79 },
+    landlocked: true,
+    borders: ["ESP", "FRA"],
+    timezones: [{ id: "Europe/Andorra", primary: true }],
   },
   {
     name: "Angola",
@@ -421,15 +799,26 @@ export const countries = [
     subregion: "Middle Africa",
     continent: "Africa",
     nativeName: "Angola",
+    aliases: [],
     languages: ["Portuguese"],
     flag: "🇦🇴",
-    currency: {
-      code: "AOA",
-      name: "Angolan kwanza",
-      symbol: "Kz",
-    },
+    currencies: [
+      {
+        code: "AOA",
+        name: "Angolan kwanza",
+        symbol: "Kz",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "244",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: -8.839, lng: 13.2894 },
+    centroid: { lat: -11.2, lng: 17.87 },
+    bounds: { south: -18.04, west: 11.64, north: -4.39, east: 24.08 },
+    landlocked: false,
+    borders: ["COD", "COG", "NAM", "ZMB"],
+    timezones: [{ id: "Africa/Luanda", primary: true }],
   },
   {
     name: "Antigua and Barbuda",
@@ -442,15 +831,33 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Antigua and Barbuda",
+    aliases: ["Antigua"],
     languages: ["English"],
     flag: "🇦🇬",
-    currency: {
-      code: "XCD",
-      name: "East Caribbean dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "XCD",
+        name: "East Caribbean dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "1-268",
-    phoneMask: "+1-268-###-#####",
+    phoneMask: "268-###-####",
+    capitalCoordinates: { lat: 17.1274, lng: -61.8468 },
+    centroid: { lat: 17.08, lng: -61.8 },
+    bounds: { south: 16.99, west: -61.91, north: 17.73, east: -61.67 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/Antigua", primary: true }],
   },
   {
     name: "Argentina",
@@ -463,15 +870,39 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Argentina",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇦🇷",
-    currency: {
-      code: "ARS",
-      name: "Argentine peso",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "ARS",
+        name: "Argentine peso",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "54",
-    phoneMask: "###-###-#####",
+    phoneMask: "##-####-####",
+    capitalCoordinates: { lat: -34.6037, lng: -58.3816 },
+    centroid: { lat: -38.42, lng: -63.62 },
+    bounds: { south: -55.06, west: -73.58, north: -21.78, east: -53.59 },
+    landlocked: false,
+    borders: ["BOL", "BRA", "CHL", "PRY", "URY"],
+    timezones: [
+      { id: "America/Argentina/Buenos_Aires", primary: true },
+      { id: "America/Argentina/Cordoba", primary: false },
+      { id: "America/Argentina/Salta", primary: false },
+      { id: "America/Argentina/Jujuy", primary: false },
+      { id: "America/Argentina/Tucuman", primary: false },
+      { id: "America/Argentina/Catamarca", primary: false },
+      { id: "America/Argentina/La_Rioja", primary: false },
+      { id: "America/Argentina/San_Juan", primary: false },
+      { id: "America/Argentina/Mendoza", primary: false },
+      { id: "America/Argentina/San_Luis", primary: false },
+      { id: "America/Argentina/Rio_Gallegos", primary: false },
+      { id: "America/Argentina/Ushuaia", primary: false },
+    ],
   },
   {
     name: "Armenia",
@@ -484,15 +915,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "Հայաստան",
+    aliases: [],
     languages: ["Armenian"],
     flag: "🇦🇲",
-    currency: {
-      code: "AMD",
-      name: "Armenian dram",
-      symbol: "֏",
-    },
+    currencies: [
+      {
+        code: "AMD",
+        name: "Armenian dram",
+        symbol: "֏",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "374",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 40.1792, lng: 44.4991 },
+    centroid: { lat: 40.07, lng: 45.04 },
+    bounds: { south: 38.84, west: 43.45, north: 41.3, east: 46.63 },
+    landlocked: true,
+    borders: ["AZE", "GEO", "IRN", "TUR"],
+    timezones: [{ id: "Asia/Yerevan", primary: true }],
   },
   {
     name: "Austria",
@@ -505,15 +947,26 @@ export const countries = [
     subregion: "Western Europe",
     continent: "Europe",
     nativeName: "Österreich",
+    aliases: [],
     languages: ["German"],
     flag: "🇦🇹",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "43",
-    phoneMask: "###-###-####",
+    phoneMask: "###-#######",
+    capitalCoordinates: { lat: 48.2082, lng: 16.3738 },
+    centroid: { lat: 47.52, lng: 14.55 },
+    bounds: { south: 46.37, west: 9.53, north: 49.02, east: 17.16 },
+    landlocked: true,
+    borders: ["CHE", "CZE", "DEU", "HUN", "ITA", "LIE", "SVK", "SVN"],
+    timezones: [{ id: "Europe/Vienna", primary: true }],
   },
   {
     name: "Azerbaijan",
@@ -526,15 +979,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "Azərbaycan",
+    aliases: [],
     languages: ["Azerbaijani"],
     flag: "🇦🇿",
-    currency: {
-      code: "AZN",
-      name: "Azerbaijani manat",
-      symbol: "₼",
-    },
+    currencies: [
+      {
+        code: "AZN",
+        name: "Azerbaijani manat",
+        symbol: "₼",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "994",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-##-##",
+    capitalCoordinates: { lat: 40.4093, lng: 49.8671 },
+    centroid: { lat: 40.14, lng: 47.58 },
+    bounds: { south: 38.39, west: 44.77, north: 41.91, east: 50.63 },
+    landlocked: true,
+    borders: ["ARM", "GEO", "IRN", "RUS", "TUR"],
+    timezones: [{ id: "Asia/Baku", primary: true }],
   },
   {
     name: "Bahamas",
@@ -547,15 +1011,33 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Bahamas",
+    aliases: ["The Bahamas"],
     languages: ["English"],
     flag: "🇧🇸",
-    currency: {
-      code: "BSD",
-      name: "Bahamian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "BSD",
+        name: "Bahamian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "1-242",
-    phoneMask: "+1-242-###-#####",
+    phoneMask: "242-###-####",
+    capitalCoordinates: { lat: 25.0443, lng: -77.3504 },
+    centroid: { lat: 24.25, lng: -76 },
+    bounds: { south: 20.91, west: -80.48, north: 27.26, east: -72.71 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/Nassau", primary: true }],
   },
   {
     name: "Bahrain",
@@ -568,15 +1050,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "البحرين",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇧🇭",
-    currency: {
-      code: "BHD",
-      name: "Bahraini dinar",
-      symbol: ".د.ب",
-    },
+    currencies: [
+      {
+        code: "BHD",
+        name: "Bahraini dinar",
+        symbol: ".د.ب",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "973",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 26.2285, lng: 50.586 },
+    centroid: { lat: 26.07, lng: 50.56 },
+    bounds: { south: 25.54, west: 50.38, north: 26.33, east: 50.82 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Asia/Bahrain", primary: true }],
   },
   {
     name: "Bangladesh",
@@ -589,15 +1082,26 @@ export const countries = [
     subregion: "Southern Asia",
     continent: "Asia",
     nativeName: "বাংলাদেশ",
+    aliases: ["East Pakistan"],
     languages: ["Bengali"],
     flag: "🇧🇩",
-    currency: {
-      code: "BDT",
-      name: "Bangladeshi taka",
-      symbol: "৳",
-    },
+    currencies: [
+      {
+        code: "BDT",
+        name: "Bangladeshi taka",
+        symbol: "৳",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "880",
-    phoneMask: "####-#######",
+    phoneMask: "####-######",
+    capitalCoordinates: { lat: 23.8103, lng: 90.4125 },
+    centroid: { lat: 23.68, lng: 90.36 },
+    bounds: { south: 20.59, west: 88.01, north: 26.63, east: 92.67 },
+    landlocked: false,
+    borders: ["IND", "MMR"],
+    timezones: [{ id: "Asia/Dhaka", primary: true }],
   },
   {
     name: "Barbados",
@@ -610,15 +1114,33 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Barbados",
+    aliases: [],
     languages: ["English"],
     flag: "🇧🇧",
-    currency: {
-      code: "BBD",
-      name: "Barbadian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "BBD",
+        name: "Barbadian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "1-246",
-    phoneMask: "+1-246-###-#####",
+    phoneMask: "246-###-####",
+    capitalCoordinates: { lat: 13.0975, lng: -59.6167 },
+    centroid: { lat: 13.19, lng: -59.54 },
+    bounds: { south: 13.04, west: -59.65, north: 13.34, east: -59.42 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/Barbados", primary: true }],
   },
   {
     name: "Belarus",
@@ -631,15 +1153,26 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "Беларусь",
+    aliases: ["Byelorussia", "Belorussia", "White Russia"],
     languages: ["Belarusian", "Russian"],
     flag: "🇧🇾",
-    currency: {
-      code: "BYN",
-      name: "Belarusian ruble",
-      symbol: "Br",
-    },
+    currencies: [
+      {
+        code: "BYN",
+        name: "Belarusian ruble",
+        symbol: "Br",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "375",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-##-##",
+    capitalCoordinates: { lat: 53.9006, lng: 27.559 },
+    centroid: { lat: 53.71, lng: 27.95 },
+    bounds: { south: 51.26, west: 23.18, north: 56.17, east: 32.78 },
+    landlocked: true,
+    borders: ["LTU", "LVA", "POL", "RUS", "UKR"],
+    timezones: [{ id: "Europe/Minsk", primary: true }],
   },
   {
     name: "Belgium",
@@ -652,15 +1185,26 @@ export const countries = [
     subregion: "Western Europe",
     continent: "Europe",
     nativeName: "België",
+    aliases: [],
     languages: ["Dutch", "French", "German"],
     flag: "🇧🇪",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "32",
-    phoneMask: "###-###-####",
+    phoneMask: "###-##-##-##",
+    capitalCoordinates: { lat: 50.8503, lng: 4.3517 },
+    centroid: { lat: 50.5, lng: 4.47 },
+    bounds: { south: 49.5, west: 2.54, north: 51.51, east: 6.41 },
+    landlocked: false,
+    borders: ["DEU", "FRA", "LUX", "NLD"],
+    timezones: [{ id: "Europe/Brussels", primary: true }],
   },
   {
     name: "Belize",
@@ -673,15 +1217,33 @@ export const countries = [
     subregion: "Central America",
     continent: "North America",
     nativeName: "Belize",
+    aliases: ["British Honduras"],
     languages: ["English"],
     flag: "🇧🇿",
-    currency: {
-      code: "BZD",
-      name: "Belize dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "BZD",
+        name: "Belize dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "501",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 17.251, lng: -88.759 },
+    centroid: { lat: 17.19, lng: -88.5 },
+    bounds: { south: 15.89, west: -89.22, north: 18.5, east: -87.49 },
+    landlocked: false,
+    borders: ["GTM", "MEX"],
+    timezones: [{ id: "America/Belize", primary: true }],
   },
   {
     name: "Benin",
@@ -694,15 +1256,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Bénin",
+    aliases: ["Dahomey"],
     languages: ["French"],
     flag: "🇧🇯",
-    currency: {
-      code: "XOF",
-      name: "West African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XOF",
+        name: "West African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "229",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##-##",
+    capitalCoordinates: { lat: 6.4969, lng: 2.6289 },
+    centroid: { lat: 9.31, lng: 2.32 },
+    bounds: { south: 6.23, west: 0.77, north: 12.42, east: 3.85 },
+    landlocked: false,
+    borders: ["BFA", "NER", "NGA", "TGO"],
+    timezones: [{ id: "Africa/Porto-Novo", primary: true }],
   },
   {
     name: "Bhutan",
@@ -715,15 +1288,33 @@ export const countries = [
     subregion: "Southern Asia",
     continent: "Asia",
     nativeName: "འབྲུག",
+    aliases: [],
     languages: ["Dzongkha"],
     flag: "🇧🇹",
-    currency: {
-      code: "BTN",
-      name: "Bhutanese ngultrum",
-      symbol: "Nu.",
-    },
+    currencies: [
+      {
+        code: "BTN",
+        name: "Bhutanese ngultrum",
+        symbol: "Nu.",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "INR",
+        name: "Indian rupee",
+        symbol: "₹",
+        primary: false,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "975",
-    phoneMask: "#-###-#####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 27.4728, lng: 89.639 },
+    centroid: { lat: 27.51, lng: 90.43 },
+    bounds: { south: 26.7, west: 88.75, north: 28.33, east: 92.13 },
+    landlocked: true,
+    borders: ["CHN", "IND"],
+    timezones: [{ id: "Asia/Thimphu", primary: true }],
   },
   {
     name: "Bolivia",
@@ -736,15 +1327,26 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Bolivia",
+    aliases: [],
     languages: ["Spanish", "Quechua", "Aymara"],
     flag: "🇧🇴",
-    currency: {
-      code: "BOB",
-      name: "Bolivian boliviano",
-      symbol: "Bs.",
-    },
+    currencies: [
+      {
+        code: "BOB",
+        name: "Bolivian boliviano",
+        symbol: "Bs.",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "591",
-    phoneMask: "#-###-#####",
+    phoneMask: "#-###-####",
+    capitalCoordinates: { lat: -19.0196, lng: -65.2619 },
+    centroid: { lat: -16.29, lng: -63.59 },
+    bounds: { south: -22.9, west: -69.64, north: -9.68, east: -57.45 },
+    landlocked: true,
+    borders: ["ARG", "BRA", "CHL", "PER", "PRY"],
+    timezones: [{ id: "America/La_Paz", primary: true }],
   },
   {
     name: "Bosnia and Herzegovina",
@@ -757,15 +1359,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Bosna i Hercegovina",
+    aliases: ["Bosnia", "BiH"],
     languages: ["Bosnian", "Croatian", "Serbian"],
     flag: "🇧🇦",
-    currency: {
-      code: "BAM",
-      name: "Bosnia and Herzegovina convertible mark",
-      symbol: "KM",
-    },
+    currencies: [
+      {
+        code: "BAM",
+        name: "Bosnia and Herzegovina convertible mark",
+        symbol: "KM",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "387",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 43.8563, lng: 18.4131 },
+    centroid: { lat: 43.92, lng: 17.68 },
+    bounds: { south: 42.56, west: 15.72, north: 45.28, east: 19.62 },
+    landlocked: false,
+    borders: ["HRV", "MNE", "SRB"],
+    timezones: [{ id: "Europe/Sarajevo", primary: true }],
   },
   {
     name: "Botswana",
@@ -778,15 +1391,26 @@ export const countries = [
     subregion: "Southern Africa",
     continent: "Africa",
     nativeName: "Botswana",
+    aliases: ["Bechuanaland"],
     languages: ["English", "Tswana"],
     flag: "🇧🇼",
-    currency: {
-      code: "BWP",
-      name: "Botswana pula",
-      symbol: "P",
-    },
+    currencies: [
+      {
+        code: "BWP",
+        name: "Botswana pula",
+        symbol: "P",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "267",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: -24.6282, lng: 25.9231 },
+    centroid: { lat: -22.33, lng: 24.68 },
+    bounds: { south: -26.91, west: 19.99, north: -17.78, east: 29.37 },
+    landlocked: true,
+    borders: ["NAM", "ZAF", "ZMB", "ZWE"],
+    timezones: [{ id: "Africa/Gaborone", primary: true }],
   },
   {
     name: "Brunei",
@@ -799,15 +1423,26 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "Brunei",
+    aliases: ["Brunei Darussalam"],
     languages: ["Malay"],
     flag: "🇧🇳",
-    currency: {
-      code: "BND",
-      name: "Brunei dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "BND",
+        name: "Brunei dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "673",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 4.9031, lng: 114.9398 },
+    centroid: { lat: 4.54, lng: 114.73 },
+    bounds: { south: 4, west: 114.07, north: 5.05, east: 115.36 },
+    landlocked: false,
+    borders: ["MYS"],
+    timezones: [{ id: "Asia/Brunei", primary: true }],
   },
   {
     name: "Bulgaria",
@@ -820,15 +1455,26 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "България",
+    aliases: [],
     languages: ["Bulgarian"],
     flag: "🇧🇬",
-    currency: {
-      code: "BGN",
-      name: "Bulgarian lev",
-      symbol: "лв",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "359",
-    phoneMask: "###-###-####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 42.6977, lng: 23.3219 },
+    centroid: { lat: 42.73, lng: 25.49 },
+    bounds: { south: 41.24, west: 22.36, north: 44.22, east: 28.61 },
+    landlocked: false,
+    borders: ["GRC", "MKD", "ROU", "SRB", "TUR"],
+    timezones: [{ id: "Europe/Sofia", primary: true }],
   },
   {
     name: "Burkina Faso",
@@ -841,15 +1487,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Burkina Faso",
+    aliases: ["Upper Volta"],
     languages: ["French"],
     flag: "🇧🇫",
-    currency: {
-      code: "XOF",
-      name: "West African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XOF",
+        name: "West African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "226",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 12.3714, lng: -1.5197 },
+    centroid: { lat: 12.24, lng: -1.56 },
+    bounds: { south: 9.4, west: -5.52, north: 15.08, east: 2.41 },
+    landlocked: true,
+    borders: ["BEN", "CIV", "GHA", "MLI", "NER", "TGO"],
+    timezones: [{ id: "Africa/Ouagadougou", primary: true }],
   },
   {
     name: "Burundi",
@@ -862,15 +1519,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Uburundi",
+    aliases: [],
     languages: ["Kirundi", "French", "English"],
     flag: "🇧🇮",
-    currency: {
-      code: "BIF",
-      name: "Burundian franc",
-      symbol: "FBu",
-    },
+    currencies: [
+      {
+        code: "BIF",
+        name: "Burundian franc",
+        symbol: "FBu",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "257",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: -3.4264, lng: 29.9306 },
+    centroid: { lat: -3.37, lng: 29.92 },
+    bounds: { south: -4.47, west: 29, north: -2.31, east: 30.85 },
+    landlocked: true,
+    borders: ["COD", "RWA", "TZA"],
+    timezones: [{ id: "Africa/Bujumbura", primary: true }],
   },
   {
     name: "Cabo Verde",
@@ -883,15 +1551,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Cabo Verde",
+    aliases: ["Cape Verde"],
     languages: ["Portuguese"],
     flag: "🇨🇻",
-    currency: {
-      code: "CVE",
-      name: "Cape Verdean escudo",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "CVE",
+        name: "Cape Verdean escudo",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "238",
-    phoneMask: "###-#####",
+    phoneMask: "###-##-##",
+    capitalCoordinates: { lat: 14.933, lng: -23.5133 },
+    centroid: { lat: 16, lng: -24.01 },
+    bounds: { south: 14.8, west: -25.36, north: 17.21, east: -22.66 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Atlantic/Cape_Verde", primary: true }],
   },
   {
     name: "Cambodia",
@@ -904,15 +1583,33 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "កម្ពុជា",
+    aliases: ["Kampuchea", "Khmer Republic"],
     languages: ["Khmer"],
     flag: "🇰🇭",
-    currency: {
-      code: "KHR",
-      name: "Cambodian riel",
-      symbol: "៛",
-    },
+    currencies: [
+      {
+        code: "KHR",
+        name: "Cambodian riel",
+        symbol: "៛",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "855",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 11.5564, lng: 104.9282 },
+    centroid: { lat: 12.57, lng: 104.99 },
+    bounds: { south: 9.91, west: 102.34, north: 14.69, east: 107.63 },
+    landlocked: false,
+    borders: ["LAO", "THA", "VNM"],
+    timezones: [{ id: "Asia/Phnom_Penh", primary: true }],
   },
   {
     name: "Cameroon",
@@ -925,15 +1622,26 @@ export const countries = [
     subregion: "Middle Africa",
     continent: "Africa",
     nativeName: "Cameroun",
+    aliases: [],
     languages: ["English", "French"],
     flag: "🇨🇲",
-    currency: {
-      code: "XAF",
-      name: "Central African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XAF",
+        name: "Central African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "237",
-    phoneMask: "###-###-####",
+    phoneMask: "#-##-##-##-##",
+    capitalCoordinates: { lat: 3.848, lng: 11.5021 },
+    centroid: { lat: 7.37, lng: 12.35 },
+    bounds: { south: 1.65, west: 8.49, north: 13.08, east: 16.19 },
+    landlocked: false,
+    borders: ["CAF", "COG", "GAB", "GNQ", "NGA", "TCD"],
+    timezones: [{ id: "Africa/Douala", primary: true }],
   },
   {
     name: "Central African Republic",
@@ -946,15 +1654,26 @@ export const countries = [
     subregion: "Middle Africa",
     continent: "Africa",
     nativeName: "République centrafricaine",
+    aliases: ["CAR"],
     languages: ["French", "Sango"],
     flag: "🇨🇫",
-    currency: {
-      code: "XAF",
-      name: "Central African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XAF",
+        name: "Central African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "236",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 4.3947, lng: 18.5582 },
+    centroid: { lat: 6.61, lng: 20.94 },
+    bounds: { south: 2.22, west: 14.42, north: 11.01, east: 27.46 },
+    landlocked: true,
+    borders: ["CMR", "COD", "COG", "SDN", "SSD", "TCD"],
+    timezones: [{ id: "Africa/Bangui", primary: true }],
   },
   {
     name: "Chad",
@@ -967,15 +1686,26 @@ export const countries = [
     subregion: "Middle Africa",
     continent: "Africa",
     nativeName: "Tchad",
+    aliases: [],
     languages: ["French", "Arabic"],
     flag: "🇹🇩",
-    currency: {
-      code: "XAF",
-      name: "Central African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XAF",
+        name: "Central African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "235",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 12.1348, lng: 15.0557 },
+    centroid: { lat: 15.45, lng: 18.73 },
+    bounds: { south: 7.44, west: 13.47, north: 23.45, east: 24 },
+    landlocked: true,
+    borders: ["CAF", "CMR", "LBY", "NER", "NGA", "SDN"],
+    timezones: [{ id: "Africa/Ndjamena", primary: true }],
   },
   {
     name: "Chile",
@@ -988,15 +1718,31 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Chile",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇨🇱",
-    currency: {
-      code: "CLP",
-      name: "Chilean peso",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "CLP",
+        name: "Chilean peso",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "56",
-    phoneMask: "#-####-#####",
+    phoneMask: "#-####-####",
+    capitalCoordinates: { lat: -33.4489, lng: -70.6693 },
+    centroid: { lat: -35.68, lng: -71.54 },
+    bounds: { south: -55.98, west: -75.7, north: -17.5, east: -66.42 },
+    landlocked: false,
+    borders: ["ARG", "BOL", "PER"],
+    timezones: [
+      { id: "America/Santiago", primary: true },
+      { id: "America/Coyhaique", primary: false },
+      { id: "America/Punta_Arenas", primary: false },
+      { id: "Pacific/Easter", primary: false },
+    ],
   },
   {
     name: "Colombia",
@@ -1009,15 +1755,26 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Colombia",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇨🇴",
-    currency: {
-      code: "COP",
-      name: "Colombian peso",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "COP",
+        name: "Colombian peso",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "57",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 4.711, lng: -74.0721 },
+    centroid: { lat: 4.57, lng: -74.3 },
+    bounds: { south: -4.23, west: -79.03, north: 12.46, east: -66.85 },
+    landlocked: false,
+    borders: ["BRA", "ECU", "PAN", "PER", "VEN"],
+    timezones: [{ id: "America/Bogota", primary: true }],
   },
   {
     name: "Comoros",
@@ -1030,15 +1787,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "جزر القمر",
+    aliases: [],
     languages: ["Arabic", "French", "Comorian"],
     flag: "🇰🇲",
-    currency: {
-      code: "KMF",
-      name: "Comorian franc",
-      symbol: "CF",
-    },
+    currencies: [
+      {
+        code: "KMF",
+        name: "Comorian franc",
+        symbol: "CF",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "269",
-    phoneMask: "###-#####",
+    phoneMask: "###-##-##",
+    capitalCoordinates: { lat: -11.7172, lng: 43.2473 },
+    centroid: { lat: -11.88, lng: 43.87 },
+    bounds: { south: -12.42, west: 43.22, north: -11.36, east: 44.54 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Indian/Comoro", primary: true }],
   },
   {
     name: "Congo (Congo-Brazzaville)",
@@ -1051,15 +1819,26 @@ export const countries = [
     subregion: "Middle Africa",
     continent: "Africa",
     nativeName: "Congo",
+    aliases: ["Congo-Brazzaville", "Congo Republic"],
     languages: ["French"],
     flag: "🇨🇬",
-    currency: {
-      code: "XAF",
-      name: "Central African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XAF",
+        name: "Central African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "242",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: -4.2634, lng: 15.2429 },
+    centroid: { lat: -0.23, lng: 15.83 },
+    bounds: { south: -5.03, west: 11.2, north: 3.71, east: 18.65 },
+    landlocked: false,
+    borders: ["AGO", "CAF", "CMR", "COD", "GAB"],
+    timezones: [{ id: "Africa/Brazzaville", primary: true }],
   },
   {
     name: "Congo (Congo-Kinshasa)",
@@ -1072,15 +1851,36 @@ export const countries = [
     subregion: "Middle Africa",
     continent: "Africa",
     nativeName: "République démocratique du Congo",
+    aliases: ["DRC", "DR Congo", "Congo-Kinshasa", "Zaire"],
     languages: ["French"],
     flag: "🇨🇩",
-    currency: {
-      code: "CDF",
-      name: "Congolese franc",
-      symbol: "FC",
-    },
+    currencies: [
+      {
+        code: "CDF",
+        name: "Congolese franc",
+        symbol: "FC",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "243",
-    phoneMask: "##-###-#####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: -4.4419, lng: 15.2663 },
+    centroid: { lat: -4.04, lng: 21.76 },
+    bounds: { south: -13.46, west: 12.18, north: 5.39, east: 31.31 },
+    landlocked: false,
+    borders: ["AGO", "BDI", "CAF", "COG", "RWA", "SSD", "TZA", "UGA", "ZMB"],
+    timezones: [
+      { id: "Africa/Kinshasa", primary: true },
+      { id: "Africa/Lubumbashi", primary: false },
+    ],
   },
   {
     name: "Costa Rica",
@@ -1093,15 +1893,58 @@ export const countries = [
     subregion: "Central America",
     continent: "North America",
     nativeName: "Costa Rica",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇨🇷",
-    currency: {
-      code: "CRC",
-      name: "Costa Rican colón",
-      symbol: "₡",
-    },
+    currencies: [
+      {
+        code: "CRC",
+        name: "Costa Rican colón",
+        symbol: "₡",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "506",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 9.9281, lng: -84.0907 },
+    centroid: { lat: 9.75, lng: -83.75 },
+    bounds: { south: 8.03, west: -85.95, north: 11.22, east: -82.55 },
+    landlocked: false,
+    borders: ["NIC", "PAN"],
+    timezones: [{ id: "America/Costa_Rica", primary: true }],
+  },
+  {
+    name: "Côte d'Ivoire",
+    officialName: "Republic of Côte d'Ivoire",
+    alpha2: "CI",
+    alpha3: "CIV",
+    numeric: "384",
+    capital: "Yamoussoukro",
+    region: "Africa",
+    subregion: "Western Africa",
+    continent: "Africa",
+    nativeName: "Côte d'Ivoire",
+    aliases: ["Ivory Coast"],
+    languages: ["French"],
+    flag: "🇨🇮",
+    currencies: [
+      {
+        code: "XOF",
+        name: "West African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
+    phoneCode: "225",
+    phoneMask: "##-##-##-##-##",
+    capitalCoordinates: { lat: 6.8276, lng: -5.2893 },
+    centroid: { lat: 7.54, lng: -5.55 },
+    bounds: { south: 4.36, west: -8.6, north: 10.74, east: -2.49 },
+    landlocked: false,
+    borders: ["BFA", "GHA", "GIN", "LBR", "MLI"],
+    timezones: [{ id: "Africa/Abidjan", primary: true }],
   },
   {
     name: "Croatia",
@@ -1114,15 +1957,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Hrvatska",
+    aliases: [],
     languages: ["Croatian"],
     flag: "🇭🇷",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "385",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 45.815, lng: 15.9819 },
+    centroid: { lat: 45.1, lng: 15.2 },
+    bounds: { south: 42.39, west: 13.49, north: 46.55, east: 19.45 },
+    landlocked: false,
+    borders: ["BIH", "HUN", "MNE", "SRB", "SVN"],
+    timezones: [{ id: "Europe/Zagreb", primary: true }],
   },
   {
     name: "Cuba",
@@ -1135,15 +1989,26 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Cuba",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇨🇺",
-    currency: {
-      code: "CUP",
-      name: "Cuban peso",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "CUP",
+        name: "Cuban peso",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "53",
-    phoneMask: "#-###-#####",
+    phoneMask: "#-###-####",
+    capitalCoordinates: { lat: 23.1136, lng: -82.3666 },
+    centroid: { lat: 21.52, lng: -77.78 },
+    bounds: { south: 19.83, west: -84.95, north: 23.27, east: -74.13 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/Havana", primary: true }],
   },
   {
     name: "Cyprus",
@@ -1156,15 +2021,29 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "Κύπρος",
+    aliases: [],
     languages: ["Greek", "Turkish"],
     flag: "🇨🇾",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "357",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 35.1856, lng: 33.3823 },
+    centroid: { lat: 35.13, lng: 33.43 },
+    bounds: { south: 34.56, west: 32.27, north: 35.71, east: 34.6 },
+    landlocked: false,
+    borders: [],
+    timezones: [
+      { id: "Asia/Nicosia", primary: true },
+      { id: "Asia/Famagusta", primary: false },
+    ],
   },
   {
     name: "Czech Republic",
@@ -1177,15 +2056,26 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "Česko",
+    aliases: ["Czechia"],
     languages: ["Czech"],
     flag: "🇨🇿",
-    currency: {
-      code: "CZK",
-      name: "Czech koruna",
-      symbol: "Kč",
-    },
+    currencies: [
+      {
+        code: "CZK",
+        name: "Czech koruna",
+        symbol: "Kč",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "420",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 50.0755, lng: 14.4378 },
+    centroid: { lat: 49.82, lng: 15.47 },
+    bounds: { south: 48.55, west: 12.09, north: 51.06, east: 18.86 },
+    landlocked: true,
+    borders: ["AUT", "DEU", "POL", "SVK"],
+    timezones: [{ id: "Europe/Prague", primary: true }],
   },
   {
     name: "Denmark",
@@ -1198,15 +2088,26 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "Danmark",
+    aliases: [],
     languages: ["Danish"],
     flag: "🇩🇰",
-    currency: {
-      code: "DKK",
-      name: "Danish krone",
-      symbol: "kr",
-    },
+    currencies: [
+      {
+        code: "DKK",
+        name: "Danish krone",
+        symbol: "kr",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "45",
-    phoneMask: "##-##-##-###",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 55.6761, lng: 12.5683 },
+    centroid: { lat: 56.26, lng: 9.5 },
+    bounds: { south: 54.56, west: 8.07, north: 57.75, east: 15.2 },
+    landlocked: false,
+    borders: ["DEU"],
+    timezones: [{ id: "Europe/Copenhagen", primary: true }],
   },
   {
     name: "Djibouti",
@@ -1219,15 +2120,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "جيبوتي",
+    aliases: ["French Somaliland"],
     languages: ["French", "Arabic"],
     flag: "🇩🇯",
-    currency: {
-      code: "DJF",
-      name: "Djiboutian franc",
-      symbol: "Fdj",
-    },
+    currencies: [
+      {
+        code: "DJF",
+        name: "Djiboutian franc",
+        symbol: "Fdj",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "253",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 11.5721, lng: 43.1456 },
+    centroid: { lat: 11.83, lng: 42.59 },
+    bounds: { south: 10.93, west: 41.77, north: 12.71, east: 43.42 },
+    landlocked: false,
+    borders: ["ERI", "ETH", "SOM"],
+    timezones: [{ id: "Africa/Djibouti", primary: true }],
   },
   {
     name: "Dominica",
@@ -1240,15 +2152,33 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Dominica",
+    aliases: [],
     languages: ["English"],
     flag: "🇩🇲",
-    currency: {
-      code: "XCD",
-      name: "East Caribbean dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "XCD",
+        name: "East Caribbean dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "1-767",
-    phoneMask: "+1-767-###-#####",
+    phoneMask: "767-###-####",
+    capitalCoordinates: { lat: 15.3092, lng: -61.3794 },
+    centroid: { lat: 15.41, lng: -61.37 },
+    bounds: { south: 15.2, west: -61.48, north: 15.64, east: -61.24 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/Dominica", primary: true }],
   },
   {
     name: "Dominican Republic",
@@ -1261,15 +2191,26 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "República Dominicana",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇩🇴",
-    currency: {
-      code: "DOP",
-      name: "Dominican peso",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "DOP",
+        name: "Dominican peso",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "1-809",
-    phoneMask: "+1-809-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 18.4861, lng: -69.9312 },
+    centroid: { lat: 18.74, lng: -70.16 },
+    bounds: { south: 17.47, west: -72.01, north: 19.93, east: -68.32 },
+    landlocked: false,
+    borders: ["HTI"],
+    timezones: [{ id: "America/Santo_Domingo", primary: true }],
   },
   {
     name: "Ecuador",
@@ -1282,15 +2223,29 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Ecuador",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇪🇨",
-    currency: {
-      code: "USD",
-      name: "United States dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "593",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: -0.1807, lng: -78.4678 },
+    centroid: { lat: -1.83, lng: -78.18 },
+    bounds: { south: -5.01, west: -81.08, north: 1.68, east: -75.19 },
+    landlocked: false,
+    borders: ["COL", "PER"],
+    timezones: [
+      { id: "America/Guayaquil", primary: true },
+      { id: "Pacific/Galapagos", primary: false },
+    ],
   },
   {
     name: "Egypt",
@@ -1303,15 +2258,26 @@ export const countries = [
     subregion: "Northern Africa",
     continent: "Africa",
     nativeName: "مصر",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇪🇬",
-    currency: {
-      code: "EGP",
-      name: "Egyptian pound",
-      symbol: "£",
-    },
+    currencies: [
+      {
+        code: "EGP",
+        name: "Egyptian pound",
+        symbol: "£",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "20",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 30.0444, lng: 31.2357 },
+    centroid: { lat: 26.82, lng: 30.8 },
+    bounds: { south: 22, west: 24.7, north: 31.67, east: 36.9 },
+    landlocked: false,
+    borders: ["ISR", "LBY", "SDN"],
+    timezones: [{ id: "Africa/Cairo", primary: true }],
   },
   {
     name: "El Salvador",
@@ -1324,15 +2290,26 @@ export const countries = [
     subregion: "Central America",
     continent: "North America",
     nativeName: "El Salvador",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇸🇻",
-    currency: {
-      code: "USD",
-      name: "United States dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "503",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 13.6929, lng: -89.2182 },
+    centroid: { lat: 13.79, lng: -88.9 },
+    bounds: { south: 13.15, west: -90.13, north: 14.45, east: -87.69 },
+    landlocked: false,
+    borders: ["GTM", "HND"],
+    timezones: [{ id: "America/El_Salvador", primary: true }],
   },
   {
     name: "Equatorial Guinea",
@@ -1345,15 +2322,26 @@ export const countries = [
     subregion: "Middle Africa",
     continent: "Africa",
     nativeName: "Guinea Ecuatorial",
+    aliases: [],
     languages: ["Spanish", "French", "Portuguese"],
     flag: "🇬🇶",
-    currency: {
-      code: "XAF",
-      name: "Central African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XAF",
+        name: "Central African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "240",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 3.7504, lng: 8.7371 },
+    centroid: { lat: 1.65, lng: 10.27 },
+    bounds: { south: -1.47, west: 5.6, north: 3.79, east: 11.34 },
+    landlocked: false,
+    borders: ["CMR", "GAB"],
+    timezones: [{ id: "Africa/Malabo", primary: true }],
   },
   {
     name: "Eritrea",
@@ -1366,15 +2354,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "ኤርትራ",
+    aliases: [],
     languages: ["Tigrinya", "Arabic", "English"],
     flag: "🇪🇷",
-    currency: {
-      code: "ERN",
-      name: "Eritrean nakfa",
-      symbol: "Nfk",
-    },
+    currencies: [
+      {
+        code: "ERN",
+        name: "Eritrean nakfa",
+        symbol: "Nfk",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "291",
-    phoneMask: "#-###-####",
+    phoneMask: "#-###-###",
+    capitalCoordinates: { lat: 15.3229, lng: 38.9251 },
+    centroid: { lat: 15.18, lng: 39.78 },
+    bounds: { south: 12.36, west: 36.43, north: 18, east: 43.14 },
+    landlocked: false,
+    borders: ["DJI", "ETH", "SDN"],
+    timezones: [{ id: "Africa/Asmara", primary: true }],
   },
   {
     name: "Estonia",
@@ -1387,15 +2386,26 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "Eesti",
+    aliases: [],
     languages: ["Estonian"],
     flag: "🇪🇪",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "372",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 59.437, lng: 24.7536 },
+    centroid: { lat: 58.6, lng: 25.01 },
+    bounds: { south: 57.51, west: 21.76, north: 59.68, east: 28.21 },
+    landlocked: false,
+    borders: ["LVA", "RUS"],
+    timezones: [{ id: "Europe/Tallinn", primary: true }],
   },
   {
     name: "Eswatini",
@@ -1408,15 +2418,33 @@ export const countries = [
     subregion: "Southern Africa",
     continent: "Africa",
     nativeName: "eSwatini",
+    aliases: ["Swaziland"],
     languages: ["English", "Swati"],
     flag: "🇸🇿",
-    currency: {
-      code: "SZL",
-      name: "Swazi lilangeni",
-      symbol: "L",
-    },
+    currencies: [
+      {
+        code: "SZL",
+        name: "Swazi lilangeni",
+        symbol: "L",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "ZAR",
+        name: "South African rand",
+        symbol: "R",
+        primary: false,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "268",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: -26.3054, lng: 31.1367 },
+    centroid: { lat: -26.52, lng: 31.47 },
+    bounds: { south: -27.32, west: 30.79, north: -25.72, east: 32.14 },
+    landlocked: true,
+    borders: ["MOZ", "ZAF"],
+    timezones: [{ id: "Africa/Mbabane", primary: true }],
   },
   {
     name: "Ethiopia",
@@ -1429,15 +2457,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "ኢትዮጵያ",
+    aliases: ["Abyssinia"],
     languages: ["Amharic"],
     flag: "🇪🇹",
-    currency: {
-      code: "ETB",
-      name: "Ethiopian birr",
-      symbol: "Br",
-    },
+    currencies: [
+      {
+        code: "ETB",
+        name: "Ethiopian birr",
+        symbol: "Br",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "251",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 9.03, lng: 38.74 },
+    centroid: { lat: 9.15, lng: 40.49 },
+    bounds: { south: 3.4, west: 32.99, north: 14.89, east: 48 },
+    landlocked: true,
+    borders: ["DJI", "ERI", "KEN", "SDN", "SOM", "SSD"],
+    timezones: [{ id: "Africa/Addis_Ababa", primary: true }],
   },
   {
     name: "Fiji",
@@ -1450,15 +2489,26 @@ export const countries = [
     subregion: "Melanesia",
     continent: "Oceania",
     nativeName: "Viti",
+    aliases: [],
     languages: ["English", "Fijian", "Hindi"],
     flag: "🇫🇯",
-    currency: {
-      code: "FJD",
-      name: "Fijian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "FJD",
+        name: "Fijian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "679",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: -18.1248, lng: 178.4501 },
+    centroid: { lat: -17.71, lng: 178.07 },
+    bounds: { south: -20.68, west: 176.9, north: -12.46, east: -178.2 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Pacific/Fiji", primary: true }],
   },
   {
     name: "Finland",
@@ -1471,15 +2521,26 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "Suomi",
+    aliases: [],
     languages: ["Finnish", "Swedish"],
     flag: "🇫🇮",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "358",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 60.1699, lng: 24.9384 },
+    centroid: { lat: 64.95, lng: 26.07 },
+    bounds: { south: 59.69, west: 20.55, north: 70.09, east: 31.59 },
+    landlocked: false,
+    borders: ["NOR", "RUS", "SWE"],
+    timezones: [{ id: "Europe/Helsinki", primary: true }],
   },
   {
     name: "Gabon",
@@ -1492,15 +2553,26 @@ export const countries = [
     subregion: "Middle Africa",
     continent: "Africa",
     nativeName: "Gabon",
+    aliases: [],
     languages: ["French"],
     flag: "🇬🇦",
-    currency: {
-      code: "XAF",
-      name: "Central African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XAF",
+        name: "Central African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "241",
-    phoneMask: "#-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 0.4162, lng: 9.4673 },
+    centroid: { lat: -0.8, lng: 11.61 },
+    bounds: { south: -3.98, west: 8.7, north: 2.32, east: 14.5 },
+    landlocked: false,
+    borders: ["CMR", "COG", "GNQ"],
+    timezones: [{ id: "Africa/Libreville", primary: true }],
   },
   {
     name: "Gambia",
@@ -1513,15 +2585,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Gambia",
+    aliases: ["The Gambia"],
     languages: ["English"],
     flag: "🇬🇲",
-    currency: {
-      code: "GMD",
-      name: "Gambian dalasi",
-      symbol: "D",
-    },
+    currencies: [
+      {
+        code: "GMD",
+        name: "Gambian dalasi",
+        symbol: "D",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "220",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 13.4549, lng: -16.579 },
+    centroid: { lat: 13.44, lng: -15.31 },
+    bounds: { south: 13.06, west: -16.82, north: 13.83, east: -13.8 },
+    landlocked: false,
+    borders: ["SEN"],
+    timezones: [{ id: "Africa/Banjul", primary: true }],
   },
   {
     name: "Georgia",
@@ -1534,15 +2617,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "საქართველო",
+    aliases: ["Sakartvelo"],
     languages: ["Georgian"],
     flag: "🇬🇪",
-    currency: {
-      code: "GEL",
-      name: "Georgian lari",
-      symbol: "₾",
-    },
+    currencies: [
+      {
+        code: "GEL",
+        name: "Georgian lari",
+        symbol: "₾",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "995",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 41.7151, lng: 44.8271 },
+    centroid: { lat: 42.32, lng: 43.36 },
+    bounds: { south: 41.05, west: 40.01, north: 43.59, east: 46.74 },
+    landlocked: false,
+    borders: ["ARM", "AZE", "RUS", "TUR"],
+    timezones: [{ id: "Asia/Tbilisi", primary: true }],
   },
   {
     name: "Ghana",
@@ -1555,15 +2649,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Ghana",
+    aliases: ["Gold Coast"],
     languages: ["English"],
     flag: "🇬🇭",
-    currency: {
-      code: "GHS",
-      name: "Ghanaian cedi",
-      symbol: "₵",
-    },
+    currencies: [
+      {
+        code: "GHS",
+        name: "Ghanaian cedi",
+        symbol: "₵",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "233",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 5.6037, lng: -0.187 },
+    centroid: { lat: 7.95, lng: -1.02 },
+    bounds: { south: 4.74, west: -3.26, north: 11.17, east: 1.19 },
+    landlocked: false,
+    borders: ["BFA", "CIV", "TGO"],
+    timezones: [{ id: "Africa/Accra", primary: true }],
   },
   {
     name: "Greece",
@@ -1576,15 +2681,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Ελλάδα",
+    aliases: ["Hellas"],
     languages: ["Greek"],
     flag: "🇬🇷",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "30",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 37.9838, lng: 23.7275 },
+    centroid: { lat: 39.07, lng: 21.82 },
+    bounds: { south: 34.8, west: 19.37, north: 41.75, east: 29.65 },
+    landlocked: false,
+    borders: ["ALB", "BGR", "MKD", "TUR"],
+    timezones: [{ id: "Europe/Athens", primary: true }],
   },
   {
     name: "Grenada",
@@ -1597,15 +2713,33 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Grenada",
+    aliases: [],
     languages: ["English"],
     flag: "🇬🇩",
-    currency: {
-      code: "XCD",
-      name: "East Caribbean dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "XCD",
+        name: "East Caribbean dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "1-473",
-    phoneMask: "+1-473-###-#####",
+    phoneMask: "473-###-####",
+    capitalCoordinates: { lat: 12.0561, lng: -61.7488 },
+    centroid: { lat: 12.12, lng: -61.68 },
+    bounds: { south: 11.98, west: -61.8, north: 12.53, east: -61.38 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/Grenada", primary: true }],
   },
   {
     name: "Guatemala",
@@ -1618,15 +2752,26 @@ export const countries = [
     subregion: "Central America",
     continent: "North America",
     nativeName: "Guatemala",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇬🇹",
-    currency: {
-      code: "GTQ",
-      name: "Guatemalan quetzal",
-      symbol: "Q",
-    },
+    currencies: [
+      {
+        code: "GTQ",
+        name: "Guatemalan quetzal",
+        symbol: "Q",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "502",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 14.6349, lng: -90.5069 },
+    centroid: { lat: 15.78, lng: -90.23 },
+    bounds: { south: 13.74, west: -92.24, north: 17.82, east: -88.22 },
+    landlocked: false,
+    borders: ["BLZ", "HND", "MEX", "SLV"],
+    timezones: [{ id: "America/Guatemala", primary: true }],
   },
   {
     name: "Guinea",
@@ -1639,15 +2784,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Guinée",
+    aliases: ["Guinea-Conakry"],
     languages: ["French"],
     flag: "🇬🇳",
-    currency: {
-      code: "GNF",
-      name: "Guinean franc",
-      symbol: "FG",
-    },
+    currencies: [
+      {
+        code: "GNF",
+        name: "Guinean franc",
+        symbol: "FG",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "224",
-    phoneMask: "###-###-####",
+    phoneMask: "###-##-##-##",
+    capitalCoordinates: { lat: 9.6412, lng: -13.5784 },
+    centroid: { lat: 9.95, lng: -9.7 },
+    bounds: { south: 7.19, west: -15.08, north: 12.68, east: -7.64 },
+    landlocked: false,
+    borders: ["CIV", "GNB", "LBR", "MLI", "SEN", "SLE"],
+    timezones: [{ id: "Africa/Conakry", primary: true }],
   },
   {
     name: "Guinea-Bissau",
@@ -1660,15 +2816,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Guiné-Bissau",
+    aliases: ["Portuguese Guinea"],
     languages: ["Portuguese"],
     flag: "🇬🇼",
-    currency: {
-      code: "XOF",
-      name: "West African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XOF",
+        name: "West African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "245",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 11.8817, lng: -15.6178 },
+    centroid: { lat: 11.8, lng: -15.18 },
+    bounds: { south: 10.86, west: -16.72, north: 12.69, east: -13.64 },
+    landlocked: false,
+    borders: ["GIN", "SEN"],
+    timezones: [{ id: "Africa/Bissau", primary: true }],
   },
   {
     name: "Guyana",
@@ -1681,15 +2848,26 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Guyana",
+    aliases: ["British Guiana"],
     languages: ["English"],
     flag: "🇬🇾",
-    currency: {
-      code: "GYD",
-      name: "Guyanese dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "GYD",
+        name: "Guyanese dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "592",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 6.8013, lng: -58.1551 },
+    centroid: { lat: 4.86, lng: -58.93 },
+    bounds: { south: 1.17, west: -61.4, north: 8.56, east: -56.48 },
+    landlocked: false,
+    borders: ["BRA", "SUR", "VEN"],
+    timezones: [{ id: "America/Guyana", primary: true }],
   },
   {
     name: "Haiti",
@@ -1702,15 +2880,33 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Haïti",
+    aliases: [],
     languages: ["French", "Haitian Creole"],
     flag: "🇭🇹",
-    currency: {
-      code: "HTG",
-      name: "Haitian gourde",
-      symbol: "G",
-    },
+    currencies: [
+      {
+        code: "HTG",
+        name: "Haitian gourde",
+        symbol: "G",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "509",
-    phoneMask: "####-#####",
+    phoneMask: "##-##-####",
+    capitalCoordinates: { lat: 18.5944, lng: -72.3074 },
+    centroid: { lat: 18.97, lng: -72.29 },
+    bounds: { south: 18.02, west: -74.48, north: 20.09, east: -71.62 },
+    landlocked: false,
+    borders: ["DOM"],
+    timezones: [{ id: "America/Port-au-Prince", primary: true }],
   },
   {
     name: "Honduras",
@@ -1723,15 +2919,26 @@ export const countries = [
     subregion: "Central America",
     continent: "North America",
     nativeName: "Honduras",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇭🇳",
-    currency: {
-      code: "HNL",
-      name: "Honduran lempira",
-      symbol: "L",
-    },
+    currencies: [
+      {
+        code: "HNL",
+        name: "Honduran lempira",
+        symbol: "L",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "504",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 14.0723, lng: -87.1921 },
+    centroid: { lat: 15.2, lng: -86.24 },
+    bounds: { south: 12.98, west: -89.35, north: 16.51, east: -83.13 },
+    landlocked: false,
+    borders: ["GTM", "NIC", "SLV"],
+    timezones: [{ id: "America/Tegucigalpa", primary: true }],
   },
   {
     name: "Hungary",
@@ -1744,15 +2951,26 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "Magyarország",
+    aliases: [],
     languages: ["Hungarian"],
     flag: "🇭🇺",
-    currency: {
-      code: "HUF",
-      name: "Hungarian forint",
-      symbol: "Ft",
-    },
+    currencies: [
+      {
+        code: "HUF",
+        name: "Hungarian forint",
+        symbol: "Ft",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "36",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 47.4979, lng: 19.0402 },
+    centroid: { lat: 47.16, lng: 19.5 },
+    bounds: { south: 45.74, west: 16.11, north: 48.59, east: 22.9 },
+    landlocked: true,
+    borders: ["AUT", "HRV", "ROU", "SRB", "SVK", "SVN", "UKR"],
+    timezones: [{ id: "Europe/Budapest", primary: true }],
   },
   {
     name: "Iceland",
@@ -1765,15 +2983,26 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "Ísland",
+    aliases: [],
     languages: ["Icelandic"],
     flag: "🇮🇸",
-    currency: {
-      code: "ISK",
-      name: "Icelandic króna",
-      symbol: "kr",
-    },
+    currencies: [
+      {
+        code: "ISK",
+        name: "Icelandic króna",
+        symbol: "kr",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "354",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 64.1466, lng: -21.9426 },
+    centroid: { lat: 64.96, lng: -19.02 },
+    bounds: { south: 63.3, west: -24.55, north: 66.57, east: -13.5 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Atlantic/Reykjavik", primary: true }],
   },
   {
     name: "Indonesia",
@@ -1786,15 +3015,31 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "Indonesia",
+    aliases: [],
     languages: ["Indonesian"],
     flag: "🇮🇩",
-    currency: {
-      code: "IDR",
-      name: "Indonesian rupiah",
-      symbol: "Rp",
-    },
+    currencies: [
+      {
+        code: "IDR",
+        name: "Indonesian rupiah",
+        symbol: "Rp",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "62",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-####-####",
+    capitalCoordinates: { lat: -6.2088, lng: 106.8456 },
+    centroid: { lat: -0.79, lng: 113.92 },
+    bounds: { south: -11.01, west: 95.01, north: 6.08, east: 141.02 },
+    landlocked: false,
+    borders: ["MYS", "PNG", "TLS"],
+    timezones: [
+      { id: "Asia/Jakarta", primary: true },
+      { id: "Asia/Pontianak", primary: false },
+      { id: "Asia/Makassar", primary: false },
+      { id: "Asia/Jayapura", primary: false },
+    ],
   },
   {
     name: "Iran",
@@ -1807,15 +3052,26 @@ export const countries = [
     subregion: "Southern Asia",
     continent: "Asia",
     nativeName: "ایران",
+    aliases: ["Persia"],
     languages: ["Persian"],
     flag: "🇮🇷",
-    currency: {
-      code: "IRR",
-      name: "Iranian rial",
-      symbol: "﷼",
-    },
+    currencies: [
+      {
+        code: "IRR",
+        name: "Iranian rial",
+        symbol: "﷼",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "98",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 35.6892, lng: 51.389 },
+    centroid: { lat: 32.43, lng: 53.69 },
+    bounds: { south: 25.06, west: 44.03, north: 39.78, east: 63.33 },
+    landlocked: false,
+    borders: ["AFG", "ARM", "AZE", "IRQ", "PAK", "TKM", "TUR"],
+    timezones: [{ id: "Asia/Tehran", primary: true }],
   },
   {
     name: "Iraq",
@@ -1828,15 +3084,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "العراق",
+    aliases: [],
     languages: ["Arabic", "Kurdish"],
     flag: "🇮🇶",
-    currency: {
-      code: "IQD",
-      name: "Iraqi dinar",
-      symbol: "ع.د",
-    },
+    currencies: [
+      {
+        code: "IQD",
+        name: "Iraqi dinar",
+        symbol: "ع.د",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "964",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 33.3152, lng: 44.3661 },
+    centroid: { lat: 33.22, lng: 43.68 },
+    bounds: { south: 29.06, west: 38.79, north: 37.38, east: 48.57 },
+    landlocked: false,
+    borders: ["IRN", "JOR", "KWT", "SAU", "SYR", "TUR"],
+    timezones: [{ id: "Asia/Baghdad", primary: true }],
   },
   {
     name: "Ireland",
@@ -1849,15 +3116,26 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "Éire",
+    aliases: [],
     languages: ["English", "Irish"],
     flag: "🇮🇪",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "353",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 53.3498, lng: -6.2603 },
+    centroid: { lat: 53.41, lng: -8.24 },
+    bounds: { south: 51.42, west: -10.48, north: 55.39, east: -5.99 },
+    landlocked: false,
+    borders: ["GBR"],
+    timezones: [{ id: "Europe/Dublin", primary: true }],
   },
   {
     name: "Israel",
@@ -1870,15 +3148,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "ישראל",
+    aliases: [],
     languages: ["Hebrew", "Arabic"],
     flag: "🇮🇱",
-    currency: {
-      code: "ILS",
-      name: "Israeli new shekel",
-      symbol: "₪",
-    },
+    currencies: [
+      {
+        code: "ILS",
+        name: "Israeli new shekel",
+        symbol: "₪",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "972",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 31.7683, lng: 35.2137 },
+    centroid: { lat: 31.05, lng: 34.85 },
+    bounds: { south: 29.49, west: 34.27, north: 33.33, east: 35.9 },
+    landlocked: false,
+    borders: ["EGY", "JOR", "LBN", "SYR"],
+    timezones: [{ id: "Asia/Jerusalem", primary: true }],
   },
   {
     name: "Italy",
@@ -1891,15 +3180,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Italia",
+    aliases: [],
     languages: ["Italian"],
     flag: "🇮🇹",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "39",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 41.9028, lng: 12.4964 },
+    centroid: { lat: 41.87, lng: 12.57 },
+    bounds: { south: 35.49, west: 6.63, north: 47.09, east: 18.52 },
+    landlocked: false,
+    borders: ["AUT", "CHE", "FRA", "SMR", "SVN"],
+    timezones: [{ id: "Europe/Rome", primary: true }],
   },
   {
     name: "Jamaica",
@@ -1912,15 +3212,26 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Jamaica",
+    aliases: [],
     languages: ["English"],
     flag: "🇯🇲",
-    currency: {
-      code: "JMD",
-      name: "Jamaican dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "JMD",
+        name: "Jamaican dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "1-876",
-    phoneMask: "+1-876-###-#####",
+    phoneMask: "876-###-####",
+    capitalCoordinates: { lat: 17.9714, lng: -76.7936 },
+    centroid: { lat: 18.11, lng: -77.3 },
+    bounds: { south: 17.7, west: -78.37, north: 18.53, east: -76.18 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/Jamaica", primary: true }],
   },
   {
     name: "Jordan",
@@ -1933,15 +3244,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "الأردن",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇯🇴",
-    currency: {
-      code: "JOD",
-      name: "Jordanian dinar",
-      symbol: "د.ا",
-    },
+    currencies: [
+      {
+        code: "JOD",
+        name: "Jordanian dinar",
+        symbol: "د.ا",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "962",
-    phoneMask: "#-####-#####",
+    phoneMask: "#-####-####",
+    capitalCoordinates: { lat: 31.9454, lng: 35.9284 },
+    centroid: { lat: 30.59, lng: 36.24 },
+    bounds: { south: 29.19, west: 34.96, north: 33.37, east: 39.3 },
+    landlocked: false,
+    borders: ["IRQ", "ISR", "SAU", "SYR"],
+    timezones: [{ id: "Asia/Amman", primary: true }],
   },
   {
     name: "Kazakhstan",
@@ -1954,15 +3276,34 @@ export const countries = [
     subregion: "Central Asia",
     continent: "Asia",
     nativeName: "Қазақстан",
+    aliases: [],
     languages: ["Kazakh", "Russian"],
     flag: "🇰🇿",
-    currency: {
-      code: "KZT",
-      name: "Kazakhstani tenge",
-      symbol: "₸",
-    },
+    currencies: [
+      {
+        code: "KZT",
+        name: "Kazakhstani tenge",
+        symbol: "₸",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "7",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-##-##",
+    capitalCoordinates: { lat: 51.1694, lng: 71.4491 },
+    centroid: { lat: 48.02, lng: 66.92 },
+    bounds: { south: 40.57, west: 46.49, north: 55.44, east: 87.31 },
+    landlocked: true,
+    borders: ["CHN", "KGZ", "RUS", "TKM", "UZB"],
+    timezones: [
+      { id: "Asia/Almaty", primary: true },
+      { id: "Asia/Qyzylorda", primary: false },
+      { id: "Asia/Qostanay", primary: false },
+      { id: "Asia/Aqtobe", primary: false },
+      { id: "Asia/Aqtau", primary: false },
+      { id: "Asia/Atyrau", primary: false },
+      { id: "Asia/Oral", primary: false },
+    ],
   },
   {
     name: "Kenya",
@@ -1975,15 +3316,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Kenya",
+    aliases: [],
     languages: ["English", "Swahili"],
     flag: "🇰🇪",
-    currency: {
-      code: "KES",
-      name: "Kenyan shilling",
-      symbol: "KSh",
-    },
+    currencies: [
+      {
+        code: "KES",
+        name: "Kenyan shilling",
+        symbol: "KSh",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "254",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: -1.2921, lng: 36.8219 },
+    centroid: { lat: 0.02, lng: 37.91 },
+    bounds: { south: -4.68, west: 33.91, north: 5.03, east: 41.91 },
+    landlocked: false,
+    borders: ["ETH", "SOM", "SSD", "TZA", "UGA"],
+    timezones: [{ id: "Africa/Nairobi", primary: true }],
   },
   {
     name: "Kiribati",
@@ -1996,15 +3348,30 @@ export const countries = [
     subregion: "Micronesia",
     continent: "Oceania",
     nativeName: "Kiribati",
+    aliases: ["Gilbert Islands"],
     languages: ["English", "Gilbertese"],
     flag: "🇰🇮",
-    currency: {
-      code: "AUD",
-      name: "Australian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "AUD",
+        name: "Australian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "686",
-    phoneMask: "######",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 1.3278, lng: 172.9797 },
+    centroid: { lat: 1.87, lng: -157.36 },
+    bounds: { south: -11.45, west: 169.52, north: 4.72, east: -150.2 },
+    landlocked: false,
+    borders: [],
+    timezones: [
+      { id: "Pacific/Tarawa", primary: true },
+      { id: "Pacific/Kanton", primary: false },
+      { id: "Pacific/Kiritimati", primary: false },
+    ],
   },
   {
     name: "Kuwait",
@@ -2017,15 +3384,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "الكويت",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇰🇼",
-    currency: {
-      code: "KWD",
-      name: "Kuwaiti dinar",
-      symbol: "د.ك",
-    },
+    currencies: [
+      {
+        code: "KWD",
+        name: "Kuwaiti dinar",
+        symbol: "د.ك",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "965",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 29.3759, lng: 47.9774 },
+    centroid: { lat: 29.31, lng: 47.48 },
+    bounds: { south: 28.52, west: 46.55, north: 30.1, east: 48.43 },
+    landlocked: false,
+    borders: ["IRQ", "SAU"],
+    timezones: [{ id: "Asia/Kuwait", primary: true }],
   },
   {
     name: "Kyrgyzstan",
@@ -2038,15 +3416,26 @@ export const countries = [
     subregion: "Central Asia",
     continent: "Asia",
     nativeName: "Кыргызстан",
+    aliases: ["Kirghizia"],
     languages: ["Kyrgyz", "Russian"],
     flag: "🇰🇬",
-    currency: {
-      code: "KGS",
-      name: "Kyrgyzstani som",
-      symbol: "с",
-    },
+    currencies: [
+      {
+        code: "KGS",
+        name: "Kyrgyzstani som",
+        symbol: "с",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "996",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 42.8746, lng: 74.5698 },
+    centroid: { lat: 41.2, lng: 74.77 },
+    bounds: { south: 39.17, west: 69.28, north: 43.27, east: 80.28 },
+    landlocked: true,
+    borders: ["CHN", "KAZ", "TJK", "UZB"],
+    timezones: [{ id: "Asia/Bishkek", primary: true }],
   },
   {
     name: "Laos",
@@ -2059,15 +3448,26 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "ລາວ",
+    aliases: ["Lao PDR", "Lao"],
     languages: ["Lao"],
     flag: "🇱🇦",
-    currency: {
-      code: "LAK",
-      name: "Lao kip",
-      symbol: "₭",
-    },
+    currencies: [
+      {
+        code: "LAK",
+        name: "Lao kip",
+        symbol: "₭",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "856",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-##-###-###",
+    capitalCoordinates: { lat: 17.9757, lng: 102.6331 },
+    centroid: { lat: 19.86, lng: 102.5 },
+    bounds: { south: 13.91, west: 100.08, north: 22.5, east: 107.64 },
+    landlocked: true,
+    borders: ["CHN", "KHM", "MMR", "THA", "VNM"],
+    timezones: [{ id: "Asia/Vientiane", primary: true }],
   },
   {
     name: "Latvia",
@@ -2080,15 +3480,26 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "Latvija",
+    aliases: [],
     languages: ["Latvian"],
     flag: "🇱🇻",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "371",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 56.9496, lng: 24.1052 },
+    centroid: { lat: 56.88, lng: 24.6 },
+    bounds: { south: 55.67, west: 20.97, north: 58.08, east: 28.24 },
+    landlocked: false,
+    borders: ["BLR", "EST", "LTU", "RUS"],
+    timezones: [{ id: "Europe/Riga", primary: true }],
   },
   {
     name: "Lebanon",
@@ -2101,15 +3512,33 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "لبنان",
+    aliases: [],
     languages: ["Arabic", "French"],
     flag: "🇱🇧",
-    currency: {
-      code: "LBP",
-      name: "Lebanese pound",
-      symbol: "ل.ل",
-    },
+    currencies: [
+      {
+        code: "LBP",
+        name: "Lebanese pound",
+        symbol: "ل.ل",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "961",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 33.8938, lng: 35.5018 },
+    centroid: { lat: 33.85, lng: 35.86 },
+    bounds: { south: 33.05, west: 35.1, north: 34.69, east: 36.62 },
+    landlocked: false,
+    borders: ["ISR", "SYR"],
+    timezones: [{ id: "Asia/Beirut", primary: true }],
   },
   {
     name: "Lesotho",
@@ -2122,15 +3551,33 @@ export const countries = [
     subregion: "Southern Africa",
     continent: "Africa",
     nativeName: "Lesotho",
+    aliases: ["Basutoland"],
     languages: ["English", "Sesotho"],
     flag: "🇱🇸",
-    currency: {
-      code: "LSL",
-      name: "Lesotho loti",
-      symbol: "L",
-    },
+    currencies: [
+      {
+        code: "LSL",
+        name: "Lesotho loti",
+        symbol: "L",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "ZAR",
+        name: "South African rand",
+        symbol: "R",
+        primary: false,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "266",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: -29.3151, lng: 27.4869 },
+    centroid: { lat: -29.61, lng: 28.23 },
+    bounds: { south: -30.68, west: 27.01, north: -28.57, east: 29.46 },
+    landlocked: true,
+    borders: ["ZAF"],
+    timezones: [{ id: "Africa/Maseru", primary: true }],
   },
   {
     name: "Liberia",
@@ -2143,15 +3590,33 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Liberia",
+    aliases: [],
     languages: ["English"],
     flag: "🇱🇷",
-    currency: {
-      code: "LRD",
-      name: "Liberian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "LRD",
+        name: "Liberian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "231",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 6.3156, lng: -10.8074 },
+    centroid: { lat: 6.43, lng: -9.43 },
+    bounds: { south: 4.35, west: -11.49, north: 8.55, east: -7.37 },
+    landlocked: false,
+    borders: ["CIV", "GIN", "SLE"],
+    timezones: [{ id: "Africa/Monrovia", primary: true }],
   },
   {
     name: "Libya",
@@ -2164,15 +3629,26 @@ export const countries = [
     subregion: "Northern Africa",
     continent: "Africa",
     nativeName: "ليبيا",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇱🇾",
-    currency: {
-      code: "LYD",
-      name: "Libyan dinar",
-      symbol: "ل.د",
-    },
+    currencies: [
+      {
+        code: "LYD",
+        name: "Libyan dinar",
+        symbol: "ل.د",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "218",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 32.8872, lng: 13.1913 },
+    centroid: { lat: 26.34, lng: 17.23 },
+    bounds: { south: 19.5, west: 9.39, north: 33.17, east: 25.15 },
+    landlocked: false,
+    borders: ["DZA", "EGY", "NER", "SDN", "TCD", "TUN"],
+    timezones: [{ id: "Africa/Tripoli", primary: true }],
   },
   {
     name: "Liechtenstein",
@@ -2185,15 +3661,26 @@ export const countries = [
     subregion: "Western Europe",
     continent: "Europe",
     nativeName: "Liechtenstein",
+    aliases: [],
     languages: ["German"],
     flag: "🇱🇮",
-    currency: {
-      code: "CHF",
-      name: "Swiss franc",
-      symbol: "CHF",
-    },
+    currencies: [
+      {
+        code: "CHF",
+        name: "Swiss franc",
+        symbol: "CHF",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "423",
-    phoneMask: "###-###-####",
+    phoneMask: "###-##-##",
+    capitalCoordinates: { lat: 47.141, lng: 9.5209 },
+    centroid: { lat: 47.17, lng: 9.56 },
+    bounds: { south: 47.05, west: 9.47, north: 47.27, east: 9.64 },
+    landlocked: true,
+    borders: ["AUT", "CHE"],
+    timezones: [{ id: "Europe/Vaduz", primary: true }],
   },
   {
     name: "Lithuania",
@@ -2206,15 +3693,26 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "Lietuva",
+    aliases: [],
     languages: ["Lithuanian"],
     flag: "🇱🇹",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "370",
-    phoneMask: "###-###-###",
+    phoneMask: "###-##-###",
+    capitalCoordinates: { lat: 54.6872, lng: 25.2797 },
+    centroid: { lat: 55.17, lng: 23.88 },
+    bounds: { south: 53.9, west: 20.93, north: 56.45, east: 26.84 },
+    landlocked: false,
+    borders: ["BLR", "LVA", "POL", "RUS"],
+    timezones: [{ id: "Europe/Vilnius", primary: true }],
   },
   {
     name: "Luxembourg",
@@ -2227,15 +3725,26 @@ export const countries = [
     subregion: "Western Europe",
     continent: "Europe",
     nativeName: "Lëtzebuerg",
+    aliases: [],
     languages: ["French", "German", "Luxembourgish"],
     flag: "🇱🇺",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "352",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 49.6116, lng: 6.1319 },
+    centroid: { lat: 49.82, lng: 6.13 },
+    bounds: { south: 49.45, west: 5.73, north: 50.18, east: 6.53 },
+    landlocked: true,
+    borders: ["BEL", "DEU", "FRA"],
+    timezones: [{ id: "Europe/Luxembourg", primary: true }],
   },
   {
     name: "Madagascar",
@@ -2248,15 +3757,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Madagasikara",
+    aliases: ["Malagasy Republic"],
     languages: ["Malagasy", "French"],
     flag: "🇲🇬",
-    currency: {
-      code: "MGA",
-      name: "Malagasy ariary",
-      symbol: "Ar",
-    },
+    currencies: [
+      {
+        code: "MGA",
+        name: "Malagasy ariary",
+        symbol: "Ar",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "261",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-##-###-##",
+    capitalCoordinates: { lat: -18.8792, lng: 47.5079 },
+    centroid: { lat: -18.77, lng: 46.87 },
+    bounds: { south: -25.61, west: 43.22, north: -11.95, east: 50.48 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Indian/Antananarivo", primary: true }],
   },
   {
     name: "Malawi",
@@ -2269,15 +3789,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Malawi",
+    aliases: ["Nyasaland"],
     languages: ["English", "Chewa"],
     flag: "🇲🇼",
-    currency: {
-      code: "MWK",
-      name: "Malawian kwacha",
-      symbol: "MK",
-    },
+    currencies: [
+      {
+        code: "MWK",
+        name: "Malawian kwacha",
+        symbol: "MK",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "265",
-    phoneMask: "#-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: -13.9626, lng: 33.7741 },
+    centroid: { lat: -13.25, lng: 34.3 },
+    bounds: { south: -17.13, west: 32.67, north: -9.37, east: 35.92 },
+    landlocked: true,
+    borders: ["MOZ", "TZA", "ZMB"],
+    timezones: [{ id: "Africa/Blantyre", primary: true }],
   },
   {
     name: "Malaysia",
@@ -2290,15 +3821,29 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "Malaysia",
+    aliases: ["Malaya"],
     languages: ["Malay"],
     flag: "🇲🇾",
-    currency: {
-      code: "MYR",
-      name: "Malaysian ringgit",
-      symbol: "RM",
-    },
+    currencies: [
+      {
+        code: "MYR",
+        name: "Malaysian ringgit",
+        symbol: "RM",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "60",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 3.139, lng: 101.6869 },
+    centroid: { lat: 4.21, lng: 101.98 },
+    bounds: { south: 0.85, west: 99.64, north: 7.36, east: 119.27 },
+    landlocked: false,
+    borders: ["BRN", "IDN", "THA"],
+    timezones: [
+      { id: "Asia/Kuala_Lumpur", primary: true },
+      { id: "Asia/Kuching", primary: false },
+    ],
   },
   {
     name: "Maldives",
@@ -2311,15 +3856,26 @@ export const countries = [
     subregion: "Southern Asia",
     continent: "Asia",
     nativeName: "ދިވެހިރާއްޖެ",
+    aliases: [],
     languages: ["Dhivehi"],
     flag: "🇲🇻",
-    currency: {
-      code: "MVR",
-      name: "Maldivian rufiyaa",
-      symbol: "Rf",
-    },
+    currencies: [
+      {
+        code: "MVR",
+        name: "Maldivian rufiyaa",
+        symbol: "Rf",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "960",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 4.1755, lng: 73.5093 },
+    centroid: { lat: 3.2, lng: 73.22 },
+    bounds: { south: -0.69, west: 72.64, north: 7.11, east: 73.76 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Indian/Maldives", primary: true }],
   },
   {
     name: "Mali",
@@ -2332,15 +3888,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Mali",
+    aliases: ["French Sudan"],
     languages: ["French"],
     flag: "🇲🇱",
-    currency: {
-      code: "XOF",
-      name: "West African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XOF",
+        name: "West African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "223",
-    phoneMask: "####-#####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 12.6392, lng: -8.0029 },
+    centroid: { lat: 17.57, lng: -4 },
+    bounds: { south: 10.16, west: -12.24, north: 25, east: 4.27 },
+    landlocked: true,
+    borders: ["BFA", "CIV", "DZA", "GIN", "MRT", "NER", "SEN"],
+    timezones: [{ id: "Africa/Bamako", primary: true }],
   },
   {
     name: "Malta",
@@ -2353,15 +3920,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Malta",
+    aliases: [],
     languages: ["Maltese", "English"],
     flag: "🇲🇹",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "356",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 35.8989, lng: 14.5146 },
+    centroid: { lat: 35.94, lng: 14.38 },
+    bounds: { south: 35.79, west: 14.18, north: 36.08, east: 14.58 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Europe/Malta", primary: true }],
   },
   {
     name: "Marshall Islands",
@@ -2374,15 +3952,29 @@ export const countries = [
     subregion: "Micronesia",
     continent: "Oceania",
     nativeName: "M̧ajeļ",
+    aliases: [],
     languages: ["English", "Marshallese"],
     flag: "🇲🇭",
-    currency: {
-      code: "USD",
-      name: "United States dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "692",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 7.0897, lng: 171.3803 },
+    centroid: { lat: 7.13, lng: 171.18 },
+    bounds: { south: 4.57, west: 160.8, north: 14.62, east: 172.17 },
+    landlocked: false,
+    borders: [],
+    timezones: [
+      { id: "Pacific/Majuro", primary: true },
+      { id: "Pacific/Kwajalein", primary: false },
+    ],
   },
   {
     name: "Mauritania",
@@ -2395,15 +3987,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "موريتانيا",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇲🇷",
-    currency: {
-      code: "MRU",
-      name: "Mauritanian ouguiya",
-      symbol: "UM",
-    },
+    currencies: [
+      {
+        code: "MRU",
+        name: "Mauritanian ouguiya",
+        symbol: "UM",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "222",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 18.0735, lng: -15.9582 },
+    centroid: { lat: 21.01, lng: -10.94 },
+    bounds: { south: 14.72, west: -17.07, north: 27.3, east: -4.83 },
+    landlocked: false,
+    borders: ["DZA", "MLI", "SEN"],
+    timezones: [{ id: "Africa/Nouakchott", primary: true }],
   },
   {
     name: "Mauritius",
@@ -2416,15 +4019,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Maurice",
+    aliases: [],
     languages: ["English", "French"],
     flag: "🇲🇺",
-    currency: {
-      code: "MUR",
-      name: "Mauritian rupee",
-      symbol: "₨",
-    },
+    currencies: [
+      {
+        code: "MUR",
+        name: "Mauritian rupee",
+        symbol: "₨",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "230",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: -20.1609, lng: 57.5012 },
+    centroid: { lat: -20.35, lng: 57.55 },
+    bounds: { south: -20.53, west: 57.3, north: -19.97, east: 57.81 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Indian/Mauritius", primary: true }],
   },
   {
     name: "Micronesia",
@@ -2437,15 +4051,30 @@ export const countries = [
     subregion: "Micronesia",
     continent: "Oceania",
     nativeName: "Micronesia",
+    aliases: ["FSM"],
     languages: ["English"],
     flag: "🇫🇲",
-    currency: {
-      code: "USD",
-      name: "United States dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "691",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 6.9248, lng: 158.161 },
+    centroid: { lat: 7.43, lng: 150.55 },
+    bounds: { south: 1.03, west: 137.33, north: 10.09, east: 163.04 },
+    landlocked: false,
+    borders: [],
+    timezones: [
+      { id: "Pacific/Pohnpei", primary: true },
+      { id: "Pacific/Chuuk", primary: false },
+      { id: "Pacific/Kosrae", primary: false },
+    ],
   },
   {
     name: "Moldova",
@@ -2458,15 +4087,26 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "Moldova",
+    aliases: ["Moldavia"],
     languages: ["Romanian"],
     flag: "🇲🇩",
-    currency: {
-      code: "MDL",
-      name: "Moldovan leu",
-      symbol: "L",
-    },
+    currencies: [
+      {
+        code: "MDL",
+        name: "Moldovan leu",
+        symbol: "L",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "373",
-    phoneMask: "####-#####",
+    phoneMask: "###-##-###",
+    capitalCoordinates: { lat: 47.0105, lng: 28.8638 },
+    centroid: { lat: 47.41, lng: 28.37 },
+    bounds: { south: 45.47, west: 26.62, north: 48.49, east: 30.13 },
+    landlocked: true,
+    borders: ["ROU", "UKR"],
+    timezones: [{ id: "Europe/Chisinau", primary: true }],
   },
   {
     name: "Monaco",
@@ -2479,15 +4119,26 @@ export const countries = [
     subregion: "Western Europe",
     continent: "Europe",
     nativeName: "Monaco",
+    aliases: [],
     languages: ["French"],
     flag: "🇲🇨",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "377",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 43.7384, lng: 7.4246 },
+    centroid: { lat: 43.74, lng: 7.42 },
+    bounds: { south: 43.72, west: 7.41, north: 43.75, east: 7.44 },
+    landlocked: false,
+    borders: ["FRA"],
+    timezones: [{ id: "Europe/Monaco", primary: true }],
   },
   {
     name: "Mongolia",
@@ -2500,15 +4151,29 @@ export const countries = [
     subregion: "Eastern Asia",
     continent: "Asia",
     nativeName: "Монгол Улс",
+    aliases: ["Outer Mongolia"],
     languages: ["Mongolian"],
     flag: "🇲🇳",
-    currency: {
-      code: "MNT",
-      name: "Mongolian tögrög",
-      symbol: "₮",
-    },
+    currencies: [
+      {
+        code: "MNT",
+        name: "Mongolian tögrög",
+        symbol: "₮",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "976",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-####",
+    capitalCoordinates: { lat: 47.8864, lng: 106.9057 },
+    centroid: { lat: 46.86, lng: 103.85 },
+    bounds: { south: 41.58, west: 87.75, north: 52.15, east: 119.93 },
+    landlocked: true,
+    borders: ["CHN", "RUS"],
+    timezones: [
+      { id: "Asia/Ulaanbaatar", primary: true },
+      { id: "Asia/Hovd", primary: false },
+    ],
   },
   {
     name: "Montenegro",
@@ -2521,15 +4186,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Crna Gora",
+    aliases: [],
     languages: ["Montenegrin"],
     flag: "🇲🇪",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "382",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 42.4304, lng: 19.2594 },
+    centroid: { lat: 42.71, lng: 19.37 },
+    bounds: { south: 41.85, west: 18.43, north: 43.56, east: 20.36 },
+    landlocked: false,
+    borders: ["ALB", "BIH", "HRV", "SRB"],
+    timezones: [{ id: "Europe/Podgorica", primary: true }],
   },
   {
     name: "Morocco",
@@ -2542,15 +4218,26 @@ export const countries = [
     subregion: "Northern Africa",
     continent: "Africa",
     nativeName: "المغرب",
+    aliases: [],
     languages: ["Arabic", "Berber"],
     flag: "🇲🇦",
-    currency: {
-      code: "MAD",
-      name: "Moroccan dirham",
-      symbol: "د.م.",
-    },
+    currencies: [
+      {
+        code: "MAD",
+        name: "Moroccan dirham",
+        symbol: "د.م.",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "212",
-    phoneMask: "##-###-#####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 34.0209, lng: -6.8416 },
+    centroid: { lat: 31.79, lng: -7.09 },
+    bounds: { south: 27.66, west: -13.17, north: 35.92, east: -0.99 },
+    landlocked: false,
+    borders: ["DZA", "ESP"],
+    timezones: [{ id: "Africa/Casablanca", primary: true }],
   },
   {
     name: "Mozambique",
@@ -2563,15 +4250,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Moçambique",
+    aliases: [],
     languages: ["Portuguese"],
     flag: "🇲🇿",
-    currency: {
-      code: "MZN",
-      name: "Mozambican metical",
-      symbol: "MT",
-    },
+    currencies: [
+      {
+        code: "MZN",
+        name: "Mozambican metical",
+        symbol: "MT",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "258",
     phoneMask: "##-###-####",
+    capitalCoordinates: { lat: -25.9692, lng: 32.5732 },
+    centroid: { lat: -18.67, lng: 35.53 },
+    bounds: { south: -26.87, west: 30.22, north: -10.47, east: 40.84 },
+    landlocked: false,
+    borders: ["MWI", "SWZ", "TZA", "ZAF", "ZMB", "ZWE"],
+    timezones: [{ id: "Africa/Maputo", primary: true }],
   },
   {
     name: "Myanmar",
@@ -2584,15 +4282,26 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "မြန်မာ",
+    aliases: ["Burma"],
     languages: ["Burmese"],
     flag: "🇲🇲",
-    currency: {
-      code: "MMK",
-      name: "Myanmar kyat",
-      symbol: "K",
-    },
+    currencies: [
+      {
+        code: "MMK",
+        name: "Myanmar kyat",
+        symbol: "K",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "95",
-    phoneMask: "##-###-#####",
+    phoneMask: "#-####-####",
+    capitalCoordinates: { lat: 19.7633, lng: 96.0785 },
+    centroid: { lat: 21.91, lng: 95.96 },
+    bounds: { south: 9.78, west: 92.17, north: 28.55, east: 101.17 },
+    landlocked: false,
+    borders: ["BGD", "CHN", "IND", "LAO", "THA"],
+    timezones: [{ id: "Asia/Yangon", primary: true }],
   },
   {
     name: "Namibia",
@@ -2605,15 +4314,33 @@ export const countries = [
     subregion: "Southern Africa",
     continent: "Africa",
     nativeName: "Namibia",
+    aliases: ["South West Africa"],
     languages: ["English"],
     flag: "🇳🇦",
-    currency: {
-      code: "NAD",
-      name: "Namibian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "NAD",
+        name: "Namibian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "ZAR",
+        name: "South African rand",
+        symbol: "R",
+        primary: false,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "264",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: -22.5609, lng: 17.0658 },
+    centroid: { lat: -22.96, lng: 18.49 },
+    bounds: { south: -28.97, west: 11.72, north: -16.96, east: 25.26 },
+    landlocked: false,
+    borders: ["AGO", "BWA", "ZAF", "ZMB"],
+    timezones: [{ id: "Africa/Windhoek", primary: true }],
   },
   {
     name: "Nauru",
@@ -2626,15 +4353,26 @@ export const countries = [
     subregion: "Micronesia",
     continent: "Oceania",
     nativeName: "Nauru",
+    aliases: [],
     languages: ["English", "Nauruan"],
     flag: "🇳🇷",
-    currency: {
-      code: "AUD",
-      name: "Australian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "AUD",
+        name: "Australian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "674",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: -0.5477, lng: 166.9209 },
+    centroid: { lat: -0.52, lng: 166.93 },
+    bounds: { south: -0.55, west: 166.91, north: -0.5, east: 166.96 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Pacific/Nauru", primary: true }],
   },
   {
     name: "Nepal",
@@ -2647,15 +4385,33 @@ export const countries = [
     subregion: "Southern Asia",
     continent: "Asia",
     nativeName: "नेपाल",
+    aliases: [],
     languages: ["Nepali"],
     flag: "🇳🇵",
-    currency: {
-      code: "NPR",
-      name: "Nepalese rupee",
-      symbol: "₨",
-    },
+    currencies: [
+      {
+        code: "NPR",
+        name: "Nepalese rupee",
+        symbol: "₨",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "INR",
+        name: "Indian rupee",
+        symbol: "₹",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "977",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-####-####",
+    capitalCoordinates: { lat: 27.7172, lng: 85.324 },
+    centroid: { lat: 28.39, lng: 84.12 },
+    bounds: { south: 26.35, west: 80.06, north: 30.45, east: 88.2 },
+    landlocked: true,
+    borders: ["CHN", "IND"],
+    timezones: [{ id: "Asia/Kathmandu", primary: true }],
   },
   {
     name: "Netherlands",
@@ -2668,15 +4424,26 @@ export const countries = [
     subregion: "Western Europe",
     continent: "Europe",
     nativeName: "Nederland",
+    aliases: ["Holland", "The Netherlands"],
     languages: ["Dutch"],
     flag: "🇳🇱",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "31",
-    phoneMask: "##-###-#####",
+    phoneMask: "#-##-##-##-##",
+    capitalCoordinates: { lat: 52.3676, lng: 4.9041 },
+    centroid: { lat: 52.13, lng: 5.29 },
+    bounds: { south: 50.75, west: 3.36, north: 53.56, east: 7.23 },
+    landlocked: false,
+    borders: ["BEL", "DEU"],
+    timezones: [{ id: "Europe/Amsterdam", primary: true }],
   },
   {
     name: "New Zealand",
@@ -2689,15 +4456,29 @@ export const countries = [
     subregion: "Australia and New Zealand",
     continent: "Oceania",
     nativeName: "Aotearoa",
+    aliases: [],
     languages: ["English", "Māori"],
     flag: "🇳🇿",
-    currency: {
-      code: "NZD",
-      name: "New Zealand dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "NZD",
+        name: "New Zealand dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "64",
-    phoneMask: "###-###-####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: -41.2865, lng: 174.7762 },
+    centroid: { lat: -41.5, lng: 172.83 },
+    bounds: { south: -47.29, west: 166.43, north: -34.39, east: 178.57 },
+    landlocked: false,
+    borders: [],
+    timezones: [
+      { id: "Pacific/Auckland", primary: true },
+      { id: "Pacific/Chatham", primary: false },
+    ],
   },
   {
     name: "Nicaragua",
@@ -2710,15 +4491,26 @@ export const countries = [
     subregion: "Central America",
     continent: "North America",
     nativeName: "Nicaragua",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇳🇮",
-    currency: {
-      code: "NIO",
-      name: "Nicaraguan córdoba",
-      symbol: "C$",
-    },
+    currencies: [
+      {
+        code: "NIO",
+        name: "Nicaraguan córdoba",
+        symbol: "C$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "505",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 12.115, lng: -86.2362 },
+    centroid: { lat: 12.87, lng: -85.21 },
+    bounds: { south: 10.71, west: -87.69, north: 15.03, east: -82.57 },
+    landlocked: false,
+    borders: ["CRI", "HND"],
+    timezones: [{ id: "America/Managua", primary: true }],
   },
   {
     name: "Niger",
@@ -2731,15 +4523,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Niger",
+    aliases: [],
     languages: ["French"],
     flag: "🇳🇪",
-    currency: {
-      code: "XOF",
-      name: "West African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XOF",
+        name: "West African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "227",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 13.5116, lng: 2.1254 },
+    centroid: { lat: 17.61, lng: 8.08 },
+    bounds: { south: 11.7, west: 0.17, north: 23.53, east: 16 },
+    landlocked: true,
+    borders: ["BEN", "BFA", "DZA", "LBY", "MLI", "NGA", "TCD"],
+    timezones: [{ id: "Africa/Niamey", primary: true }],
   },
   {
     name: "North Korea",
@@ -2752,15 +4555,26 @@ export const countries = [
     subregion: "Eastern Asia",
     continent: "Asia",
     nativeName: "조선",
+    aliases: ["DPRK"],
     languages: ["Korean"],
     flag: "🇰🇵",
-    currency: {
-      code: "KPW",
-      name: "North Korean won",
-      symbol: "₩",
-    },
+    currencies: [
+      {
+        code: "KPW",
+        name: "North Korean won",
+        symbol: "₩",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "850",
     phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 39.0392, lng: 125.7625 },
+    centroid: { lat: 40.34, lng: 127.51 },
+    bounds: { south: 37.67, west: 124.18, north: 43.01, east: 130.68 },
+    landlocked: false,
+    borders: ["CHN", "KOR", "RUS"],
+    timezones: [{ id: "Asia/Pyongyang", primary: true }],
   },
   {
     name: "North Macedonia",
@@ -2773,15 +4587,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Северна Македонија",
+    aliases: ["Macedonia", "FYROM"],
     languages: ["Macedonian"],
     flag: "🇲🇰",
-    currency: {
-      code: "MKD",
-      name: "Macedonian denar",
-      symbol: "ден",
-    },
+    currencies: [
+      {
+        code: "MKD",
+        name: "Macedonian denar",
+        symbol: "ден",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "389",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 41.9981, lng: 21.4254 },
+    centroid: { lat: 41.61, lng: 21.75 },
+    bounds: { south: 40.86, west: 20.45, north: 42.37, east: 23.03 },
+    landlocked: true,
+    borders: ["ALB", "BGR", "GRC", "SRB"],
+    timezones: [{ id: "Europe/Skopje", primary: true }],
   },
   {
     name: "Norway",
@@ -2794,15 +4619,26 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "Norge",
+    aliases: ["Noreg"],
     languages: ["Norwegian"],
     flag: "🇳🇴",
-    currency: {
-      code: "NOK",
-      name: "Norwegian krone",
-      symbol: "kr",
-    },
+    currencies: [
+      {
+        code: "NOK",
+        name: "Norwegian krone",
+        symbol: "kr",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "47",
-    phoneMask: "###-##-####",
+    phoneMask: "###-##-###",
+    capitalCoordinates: { lat: 59.9139, lng: 10.7522 },
+    centroid: { lat: 64.57, lng: 17.89 },
+    bounds: { south: 57.96, west: 4.5, north: 71.19, east: 31.17 },
+    landlocked: false,
+    borders: ["FIN", "RUS", "SWE"],
+    timezones: [{ id: "Europe/Oslo", primary: true }],
   },
   {
     name: "Oman",
@@ -2815,15 +4651,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "عمان",
+    aliases: ["Muscat and Oman"],
     languages: ["Arabic"],
     flag: "🇴🇲",
-    currency: {
-      code: "OMR",
-      name: "Omani rial",
-      symbol: "ر.ع.",
-    },
+    currencies: [
+      {
+        code: "OMR",
+        name: "Omani rial",
+        symbol: "ر.ع.",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "968",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 23.588, lng: 58.3829 },
+    centroid: { lat: 21.47, lng: 55.98 },
+    bounds: { south: 16.65, west: 51.88, north: 26.4, east: 59.84 },
+    landlocked: false,
+    borders: ["ARE", "SAU", "YEM"],
+    timezones: [{ id: "Asia/Muscat", primary: true }],
   },
   {
     name: "Pakistan",
@@ -2836,15 +4683,26 @@ export const countries = [
     subregion: "Southern Asia",
     continent: "Asia",
     nativeName: "پاکستان",
+    aliases: [],
     languages: ["Urdu", "English"],
     flag: "🇵🇰",
-    currency: {
-      code: "PKR",
-      name: "Pakistani rupee",
-      symbol: "₨",
-    },
+    currencies: [
+      {
+        code: "PKR",
+        name: "Pakistani rupee",
+        symbol: "₨",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "92",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-#######",
+    capitalCoordinates: { lat: 33.6844, lng: 73.0479 },
+    centroid: { lat: 30.38, lng: 69.35 },
+    bounds: { south: 23.69, west: 60.87, north: 37.08, east: 77.84 },
+    landlocked: false,
+    borders: ["AFG", "CHN", "IND", "IRN"],
+    timezones: [{ id: "Asia/Karachi", primary: true }],
   },
   {
     name: "Palau",
@@ -2857,15 +4715,26 @@ export const countries = [
     subregion: "Micronesia",
     continent: "Oceania",
     nativeName: "Belau",
+    aliases: [],
     languages: ["English", "Palauan"],
     flag: "🇵🇼",
-    currency: {
-      code: "USD",
-      name: "United States dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "680",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 7.5004, lng: 134.6243 },
+    centroid: { lat: 7.51, lng: 134.58 },
+    bounds: { south: 2.75, west: 131.12, north: 8.1, east: 134.73 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Pacific/Palau", primary: true }],
   },
   {
     name: "Panama",
@@ -2878,15 +4747,33 @@ export const countries = [
     subregion: "Central America",
     continent: "North America",
     nativeName: "Panamá",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇵🇦",
-    currency: {
-      code: "PAB",
-      name: "Panamanian balboa",
-      symbol: "B/.",
-    },
+    currencies: [
+      {
+        code: "PAB",
+        name: "Panamanian balboa",
+        symbol: "B/.",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "507",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 8.9824, lng: -79.5199 },
+    centroid: { lat: 8.54, lng: -80.78 },
+    bounds: { south: 7.2, west: -83.05, north: 9.65, east: -77.16 },
+    landlocked: false,
+    borders: ["COL", "CRI"],
+    timezones: [{ id: "America/Panama", primary: true }],
   },
   {
     name: "Papua New Guinea",
@@ -2899,15 +4786,29 @@ export const countries = [
     subregion: "Melanesia",
     continent: "Oceania",
     nativeName: "Papua Niugini",
+    aliases: ["PNG"],
     languages: ["English", "Tok Pisin", "Hiri Motu"],
     flag: "🇵🇬",
-    currency: {
-      code: "PGK",
-      name: "Papua New Guinean kina",
-      symbol: "K",
-    },
+    currencies: [
+      {
+        code: "PGK",
+        name: "Papua New Guinean kina",
+        symbol: "K",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "675",
-    phoneMask: "###-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: -9.4438, lng: 147.1803 },
+    centroid: { lat: -6.31, lng: 143.96 },
+    bounds: { south: -11.66, west: 140.84, north: -0.87, east: 159.49 },
+    landlocked: false,
+    borders: ["IDN"],
+    timezones: [
+      { id: "Pacific/Port_Moresby", primary: true },
+      { id: "Pacific/Bougainville", primary: false },
+    ],
   },
   {
     name: "Paraguay",
@@ -2920,15 +4821,26 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Paraguay",
+    aliases: [],
     languages: ["Spanish", "Guarani"],
     flag: "🇵🇾",
-    currency: {
-      code: "PYG",
-      name: "Paraguayan guaraní",
-      symbol: "₲",
-    },
+    currencies: [
+      {
+        code: "PYG",
+        name: "Paraguayan guaraní",
+        symbol: "₲",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "595",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: -25.2637, lng: -57.5759 },
+    centroid: { lat: -23.44, lng: -58.44 },
+    bounds: { south: -27.61, west: -62.65, north: -19.29, east: -54.26 },
+    landlocked: true,
+    borders: ["ARG", "BOL", "BRA"],
+    timezones: [{ id: "America/Asuncion", primary: true }],
   },
   {
     name: "Peru",
@@ -2941,15 +4853,26 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Perú",
+    aliases: [],
     languages: ["Spanish", "Quechua", "Aymara"],
     flag: "🇵🇪",
-    currency: {
-      code: "PEN",
-      name: "Peruvian sol",
-      symbol: "S/.",
-    },
+    currencies: [
+      {
+        code: "PEN",
+        name: "Peruvian sol",
+        symbol: "S/.",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "51",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: -12.0464, lng: -77.0428 },
+    centroid: { lat: -9.19, lng: -75.02 },
+    bounds: { south: -18.35, west: -81.33, north: -0.04, east: -68.65 },
+    landlocked: false,
+    borders: ["BOL", "BRA", "CHL", "COL", "ECU"],
+    timezones: [{ id: "America/Lima", primary: true }],
   },
   {
     name: "Philippines",
@@ -2962,15 +4885,26 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "Pilipinas",
+    aliases: [],
     languages: ["Filipino", "English"],
     flag: "🇵🇭",
-    currency: {
-      code: "PHP",
-      name: "Philippine peso",
-      symbol: "₱",
-    },
+    currencies: [
+      {
+        code: "PHP",
+        name: "Philippine peso",
+        symbol: "₱",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "63",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 14.5995, lng: 120.9842 },
+    centroid: { lat: 12.88, lng: 121.77 },
+    bounds: { south: 4.59, west: 116.93, north: 21.12, east: 126.6 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Asia/Manila", primary: true }],
   },
   {
     name: "Poland",
@@ -2983,15 +4917,26 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "Polska",
+    aliases: [],
     languages: ["Polish"],
     flag: "🇵🇱",
-    currency: {
-      code: "PLN",
-      name: "Polish złoty",
-      symbol: "zł",
-    },
+    currencies: [
+      {
+        code: "PLN",
+        name: "Polish złoty",
+        symbol: "zł",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "48",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 52.2297, lng: 21.0122 },
+    centroid: { lat: 51.92, lng: 19.15 },
+    bounds: { south: 49, west: 14.12, north: 54.84, east: 24.15 },
+    landlocked: false,
+    borders: ["BLR", "CZE", "DEU", "LTU", "RUS", "SVK", "UKR"],
+    timezones: [{ id: "Europe/Warsaw", primary: true }],
   },
   {
     name: "Portugal",
@@ -3004,15 +4949,30 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Portugal",
+    aliases: [],
     languages: ["Portuguese"],
     flag: "🇵🇹",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "351",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 38.7223, lng: -9.1393 },
+    centroid: { lat: 39.56, lng: -8 },
+    bounds: { south: 36.96, west: -9.5, north: 42.15, east: -6.19 },
+    landlocked: false,
+    borders: ["ESP"],
+    timezones: [
+      { id: "Europe/Lisbon", primary: true },
+      { id: "Atlantic/Madeira", primary: false },
+      { id: "Atlantic/Azores", primary: false },
+    ],
   },
   {
     name: "Qatar",
@@ -3025,15 +4985,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "قطر",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇶🇦",
-    currency: {
-      code: "QAR",
-      name: "Qatari riyal",
-      symbol: "ر.ق",
-    },
+    currencies: [
+      {
+        code: "QAR",
+        name: "Qatari riyal",
+        symbol: "ر.ق",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "974",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 25.2854, lng: 51.531 },
+    centroid: { lat: 25.35, lng: 51.18 },
+    bounds: { south: 24.47, west: 50.75, north: 26.18, east: 51.64 },
+    landlocked: false,
+    borders: ["SAU"],
+    timezones: [{ id: "Asia/Qatar", primary: true }],
   },
   {
     name: "Romania",
@@ -3046,15 +5017,26 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "România",
+    aliases: ["Rumania", "Roumania"],
     languages: ["Romanian"],
     flag: "🇷🇴",
-    currency: {
-      code: "RON",
-      name: "Romanian leu",
-      symbol: "lei",
-    },
+    currencies: [
+      {
+        code: "RON",
+        name: "Romanian leu",
+        symbol: "lei",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "40",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 44.4268, lng: 26.1025 },
+    centroid: { lat: 45.94, lng: 24.97 },
+    bounds: { south: 43.62, west: 20.26, north: 48.27, east: 29.69 },
+    landlocked: false,
+    borders: ["BGR", "HUN", "MDA", "SRB", "UKR"],
+    timezones: [{ id: "Europe/Bucharest", primary: true }],
   },
   {
     name: "Rwanda",
@@ -3067,15 +5049,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Rwanda",
+    aliases: [],
     languages: ["Kinyarwanda", "English", "French"],
     flag: "🇷🇼",
-    currency: {
-      code: "RWF",
-      name: "Rwandan franc",
-      symbol: "FRw",
-    },
+    currencies: [
+      {
+        code: "RWF",
+        name: "Rwandan franc",
+        symbol: "FRw",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "250",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: -1.9441, lng: 30.0619 },
+    centroid: { lat: -1.94, lng: 29.87 },
+    bounds: { south: -2.84, west: 28.86, north: -1.05, east: 30.9 },
+    landlocked: true,
+    borders: ["BDI", "COD", "TZA", "UGA"],
+    timezones: [{ id: "Africa/Kigali", primary: true }],
   },
   {
     name: "Saint Kitts and Nevis",
@@ -3088,15 +5081,33 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Saint Kitts and Nevis",
+    aliases: ["Saint Christopher and Nevis", "St Kitts"],
     languages: ["English"],
     flag: "🇰🇳",
-    currency: {
-      code: "XCD",
-      name: "East Caribbean dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "XCD",
+        name: "East Caribbean dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "1-869",
-    phoneMask: "+1-869-###-#####",
+    phoneMask: "869-###-####",
+    capitalCoordinates: { lat: 17.3026, lng: -62.7177 },
+    centroid: { lat: 17.26, lng: -62.7 },
+    bounds: { south: 17.09, west: -62.86, north: 17.42, east: -62.54 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/St_Kitts", primary: true }],
   },
   {
     name: "Saint Lucia",
@@ -3109,15 +5120,33 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Saint Lucia",
+    aliases: [],
     languages: ["English"],
     flag: "🇱🇨",
-    currency: {
-      code: "XCD",
-      name: "East Caribbean dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "XCD",
+        name: "East Caribbean dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "1-758",
-    phoneMask: "+1-758-###-#####",
+    phoneMask: "758-###-####",
+    capitalCoordinates: { lat: 14.0101, lng: -60.9875 },
+    centroid: { lat: 13.91, lng: -60.98 },
+    bounds: { south: 13.71, west: -61.08, north: 14.11, east: -60.87 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/St_Lucia", primary: true }],
   },
   {
     name: "Saint Vincent and the Grenadines",
@@ -3130,15 +5159,33 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Saint Vincent and the Grenadines",
+    aliases: ["Saint Vincent"],
     languages: ["English"],
     flag: "🇻🇨",
-    currency: {
-      code: "XCD",
-      name: "East Caribbean dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "XCD",
+        name: "East Caribbean dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "1-784",
-    phoneMask: "+1-784-###-#####",
+    phoneMask: "784-###-####",
+    capitalCoordinates: { lat: 13.16, lng: -61.2248 },
+    centroid: { lat: 13.25, lng: -61.2 },
+    bounds: { south: 12.58, west: -61.46, north: 13.38, east: -61.11 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/St_Vincent", primary: true }],
   },
   {
     name: "Samoa",
@@ -3151,15 +5198,26 @@ export const countries = [
     subregion: "Polynesia",
     continent: "Oceania",
     nativeName: "Sāmoa",
+    aliases: ["Western Samoa"],
     languages: ["Samoan", "English"],
     flag: "🇼🇸",
-    currency: {
-      code: "WST",
-      name: "Samoan tālā",
-      symbol: "T",
-    },
+    currencies: [
+      {
+        code: "WST",
+        name: "Samoan tālā",
+        symbol: "T",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "685",
-    phoneMask: "######",
+    phoneMask: "##-#####",
+    capitalCoordinates: { lat: -13.8506, lng: -171.7513 },
+    centroid: { lat: -13.76, lng: -172.1 },
+    bounds: { south: -14.08, west: -172.8, north: -13.43, east: -171.4 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Pacific/Apia", primary: true }],
   },
   {
     name: "San Marino",
@@ -3172,15 +5230,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "San Marino",
+    aliases: [],
     languages: ["Italian"],
     flag: "🇸🇲",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "378",
-    phoneMask: "####-#######",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 43.9424, lng: 12.4578 },
+    centroid: { lat: 43.94, lng: 12.46 },
+    bounds: { south: 43.89, west: 12.4, north: 43.99, east: 12.52 },
+    landlocked: true,
+    borders: ["ITA"],
+    timezones: [{ id: "Europe/San_Marino", primary: true }],
   },
   {
     name: "Sao Tome and Principe",
@@ -3193,15 +5262,26 @@ export const countries = [
     subregion: "Middle Africa",
     continent: "Africa",
     nativeName: "São Tomé e Príncipe",
+    aliases: [],
     languages: ["Portuguese"],
     flag: "🇸🇹",
-    currency: {
-      code: "STN",
-      name: "São Tomé and Príncipe dobra",
-      symbol: "Db",
-    },
+    currencies: [
+      {
+        code: "STN",
+        name: "São Tomé and Príncipe dobra",
+        symbol: "Db",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "239",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 0.3302, lng: 6.7333 },
+    centroid: { lat: 0.19, lng: 6.61 },
+    bounds: { south: -0.01, west: 6.46, north: 1.7, east: 7.47 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Africa/Sao_Tome", primary: true }],
   },
   {
     name: "Senegal",
@@ -3214,15 +5294,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Sénégal",
+    aliases: [],
     languages: ["French"],
     flag: "🇸🇳",
-    currency: {
-      code: "XOF",
-      name: "West African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XOF",
+        name: "West African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "221",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-##-##",
+    capitalCoordinates: { lat: 14.7167, lng: -17.4677 },
+    centroid: { lat: 14.5, lng: -14.45 },
+    bounds: { south: 12.31, west: -17.54, north: 16.69, east: -11.35 },
+    landlocked: false,
+    borders: ["GIN", "GMB", "GNB", "MLI", "MRT"],
+    timezones: [{ id: "Africa/Dakar", primary: true }],
   },
   {
     name: "Serbia",
@@ -3235,15 +5326,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Србија",
+    aliases: [],
     languages: ["Serbian"],
     flag: "🇷🇸",
-    currency: {
-      code: "RSD",
-      name: "Serbian dinar",
-      symbol: "din.",
-    },
+    currencies: [
+      {
+        code: "RSD",
+        name: "Serbian dinar",
+        symbol: "din.",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "381",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 44.7866, lng: 20.4489 },
+    centroid: { lat: 44.02, lng: 21.01 },
+    bounds: { south: 42.23, west: 18.82, north: 46.19, east: 23.01 },
+    landlocked: true,
+    borders: ["BGR", "BIH", "HRV", "HUN", "MKD", "MNE", "ROU"],
+    timezones: [{ id: "Europe/Belgrade", primary: true }],
   },
   {
     name: "Seychelles",
@@ -3256,15 +5358,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Sesel",
+    aliases: [],
     languages: ["English", "French", "Seychellois Creole"],
     flag: "🇸🇨",
-    currency: {
-      code: "SCR",
-      name: "Seychellois rupee",
-      symbol: "₨",
-    },
+    currencies: [
+      {
+        code: "SCR",
+        name: "Seychellois rupee",
+        symbol: "₨",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "248",
-    phoneMask: "####-####",
+    phoneMask: "#-###-###",
+    capitalCoordinates: { lat: -4.6191, lng: 55.4513 },
+    centroid: { lat: -4.68, lng: 55.49 },
+    bounds: { south: -10.23, west: 46.2, north: -3.71, east: 56.3 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Indian/Mahe", primary: true }],
   },
   {
     name: "Sierra Leone",
@@ -3277,15 +5390,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Sierra Leone",
+    aliases: [],
     languages: ["English"],
     flag: "🇸🇱",
-    currency: {
-      code: "SLL",
-      name: "Sierra Leonean leone",
-      symbol: "Le",
-    },
+    currencies: [
+      {
+        code: "SLE",
+        name: "Sierra Leonean leone",
+        symbol: "Le",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "232",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 8.4657, lng: -13.2317 },
+    centroid: { lat: 8.46, lng: -11.78 },
+    bounds: { south: 6.93, west: -13.3, north: 10, east: -10.27 },
+    landlocked: false,
+    borders: ["GIN", "LBR"],
+    timezones: [{ id: "Africa/Freetown", primary: true }],
   },
   {
     name: "Singapore",
@@ -3298,15 +5422,26 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "Singapore",
+    aliases: [],
     languages: ["English", "Malay", "Mandarin", "Tamil"],
     flag: "🇸🇬",
-    currency: {
-      code: "SGD",
-      name: "Singapore dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "SGD",
+        name: "Singapore dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "65",
-    phoneMask: "####-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: 1.3521, lng: 103.8198 },
+    centroid: { lat: 1.35, lng: 103.82 },
+    bounds: { south: 1.16, west: 103.6, north: 1.47, east: 104.09 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Asia/Singapore", primary: true }],
   },
   {
     name: "Slovakia",
@@ -3319,15 +5454,26 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "Slovensko",
+    aliases: [],
     languages: ["Slovak"],
     flag: "🇸🇰",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "421",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 48.1486, lng: 17.1077 },
+    centroid: { lat: 48.67, lng: 19.7 },
+    bounds: { south: 47.73, west: 16.83, north: 49.61, east: 22.57 },
+    landlocked: true,
+    borders: ["AUT", "CZE", "HUN", "POL", "UKR"],
+    timezones: [{ id: "Europe/Bratislava", primary: true }],
   },
   {
     name: "Slovenia",
@@ -3340,15 +5486,26 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "Slovenija",
+    aliases: [],
     languages: ["Slovenian"],
     flag: "🇸🇮",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "386",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 46.0569, lng: 14.5058 },
+    centroid: { lat: 46.15, lng: 14.99 },
+    bounds: { south: 45.42, west: 13.38, north: 46.88, east: 16.61 },
+    landlocked: false,
+    borders: ["AUT", "HRV", "HUN", "ITA"],
+    timezones: [{ id: "Europe/Ljubljana", primary: true }],
   },
   {
     name: "Solomon Islands",
@@ -3361,15 +5518,26 @@ export const countries = [
     subregion: "Melanesia",
     continent: "Oceania",
     nativeName: "Solomon Islands",
+    aliases: ["British Solomon Islands"],
     languages: ["English"],
     flag: "🇸🇧",
-    currency: {
-      code: "SBD",
-      name: "Solomon Islands dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "SBD",
+        name: "Solomon Islands dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "677",
-    phoneMask: "######",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: -9.4456, lng: 159.9729 },
+    centroid: { lat: -9.65, lng: 160.16 },
+    bounds: { south: -12.31, west: 155.49, north: -6.59, east: 170.21 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Pacific/Guadalcanal", primary: true }],
   },
   {
     name: "Somalia",
@@ -3382,15 +5550,33 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Soomaaliya",
+    aliases: [],
     languages: ["Somali", "Arabic"],
     flag: "🇸🇴",
-    currency: {
-      code: "SOS",
-      name: "Somali shilling",
-      symbol: "Sh",
-    },
+    currencies: [
+      {
+        code: "SOS",
+        name: "Somali shilling",
+        symbol: "Sh",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "252",
     phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 2.0469, lng: 45.3182 },
+    centroid: { lat: 5.15, lng: 46.2 },
+    bounds: { south: -1.68, west: 40.99, north: 11.99, east: 51.41 },
+    landlocked: false,
+    borders: ["DJI", "ETH", "KEN"],
+    timezones: [{ id: "Africa/Mogadishu", primary: true }],
   },
   {
     name: "South Korea",
@@ -3403,15 +5589,26 @@ export const countries = [
     subregion: "Eastern Asia",
     continent: "Asia",
     nativeName: "대한민국",
+    aliases: ["ROK"],
     languages: ["Korean"],
     flag: "🇰🇷",
-    currency: {
-      code: "KRW",
-      name: "South Korean won",
-      symbol: "₩",
-    },
+    currencies: [
+      {
+        code: "KRW",
+        name: "South Korean won",
+        symbol: "₩",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "82",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-####-####",
+    capitalCoordinates: { lat: 37.5665, lng: 126.978 },
+    centroid: { lat: 35.91, lng: 127.77 },
+    bounds: { south: 33.11, west: 124.61, north: 38.61, east: 131.87 },
+    landlocked: false,
+    borders: ["PRK"],
+    timezones: [{ id: "Asia/Seoul", primary: true }],
   },
   {
     name: "South Sudan",
@@ -3424,15 +5621,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "South Sudan",
+    aliases: [],
     languages: ["English"],
     flag: "🇸🇸",
-    currency: {
-      code: "SSP",
-      name: "South Sudanese pound",
-      symbol: "£",
-    },
+    currencies: [
+      {
+        code: "SSP",
+        name: "South Sudanese pound",
+        symbol: "£",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "211",
-    phoneMask: "###-###-####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 4.8594, lng: 31.5713 },
+    centroid: { lat: 7.86, lng: 29.69 },
+    bounds: { south: 3.49, west: 24.14, north: 12.24, east: 35.95 },
+    landlocked: true,
+    borders: ["CAF", "COD", "ETH", "KEN", "SDN", "UGA"],
+    timezones: [{ id: "Africa/Juba", primary: true }],
   },
   {
     name: "Spain",
@@ -3445,15 +5653,30 @@ export const countries = [
     subregion: "Southern Europe",
     continent: "Europe",
     nativeName: "España",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇪🇸",
-    currency: {
-      code: "EUR",
-      name: "Euro",
-      symbol: "€",
-    },
+    currencies: [
+      {
+        code: "EUR",
+        name: "Euro",
+        symbol: "€",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "34",
-    phoneMask: "###-###-####",
+    phoneMask: "###-##-##-##",
+    capitalCoordinates: { lat: 40.4168, lng: -3.7038 },
+    centroid: { lat: 40.46, lng: -3.75 },
+    bounds: { south: 35.17, west: -9.3, north: 43.79, east: 4.33 },
+    landlocked: false,
+    borders: ["AND", "FRA", "MAR", "PRT"],
+    timezones: [
+      { id: "Europe/Madrid", primary: true },
+      { id: "Africa/Ceuta", primary: false },
+      { id: "Atlantic/Canary", primary: false },
+    ],
   },
   {
     name: "Sri Lanka",
@@ -3466,15 +5689,26 @@ export const countries = [
     subregion: "Southern Asia",
     continent: "Asia",
     nativeName: "ශ්‍රී ලංකා",
+    aliases: ["Ceylon"],
     languages: ["Sinhala", "Tamil"],
     flag: "🇱🇰",
-    currency: {
-      code: "LKR",
-      name: "Sri Lankan rupee",
-      symbol: "₨",
-    },
+    currencies: [
+      {
+        code: "LKR",
+        name: "Sri Lankan rupee",
+        symbol: "₨",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "94",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 6.9271, lng: 79.8612 },
+    centroid: { lat: 7.87, lng: 80.77 },
+    bounds: { south: 5.92, west: 79.52, north: 9.84, east: 81.88 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Asia/Colombo", primary: true }],
   },
   {
     name: "Sudan",
@@ -3487,15 +5721,26 @@ export const countries = [
     subregion: "Northern Africa",
     continent: "Africa",
     nativeName: "السودان",
+    aliases: [],
     languages: ["Arabic", "English"],
     flag: "🇸🇩",
-    currency: {
-      code: "SDG",
-      name: "Sudanese pound",
-      symbol: "£",
-    },
+    currencies: [
+      {
+        code: "SDG",
+        name: "Sudanese pound",
+        symbol: "£",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "249",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 15.5007, lng: 32.5599 },
+    centroid: { lat: 15.59, lng: 30.22 },
+    bounds: { south: 8.68, west: 21.81, north: 22.23, east: 38.58 },
+    landlocked: false,
+    borders: ["CAF", "EGY", "ERI", "ETH", "LBY", "SSD", "TCD"],
+    timezones: [{ id: "Africa/Khartoum", primary: true }],
   },
   {
     name: "Suriname",
@@ -3508,15 +5753,26 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Suriname",
+    aliases: ["Surinam", "Dutch Guiana"],
     languages: ["Dutch"],
     flag: "🇸🇷",
-    currency: {
-      code: "SRD",
-      name: "Surinamese dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "SRD",
+        name: "Surinamese dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "597",
-    phoneMask: "###-#####",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: 5.852, lng: -55.2038 },
+    centroid: { lat: 3.92, lng: -56.03 },
+    bounds: { south: 1.83, west: -58.07, north: 6.01, east: -53.95 },
+    landlocked: false,
+    borders: ["BRA", "GUY"],
+    timezones: [{ id: "America/Paramaribo", primary: true }],
   },
   {
     name: "Sweden",
@@ -3529,15 +5785,26 @@ export const countries = [
     subregion: "Northern Europe",
     continent: "Europe",
     nativeName: "Sverige",
+    aliases: [],
     languages: ["Swedish"],
     flag: "🇸🇪",
-    currency: {
-      code: "SEK",
-      name: "Swedish krona",
-      symbol: "kr",
-    },
+    currencies: [
+      {
+        code: "SEK",
+        name: "Swedish krona",
+        symbol: "kr",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "46",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-##-##",
+    capitalCoordinates: { lat: 59.3293, lng: 18.0686 },
+    centroid: { lat: 60.13, lng: 18.64 },
+    bounds: { south: 55.34, west: 10.96, north: 69.06, east: 24.17 },
+    landlocked: false,
+    borders: ["FIN", "NOR"],
+    timezones: [{ id: "Europe/Stockholm", primary: true }],
   },
   {
     name: "Switzerland",
@@ -3550,15 +5817,26 @@ export const countries = [
     subregion: "Western Europe",
     continent: "Europe",
     nativeName: "Schweiz",
+    aliases: ["Suisse", "Svizzera"],
     languages: ["German", "French", "Italian", "Romansh"],
     flag: "🇨🇭",
-    currency: {
-      code: "CHF",
-      name: "Swiss franc",
-      symbol: "CHF",
-    },
+    currencies: [
+      {
+        code: "CHF",
+        name: "Swiss franc",
+        symbol: "CHF",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "41",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-##-##",
+    capitalCoordinates: { lat: 46.948, lng: 7.4474 },
+    centroid: { lat: 46.82, lng: 8.23 },
+    bounds: { south: 45.82, west: 5.96, north: 47.81, east: 10.49 },
+    landlocked: true,
+    borders: ["AUT", "DEU", "FRA", "ITA", "LIE"],
+    timezones: [{ id: "Europe/Zurich", primary: true }],
   },
   {
     name: "Syria",
@@ -3571,15 +5849,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "سوريا",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇸🇾",
-    currency: {
-      code: "SYP",
-      name: "Syrian pound",
-      symbol: "£",
-    },
+    currencies: [
+      {
+        code: "SYP",
+        name: "Syrian pound",
+        symbol: "£",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "963",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 33.5138, lng: 36.2765 },
+    centroid: { lat: 34.8, lng: 38.99 },
+    bounds: { south: 32.31, west: 35.73, north: 37.32, east: 42.38 },
+    landlocked: false,
+    borders: ["IRQ", "ISR", "JOR", "LBN", "TUR"],
+    timezones: [{ id: "Asia/Damascus", primary: true }],
   },
   {
     name: "Tajikistan",
@@ -3592,15 +5881,26 @@ export const countries = [
     subregion: "Central Asia",
     continent: "Asia",
     nativeName: "Тоҷикистон",
+    aliases: [],
     languages: ["Tajik"],
     flag: "🇹🇯",
-    currency: {
-      code: "TJS",
-      name: "Tajikistani somoni",
-      symbol: "SM",
-    },
+    currencies: [
+      {
+        code: "TJS",
+        name: "Tajikistani somoni",
+        symbol: "SM",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "992",
-    phoneMask: "###-###-####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 38.5598, lng: 68.787 },
+    centroid: { lat: 38.86, lng: 71.28 },
+    bounds: { south: 36.67, west: 67.34, north: 41.04, east: 75.15 },
+    landlocked: true,
+    borders: ["AFG", "CHN", "KGZ", "UZB"],
+    timezones: [{ id: "Asia/Dushanbe", primary: true }],
   },
   {
     name: "Tanzania",
@@ -3613,15 +5913,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Tanzania",
+    aliases: ["Tanganyika"],
     languages: ["Swahili", "English"],
     flag: "🇹🇿",
-    currency: {
-      code: "TZS",
-      name: "Tanzanian shilling",
-      symbol: "TSh",
-    },
+    currencies: [
+      {
+        code: "TZS",
+        name: "Tanzanian shilling",
+        symbol: "TSh",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "255",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: -6.163, lng: 35.7516 },
+    centroid: { lat: -6.37, lng: 34.89 },
+    bounds: { south: -11.75, west: 29.33, north: -0.99, east: 40.44 },
+    landlocked: false,
+    borders: ["BDI", "COD", "KEN", "MOZ", "MWI", "RWA", "UGA", "ZMB"],
+    timezones: [{ id: "Africa/Dar_es_Salaam", primary: true }],
   },
   {
     name: "Thailand",
@@ -3634,15 +5945,26 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "ประเทศไทย",
+    aliases: ["Siam"],
     languages: ["Thai"],
     flag: "🇹🇭",
-    currency: {
-      code: "THB",
-      name: "Thai baht",
-      symbol: "฿",
-    },
+    currencies: [
+      {
+        code: "THB",
+        name: "Thai baht",
+        symbol: "฿",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "66",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 13.7563, lng: 100.5018 },
+    centroid: { lat: 15.87, lng: 100.99 },
+    bounds: { south: 5.61, west: 97.34, north: 20.46, east: 105.64 },
+    landlocked: false,
+    borders: ["KHM", "LAO", "MMR", "MYS"],
+    timezones: [{ id: "Asia/Bangkok", primary: true }],
   },
   {
     name: "Togo",
@@ -3655,15 +5977,26 @@ export const countries = [
     subregion: "Western Africa",
     continent: "Africa",
     nativeName: "Togo",
+    aliases: ["Togoland"],
     languages: ["French"],
     flag: "🇹🇬",
-    currency: {
-      code: "XOF",
-      name: "West African CFA franc",
-      symbol: "CFA",
-    },
+    currencies: [
+      {
+        code: "XOF",
+        name: "West African CFA franc",
+        symbol: "CFA",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "228",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 6.1319, lng: 1.2228 },
+    centroid: { lat: 8.62, lng: 0.82 },
+    bounds: { south: 6.1, west: -0.15, north: 11.14, east: 1.81 },
+    landlocked: false,
+    borders: ["BEN", "BFA", "GHA"],
+    timezones: [{ id: "Africa/Lome", primary: true }],
   },
   {
     name: "Tonga",
@@ -3676,15 +6009,26 @@ export const countries = [
     subregion: "Polynesia",
     continent: "Oceania",
     nativeName: "Tonga",
+    aliases: [],
     languages: ["Tongan", "English"],
     flag: "🇹🇴",
-    currency: {
-      code: "TOP",
-      name: "Tongan paʻanga",
-      symbol: "T$",
-    },
+    currencies: [
+      {
+        code: "TOP",
+        name: "Tongan paʻanga",
+        symbol: "T$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "676",
-    phoneMask: "######",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: -21.1394, lng: -175.2049 },
+    centroid: { lat: -21.18, lng: -175.2 },
+    bounds: { south: -22.35, west: -175.68, north: -15.56, east: -173.72 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Pacific/Tongatapu", primary: true }],
   },
   {
     name: "Trinidad and Tobago",
@@ -3697,15 +6041,26 @@ export const countries = [
     subregion: "Caribbean",
     continent: "North America",
     nativeName: "Trinidad and Tobago",
+    aliases: ["Trinidad"],
     languages: ["English"],
     flag: "🇹🇹",
-    currency: {
-      code: "TTD",
-      name: "Trinidad and Tobago dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "TTD",
+        name: "Trinidad and Tobago dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "1-868",
-    phoneMask: "+1-868-###-#####",
+    phoneMask: "868-###-####",
+    capitalCoordinates: { lat: 10.6596, lng: -61.5089 },
+    centroid: { lat: 10.69, lng: -61.22 },
+    bounds: { south: 10.04, west: -61.93, north: 11.36, east: -60.49 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "America/Port_of_Spain", primary: true }],
   },
   {
     name: "Tunisia",
@@ -3718,15 +6073,26 @@ export const countries = [
     subregion: "Northern Africa",
     continent: "Africa",
     nativeName: "تونس",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇹🇳",
-    currency: {
-      code: "TND",
-      name: "Tunisian dinar",
-      symbol: "د.ت",
-    },
+    currencies: [
+      {
+        code: "TND",
+        name: "Tunisian dinar",
+        symbol: "د.ت",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "216",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: 36.8065, lng: 10.1815 },
+    centroid: { lat: 33.89, lng: 9.54 },
+    bounds: { south: 30.23, west: 7.52, north: 37.35, east: 11.6 },
+    landlocked: false,
+    borders: ["DZA", "LBY"],
+    timezones: [{ id: "Africa/Tunis", primary: true }],
   },
   {
     name: "Turkey",
@@ -3739,15 +6105,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "Türkiye",
+    aliases: [],
     languages: ["Turkish"],
     flag: "🇹🇷",
-    currency: {
-      code: "TRY",
-      name: "Turkish lira",
-      symbol: "₺",
-    },
+    currencies: [
+      {
+        code: "TRY",
+        name: "Turkish lira",
+        symbol: "₺",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "90",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-##-##",
+    capitalCoordinates: { lat: 39.9334, lng: 32.8597 },
+    centroid: { lat: 38.96, lng: 35.24 },
+    bounds: { south: 35.82, west: 25.66, north: 42.11, east: 44.82 },
+    landlocked: false,
+    borders: ["ARM", "AZE", "BGR", "GEO", "GRC", "IRN", "IRQ", "SYR"],
+    timezones: [{ id: "Europe/Istanbul", primary: true }],
   },
   {
     name: "Turkmenistan",
@@ -3760,15 +6137,26 @@ export const countries = [
     subregion: "Central Asia",
     continent: "Asia",
     nativeName: "Türkmenistan",
+    aliases: [],
     languages: ["Turkmen"],
     flag: "🇹🇲",
-    currency: {
-      code: "TMT",
-      name: "Turkmenistan manat",
-      symbol: "m",
-    },
+    currencies: [
+      {
+        code: "TMT",
+        name: "Turkmenistan manat",
+        symbol: "m",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "993",
-    phoneMask: "##-###-####",
+    phoneMask: "##-##-##-##",
+    capitalCoordinates: { lat: 37.9601, lng: 58.3261 },
+    centroid: { lat: 38.97, lng: 59.56 },
+    bounds: { south: 35.13, west: 52.44, north: 42.8, east: 66.71 },
+    landlocked: true,
+    borders: ["AFG", "IRN", "KAZ", "UZB"],
+    timezones: [{ id: "Asia/Ashgabat", primary: true }],
   },
   {
     name: "Tuvalu",
@@ -3781,15 +6169,26 @@ export const countries = [
     subregion: "Polynesia",
     continent: "Oceania",
     nativeName: "Tuvalu",
+    aliases: ["Ellice Islands"],
     languages: ["English", "Tuvaluan"],
     flag: "🇹🇻",
-    currency: {
-      code: "AUD",
-      name: "Australian dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "AUD",
+        name: "Australian dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "688",
     phoneMask: "######",
+    capitalCoordinates: { lat: -8.5211, lng: 179.1983 },
+    centroid: { lat: -7.48, lng: 178.68 },
+    bounds: { south: -10.8, west: 176.06, north: -5.64, east: 179.87 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Pacific/Funafuti", primary: true }],
   },
   {
     name: "Uganda",
@@ -3802,15 +6201,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Uganda",
+    aliases: [],
     languages: ["English", "Swahili"],
     flag: "🇺🇬",
-    currency: {
-      code: "UGX",
-      name: "Ugandan shilling",
-      symbol: "USh",
-    },
+    currencies: [
+      {
+        code: "UGX",
+        name: "Ugandan shilling",
+        symbol: "USh",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "256",
-    phoneMask: "###-###-####",
+    phoneMask: "###-######",
+    capitalCoordinates: { lat: 0.3476, lng: 32.5825 },
+    centroid: { lat: 1.37, lng: 32.29 },
+    bounds: { south: -1.48, west: 29.57, north: 4.23, east: 35.04 },
+    landlocked: true,
+    borders: ["COD", "KEN", "RWA", "SSD", "TZA"],
+    timezones: [{ id: "Africa/Kampala", primary: true }],
   },
   {
     name: "Ukraine",
@@ -3823,15 +6233,29 @@ export const countries = [
     subregion: "Eastern Europe",
     continent: "Europe",
     nativeName: "Україна",
+    aliases: [],
     languages: ["Ukrainian"],
     flag: "🇺🇦",
-    currency: {
-      code: "UAH",
-      name: "Ukrainian hryvnia",
-      symbol: "₴",
-    },
+    currencies: [
+      {
+        code: "UAH",
+        name: "Ukrainian hryvnia",
+        symbol: "₴",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "380",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-##-##",
+    capitalCoordinates: { lat: 50.4501, lng: 30.5234 },
+    centroid: { lat: 48.38, lng: 31.17 },
+    bounds: { south: 44.39, west: 22.14, north: 52.38, east: 40.23 },
+    landlocked: false,
+    borders: ["BLR", "HUN", "MDA", "POL", "ROU", "RUS", "SVK"],
+    timezones: [
+      { id: "Europe/Kyiv", primary: true },
+      { id: "Europe/Simferopol", primary: false },
+    ],
   },
   {
     name: "United Arab Emirates",
@@ -3844,15 +6268,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "الإمارات العربية المتحدة",
+    aliases: ["UAE", "Emirates"],
     languages: ["Arabic"],
     flag: "🇦🇪",
-    currency: {
-      code: "AED",
-      name: "United Arab Emirates dirham",
-      symbol: "د.إ",
-    },
+    currencies: [
+      {
+        code: "AED",
+        name: "United Arab Emirates dirham",
+        symbol: "د.إ",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "971",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 24.4539, lng: 54.3773 },
+    centroid: { lat: 23.42, lng: 53.85 },
+    bounds: { south: 22.63, west: 51.58, north: 26.08, east: 56.38 },
+    landlocked: false,
+    borders: ["OMN", "SAU"],
+    timezones: [{ id: "Asia/Dubai", primary: true }],
   },
   {
     name: "Uruguay",
@@ -3865,15 +6300,26 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Uruguay",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇺🇾",
-    currency: {
-      code: "UYU",
-      name: "Uruguayan peso",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "UYU",
+        name: "Uruguayan peso",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "598",
-    phoneMask: "##-###-####",
+    phoneMask: "##-###-###",
+    capitalCoordinates: { lat: -34.9011, lng: -56.1645 },
+    centroid: { lat: -32.52, lng: -55.77 },
+    bounds: { south: -34.97, west: -58.44, north: -30.08, east: -53.07 },
+    landlocked: false,
+    borders: ["ARG", "BRA"],
+    timezones: [{ id: "America/Montevideo", primary: true }],
   },
   {
     name: "Uzbekistan",
@@ -3886,15 +6332,29 @@ export const countries = [
     subregion: "Central Asia",
     continent: "Asia",
     nativeName: "Oʻzbekiston",
+    aliases: [],
     languages: ["Uzbek"],
     flag: "🇺🇿",
-    currency: {
-      code: "UZS",
-      name: "Uzbekistani soʻm",
-      symbol: "soʻm",
-    },
+    currencies: [
+      {
+        code: "UZS",
+        name: "Uzbekistani soʻm",
+        symbol: "soʻm",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "998",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-##-##",
+    capitalCoordinates: { lat: 41.2995, lng: 69.2401 },
+    centroid: { lat: 41.38, lng: 64.59 },
+    bounds: { south: 37.18, west: 55.99, north: 45.59, east: 73.13 },
+    landlocked: true,
+    borders: ["AFG", "KAZ", "KGZ", "TJK", "TKM"],
+    timezones: [
+      { id: "Asia/Tashkent", primary: true },
+      { id: "Asia/Samarkand", primary: false },
+    ],
   },
   {
     name: "Vanuatu",
@@ -3907,15 +6367,26 @@ export const countries = [
     subregion: "Melanesia",
     continent: "Oceania",
     nativeName: "Vanuatu",
+    aliases: ["New Hebrides"],
     languages: ["Bislama", "English", "French"],
     flag: "🇻🇺",
-    currency: {
-      code: "VUV",
-      name: "Vanuatu vatu",
-      symbol: "Vt",
-    },
+    currencies: [
+      {
+        code: "VUV",
+        name: "Vanuatu vatu",
+        symbol: "Vt",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "678",
-    phoneMask: "######",
+    phoneMask: "###-####",
+    capitalCoordinates: { lat: -17.7334, lng: 168.3273 },
+    centroid: { lat: -15.38, lng: 166.96 },
+    bounds: { south: -20.25, west: 166.52, north: -13.07, east: 170.24 },
+    landlocked: false,
+    borders: [],
+    timezones: [{ id: "Pacific/Efate", primary: true }],
   },
   {
     name: "Venezuela",
@@ -3928,15 +6399,33 @@ export const countries = [
     subregion: "South America",
     continent: "South America",
     nativeName: "Venezuela",
+    aliases: [],
     languages: ["Spanish"],
     flag: "🇻🇪",
-    currency: {
-      code: "VES",
-      name: "Venezuelan bolívar",
-      symbol: "Bs.",
-    },
+    currencies: [
+      {
+        code: "VES",
+        name: "Venezuelan bolívar",
+        symbol: "Bs.",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "58",
-    phoneMask: "###-###-#####",
+    phoneMask: "###-###-####",
+    capitalCoordinates: { lat: 10.4806, lng: -66.9036 },
+    centroid: { lat: 6.42, lng: -66.59 },
+    bounds: { south: 0.65, west: -73.35, north: 12.2, east: -59.8 },
+    landlocked: false,
+    borders: ["BRA", "COL", "GUY"],
+    timezones: [{ id: "America/Caracas", primary: true }],
   },
   {
     name: "Vietnam",
@@ -3949,15 +6438,26 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "Việt Nam",
+    aliases: [],
     languages: ["Vietnamese"],
     flag: "🇻🇳",
-    currency: {
-      code: "VND",
-      name: "Vietnamese đồng",
-      symbol: "₫",
-    },
+    currencies: [
+      {
+        code: "VND",
+        name: "Vietnamese đồng",
+        symbol: "₫",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "84",
-    phoneMask: "###-###-####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: 21.0278, lng: 105.8342 },
+    centroid: { lat: 14.06, lng: 108.28 },
+    bounds: { south: 8.56, west: 102.14, north: 23.39, east: 109.46 },
+    landlocked: false,
+    borders: ["CHN", "KHM", "LAO"],
+    timezones: [{ id: "Asia/Ho_Chi_Minh", primary: true }],
   },
   {
     name: "Yemen",
@@ -3970,15 +6470,26 @@ export const countries = [
     subregion: "Western Asia",
     continent: "Asia",
     nativeName: "اليمن",
+    aliases: [],
     languages: ["Arabic"],
     flag: "🇾🇪",
-    currency: {
-      code: "YER",
-      name: "Yemeni rial",
-      symbol: "﷼",
-    },
+    currencies: [
+      {
+        code: "YER",
+        name: "Yemeni rial",
+        symbol: "﷼",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "967",
-    phoneMask: "###-###-####",
+    phoneMask: "###-###-###",
+    capitalCoordinates: { lat: 15.3694, lng: 44.191 },
+    centroid: { lat: 15.55, lng: 48.52 },
+    bounds: { south: 12.11, west: 41.81, north: 19, east: 54.54 },
+    landlocked: false,
+    borders: ["OMN", "SAU"],
+    timezones: [{ id: "Asia/Aden", primary: true }],
   },
   {
     name: "Zambia",
@@ -3991,15 +6502,26 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Zambia",
+    aliases: ["Northern Rhodesia"],
     languages: ["English"],
     flag: "🇿🇲",
-    currency: {
-      code: "ZMW",
-      name: "Zambian kwacha",
-      symbol: "ZK",
-    },
+    currencies: [
+      {
+        code: "ZMW",
+        name: "Zambian kwacha",
+        symbol: "ZK",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "260",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: -15.3875, lng: 28.3228 },
+    centroid: { lat: -13.13, lng: 27.85 },
+    bounds: { south: -18.08, west: 21.99, north: -8.22, east: 33.71 },
+    landlocked: true,
+    borders: ["AGO", "BWA", "COD", "MOZ", "MWI", "NAM", "TZA", "ZWE"],
+    timezones: [{ id: "Africa/Lusaka", primary: true }],
   },
   {
     name: "Zimbabwe",
@@ -4012,15 +6534,47 @@ export const countries = [
     subregion: "Eastern Africa",
     continent: "Africa",
     nativeName: "Zimbabwe",
+    aliases: ["Rhodesia", "Southern Rhodesia"],
     languages: ["English", "Shona", "Ndebele"],
     flag: "🇿🇼",
-    currency: {
-      code: "ZWL",
-      name: "Zimbabwean dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "ZWG",
+        name: "Zimbabwe Gold",
+        symbol: "ZiG",
+        primary: true,
+        status: "legal_tender",
+      },
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: false,
+        status: "legal_tender",
+      },
+      {
+        code: "ZAR",
+        name: "South African rand",
+        symbol: "R",
+        primary: false,
+        status: "widely_accepted",
+      },
+      {
+        code: "BWP",
+        name: "Botswana pula",
+        symbol: "P",
+        primary: false,
+        status: "widely_accepted",
+      },
+    ],
     phoneCode: "263",
-    phoneMask: "##-###-#####",
+    phoneMask: "##-###-####",
+    capitalCoordinates: { lat: -17.8252, lng: 31.0335 },
+    centroid: { lat: -19.02, lng: 29.15 },
+    bounds: { south: -22.42, west: 25.24, north: -15.61, east: 33.06 },
+    landlocked: true,
+    borders: ["BWA", "MOZ", "ZAF", "ZMB"],
+    timezones: [{ id: "Africa/Harare", primary: true }],
   },
   {
     name: "Timor-Leste",
@@ -4033,14 +6587,49 @@ export const countries = [
     subregion: "South-Eastern Asia",
     continent: "Asia",
     nativeName: "Timor-Leste",
+    aliases: ["East Timor"],
     languages: ["Portuguese", "Tetum"],
     flag: "🇹🇱",
-    currency: {
-      code: "USD",
-      name: "United States dollar",
-      symbol: "$",
-    },
+    currencies: [
+      {
+        code: "USD",
+        name: "United States dollar",
+        symbol: "$",
+        primary: true,
+        status: "legal_tender",
+      },
+    ],
     phoneCode: "670",
-    phoneMask: "###-#####",
+    phoneMask: "####-####",
+    capitalCoordinates: { lat: -8.5569, lng: 125.5603 },
+    centroid: { lat: -8.87, lng: 125.73 },
+    bounds: { south: -9.5, west: 124.04, north: -8.13, east: 127.34 },
+    landlocked: false,
+    borders: ["IDN"],
+    timezones: [{ id: "Asia/Dili", primary: true }],
   },
 ] as const;
+
+type CountryRecord = (typeof countryData)[number];
+
+/**
+ * A country record plus the backwards-compatible `currency` accessor
+ */
+type WithPrimaryCurrency<C> = C extends CountryRecord
+  ? C & {
+      /** @deprecated Use `currencies`; this is the entry flagged `primary` */
+      readonly currency: Extract<C["currencies"][number], { primary: true }>;
+    }
+  : never;
+
+// `currency` is defined non-enumerable so spreading or serialising a country
+// doesn't duplicate its primary currency
+countryData.forEach((c) => {
+  Object.defineProperty(c, "currency", {
+    value: c.currencies.find((currency) => currency.primary),
+    enumerable: false,
+  });
+});
+
+export const countries =
+  countryData as unknown as readonly WithPrimaryCurrency<CountryRecord>[];
@@ -0,0 +1,1559 @@
+// ============================================================================
+// ISO 4217 CURRENCY REGISTRY
+// ============================================================================
+
+/**
+ * Active ISO 4217 currencies, including fund codes.
+ * Precious metals, SDRs and testing codes have no minor units and are omitted.
+ *
+ * - `minorUnits` is the ISO 4217 exponent (JPY 0, EUR 2, BHD 3)
+ * - `symbol` is the unambiguous international symbol ("US$", "CA$")
+ * - `narrowSymbol` is the short form used where the currency is implied ("$")
+ * - `displayName` holds the English singular and plural unit names
+ *
+ * Symbols and names follow CLDR; a currency without a symbol uses its code.
+ */
+export const currencies = [
+  {
+    code: "AED",
+    numeric: "784",
+    name: "United Arab Emirates Dirham",
+    minorUnits: 2,
+    symbol: "AED",
+    narrowSymbol: "AED",
+    displayName: { one: "UAE dirham", other: "UAE dirhams" },
+  },
+  {
+    code: "AFN",
+    numeric: "971",
+    name: "Afghan Afghani",
+    minorUnits: 2,
+    symbol: "AFN",
+    narrowSymbol: "؋",
+    displayName: { one: "Afghan Afghani", other: "Afghan Afghanis" },
+  },
+  {
+    code: "ALL",
+    numeric: "008",
+    name: "Albanian Lek",
+    minorUnits: 2,
+    symbol: "ALL",
+    narrowSymbol: "ALL",
+    displayName: { one: "Albanian lek", other: "Albanian lekë" },
+  },
+  {
+    code: "AMD",
+    numeric: "051",
+    name: "Armenian Dram",
+    minorUnits: 2,
+    symbol: "AMD",
+    narrowSymbol: "֏",
+    displayName: { one: "Armenian dram", other: "Armenian drams" },
+  },
+  {
+    code: "AOA",
+    numeric: "973",
+    name: "Angolan Kwanza",
+    minorUnits: 2,
+    symbol: "AOA",
+    narrowSymbol: "Kz",
+    displayName: { one: "Angolan kwanza", other: "Angolan kwanzas" },
+  },
+  {
+    code: "ARS",
+    numeric: "032",
+    name: "Argentine Peso",
+    minorUnits: 2,
+    symbol: "ARS",
+    narrowSymbol: "$",
+    displayName: { one: "Argentine peso", other: "Argentine pesos" },
+  },
+  {
+    code: "AUD",
+    numeric: "036",
+    name: "Australian Dollar",
+    minorUnits: 2,
+    symbol: "A$",
+    narrowSymbol: "$",
+    displayName: { one: "Australian dollar", other: "Australian dollars" },
+  },
+  {
+    code: "AWG",
+    numeric: "533",
+    name: "Aruban Florin",
+    minorUnits: 2,
+    symbol: "AWG",
+    narrowSymbol: "AWG",
+    displayName: { one: "Aruban florin", other: "Aruban florin" },
+  },
+  {
+    code: "AZN",
+    numeric: "944",
+    name: "Azerbaijani Manat",
+    minorUnits: 2,
+    symbol: "AZN",
+    narrowSymbol: "₼",
+    displayName: { one: "Azerbaijani manat", other: "Azerbaijani manats" },
+  },
+  {
+    code: "BAM",
+    numeric: "977",
+    name: "Bosnia-Herzegovina Convertible Mark",
+    minorUnits: 2,
+    symbol: "BAM",
+    narrowSymbol: "KM",
+    displayName: {
+      one: "Bosnia-Herzegovina convertible mark",
+      other: "Bosnia-Herzegovina convertible marks",
+    },
+  },
+  {
+    code: "BBD",
+    numeric: "052",
+    name: "Barbadian Dollar",
+    minorUnits: 2,
+    symbol: "BBD",
+    narrowSymbol: "$",
+    displayName: { one: "Barbadian dollar", other: "Barbadian dollars" },
+  },
+  {
+    code: "BDT",
+    numeric: "050",
+    name: "Bangladeshi Taka",
+    minorUnits: 2,
+    symbol: "BDT",
+    narrowSymbol: "৳",
+    displayName: { one: "Bangladeshi taka", other: "Bangladeshi takas" },
+  },
+  {
+    code: "BHD",
+    numeric: "048",
+    name: "Bahraini Dinar",
+    minorUnits: 3,
+    symbol: "BHD",
+    narrowSymbol: "BHD",
+    displayName: { one: "Bahraini dinar", other: "Bahraini dinars" },
+  },
+  {
+    code: "BIF",
+    numeric: "108",
+    name: "Burundian Franc",
+    minorUnits: 0,
+    symbol: "BIF",
+    narrowSymbol: "BIF",
+    displayName: { one: "Burundian franc", other: "Burundian francs" },
+  },
+  {
+    code: "BMD",
+    numeric: "060",
+    name: "Bermudan Dollar",
+    minorUnits: 2,
+    symbol: "BMD",
+    narrowSymbol: "$",
+    displayName: { one: "Bermudan dollar", other: "Bermudan dollars" },
+  },
+  {
+    code: "BND",
+    numeric: "096",
+    name: "Brunei Dollar",
+    minorUnits: 2,
+    symbol: "BND",
+    narrowSymbol: "$",
+    displayName: { one: "Brunei dollar", other: "Brunei dollars" },
+  },
+  {
+    code: "BOB",
+    numeric: "068",
+    name: "Bolivian Boliviano",
+    minorUnits: 2,
+    symbol: "BOB",
+    narrowSymbol: "Bs",
+    displayName: { one: "Bolivian boliviano", other: "Bolivian bolivianos" },
+  },
+  {
+    code: "BOV",
+    numeric: "984",
+    name: "Bolivian Mvdol",
+    minorUnits: 2,
+    symbol: "BOV",
+    narrowSymbol: "BOV",
+    displayName: { one: "Bolivian mvdol", other: "Bolivian mvdols" },
+  },
+  {
+    code: "BRL",
+    numeric: "986",
+    name: "Brazilian Real",
+    minorUnits: 2,
+    symbol: "R$",
+    narrowSymbol: "R$",
+    displayName: { one: "Brazilian real", other: "Brazilian reals" },
+  },
+  {
+    code: "BSD",
+    numeric: "044",
+    name: "Bahamian Dollar",
+    minorUnits: 2,
+    symbol: "BSD",
+    narrowSymbol: "$",
+    displayName: { one: "Bahamian dollar", other: "Bahamian dollars" },
+  },
+  {
+    code: "BTN",
+    numeric: "064",
+    name: "Bhutanese Ngultrum",
+    minorUnits: 2,
+    symbol: "BTN",
+    narrowSymbol: "BTN",
+    displayName: { one: "Bhutanese ngultrum", other: "Bhutanese ngultrums" },
+  },
+  {
+    code: "BWP",
+    numeric: "072",
+    name: "Botswanan Pula",
+    minorUnits: 2,
+    symbol: "BWP",
+    narrowSymbol: "P",
+    displayName: { one: "Botswanan pula", other: "Botswanan pulas" },
+  },
+  {
+    code: "BYN",
+    numeric: "933",
+    name: "Belarusian Ruble",
+    minorUnits: 2,
+    symbol: "BYN",
+    narrowSymbol: "BYN",
+    displayName: { one: "Belarusian ruble", other: "Belarusian rubles" },
+  },
+  {
+    code: "BZD",
+    numeric: "084",
+    name: "Belize Dollar",
+    minorUnits: 2,
+    symbol: "BZD",
+    narrowSymbol: "$",
+    displayName: { one: "Belize dollar", other: "Belize dollars" },
+  },
+  {
+    code: "CAD",
+    numeric: "124",
+    name: "Canadian Dollar",
+    minorUnits: 2,
+    symbol: "CA$",
+    narrowSymbol: "$",
+    displayName: { one: "Canadian dollar", other: "Canadian dollars" },
+  },
+  {
+    code: "CDF",
+    numeric: "976",
+    name: "Congolese Franc",
+    minorUnits: 2,
+    symbol: "CDF",
+    narrowSymbol: "CDF",
+    displayName: { one: "Congolese franc", other: "Congolese francs" },
+  },
+  {
+    code: "CHE",
+    numeric: "947",
+    name: "WIR Euro",
+    minorUnits: 2,
+    symbol: "CHE",
+    narrowSymbol: "CHE",
+    displayName: { one: "WIR euro", other: "WIR euros" },
+  },
+  {
+    code: "CHF",
+    numeric: "756",
+    name: "Swiss Franc",
+    minorUnits: 2,
+    symbol: "CHF",
+    narrowSymbol: "CHF",
+    displayName: { one: "Swiss franc", other: "Swiss francs" },
+  },
+  {
+    code: "CHW",
+    numeric: "948",
+    name: "WIR Franc",
+    minorUnits: 2,
+    symbol: "CHW",
+    narrowSymbol: "CHW",
+    displayName: { one: "WIR franc", other: "WIR francs" },
+  },
+  {
+    code: "CLF",
+    numeric: "990",
+    name: "Chilean Unit of Account (UF)",
+    minorUnits: 4,
+    symbol: "CLF",
+    narrowSymbol: "CLF",
+    displayName: {
+      one: "Chilean unit of account (UF)",
+      other: "Chilean units of account (UF)",
+    },
+  },
+  {
+    code: "CLP",
+    numeric: "152",
+    name: "Chilean Peso",
+    minorUnits: 0,
+    symbol: "CLP",
+    narrowSymbol: "$",
+    displayName: { one: "Chilean peso", other: "Chilean pesos" },
+  },
+  {
+    code: "CNY",
+    numeric: "156",
+    name: "Chinese Yuan",
+    minorUnits: 2,
+    symbol: "CN¥",
+    narrowSymbol: "¥",
+    displayName: { one: "Chinese yuan", other: "Chinese yuan" },
+  },
+  {
+    code: "COP",
+    numeric: "170",
+    name: "Colombian Peso",
+    minorUnits: 2,
+    symbol: "COP",
+    narrowSymbol: "$",
+    displayName: { one: "Colombian peso", other: "Colombian pesos" },
+  },
+  {
+    code: "COU",
+    numeric: "970",
+    name: "Colombian Real Value Unit",
+    minorUnits: 2,
+    symbol: "COU",
+    narrowSymbol: "COU",
+    displayName: {
+      one: "Colombian real value unit",
+      other: "Colombian real value units",
+    },
+  },
+  {
+    code: "CRC",
+    numeric: "188",
+    name: "Costa Rican Colón",
+    minorUnits: 2,
+    symbol: "CRC",
+    narrowSymbol: "₡",
+    displayName: { one: "Costa Rican colón", other: "Costa Rican colóns" },
+  },
+  {
+    code: "CUC",
+    numeric: "931",
+    name: "Cuban Convertible Peso",
+    minorUnits: 2,
+    symbol: "CUC",
+    narrowSymbol: "$",
+    displayName: {
+      one: "Cuban convertible peso",
+      other: "Cuban convertible pesos",
+    },
+  },
+  {
+    code: "CUP",
+    numeric: "192",
+    name: "Cuban Peso",
+    minorUnits: 2,
+    symbol: "CUP",
+    narrowSymbol: "$",
+    displayName: { one: "Cuban peso", other: "Cuban pesos" },
+  },
+  {
+    code: "CVE",
+    numeric: "132",
+    name: "Cape Verdean Escudo",
+    minorUnits: 2,
+    symbol: "CVE",
+    narrowSymbol: "CVE",
+    displayName: { one: "Cape Verdean escudo", other: "Cape Verdean escudos" },
+  },
+  {
+    code: "CZK",
+    numeric: "203",
+    name: "Czech Koruna",
+    minorUnits: 2,
+    symbol: "CZK",
+    narrowSymbol: "Kč",
+    displayName: { one: "Czech koruna", other: "Czech korunas" },
+  },
+  {
+    code: "DJF",
+    numeric: "262",
+    name: "Djiboutian Franc",
+    minorUnits: 0,
+    symbol: "DJF",
+    narrowSymbol: "DJF",
+    displayName: { one: "Djiboutian franc", other: "Djiboutian francs" },
+  },
+  {
+    code: "DKK",
+    numeric: "208",
+    name: "Danish Krone",
+    minorUnits: 2,
+    symbol: "DKK",
+    narrowSymbol: "kr",
+    displayName: { one: "Danish krone", other: "Danish kroner" },
+  },
+  {
+    code: "DOP",
+    numeric: "214",
+    name: "Dominican Peso",
+    minorUnits: 2,
+    symbol: "DOP",
+    narrowSymbol: "$",
+    displayName: { one: "Dominican peso", other: "Dominican pesos" },
+  },
+  {
+    code: "DZD",
+    numeric: "012",
+    name: "Algerian Dinar",
+    minorUnits: 2,
+    symbol: "DZD",
+    narrowSymbol: "DZD",
+    displayName: { one: "Algerian dinar", other: "Algerian dinars" },
+  },
+  {
+    code: "EGP",
+    numeric: "818",
+    name: "Egyptian Pound",
+    minorUnits: 2,
+    symbol: "EGP",
+    narrowSymbol: "E£",
+    displayName: { one: "Egyptian pound", other: "Egyptian pounds" },
+  },
+  {
+    code: "ERN",
+    numeric: "232",
+    name: "Eritrean Nakfa",
+    minorUnits: 2,
+    symbol: "ERN",
+    narrowSymbol: "ERN",
+    displayName: { one: "Eritrean nakfa", other: "Eritrean nakfas" },
+  },
+  {
+    code: "ETB",
+    numeric: "230",
+    name: "Ethiopian Birr",
+    minorUnits: 2,
+    symbol: "ETB",
+    narrowSymbol: "ETB",
+    displayName: { one: "Ethiopian birr", other: "Ethiopian birrs" },
+  },
+  {
+    code: "EUR",
+    numeric: "978",
+    name: "Euro",
+    minorUnits: 2,
+    symbol: "€",
+    narrowSymbol: "€",
+    displayName: { one: "euro", other: "euros" },
+  },
+  {
+    code: "FJD",
+    numeric: "242",
+    name: "Fijian Dollar",
+    minorUnits: 2,
+    symbol: "FJD",
+    narrowSymbol: "$",
+    displayName: { one: "Fijian dollar", other: "Fijian dollars" },
+  },
+  {
+    code: "FKP",
+    numeric: "238",
+    name: "Falkland Islands Pound",
+    minorUnits: 2,
+    symbol: "FKP",
+    narrowSymbol: "£",
+    displayName: {
+      one: "Falkland Islands pound",
+      other: "Falkland Islands pounds",
+    },
+  },
+  {
+    code: "GBP",
+    numeric: "826",
+    name: "British Pound",
+    minorUnits: 2,
+    symbol: "£",
+    narrowSymbol: "£",
+    displayName: { one: "British pound", other: "British pounds" },
+  },
+  {
+    code: "GEL",
+    numeric: "981",
+    name: "Georgian Lari",
+    minorUnits: 2,
+    symbol: "GEL",
+    narrowSymbol: "₾",
+    displayName: { one: "Georgian lari", other: "Georgian laris" },
+  },
+  {
+    code: "GHS",
+    numeric: "936",
+    name: "Ghanaian Cedi",
+    minorUnits: 2,
+    symbol: "GHS",
+    narrowSymbol: "GH₵",
+    displayName: { one: "Ghanaian cedi", other: "Ghanaian cedis" },
+  },
+  {
+    code: "GIP",
+    numeric: "292",
+    name: "Gibraltar Pound",
+    minorUnits: 2,
+    symbol: "GIP",
+    narrowSymbol: "£",
+    displayName: { one: "Gibraltar pound", other: "Gibraltar pounds" },
+  },
+  {
+    code: "GMD",
+    numeric: "270",
+    name: "Gambian Dalasi",
+    minorUnits: 2,
+    symbol: "GMD",
+    narrowSymbol: "GMD",
+    displayName: { one: "Gambian dalasi", other: "Gambian dalasis" },
+  },
+  {
+    code: "GNF",
+    numeric: "324",
+    name: "Guinean Franc",
+    minorUnits: 0,
+    symbol: "GNF",
+    narrowSymbol: "FG",
+    displayName: { one: "Guinean franc", other: "Guinean francs" },
+  },
+  {
+    code: "GTQ",
+    numeric: "320",
+    name: "Guatemalan Quetzal",
+    minorUnits: 2,
+    symbol: "GTQ",
+    narrowSymbol: "Q",
+    displayName: { one: "Guatemalan quetzal", other: "Guatemalan quetzals" },
+  },
+  {
+    code: "GYD",
+    numeric: "328",
+    name: "Guyanaese Dollar",
+    minorUnits: 2,
+    symbol: "GYD",
+    narrowSymbol: "$",
+    displayName: { one: "Guyanaese dollar", other: "Guyanaese dollars" },
+  },
+  {
+    code: "HKD",
+    numeric: "344",
+    name: "Hong Kong Dollar",
+    minorUnits: 2,
+    symbol: "HK$",
+    narrowSymbol: "$",
+    displayName: { one: "Hong Kong dollar", other: "Hong Kong dollars" },
+  },
+  {
+    code: "HNL",
+    numeric: "340",
+    name: "Honduran Lempira",
+    minorUnits: 2,
+    symbol: "HNL",
+    narrowSymbol: "L",
+    displayName: { one: "Honduran lempira", other: "Honduran lempiras" },
+  },
+  {
+    code: "HTG",
+    numeric: "332",
+    name: "Haitian Gourde",
+    minorUnits: 2,
+    symbol: "HTG",
+    narrowSymbol: "HTG",
+    displayName: { one: "Haitian gourde", other: "Haitian gourdes" },
+  },
+  {
+    code: "HUF",
+    numeric: "348",
+    name: "Hungarian Forint",
+    minorUnits: 2,
+    symbol: "HUF",
+    narrowSymbol: "Ft",
+    displayName: { one: "Hungarian forint", other: "Hungarian forints" },
+  },
+  {
+    code: "IDR",
+    numeric: "360",
+    name: "Indonesian Rupiah",
+    minorUnits: 2,
+    symbol: "IDR",
+    narrowSymbol: "Rp",
+    displayName: { one: "Indonesian rupiah", other: "Indonesian rupiahs" },
+  },
+  {
+    code: "ILS",
+    numeric: "376",
+    name: "Israeli New Shekel",
+    minorUnits: 2,
+    symbol: "₪",
+    narrowSymbol: "₪",
+    displayName: { one: "Israeli new shekel", other: "Israeli new shekels" },
+  },
+  {
+    code: "INR",
+    numeric: "356",
+    name: "Indian Rupee",
+    minorUnits: 2,
+    symbol: "₹",
+    narrowSymbol: "₹",
+    displayName: { one: "Indian rupee", other: "Indian rupees" },
+  },
+  {
+    code: "IQD",
+    numeric: "368",
+    name: "Iraqi Dinar",
+    minorUnits: 3,
+    symbol: "IQD",
+    narrowSymbol: "IQD",
+    displayName: { one: "Iraqi dinar", other: "Iraqi dinars" },
+  },
+  {
+    code: "IRR",
+    numeric: "364",
+    name: "Iranian Rial",
+    minorUnits: 2,
+    symbol: "IRR",
+    narrowSymbol: "IRR",
+    displayName: { one: "Iranian rial", other: "Iranian rials" },
+  },
+  {
+    code: "ISK",
+    numeric: "352",
+    name: "Icelandic Króna",
+    minorUnits: 0,
+    symbol: "ISK",
+    narrowSymbol: "kr",
+    displayName: { one: "Icelandic króna", other: "Icelandic krónur" },
+  },
+  {
+    code: "JMD",
+    numeric: "388",
+    name: "Jamaican Dollar",
+    minorUnits: 2,
+    symbol: "JMD",
+    narrowSymbol: "$",
+    displayName: { one: "Jamaican dollar", other: "Jamaican dollars" },
+  },
+  {
+    code: "JOD",
+    numeric: "400",
+    name: "Jordanian Dinar",
+    minorUnits: 3,
+    symbol: "JOD",
+    narrowSymbol: "JOD",
+    displayName: { one: "Jordanian dinar", other: "Jordanian dinars" },
+  },
+  {
+    code: "JPY",
+    numeric: "392",
+    name: "Japanese Yen",
+    minorUnits: 0,
+    symbol: "JP¥",
+    narrowSymbol: "¥",
+    displayName: { one: "Japanese yen", other: "Japanese yen" },
+  },
+  {
+    code: "KES",
+    numeric: "404",
+    name: "Kenyan Shilling",
+    minorUnits: 2,
+    symbol: "KES",
+    narrowSymbol: "KES",
+    displayName: { one: "Kenyan shilling", other: "Kenyan shillings" },
+  },
+  {
+    code: "KGS",
+    numeric: "417",
+    name: "Kyrgystani Som",
+    minorUnits: 2,
+    symbol: "KGS",
+    narrowSymbol: "⃀",
+    displayName: { one: "Kyrgystani som", other: "Kyrgystani soms" },
+  },
+  {
+    code: "KHR",
+    numeric: "116",
+    name: "Cambodian Riel",
+    minorUnits: 2,
+    symbol: "KHR",
+    narrowSymbol: "៛",
+    displayName: { one: "Cambodian riel", other: "Cambodian riels" },
+  },
+  {
+    code: "KMF",
+    numeric: "174",
+    name: "Comorian Franc",
+    minorUnits: 0,
+    symbol: "KMF",
+    narrowSymbol: "CF",
+    displayName: { one: "Comorian franc", other: "Comorian francs" },
+  },
+  {
+    code: "KPW",
+    numeric: "408",
+    name: "North Korean Won",
+    minorUnits: 2,
+    symbol: "KPW",
+    narrowSymbol: "₩",
+    displayName: { one: "North Korean won", other: "North Korean won" },
+  },
+  {
+    code: "KRW",
+    numeric: "410",
+    name: "South Korean Won",
+    minorUnits: 0,
+    symbol: "₩",
+    narrowSymbol: "₩",
+    displayName: { one: "South Korean won", other: "South Korean won" },
+  },
+  {
+    code: "KWD",
+    numeric: "414",
+    name: "Kuwaiti Dinar",
+    minorUnits: 3,
+    symbol: "KWD",
+    narrowSymbol: "KWD",
+    displayName: { one: "Kuwaiti dinar", other: "Kuwaiti dinars" },
+  },
+  {
+    code: "KYD",
+    numeric: "136",
+    name: "Cayman Islands Dollar",
+    minorUnits: 2,
+    symbol: "KYD",
+    narrowSymbol: "$",
+    displayName: {
+      one: "Cayman Islands dollar",
+      other: "Cayman Islands dollars",
+    },
+  },
+  {
+    code: "KZT",
+    numeric: "398",
+    name: "Kazakhstani Tenge",
+    minorUnits: 2,
+    symbol: "KZT",
+    narrowSymbol: "₸",
+    displayName: { one: "Kazakhstani tenge", other: "Kazakhstani tenges" },
+  },
+  {
+    code: "LAK",
+    numeric: "418",
+    name: "Laotian Kip",
+    minorUnits: 2,
+    symbol: "LAK",
+    narrowSymbol: "₭",
+    displayName: { one: "Laotian kip", other: "Laotian kips" },
+  },
+  {
+    code: "LBP",
+    numeric: "422",
+    name: "Lebanese Pound",
+    minorUnits: 2,
+    symbol: "LBP",
+    narrowSymbol: "L£",
+    displayName: { one: "Lebanese pound", other: "Lebanese pounds" },
+  },
+  {
+    code: "LKR",
+    numeric: "144",
+    name: "Sri Lankan Rupee",
+    minorUnits: 2,
+    symbol: "LKR",
+    narrowSymbol: "Rs",
+    displayName: { one: "Sri Lankan rupee", other: "Sri Lankan rupees" },
+  },
+  {
+    code: "LRD",
+    numeric: "430",
+    name: "Liberian Dollar",
+    minorUnits: 2,
+    symbol: "LRD",
+    narrowSymbol: "$",
+    displayName: { one: "Liberian dollar", other: "Liberian dollars" },
+  },
+  {
+    code: "LSL",
+    numeric: "426",
+    name: "Lesotho Loti",
+    minorUnits: 2,
+    symbol: "LSL",
+    narrowSymbol: "LSL",
+    displayName: { one: "Lesotho loti", other: "Lesotho lotis" },
+  },
+  {
+    code: "LYD",
+    numeric: "434",
+    name: "Libyan Dinar",
+    minorUnits: 3,
+    symbol: "LYD",
+    narrowSymbol: "LYD",
+    displayName: { one: "Libyan dinar", other: "Libyan dinars" },
+  },
+  {
+    code: "MAD",
+    numeric: "504",
+    name: "Moroccan Dirham",
+    minorUnits: 2,
+    symbol: "MAD",
+    narrowSymbol: "MAD",
+    displayName: { one: "Moroccan dirham", other: "Moroccan dirhams" },
+  },
+  {
+    code: "MDL",
+    numeric: "498",
+    name: "Moldovan Leu",
+    minorUnits: 2,
+    symbol: "MDL",
+    narrowSymbol: "MDL",
+    displayName: { one: "Moldovan leu", other: "Moldovan lei" },
+  },
+  {
+    code: "MGA",
+    numeric: "969",
+    name: "Malagasy Ariary",
+    minorUnits: 2,
+    symbol: "MGA",
+    narrowSymbol: "Ar",
+    displayName: { one: "Malagasy ariary", other: "Malagasy ariaries" },
+  },
+  {
+    code: "MKD",
+    numeric: "807",
+    name: "Macedonian Denar",
+    minorUnits: 2,
+    symbol: "MKD",
+    narrowSymbol: "MKD",
+    displayName: { one: "Macedonian denar", other: "Macedonian denari" },
+  },
+  {
+    code: "MMK",
+    numeric: "104",
+    name: "Myanmar Kyat",
+    minorUnits: 2,
+    symbol: "MMK",
+    narrowSymbol: "K",
+    displayName: { one: "Myanmar kyat", other: "Myanmar kyats" },
+  },
+  {
+    code: "MNT",
+    numeric: "496",
+    name: "Mongolian Tugrik",
+    minorUnits: 2,
+    symbol: "MNT",
+    narrowSymbol: "₮",
+    displayName: { one: "Mongolian tugrik", other: "Mongolian tugriks" },
+  },
+  {
+    code: "MOP",
+    numeric: "446",
+    name: "Macanese Pataca",
+    minorUnits: 2,
+    symbol: "MOP",
+    narrowSymbol: "MOP",
+    displayName: { one: "Macanese pataca", other: "Macanese patacas" },
+  },
+  {
+    code: "MRU",
+    numeric: "929",
+    name: "Mauritanian Ouguiya",
+    minorUnits: 2,
+    symbol: "MRU",
+    narrowSymbol: "MRU",
+    displayName: { one: "Mauritanian ouguiya", other: "Mauritanian ouguiyas" },
+  },
+  {
+    code: "MUR",
+    numeric: "480",
+    name: "Mauritian Rupee",
+    minorUnits: 2,
+    symbol: "MUR",
+    narrowSymbol: "Rs",
+    displayName: { one: "Mauritian rupee", other: "Mauritian rupees" },
+  },
+  {
+    code: "MVR",
+    numeric: "462",
+    name: "Maldivian Rufiyaa",
+    minorUnits: 2,
+    symbol: "MVR",
+    narrowSymbol: "MVR",
+    displayName: { one: "Maldivian rufiyaa", other: "Maldivian rufiyaas" },
+  },
+  {
+    code: "MWK",
+    numeric: "454",
+    name: "Malawian Kwacha",
+    minorUnits: 2,
+    symbol: "MWK",
+    narrowSymbol: "MWK",
+    displayName: { one: "Malawian kwacha", other: "Malawian kwachas" },
+  },
+  {
+    code: "MXN",
+    numeric: "484",
+    name: "Mexican Peso",
+    minorUnits: 2,
+    symbol: "MX$",
+    narrowSymbol: "$",
+    displayName: { one: "Mexican peso", other: "Mexican pesos" },
+  },
+  {
+    code: "MXV",
+    numeric: "979",
+    name: "Mexican Investment Unit",
+    minorUnits: 2,
+    symbol: "MXV",
+    narrowSymbol: "MXV",
+    displayName: {
+      one: "Mexican investment unit",
+      other: "Mexican investment units",
+    },
+  },
+  {
+    code: "MYR",
+    numeric: "458",
+    name: "Malaysian Ringgit",
+    minorUnits: 2,
+    symbol: "MYR",
+    narrowSymbol: "RM",
+    displayName: { one: "Malaysian ringgit", other: "Malaysian ringgits" },
+  },
+  {
+    code: "MZN",
+    numeric: "943",
+    name: "Mozambican Metical",
+    minorUnits: 2,
+    symbol: "MZN",
+    narrowSymbol: "MZN",
+    displayName: { one: "Mozambican metical", other: "Mozambican meticals" },
+  },
+  {
+    code: "NAD",
+    numeric: "516",
+    name: "Namibian Dollar",
+    minorUnits: 2,
+    symbol: "NAD",
+    narrowSymbol: "$",
+    displayName: { one: "Namibian dollar", other: "Namibian dollars" },
+  },
+  {
+    code: "NGN",
+    numeric: "566",
+    name: "Nigerian Naira",
+    minorUnits: 2,
+    symbol: "NGN",
+    narrowSymbol: "₦",
+    displayName: { one: "Nigerian naira", other: "Nigerian nairas" },
+  },
+  {
+    code: "NIO",
+    numeric: "558",
+    name: "Nicaraguan Córdoba",
+    minorUnits: 2,
+    symbol: "NIO",
+    narrowSymbol: "C$",
+    displayName: { one: "Nicaraguan córdoba", other: "Nicaraguan córdobas" },
+  },
+  {
+    code: "NOK",
+    numeric: "578",
+    name: "Norwegian Krone",
+    minorUnits: 2,
+    symbol: "NOK",
+    narrowSymbol: "kr",
+    displayName: { one: "Norwegian krone", other: "Norwegian kroner" },
+  },
+  {
+    code: "NPR",
+    numeric: "524",
+    name: "Nepalese Rupee",
+    minorUnits: 2,
+    symbol: "NPR",
+    narrowSymbol: "Rs",
+    displayName: { one: "Nepalese rupee", other: "Nepalese rupees" },
+  },
+  {
+    code: "NZD",
+    numeric: "554",
+    name: "New Zealand Dollar",
+    minorUnits: 2,
+    symbol: "NZ$",
+    narrowSymbol: "$",
+    displayName: { one: "New Zealand dollar", other: "New Zealand dollars" },
+  },
+  {
+    code: "OMR",
+    numeric: "512",
+    name: "Omani Rial",
+    minorUnits: 3,
+    symbol: "OMR",
+    narrowSymbol: "OMR",
+    displayName: { one: "Omani rial", other: "Omani rials" },
+  },
+  {
+    code: "PAB",
+    numeric: "590",
+    name: "Panamanian Balboa",
+    minorUnits: 2,
+    symbol: "PAB",
+    narrowSymbol: "PAB",
+    displayName: { one: "Panamanian balboa", other: "Panamanian balboas" },
+  },
+  {
+    code: "PEN",
+    numeric: "604",
+    name: "Peruvian Sol",
+    minorUnits: 2,
+    symbol: "PEN",
+    narrowSymbol: "PEN",
+    displayName: { one: "Peruvian sol", other: "Peruvian soles" },
+  },
+  {
+    code: "PGK",
+    numeric: "598",
+    name: "Papua New Guinean Kina",
+    minorUnits: 2,
+    symbol: "PGK",
+    narrowSymbol: "PGK",
+    displayName: {
+      one: "Papua New Guinean kina",
+      other: "Papua New Guinean kina",
+    },
+  },
+  {
+    code: "PHP",
+    numeric: "608",
+    name: "Philippine Peso",
+    minorUnits: 2,
+    symbol: "₱",
+    narrowSymbol: "₱",
+    displayName: { one: "Philippine peso", other: "Philippine pesos" },
+  },
+  {
+    code: "PKR",
+    numeric: "586",
+    name: "Pakistani Rupee",
+    minorUnits: 2,
+    symbol: "PKR",
+    narrowSymbol: "Rs",
+    displayName: { one: "Pakistani rupee", other: "Pakistani rupees" },
+  },
+  {
+    code: "PLN",
+    numeric: "985",
+    name: "Polish Zloty",
+    minorUnits: 2,
+    symbol: "PLN",
+    narrowSymbol: "zł",
+    displayName: { one: "Polish zloty", other: "Polish zlotys" },
+  },
+  {
+    code: "PYG",
+    numeric: "600",
+    name: "Paraguayan Guarani",
+    minorUnits: 0,
+    symbol: "PYG",
+    narrowSymbol: "₲",
+    displayName: { one: "Paraguayan guarani", other: "Paraguayan guaranis" },
+  },
+  {
+    code: "QAR",
+    numeric: "634",
+    name: "Qatari Riyal",
+    minorUnits: 2,
+    symbol: "QAR",
+    narrowSymbol: "QAR",
+    displayName: { one: "Qatari riyal", other: "Qatari riyals" },
+  },
+  {
+    code: "RON",
+    numeric: "946",
+    name: "Romanian Leu",
+    minorUnits: 2,
+    symbol: "RON",
+    narrowSymbol: "lei",
+    displayName: { one: "Romanian leu", other: "Romanian lei" },
+  },
+  {
+    code: "RSD",
+    numeric: "941",
+    name: "Serbian Dinar",
+    minorUnits: 2,
+    symbol: "RSD",
+    narrowSymbol: "RSD",
+    displayName: { one: "Serbian dinar", other: "Serbian dinars" },
+  },
+  {
+    code: "RUB",
+    numeric: "643",
+    name: "Russian Ruble",
+    minorUnits: 2,
+    symbol: "RUB",
+    narrowSymbol: "₽",
+    displayName: { one: "Russian ruble", other: "Russian rubles" },
+  },
+  {
+    code: "RWF",
+    numeric: "646",
+    name: "Rwandan Franc",
+    minorUnits: 0,
+    symbol: "RWF",
+    narrowSymbol: "RF",
+    displayName: { one: "Rwandan franc", other: "Rwandan francs" },
+  },
+  {
+    code: "SAR",
+    numeric: "682",
+    name: "Saudi Riyal",
+    minorUnits: 2,
+    symbol: "SAR",
+    narrowSymbol: "SAR",
+    displayName: { one: "Saudi riyal", other: "Saudi riyals" },
+  },
+  {
+    code: "SBD",
+    numeric: "090",
+    name: "Solomon Islands Dollar",
+    minorUnits: 2,
+    symbol: "SBD",
+    narrowSymbol: "$",
+    displayName: {
+      one: "Solomon Islands dollar",
+      other: "Solomon Islands dollars",
+    },
+  },
+  {
+    code: "SCR",
+    numeric: "690",
+    name: "Seychellois Rupee",
+    minorUnits: 2,
+    symbol: "SCR",
+    narrowSymbol: "SCR",
+    displayName: { one: "Seychellois rupee", other: "Seychellois rupees" },
+  },
+  {
+    code: "SDG",
+    numeric: "938",
+    name: "Sudanese Pound",
+    minorUnits: 2,
+    symbol: "SDG",
+    narrowSymbol: "SDG",
+    displayName: { one: "Sudanese pound", other: "Sudanese pounds" },
+  },
+  {
+    code: "SEK",
+    numeric: "752",
+    name: "Swedish Krona",
+    minorUnits: 2,
+    symbol: "SEK",
+    narrowSymbol: "kr",
+    displayName: { one: "Swedish krona", other: "Swedish kronor" },
+  },
+  {
+    code: "SGD",
+    numeric: "702",
+    name: "Singapore Dollar",
+    minorUnits: 2,
+    symbol: "SGD",
+    narrowSymbol: "$",
+    displayName: { one: "Singapore dollar", other: "Singapore dollars" },
+  },
+  {
+    code: "SHP",
+    numeric: "654",
+    name: "St. Helena Pound",
+    minorUnits: 2,
+    symbol: "SHP",
+    narrowSymbol: "£",
+    displayName: { one: "St. Helena pound", other: "St. Helena pounds" },
+  },
+  {
+    code: "SLE",
+    numeric: "925",
+    name: "Sierra Leonean Leone",
+    minorUnits: 2,
+    symbol: "SLE",
+    narrowSymbol: "SLE",
+    displayName: {
+      one: "Sierra Leonean leone",
+      other: "Sierra Leonean leones",
+    },
+  },
+  {
+    code: "SOS",
+    numeric: "706",
+    name: "Somali Shilling",
+    minorUnits: 2,
+    symbol: "SOS",
+    narrowSymbol: "SOS",
+    displayName: { one: "Somali shilling", other: "Somali shillings" },
+  },
+  {
+    code: "SRD",
+    numeric: "968",
+    name: "Surinamese Dollar",
+    minorUnits: 2,
+    symbol: "SRD",
+    narrowSymbol: "$",
+    displayName: { one: "Surinamese dollar", other: "Surinamese dollars" },
+  },
+  {
+    code: "SSP",
+    numeric: "728",
+    name: "South Sudanese Pound",
+    minorUnits: 2,
+    symbol: "SSP",
+    narrowSymbol: "£",
+    displayName: {
+      one: "South Sudanese pound",
+      other: "South Sudanese pounds",
+    },
+  },
+  {
+    code: "STN",
+    numeric: "930",
+    name: "São Tomé & Príncipe Dobra",
+    minorUnits: 2,
+    symbol: "STN",
+    narrowSymbol: "Db",
+    displayName: {
+      one: "São Tomé & Príncipe dobra",
+      other: "São Tomé & Príncipe dobras",
+    },
+  },
+  {
+    code: "SVC",
+    numeric: "222",
+    name: "Salvadoran Colón",
+    minorUnits: 2,
+    symbol: "SVC",
+    narrowSymbol: "SVC",
+    displayName: { one: "Salvadoran colón", other: "Salvadoran colones" },
+  },
+  {
+    code: "SYP",
+    numeric: "760",
+    name: "Syrian Pound",
+    minorUnits: 2,
+    symbol: "SYP",
+    narrowSymbol: "£",
+    displayName: { one: "Syrian pound", other: "Syrian pounds" },
+  },
+  {
+    code: "SZL",
+    numeric: "748",
+    name: "Swazi Lilangeni",
+    minorUnits: 2,
+    symbol: "SZL",
+    narrowSymbol: "SZL",
+    displayName: { one: "Swazi lilangeni", other: "Swazi emalangeni" },
+  },
+  {
+    code: "THB",
+    numeric: "764",
+    name: "Thai Baht",
+    minorUnits: 2,
+    symbol: "THB",
+    narrowSymbol: "฿",
+    displayName: { one: "Thai baht", other: "Thai baht" },
+  },
+  {
+    code: "TJS",
+    numeric: "972",
+    name: "Tajikistani Somoni",
+    minorUnits: 2,
+    symbol: "TJS",
+    narrowSymbol: "TJS",
+    displayName: { one: "Tajikistani somoni", other: "Tajikistani somonis" },
+  },
+  {
+    code: "TMT",
+    numeric: "934",
+    name: "Turkmenistani Manat",
+    minorUnits: 2,
+    symbol: "TMT",
+    narrowSymbol: "TMT",
+    displayName: { one: "Turkmenistani manat", other: "Turkmenistani manat" },
+  },
+  {
+    code: "TND",
+    numeric: "788",
+    name: "Tunisian Dinar",
+    minorUnits: 3,
+    symbol: "TND",
+    narrowSymbol: "TND",
+    displayName: { one: "Tunisian dinar", other: "Tunisian dinars" },
+  },
+  {
+    code: "TOP",
+    numeric: "776",
+    name: "Tongan Paʻanga",
+    minorUnits: 2,
+    symbol: "TOP",
+    narrowSymbol: "T$",
+    displayName: { one: "Tongan paʻanga", other: "Tongan paʻanga" },
+  },
+  {
+    code: "TRY",
+    numeric: "949",
+    name: "Turkish Lira",
+    minorUnits: 2,
+    symbol: "TRY",
+    narrowSymbol: "₺",
+    displayName: { one: "Turkish lira", other: "Turkish Lira" },
+  },
+  {
+    code: "TTD",
+    numeric: "780",
+    name: "Trinidad & Tobago Dollar",
+    minorUnits: 2,
+    symbol: "TTD",
+    narrowSymbol: "$",
+    displayName: {
+      one: "Trinidad & Tobago dollar",
+      other: "Trinidad & Tobago dollars",
+    },
+  },
+  {
+    code: "TWD",
+    numeric: "901",
+    name: "New Taiwan Dollar",
+    minorUnits: 2,
+    symbol: "NT$",
+    narrowSymbol: "$",
+    displayName: { one: "New Taiwan dollar", other: "New Taiwan dollars" },
+  },
+  {
+    code: "TZS",
+    numeric: "834",
+    name: "Tanzanian Shilling",
+    minorUnits: 2,
+    symbol: "TZS",
+    narrowSymbol: "TZS",
+    displayName: { one: "Tanzanian shilling", other: "Tanzanian shillings" },
+  },
+  {
+    code: "UAH",
+    numeric: "980",
+    name: "Ukrainian Hryvnia",
+    minorUnits: 2,
+    symbol: "UAH",
+    narrowSymbol: "₴",
+    displayName: { one: "Ukrainian hryvnia", other: "Ukrainian hryvnias" },
+  },
+  {
+    code: "UGX",
+    numeric: "800",
+    name: "Ugandan Shilling",
+    minorUnits: 0,
+    symbol: "UGX",
+    narrowSymbol: "UGX",
+    displayName: { one: "Ugandan shilling", other: "Ugandan shillings" },
+  },
+  {
+    code: "USD",
+    numeric: "840",
+    name: "US Dollar",
+    minorUnits: 2,
+    symbol: "US$",
+    narrowSymbol: "$",
+    displayName: { one: "US dollar", other: "US dollars" },
+  },
+  {
+    code: "USN",
+    numeric: "997",
+    name: "US Dollar (Next day)",
+    minorUnits: 2,
+    symbol: "USN",
+    narrowSymbol: "USN",
+    displayName: {
+      one: "US dollar (next day)",
+      other: "US dollars (next day)",
+    },
+  },
+  {
+    code: "UYI",
+    numeric: "940",
+    name: "Uruguayan Peso (Indexed Units)",
+    minorUnits: 0,
+    symbol: "UYI",
+    narrowSymbol: "UYI",
+    displayName: {
+      one: "Uruguayan peso (indexed units)",
+      other: "Uruguayan pesos (indexed units)",
+    },
+  },
+  {
+    code: "UYU",
+    numeric: "858",
+    name: "Uruguayan Peso",
+    minorUnits: 2,
+    symbol: "UYU",
+    narrowSymbol: "$",
+    displayName: { one: "Uruguayan peso", other: "Uruguayan pesos" },
+  },
+  {
+    code: "UYW",
+    numeric: "927",
+    name: "Uruguayan Nominal Wage Index Unit",
+    minorUnits: 4,
+    symbol: "UYW",
+    narrowSymbol: "UYW",
+    displayName: {
+      one: "Uruguayan nominal wage index unit",
+      other: "Uruguayan nominal wage index units",
+    },
+  },
+  {
+    code: "UZS",
+    numeric: "860",
+    name: "Uzbekistani Som",
+    minorUnits: 2,
+    symbol: "UZS",
+    narrowSymbol: "UZS",
+    displayName: { one: "Uzbekistani som", other: "Uzbekistani som" },
+  },
+  {
+    code: "VED",
+    numeric: "926",
+    name: "Bolívar Soberano",
+    minorUnits: 2,
+    symbol: "VED",
+    narrowSymbol: "VED",
+    displayName: { one: "Bolívar Soberano", other: "Bolívar Soberanos" },
+  },
+  {
+    code: "VES",
+    numeric: "928",
+    name: "Venezuelan Bolívar",
+    minorUnits: 2,
+    symbol: "VES",
+    narrowSymbol: "VES",
+    displayName: { one: "Venezuelan bolívar", other: "Venezuelan bolívars" },
+  },
+  {
+    code: "VND",
+    numeric: "704",
+    name: "Vietnamese Dong",
+    minorUnits: 0,
+    symbol: "₫",
+    narrowSymbol: "₫",
+    displayName: { one: "Vietnamese dong", other: "Vietnamese dong" },
+  },
+  {
+    code: "VUV",
+    numeric: "548",
+    name: "Vanuatu Vatu",
+    minorUnits: 0,
+    symbol: "VUV",
+    narrowSymbol: "VUV",
+    displayName: { one: "Vanuatu vatu", other: "Vanuatu vatus" },
+  },
+  {
+    code: "WST",
+    numeric: "882",
+    name: "Samoan Tala",
+    minorUnits: 2,
+    symbol: "WST",
+    narrowSymbol: "WST",
+    displayName: { one: "Samoan tala", other: "Samoan tala" },
+  },
+  {
+    code: "XAF",
+    numeric: "950",
+    name: "Central African CFA Franc",
+    minorUnits: 0,
+    symbol: "FCFA",
+    narrowSymbol: "FCFA",
+    displayName: {
+      one: "Central African CFA franc",
+      other: "Central African CFA francs",
+    },
+  },
+  {
+    code: "XCD",
+    numeric: "951",
+    name: "East Caribbean Dollar",
+    minorUnits: 2,
+    symbol: "EC$",
+    narrowSymbol: "$",
+    displayName: {
+      one: "East Caribbean dollar",
+      other: "East Caribbean dollars",
+    },
+  },
+  {
+    code: "XCG",
+    numeric: "532",
+    name: "Caribbean Guilder",
+    minorUnits: 2,
+    symbol: "Cg.",
+    narrowSymbol: "Cg.",
+    displayName: { one: "Caribbean guilder", other: "Caribbean guilders" },
+  },
+  {
+    code: "XOF",
+    numeric: "952",
+    name: "West African CFA Franc",
+    minorUnits: 0,
+    symbol: "F CFA",
+    narrowSymbol: "F CFA",
+    displayName: {
+      one: "West African CFA franc",
+      other: "West African CFA francs",
+    },
+  },
+  {
+    code: "XPF",
+    numeric: "953",
+    name: "CFP Franc",
+    minorUnits: 0,
+    symbol: "CFPF",
+    narrowSymbol: "CFPF",
+    displayName: { one: "CFP franc", other: "CFP francs" },
+  },
+  {
+    code: "YER",
+    numeric: "886",
+    name: "Yemeni Rial",
+    minorUnits: 2,
+    symbol: "YER",
+    narrowSymbol: "YER",
+    displayName: { one: "Yemeni rial", other: "Yemeni rials" },
+  },
+  {
+    code: "ZAR",
+    numeric: "710",
+    name: "South African Rand",
+    minorUnits: 2,
+    symbol: "ZAR",
+    narrowSymbol: "R",
+    displayName: { one: "South African rand", other: "South African rand" },
+  },
+  {
+    code: "ZMW",
+    numeric: "967",
+    name: "Zambian Kwacha",
+    minorUnits: 2,
+    symbol: "ZMW",
+    narrowSymbol: "ZK",
+    displayName: { one: "Zambian kwacha", other: "Zambian kwachas" },
+  },
+  {
+    code: "ZWG",
+    numeric: "924",
+    name: "Zimbabwean Gold",
+    minorUnits: 2,
+    symbol: "ZWG",
+    narrowSymbol: "ZWG",
+    displayName: { one: "Zimbabwean gold", other: "Zimbabwean gold" },
+  },
+] as const;
@@ -0,0 +1,392 @@
+import { countries } from "./countries";
+import { currencies } from "./currencies";
+import { currencyHistory, historicalCurrencies } from "./historicalCurrencies";
+import { foldCode, getCountryIndexes } from "./indexes";
+import {
+  CountryCode,
+  CountryCurrency,
+  CurrencyCode,
+  CurrencyDisplay,
+  CurrencyFormatOptions,
+  CurrencyInfo,
+  CurrencyNumeric,
+  CurrencyParseOptions,
+  HistoricalCurrencyInfo,
+  IsoCurrencyCode,
+  LooseString,
+  ParsedCurrencyAmount,
+} from "./types";
+
+// ============================================================================
+// CURRENCY LOOKUP
+// ============================================================================
+
+let currencyIndexes:
+  | {
+      code: ReadonlyMap<string, CurrencyInfo>;
+      numeric: ReadonlyMap<string, CurrencyInfo>;
+    }
+  | undefined;
+
+/**
+ * Registry entries keyed by alphabetic and numeric code, built on first use
+ */
+const getCurrencyIndexes = (): NonNullable<typeof currencyIndexes> => {
+  if (!currencyIndexes) {
+    currencyIndexes = {
+      code: new Map(currencies.map((c) => [c.code, c])),
+      numeric: new Map(currencies.map((c) => [c.numeric, c])),
+    };
+  }
+  return currencyIndexes;
+};
+
+/**
+ * Get the ISO 4217 registry entry for a currency code (case-insensitive).
+ * Every currency used by a country is registered, so country currency codes
+ * always resolve.
+ *
+ * @param code - The alphabetic ISO 4217 code
+ * @returns The currency's numeric code, minor units, symbols and names
+ *
+ * @example
+ * getCurrency("JPY").minorUnits; // 0
+ * getCurrency("EUR").numeric;    // "978"
+ * getCurrency("XYZ");            // undefined
+ *
+ * const { currency } = getCountryByAlpha2("BH")!;
+ * getCurrency(currency.code).minorUnits; // 3
+ */
+export function getCurrency(code: CurrencyCode): CurrencyInfo;
+export function getCurrency(code: string): CurrencyInfo | undefined;
+export function getCurrency(code: string): CurrencyInfo | undefined {
+  return getCurrencyIndexes().code.get(foldCode(code));
+}
+
+/**
+ * Get the ISO 4217 registry entry for a numeric currency code.
+ *
+ * @example
+ * getCurrencyByNumeric("978")?.code; // "EUR"
+ * getCurrencyByNumeric(36)?.code;    // "AUD"
+ */
+export const getCurrencyByNumeric = (
+  numeric: LooseString<CurrencyNumeric> | number,
+): CurrencyInfo | undefined =>
+  getCurrencyIndexes().numeric.get(String(numeric).padStart(3, "0"));
+
+// ============================================================================
+// HISTORICAL CURRENCIES
+// ============================================================================
+
+/**
+ * Get a withdrawn currency by its ISO 4217 code (case-insensitive), with the
+ * date it was replaced, its successor and the fixed conversion rate.
+ *
+ * @example
+ * getHistoricalCurrency("DEM");
+ * // { code: "DEM", numeric: "276", name: "German Mark", minorUnits: 2,
+ * //   until: "1998-12-31", successor: "EUR", rate: 1.95583 }
+ */
+export const getHistoricalCurrency = (
+  code: string,
+): HistoricalCurrencyInfo | undefined => {
+  const folded = foldCode(code);
+  return historicalCurrencies.find((c) => c.code === folded);
+};
+
+/**
+ * "YYYY-MM-DD" for a date or date string (in UTC), or `undefined` if invalid
+ */
+const toIsoDate = (date: Date | string): string | undefined => {
+  const parsed = typeof date === "string" ? new Date(date) : date;
+  return isNaN(parsed.getTime())
+    ? undefined
+    : parsed.toISOString().slice(0, 10);
+};
+
+/**
+ * Get the currency a country used on a given date.
+ * Dates after the country's recorded history return its current primary currency.
+ *
+ * @param countryCode - The alpha-2 code of the country
+ * @param date - A `Date` or ISO 8601 date string
+ * @returns The active or withdrawn currency, or `undefined` for an invalid date
+ * or a date before the country's recorded currencies
+ *
+ * @example
+ * getCurrencyAt("DE", "1995-06-01")?.code; // "DEM"
+ * getCurrencyAt("DE", "2002-01-01")?.code; // "EUR"
+ * getCurrencyAt("ZW", "2015-01-01")?.code; // "USD"
+ * getCurrencyAt("VE", new Date(2010, 0, 1))?.code; // "VEF"
+ */
+export const getCurrencyAt = (
+  countryCode: CountryCode,
+  date: Date | string,
+): CurrencyInfo | HistoricalCurrencyInfo | undefined => {
+  const country = getCountryIndexes().alpha2.get(foldCode(countryCode));
+  const day = toIsoDate(date);
+  if (!country || !day) return undefined;
+
+  const history = currencyHistory[country.alpha2] ?? [];
+  const period = history.find((p) => (!p.from || p.from <= day) && day <= p.to);
+  if (period)
+    return getCurrency(period.code) ?? getHistoricalCurrency(period.code);
+
+  const last = history[history.length - 1];
+  return !last || day > last.to
+    ? getCurrency(country.currency.code)
+    : undefined;
+};
+
+// ============================================================================
+// AMOUNT FORMATTING
+// ============================================================================
+
+let localSymbols: ReadonlyMap<string, string> | undefined;
+
+/**
+ * The symbol each currency has in `countries.ts` ("B/." for PAB, "Nu." for BTN),
+ * used where CLDR has no narrow symbol
+ */
+const getLocalSymbols = (): ReadonlyMap<string, string> => {
+  if (!localSymbols) {
+    const symbols = new Map<string, string>();
+    countries.forEach((c) => {
+      (c.currencies as readonly CountryCurrency[]).forEach(
+        ({ code, symbol }) => {
+          if (!symbols.has(code)) symbols.set(code, symbol);
+        },
+      );
+    });
+    localSymbols = symbols;
+  }
+  return localSymbols;
+};
+
+/**
+ * Format an amount of money for display, rounded to the currency's ISO 4217
+ * minor units. Symbol placement, spacing and separators follow the locale.
+ *
+ * @param amount - The amount in major units, e.g. 1234.5
+ * @param currencyCode - The ISO 4217 code of the currency
+ * @param options - Locale and how to show the currency
+ * @returns The formatted amount, or `undefined` for an unknown currency or non-finite amount
+ *
+ * @example
+ * formatCurrencyAmount(1234.5, "USD");                              // "$1,234.50"
+ * formatCurrencyAmount(1234.5, "USD", { locale: "en-CA" });         // "US$1,234.50"
+ * formatCurrencyAmount(1234.5, "EUR", { locale: "de" });            // "1.234,50 €"
+ * formatCurrencyAmount(1234.5, "JPY");                              // "¥1,235"
+ * formatCurrencyAmount(1.5, "BHD", { display: "code" });            // "BHD 1.500"
+ * formatCurrencyAmount(2, "GBP", { display: "name" });              // "2.00 British pounds"
+ * formatCurrencyAmount(10, "PAB", { display: "narrowSymbol" });     // "B/. 10.00"
+ */
+export const formatCurrencyAmount = (
+  amount: number,
+  currencyCode: LooseString<IsoCurrencyCode>,
+  options: CurrencyFormatOptions = {},
+): string | undefined => {
+  const currency = getCurrency(currencyCode);
+  if (!currency || !isFinite(amount)) return undefined;
+
+  const { locale = "en", display = "symbol" } = options;
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: currency.code,
+    currencyDisplay: display,
+    minimumFractionDigits: currency.minorUnits,
+    maximumFractionDigits: currency.minorUnits,
+  })
+    .formatToParts(amount)
+    .map(({ type, value }) =>
+      type === "currency" &&
+      display === "narrowSymbol" &&
+      value === currency.code
+        ? (getLocalSymbols().get(currency.code) ?? value)
+        : value,
+    )
+    .join("");
+};
+
+// ============================================================================
+// AMOUNT PARSING
+// ============================================================================
+
+const MINUS_SIGNS = /[-\u2212]/;
+/** Arabic-Indic and extended Arabic-Indic digits, whose low nibble is their value */
+const NATIVE_DIGITS = /[\u0660-\u0669\u06f0-\u06f9]/g;
+
+/**
+ * Currencies keyed by every way they can be written in a locale, most
+ * specific first: the code, the locale's symbol, the international symbol,
+ * then narrow and local symbols shared by several currencies
+ */
+const symbolIndexes = new Map<string, ReadonlyMap<string, IsoCurrencyCode[]>>();
+
+const getSymbolIndex = (
+  locale: string,
+): ReadonlyMap<string, IsoCurrencyCode[]> => {
+  const cached = symbolIndexes.get(locale);
+  if (cached) return cached;
+
+  const index = new Map<string, IsoCurrencyCode[]>();
+  const add = (symbol: string, code: IsoCurrencyCode) => {
+    const codes = index.get(symbol) ?? [];
+    if (!codes.includes(code)) index.set(symbol, [...codes, code]);
+  };
+  const localeSymbol = (code: string, display: CurrencyDisplay) =>
+    new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: code,
+      currencyDisplay: display,
+    })
+      .formatToParts(0)
+      .find((part) => part.type === "currency")!.value;
+
+  currencies.forEach(({ code }) => add(code, code));
+  currencies.forEach(({ code }) => add(localeSymbol(code, "symbol"), code));
+  currencies.forEach(({ code, symbol }) => add(symbol, code));
+  currencies.forEach(({ code, narrowSymbol }) => {
+    add(localeSymbol(code, "narrowSymbol"), code);
+    add(narrowSymbol, code);
+    const local = getLocalSymbols().get(code);
+    if (local) add(local, code);
+  });
+
+  symbolIndexes.set(locale, index);
+  return index;
+};
+
+/**
+ * Separators and digit grouping of a locale, e.g. "," and "." with groups of
+ * 3 for "en", or groups of 3 then 2 for "en-IN" ("12,34,567")
+ */
+interface NumberSeparators {
+  group: string;
+  decimal: string;
+  /** Digits in the group next to the decimal separator */
+  primaryGroup: number;
+  /** Digits in each group before that one */
+  secondaryGroup: number;
+}
+
+const getSeparators = (locale: string): NumberSeparators => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+  const groups = parts
+    .filter((p) => p.type === "integer")
+    .map((p) => p.value.length);
+  return {
+    group: parts.find((p) => p.type === "group")?.value ?? ",",
+    decimal: parts.find((p) => p.type === "decimal")?.value ?? ".",
+    primaryGroup: groups.length > 1 ? groups[groups.length - 1] : 3,
+    secondaryGroup: groups.length > 2 ? groups[1] : 3,
+  };
+};
+
+/**
+ * Check that digit groups follow the locale's grouping, so "12,34" isn't
+ * read as 1234 in "en". A single group (no separators) is always valid.
+ */
+const isWellGrouped = (
+  groups: readonly string[],
+  { primaryGroup, secondaryGroup }: NumberSeparators,
+): boolean => {
+  if (groups.length === 1) return true;
+  const first = groups[0];
+  const middle = groups.slice(1, -1);
+  const last = groups[groups.length - 1];
+  return (
+    first.length >= 1 &&
+    first.length <= secondaryGroup &&
+    middle.every((g) => g.length === secondaryGroup) &&
+    last.length === primaryGroup
+  );
+};
+
+/**
+ * Parse a money amount typed by a user, such as "$1,234.56", "1.234,56 €",
+ * "USD 10" or "(R$ 5,00)".
+ * The currency may be written as a code or any symbol known for the locale;
+ * an ambiguous symbol like "$" resolves to `currencyCode` when it is one of
+ * its currencies, otherwise to the locale's own currency for that symbol.
+ *
+ * @param input - The text to parse
+ * @param currencyCode - The expected currency, used when the input has none
+ * @param options - The locale whose separators and symbols the input uses
+ * @returns The amount and currency, or `undefined` if the input isn't a valid
+ * amount, groups digits differently from the locale, names a different
+ * currency than expected, or has more decimals than the currency's minor units
+ *
+ * @example
+ * parseCurrencyAmount("$1,234.56");
+ * // { amount: 1234.56, minorAmount: 123456, currency: "USD" }
+ * parseCurrencyAmount("1.234,56 €", undefined, { locale: "de" })?.amount; // 1234.56
+ * parseCurrencyAmount("$5", "CAD")?.currency; // "CAD"
+ * parseCurrencyAmount("€5", "USD");           // undefined
+ * parseCurrencyAmount("1.5", "JPY");          // undefined
+ * parseCurrencyAmount("12,34", "USD");        // undefined, not 1234
+ */
+export const parseCurrencyAmount = (
+  input: string,
+  currencyCode?: LooseString<IsoCurrencyCode>,
+  options: CurrencyParseOptions = {},
+): ParsedCurrencyAmount | undefined => {
+  const { locale = "en" } = options;
+  const expected = currencyCode && getCurrency(currencyCode);
+  if (currencyCode && !expected) return undefined;
+
+  const text = input
+    .trim()
+    .replace(NATIVE_DIGITS, (d) => String(d.charCodeAt(0) & 0xf));
+  const match = text.match(/^(\D*?)(\d[\s\S]*\d|\d)(\D*)$/);
+  if (!match) return undefined;
+  const [, prefix, number, suffix] = match;
+
+  // Negative amounts are written "-5", "5-" or "(5)"
+  const negative =
+    MINUS_SIGNS.test(prefix + suffix) ||
+    (prefix.includes("(") && suffix.includes(")"));
+  // What's left besides signs and the bidi marks of RTL locales is the currency
+  const symbols = [prefix, suffix]
+    .map((s) => s.replace(/[\s\-\u2212+()\u061c\u200e\u200f]/g, ""))
+    .filter(Boolean);
+  if (symbols.length > 1) return undefined;
+
+  let code: IsoCurrencyCode | undefined = expected ? expected.code : undefined;
+  if (symbols.length) {
+    const symbol = symbols[0];
+    const index = getSymbolIndex(locale);
+    const candidates =
+      index.get(symbol) ?? index.get(symbol.toUpperCase()) ?? [];
+    if (!candidates.length) return undefined;
+    if (expected && !candidates.includes(expected.code)) return undefined;
+    code = expected ? expected.code : candidates[0];
+  }
+  if (!code) return undefined;
+
+  const separators = getSeparators(locale);
+  const [grouped, fraction = "", ...rest] = number.split(separators.decimal);
+  // Spaces and apostrophes group digits in many locales besides their own separator
+  const groups = grouped
+    .split(separators.group)
+    .flatMap((g) => g.split(/[\s'\u2019]/));
+  const integer = groups.join("");
+  const { minorUnits } = getCurrency(code)!;
+  if (
+    rest.length ||
+    !groups.every((g) => /^\d+$/.test(g)) ||
+    !isWellGrouped(groups, separators) ||
+    !/^\d*$/.test(fraction) ||
+    fraction.length > minorUnits
+  ) {
+    return undefined;
+  }
+
+  const sign = negative ? -1 : 1;
+  return {
+    amount: sign * Number(`${integer}.${fraction || "0"}`),
+    minorAmount: sign * Number(integer + fraction.padEnd(minorUnits, "0")),
+    currency: code,
+  };
+};
@@ -0,0 +1,141 @@
+import { countries } from "./countries";
+import {
+  Country,
+  FuzzyMatchField,
+  FuzzySearchOptions,
+  FuzzySearchResult,
+} from "./types";
+import { normalizeName } from "./normalize";
+
+const NAME_FIELDS = ["name", "officialName", "nativeName", "alias"] as const;
+const CODE_FIELDS = ["alpha2", "alpha3"] as const;
+
+const ALL_FIELDS: readonly FuzzyMatchField[] = [...NAME_FIELDS, ...CODE_FIELDS];
+
+// ============================================================================
+// STRING SIMILARITY
+// ============================================================================
+
+/**
+ * Optimal string alignment distance: Levenshtein plus adjacent
+ * transpositions, so "Untied" is one edit away from "United".
+ */
+const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prevPrev: number[] = [];
+  let prev: number[] = [];
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    const curr: number[] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        curr[j] = Math.min(curr[j], prevPrev[j - 2] + 1);
+      }
+    }
+    prevPrev = prev;
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const similarity = (a: string, b: string): number =>
+  1 - editDistance(a, b) / Math.max(a.length, b.length);
+
+/**
+ * Average best per-token similarity, so word order and extra words
+ * ("republic of korea" vs "korea") are tolerated.
+ */
+const tokenSimilarity = (query: string, candidate: string): number => {
+  const queryTokens = query.split(" ");
+  const candidateTokens = candidate.split(" ");
+  const total = queryTokens.reduce(
+    (sum, qt) =>
+      sum + Math.max(...candidateTokens.map((ct) => similarity(qt, ct))),
+    0,
+  );
+  // Penalise candidates with words the query didn't mention
+  const coverage = Math.min(queryTokens.length / candidateTokens.length, 1);
+  return (total / queryTokens.length) * (0.8 + 0.2 * coverage);
+};
+
+/**
+ * Score a normalised query against a normalised candidate between 0 and 1.
+ */
+const scoreText = (query: string, candidate: string): number => {
+  if (!candidate) return 0;
+  if (query === candidate) return 1;
+
+  let score = Math.max(
+    similarity(query, candidate),
+    tokenSimilarity(query, candidate) * 0.95,
+  );
+  if (query.length >= 3 && candidate.includes(query)) {
+    const base = candidate.startsWith(query) ? 0.75 : 0.7;
+    score = Math.max(score, base + 0.2 * (query.length / candidate.length));
+  }
+  return score;
+};
+
+// ============================================================================
+// FUZZY SEARCH
+// ============================================================================
+
+/**
+ * Typo-tolerant country search ranked by similarity.
+ * Names and aliases are compared by edit distance and word-by-word; codes only match exactly.
+ *
+ * @param query - Free-text input, e.g. "Brazl" or "Untied States"
+ * @param options - Result limit, minimum score and fields to match
+ * @returns Matches sorted by descending score, one entry per country
+ *
+ * @example
+ * fuzzySearchCountries("Brazl");
+ * // [{ country: Brazil, score: 0.83, field: "name", matched: "Brazil" }]
+ */
+export const fuzzySearchCountries = (
+  query: string,
+  options: FuzzySearchOptions = {},
+): FuzzySearchResult[] => {
+  const { limit = 10, minScore = 0.6, fields = ALL_FIELDS } = options;
+  const normalized = normalizeName(query);
+  if (!normalized) return [];
+
+  const upper = query.trim().toUpperCase();
+  const results: FuzzySearchResult[] = [];
+
+  countries.forEach((country: Country) => {
+    let best: FuzzySearchResult | undefined;
+
+    fields.forEach((field) => {
+      const values: readonly string[] =
+        field === "alias" ? country.aliases : [country[field]];
+
+      values.forEach((value) => {
+        if (!value) return;
+
+        const score = (CODE_FIELDS as readonly string[]).includes(field)
+          ? Number(value === upper)
+          : scoreText(normalized, normalizeName(value));
+
+        if (!best || score > best.score) {
+          best = { country, score, field, matched: value };
+        }
+      });
+    });
+
+    if (best && best.score >= minScore) results.push(best);
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score || a.country.name.localeCompare(b.country.name),
+    )
+    .slice(0, limit);
+};
@@ -0,0 +1,202 @@
+import { countries } from "./countries";
+import { foldCode, getCountryIndexes } from "./indexes";
+import { maritimeBorders } from "./maritimeBorders";
+import {
+  BoundingBox,
+  Coordinates,
+  Country,
+  CountryAlpha3,
+  CountryCode,
+  DistanceUnit,
+  NeighborOptions,
+} from "./types";
+
+// ============================================================================
+// COORDINATES
+// ============================================================================
+
+/**
+ * Get the geographic centre of a country's territory, e.g. for centring a map.
+ *
+ * @param code - The alpha-2 code of the country
+ * @returns The centroid, or `undefined` for an unknown code
+ *
+ * @example
+ * getCountryCentroid("FR"); // { lat: 46.6, lng: 2.45 }
+ */
+export const getCountryCentroid = (
+  code: CountryCode,
+): Coordinates | undefined =>
+  getCountryIndexes().alpha2.get(foldCode(code))?.centroid;
+
+/**
+ * Get the bounding box of a country's main territory. Remote oceanic islands
+ * and territories with their own ISO 3166-1 code are not included.
+ * `west` is greater than `east` when the box crosses the antimeridian.
+ *
+ * @example
+ * getCountryBounds("DE"); // { south: 47.27, west: 5.87, north: 55.06, east: 15.04 }
+ * getCountryBounds("FJ"); // { south: -20.68, west: 176.9, north: -12.46, east: -178.2 }
+ */
+export const getCountryBounds = (code: CountryCode): BoundingBox | undefined =>
+  getCountryIndexes().alpha2.get(foldCode(code))?.bounds;
+
+/**
+ * Get the latitude and longitude of a country's capital.
+ *
+ * @example
+ * getCapitalCoordinates("JP"); // { lat: 35.6762, lng: 139.6503 }
+ */
+export const getCapitalCoordinates = (
+  code: CountryCode,
+): Coordinates | undefined =>
+  getCountryIndexes().alpha2.get(foldCode(code))?.capitalCoordinates;
+
+// ============================================================================
+// NEIGHBOURS
+// ============================================================================
+
+/**
+ * Get the countries sharing a land border with a country, from its `borders`.
+ * With `includeMaritime`, countries that only share a maritime boundary follow
+ * the land neighbours.
+ *
+ * @param code - The alpha-2 code of the country
+ * @param options - Whether to include maritime neighbours
+ * @returns The neighbouring countries, or an empty array for an unknown code
+ *
+ * @example
+ * getNeighbors("ES").map((c) => c.alpha2); // ["AD", "FR", "MA", "PT"]
+ * getNeighbors("JP");                      // []
+ * getNeighbors("JP", { includeMaritime: true }).map((c) => c.alpha2); // ["CN", "KR", "RU"]
+ */
+export const getNeighbors = (
+  code: CountryCode,
+  options: NeighborOptions = {},
+): Country[] => {
+  const idx = getCountryIndexes();
+  const country = idx.alpha2.get(foldCode(code));
+  if (!country) return [];
+
+  const codes: readonly CountryAlpha3[] = options.includeMaritime
+    ? [...country.borders, ...(maritimeBorders[country.alpha3] ?? [])]
+    : country.borders;
+  return codes.map((alpha3) => idx.alpha3.get(alpha3)!);
+};
+
+// ============================================================================
+// DISTANCES
+// ============================================================================
+
+/** Mean Earth radius in kilometres */
+const EARTH_RADIUS_KM = 6371.0088;
+
+const KM_PER_MILE = 1.609344;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points using the haversine formula
+ */
+const haversineDistance = (
+  a: Coordinates,
+  b: Coordinates,
+  unit: DistanceUnit = "km",
+): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  const km = 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+  return unit === "mi" ? km / KM_PER_MILE : km;
+};
+
+/**
+ * Get the great-circle distance between two countries' capitals.
+ *
+ * @param a - The alpha-2 code of the first country
+ * @param b - The alpha-2 code of the second country
+ * @param unit - "km" (default) or "mi"
+ * @returns The distance, or `undefined` if either code is unknown
+ *
+ * @example
+ * getDistanceBetweenCapitals("FR", "DE");       // 877.5 (Paris to Berlin)
+ * getDistanceBetweenCapitals("US", "GB", "mi"); // 3664.6
+ */
+export const getDistanceBetweenCapitals = (
+  a: CountryCode,
+  b: CountryCode,
+  unit: DistanceUnit = "km",
+): number | undefined => {
+  const from = getCapitalCoordinates(a);
+  const to = getCapitalCoordinates(b);
+  return from && to ? haversineDistance(from, to, unit) : undefined;
+};
+
+/**
+ * Get the great-circle distance between the centroids of two countries.
+ *
+ * @example
+ * getDistanceBetweenCountries("FR", "ES"); // 845.6
+ */
+export const getDistanceBetweenCountries = (
+  a: CountryCode,
+  b: CountryCode,
+  unit: DistanceUnit = "km",
+): number | undefined => {
+  const from = getCountryCentroid(a);
+  const to = getCountryCentroid(b);
+  return from && to ? haversineDistance(from, to, unit) : undefined;
+};
+
+/**
+ * Other countries sorted by centroid distance from `origin`, nearest first
+ */
+const byDistanceFrom = (origin: Country): { country: Country; km: number }[] =>
+  countries
+    .filter((c) => c !== origin)
+    .map((c) => ({
+      country: c as Country,
+      km: haversineDistance(origin.centroid, c.centroid),
+    }))
+    .sort((x, y) => x.km - y.km);
+
+/**
+ * Get the countries whose centroid lies within `km` of a country's centroid,
+ * nearest first. The country itself is not included.
+ *
+ * @example
+ * getCountriesWithinRadius("BE", 300); // [Luxembourg, Netherlands]
+ */
+export const getCountriesWithinRadius = (
+  code: CountryCode,
+  km: number,
+): Country[] => {
+  const origin = getCountryIndexes().alpha2.get(foldCode(code));
+  return origin
+    ? byDistanceFrom(origin)
+        .filter((entry) => entry.km <= km)
+        .map((entry) => entry.country)
+    : [];
+};
+
+/**
+ * Get the `n` countries with the nearest centroids, nearest first.
+ *
+ * @example
+ * getNearestCountries("NZ", 3); // [Tonga, Fiji, Vanuatu]
+ */
+export const getNearestCountries = (
+  code: CountryCode,
+  n: number,
+): Country[] => {
+  const origin = getCountryIndexes().alpha2.get(foldCode(code));
+  return origin
+    ? byDistanceFrom(origin)
+        .slice(0, Math.max(0, n))
+        .map((entry) => entry.country)
+    : [];
+};
@@ -0,0 +1,442 @@
+import { CountryCode, CurrencyPeriod } from "./types";
+
+// ============================================================================
+// HISTORICAL CURRENCIES
+// ============================================================================
+
+/**
+ * Withdrawn ISO 4217 currencies.
+ *
+ * - `until` is the last day the currency was in use before its successor took over
+ * - `rate` is the fixed number of units exchanged for one unit of `successor`,
+ *   where there was one (1.95583 DEM per EUR)
+ *
+ * Euro predecessors end the day before their country adopted the euro as its
+ * currency, not at the later cash changeover.
+ */
+export const historicalCurrencies = [
+  {
+    code: "ATS",
+    numeric: "040",
+    name: "Austrian Schilling",
+    minorUnits: 2,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 13.7603,
+  },
+  {
+    code: "AZM",
+    numeric: "031",
+    name: "Azerbaijani Manat (1993–2006)",
+    minorUnits: 2,
+    until: "2005-12-31",
+    successor: "AZN",
+    rate: 5000,
+  },
+  {
+    code: "BEF",
+    numeric: "056",
+    name: "Belgian Franc",
+    minorUnits: 2,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 40.3399,
+  },
+  {
+    code: "BGN",
+    numeric: "975",
+    name: "Bulgarian Lev",
+    minorUnits: 2,
+    until: "2025-12-31",
+    successor: "EUR",
+    rate: 1.95583,
+  },
+  {
+    code: "BYR",
+    numeric: "974",
+    name: "Belarusian Ruble (2000–2016)",
+    minorUnits: 0,
+    until: "2016-06-30",
+    successor: "BYN",
+    rate: 10000,
+  },
+  {
+    code: "CYP",
+    numeric: "196",
+    name: "Cypriot Pound",
+    minorUnits: 2,
+    until: "2007-12-31",
+    successor: "EUR",
+    rate: 0.585274,
+  },
+  {
+    code: "DEM",
+    numeric: "276",
+    name: "German Mark",
+    minorUnits: 2,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 1.95583,
+  },
+  {
+    code: "EEK",
+    numeric: "233",
+    name: "Estonian Kroon",
+    minorUnits: 2,
+    until: "2010-12-31",
+    successor: "EUR",
+    rate: 15.6466,
+  },
+  {
+    code: "ESP",
+    numeric: "724",
+    name: "Spanish Peseta",
+    minorUnits: 0,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 166.386,
+  },
+  {
+    code: "FIM",
+    numeric: "246",
+    name: "Finnish Markka",
+    minorUnits: 2,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 5.94573,
+  },
+  {
+    code: "FRF",
+    numeric: "250",
+    name: "French Franc",
+    minorUnits: 2,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 6.55957,
+  },
+  {
+    code: "GHC",
+    numeric: "288",
+    name: "Ghanaian Cedi (1979–2007)",
+    minorUnits: 2,
+    until: "2007-06-30",
+    successor: "GHS",
+    rate: 10000,
+  },
+  {
+    code: "GRD",
+    numeric: "300",
+    name: "Greek Drachma",
+    minorUnits: 2,
+    until: "2000-12-31",
+    successor: "EUR",
+    rate: 340.75,
+  },
+  {
+    code: "HRK",
+    numeric: "191",
+    name: "Croatian Kuna",
+    minorUnits: 2,
+    until: "2022-12-31",
+    successor: "EUR",
+    rate: 7.5345,
+  },
+  {
+    code: "IEP",
+    numeric: "372",
+    name: "Irish Pound",
+    minorUnits: 2,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 0.787564,
+  },
+  {
+    code: "ITL",
+    numeric: "380",
+    name: "Italian Lira",
+    minorUnits: 0,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 1936.27,
+  },
+  {
+    code: "LTL",
+    numeric: "440",
+    name: "Lithuanian Litas",
+    minorUnits: 2,
+    until: "2014-12-31",
+    successor: "EUR",
+    rate: 3.4528,
+  },
+  {
+    code: "LUF",
+    numeric: "442",
+    name: "Luxembourgian Franc",
+    minorUnits: 2,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 40.3399,
+  },
+  {
+    code: "LVL",
+    numeric: "428",
+    name: "Latvian Lats",
+    minorUnits: 2,
+    until: "2013-12-31",
+    successor: "EUR",
+    rate: 0.702804,
+  },
+  {
+    code: "MGF",
+    numeric: "450",
+    name: "Malagasy Franc",
+    minorUnits: 0,
+    until: "2004-12-31",
+    successor: "MGA",
+    rate: 5,
+  },
+  {
+    code: "MRO",
+    numeric: "478",
+    name: "Mauritanian Ouguiya (1973–2017)",
+    minorUnits: 2,
+    until: "2017-12-31",
+    successor: "MRU",
+    rate: 10,
+  },
+  {
+    code: "MTL",
+    numeric: "470",
+    name: "Maltese Lira",
+    minorUnits: 2,
+    until: "2007-12-31",
+    successor: "EUR",
+    rate: 0.4293,
+  },
+  {
+    code: "MZM",
+    numeric: "508",
+    name: "Mozambican Metical (1980–2006)",
+    minorUnits: 2,
+    until: "2006-06-30",
+    successor: "MZN",
+    rate: 1000,
+  },
+  {
+    code: "NLG",
+    numeric: "528",
+    name: "Dutch Guilder",
+    minorUnits: 2,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 2.20371,
+  },
+  {
+    code: "PTE",
+    numeric: "620",
+    name: "Portuguese Escudo",
+    minorUnits: 0,
+    until: "1998-12-31",
+    successor: "EUR",
+    rate: 200.482,
+  },
+  {
+    code: "ROL",
+    numeric: "642",
+    name: "Romanian Leu (1952–2006)",
+    minorUnits: 2,
+    until: "2005-06-30",
+    successor: "RON",
+    rate: 10000,
+  },
+  {
+    code: "SDD",
+    numeric: "736",
+    name: "Sudanese Dinar",
+    minorUnits: 2,
+    until: "2007-01-09",
+    successor: "SDG",
+    rate: 100,
+  },
+  {
+    code: "SIT",
+    numeric: "705",
+    name: "Slovenian Tolar",
+    minorUnits: 2,
+    until: "2006-12-31",
+    successor: "EUR",
+    rate: 239.64,
+  },
+  {
+    code: "SKK",
+    numeric: "703",
+    name: "Slovak Koruna",
+    minorUnits: 2,
+    until: "2008-12-31",
+    successor: "EUR",
+    rate: 30.126,
+  },
+  {
+    code: "SLL",
+    numeric: "694",
+    name: "Sierra Leonean Leone (1964–2022)",
+    minorUnits: 2,
+    until: "2022-06-30",
+    successor: "SLE",
+    rate: 1000,
+  },
+  {
+    code: "SRG",
+    numeric: "740",
+    name: "Surinamese Guilder",
+    minorUnits: 2,
+    until: "2003-12-31",
+    successor: "SRD",
+    rate: 1000,
+  },
+  {
+    code: "STD",
+    numeric: "678",
+    name: "São Tomé & Príncipe Dobra (1977–2017)",
+    minorUnits: 2,
+    until: "2017-12-31",
+    successor: "STN",
+    rate: 1000,
+  },
+  {
+    code: "TMM",
+    numeric: "795",
+    name: "Turkmenistani Manat (1993–2009)",
+    minorUnits: 2,
+    until: "2008-12-31",
+    successor: "TMT",
+    rate: 5000,
+  },
+  {
+    code: "TRL",
+    numeric: "792",
+    name: "Turkish Lira (1922–2005)",
+    minorUnits: 0,
+    until: "2004-12-31",
+    successor: "TRY",
+    rate: 1000000,
+  },
+  {
+    code: "VEB",
+    numeric: "862",
+    name: "Venezuelan Bolívar (1871–2008)",
+    minorUnits: 2,
+    until: "2007-12-31",
+    successor: "VEF",
+    rate: 1000,
+  },
+  {
+    code: "VEF",
+    numeric: "937",
+    name: "Venezuelan Bolívar (2008–2018)",
+    minorUnits: 2,
+    until: "2018-08-19",
+    successor: "VES",
+    rate: 100000,
+  },
+  {
+    code: "ZMK",
+    numeric: "894",
+    name: "Zambian Kwacha (1968–2012)",
+    minorUnits: 2,
+    until: "2012-12-31",
+    successor: "ZMW",
+    rate: 1000,
+  },
+  {
+    code: "ZWD",
+    numeric: "716",
+    name: "Zimbabwean Dollar (1980–2008)",
+    minorUnits: 2,
+    until: "2006-07-31",
+    successor: "ZWN",
+    rate: 1000,
+  },
+  {
+    code: "ZWL",
+    numeric: "932",
+    name: "Zimbabwean Dollar (2009–2024)",
+    minorUnits: 2,
+    until: "2024-04-04",
+    successor: "ZWG",
+  },
+  {
+    code: "ZWN",
+    numeric: "942",
+    name: "Zimbabwean Dollar (2006–2008)",
+    minorUnits: 2,
+    until: "2008-07-31",
+    successor: "ZWR",
+    rate: 10000000000,
+  },
+  {
+    code: "ZWR",
+    numeric: "935",
+    name: "Zimbabwean Dollar (2008–2009)",
+    minorUnits: 2,
+    until: "2009-02-02",
+  },
+] as const;
+
+/**
+ * The currencies each country used before its current one, oldest first.
+ * Periods are inclusive; a period without `from` extends back indefinitely.
+ * Dollarised periods reference active codes (USD in Zimbabwe).
+ */
+export const currencyHistory: Partial<
+  Record<CountryCode, readonly CurrencyPeriod[]>
+> = {
+  AT: [{ code: "ATS", to: "1998-12-31" }],
+  AZ: [{ code: "AZM", to: "2005-12-31" }],
+  BE: [{ code: "BEF", to: "1998-12-31" }],
+  BG: [{ code: "BGN", from: "1999-07-05", to: "2025-12-31" }],
+  BY: [{ code: "BYR", from: "2000-01-01", to: "2016-06-30" }],
+  CY: [{ code: "CYP", to: "2007-12-31" }],
+  DE: [{ code: "DEM", from: "1948-06-21", to: "1998-12-31" }],
+  EE: [{ code: "EEK", from: "1992-06-20", to: "2010-12-31" }],
+  ES: [{ code: "ESP", to: "1998-12-31" }],
+  FI: [{ code: "FIM", to: "1998-12-31" }],
+  FR: [{ code: "FRF", from: "1960-01-01", to: "1998-12-31" }],
+  GH: [{ code: "GHC", to: "2007-06-30" }],
+  GR: [{ code: "GRD", to: "2000-12-31" }],
+  HR: [{ code: "HRK", from: "1994-05-30", to: "2022-12-31" }],
+  IE: [{ code: "IEP", to: "1998-12-31" }],
+  IT: [{ code: "ITL", to: "1998-12-31" }],
+  LT: [{ code: "LTL", from: "1993-06-25", to: "2014-12-31" }],
+  LU: [{ code: "LUF", to: "1998-12-31" }],
+  LV: [{ code: "LVL", from: "1993-03-05", to: "2013-12-31" }],
+  MC: [{ code: "FRF", from: "1960-01-01", to: "1998-12-31" }],
+  MG: [{ code: "MGF", to: "2004-12-31" }],
+  MR: [{ code: "MRO", to: "2017-12-31" }],
+  MT: [{ code: "MTL", to: "2007-12-31" }],
+  MZ: [{ code: "MZM", to: "2006-06-30" }],
+  NL: [{ code: "NLG", to: "1998-12-31" }],
+  PT: [{ code: "PTE", to: "1998-12-31" }],
+  RO: [{ code: "ROL", to: "2005-06-30" }],
+  SD: [{ code: "SDD", from: "1992-06-08", to: "2007-01-09" }],
+  SI: [{ code: "SIT", from: "1991-10-08", to: "2006-12-31" }],
+  SK: [{ code: "SKK", from: "1993-02-08", to: "2008-12-31" }],
+  SL: [{ code: "SLL", to: "2022-06-30" }],
+  SM: [{ code: "ITL", to: "1998-12-31" }],
+  SR: [{ code: "SRG", to: "2003-12-31" }],
+  ST: [{ code: "STD", to: "2017-12-31" }],
+  TM: [{ code: "TMM", to: "2008-12-31" }],
+  TR: [{ code: "TRL", to: "2004-12-31" }],
+  VE: [
+    { code: "VEB", to: "2007-12-31" },
+    { code: "VEF", from: "2008-01-01", to: "2018-08-19" },
+  ],
+  ZM: [{ code: "ZMK", to: "2012-12-31" }],
+  ZW: [
+    { code: "ZWD", from: "1980-04-18", to: "2006-07-31" },
+    { code: "ZWN", from: "2006-08-01", to: "2008-07-31" },
+    { code: "ZWR", from: "2008-08-01", to: "2009-02-02" },
+    { code: "USD", from: "2009-02-03", to: "2019-02-21" },
+    { code: "ZWL", from: "2019-02-22", to: "2024-04-04" },
+  ],
+};
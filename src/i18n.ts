@@ -0,0 +1,178 @@
+import { countries } from "./countries";
+import { foldName, getCountryIndexes } from "./indexes";
+import { nameKey } from "./normalize";
+import {
+  Country,
+  CountryCode,
+  CountryMatch,
+  LocaleCode,
+  LocaleData,
+} from "./types";
+
+// ============================================================================
+// LOCALE REGISTRY
+// ============================================================================
+
+const registry = new Map<LocaleCode, LocaleData["names"]>();
+
+/**
+ * Reverse name tables, built on first use per locale and matching mode
+ */
+const reverseIndexes = new Map<string, ReadonlyMap<string, CountryCode>>();
+
+let englishNames: LocaleData["names"] | undefined;
+
+/**
+ * English names come from the dataset itself, so they need no registration.
+ */
+const getEnglishNames = (): LocaleData["names"] => {
+  if (!englishNames) {
+    englishNames = Object.freeze(
+      countries.reduce(
+        (acc, c) => {
+          acc[c.alpha2] = c.name;
+          return acc;
+        },
+        {} as Record<CountryCode, string>,
+      ),
+    );
+  }
+  return englishNames;
+};
+
+/**
+ * Make one or more locale modules available to the localized name functions.
+ * Locale data lives in separate modules so bundles only include the locales they import.
+ *
+ * @example
+ * import { de } from "ts-countries-list/dist/locales/de";
+ * import { ja } from "ts-countries-list/dist/locales/ja";
+ * registerLocale(de, ja);
+ */
+export const registerLocale = (...locales: LocaleData[]): void => {
+  locales.forEach(({ locale, names }) => {
+    registry.set(locale, names);
+    reverseIndexes.delete(`${locale}:strict`);
+    reverseIndexes.delete(`${locale}:normalized`);
+  });
+};
+
+/**
+ * Get the locales that can currently be used, including the built-in English
+ */
+export const getRegisteredLocales = (): LocaleCode[] => {
+  const locales: LocaleCode[] = ["en"];
+  registry.forEach((_, locale) => {
+    if (locale !== "en") locales.push(locale);
+  });
+  return locales;
+};
+
+/**
+ * Get the name table for a locale, or `undefined` if it isn't registered
+ */
+export const getLocaleNames = (
+  locale: LocaleCode,
+): LocaleData["names"] | undefined =>
+  registry.get(locale) ?? (locale === "en" ? getEnglishNames() : undefined);
+
+// ============================================================================
+// LOCALIZED NAMES
+// ============================================================================
+
+/**
+ * Get a country's name in a registered locale.
+ *
+ * @param code - The alpha-2 code of the country
+ * @param locale - The locale to translate to (default "en")
+ * @returns The localized name, or `undefined` if the locale isn't registered
+ *
+ * @example
+ * registerLocale(de);
+ * getCountryName("US", "de"); // "Vereinigte Staaten"
+ * getCountryName("US");       // "United States"
+ */
+export const getCountryName = (
+  code: CountryCode,
+  locale: LocaleCode = "en",
+): string | undefined => getLocaleNames(locale)?.[code];
+
+/**
+ * Get all country names in a registered locale, sorted with that locale's collation.
+ * Returns an empty array if the locale isn't registered.
+ */
+export const getLocalizedCountryNames = (locale: LocaleCode): string[] => {
+  const names = getLocaleNames(locale);
+  if (!names) return [];
+
+  const collator = new Intl.Collator(locale);
+  return countries.map((c) => names[c.alpha2]).sort(collator.compare);
+};
+
+/**
+ * Sort countries by their name in a registered locale, using that locale's collation.
+ * Falls back to the English name for unregistered locales.
+ *
+ * @example
+ * sortCountriesByName(getCountriesByRegion("Europe"), "sv");
+ */
+export const sortCountriesByName = (
+  list: readonly Country[],
+  locale: LocaleCode = "en",
+): Country[] => {
+  const names = getLocaleNames(locale) ?? getEnglishNames();
+  const collator = new Intl.Collator(locale);
+  return [...list].sort((a, b) =>
+    collator.compare(names[a.alpha2], names[b.alpha2]),
+  );
+};
+
+// ============================================================================
+// REVERSE LOOKUP
+// ============================================================================
+
+const getReverseIndex = (
+  locale: LocaleCode,
+  strict: boolean,
+): ReadonlyMap<string, CountryCode> | undefined => {
+  const cacheKey = `${locale}:${strict ? "strict" : "normalized"}`;
+  const cached = reverseIndexes.get(cacheKey);
+  if (cached) return cached;
+
+  const names = getLocaleNames(locale);
+  if (!names) return undefined;
+
+  const fold = strict ? foldName : nameKey;
+  const index = new Map<string, CountryCode>();
+  (Object.keys(names) as CountryCode[]).forEach((code) => {
+    const key = fold(names[code]);
+    if (!index.has(key)) index.set(key, code);
+  });
+  reverseIndexes.set(cacheKey, index);
+  return index;
+};
+
+/**
+ * Find a country by its name in any of the given locales, reporting which locale matched.
+ * Locales that aren't registered are skipped.
+ */
+export const matchByLocalizedName = (
+  name: string,
+  locales: readonly LocaleCode[] = getRegisteredLocales(),
+  strict = false,
+): CountryMatch | undefined => {
+  const key = (strict ? foldName : nameKey)(name);
+  for (const locale of locales) {
+    const code = getReverseIndex(locale, strict)?.get(key);
+    const country = code && getCountryIndexes().alpha2.get(code);
+    if (country) {
+      return {
+        country,
+        field: "localizedName",
+        matched: getLocaleNames(locale)![country.alpha2],
+        locale,
+      };
+    }
+  }
+  return undefined;
+};
@@ -1,67 +1,202 @@
 import { countries } from "./countries";
 import {
+  getBorderDistance,
+  getBorderPath,
+  getConnectedLandmass,
+  getDoublyLandlockedCountries,
+  getLandlockedCountries,
+} from "./borderGraph";
+import { CurrencyConverter, StaticRateProvider } from "./converter";
+import { currencies } from "./currencies";
+import { currencyHistory, historicalCurrencies } from "./historicalCurrencies";
+import {
+  formatCurrencyAmount,
+  getCurrency,
+  getCurrencyAt,
+  getCurrencyByNumeric,
+  getHistoricalCurrency,
+  parseCurrencyAmount,
+} from "./currency";
+import {
+  foldCode,
+  foldName,
+  getCountryIndexes,
+  lookupByCapital,
+  lookupNameField,
+  matchByCode,
+  matchByName,
+} from "./indexes";
+import { fuzzySearchCountries } from "./fuzzy";
+import { maritimeBorders } from "./maritimeBorders";
+import {
+  getCapitalCoordinates,
+  getCountryBounds,
+  getCountriesWithinRadius,
+  getCountryCentroid,
+  getDistanceBetweenCapitals,
+  getDistanceBetweenCountries,
+  getNearestCountries,
+  getNeighbors,
+} from "./geo";
+import { normalizeName } from "./normalize";
+import {
+  getCountryName,
+  getLocalizedCountryNames,
+  getRegisteredLocales,
+  matchByLocalizedName,
+  registerLocale,
+  sortCountriesByName,
+} from "./i18n";
+import {
+  AsYouTypeFormatter,
+  formatPhoneNumber,
+  getCountriesByCallingCode,
+  getCountryByPhoneNumber,
+  parsePhoneNumber,
+  validatePhoneNumber,
+} from "./phone";
+import {
+  formatPostalCode,
+  getPostalCodeFormat,
+  usesPostalCodes,
+  validatePostalCode,
+} from "./postalCode";
+import { postalCodeFormats } from "./postalCodes";
+import {
+  getCountriesByTimezone,
+  getCountriesByUtcOffset,
+  getCountryByTimezone,
+  getCurrentUtcOffsets,
+  getTimezonesByCountry,
+} from "./timezone";
+import { timezoneLinks } from "./timezones";
+import {
+  BoundingBox,
   Continents,
+  Coordinates,
   Country,
+  CountryAlias,
   CountryAlpha3,
   Capitals,
   CountryCode,
   CountryCodeNumeric,
   CountryFields,
+  CountryMatch,
+  CountryMatchField,
   CountryName,
   CountryRegion,
   CountrySubRegion,
+  CountryTimezone,
+  CountryCurrency,
   Currency,
   CurrencyCode,
+  CurrencyConverterOptions,
+  CurrencyDisplay,
+  CurrencyFormatOptions,
+  CurrencyInfo,
+  CurrencyMatchOptions,
+  CurrencyNumeric,
+  CurrencyParseOptions,
+  CurrencyPeriod,
+  CurrencyStatus,
+  CurrencyValidationOptions,
+  DistanceUnit,
+  FuzzyMatchField,
+  FuzzySearchOptions,
+  FuzzySearchResult,
+  HistoricalCurrencyCode,
+  HistoricalCurrencyInfo,
+  IsoCurrencyCode,
   Language,
+  LinearRing,
+  LocaleCode,
+  LocaleData,
+  LooseString,
+  NameMatchOptions,
+  NeighborOptions,
+  ParsedCurrencyAmount,
+  ParsedPhoneNumber,
   PhoneCountryCode,
+  PhoneNumberFormat,
+  PhoneValidationError,
+  PhoneValidationResult,
+  Polygon,
+  PostalCodeFormat,
+  RateProvider,
+  RateSnapshot,
+  RateTable,
   regionSubregionMap,
+  ResolveOptions,
+  Subdivision,
+  SubdivisionCode,
+  SubdivisionsOf,
   SubregionsOf,
+  supportedLocales,
+  TimezoneId,
+  TimezoneMatchOptions,
 } from "./types";
 
 // ============================================================================
 // LOOKUP FUNCTIONS (Single Country)
 // ============================================================================
 
-export const getCountryByName = (name: CountryName): Country | undefined =>
-  countries.find((c) => c.name === name);
+/**
+ * Get a country by its name or one of its aliases (common names, former names, abbreviations).
+ * Ignores case, diacritics and punctuation unless `options.strict` is set.
+ *
+ * @example
+ * getCountryByName("sao tome & principe"); // Sao Tome and Principe
+ * getCountryByName("Burma");               // Myanmar (alias)
+ * getCountryByName("Saint Lucia", { strict: true });
+ */
+export const getCountryByName = (
+  name: LooseString<CountryName | CountryAlias>,
+  options: NameMatchOptions = {},
+): Country | undefined =>
+  lookupNameField("name", name, options.strict) ??
+  lookupNameField("alias", name, options.strict);
 
 export const getCountryByAlpha2 = (code: CountryCode): Country | undefined =>
-  countries.find((c) => c.alpha2 === code);
+  getCountryIndexes().alpha2.get(foldCode(code));
 
 export const getCountryByAlpha3 = (code: CountryAlpha3): Country | undefined =>
-  countries.find((c) => c.alpha3 === code);
+  getCountryIndexes().alpha3.get(foldCode(code));
 
 /**
  * Search for a country by any code (alpha2, alpha3, or numeric)
  */
 export const getCountryByCode = (
   code: CountryCode | CountryAlpha3 | CountryCodeNumeric,
-): Country | undefined => {
-  const upperCode = code.toUpperCase();
-  return countries.find(
-    (c) =>
-      c.alpha2 === upperCode || c.alpha3 === upperCode || c.numeric === code,
-  );
-};
+): Country | undefined => matchByCode(code)?.country;
 
 /**
- * Search for countries by name (case-insensitive, partial match)
+ * Search for countries by name (partial match).
+ * Ignores case, diacritics and punctuation unless `options.strict` is set.
  */
-export const searchCountriesByName = (query: CountryName): Country[] => {
-  const lowerQuery = query.toLowerCase();
+export const searchCountriesByName = (
+  query: LooseString<CountryName>,
+  options: NameMatchOptions = {},
+): Country[] => {
+  const fold = options.strict ? foldName : normalizeName;
+  const foldedQuery = fold(query);
   return countries.filter(
     (c) =>
-      c.name.toLowerCase().includes(lowerQuery) ||
-      c.officialName?.toLowerCase().includes(lowerQuery) ||
-      c.nativeName?.toLowerCase().includes(lowerQuery),
+      fold(c.name).includes(foldedQuery) ||
+      fold(c.officialName).includes(foldedQuery) ||
+      fold(c.nativeName).includes(foldedQuery) ||
+      (c.aliases as readonly string[]).some((a) =>
+        fold(a).includes(foldedQuery),
+      ),
   );
 };
 
 /**
- * Search for a country by a single identifier — accepts a country name, alpha-2 code, alpha-3 code, or numeric code.
- * Matching is case-insensitive; name lookups also check `officialName` and `nativeName`.
+ * Search for a country by a single identifier — accepts a country name, alias, alpha-2 code, alpha-3 code, or numeric code.
+ * Matching is case-insensitive; name lookups also check `officialName`, `nativeName`, `aliases`
+ * and the names of registered locales, and ignore diacritics and punctuation unless `options.strict` is set.
  *
  * @param identifier - The country name, alpha-2 code, alpha-3 code, or numeric code
+ * @param options - Name matching options and locales to search
  * @returns The matched country, or `undefined` if no match is found
  *
  * @example
@@ -69,45 +204,93 @@ export const searchCountriesByName = (query: CountryName): Country[] => {
  * searchCountryByCodeOrName("USA");             // United States (alpha-3)
  * searchCountryByCodeOrName("840");             // United States (numeric)
  * searchCountryByCodeOrName("United States");   // United States (name)
+ * searchCountryByCodeOrName("bosnia & herzegovina"); // Bosnia and Herzegovina (normalised name)
+ * searchCountryByCodeOrName("Holland");         // Netherlands (alias)
  */
 export const searchCountryByCodeOrName = (
   identifier: string,
-): Country | undefined => {
-  const lower = identifier.toLowerCase();
-  const upper = identifier.toUpperCase();
+  options: ResolveOptions = {},
+): Country | undefined => resolveCountry(identifier, options)?.country;
+
+/**
+ * Resolve free-text input to a country like `searchCountryByCodeOrName`,
+ * also reporting which identifier (and locale) matched.
+ * Codes and English names win over localized names; locales are tried in the order given.
+ *
+ * @param input - A code, name, official name, native name, alias or localized name
+ * @param options - Name matching options and locales to search (default all registered)
+ * @returns The country with the matched field and stored value, or `undefined`
+ *
+ * @example
+ * resolveCountry("UK");     // { country: United Kingdom, field: "alias", matched: "UK" }
+ * resolveCountry("DEU");    // { country: Germany, field: "alpha3", matched: "DEU" }
+ *
+ * registerLocale(fr, ja);
+ * resolveCountry("Allemagne"); // { country: Germany, field: "localizedName", matched: "Allemagne", locale: "fr" }
+ * resolveCountry("ドイツ", { locales: ["ja"] });
+ */
+export const resolveCountry = (
+  input: string,
+  options: ResolveOptions = {},
+): CountryMatch | undefined =>
+  matchByCode(input) ??
+  matchByName(input, options.strict) ??
+  matchByLocalizedName(input, options.locales, options.strict);
 
-  return countries.find(
-    (c) =>
-      c.alpha2 === upper ||
-      c.alpha3 === upper ||
-      c.numeric === identifier ||
-      c.name.toLowerCase() === lower ||
-      c.officialName?.toLowerCase() === lower ||
-      c.nativeName?.toLowerCase() === lower,
-  );
-};
 /**
- * Get country by phone code
+ * Get countries by phone code. Accepts a calling code with or without "+";
+ * "1" returns every NANP country while "1-268" returns only Antigua and Barbuda.
  */
 export const getCountriesByPhoneCode = (
-  phoneCode: PhoneCountryCode,
-): Country[] => {
-  const normalized = phoneCode.startsWith("+") ? phoneCode : `+${phoneCode}`;
-  return countries.filter((c) => c.phoneCode === normalized);
-};
+  phoneCode: LooseString<PhoneCountryCode>,
+): Country[] => getCountriesByCallingCode(phoneCode);
 
 /**
- * Get country by capital city
+ * Get country by capital city.
+ * Ignores case, diacritics and punctuation unless `options.strict` is set,
+ * so "Brasilia" finds Brazil and "St Georges" finds Grenada.
  */
-export const getCountryByCapital = (capital: Capitals): Country | undefined =>
-  countries.find((c) => c.capital?.toLowerCase() === capital.toLowerCase());
+export const getCountryByCapital = (
+  capital: LooseString<Capitals>,
+  options: NameMatchOptions = {},
+): Country | undefined => lookupByCapital(capital, options.strict);
 
 // ============================================================================
 // FILTER FUNCTIONS (Multiple Countries)
 // ============================================================================
 
-export const getCountriesByCurrency = (code: CurrencyCode): Country[] =>
-  countries.filter((c) => c.currency?.code === code);
+/**
+ * Get the codes of a country's currencies that count under the given options
+ */
+const getCurrencyCodes = (
+  country: Country,
+  options: CurrencyMatchOptions = {},
+): CurrencyCode[] =>
+  (country.currencies as readonly CountryCurrency[])
+    .filter((currency) =>
+      options.primaryOnly
+        ? currency.primary
+        : currency.status === "legal_tender" || options.includeWidelyAccepted,
+    )
+    .map((currency) => currency.code);
+
+/**
+ * Get all countries that use a currency. Matches any legal-tender currency by
+ * default, so "USD" includes dollarised economies such as Ecuador and Panama.
+ *
+ * @param code - The ISO 4217 currency code
+ * @param options - Restrict to primary currencies or include widely accepted ones
+ *
+ * @example
+ * getCountriesByCurrency("USD");                                  // US, EC, SV, PA, ...
+ * getCountriesByCurrency("USD", { primaryOnly: true });           // US, EC, SV, ...
+ * getCountriesByCurrency("USD", { includeWidelyAccepted: true }); // ... KH, LB, ...
+ */
+export const getCountriesByCurrency = (
+  code: CurrencyCode,
+  options: CurrencyMatchOptions = {},
+): Country[] =>
+  countries.filter((c) => getCurrencyCodes(c, options).includes(code));
 
 export const getCountriesByContinent = (continents: Continents[]): Country[] =>
   countries.filter((c) => continents.includes(c.continent));
@@ -145,7 +328,8 @@ export const getCountriesByMultipleFilters = (filters: {
       !(c.languages as readonly Language[]).includes(filters.language)
     )
       return false;
-    if (filters.currency && c.currency?.code !== filters.currency) return false;
+    if (filters.currency && !getCurrencyCodes(c).includes(filters.currency))
+      return false;
     if (filters.phoneCode && c.phoneCode !== filters.phoneCode) return false;
     return true;
   });
@@ -178,7 +362,7 @@ export const getCountriesByFields = <F extends CountryFields>(
         !(c.languages as readonly Language[]).includes(filters.language)
       )
         return false;
-      if (filters.currency && c.currency?.code !== filters.currency)
+      if (filters.currency && !getCurrencyCodes(c).includes(filters.currency))
         return false;
       return true;
     })
@@ -209,18 +393,22 @@ export const getAllContinents = (): Continents[] =>
   Array.from(new Set(countries.map((c) => c.continent)));
 
 /**
- * Get all unique currencies used across all countries.
+ * Get all unique currencies used across all countries, including secondary
+ * and widely accepted ones.
  * Uses Map for deduplication by currency code (more efficient than JSON stringify/parse).
  */
 export const getAllCurrencies = (): Currency[] => {
   const currencyMap = new Map<CurrencyCode, Currency>();
 
   countries.forEach((country) => {
-    const { currency } = country;
-    // Use currency code as unique key - avoids stringify/parse overhead
-    if (!currencyMap.has(currency.code)) {
-      currencyMap.set(currency.code, currency);
-    }
+    (country.currencies as readonly CountryCurrency[]).forEach(
+      ({ code, name, symbol }) => {
+        // Use currency code as unique key - avoids stringify/parse overhead
+        if (!currencyMap.has(code)) {
+          currencyMap.set(code, { code, name, symbol } as Currency);
+        }
+      },
+    );
   });
 
   return Array.from(currencyMap.values());
@@ -231,8 +419,22 @@ export const getAllLanguages = (): Language[] =>
     new Set(countries.flatMap((c) => c.languages as readonly Language[])),
   );
 
-export const getCountryNames = (): CountryName[] =>
-  countries.map((c) => c.name);
+/**
+ * Get all country names. Without a locale, returns the English names in dataset order;
+ * with a registered locale, returns the localized names sorted for that locale.
+ *
+ * @example
+ * getCountryNames();     // ["United States", "Canada", ...]
+ * registerLocale(es);
+ * getCountryNames("es"); // ["Afganistán", "Albania", "Alemania", ...]
+ */
+export function getCountryNames(): CountryName[];
+export function getCountryNames(locale: LocaleCode): string[];
+export function getCountryNames(locale?: LocaleCode): string[] {
+  return locale
+    ? getLocalizedCountryNames(locale)
+    : countries.map((c) => c.name);
+}
 
 export const getCountryAlpha2Codes = (): CountryCode[] =>
   countries.map((c) => c.alpha2);
@@ -278,16 +480,19 @@ export const getCountriesGroupedByRegion = (): Record<
     {} as Record<CountryRegion, Country[]>,
   );
 
-export const getCountriesGroupedByCurrency = (): Record<
-  CurrencyCode,
-  Country[]
-> =>
+/**
+ * Group countries by currency. A country appears under each of its
+ * legal-tender currencies unless `options` narrows or widens the match.
+ */
+export const getCountriesGroupedByCurrency = (
+  options: CurrencyMatchOptions = {},
+): Record<CurrencyCode, Country[]> =>
   countries.reduce(
     (acc, c) => {
-      if (c.currency?.code) {
-        if (!acc[c.currency.code]) acc[c.currency.code] = [];
-        acc[c.currency.code].push(c);
-      }
+      getCurrencyCodes(c, options).forEach((code) => {
+        if (!acc[code]) acc[code] = [];
+        acc[code].push(c);
+      });
       return acc;
     },
     {} as Record<CurrencyCode, Country[]>,
@@ -347,10 +552,21 @@ export const isValidCountryCode = (code: string): boolean => {
 };
 
 /**
- * Check if a currency code is valid
+ * Check if a currency code is used by any country, as a primary, secondary
+ * or widely accepted currency. With `includeHistorical`, withdrawn currencies
+ * such as DEM, FRF or VEF are valid too.
  */
-export const isValidCurrencyCode = (code: string): boolean =>
-  countries.some((c) => c.currency?.code === code);
+export const isValidCurrencyCode = (
+  code: string,
+  options: CurrencyValidationOptions = {},
+): boolean =>
+  countries.some((c) =>
+    (c.currencies as readonly CountryCurrency[]).some(
+      (cur) => cur.code === code,
+    ),
+  ) ||
+  (!!options.includeHistorical &&
+    historicalCurrencies.some((cur) => cur.code === code));
 
 /**
  * Check if a language is spoken in any country
@@ -365,7 +581,9 @@ export const isValidLanguage = (language: string): boolean =>
 // ============================================================================
 
 /**
- * Get neighboring countries (those sharing the same subregion)
+ * Guess neighboring countries as those sharing the same subregion.
+ * `getNeighbors` returns actual land and maritime neighbours; this remains
+ * as a fallback for a broader "nearby countries" list.
  */
 export const getPotentialNeighbors = (countryCode: CountryCode): Country[] => {
   const country = getCountryByAlpha2(countryCode);
@@ -386,9 +604,12 @@ export const compareCountries = (
   country1: Country | undefined;
   country2: Country | undefined;
   sameCurrency: boolean;
+  sharedCurrencies: CurrencyCode[];
   sameRegion: boolean;
   sameContinent: boolean;
   sharedLanguages: Language[];
+  bordering: boolean;
+  capitalDistanceKm: number | undefined;
 } => {
   const c1 = getCountryByAlpha2(code1);
   const c2 = getCountryByAlpha2(code2);
@@ -400,63 +621,77 @@ export const compareCountries = (
         )
       : [];
 
+  const sharedCurrencies =
+    c1 && c2
+      ? getCurrencyCodes(c1).filter((code) =>
+          getCurrencyCodes(c2).includes(code),
+        )
+      : [];
+
   return {
     country1: c1,
     country2: c2,
-    sameCurrency: c1?.currency?.code === c2?.currency?.code,
+    sameCurrency: c1?.currency.code === c2?.currency.code,
+    sharedCurrencies,
     sameRegion: c1?.region === c2?.region,
     sameContinent: c1?.continent === c2?.continent,
     sharedLanguages,
+    bordering:
+      !!c1 &&
+      !!c2 &&
+      (c1.borders as readonly CountryAlpha3[]).includes(c2.alpha3),
+    capitalDistanceKm: getDistanceBetweenCapitals(code1, code2),
   };
 };
 /**
- * Get the region of a country by any identifier (name, alpha2, alpha3, or numeric code)
+ * Get the region of a country by any identifier `searchCountryByCodeOrName`
+ * accepts: an alpha-2, alpha-3 or numeric code, a name, official name, native
+ * name or alias, or a name in any registered locale.
+ *
+ * @example
+ * getCountryRegion("Holland"); // "Europe"
+ * getCountryRegion("076");     // "Americas"
  */
 export const getCountryRegion = (
   identifier: string,
-): CountryRegion | undefined => {
-  const lowerCaseIdentifier = identifier.toLowerCase();
-  const country = countries.find(
-    (c) =>
-      c.name.toLowerCase() === lowerCaseIdentifier ||
-      c.officialName?.toLowerCase() === lowerCaseIdentifier ||
-      c.alpha2.toLowerCase() === lowerCaseIdentifier ||
-      c.alpha3.toLowerCase() === lowerCaseIdentifier,
-  );
-  return country?.region;
-};
+  options: NameMatchOptions = {},
+): CountryRegion | undefined =>
+  searchCountryByCodeOrName(identifier, options)?.region;
 
 /**
- * Get the continent of a country by any identifier (name, official name, alpha2, or alpha3 code).
+ * Get the continent of a country by any identifier `searchCountryByCodeOrName`
+ * accepts: an alpha-2, alpha-3 or numeric code, a name, official name, native
+ * name or alias, or a name in any registered locale.
  *
- * @param identifier - The country name, official name, alpha-2 code, or alpha-3 code (case-insensitive)
+ * @param identifier - A code, name, official name, native name, alias or registered localized name (case-insensitive)
+ * @param options - Name matching options
  * @returns The continent of the matched country, or `undefined` if no match is found
  *
  * @example
  * getCountryContinent("Brazil");    // "South America"
  * getCountryContinent("BR");        // "South America"
  * getCountryContinent("BRA");       // "South America"
+ * getCountryContinent("076");       // "South America"
+ * getCountryContinent("Brasil");    // "South America" (native name)
  * getCountryContinent("unknown");   // undefined
  */
 export const getCountryContinent = (
   identifier: string,
-): Continents | undefined => {
-  const lowerCaseIdentifier = identifier.toLowerCase();
-  const country = countries.find(
-    (c) =>
-      c.name.toLowerCase() === lowerCaseIdentifier ||
-      c.officialName?.toLowerCase() === lowerCaseIdentifier ||
-      c.alpha2.toLowerCase() === lowerCaseIdentifier ||
-      c.alpha3.toLowerCase() === lowerCaseIdentifier,
-  );
-  return country?.continent;
-};
+  options: NameMatchOptions = {},
+): Continents | undefined =>
+  searchCountryByCodeOrName(identifier, options)?.continent;
 // ============================================================================
 // EXPORT ALL TYPES
 // ============================================================================
 
 export type {
   Country,
+  Coordinates,
+  BoundingBox,
+  DistanceUnit,
+  NeighborOptions,
+  LinearRing,
+  Polygon,
   CountryName,
   CountryRegion,
   Continents,
@@ -466,11 +701,101 @@ export type {
   CountryCodeNumeric,
   Currency,
   CurrencyCode,
+  CountryCurrency,
+  CurrencyStatus,
+  CurrencyMatchOptions,
+  CurrencyInfo,
+  CurrencyNumeric,
+  IsoCurrencyCode,
+  CurrencyDisplay,
+  CurrencyFormatOptions,
+  CurrencyParseOptions,
+  ParsedCurrencyAmount,
+  CurrencyConverterOptions,
+  CurrencyPeriod,
+  CurrencyValidationOptions,
+  HistoricalCurrencyCode,
+  HistoricalCurrencyInfo,
   CountrySubRegion,
   CountryFields,
+  CountryAlias,
+  CountryTimezone,
+  TimezoneId,
+  TimezoneMatchOptions,
+  CountryMatch,
+  CountryMatchField,
   PhoneCountryCode,
   Language,
   SubregionsOf,
+  Subdivision,
+  SubdivisionCode,
+  SubdivisionsOf,
+  LooseString,
+  NameMatchOptions,
+  ResolveOptions,
+  FuzzyMatchField,
+  FuzzySearchOptions,
+  FuzzySearchResult,
+  LocaleCode,
+  LocaleData,
+  ParsedPhoneNumber,
+  PhoneNumberFormat,
+  PhoneValidationError,
+  PhoneValidationResult,
+  PostalCodeFormat,
+  RateProvider,
+  RateSnapshot,
+  RateTable,
 };
 
-export { countries, regionSubregionMap };
+export {
+  countries,
+  currencies,
+  historicalCurrencies,
+  currencyHistory,
+  regionSubregionMap,
+  supportedLocales,
+  fuzzySearchCountries,
+  registerLocale,
+  getRegisteredLocales,
+  getCountryName,
+  sortCountriesByName,
+  validatePhoneNumber,
+  formatPhoneNumber,
+  AsYouTypeFormatter,
+  parsePhoneNumber,
+  getCountryByPhoneNumber,
+  getCurrency,
+  getCurrencyByNumeric,
+  getHistoricalCurrency,
+  getCurrencyAt,
+  formatCurrencyAmount,
+  parseCurrencyAmount,
+  CurrencyConverter,
+  StaticRateProvider,
+  getCountryCentroid,
+  getCountryBounds,
+  getCapitalCoordinates,
+  getNeighbors,
+  maritimeBorders,
+  getBorderPath,
+  getBorderDistance,
+  getLandlockedCountries,
+  getDoublyLandlockedCountries,
+  getConnectedLandmass,
+  getDistanceBetweenCapitals,
+  getDistanceBetweenCountries,
+  getCountriesWithinRadius,
+  getNearestCountries,
+  timezoneLinks,
+  getTimezonesByCountry,
+  getCountriesByTimezone,
+  getCountryByTimezone,
+  getCurrentUtcOffsets,
+  getCountriesByUtcOffset,
+  postalCodeFormats,
+  getPostalCodeFormat,
+  usesPostalCodes,
+  validatePostalCode,
+  formatPostalCode,
+};
@@ -0,0 +1,156 @@
+import { countries } from "./countries";
+import { nameKey } from "./normalize";
+import { Country, CountryMatch } from "./types";
+
+// ============================================================================
+// LOOKUP INDEXES
+// ============================================================================
+
+/**
+ * Lookup tables for the name-like fields of a country
+ */
+export interface NameIndexes {
+  readonly name: ReadonlyMap<string, Country>;
+  readonly officialName: ReadonlyMap<string, Country>;
+  readonly nativeName: ReadonlyMap<string, Country>;
+  readonly capital: ReadonlyMap<string, Country>;
+  readonly alias: ReadonlyMap<string, Country>;
+}
+
+/**
+ * Precomputed lookup tables used by the single-country getters.
+ * Code keys are upper-cased and name keys are lower-cased; `normalized`
+ * holds the same name tables keyed by `nameKey`.
+ */
+export interface CountryIndexes extends NameIndexes {
+  readonly alpha2: ReadonlyMap<string, Country>;
+  readonly alpha3: ReadonlyMap<string, Country>;
+  readonly numeric: ReadonlyMap<string, Country>;
+  readonly normalized: NameIndexes;
+}
+
+export const foldCode = (code: string): string => code.toUpperCase();
+
+export const foldName = (name: string): string => name.toLowerCase();
+
+/**
+ * Build a map from `key(country)` to country. The first country wins on
+ * duplicate keys so results match the previous `countries.find` behaviour.
+ */
+const buildIndex = (
+  key: (c: Country) => string | readonly string[] | undefined,
+): ReadonlyMap<string, Country> => {
+  const index = new Map<string, Country>();
+  countries.forEach((c) => {
+    const k = key(c);
+    const keys: readonly string[] = typeof k === "string" ? [k] : (k ?? []);
+    keys.forEach((each) => {
+      if (each && !index.has(each)) index.set(each, c);
+    });
+  });
+  return index;
+};
+
+const buildNameIndexes = (fold: (name: string) => string): NameIndexes =>
+  Object.freeze({
+    name: buildIndex((c) => fold(c.name)),
+    officialName: buildIndex((c) => c.officialName && fold(c.officialName)),
+    nativeName: buildIndex((c) => c.nativeName && fold(c.nativeName)),
+    capital: buildIndex((c) => c.capital && fold(c.capital)),
+    alias: buildIndex((c) => c.aliases.map(fold)),
+  });
+
+let indexes: CountryIndexes | undefined;
+
+/**
+ * Get the lookup indexes, building them on first use.
+ */
+export const getCountryIndexes = (): CountryIndexes => {
+  if (!indexes) {
+    indexes = Object.freeze({
+      alpha2: buildIndex((c) => foldCode(c.alpha2)),
+      alpha3: buildIndex((c) => foldCode(c.alpha3)),
+      numeric: buildIndex((c) => c.numeric),
+      ...buildNameIndexes(foldName),
+      normalized: buildNameIndexes(nameKey),
+    });
+  }
+  return indexes;
+};
+
+/**
+ * Look up a name-like field. The case-folded table is tried first so exact
+ * input skips the much slower `nameKey` normalisation; the normalised table
+ * is only consulted on a miss, and never when `strict` is set.
+ */
+export const lookupNameField = (
+  field: keyof NameIndexes,
+  name: string,
+  strict = false,
+): Country | undefined => {
+  const idx = getCountryIndexes();
+  const country = idx[field].get(foldName(name));
+  if (country || strict) return country;
+  return idx.normalized[field].get(nameKey(name));
+};
+
+const CODE_FIELDS = ["alpha2", "alpha3", "numeric"] as const;
+const NAME_FIELDS = ["name", "officialName", "nativeName", "alias"] as const;
+
+/**
+ * Find a country by alpha-2, alpha-3 or numeric code.
+ */
+export const matchByCode = (code: string): CountryMatch | undefined => {
+  const idx = getCountryIndexes();
+  const folded = foldCode(code);
+  for (const field of CODE_FIELDS) {
+    const country = idx[field].get(field === "numeric" ? code : folded);
+    if (country) return { country, field, matched: country[field] };
+  }
+  return undefined;
+};
+
+/**
+ * Find a country in one set of name tables, reporting which field matched
+ */
+const findByName = (
+  tables: NameIndexes,
+  fold: (name: string) => string,
+  name: string,
+): CountryMatch | undefined => {
+  const key = fold(name);
+  for (const field of NAME_FIELDS) {
+    const country = tables[field].get(key);
+    if (!country) continue;
+    const matched =
+      field === "alias"
+        ? (country.aliases as readonly string[]).find((a) => fold(a) === key)
+        : country[field];
+    return { country, field, matched: matched ?? name };
+  }
+  return undefined;
+};
+
+/**
+ * Find a country by its name, official name, native name or one of its
+ * aliases, reporting which one matched. Exact (case-insensitive) matches are
+ * tried before normalised ones, as in `lookupNameField`.
+ */
+export const matchByName = (
+  name: string,
+  strict = false,
+): CountryMatch | undefined => {
+  const idx = getCountryIndexes();
+  return (
+    findByName(idx, foldName, name) ??
+    (strict ? undefined : findByName(idx.normalized, nameKey, name))
+  );
+};
+
+/**
+ * Find a country by its capital city.
+ */
+export const lookupByCapital = (
+  capital: string,
+  strict = false,
+): Country | undefined => lookupNameField("capital", capital, strict);
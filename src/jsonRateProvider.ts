@@ -0,0 +1,58 @@
+import { readFileSync } from "fs";
+import { StaticRateProvider } from "./converter";
+import { getCurrency } from "./currency";
+import { CurrencyCode, RateSnapshot, RateTable } from "./types";
+
+// ============================================================================
+// JSON FILE RATE PROVIDER
+// ============================================================================
+
+/**
+ * Check a parsed snapshot, dropping rates for unknown currencies and
+ * rates that aren't positive numbers. Codes are stored in their canonical
+ * upper case, so "eur" in the file is looked up as "EUR".
+ */
+const toSnapshot = (data: unknown, path: string): RateSnapshot => {
+  const { base, date, rates } = (data ?? {}) as Record<string, unknown>;
+  const baseCurrency = typeof base === "string" ? getCurrency(base) : undefined;
+  if (!baseCurrency) {
+    throw new Error(`${path}: "base" must be an ISO 4217 currency code`);
+  }
+  if (!rates || typeof rates !== "object") {
+    throw new Error(`${path}: "rates" must be an object`);
+  }
+
+  const table: RateTable = {};
+  Object.keys(rates).forEach((code) => {
+    const rate = (rates as Record<string, unknown>)[code];
+    const currency = getCurrency(code);
+    if (currency && typeof rate === "number" && rate > 0) {
+      table[currency.code as CurrencyCode] = rate;
+    }
+  });
+  return {
+    base: baseCurrency.code as CurrencyCode,
+    date: typeof date === "string" ? date : undefined,
+    rates: table,
+  };
+};
+
+/**
+ * Rate provider that reads an offline snapshot from a JSON file shaped like
+ * `{ "base": "EUR", "date": "2024-06-28", "rates": { "USD": 1.0705, ... } }`.
+ * Node-only, so it is imported from its own module to keep `fs` out of browser bundles.
+ *
+ * @example
+ * import { JsonFileRateProvider } from "ts-countries-list/dist/jsonRateProvider";
+ * const converter = new CurrencyConverter(new JsonFileRateProvider("./rates.json"));
+ */
+export class JsonFileRateProvider extends StaticRateProvider {
+  /** When the snapshot's rates were taken, if the file says */
+  readonly date: string | undefined;
+
+  constructor(readonly path: string) {
+    const snapshot = toSnapshot(JSON.parse(readFileSync(path, "utf8")), path);
+    super(snapshot.base, snapshot.rates);
+    this.date = snapshot.date;
+  }
+}
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Arabic (ar), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const ar: LocaleData = {
+  locale: "ar",
+  names: {
+    US: "الولايات المتحدة",
+    CA: "كندا",
+    BR: "البرازيل",
+    GB: "المملكة المتحدة",
+    DE: "ألمانيا",
+    FR: "فرنسا",
+    CN: "الصين",
+    JP: "اليابان",
+    IN: "الهند",
+    AU: "أستراليا",
+    ZA: "جنوب أفريقيا",
+    NG: "نيجيريا",
+    MX: "المكسيك",
+    RU: "روسيا",
+    SA: "المملكة العربية السعودية",
+    AF: "أفغانستان",
+    AL: "ألبانيا",
+    DZ: "الجزائر",
+    AD: "أندورا",
+    AO: "أنغولا",
+    AG: "أنتيغوا وبربودا",
+    AR: "الأرجنتين",
+    AM: "أرمينيا",
+    AT: "النمسا",
+    AZ: "أذربيجان",
+    BS: "جزر البهاما",
+    BH: "البحرين",
+    BD: "بنغلاديش",
+    BB: "بربادوس",
+    BY: "بيلاروس",
+    BE: "بلجيكا",
+    BZ: "بليز",
+    BJ: "بنين",
+    BT: "بوتان",
+    BO: "بوليفيا",
+    BA: "البوسنة والهرسك",
+    BW: "بوتسوانا",
+    BN: "بروناي",
+    BG: "بلغاريا",
+    BF: "بوركينا فاسو",
+    BI: "بوروندي",
+    CV: "الرأس الأخضر",
+    KH: "كمبوديا",
+    CM: "الكاميرون",
+    CF: "جمهورية أفريقيا الوسطى",
+    TD: "تشاد",
+    CL: "تشيلي",
+    CO: "كولومبيا",
+    KM: "جزر القمر",
+    CG: "الكونغو - برازافيل",
+    CD: "الكونغو - كينشاسا",
+    CR: "كوستاريكا",
+    CI: "ساحل العاج",
+    HR: "كرواتيا",
+    CU: "كوبا",
+    CY: "قبرص",
+    CZ: "التشيك",
+    DK: "الدانمرك",
+    DJ: "جيبوتي",
+    DM: "دومينيكا",
+    DO: "جمهورية الدومينيكان",
+    EC: "الإكوادور",
+    EG: "مصر",
+    SV: "السلفادور",
+    GQ: "غينيا الاستوائية",
+    ER: "إريتريا",
+    EE: "إستونيا",
+    SZ: "إسواتيني",
+    ET: "إثيوبيا",
+    FJ: "فيجي",
+    FI: "فنلندا",
+    GA: "الغابون",
+    GM: "غامبيا",
+    GE: "جورجيا",
+    GH: "غانا",
+    GR: "اليونان",
+    GD: "غرينادا",
+    GT: "غواتيمالا",
+    GN: "غينيا",
+    GW: "غينيا بيساو",
+    GY: "غيانا",
+    HT: "هايتي",
+    HN: "هندوراس",
+    HU: "هنغاريا",
+    IS: "آيسلندا",
+    ID: "إندونيسيا",
+    IR: "إيران",
+    IQ: "العراق",
+    IE: "أيرلندا",
+    IL: "إسرائيل",
+    IT: "إيطاليا",
+    JM: "جامايكا",
+    JO: "الأردن",
+    KZ: "كازاخستان",
+    KE: "كينيا",
+    KI: "كيريباتي",
+    KW: "الكويت",
+    KG: "قيرغيزستان",
+    LA: "لاوس",
+    LV: "لاتفيا",
+    LB: "لبنان",
+    LS: "ليسوتو",
+    LR: "ليبيريا",
+    LY: "ليبيا",
+    LI: "ليختنشتاين",
+    LT: "ليتوانيا",
+    LU: "لوكسمبورغ",
+    MG: "مدغشقر",
+    MW: "ملاوي",
+    MY: "ماليزيا",
+    MV: "جزر المالديف",
+    ML: "مالي",
+    MT: "مالطا",
+    MH: "جزر مارشال",
+    MR: "موريتانيا",
+    MU: "موريشيوس",
+    FM: "ميكرونيزيا",
+    MD: "مولدوفا",
+    MC: "موناكو",
+    MN: "منغوليا",
+    ME: "الجبل الأسود",
+    MA: "المغرب",
+    MZ: "موزمبيق",
+    MM: "ميانمار (بورما)",
+    NA: "ناميبيا",
+    NR: "ناورو",
+    NP: "نيبال",
+    NL: "هولندا",
+    NZ: "نيوزيلندا",
+    NI: "نيكاراغوا",
+    NE: "النيجر",
+    KP: "كوريا الشمالية",
+    MK: "مقدونيا الشمالية",
+    NO: "النرويج",
+    OM: "عُمان",
+    PK: "باكستان",
+    PW: "بالاو",
+    PA: "بنما",
+    PG: "بابوا غينيا الجديدة",
+    PY: "باراغواي",
+    PE: "بيرو",
+    PH: "الفلبين",
+    PL: "بولندا",
+    PT: "البرتغال",
+    QA: "قطر",
+    RO: "رومانيا",
+    RW: "رواندا",
+    KN: "سانت كيتس ونيفيس",
+    LC: "سانت لوسيا",
+    VC: "سانت فنسنت وجزر غرينادين",
+    WS: "ساموا",
+    SM: "سان مارينو",
+    ST: "ساو تومي وبرينسيبي",
+    SN: "السنغال",
+    RS: "صربيا",
+    SC: "سيشل",
+    SL: "سيراليون",
+    SG: "سنغافورة",
+    SK: "سلوفاكيا",
+    SI: "سلوفينيا",
+    SB: "جزر سليمان",
+    SO: "الصومال",
+    KR: "كوريا الجنوبية",
+    SS: "جنوب السودان",
+    ES: "إسبانيا",
+    LK: "سريلانكا",
+    SD: "السودان",
+    SR: "سورينام",
+    SE: "السويد",
+    CH: "سويسرا",
+    SY: "سوريا",
+    TJ: "طاجيكستان",
+    TZ: "تنزانيا",
+    TH: "تايلاند",
+    TG: "توغو",
+    TO: "تونغا",
+    TT: "ترينيداد وتوباغو",
+    TN: "تونس",
+    TR: "تركيا",
+    TM: "تركمانستان",
+    TV: "توفالو",
+    UG: "أوغندا",
+    UA: "أوكرانيا",
+    AE: "الإمارات العربية المتحدة",
+    UY: "أورغواي",
+    UZ: "أوزبكستان",
+    VU: "فانواتو",
+    VE: "فنزويلا",
+    VN: "فيتنام",
+    YE: "اليمن",
+    ZM: "زامبيا",
+    ZW: "زيمبابوي",
+    TL: "تيمور - ليشتي",
+  },
+};
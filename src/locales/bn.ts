@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Bangla (bn), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const bn: LocaleData = {
+  locale: "bn",
+  names: {
+    US: "মার্কিন যুক্তরাষ্ট্র",
+    CA: "কানাডা",
+    BR: "ব্রাজিল",
+    GB: "যুক্তরাজ্য",
+    DE: "জার্মানি",
+    FR: "ফ্রান্স",
+    CN: "চীন",
+    JP: "জাপান",
+    IN: "ভারত",
+    AU: "অস্ট্রেলিয়া",
+    ZA: "দক্ষিণ আফ্রিকা",
+    NG: "নাইজেরিয়া",
+    MX: "মেক্সিকো",
+    RU: "রাশিয়া",
+    SA: "সৌদি আরব",
+    AF: "আফগানিস্তান",
+    AL: "আলবেনিয়া",
+    DZ: "আলজেরিয়া",
+    AD: "আন্ডোরা",
+    AO: "অ্যাঙ্গোলা",
+    AG: "অ্যান্টিগুয়া ও বারবুডা",
+    AR: "আর্জেন্টিনা",
+    AM: "আর্মেনিয়া",
+    AT: "অস্ট্রিয়া",
+    AZ: "আজারবাইজান",
+    BS: "বাহামা দ্বীপপুঞ্জ",
+    BH: "বাহারিন",
+    BD: "বাংলাদেশ",
+    BB: "বার্বাডোজ",
+    BY: "বেলারুশ",
+    BE: "বেলজিয়াম",
+    BZ: "বেলিজ",
+    BJ: "বেনিন",
+    BT: "ভুটান",
+    BO: "বলিভিয়া",
+    BA: "বসনিয়া ও হার্জেগোভিনা",
+    BW: "বতসোয়ানা",
+    BN: "ব্রুনেই",
+    BG: "বুলগেরিয়া",
+    BF: "বুরকিনা ফাসো",
+    BI: "বুরুন্ডি",
+    CV: "কেপ ভার্দে",
+    KH: "কম্বোডিয়া",
+    CM: "ক্যামেরুন",
+    CF: "মধ্য আফ্রিকার প্রজাতন্ত্র",
+    TD: "চাদ",
+    CL: "চিলি",
+    CO: "কলম্বিয়া",
+    KM: "কমোরোস",
+    CG: "কঙ্গো - ব্রাজাভিল",
+    CD: "কঙ্গো-কিনশাসা",
+    CR: "কোস্টারিকা",
+    CI: "কোট ডি‘আইভোর",
+    HR: "ক্রোয়েশিয়া",
+    CU: "কিউবা",
+    CY: "সাইপ্রাস",
+    CZ: "চেকিয়া",
+    DK: "ডেনমার্ক",
+    DJ: "জিবুতি",
+    DM: "ডোমিনিকা",
+    DO: "ডোমেনিকান প্রজাতন্ত্র",
+    EC: "ইকুয়েডর",
+    EG: "মিশর",
+    SV: "এল সালভেদর",
+    GQ: "নিরক্ষীয় গিনি",
+    ER: "ইরিত্রিয়া",
+    EE: "এস্তোনিয়া",
+    SZ: "ইসওয়াতিনি",
+    ET: "ইথিওপিয়া",
+    FJ: "ফিজি",
+    FI: "ফিনল্যান্ড",
+    GA: "গ্যাবন",
+    GM: "গাম্বিয়া",
+    GE: "জর্জিয়া",
+    GH: "ঘানা",
+    GR: "গ্রীস",
+    GD: "গ্রেনাডা",
+    GT: "গুয়াতেমালা",
+    GN: "গিনি",
+    GW: "গিনি-বিসাউ",
+    GY: "গিয়ানা",
+    HT: "হাইতি",
+    HN: "হন্ডুরাস",
+    HU: "হাঙ্গেরি",
+    IS: "আইসল্যান্ড",
+    ID: "ইন্দোনেশিয়া",
+    IR: "ইরান",
+    IQ: "ইরাক",
+    IE: "আয়ারল্যান্ড",
+    IL: "ইজরায়েল",
+    IT: "ইতালি",
+    JM: "জামাইকা",
+    JO: "জর্ডন",
+    KZ: "কাজাখস্তান",
+    KE: "কেনিয়া",
+    KI: "কিরিবাতি",
+    KW: "কুয়েত",
+    KG: "কিরগিজিস্তান",
+    LA: "লাওস",
+    LV: "লাটভিয়া",
+    LB: "লেবানন",
+    LS: "লেসোথো",
+    LR: "লাইবেরিয়া",
+    LY: "লিবিয়া",
+    LI: "লিচেনস্টেইন",
+    LT: "লিথুয়ানিয়া",
+    LU: "লাক্সেমবার্গ",
+    MG: "মাদাগাস্কার",
+    MW: "মালাউই",
+    MY: "মালয়েশিয়া",
+    MV: "মালদ্বীপ",
+    ML: "মালি",
+    MT: "মাল্টা",
+    MH: "মার্শাল দ্বীপপুঞ্জ",
+    MR: "মরিতানিয়া",
+    MU: "মরিশাস",
+    FM: "মাইক্রোনেশিয়া",
+    MD: "মলডোভা",
+    MC: "মোনাকো",
+    MN: "মঙ্গোলিয়া",
+    ME: "মন্টিনিগ্রো",
+    MA: "মোরক্কো",
+    MZ: "মোজাম্বিক",
+    MM: "মায়ানমার (বার্মা)",
+    NA: "নামিবিয়া",
+    NR: "নাউরু",
+    NP: "নেপাল",
+    NL: "নেদারল্যান্ডস",
+    NZ: "নিউজিল্যান্ড",
+    NI: "নিকারাগুয়া",
+    NE: "নাইজার",
+    KP: "উত্তর কোরিয়া",
+    MK: "উত্তর ম্যাসেডোনিয়া",
+    NO: "নরওয়ে",
+    OM: "ওমান",
+    PK: "পাকিস্তান",
+    PW: "পালাউ",
+    PA: "পানামা",
+    PG: "পাপুয়া নিউ গিনি",
+    PY: "প্যারাগুয়ে",
+    PE: "পেরু",
+    PH: "ফিলিপাইন",
+    PL: "পোল্যান্ড",
+    PT: "পর্তুগাল",
+    QA: "কাতার",
+    RO: "রোমানিয়া",
+    RW: "রুয়ান্ডা",
+    KN: "সেন্ট কিটস ও নেভিস",
+    LC: "সেন্ট লুসিয়া",
+    VC: "সেন্ট ভিনসেন্ট ও গ্রেনাডিনস",
+    WS: "সামোয়া",
+    SM: "সান মারিনো",
+    ST: "সাওটোমা ও প্রিন্সিপি",
+    SN: "সেনেগাল",
+    RS: "সার্বিয়া",
+    SC: "সিসিলি",
+    SL: "সিয়েরা লিওন",
+    SG: "সিঙ্গাপুর",
+    SK: "স্লোভাকিয়া",
+    SI: "স্লোভানিয়া",
+    SB: "সলোমন দ্বীপপুঞ্জ",
+    SO: "সোমালিয়া",
+    KR: "দক্ষিণ কোরিয়া",
+    SS: "দক্ষিণ সুদান",
+    ES: "স্পেন",
+    LK: "শ্রীলঙ্কা",
+    SD: "সুদান",
+    SR: "সুরিনাম",
+    SE: "সুইডেন",
+    CH: "সুইজারল্যান্ড",
+    SY: "সিরিয়া",
+    TJ: "তাজিকিস্তান",
+    TZ: "তাঞ্জানিয়া",
+    TH: "থাইল্যান্ড",
+    TG: "টোগো",
+    TO: "টোঙ্গা",
+    TT: "ত্রিনিনাদ ও টোব্যাগো",
+    TN: "তিউনিসিয়া",
+    TR: "তুরস্ক",
+    TM: "তুর্কমেনিস্তান",
+    TV: "টুভালু",
+    UG: "উগান্ডা",
+    UA: "ইউক্রেন",
+    AE: "সংযুক্ত আরব আমিরাত",
+    UY: "উরুগুয়ে",
+    UZ: "উজবেকিস্তান",
+    VU: "ভানুয়াটু",
+    VE: "ভেনেজুয়েলা",
+    VN: "ভিয়েতনাম",
+    YE: "ইয়েমেন",
+    ZM: "জাম্বিয়া",
+    ZW: "জিম্বাবোয়ে",
+    TL: "তিমুর-লেস্তে",
+  },
+};
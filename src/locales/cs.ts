@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Czech (cs), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const cs: LocaleData = {
+  locale: "cs",
+  names: {
+    US: "Spojené státy",
+    CA: "Kanada",
+    BR: "Brazílie",
+    GB: "Spojené království",
+    DE: "Německo",
+    FR: "Francie",
+    CN: "Čína",
+    JP: "Japonsko",
+    IN: "Indie",
+    AU: "Austrálie",
+    ZA: "Jihoafrická republika",
+    NG: "Nigérie",
+    MX: "Mexiko",
+    RU: "Rusko",
+    SA: "Saúdská Arábie",
+    AF: "Afghánistán",
+    AL: "Albánie",
+    DZ: "Alžírsko",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua a Barbuda",
+    AR: "Argentina",
+    AM: "Arménie",
+    AT: "Rakousko",
+    AZ: "Ázerbájdžán",
+    BS: "Bahamy",
+    BH: "Bahrajn",
+    BD: "Bangladéš",
+    BB: "Barbados",
+    BY: "Bělorusko",
+    BE: "Belgie",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhútán",
+    BO: "Bolívie",
+    BA: "Bosna a Hercegovina",
+    BW: "Botswana",
+    BN: "Brunej",
+    BG: "Bulharsko",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Kapverdy",
+    KH: "Kambodža",
+    CM: "Kamerun",
+    CF: "Středoafrická republika",
+    TD: "Čad",
+    CL: "Chile",
+    CO: "Kolumbie",
+    KM: "Komory",
+    CG: "Kongo – Brazzaville",
+    CD: "Kongo – Kinshasa",
+    CR: "Kostarika",
+    CI: "Pobřeží slonoviny",
+    HR: "Chorvatsko",
+    CU: "Kuba",
+    CY: "Kypr",
+    CZ: "Česko",
+    DK: "Dánsko",
+    DJ: "Džibutsko",
+    DM: "Dominika",
+    DO: "Dominikánská republika",
+    EC: "Ekvádor",
+    EG: "Egypt",
+    SV: "Salvador",
+    GQ: "Rovníková Guinea",
+    ER: "Eritrea",
+    EE: "Estonsko",
+    SZ: "Eswatini",
+    ET: "Etiopie",
+    FJ: "Fidži",
+    FI: "Finsko",
+    GA: "Gabon",
+    GM: "Gambie",
+    GE: "Gruzie",
+    GH: "Ghana",
+    GR: "Řecko",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Maďarsko",
+    IS: "Island",
+    ID: "Indonésie",
+    IR: "Írán",
+    IQ: "Irák",
+    IE: "Irsko",
+    IL: "Izrael",
+    IT: "Itálie",
+    JM: "Jamajka",
+    JO: "Jordánsko",
+    KZ: "Kazachstán",
+    KE: "Keňa",
+    KI: "Kiribati",
+    KW: "Kuvajt",
+    KG: "Kyrgyzstán",
+    LA: "Laos",
+    LV: "Lotyšsko",
+    LB: "Libanon",
+    LS: "Lesotho",
+    LR: "Libérie",
+    LY: "Libye",
+    LI: "Lichtenštejnsko",
+    LT: "Litva",
+    LU: "Lucembursko",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Malajsie",
+    MV: "Maledivy",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Marshallovy ostrovy",
+    MR: "Mauritánie",
+    MU: "Mauricius",
+    FM: "Mikronésie",
+    MD: "Moldavsko",
+    MC: "Monako",
+    MN: "Mongolsko",
+    ME: "Černá Hora",
+    MA: "Maroko",
+    MZ: "Mosambik",
+    MM: "Myanmar (Barma)",
+    NA: "Namibie",
+    NR: "Nauru",
+    NP: "Nepál",
+    NL: "Nizozemsko",
+    NZ: "Nový Zéland",
+    NI: "Nikaragua",
+    NE: "Niger",
+    KP: "Severní Korea",
+    MK: "Severní Makedonie",
+    NO: "Norsko",
+    OM: "Omán",
+    PK: "Pákistán",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua-Nová Guinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filipíny",
+    PL: "Polsko",
+    PT: "Portugalsko",
+    QA: "Katar",
+    RO: "Rumunsko",
+    RW: "Rwanda",
+    KN: "Svatý Kryštof a Nevis",
+    LC: "Svatá Lucie",
+    VC: "Svatý Vincenc a Grenadiny",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "Svatý Tomáš a Princův ostrov",
+    SN: "Senegal",
+    RS: "Srbsko",
+    SC: "Seychely",
+    SL: "Sierra Leone",
+    SG: "Singapur",
+    SK: "Slovensko",
+    SI: "Slovinsko",
+    SB: "Šalamounovy ostrovy",
+    SO: "Somálsko",
+    KR: "Jižní Korea",
+    SS: "Jižní Súdán",
+    ES: "Španělsko",
+    LK: "Srí Lanka",
+    SD: "Súdán",
+    SR: "Surinam",
+    SE: "Švédsko",
+    CH: "Švýcarsko",
+    SY: "Sýrie",
+    TJ: "Tádžikistán",
+    TZ: "Tanzanie",
+    TH: "Thajsko",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad a Tobago",
+    TN: "Tunisko",
+    TR: "Turecko",
+    TM: "Turkmenistán",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukrajina",
+    AE: "Spojené arabské emiráty",
+    UY: "Uruguay",
+    UZ: "Uzbekistán",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Jemen",
+    ZM: "Zambie",
+    ZW: "Zimbabwe",
+    TL: "Východní Timor",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Danish (da), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const da: LocaleData = {
+  locale: "da",
+  names: {
+    US: "USA",
+    CA: "Canada",
+    BR: "Brasilien",
+    GB: "Storbritannien",
+    DE: "Tyskland",
+    FR: "Frankrig",
+    CN: "Kina",
+    JP: "Japan",
+    IN: "Indien",
+    AU: "Australien",
+    ZA: "Sydafrika",
+    NG: "Nigeria",
+    MX: "Mexico",
+    RU: "Rusland",
+    SA: "Saudi-Arabien",
+    AF: "Afghanistan",
+    AL: "Albanien",
+    DZ: "Algeriet",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua og Barbuda",
+    AR: "Argentina",
+    AM: "Armenien",
+    AT: "Østrig",
+    AZ: "Aserbajdsjan",
+    BS: "Bahamas",
+    BH: "Bahrain",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "Belgien",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnien-Hercegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgarien",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Kap Verde",
+    KH: "Cambodja",
+    CM: "Cameroun",
+    CF: "Den Centralafrikanske Republik",
+    TD: "Tchad",
+    CL: "Chile",
+    CO: "Colombia",
+    KM: "Comorerne",
+    CG: "Congo-Brazzaville",
+    CD: "Congo-Kinshasa",
+    CR: "Costa Rica",
+    CI: "Elfenbenskysten",
+    HR: "Kroatien",
+    CU: "Cuba",
+    CY: "Cypern",
+    CZ: "Tjekkiet",
+    DK: "Danmark",
+    DJ: "Djibouti",
+    DM: "Dominica",
+    DO: "Den Dominikanske Republik",
+    EC: "Ecuador",
+    EG: "Egypten",
+    SV: "El Salvador",
+    GQ: "Ækvatorialguinea",
+    ER: "Eritrea",
+    EE: "Estland",
+    SZ: "Eswatini",
+    ET: "Etiopien",
+    FJ: "Fiji",
+    FI: "Finland",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgien",
+    GH: "Ghana",
+    GR: "Grækenland",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Ungarn",
+    IS: "Island",
+    ID: "Indonesien",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Irland",
+    IL: "Israel",
+    IT: "Italien",
+    JM: "Jamaica",
+    JO: "Jordan",
+    KZ: "Kasakhstan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kirgisistan",
+    LA: "Laos",
+    LV: "Letland",
+    LB: "Libanon",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libyen",
+    LI: "Liechtenstein",
+    LT: "Litauen",
+    LU: "Luxembourg",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Malaysia",
+    MV: "Maldiverne",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Marshalløerne",
+    MR: "Mauretanien",
+    MU: "Mauritius",
+    FM: "Mikronesien",
+    MD: "Moldova",
+    MC: "Monaco",
+    MN: "Mongoliet",
+    ME: "Montenegro",
+    MA: "Marokko",
+    MZ: "Mozambique",
+    MM: "Myanmar (Burma)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Nederlandene",
+    NZ: "New Zealand",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Nordkorea",
+    MK: "Nordmakedonien",
+    NO: "Norge",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua Ny Guinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filippinerne",
+    PL: "Polen",
+    PT: "Portugal",
+    QA: "Qatar",
+    RO: "Rumænien",
+    RW: "Rwanda",
+    KN: "Saint Kitts og Nevis",
+    LC: "Saint Lucia",
+    VC: "Saint Vincent og Grenadinerne",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "São Tomé og Príncipe",
+    SN: "Senegal",
+    RS: "Serbien",
+    SC: "Seychellerne",
+    SL: "Sierra Leone",
+    SG: "Singapore",
+    SK: "Slovakiet",
+    SI: "Slovenien",
+    SB: "Salomonøerne",
+    SO: "Somalia",
+    KR: "Sydkorea",
+    SS: "Sydsudan",
+    ES: "Spanien",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Surinam",
+    SE: "Sverige",
+    CH: "Schweiz",
+    SY: "Syrien",
+    TJ: "Tadsjikistan",
+    TZ: "Tanzania",
+    TH: "Thailand",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad og Tobago",
+    TN: "Tunesien",
+    TR: "Tyrkiet",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukraine",
+    AE: "De Forenede Arabiske Emirater",
+    UY: "Uruguay",
+    UZ: "Usbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Yemen",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Timor-Leste",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in German (de), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const de: LocaleData = {
+  locale: "de",
+  names: {
+    US: "Vereinigte Staaten",
+    CA: "Kanada",
+    BR: "Brasilien",
+    GB: "Vereinigtes Königreich",
+    DE: "Deutschland",
+    FR: "Frankreich",
+    CN: "China",
+    JP: "Japan",
+    IN: "Indien",
+    AU: "Australien",
+    ZA: "Südafrika",
+    NG: "Nigeria",
+    MX: "Mexiko",
+    RU: "Russland",
+    SA: "Saudi-Arabien",
+    AF: "Afghanistan",
+    AL: "Albanien",
+    DZ: "Algerien",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua und Barbuda",
+    AR: "Argentinien",
+    AM: "Armenien",
+    AT: "Österreich",
+    AZ: "Aserbaidschan",
+    BS: "Bahamas",
+    BH: "Bahrain",
+    BD: "Bangladesch",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "Belgien",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivien",
+    BA: "Bosnien und Herzegowina",
+    BW: "Botsuana",
+    BN: "Brunei Darussalam",
+    BG: "Bulgarien",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Cabo Verde",
+    KH: "Kambodscha",
+    CM: "Kamerun",
+    CF: "Zentralafrikanische Republik",
+    TD: "Tschad",
+    CL: "Chile",
+    CO: "Kolumbien",
+    KM: "Komoren",
+    CG: "Kongo-Brazzaville",
+    CD: "Kongo-Kinshasa",
+    CR: "Costa Rica",
+    CI: "Côte d’Ivoire",
+    HR: "Kroatien",
+    CU: "Kuba",
+    CY: "Zypern",
+    CZ: "Tschechien",
+    DK: "Dänemark",
+    DJ: "Dschibuti",
+    DM: "Dominica",
+    DO: "Dominikanische Republik",
+    EC: "Ecuador",
+    EG: "Ägypten",
+    SV: "El Salvador",
+    GQ: "Äquatorialguinea",
+    ER: "Eritrea",
+    EE: "Estland",
+    SZ: "Eswatini",
+    ET: "Äthiopien",
+    FJ: "Fidschi",
+    FI: "Finnland",
+    GA: "Gabun",
+    GM: "Gambia",
+    GE: "Georgien",
+    GH: "Ghana",
+    GR: "Griechenland",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Ungarn",
+    IS: "Island",
+    ID: "Indonesien",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Irland",
+    IL: "Israel",
+    IT: "Italien",
+    JM: "Jamaika",
+    JO: "Jordanien",
+    KZ: "Kasachstan",
+    KE: "Kenia",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kirgisistan",
+    LA: "Laos",
+    LV: "Lettland",
+    LB: "Libanon",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libyen",
+    LI: "Liechtenstein",
+    LT: "Litauen",
+    LU: "Luxemburg",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Malaysia",
+    MV: "Malediven",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Marshallinseln",
+    MR: "Mauretanien",
+    MU: "Mauritius",
+    FM: "Mikronesien",
+    MD: "Republik Moldau",
+    MC: "Monaco",
+    MN: "Mongolei",
+    ME: "Montenegro",
+    MA: "Marokko",
+    MZ: "Mosambik",
+    MM: "Myanmar",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Niederlande",
+    NZ: "Neuseeland",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Nordkorea",
+    MK: "Nordmazedonien",
+    NO: "Norwegen",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua-Neuguinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Philippinen",
+    PL: "Polen",
+    PT: "Portugal",
+    QA: "Katar",
+    RO: "Rumänien",
+    RW: "Ruanda",
+    KN: "St. Kitts und Nevis",
+    LC: "St. Lucia",
+    VC: "St. Vincent und die Grenadinen",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "São Tomé und Príncipe",
+    SN: "Senegal",
+    RS: "Serbien",
+    SC: "Seychellen",
+    SL: "Sierra Leone",
+    SG: "Singapur",
+    SK: "Slowakei",
+    SI: "Slowenien",
+    SB: "Salomonen",
+    SO: "Somalia",
+    KR: "Südkorea",
+    SS: "Südsudan",
+    ES: "Spanien",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Suriname",
+    SE: "Schweden",
+    CH: "Schweiz",
+    SY: "Syrien",
+    TJ: "Tadschikistan",
+    TZ: "Tansania",
+    TH: "Thailand",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad und Tobago",
+    TN: "Tunesien",
+    TR: "Türkei",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukraine",
+    AE: "Vereinigte Arabische Emirate",
+    UY: "Uruguay",
+    UZ: "Usbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Jemen",
+    ZM: "Sambia",
+    ZW: "Simbabwe",
+    TL: "Timor-Leste",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Greek (el), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const el: LocaleData = {
+  locale: "el",
+  names: {
+    US: "Ηνωμένες Πολιτείες",
+    CA: "Καναδάς",
+    BR: "Βραζιλία",
+    GB: "Ηνωμένο Βασίλειο",
+    DE: "Γερμανία",
+    FR: "Γαλλία",
+    CN: "Κίνα",
+    JP: "Ιαπωνία",
+    IN: "Ινδία",
+    AU: "Αυστραλία",
+    ZA: "Νότια Αφρική",
+    NG: "Νιγηρία",
+    MX: "Μεξικό",
+    RU: "Ρωσία",
+    SA: "Σαουδική Αραβία",
+    AF: "Αφγανιστάν",
+    AL: "Αλβανία",
+    DZ: "Αλγερία",
+    AD: "Ανδόρα",
+    AO: "Αγκόλα",
+    AG: "Αντίγκουα και Μπαρμπούντα",
+    AR: "Αργεντινή",
+    AM: "Αρμενία",
+    AT: "Αυστρία",
+    AZ: "Αζερμπαϊτζάν",
+    BS: "Μπαχάμες",
+    BH: "Μπαχρέιν",
+    BD: "Μπανγκλαντές",
+    BB: "Μπαρμπέιντος",
+    BY: "Λευκορωσία",
+    BE: "Βέλγιο",
+    BZ: "Μπελίζ",
+    BJ: "Μπενίν",
+    BT: "Μπουτάν",
+    BO: "Βολιβία",
+    BA: "Βοσνία - Ερζεγοβίνη",
+    BW: "Μποτσουάνα",
+    BN: "Μπρουνέι",
+    BG: "Βουλγαρία",
+    BF: "Μπουρκίνα Φάσο",
+    BI: "Μπουρούντι",
+    CV: "Πράσινο Ακρωτήριο",
+    KH: "Καμπότζη",
+    CM: "Καμερούν",
+    CF: "Κεντροαφρικανική Δημοκρατία",
+    TD: "Τσαντ",
+    CL: "Χιλή",
+    CO: "Κολομβία",
+    KM: "Κομόρες",
+    CG: "Κονγκό - Μπραζαβίλ",
+    CD: "Κονγκό - Κινσάσα",
+    CR: "Κόστα Ρίκα",
+    CI: "Ακτή Ελεφαντοστού",
+    HR: "Κροατία",
+    CU: "Κούβα",
+    CY: "Κύπρος",
+    CZ: "Τσεχία",
+    DK: "Δανία",
+    DJ: "Τζιμπουτί",
+    DM: "Ντομίνικα",
+    DO: "Δομινικανή Δημοκρατία",
+    EC: "Ισημερινός",
+    EG: "Αίγυπτος",
+    SV: "Ελ Σαλβαδόρ",
+    GQ: "Ισημερινή Γουινέα",
+    ER: "Ερυθραία",
+    EE: "Εσθονία",
+    SZ: "Εσουατίνι",
+    ET: "Αιθιοπία",
+    FJ: "Φίτζι",
+    FI: "Φινλανδία",
+    GA: "Γκαμπόν",
+    GM: "Γκάμπια",
+    GE: "Γεωργία",
+    GH: "Γκάνα",
+    GR: "Ελλάδα",
+    GD: "Γρενάδα",
+    GT: "Γουατεμάλα",
+    GN: "Γουινέα",
+    GW: "Γουινέα Μπισάου",
+    GY: "Γουιάνα",
+    HT: "Αϊτή",
+    HN: "Ονδούρα",
+    HU: "Ουγγαρία",
+    IS: "Ισλανδία",
+    ID: "Ινδονησία",
+    IR: "Ιράν",
+    IQ: "Ιράκ",
+    IE: "Ιρλανδία",
+    IL: "Ισραήλ",
+    IT: "Ιταλία",
+    JM: "Τζαμάικα",
+    JO: "Ιορδανία",
+    KZ: "Καζακστάν",
+    KE: "Κένυα",
+    KI: "Κιριμπάτι",
+    KW: "Κουβέιτ",
+    KG: "Κιργιστάν",
+    LA: "Λάος",
+    LV: "Λετονία",
+    LB: "Λίβανος",
+    LS: "Λεσότο",
+    LR: "Λιβερία",
+    LY: "Λιβύη",
+    LI: "Λιχτενστάιν",
+    LT: "Λιθουανία",
+    LU: "Λουξεμβούργο",
+    MG: "Μαδαγασκάρη",
+    MW: "Μαλάουι",
+    MY: "Μαλαισία",
+    MV: "Μαλδίβες",
+    ML: "Μάλι",
+    MT: "Μάλτα",
+    MH: "Νήσοι Μάρσαλ",
+    MR: "Μαυριτανία",
+    MU: "Μαυρίκιος",
+    FM: "Μικρονησία",
+    MD: "Μολδαβία",
+    MC: "Μονακό",
+    MN: "Μογγολία",
+    ME: "Μαυροβούνιο",
+    MA: "Μαρόκο",
+    MZ: "Μοζαμβίκη",
+    MM: "Μιανμάρ (Βιρμανία)",
+    NA: "Ναμίμπια",
+    NR: "Ναουρού",
+    NP: "Νεπάλ",
+    NL: "Κάτω Χώρες",
+    NZ: "Νέα Ζηλανδία",
+    NI: "Νικαράγουα",
+    NE: "Νίγηρας",
+    KP: "Βόρεια Κορέα",
+    MK: "Βόρεια Μακεδονία",
+    NO: "Νορβηγία",
+    OM: "Ομάν",
+    PK: "Πακιστάν",
+    PW: "Παλάου",
+    PA: "Παναμάς",
+    PG: "Παπούα Νέα Γουινέα",
+    PY: "Παραγουάη",
+    PE: "Περού",
+    PH: "Φιλιππίνες",
+    PL: "Πολωνία",
+    PT: "Πορτογαλία",
+    QA: "Κατάρ",
+    RO: "Ρουμανία",
+    RW: "Ρουάντα",
+    KN: "Σεν Κιτς και Νέβις",
+    LC: "Αγία Λουκία",
+    VC: "Άγιος Βικέντιος και Γρεναδίνες",
+    WS: "Σαμόα",
+    SM: "Άγιος Μαρίνος",
+    ST: "Σάο Τομέ και Πρίνσιπε",
+    SN: "Σενεγάλη",
+    RS: "Σερβία",
+    SC: "Σεϋχέλλες",
+    SL: "Σιέρα Λεόνε",
+    SG: "Σιγκαπούρη",
+    SK: "Σλοβακία",
+    SI: "Σλοβενία",
+    SB: "Νήσοι Σολομώντος",
+    SO: "Σομαλία",
+    KR: "Νότια Κορέα",
+    SS: "Νότιο Σουδάν",
+    ES: "Ισπανία",
+    LK: "Σρι Λάνκα",
+    SD: "Σουδάν",
+    SR: "Σουρινάμ",
+    SE: "Σουηδία",
+    CH: "Ελβετία",
+    SY: "Συρία",
+    TJ: "Τατζικιστάν",
+    TZ: "Τανζανία",
+    TH: "Ταϊλάνδη",
+    TG: "Τόγκο",
+    TO: "Τόνγκα",
+    TT: "Τρινιντάντ και Τομπάγκο",
+    TN: "Τυνησία",
+    TR: "Τουρκία",
+    TM: "Τουρκμενιστάν",
+    TV: "Τουβαλού",
+    UG: "Ουγκάντα",
+    UA: "Ουκρανία",
+    AE: "Ηνωμένα Αραβικά Εμιράτα",
+    UY: "Ουρουγουάη",
+    UZ: "Ουζμπεκιστάν",
+    VU: "Βανουάτου",
+    VE: "Βενεζουέλα",
+    VN: "Βιετνάμ",
+    YE: "Υεμένη",
+    ZM: "Ζάμπια",
+    ZW: "Ζιμπάμπουε",
+    TL: "Τιμόρ-Λέστε",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Spanish (es), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const es: LocaleData = {
+  locale: "es",
+  names: {
+    US: "Estados Unidos",
+    CA: "Canadá",
+    BR: "Brasil",
+    GB: "Reino Unido",
+    DE: "Alemania",
+    FR: "Francia",
+    CN: "China",
+    JP: "Japón",
+    IN: "India",
+    AU: "Australia",
+    ZA: "Sudáfrica",
+    NG: "Nigeria",
+    MX: "México",
+    RU: "Rusia",
+    SA: "Arabia Saudí",
+    AF: "Afganistán",
+    AL: "Albania",
+    DZ: "Argelia",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua y Barbuda",
+    AR: "Argentina",
+    AM: "Armenia",
+    AT: "Austria",
+    AZ: "Azerbaiyán",
+    BS: "Bahamas",
+    BH: "Baréin",
+    BD: "Bangladés",
+    BB: "Barbados",
+    BY: "Bielorrusia",
+    BE: "Bélgica",
+    BZ: "Belice",
+    BJ: "Benín",
+    BT: "Bután",
+    BO: "Bolivia",
+    BA: "Bosnia y Herzegovina",
+    BW: "Botsuana",
+    BN: "Brunéi",
+    BG: "Bulgaria",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Cabo Verde",
+    KH: "Camboya",
+    CM: "Camerún",
+    CF: "República Centroafricana",
+    TD: "Chad",
+    CL: "Chile",
+    CO: "Colombia",
+    KM: "Comoras",
+    CG: "Congo",
+    CD: "República Democrática del Congo",
+    CR: "Costa Rica",
+    CI: "Côte d’Ivoire",
+    HR: "Croacia",
+    CU: "Cuba",
+    CY: "Chipre",
+    CZ: "Chequia",
+    DK: "Dinamarca",
+    DJ: "Yibuti",
+    DM: "Dominica",
+    DO: "República Dominicana",
+    EC: "Ecuador",
+    EG: "Egipto",
+    SV: "El Salvador",
+    GQ: "Guinea Ecuatorial",
+    ER: "Eritrea",
+    EE: "Estonia",
+    SZ: "Esuatini",
+    ET: "Etiopía",
+    FJ: "Fiyi",
+    FI: "Finlandia",
+    GA: "Gabón",
+    GM: "Gambia",
+    GE: "Georgia",
+    GH: "Ghana",
+    GR: "Grecia",
+    GD: "Granada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bisáu",
+    GY: "Guyana",
+    HT: "Haití",
+    HN: "Honduras",
+    HU: "Hungría",
+    IS: "Islandia",
+    ID: "Indonesia",
+    IR: "Irán",
+    IQ: "Irak",
+    IE: "Irlanda",
+    IL: "Israel",
+    IT: "Italia",
+    JM: "Jamaica",
+    JO: "Jordania",
+    KZ: "Kazajistán",
+    KE: "Kenia",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kirguistán",
+    LA: "Laos",
+    LV: "Letonia",
+    LB: "Líbano",
+    LS: "Lesoto",
+    LR: "Liberia",
+    LY: "Libia",
+    LI: "Liechtenstein",
+    LT: "Lituania",
+    LU: "Luxemburgo",
+    MG: "Madagascar",
+    MW: "Malaui",
+    MY: "Malasia",
+    MV: "Maldivas",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Islas Marshall",
+    MR: "Mauritania",
+    MU: "Mauricio",
+    FM: "Micronesia",
+    MD: "Moldavia",
+    MC: "Mónaco",
+    MN: "Mongolia",
+    ME: "Montenegro",
+    MA: "Marruecos",
+    MZ: "Mozambique",
+    MM: "Myanmar (Birmania)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Países Bajos",
+    NZ: "Nueva Zelanda",
+    NI: "Nicaragua",
+    NE: "Níger",
+    KP: "Corea del Norte",
+    MK: "Macedonia del Norte",
+    NO: "Noruega",
+    OM: "Omán",
+    PK: "Pakistán",
+    PW: "Palaos",
+    PA: "Panamá",
+    PG: "Papúa Nueva Guinea",
+    PY: "Paraguay",
+    PE: "Perú",
+    PH: "Filipinas",
+    PL: "Polonia",
+    PT: "Portugal",
+    QA: "Catar",
+    RO: "Rumanía",
+    RW: "Ruanda",
+    KN: "San Cristóbal y Nieves",
+    LC: "Santa Lucía",
+    VC: "San Vicente y las Granadinas",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "Santo Tomé y Príncipe",
+    SN: "Senegal",
+    RS: "Serbia",
+    SC: "Seychelles",
+    SL: "Sierra Leona",
+    SG: "Singapur",
+    SK: "Eslovaquia",
+    SI: "Eslovenia",
+    SB: "Islas Salomón",
+    SO: "Somalia",
+    KR: "Corea del Sur",
+    SS: "Sudán del Sur",
+    ES: "España",
+    LK: "Sri Lanka",
+    SD: "Sudán",
+    SR: "Surinam",
+    SE: "Suecia",
+    CH: "Suiza",
+    SY: "Siria",
+    TJ: "Tayikistán",
+    TZ: "Tanzania",
+    TH: "Tailandia",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad y Tobago",
+    TN: "Túnez",
+    TR: "Turquía",
+    TM: "Turkmenistán",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ucrania",
+    AE: "Emiratos Árabes Unidos",
+    UY: "Uruguay",
+    UZ: "Uzbekistán",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Yemen",
+    ZM: "Zambia",
+    ZW: "Zimbabue",
+    TL: "Timor-Leste",
+  },
+};
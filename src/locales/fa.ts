@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Persian (fa), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const fa: LocaleData = {
+  locale: "fa",
+  names: {
+    US: "ایالات متحده",
+    CA: "کانادا",
+    BR: "برزیل",
+    GB: "بریتانیا",
+    DE: "آلمان",
+    FR: "فرانسه",
+    CN: "چین",
+    JP: "ژاپن",
+    IN: "هند",
+    AU: "استرالیا",
+    ZA: "افریقای جنوبی",
+    NG: "نیجریه",
+    MX: "مکزیک",
+    RU: "روسیه",
+    SA: "عربستان سعودی",
+    AF: "افغانستان",
+    AL: "آلبانی",
+    DZ: "الجزایر",
+    AD: "آندورا",
+    AO: "آنگولا",
+    AG: "آنتیگوا و باربودا",
+    AR: "آرژانتین",
+    AM: "ارمنستان",
+    AT: "اتریش",
+    AZ: "جمهوری آذربایجان",
+    BS: "باهاما",
+    BH: "بحرین",
+    BD: "بنگلادش",
+    BB: "باربادوس",
+    BY: "بلاروس",
+    BE: "بلژیک",
+    BZ: "بلیز",
+    BJ: "بنین",
+    BT: "بوتان",
+    BO: "بولیوی",
+    BA: "بوسنی و هرزگوین",
+    BW: "بوتسوانا",
+    BN: "برونئی",
+    BG: "بلغارستان",
+    BF: "بورکینافاسو",
+    BI: "بوروندی",
+    CV: "کیپ‌ورد",
+    KH: "کامبوج",
+    CM: "کامرون",
+    CF: "جمهوری افریقای مرکزی",
+    TD: "چاد",
+    CL: "شیلی",
+    CO: "کلمبیا",
+    KM: "کومور",
+    CG: "کنگو - برازویل",
+    CD: "کنگو - کینشاسا",
+    CR: "کاستاریکا",
+    CI: "ساحل عاج",
+    HR: "کرواسی",
+    CU: "کوبا",
+    CY: "قبرس",
+    CZ: "چک",
+    DK: "دانمارک",
+    DJ: "جیبوتی",
+    DM: "دومینیکا",
+    DO: "جمهوری دومینیکن",
+    EC: "اکوادور",
+    EG: "مصر",
+    SV: "السالوادور",
+    GQ: "گینهٔ استوایی",
+    ER: "اریتره",
+    EE: "استونی",
+    SZ: "اسواتینی",
+    ET: "اتیوپی",
+    FJ: "فیجی",
+    FI: "فنلاند",
+    GA: "گابن",
+    GM: "گامبیا",
+    GE: "گرجستان",
+    GH: "غنا",
+    GR: "یونان",
+    GD: "گرنادا",
+    GT: "گواتمالا",
+    GN: "گینه",
+    GW: "گینهٔ بیسائو",
+    GY: "گویان",
+    HT: "هائیتی",
+    HN: "هندوراس",
+    HU: "مجارستان",
+    IS: "ایسلند",
+    ID: "اندونزی",
+    IR: "ایران",
+    IQ: "عراق",
+    IE: "ایرلند",
+    IL: "اسرائیل",
+    IT: "ایتالیا",
+    JM: "جامائیکا",
+    JO: "اردن",
+    KZ: "قزاقستان",
+    KE: "کنیا",
+    KI: "کیریباتی",
+    KW: "کویت",
+    KG: "قرقیزستان",
+    LA: "لائوس",
+    LV: "لتونی",
+    LB: "لبنان",
+    LS: "لسوتو",
+    LR: "لیبریا",
+    LY: "لیبی",
+    LI: "لیختن‌اشتاین",
+    LT: "لیتوانی",
+    LU: "لوکزامبورگ",
+    MG: "ماداگاسکار",
+    MW: "مالاوی",
+    MY: "مالزی",
+    MV: "مالدیو",
+    ML: "مالی",
+    MT: "مالت",
+    MH: "جزایر مارشال",
+    MR: "موریتانی",
+    MU: "موریس",
+    FM: "میکرونزی",
+    MD: "مولداوی",
+    MC: "موناکو",
+    MN: "مغولستان",
+    ME: "مونته‌نگرو",
+    MA: "مراکش",
+    MZ: "موزامبیک",
+    MM: "میانمار (برمه)",
+    NA: "نامیبیا",
+    NR: "نائورو",
+    NP: "نپال",
+    NL: "هلند",
+    NZ: "نیوزیلند",
+    NI: "نیکاراگوئه",
+    NE: "نیجر",
+    KP: "کرهٔ شمالی",
+    MK: "مقدونیهٔ شمالی",
+    NO: "نروژ",
+    OM: "عمان",
+    PK: "پاکستان",
+    PW: "پالائو",
+    PA: "پاناما",
+    PG: "پاپوا گینهٔ نو",
+    PY: "پاراگوئه",
+    PE: "پرو",
+    PH: "فیلیپین",
+    PL: "لهستان",
+    PT: "پرتغال",
+    QA: "قطر",
+    RO: "رومانی",
+    RW: "رواندا",
+    KN: "سنت کیتس و نویس",
+    LC: "سنت لوسیا",
+    VC: "سنت وینسنت و گرنادین",
+    WS: "ساموآ",
+    SM: "سان‌مارینو",
+    ST: "سائوتومه و پرینسیپ",
+    SN: "سنگال",
+    RS: "صربستان",
+    SC: "سیشل",
+    SL: "سیرالئون",
+    SG: "سنگاپور",
+    SK: "اسلواکی",
+    SI: "اسلوونی",
+    SB: "جزایر سلیمان",
+    SO: "سومالی",
+    KR: "کرهٔ جنوبی",
+    SS: "سودان جنوبی",
+    ES: "اسپانیا",
+    LK: "سری‌لانکا",
+    SD: "سودان",
+    SR: "سورینام",
+    SE: "سوئد",
+    CH: "سوئیس",
+    SY: "سوریه",
+    TJ: "تاجیکستان",
+    TZ: "تانزانیا",
+    TH: "تایلند",
+    TG: "توگو",
+    TO: "تونگا",
+    TT: "ترینیداد و توباگو",
+    TN: "تونس",
+    TR: "ترکیه",
+    TM: "ترکمنستان",
+    TV: "تووالو",
+    UG: "اوگاندا",
+    UA: "اوکراین",
+    AE: "امارات متحدهٔ عربی",
+    UY: "اروگوئه",
+    UZ: "ازبکستان",
+    VU: "وانواتو",
+    VE: "ونزوئلا",
+    VN: "ویتنام",
+    YE: "یمن",
+    ZM: "زامبیا",
+    ZW: "زیمبابوه",
+    TL: "تیمور-لسته",
+  },
+};
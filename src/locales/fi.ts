@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Finnish (fi), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const fi: LocaleData = {
+  locale: "fi",
+  names: {
+    US: "Yhdysvallat",
+    CA: "Kanada",
+    BR: "Brasilia",
+    GB: "Iso-Britannia",
+    DE: "Saksa",
+    FR: "Ranska",
+    CN: "Kiina",
+    JP: "Japani",
+    IN: "Intia",
+    AU: "Australia",
+    ZA: "Etelä-Afrikka",
+    NG: "Nigeria",
+    MX: "Meksiko",
+    RU: "Venäjä",
+    SA: "Saudi-Arabia",
+    AF: "Afganistan",
+    AL: "Albania",
+    DZ: "Algeria",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua ja Barbuda",
+    AR: "Argentiina",
+    AM: "Armenia",
+    AT: "Itävalta",
+    AZ: "Azerbaidžan",
+    BS: "Bahama",
+    BH: "Bahrain",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Valko-Venäjä",
+    BE: "Belgia",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnia ja Hertsegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgaria",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Kap Verde",
+    KH: "Kambodža",
+    CM: "Kamerun",
+    CF: "Keski-Afrikan tasavalta",
+    TD: "Tšad",
+    CL: "Chile",
+    CO: "Kolumbia",
+    KM: "Komorit",
+    CG: "Kongon tasavalta",
+    CD: "Kongon demokraattinen tasavalta",
+    CR: "Costa Rica",
+    CI: "Norsunluurannikko",
+    HR: "Kroatia",
+    CU: "Kuuba",
+    CY: "Kypros",
+    CZ: "Tšekki",
+    DK: "Tanska",
+    DJ: "Djibouti",
+    DM: "Dominica",
+    DO: "Dominikaaninen tasavalta",
+    EC: "Ecuador",
+    EG: "Egypti",
+    SV: "El Salvador",
+    GQ: "Päiväntasaajan Guinea",
+    ER: "Eritrea",
+    EE: "Viro",
+    SZ: "Eswatini",
+    ET: "Etiopia",
+    FJ: "Fidži",
+    FI: "Suomi",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgia",
+    GH: "Ghana",
+    GR: "Kreikka",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Unkari",
+    IS: "Islanti",
+    ID: "Indonesia",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Irlanti",
+    IL: "Israel",
+    IT: "Italia",
+    JM: "Jamaika",
+    JO: "Jordania",
+    KZ: "Kazakstan",
+    KE: "Kenia",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kirgisia",
+    LA: "Laos",
+    LV: "Latvia",
+    LB: "Libanon",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libya",
+    LI: "Liechtenstein",
+    LT: "Liettua",
+    LU: "Luxemburg",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Malesia",
+    MV: "Malediivit",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Marshallinsaaret",
+    MR: "Mauritania",
+    MU: "Mauritius",
+    FM: "Mikronesia",
+    MD: "Moldova",
+    MC: "Monaco",
+    MN: "Mongolia",
+    ME: "Montenegro",
+    MA: "Marokko",
+    MZ: "Mosambik",
+    MM: "Myanmar (Burma)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Alankomaat",
+    NZ: "Uusi-Seelanti",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Pohjois-Korea",
+    MK: "Pohjois-Makedonia",
+    NO: "Norja",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua-Uusi-Guinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filippiinit",
+    PL: "Puola",
+    PT: "Portugali",
+    QA: "Qatar",
+    RO: "Romania",
+    RW: "Ruanda",
+    KN: "Saint Kitts ja Nevis",
+    LC: "Saint Lucia",
+    VC: "Saint Vincent ja Grenadiinit",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "São Tomé ja Príncipe",
+    SN: "Senegal",
+    RS: "Serbia",
+    SC: "Seychellit",
+    SL: "Sierra Leone",
+    SG: "Singapore",
+    SK: "Slovakia",
+    SI: "Slovenia",
+    SB: "Salomonsaaret",
+    SO: "Somalia",
+    KR: "Etelä-Korea",
+    SS: "Etelä-Sudan",
+    ES: "Espanja",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Suriname",
+    SE: "Ruotsi",
+    CH: "Sveitsi",
+    SY: "Syyria",
+    TJ: "Tadžikistan",
+    TZ: "Tansania",
+    TH: "Thaimaa",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad ja Tobago",
+    TN: "Tunisia",
+    TR: "Turkki",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukraina",
+    AE: "Arabiemiirikunnat",
+    UY: "Uruguay",
+    UZ: "Uzbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Jemen",
+    ZM: "Sambia",
+    ZW: "Zimbabwe",
+    TL: "Itä-Timor",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in French (fr), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const fr: LocaleData = {
+  locale: "fr",
+  names: {
+    US: "États-Unis",
+    CA: "Canada",
+    BR: "Brésil",
+    GB: "Royaume-Uni",
+    DE: "Allemagne",
+    FR: "France",
+    CN: "Chine",
+    JP: "Japon",
+    IN: "Inde",
+    AU: "Australie",
+    ZA: "Afrique du Sud",
+    NG: "Nigeria",
+    MX: "Mexique",
+    RU: "Russie",
+    SA: "Arabie saoudite",
+    AF: "Afghanistan",
+    AL: "Albanie",
+    DZ: "Algérie",
+    AD: "Andorre",
+    AO: "Angola",
+    AG: "Antigua-et-Barbuda",
+    AR: "Argentine",
+    AM: "Arménie",
+    AT: "Autriche",
+    AZ: "Azerbaïdjan",
+    BS: "Bahamas",
+    BH: "Bahreïn",
+    BD: "Bangladesh",
+    BB: "Barbade",
+    BY: "Biélorussie",
+    BE: "Belgique",
+    BZ: "Belize",
+    BJ: "Bénin",
+    BT: "Bhoutan",
+    BO: "Bolivie",
+    BA: "Bosnie-Herzégovine",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgarie",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Cap-Vert",
+    KH: "Cambodge",
+    CM: "Cameroun",
+    CF: "République centrafricaine",
+    TD: "Tchad",
+    CL: "Chili",
+    CO: "Colombie",
+    KM: "Comores",
+    CG: "Congo-Brazzaville",
+    CD: "Congo-Kinshasa",
+    CR: "Costa Rica",
+    CI: "Côte d’Ivoire",
+    HR: "Croatie",
+    CU: "Cuba",
+    CY: "Chypre",
+    CZ: "Tchéquie",
+    DK: "Danemark",
+    DJ: "Djibouti",
+    DM: "Dominique",
+    DO: "République dominicaine",
+    EC: "Équateur",
+    EG: "Égypte",
+    SV: "Salvador",
+    GQ: "Guinée équatoriale",
+    ER: "Érythrée",
+    EE: "Estonie",
+    SZ: "Eswatini",
+    ET: "Éthiopie",
+    FJ: "Fidji",
+    FI: "Finlande",
+    GA: "Gabon",
+    GM: "Gambie",
+    GE: "Géorgie",
+    GH: "Ghana",
+    GR: "Grèce",
+    GD: "Grenade",
+    GT: "Guatemala",
+    GN: "Guinée",
+    GW: "Guinée-Bissau",
+    GY: "Guyana",
+    HT: "Haïti",
+    HN: "Honduras",
+    HU: "Hongrie",
+    IS: "Islande",
+    ID: "Indonésie",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Irlande",
+    IL: "Israël",
+    IT: "Italie",
+    JM: "Jamaïque",
+    JO: "Jordanie",
+    KZ: "Kazakhstan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Koweït",
+    KG: "Kirghizstan",
+    LA: "Laos",
+    LV: "Lettonie",
+    LB: "Liban",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libye",
+    LI: "Liechtenstein",
+    LT: "Lituanie",
+    LU: "Luxembourg",
+    MG: "Madagascar",
+    MW: "Malawi",
+    MY: "Malaisie",
+    MV: "Maldives",
+    ML: "Mali",
+    MT: "Malte",
+    MH: "Îles Marshall",
+    MR: "Mauritanie",
+    MU: "Maurice",
+    FM: "Micronésie",
+    MD: "Moldavie",
+    MC: "Monaco",
+    MN: "Mongolie",
+    ME: "Monténégro",
+    MA: "Maroc",
+    MZ: "Mozambique",
+    MM: "Myanmar (Birmanie)",
+    NA: "Namibie",
+    NR: "Nauru",
+    NP: "Népal",
+    NL: "Pays-Bas",
+    NZ: "Nouvelle-Zélande",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Corée du Nord",
+    MK: "Macédoine du Nord",
+    NO: "Norvège",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palaos",
+    PA: "Panama",
+    PG: "Papouasie-Nouvelle-Guinée",
+    PY: "Paraguay",
+    PE: "Pérou",
+    PH: "Philippines",
+    PL: "Pologne",
+    PT: "Portugal",
+    QA: "Qatar",
+    RO: "Roumanie",
+    RW: "Rwanda",
+    KN: "Saint-Christophe-et-Niévès",
+    LC: "Sainte-Lucie",
+    VC: "Saint-Vincent-et-les Grenadines",
+    WS: "Samoa",
+    SM: "Saint-Marin",
+    ST: "Sao Tomé-et-Principe",
+    SN: "Sénégal",
+    RS: "Serbie",
+    SC: "Seychelles",
+    SL: "Sierra Leone",
+    SG: "Singapour",
+    SK: "Slovaquie",
+    SI: "Slovénie",
+    SB: "Îles Salomon",
+    SO: "Somalie",
+    KR: "Corée du Sud",
+    SS: "Soudan du Sud",
+    ES: "Espagne",
+    LK: "Sri Lanka",
+    SD: "Soudan",
+    SR: "Suriname",
+    SE: "Suède",
+    CH: "Suisse",
+    SY: "Syrie",
+    TJ: "Tadjikistan",
+    TZ: "Tanzanie",
+    TH: "Thaïlande",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinité-et-Tobago",
+    TN: "Tunisie",
+    TR: "Turquie",
+    TM: "Turkménistan",
+    TV: "Tuvalu",
+    UG: "Ouganda",
+    UA: "Ukraine",
+    AE: "Émirats arabes unis",
+    UY: "Uruguay",
+    UZ: "Ouzbékistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Viêt Nam",
+    YE: "Yémen",
+    ZM: "Zambie",
+    ZW: "Zimbabwe",
+    TL: "Timor oriental",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Hebrew (he), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const he: LocaleData = {
+  locale: "he",
+  names: {
+    US: "ארצות הברית",
+    CA: "קנדה",
+    BR: "ברזיל",
+    GB: "בריטניה",
+    DE: "גרמניה",
+    FR: "צרפת",
+    CN: "סין",
+    JP: "יפן",
+    IN: "הודו",
+    AU: "אוסטרליה",
+    ZA: "דרום אפריקה",
+    NG: "ניגריה",
+    MX: "מקסיקו",
+    RU: "רוסיה",
+    SA: "ערב הסעודית",
+    AF: "אפגניסטן",
+    AL: "אלבניה",
+    DZ: "אלג׳יריה",
+    AD: "אנדורה",
+    AO: "אנגולה",
+    AG: "אנטיגואה וברבודה",
+    AR: "ארגנטינה",
+    AM: "ארמניה",
+    AT: "אוסטריה",
+    AZ: "אזרבייג׳ן",
+    BS: "איי בהאמה",
+    BH: "בחריין",
+    BD: "בנגלדש",
+    BB: "ברבדוס",
+    BY: "בלארוס",
+    BE: "בלגיה",
+    BZ: "בליז",
+    BJ: "בנין",
+    BT: "בהוטן",
+    BO: "בוליביה",
+    BA: "בוסניה והרצגובינה",
+    BW: "בוטסואנה",
+    BN: "ברוניי",
+    BG: "בולגריה",
+    BF: "בורקינה פאסו",
+    BI: "בורונדי",
+    CV: "כף ורדה",
+    KH: "קמבודיה",
+    CM: "קמרון",
+    CF: "הרפובליקה המרכז-אפריקאית",
+    TD: "צ׳אד",
+    CL: "צ׳ילה",
+    CO: "קולומביה",
+    KM: "קומורו",
+    CG: "קונגו - ברזאויל",
+    CD: "קונגו - קינשאסה",
+    CR: "קוסטה ריקה",
+    CI: "חוף השנהב",
+    HR: "קרואטיה",
+    CU: "קובה",
+    CY: "קפריסין",
+    CZ: "צ׳כיה",
+    DK: "דנמרק",
+    DJ: "ג׳יבוטי",
+    DM: "דומיניקה",
+    DO: "הרפובליקה הדומיניקנית",
+    EC: "אקוודור",
+    EG: "מצרים",
+    SV: "אל סלבדור",
+    GQ: "גינאה המשוונית",
+    ER: "אריתריאה",
+    EE: "אסטוניה",
+    SZ: "אסוואטיני",
+    ET: "אתיופיה",
+    FJ: "פיג׳י",
+    FI: "פינלנד",
+    GA: "גבון",
+    GM: "גמביה",
+    GE: "גאורגיה",
+    GH: "גאנה",
+    GR: "יוון",
+    GD: "גרנדה",
+    GT: "גואטמלה",
+    GN: "גינאה",
+    GW: "גינאה-ביסאו",
+    GY: "גיאנה",
+    HT: "האיטי",
+    HN: "הונדורס",
+    HU: "הונגריה",
+    IS: "איסלנד",
+    ID: "אינדונזיה",
+    IR: "איראן",
+    IQ: "עיראק",
+    IE: "אירלנד",
+    IL: "ישראל",
+    IT: "איטליה",
+    JM: "ג׳מייקה",
+    JO: "ירדן",
+    KZ: "קזחסטן",
+    KE: "קניה",
+    KI: "קיריבאטי",
+    KW: "כווית",
+    KG: "קירגיזסטן",
+    LA: "לאוס",
+    LV: "לטביה",
+    LB: "לבנון",
+    LS: "לסוטו",
+    LR: "ליבריה",
+    LY: "לוב",
+    LI: "ליכטנשטיין",
+    LT: "ליטא",
+    LU: "לוקסמבורג",
+    MG: "מדגסקר",
+    MW: "מלאווי",
+    MY: "מלזיה",
+    MV: "האיים המלדיביים",
+    ML: "מאלי",
+    MT: "מלטה",
+    MH: "איי מרשל",
+    MR: "מאוריטניה",
+    MU: "מאוריציוס",
+    FM: "מיקרונזיה",
+    MD: "מולדובה",
+    MC: "מונקו",
+    MN: "מונגוליה",
+    ME: "מונטנגרו",
+    MA: "מרוקו",
+    MZ: "מוזמביק",
+    MM: "מיאנמר (בורמה)",
+    NA: "נמיביה",
+    NR: "נאורו",
+    NP: "נפאל",
+    NL: "הולנד",
+    NZ: "ניו זילנד",
+    NI: "ניקרגואה",
+    NE: "ניז׳ר",
+    KP: "קוריאה הצפונית",
+    MK: "מקדוניה הצפונית",
+    NO: "נורווגיה",
+    OM: "עומאן",
+    PK: "פקיסטן",
+    PW: "פלאו",
+    PA: "פנמה",
+    PG: "פפואה גינאה החדשה",
+    PY: "פרגוואי",
+    PE: "פרו",
+    PH: "הפיליפינים",
+    PL: "פולין",
+    PT: "פורטוגל",
+    QA: "קטאר",
+    RO: "רומניה",
+    RW: "רואנדה",
+    KN: "סנט קיטס ונוויס",
+    LC: "סנט לוסיה",
+    VC: "סנט וינסנט והגרנדינים",
+    WS: "סמואה",
+    SM: "סן מרינו",
+    ST: "סאו טומה ופרינסיפה",
+    SN: "סנגל",
+    RS: "סרביה",
+    SC: "איי סיישל",
+    SL: "סיירה לאון",
+    SG: "סינגפור",
+    SK: "סלובקיה",
+    SI: "סלובניה",
+    SB: "איי שלמה",
+    SO: "סומליה",
+    KR: "קוריאה הדרומית",
+    SS: "דרום סודן",
+    ES: "ספרד",
+    LK: "סרי לנקה",
+    SD: "סודן",
+    SR: "סורינאם",
+    SE: "שוודיה",
+    CH: "שווייץ",
+    SY: "סוריה",
+    TJ: "טג׳יקיסטן",
+    TZ: "טנזניה",
+    TH: "תאילנד",
+    TG: "טוגו",
+    TO: "טונגה",
+    TT: "טרינידד וטובגו",
+    TN: "תוניסיה",
+    TR: "טורקיה",
+    TM: "טורקמניסטן",
+    TV: "טובאלו",
+    UG: "אוגנדה",
+    UA: "אוקראינה",
+    AE: "איחוד האמירויות הערביות",
+    UY: "אורוגוואי",
+    UZ: "אוזבקיסטן",
+    VU: "ונואטו",
+    VE: "ונצואלה",
+    VN: "וייטנאם",
+    YE: "תימן",
+    ZM: "זמביה",
+    ZW: "זימבבואה",
+    TL: "טימור-לסטה",
+  },
+};
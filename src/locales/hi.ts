@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Hindi (hi), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const hi: LocaleData = {
+  locale: "hi",
+  names: {
+    US: "संयुक्त राज्य",
+    CA: "कनाडा",
+    BR: "ब्राज़ील",
+    GB: "यूनाइटेड किंगडम",
+    DE: "जर्मनी",
+    FR: "फ़्रांस",
+    CN: "चीन",
+    JP: "जापान",
+    IN: "भारत",
+    AU: "ऑस्ट्रेलिया",
+    ZA: "दक्षिण अफ़्रीका",
+    NG: "नाइजीरिया",
+    MX: "मैक्सिको",
+    RU: "रूस",
+    SA: "सऊदी अरब",
+    AF: "अफ़गानिस्तान",
+    AL: "अल्बानिया",
+    DZ: "अल्जीरिया",
+    AD: "एंडोरा",
+    AO: "अंगोला",
+    AG: "एंटिगुआ और बरबुडा",
+    AR: "अर्जेंटीना",
+    AM: "आर्मेनिया",
+    AT: "ऑस्ट्रिया",
+    AZ: "अज़रबैजान",
+    BS: "बहामास",
+    BH: "बहरीन",
+    BD: "बांग्लादेश",
+    BB: "बारबाडोस",
+    BY: "बेलारूस",
+    BE: "बेल्जियम",
+    BZ: "बेलीज़",
+    BJ: "बेनिन",
+    BT: "भूटान",
+    BO: "बोलीविया",
+    BA: "बोस्निया और हर्ज़ेगोविना",
+    BW: "बोत्स्वाना",
+    BN: "ब्रूनेई",
+    BG: "बुल्गारिया",
+    BF: "बुर्किना फ़ासो",
+    BI: "बुरुंडी",
+    CV: "केप वर्ड",
+    KH: "कंबोडिया",
+    CM: "कैमरून",
+    CF: "मध्य अफ़्रीकी गणराज्य",
+    TD: "चाड",
+    CL: "चिली",
+    CO: "कोलंबिया",
+    KM: "कोमोरोस",
+    CG: "कांगो – ब्राज़ाविल",
+    CD: "कांगो - किंशासा",
+    CR: "कोस्टारिका",
+    CI: "कोत दिवुआर",
+    HR: "क्रोएशिया",
+    CU: "क्यूबा",
+    CY: "साइप्रस",
+    CZ: "चेकिया",
+    DK: "डेनमार्क",
+    DJ: "जिबूती",
+    DM: "डोमिनिका",
+    DO: "डोमिनिकन गणराज्य",
+    EC: "इक्वाडोर",
+    EG: "मिस्र",
+    SV: "अल सल्वाडोर",
+    GQ: "इक्वेटोरियल गिनी",
+    ER: "इरिट्रिया",
+    EE: "एस्टोनिया",
+    SZ: "एस्वाटिनी",
+    ET: "इथियोपिया",
+    FJ: "फ़िजी",
+    FI: "फ़िनलैंड",
+    GA: "गैबॉन",
+    GM: "गाम्बिया",
+    GE: "जॉर्जिया",
+    GH: "घाना",
+    GR: "यूनान",
+    GD: "ग्रेनाडा",
+    GT: "ग्वाटेमाला",
+    GN: "गिनी",
+    GW: "गिनी-बिसाउ",
+    GY: "गुयाना",
+    HT: "हैती",
+    HN: "होंडूरास",
+    HU: "हंगरी",
+    IS: "आइसलैंड",
+    ID: "इंडोनेशिया",
+    IR: "ईरान",
+    IQ: "इराक",
+    IE: "आयरलैंड",
+    IL: "इज़राइल",
+    IT: "इटली",
+    JM: "जमैका",
+    JO: "जॉर्डन",
+    KZ: "कज़ाखस्तान",
+    KE: "केन्या",
+    KI: "किरिबाती",
+    KW: "कुवैत",
+    KG: "किर्गिज़स्तान",
+    LA: "लाओस",
+    LV: "लातविया",
+    LB: "लेबनान",
+    LS: "लेसोथो",
+    LR: "लाइबेरिया",
+    LY: "लीबिया",
+    LI: "लिचेंस्टीन",
+    LT: "लिथुआनिया",
+    LU: "लग्ज़मबर्ग",
+    MG: "मेडागास्कर",
+    MW: "मलावी",
+    MY: "मलेशिया",
+    MV: "मालदीव",
+    ML: "माली",
+    MT: "माल्टा",
+    MH: "मार्शल द्वीपसमूह",
+    MR: "मॉरिटानिया",
+    MU: "मॉरीशस",
+    FM: "माइक्रोनेशिया",
+    MD: "मॉल्डोवा",
+    MC: "मोनाको",
+    MN: "मंगोलिया",
+    ME: "मोंटेनेग्रो",
+    MA: "मोरक्को",
+    MZ: "मोज़ांबिक",
+    MM: "म्यांमार (बर्मा)",
+    NA: "नामीबिया",
+    NR: "नाउरु",
+    NP: "नेपाल",
+    NL: "नीदरलैंड",
+    NZ: "न्यूज़ीलैंड",
+    NI: "निकारागुआ",
+    NE: "नाइजर",
+    KP: "उत्तर कोरिया",
+    MK: "उत्तरी मकदूनिया",
+    NO: "नॉर्वे",
+    OM: "ओमान",
+    PK: "पाकिस्तान",
+    PW: "पलाऊ",
+    PA: "पनामा",
+    PG: "पापुआ न्यू गिनी",
+    PY: "पराग्वे",
+    PE: "पेरू",
+    PH: "फ़िलिपींस",
+    PL: "पोलैंड",
+    PT: "पुर्तगाल",
+    QA: "क़तर",
+    RO: "रोमानिया",
+    RW: "रवांडा",
+    KN: "सेंट किट्स और नेविस",
+    LC: "सेंट लूसिया",
+    VC: "सेंट विंसेंट और ग्रेनाडाइंस",
+    WS: "समोआ",
+    SM: "सैन मेरीनो",
+    ST: "साओ टोम और प्रिंसिपे",
+    SN: "सेनेगल",
+    RS: "सर्बिया",
+    SC: "सेशेल्स",
+    SL: "सिएरा लियोन",
+    SG: "सिंगापुर",
+    SK: "स्लोवाकिया",
+    SI: "स्लोवेनिया",
+    SB: "सोलोमन द्वीपसमूह",
+    SO: "सोमालिया",
+    KR: "दक्षिण कोरिया",
+    SS: "दक्षिण सूडान",
+    ES: "स्पेन",
+    LK: "श्रीलंका",
+    SD: "सूडान",
+    SR: "सूरीनाम",
+    SE: "स्वीडन",
+    CH: "स्विट्ज़रलैंड",
+    SY: "सीरिया",
+    TJ: "ताजिकिस्तान",
+    TZ: "तंज़ानिया",
+    TH: "थाईलैंड",
+    TG: "टोगो",
+    TO: "टोंगा",
+    TT: "त्रिनिदाद और टोबैगो",
+    TN: "ट्यूनीशिया",
+    TR: "तुर्किये",
+    TM: "तुर्कमेनिस्तान",
+    TV: "तुवालू",
+    UG: "युगांडा",
+    UA: "यूक्रेन",
+    AE: "संयुक्त अरब अमीरात",
+    UY: "उरूग्वे",
+    UZ: "उज़्बेकिस्तान",
+    VU: "वनुआतू",
+    VE: "वेनेज़ुएला",
+    VN: "वियतनाम",
+    YE: "यमन",
+    ZM: "ज़ाम्बिया",
+    ZW: "ज़िम्बाब्वे",
+    TL: "तिमोर-लेस्त",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Hungarian (hu), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const hu: LocaleData = {
+  locale: "hu",
+  names: {
+    US: "Egyesült Államok",
+    CA: "Kanada",
+    BR: "Brazília",
+    GB: "Egyesült Királyság",
+    DE: "Németország",
+    FR: "Franciaország",
+    CN: "Kína",
+    JP: "Japán",
+    IN: "India",
+    AU: "Ausztrália",
+    ZA: "Dél-afrikai Köztársaság",
+    NG: "Nigéria",
+    MX: "Mexikó",
+    RU: "Oroszország",
+    SA: "Szaúd-Arábia",
+    AF: "Afganisztán",
+    AL: "Albánia",
+    DZ: "Algéria",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua és Barbuda",
+    AR: "Argentína",
+    AM: "Örményország",
+    AT: "Ausztria",
+    AZ: "Azerbajdzsán",
+    BS: "Bahama-szigetek",
+    BH: "Bahrein",
+    BD: "Banglades",
+    BB: "Barbados",
+    BY: "Belarusz",
+    BE: "Belgium",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhután",
+    BO: "Bolívia",
+    BA: "Bosznia-Hercegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgária",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Zöld-foki Köztársaság",
+    KH: "Kambodzsa",
+    CM: "Kamerun",
+    CF: "Közép-afrikai Köztársaság",
+    TD: "Csád",
+    CL: "Chile",
+    CO: "Kolumbia",
+    KM: "Comore-szigetek",
+    CG: "Kongó – Brazzaville",
+    CD: "Kongó – Kinshasa",
+    CR: "Costa Rica",
+    CI: "Elefántcsontpart",
+    HR: "Horvátország",
+    CU: "Kuba",
+    CY: "Ciprus",
+    CZ: "Csehország",
+    DK: "Dánia",
+    DJ: "Dzsibuti",
+    DM: "Dominika",
+    DO: "Dominikai Köztársaság",
+    EC: "Ecuador",
+    EG: "Egyiptom",
+    SV: "Salvador",
+    GQ: "Egyenlítői-Guinea",
+    ER: "Eritrea",
+    EE: "Észtország",
+    SZ: "Szváziföld",
+    ET: "Etiópia",
+    FJ: "Fidzsi",
+    FI: "Finnország",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Grúzia",
+    GH: "Ghána",
+    GR: "Görögország",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Bissau-Guinea",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Magyarország",
+    IS: "Izland",
+    ID: "Indonézia",
+    IR: "Irán",
+    IQ: "Irak",
+    IE: "Írország",
+    IL: "Izrael",
+    IT: "Olaszország",
+    JM: "Jamaica",
+    JO: "Jordánia",
+    KZ: "Kazahsztán",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuvait",
+    KG: "Kirgizisztán",
+    LA: "Laosz",
+    LV: "Lettország",
+    LB: "Libanon",
+    LS: "Lesotho",
+    LR: "Libéria",
+    LY: "Líbia",
+    LI: "Liechtenstein",
+    LT: "Litvánia",
+    LU: "Luxemburg",
+    MG: "Madagaszkár",
+    MW: "Malawi",
+    MY: "Malajzia",
+    MV: "Maldív-szigetek",
+    ML: "Mali",
+    MT: "Málta",
+    MH: "Marshall-szigetek",
+    MR: "Mauritánia",
+    MU: "Mauritius",
+    FM: "Mikronézia",
+    MD: "Moldova",
+    MC: "Monaco",
+    MN: "Mongólia",
+    ME: "Montenegró",
+    MA: "Marokkó",
+    MZ: "Mozambik",
+    MM: "Mianmar",
+    NA: "Namíbia",
+    NR: "Nauru",
+    NP: "Nepál",
+    NL: "Hollandia",
+    NZ: "Új-Zéland",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Észak-Korea",
+    MK: "Észak-Macedónia",
+    NO: "Norvégia",
+    OM: "Omán",
+    PK: "Pakisztán",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Pápua Új-Guinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Fülöp-szigetek",
+    PL: "Lengyelország",
+    PT: "Portugália",
+    QA: "Katar",
+    RO: "Románia",
+    RW: "Ruanda",
+    KN: "Saint Kitts és Nevis",
+    LC: "Saint Lucia",
+    VC: "Saint Vincent és a Grenadine-szigetek",
+    WS: "Szamoa",
+    SM: "San Marino",
+    ST: "São Tomé és Príncipe",
+    SN: "Szenegál",
+    RS: "Szerbia",
+    SC: "Seychelle-szigetek",
+    SL: "Sierra Leone",
+    SG: "Szingapúr",
+    SK: "Szlovákia",
+    SI: "Szlovénia",
+    SB: "Salamon-szigetek",
+    SO: "Szomália",
+    KR: "Dél-Korea",
+    SS: "Dél-Szudán",
+    ES: "Spanyolország",
+    LK: "Srí Lanka",
+    SD: "Szudán",
+    SR: "Suriname",
+    SE: "Svédország",
+    CH: "Svájc",
+    SY: "Szíria",
+    TJ: "Tádzsikisztán",
+    TZ: "Tanzánia",
+    TH: "Thaiföld",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad és Tobago",
+    TN: "Tunézia",
+    TR: "Törökország",
+    TM: "Türkmenisztán",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukrajna",
+    AE: "Egyesült Arab Emírségek",
+    UY: "Uruguay",
+    UZ: "Üzbegisztán",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnám",
+    YE: "Jemen",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Kelet-Timor",
+  },
+};
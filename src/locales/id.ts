@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Indonesian (id), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const id: LocaleData = {
+  locale: "id",
+  names: {
+    US: "Amerika Serikat",
+    CA: "Kanada",
+    BR: "Brasil",
+    GB: "Inggris Raya",
+    DE: "Jerman",
+    FR: "Prancis",
+    CN: "Tiongkok",
+    JP: "Jepang",
+    IN: "India",
+    AU: "Australia",
+    ZA: "Afrika Selatan",
+    NG: "Nigeria",
+    MX: "Meksiko",
+    RU: "Rusia",
+    SA: "Arab Saudi",
+    AF: "Afganistan",
+    AL: "Albania",
+    DZ: "Aljazair",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua dan Barbuda",
+    AR: "Argentina",
+    AM: "Armenia",
+    AT: "Austria",
+    AZ: "Azerbaijan",
+    BS: "Bahama",
+    BH: "Bahrain",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "Belgia",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnia dan Herzegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgaria",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Tanjung Verde",
+    KH: "Kamboja",
+    CM: "Kamerun",
+    CF: "Republik Afrika Tengah",
+    TD: "Chad",
+    CL: "Cile",
+    CO: "Kolombia",
+    KM: "Komoro",
+    CG: "Kongo - Brazzaville",
+    CD: "Kongo - Kinshasa",
+    CR: "Kosta Rika",
+    CI: "Côte d’Ivoire",
+    HR: "Kroasia",
+    CU: "Kuba",
+    CY: "Siprus",
+    CZ: "Ceko",
+    DK: "Denmark",
+    DJ: "Jibuti",
+    DM: "Dominika",
+    DO: "Republik Dominika",
+    EC: "Ekuador",
+    EG: "Mesir",
+    SV: "El Salvador",
+    GQ: "Guinea Ekuatorial",
+    ER: "Eritrea",
+    EE: "Estonia",
+    SZ: "eSwatini",
+    ET: "Etiopia",
+    FJ: "Fiji",
+    FI: "Finlandia",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgia",
+    GH: "Ghana",
+    GR: "Yunani",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Hungaria",
+    IS: "Islandia",
+    ID: "Indonesia",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Irlandia",
+    IL: "Israel",
+    IT: "Italia",
+    JM: "Jamaika",
+    JO: "Yordania",
+    KZ: "Kazakhstan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kirgizstan",
+    LA: "Laos",
+    LV: "Latvia",
+    LB: "Lebanon",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libya",
+    LI: "Liechtenstein",
+    LT: "Lituania",
+    LU: "Luksemburg",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Malaysia",
+    MV: "Maladewa",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Kepulauan Marshall",
+    MR: "Mauritania",
+    MU: "Mauritius",
+    FM: "Mikronesia",
+    MD: "Moldova",
+    MC: "Monako",
+    MN: "Mongolia",
+    ME: "Montenegro",
+    MA: "Maroko",
+    MZ: "Mozambik",
+    MM: "Myanmar (Burma)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Belanda",
+    NZ: "Selandia Baru",
+    NI: "Nikaragua",
+    NE: "Niger",
+    KP: "Korea Utara",
+    MK: "Makedonia Utara",
+    NO: "Norwegia",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua Nugini",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filipina",
+    PL: "Polandia",
+    PT: "Portugal",
+    QA: "Qatar",
+    RO: "Rumania",
+    RW: "Rwanda",
+    KN: "Saint Kitts dan Nevis",
+    LC: "Saint Lucia",
+    VC: "Saint Vincent dan Grenadine",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "Sao Tome dan Principe",
+    SN: "Senegal",
+    RS: "Serbia",
+    SC: "Seychelles",
+    SL: "Sierra Leone",
+    SG: "Singapura",
+    SK: "Slovakia",
+    SI: "Slovenia",
+    SB: "Kepulauan Solomon",
+    SO: "Somalia",
+    KR: "Korea Selatan",
+    SS: "Sudan Selatan",
+    ES: "Spanyol",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Suriname",
+    SE: "Swedia",
+    CH: "Swiss",
+    SY: "Suriah",
+    TJ: "Tajikistan",
+    TZ: "Tanzania",
+    TH: "Thailand",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad dan Tobago",
+    TN: "Tunisia",
+    TR: "Turki",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukraina",
+    AE: "Uni Emirat Arab",
+    UY: "Uruguay",
+    UZ: "Uzbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Yaman",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Timor Leste",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Italian (it), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const it: LocaleData = {
+  locale: "it",
+  names: {
+    US: "Stati Uniti",
+    CA: "Canada",
+    BR: "Brasile",
+    GB: "Regno Unito",
+    DE: "Germania",
+    FR: "Francia",
+    CN: "Cina",
+    JP: "Giappone",
+    IN: "India",
+    AU: "Australia",
+    ZA: "Sudafrica",
+    NG: "Nigeria",
+    MX: "Messico",
+    RU: "Russia",
+    SA: "Arabia Saudita",
+    AF: "Afghanistan",
+    AL: "Albania",
+    DZ: "Algeria",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua e Barbuda",
+    AR: "Argentina",
+    AM: "Armenia",
+    AT: "Austria",
+    AZ: "Azerbaigian",
+    BS: "Bahamas",
+    BH: "Bahrein",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Bielorussia",
+    BE: "Belgio",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnia ed Erzegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgaria",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Capo Verde",
+    KH: "Cambogia",
+    CM: "Camerun",
+    CF: "Repubblica Centrafricana",
+    TD: "Ciad",
+    CL: "Cile",
+    CO: "Colombia",
+    KM: "Comore",
+    CG: "Congo-Brazzaville",
+    CD: "Congo - Kinshasa",
+    CR: "Costa Rica",
+    CI: "Costa d’Avorio",
+    HR: "Croazia",
+    CU: "Cuba",
+    CY: "Cipro",
+    CZ: "Cechia",
+    DK: "Danimarca",
+    DJ: "Gibuti",
+    DM: "Dominica",
+    DO: "Repubblica Dominicana",
+    EC: "Ecuador",
+    EG: "Egitto",
+    SV: "El Salvador",
+    GQ: "Guinea Equatoriale",
+    ER: "Eritrea",
+    EE: "Estonia",
+    SZ: "Eswatini",
+    ET: "Etiopia",
+    FJ: "Figi",
+    FI: "Finlandia",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgia",
+    GH: "Ghana",
+    GR: "Grecia",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Ungheria",
+    IS: "Islanda",
+    ID: "Indonesia",
+    IR: "Iran",
+    IQ: "Iraq",
+    IE: "Irlanda",
+    IL: "Israele",
+    IT: "Italia",
+    JM: "Giamaica",
+    JO: "Giordania",
+    KZ: "Kazakistan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kirghizistan",
+    LA: "Laos",
+    LV: "Lettonia",
+    LB: "Libano",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libia",
+    LI: "Liechtenstein",
+    LT: "Lituania",
+    LU: "Lussemburgo",
+    MG: "Madagascar",
+    MW: "Malawi",
+    MY: "Malaysia",
+    MV: "Maldive",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Isole Marshall",
+    MR: "Mauritania",
+    MU: "Mauritius",
+    FM: "Micronesia",
+    MD: "Moldavia",
+    MC: "Monaco",
+    MN: "Mongolia",
+    ME: "Montenegro",
+    MA: "Marocco",
+    MZ: "Mozambico",
+    MM: "Myanmar (Birmania)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Paesi Bassi",
+    NZ: "Nuova Zelanda",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Corea del Nord",
+    MK: "Macedonia del Nord",
+    NO: "Norvegia",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua Nuova Guinea",
+    PY: "Paraguay",
+    PE: "Perù",
+    PH: "Filippine",
+    PL: "Polonia",
+    PT: "Portogallo",
+    QA: "Qatar",
+    RO: "Romania",
+    RW: "Ruanda",
+    KN: "Saint Kitts e Nevis",
+    LC: "Saint Lucia",
+    VC: "Saint Vincent e Grenadine",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "São Tomé e Príncipe",
+    SN: "Senegal",
+    RS: "Serbia",
+    SC: "Seychelles",
+    SL: "Sierra Leone",
+    SG: "Singapore",
+    SK: "Slovacchia",
+    SI: "Slovenia",
+    SB: "Isole Salomone",
+    SO: "Somalia",
+    KR: "Corea del Sud",
+    SS: "Sud Sudan",
+    ES: "Spagna",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Suriname",
+    SE: "Svezia",
+    CH: "Svizzera",
+    SY: "Siria",
+    TJ: "Tagikistan",
+    TZ: "Tanzania",
+    TH: "Thailandia",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad e Tobago",
+    TN: "Tunisia",
+    TR: "Turchia",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ucraina",
+    AE: "Emirati Arabi Uniti",
+    UY: "Uruguay",
+    UZ: "Uzbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Yemen",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Timor Est",
+  },
+};
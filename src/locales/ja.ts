@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Japanese (ja), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const ja: LocaleData = {
+  locale: "ja",
+  names: {
+    US: "アメリカ合衆国",
+    CA: "カナダ",
+    BR: "ブラジル",
+    GB: "イギリス",
+    DE: "ドイツ",
+    FR: "フランス",
+    CN: "中国",
+    JP: "日本",
+    IN: "インド",
+    AU: "オーストラリア",
+    ZA: "南アフリカ",
+    NG: "ナイジェリア",
+    MX: "メキシコ",
+    RU: "ロシア",
+    SA: "サウジアラビア",
+    AF: "アフガニスタン",
+    AL: "アルバニア",
+    DZ: "アルジェリア",
+    AD: "アンドラ",
+    AO: "アンゴラ",
+    AG: "アンティグア・バーブーダ",
+    AR: "アルゼンチン",
+    AM: "アルメニア",
+    AT: "オーストリア",
+    AZ: "アゼルバイジャン",
+    BS: "バハマ",
+    BH: "バーレーン",
+    BD: "バングラデシュ",
+    BB: "バルバドス",
+    BY: "ベラルーシ",
+    BE: "ベルギー",
+    BZ: "ベリーズ",
+    BJ: "ベナン",
+    BT: "ブータン",
+    BO: "ボリビア",
+    BA: "ボスニア・ヘルツェゴビナ",
+    BW: "ボツワナ",
+    BN: "ブルネイ",
+    BG: "ブルガリア",
+    BF: "ブルキナファソ",
+    BI: "ブルンジ",
+    CV: "カーボベルデ",
+    KH: "カンボジア",
+    CM: "カメルーン",
+    CF: "中央アフリカ共和国",
+    TD: "チャド",
+    CL: "チリ",
+    CO: "コロンビア",
+    KM: "コモロ",
+    CG: "コンゴ共和国(ブラザビル)",
+    CD: "コンゴ民主共和国(キンシャサ)",
+    CR: "コスタリカ",
+    CI: "コートジボワール",
+    HR: "クロアチア",
+    CU: "キューバ",
+    CY: "キプロス",
+    CZ: "チェコ",
+    DK: "デンマーク",
+    DJ: "ジブチ",
+    DM: "ドミニカ国",
+    DO: "ドミニカ共和国",
+    EC: "エクアドル",
+    EG: "エジプト",
+    SV: "エルサルバドル",
+    GQ: "赤道ギニア",
+    ER: "エリトリア",
+    EE: "エストニア",
+    SZ: "エスワティニ",
+    ET: "エチオピア",
+    FJ: "フィジー",
+    FI: "フィンランド",
+    GA: "ガボン",
+    GM: "ガンビア",
+    GE: "ジョージア",
+    GH: "ガーナ",
+    GR: "ギリシャ",
+    GD: "グレナダ",
+    GT: "グアテマラ",
+    GN: "ギニア",
+    GW: "ギニアビサウ",
+    GY: "ガイアナ",
+    HT: "ハイチ",
+    HN: "ホンジュラス",
+    HU: "ハンガリー",
+    IS: "アイスランド",
+    ID: "インドネシア",
+    IR: "イラン",
+    IQ: "イラク",
+    IE: "アイルランド",
+    IL: "イスラエル",
+    IT: "イタリア",
+    JM: "ジャマイカ",
+    JO: "ヨルダン",
+    KZ: "カザフスタン",
+    KE: "ケニア",
+    KI: "キリバス",
+    KW: "クウェート",
+    KG: "キルギス",
+    LA: "ラオス",
+    LV: "ラトビア",
+    LB: "レバノン",
+    LS: "レソト",
+    LR: "リベリア",
+    LY: "リビア",
+    LI: "リヒテンシュタイン",
+    LT: "リトアニア",
+    LU: "ルクセンブルク",
+    MG: "マダガスカル",
+    MW: "マラウイ",
+    MY: "マレーシア",
+    MV: "モルディブ",
+    ML: "マリ",
+    MT: "マルタ",
+    MH: "マーシャル諸島",
+    MR: "モーリタニア",
+    MU: "モーリシャス",
+    FM: "ミクロネシア連邦",
+    MD: "モルドバ",
+    MC: "モナコ",
+    MN: "モンゴル",
+    ME: "モンテネグロ",
+    MA: "モロッコ",
+    MZ: "モザンビーク",
+    MM: "ミャンマー (ビルマ)",
+    NA: "ナミビア",
+    NR: "ナウル",
+    NP: "ネパール",
+    NL: "オランダ",
+    NZ: "ニュージーランド",
+    NI: "ニカラグア",
+    NE: "ニジェール",
+    KP: "北朝鮮",
+    MK: "北マケドニア",
+    NO: "ノルウェー",
+    OM: "オマーン",
+    PK: "パキスタン",
+    PW: "パラオ",
+    PA: "パナマ",
+    PG: "パプアニューギニア",
+    PY: "パラグアイ",
+    PE: "ペルー",
+    PH: "フィリピン",
+    PL: "ポーランド",
+    PT: "ポルトガル",
+    QA: "カタール",
+    RO: "ルーマニア",
+    RW: "ルワンダ",
+    KN: "セントクリストファー・ネーヴィス",
+    LC: "セントルシア",
+    VC: "セントビンセント及びグレナディーン諸島",
+    WS: "サモア",
+    SM: "サンマリノ",
+    ST: "サントメ・プリンシペ",
+    SN: "セネガル",
+    RS: "セルビア",
+    SC: "セーシェル",
+    SL: "シエラレオネ",
+    SG: "シンガポール",
+    SK: "スロバキア",
+    SI: "スロベニア",
+    SB: "ソロモン諸島",
+    SO: "ソマリア",
+    KR: "韓国",
+    SS: "南スーダン",
+    ES: "スペイン",
+    LK: "スリランカ",
+    SD: "スーダン",
+    SR: "スリナム",
+    SE: "スウェーデン",
+    CH: "スイス",
+    SY: "シリア",
+    TJ: "タジキスタン",
+    TZ: "タンザニア",
+    TH: "タイ",
+    TG: "トーゴ",
+    TO: "トンガ",
+    TT: "トリニダード・トバゴ",
+    TN: "チュニジア",
+    TR: "トルコ",
+    TM: "トルクメニスタン",
+    TV: "ツバル",
+    UG: "ウガンダ",
+    UA: "ウクライナ",
+    AE: "アラブ首長国連邦",
+    UY: "ウルグアイ",
+    UZ: "ウズベキスタン",
+    VU: "バヌアツ",
+    VE: "ベネズエラ",
+    VN: "ベトナム",
+    YE: "イエメン",
+    ZM: "ザンビア",
+    ZW: "ジンバブエ",
+    TL: "東ティモール",
+  },
+};
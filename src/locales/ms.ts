@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Malay (ms), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const ms: LocaleData = {
+  locale: "ms",
+  names: {
+    US: "Amerika Syarikat",
+    CA: "Kanada",
+    BR: "Brazil",
+    GB: "United Kingdom",
+    DE: "Jerman",
+    FR: "Perancis",
+    CN: "China",
+    JP: "Jepun",
+    IN: "India",
+    AU: "Australia",
+    ZA: "Afrika Selatan",
+    NG: "Nigeria",
+    MX: "Mexico",
+    RU: "Rusia",
+    SA: "Arab Saudi",
+    AF: "Afghanistan",
+    AL: "Albania",
+    DZ: "Algeria",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua dan Barbuda",
+    AR: "Argentina",
+    AM: "Armenia",
+    AT: "Austria",
+    AZ: "Azerbaijan",
+    BS: "Bahamas",
+    BH: "Bahrain",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "Belgium",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnia dan Herzegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgaria",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Cape Verde",
+    KH: "Kemboja",
+    CM: "Cameroon",
+    CF: "Republik Afrika Tengah",
+    TD: "Chad",
+    CL: "Chile",
+    CO: "Colombia",
+    KM: "Comoros",
+    CG: "Congo - Brazzaville",
+    CD: "Congo - Kinshasa",
+    CR: "Costa Rica",
+    CI: "Cote d’Ivoire",
+    HR: "Croatia",
+    CU: "Cuba",
+    CY: "Cyprus",
+    CZ: "Czechia",
+    DK: "Denmark",
+    DJ: "Djibouti",
+    DM: "Dominica",
+    DO: "Republik Dominica",
+    EC: "Ecuador",
+    EG: "Mesir",
+    SV: "El Salvador",
+    GQ: "Guinea Khatulistiwa",
+    ER: "Eritrea",
+    EE: "Estonia",
+    SZ: "Eswatini",
+    ET: "Ethiopia",
+    FJ: "Fiji",
+    FI: "Finland",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgia",
+    GH: "Ghana",
+    GR: "Greece",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Hungary",
+    IS: "Iceland",
+    ID: "Indonesia",
+    IR: "Iran",
+    IQ: "Iraq",
+    IE: "Ireland",
+    IL: "Israel",
+    IT: "Itali",
+    JM: "Jamaica",
+    JO: "Jordan",
+    KZ: "Kazakhstan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kyrgyzstan",
+    LA: "Laos",
+    LV: "Latvia",
+    LB: "Lubnan",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libya",
+    LI: "Liechtenstein",
+    LT: "Lithuania",
+    LU: "Luxembourg",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Malaysia",
+    MV: "Maldives",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Kepulauan Marshall",
+    MR: "Mauritania",
+    MU: "Mauritius",
+    FM: "Micronesia",
+    MD: "Moldova",
+    MC: "Monaco",
+    MN: "Mongolia",
+    ME: "Montenegro",
+    MA: "Maghribi",
+    MZ: "Mozambique",
+    MM: "Myanmar (Burma)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Belanda",
+    NZ: "New Zealand",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Korea Utara",
+    MK: "Macedonia Utara",
+    NO: "Norway",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua New Guinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filipina",
+    PL: "Poland",
+    PT: "Portugal",
+    QA: "Qatar",
+    RO: "Romania",
+    RW: "Rwanda",
+    KN: "Saint Kitts dan Nevis",
+    LC: "Saint Lucia",
+    VC: "Saint Vincent dan Grenadines",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "Sao Tome dan Principe",
+    SN: "Senegal",
+    RS: "Serbia",
+    SC: "Seychelles",
+    SL: "Sierra Leone",
+    SG: "Singapura",
+    SK: "Slovakia",
+    SI: "Slovenia",
+    SB: "Kepulauan Solomon",
+    SO: "Somalia",
+    KR: "Korea Selatan",
+    SS: "Sudan Selatan",
+    ES: "Sepanyol",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Surinam",
+    SE: "Sweden",
+    CH: "Switzerland",
+    SY: "Syria",
+    TJ: "Tajikistan",
+    TZ: "Tanzania",
+    TH: "Thailand",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad dan Tobago",
+    TN: "Tunisia",
+    TR: "Turkiye",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukraine",
+    AE: "Emiriah Arab Bersatu",
+    UY: "Uruguay",
+    UZ: "Uzbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Yaman",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Timor-Leste",
+  },
+};
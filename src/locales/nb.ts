@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Norwegian Bokmål (nb), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const nb: LocaleData = {
+  locale: "nb",
+  names: {
+    US: "USA",
+    CA: "Canada",
+    BR: "Brasil",
+    GB: "Storbritannia",
+    DE: "Tyskland",
+    FR: "Frankrike",
+    CN: "Kina",
+    JP: "Japan",
+    IN: "India",
+    AU: "Australia",
+    ZA: "Sør-Afrika",
+    NG: "Nigeria",
+    MX: "Mexico",
+    RU: "Russland",
+    SA: "Saudi-Arabia",
+    AF: "Afghanistan",
+    AL: "Albania",
+    DZ: "Algerie",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua og Barbuda",
+    AR: "Argentina",
+    AM: "Armenia",
+    AT: "Østerrike",
+    AZ: "Aserbajdsjan",
+    BS: "Bahamas",
+    BH: "Bahrain",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "Belgia",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnia-Hercegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgaria",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Kapp Verde",
+    KH: "Kambodsja",
+    CM: "Kamerun",
+    CF: "Den sentralafrikanske republikk",
+    TD: "Tsjad",
+    CL: "Chile",
+    CO: "Colombia",
+    KM: "Komorene",
+    CG: "Kongo-Brazzaville",
+    CD: "Kongo",
+    CR: "Costa Rica",
+    CI: "Elfenbenskysten",
+    HR: "Kroatia",
+    CU: "Cuba",
+    CY: "Kypros",
+    CZ: "Tsjekkia",
+    DK: "Danmark",
+    DJ: "Djibouti",
+    DM: "Dominica",
+    DO: "Den dominikanske republikk",
+    EC: "Ecuador",
+    EG: "Egypt",
+    SV: "El Salvador",
+    GQ: "Ekvatorial-Guinea",
+    ER: "Eritrea",
+    EE: "Estland",
+    SZ: "Eswatini",
+    ET: "Etiopia",
+    FJ: "Fiji",
+    FI: "Finland",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgia",
+    GH: "Ghana",
+    GR: "Hellas",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Ungarn",
+    IS: "Island",
+    ID: "Indonesia",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Irland",
+    IL: "Israel",
+    IT: "Italia",
+    JM: "Jamaica",
+    JO: "Jordan",
+    KZ: "Kasakhstan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kirgisistan",
+    LA: "Laos",
+    LV: "Latvia",
+    LB: "Libanon",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libya",
+    LI: "Liechtenstein",
+    LT: "Litauen",
+    LU: "Luxemburg",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Malaysia",
+    MV: "Maldivene",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Marshalløyene",
+    MR: "Mauritania",
+    MU: "Mauritius",
+    FM: "Mikronesiaføderasjonen",
+    MD: "Moldova",
+    MC: "Monaco",
+    MN: "Mongolia",
+    ME: "Montenegro",
+    MA: "Marokko",
+    MZ: "Mosambik",
+    MM: "Myanmar (Burma)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Nederland",
+    NZ: "New Zealand",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Nord-Korea",
+    MK: "Nord-Makedonia",
+    NO: "Norge",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua Ny-Guinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filippinene",
+    PL: "Polen",
+    PT: "Portugal",
+    QA: "Qatar",
+    RO: "Romania",
+    RW: "Rwanda",
+    KN: "Saint Kitts og Nevis",
+    LC: "St. Lucia",
+    VC: "St. Vincent og Grenadinene",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "São Tomé og Príncipe",
+    SN: "Senegal",
+    RS: "Serbia",
+    SC: "Seychellene",
+    SL: "Sierra Leone",
+    SG: "Singapore",
+    SK: "Slovakia",
+    SI: "Slovenia",
+    SB: "Salomonøyene",
+    SO: "Somalia",
+    KR: "Sør-Korea",
+    SS: "Sør-Sudan",
+    ES: "Spania",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Surinam",
+    SE: "Sverige",
+    CH: "Sveits",
+    SY: "Syria",
+    TJ: "Tadsjikistan",
+    TZ: "Tanzania",
+    TH: "Thailand",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad og Tobago",
+    TN: "Tunisia",
+    TR: "Tyrkia",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukraina",
+    AE: "De forente arabiske emirater",
+    UY: "Uruguay",
+    UZ: "Usbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Jemen",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Øst-Timor",
+  },
+};
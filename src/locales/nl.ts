@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Dutch (nl), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const nl: LocaleData = {
+  locale: "nl",
+  names: {
+    US: "Verenigde Staten",
+    CA: "Canada",
+    BR: "Brazilië",
+    GB: "Verenigd Koninkrijk",
+    DE: "Duitsland",
+    FR: "Frankrijk",
+    CN: "China",
+    JP: "Japan",
+    IN: "India",
+    AU: "Australië",
+    ZA: "Zuid-Afrika",
+    NG: "Nigeria",
+    MX: "Mexico",
+    RU: "Rusland",
+    SA: "Saoedi-Arabië",
+    AF: "Afghanistan",
+    AL: "Albanië",
+    DZ: "Algerije",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua en Barbuda",
+    AR: "Argentinië",
+    AM: "Armenië",
+    AT: "Oostenrijk",
+    AZ: "Azerbeidzjan",
+    BS: "Bahama’s",
+    BH: "Bahrein",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "België",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnië en Herzegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgarije",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Kaapverdië",
+    KH: "Cambodja",
+    CM: "Kameroen",
+    CF: "Centraal-Afrikaanse Republiek",
+    TD: "Tsjaad",
+    CL: "Chili",
+    CO: "Colombia",
+    KM: "Comoren",
+    CG: "Congo-Brazzaville",
+    CD: "Congo-Kinshasa",
+    CR: "Costa Rica",
+    CI: "Ivoorkust",
+    HR: "Kroatië",
+    CU: "Cuba",
+    CY: "Cyprus",
+    CZ: "Tsjechië",
+    DK: "Denemarken",
+    DJ: "Djibouti",
+    DM: "Dominica",
+    DO: "Dominicaanse Republiek",
+    EC: "Ecuador",
+    EG: "Egypte",
+    SV: "El Salvador",
+    GQ: "Equatoriaal-Guinea",
+    ER: "Eritrea",
+    EE: "Estland",
+    SZ: "Eswatini",
+    ET: "Ethiopië",
+    FJ: "Fiji",
+    FI: "Finland",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgië",
+    GH: "Ghana",
+    GR: "Griekenland",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinee",
+    GW: "Guinee-Bissau",
+    GY: "Guyana",
+    HT: "Haïti",
+    HN: "Honduras",
+    HU: "Hongarije",
+    IS: "IJsland",
+    ID: "Indonesië",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Ierland",
+    IL: "Israël",
+    IT: "Italië",
+    JM: "Jamaica",
+    JO: "Jordanië",
+    KZ: "Kazachstan",
+    KE: "Kenia",
+    KI: "Kiribati",
+    KW: "Koeweit",
+    KG: "Kirgizië",
+    LA: "Laos",
+    LV: "Letland",
+    LB: "Libanon",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libië",
+    LI: "Liechtenstein",
+    LT: "Litouwen",
+    LU: "Luxemburg",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Maleisië",
+    MV: "Maldiven",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Marshalleilanden",
+    MR: "Mauritanië",
+    MU: "Mauritius",
+    FM: "Micronesia",
+    MD: "Moldavië",
+    MC: "Monaco",
+    MN: "Mongolië",
+    ME: "Montenegro",
+    MA: "Marokko",
+    MZ: "Mozambique",
+    MM: "Myanmar (Birma)",
+    NA: "Namibië",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Nederland",
+    NZ: "Nieuw-Zeeland",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Noord-Korea",
+    MK: "Noord-Macedonië",
+    NO: "Noorwegen",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papoea-Nieuw-Guinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filipijnen",
+    PL: "Polen",
+    PT: "Portugal",
+    QA: "Qatar",
+    RO: "Roemenië",
+    RW: "Rwanda",
+    KN: "Saint Kitts en Nevis",
+    LC: "Saint Lucia",
+    VC: "Saint Vincent en de Grenadines",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "Sao Tomé en Principe",
+    SN: "Senegal",
+    RS: "Servië",
+    SC: "Seychellen",
+    SL: "Sierra Leone",
+    SG: "Singapore",
+    SK: "Slowakije",
+    SI: "Slovenië",
+    SB: "Salomonseilanden",
+    SO: "Somalië",
+    KR: "Zuid-Korea",
+    SS: "Zuid-Soedan",
+    ES: "Spanje",
+    LK: "Sri Lanka",
+    SD: "Soedan",
+    SR: "Suriname",
+    SE: "Zweden",
+    CH: "Zwitserland",
+    SY: "Syrië",
+    TJ: "Tadzjikistan",
+    TZ: "Tanzania",
+    TH: "Thailand",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad en Tobago",
+    TN: "Tunesië",
+    TR: "Turkije",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Oeganda",
+    UA: "Oekraïne",
+    AE: "Verenigde Arabische Emiraten",
+    UY: "Uruguay",
+    UZ: "Oezbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Jemen",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Oost-Timor",
+  },
+};
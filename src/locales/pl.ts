@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Polish (pl), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const pl: LocaleData = {
+  locale: "pl",
+  names: {
+    US: "Stany Zjednoczone",
+    CA: "Kanada",
+    BR: "Brazylia",
+    GB: "Wielka Brytania",
+    DE: "Niemcy",
+    FR: "Francja",
+    CN: "Chiny",
+    JP: "Japonia",
+    IN: "Indie",
+    AU: "Australia",
+    ZA: "Republika Południowej Afryki",
+    NG: "Nigeria",
+    MX: "Meksyk",
+    RU: "Rosja",
+    SA: "Arabia Saudyjska",
+    AF: "Afganistan",
+    AL: "Albania",
+    DZ: "Algieria",
+    AD: "Andora",
+    AO: "Angola",
+    AG: "Antigua i Barbuda",
+    AR: "Argentyna",
+    AM: "Armenia",
+    AT: "Austria",
+    AZ: "Azerbejdżan",
+    BS: "Bahamy",
+    BH: "Bahrajn",
+    BD: "Bangladesz",
+    BB: "Barbados",
+    BY: "Białoruś",
+    BE: "Belgia",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Boliwia",
+    BA: "Bośnia i Hercegowina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bułgaria",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Republika Zielonego Przylądka",
+    KH: "Kambodża",
+    CM: "Kamerun",
+    CF: "Republika Środkowoafrykańska",
+    TD: "Czad",
+    CL: "Chile",
+    CO: "Kolumbia",
+    KM: "Komory",
+    CG: "Kongo",
+    CD: "Demokratyczna Republika Konga",
+    CR: "Kostaryka",
+    CI: "Côte d’Ivoire",
+    HR: "Chorwacja",
+    CU: "Kuba",
+    CY: "Cypr",
+    CZ: "Czechy",
+    DK: "Dania",
+    DJ: "Dżibuti",
+    DM: "Dominika",
+    DO: "Dominikana",
+    EC: "Ekwador",
+    EG: "Egipt",
+    SV: "Salwador",
+    GQ: "Gwinea Równikowa",
+    ER: "Erytrea",
+    EE: "Estonia",
+    SZ: "Eswatini",
+    ET: "Etiopia",
+    FJ: "Fidżi",
+    FI: "Finlandia",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Gruzja",
+    GH: "Ghana",
+    GR: "Grecja",
+    GD: "Grenada",
+    GT: "Gwatemala",
+    GN: "Gwinea",
+    GW: "Gwinea Bissau",
+    GY: "Gujana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Węgry",
+    IS: "Islandia",
+    ID: "Indonezja",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Irlandia",
+    IL: "Izrael",
+    IT: "Włochy",
+    JM: "Jamajka",
+    JO: "Jordania",
+    KZ: "Kazachstan",
+    KE: "Kenia",
+    KI: "Kiribati",
+    KW: "Kuwejt",
+    KG: "Kirgistan",
+    LA: "Laos",
+    LV: "Łotwa",
+    LB: "Liban",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libia",
+    LI: "Liechtenstein",
+    LT: "Litwa",
+    LU: "Luksemburg",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Malezja",
+    MV: "Malediwy",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Wyspy Marshalla",
+    MR: "Mauretania",
+    MU: "Mauritius",
+    FM: "Mikronezja",
+    MD: "Mołdawia",
+    MC: "Monako",
+    MN: "Mongolia",
+    ME: "Czarnogóra",
+    MA: "Maroko",
+    MZ: "Mozambik",
+    MM: "Mjanma (Birma)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Holandia",
+    NZ: "Nowa Zelandia",
+    NI: "Nikaragua",
+    NE: "Niger",
+    KP: "Korea Północna",
+    MK: "Macedonia Północna",
+    NO: "Norwegia",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua-Nowa Gwinea",
+    PY: "Paragwaj",
+    PE: "Peru",
+    PH: "Filipiny",
+    PL: "Polska",
+    PT: "Portugalia",
+    QA: "Katar",
+    RO: "Rumunia",
+    RW: "Rwanda",
+    KN: "Saint Kitts i Nevis",
+    LC: "Saint Lucia",
+    VC: "Saint Vincent i Grenadyny",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "Wyspy Świętego Tomasza i Książęca",
+    SN: "Senegal",
+    RS: "Serbia",
+    SC: "Seszele",
+    SL: "Sierra Leone",
+    SG: "Singapur",
+    SK: "Słowacja",
+    SI: "Słowenia",
+    SB: "Wyspy Salomona",
+    SO: "Somalia",
+    KR: "Korea Południowa",
+    SS: "Sudan Południowy",
+    ES: "Hiszpania",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Surinam",
+    SE: "Szwecja",
+    CH: "Szwajcaria",
+    SY: "Syria",
+    TJ: "Tadżykistan",
+    TZ: "Tanzania",
+    TH: "Tajlandia",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trynidad i Tobago",
+    TN: "Tunezja",
+    TR: "Turcja",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukraina",
+    AE: "Zjednoczone Emiraty Arabskie",
+    UY: "Urugwaj",
+    UZ: "Uzbekistan",
+    VU: "Vanuatu",
+    VE: "Wenezuela",
+    VN: "Wietnam",
+    YE: "Jemen",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Timor Wschodni",
+  },
+};
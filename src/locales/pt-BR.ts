@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Brazilian Portuguese (pt-BR), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const ptBR: LocaleData = {
+  locale: "pt-BR",
+  names: {
+    US: "Estados Unidos",
+    CA: "Canadá",
+    BR: "Brasil",
+    GB: "Reino Unido",
+    DE: "Alemanha",
+    FR: "França",
+    CN: "China",
+    JP: "Japão",
+    IN: "Índia",
+    AU: "Austrália",
+    ZA: "África do Sul",
+    NG: "Nigéria",
+    MX: "México",
+    RU: "Rússia",
+    SA: "Arábia Saudita",
+    AF: "Afeganistão",
+    AL: "Albânia",
+    DZ: "Argélia",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antígua e Barbuda",
+    AR: "Argentina",
+    AM: "Armênia",
+    AT: "Áustria",
+    AZ: "Azerbaijão",
+    BS: "Bahamas",
+    BH: "Barein",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Bielorrússia",
+    BE: "Bélgica",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Butão",
+    BO: "Bolívia",
+    BA: "Bósnia e Herzegovina",
+    BW: "Botsuana",
+    BN: "Brunei",
+    BG: "Bulgária",
+    BF: "Burquina Faso",
+    BI: "Burundi",
+    CV: "Cabo Verde",
+    KH: "Camboja",
+    CM: "Camarões",
+    CF: "República Centro-Africana",
+    TD: "Chade",
+    CL: "Chile",
+    CO: "Colômbia",
+    KM: "Comores",
+    CG: "República do Congo",
+    CD: "Congo - Kinshasa",
+    CR: "Costa Rica",
+    CI: "Costa do Marfim",
+    HR: "Croácia",
+    CU: "Cuba",
+    CY: "Chipre",
+    CZ: "Tchéquia",
+    DK: "Dinamarca",
+    DJ: "Djibuti",
+    DM: "Dominica",
+    DO: "República Dominicana",
+    EC: "Equador",
+    EG: "Egito",
+    SV: "El Salvador",
+    GQ: "Guiné Equatorial",
+    ER: "Eritreia",
+    EE: "Estônia",
+    SZ: "Essuatíni",
+    ET: "Etiópia",
+    FJ: "Fiji",
+    FI: "Finlândia",
+    GA: "Gabão",
+    GM: "Gâmbia",
+    GE: "Geórgia",
+    GH: "Gana",
+    GR: "Grécia",
+    GD: "Granada",
+    GT: "Guatemala",
+    GN: "Guiné",
+    GW: "Guiné-Bissau",
+    GY: "Guiana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Hungria",
+    IS: "Islândia",
+    ID: "Indonésia",
+    IR: "Irã",
+    IQ: "Iraque",
+    IE: "Irlanda",
+    IL: "Israel",
+    IT: "Itália",
+    JM: "Jamaica",
+    JO: "Jordânia",
+    KZ: "Cazaquistão",
+    KE: "Quênia",
+    KI: "Quiribati",
+    KW: "Kuwait",
+    KG: "Quirguistão",
+    LA: "Laos",
+    LV: "Letônia",
+    LB: "Líbano",
+    LS: "Lesoto",
+    LR: "Libéria",
+    LY: "Líbia",
+    LI: "Liechtenstein",
+    LT: "Lituânia",
+    LU: "Luxemburgo",
+    MG: "Madagascar",
+    MW: "Malaui",
+    MY: "Malásia",
+    MV: "Maldivas",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Ilhas Marshall",
+    MR: "Mauritânia",
+    MU: "Maurício",
+    FM: "Micronésia",
+    MD: "Moldávia",
+    MC: "Mônaco",
+    MN: "Mongólia",
+    ME: "Montenegro",
+    MA: "Marrocos",
+    MZ: "Moçambique",
+    MM: "Mianmar (Birmânia)",
+    NA: "Namíbia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Países Baixos",
+    NZ: "Nova Zelândia",
+    NI: "Nicarágua",
+    NE: "Níger",
+    KP: "Coreia do Norte",
+    MK: "Macedônia do Norte",
+    NO: "Noruega",
+    OM: "Omã",
+    PK: "Paquistão",
+    PW: "Palau",
+    PA: "Panamá",
+    PG: "Papua-Nova Guiné",
+    PY: "Paraguai",
+    PE: "Peru",
+    PH: "Filipinas",
+    PL: "Polônia",
+    PT: "Portugal",
+    QA: "Catar",
+    RO: "Romênia",
+    RW: "Ruanda",
+    KN: "São Cristóvão e Névis",
+    LC: "Santa Lúcia",
+    VC: "São Vicente e Granadinas",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "São Tomé e Príncipe",
+    SN: "Senegal",
+    RS: "Sérvia",
+    SC: "Seicheles",
+    SL: "Serra Leoa",
+    SG: "Singapura",
+    SK: "Eslováquia",
+    SI: "Eslovênia",
+    SB: "Ilhas Salomão",
+    SO: "Somália",
+    KR: "Coreia do Sul",
+    SS: "Sudão do Sul",
+    ES: "Espanha",
+    LK: "Sri Lanka",
+    SD: "Sudão",
+    SR: "Suriname",
+    SE: "Suécia",
+    CH: "Suíça",
+    SY: "Síria",
+    TJ: "Tadjiquistão",
+    TZ: "Tanzânia",
+    TH: "Tailândia",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad e Tobago",
+    TN: "Tunísia",
+    TR: "Turquia",
+    TM: "Turcomenistão",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ucrânia",
+    AE: "Emirados Árabes Unidos",
+    UY: "Uruguai",
+    UZ: "Uzbequistão",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnã",
+    YE: "Iêmen",
+    ZM: "Zâmbia",
+    ZW: "Zimbábue",
+    TL: "Timor-Leste",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Romanian (ro), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const ro: LocaleData = {
+  locale: "ro",
+  names: {
+    US: "Statele Unite ale Americii",
+    CA: "Canada",
+    BR: "Brazilia",
+    GB: "Regatul Unit",
+    DE: "Germania",
+    FR: "Franța",
+    CN: "China",
+    JP: "Japonia",
+    IN: "India",
+    AU: "Australia",
+    ZA: "Africa de Sud",
+    NG: "Nigeria",
+    MX: "Mexic",
+    RU: "Rusia",
+    SA: "Arabia Saudită",
+    AF: "Afganistan",
+    AL: "Albania",
+    DZ: "Algeria",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua și Barbuda",
+    AR: "Argentina",
+    AM: "Armenia",
+    AT: "Austria",
+    AZ: "Azerbaidjan",
+    BS: "Bahamas",
+    BH: "Bahrain",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "Belgia",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnia și Herțegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgaria",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Capul Verde",
+    KH: "Cambodgia",
+    CM: "Camerun",
+    CF: "Republica Centrafricană",
+    TD: "Ciad",
+    CL: "Chile",
+    CO: "Columbia",
+    KM: "Comore",
+    CG: "Congo - Brazzaville",
+    CD: "Congo - Kinshasa",
+    CR: "Costa Rica",
+    CI: "Côte d’Ivoire",
+    HR: "Croația",
+    CU: "Cuba",
+    CY: "Cipru",
+    CZ: "Cehia",
+    DK: "Danemarca",
+    DJ: "Djibouti",
+    DM: "Dominica",
+    DO: "Republica Dominicană",
+    EC: "Ecuador",
+    EG: "Egipt",
+    SV: "El Salvador",
+    GQ: "Guineea Ecuatorială",
+    ER: "Eritreea",
+    EE: "Estonia",
+    SZ: "Eswatini",
+    ET: "Etiopia",
+    FJ: "Fiji",
+    FI: "Finlanda",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgia",
+    GH: "Ghana",
+    GR: "Grecia",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guineea",
+    GW: "Guineea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Ungaria",
+    IS: "Islanda",
+    ID: "Indonezia",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Irlanda",
+    IL: "Israel",
+    IT: "Italia",
+    JM: "Jamaica",
+    JO: "Iordania",
+    KZ: "Kazahstan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuweit",
+    KG: "Kârgâzstan",
+    LA: "Laos",
+    LV: "Letonia",
+    LB: "Liban",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libia",
+    LI: "Liechtenstein",
+    LT: "Lituania",
+    LU: "Luxemburg",
+    MG: "Madagascar",
+    MW: "Malawi",
+    MY: "Malaysia",
+    MV: "Maldive",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Insulele Marshall",
+    MR: "Mauritania",
+    MU: "Mauritius",
+    FM: "Micronezia",
+    MD: "Republica Moldova",
+    MC: "Monaco",
+    MN: "Mongolia",
+    ME: "Muntenegru",
+    MA: "Maroc",
+    MZ: "Mozambic",
+    MM: "Myanmar (Birmania)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Țările de Jos",
+    NZ: "Noua Zeelandă",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Coreea de Nord",
+    MK: "Macedonia de Nord",
+    NO: "Norvegia",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua-Noua Guinee",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filipine",
+    PL: "Polonia",
+    PT: "Portugalia",
+    QA: "Qatar",
+    RO: "România",
+    RW: "Rwanda",
+    KN: "Saint Kitts și Nevis",
+    LC: "Sfânta Lucia",
+    VC: "Saint Vincent și Grenadinele",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "São Tomé și Príncipe",
+    SN: "Senegal",
+    RS: "Serbia",
+    SC: "Seychelles",
+    SL: "Sierra Leone",
+    SG: "Singapore",
+    SK: "Slovacia",
+    SI: "Slovenia",
+    SB: "Insulele Solomon",
+    SO: "Somalia",
+    KR: "Coreea de Sud",
+    SS: "Sudanul de Sud",
+    ES: "Spania",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Suriname",
+    SE: "Suedia",
+    CH: "Elveția",
+    SY: "Siria",
+    TJ: "Tadjikistan",
+    TZ: "Tanzania",
+    TH: "Thailanda",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad și Tobago",
+    TN: "Tunisia",
+    TR: "Turcia",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ucraina",
+    AE: "Emiratele Arabe Unite",
+    UY: "Uruguay",
+    UZ: "Uzbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Yemen",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Timor-Leste",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Russian (ru), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const ru: LocaleData = {
+  locale: "ru",
+  names: {
+    US: "Соединенные Штаты",
+    CA: "Канада",
+    BR: "Бразилия",
+    GB: "Великобритания",
+    DE: "Германия",
+    FR: "Франция",
+    CN: "Китай",
+    JP: "Япония",
+    IN: "Индия",
+    AU: "Австралия",
+    ZA: "Южно-Африканская Республика",
+    NG: "Нигерия",
+    MX: "Мексика",
+    RU: "Россия",
+    SA: "Саудовская Аравия",
+    AF: "Афганистан",
+    AL: "Албания",
+    DZ: "Алжир",
+    AD: "Андорра",
+    AO: "Ангола",
+    AG: "Антигуа и Барбуда",
+    AR: "Аргентина",
+    AM: "Армения",
+    AT: "Австрия",
+    AZ: "Азербайджан",
+    BS: "Багамы",
+    BH: "Бахрейн",
+    BD: "Бангладеш",
+    BB: "Барбадос",
+    BY: "Беларусь",
+    BE: "Бельгия",
+    BZ: "Белиз",
+    BJ: "Бенин",
+    BT: "Бутан",
+    BO: "Боливия",
+    BA: "Босния и Герцеговина",
+    BW: "Ботсвана",
+    BN: "Бруней",
+    BG: "Болгария",
+    BF: "Буркина-Фасо",
+    BI: "Бурунди",
+    CV: "Кабо-Верде",
+    KH: "Камбоджа",
+    CM: "Камерун",
+    CF: "Центрально-Африканская Республика",
+    TD: "Чад",
+    CL: "Чили",
+    CO: "Колумбия",
+    KM: "Коморы",
+    CG: "Конго - Браззавиль",
+    CD: "Конго - Киншаса",
+    CR: "Коста-Рика",
+    CI: "Кот-д’Ивуар",
+    HR: "Хорватия",
+    CU: "Куба",
+    CY: "Кипр",
+    CZ: "Чехия",
+    DK: "Дания",
+    DJ: "Джибути",
+    DM: "Доминика",
+    DO: "Доминиканская Республика",
+    EC: "Эквадор",
+    EG: "Египет",
+    SV: "Сальвадор",
+    GQ: "Экваториальная Гвинея",
+    ER: "Эритрея",
+    EE: "Эстония",
+    SZ: "Эсватини",
+    ET: "Эфиопия",
+    FJ: "Фиджи",
+    FI: "Финляндия",
+    GA: "Габон",
+    GM: "Гамбия",
+    GE: "Грузия",
+    GH: "Гана",
+    GR: "Греция",
+    GD: "Гренада",
+    GT: "Гватемала",
+    GN: "Гвинея",
+    GW: "Гвинея-Бисау",
+    GY: "Гайана",
+    HT: "Гаити",
+    HN: "Гондурас",
+    HU: "Венгрия",
+    IS: "Исландия",
+    ID: "Индонезия",
+    IR: "Иран",
+    IQ: "Ирак",
+    IE: "Ирландия",
+    IL: "Израиль",
+    IT: "Италия",
+    JM: "Ямайка",
+    JO: "Иордания",
+    KZ: "Казахстан",
+    KE: "Кения",
+    KI: "Кирибати",
+    KW: "Кувейт",
+    KG: "Киргизия",
+    LA: "Лаос",
+    LV: "Латвия",
+    LB: "Ливан",
+    LS: "Лесото",
+    LR: "Либерия",
+    LY: "Ливия",
+    LI: "Лихтенштейн",
+    LT: "Литва",
+    LU: "Люксембург",
+    MG: "Мадагаскар",
+    MW: "Малави",
+    MY: "Малайзия",
+    MV: "Мальдивы",
+    ML: "Мали",
+    MT: "Мальта",
+    MH: "Маршалловы о-ва",
+    MR: "Мавритания",
+    MU: "Маврикий",
+    FM: "Федеративные Штаты Микронезии",
+    MD: "Молдова",
+    MC: "Монако",
+    MN: "Монголия",
+    ME: "Черногория",
+    MA: "Марокко",
+    MZ: "Мозамбик",
+    MM: "Мьянма (Бирма)",
+    NA: "Намибия",
+    NR: "Науру",
+    NP: "Непал",
+    NL: "Нидерланды",
+    NZ: "Новая Зеландия",
+    NI: "Никарагуа",
+    NE: "Нигер",
+    KP: "КНДР",
+    MK: "Северная Македония",
+    NO: "Норвегия",
+    OM: "Оман",
+    PK: "Пакистан",
+    PW: "Палау",
+    PA: "Панама",
+    PG: "Папуа — Новая Гвинея",
+    PY: "Парагвай",
+    PE: "Перу",
+    PH: "Филиппины",
+    PL: "Польша",
+    PT: "Португалия",
+    QA: "Катар",
+    RO: "Румыния",
+    RW: "Руанда",
+    KN: "Сент-Китс и Невис",
+    LC: "Сент-Люсия",
+    VC: "Сент-Винсент и Гренадины",
+    WS: "Самоа",
+    SM: "Сан-Марино",
+    ST: "Сан-Томе и Принсипи",
+    SN: "Сенегал",
+    RS: "Сербия",
+    SC: "Сейшельские о-ва",
+    SL: "Сьерра-Леоне",
+    SG: "Сингапур",
+    SK: "Словакия",
+    SI: "Словения",
+    SB: "Соломоновы о-ва",
+    SO: "Сомали",
+    KR: "Республика Корея",
+    SS: "Южный Судан",
+    ES: "Испания",
+    LK: "Шри-Ланка",
+    SD: "Судан",
+    SR: "Суринам",
+    SE: "Швеция",
+    CH: "Швейцария",
+    SY: "Сирия",
+    TJ: "Таджикистан",
+    TZ: "Танзания",
+    TH: "Таиланд",
+    TG: "Того",
+    TO: "Тонга",
+    TT: "Тринидад и Тобаго",
+    TN: "Тунис",
+    TR: "Турция",
+    TM: "Туркменистан",
+    TV: "Тувалу",
+    UG: "Уганда",
+    UA: "Украина",
+    AE: "ОАЭ",
+    UY: "Уругвай",
+    UZ: "Узбекистан",
+    VU: "Вануату",
+    VE: "Венесуэла",
+    VN: "Вьетнам",
+    YE: "Йемен",
+    ZM: "Замбия",
+    ZW: "Зимбабве",
+    TL: "Восточный Тимор",
+  },
+};
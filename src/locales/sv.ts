@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Swedish (sv), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const sv: LocaleData = {
+  locale: "sv",
+  names: {
+    US: "USA",
+    CA: "Kanada",
+    BR: "Brasilien",
+    GB: "Storbritannien",
+    DE: "Tyskland",
+    FR: "Frankrike",
+    CN: "Kina",
+    JP: "Japan",
+    IN: "Indien",
+    AU: "Australien",
+    ZA: "Sydafrika",
+    NG: "Nigeria",
+    MX: "Mexiko",
+    RU: "Ryssland",
+    SA: "Saudiarabien",
+    AF: "Afghanistan",
+    AL: "Albanien",
+    DZ: "Algeriet",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua och Barbuda",
+    AR: "Argentina",
+    AM: "Armenien",
+    AT: "Österrike",
+    AZ: "Azerbajdzjan",
+    BS: "Bahamas",
+    BH: "Bahrain",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "Belgien",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnien och Hercegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgarien",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Kap Verde",
+    KH: "Kambodja",
+    CM: "Kamerun",
+    CF: "Centralafrikanska republiken",
+    TD: "Tchad",
+    CL: "Chile",
+    CO: "Colombia",
+    KM: "Komorerna",
+    CG: "Kongo-Brazzaville",
+    CD: "Kongo-Kinshasa",
+    CR: "Costa Rica",
+    CI: "Elfenbenskusten",
+    HR: "Kroatien",
+    CU: "Kuba",
+    CY: "Cypern",
+    CZ: "Tjeckien",
+    DK: "Danmark",
+    DJ: "Djibouti",
+    DM: "Dominica",
+    DO: "Dominikanska republiken",
+    EC: "Ecuador",
+    EG: "Egypten",
+    SV: "El Salvador",
+    GQ: "Ekvatorialguinea",
+    ER: "Eritrea",
+    EE: "Estland",
+    SZ: "Eswatini",
+    ET: "Etiopien",
+    FJ: "Fiji",
+    FI: "Finland",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgien",
+    GH: "Ghana",
+    GR: "Grekland",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Ungern",
+    IS: "Island",
+    ID: "Indonesien",
+    IR: "Iran",
+    IQ: "Irak",
+    IE: "Irland",
+    IL: "Israel",
+    IT: "Italien",
+    JM: "Jamaica",
+    JO: "Jordanien",
+    KZ: "Kazakstan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kirgizistan",
+    LA: "Laos",
+    LV: "Lettland",
+    LB: "Libanon",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libyen",
+    LI: "Liechtenstein",
+    LT: "Litauen",
+    LU: "Luxemburg",
+    MG: "Madagaskar",
+    MW: "Malawi",
+    MY: "Malaysia",
+    MV: "Maldiverna",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Marshallöarna",
+    MR: "Mauretanien",
+    MU: "Mauritius",
+    FM: "Mikronesien",
+    MD: "Moldavien",
+    MC: "Monaco",
+    MN: "Mongoliet",
+    ME: "Montenegro",
+    MA: "Marocko",
+    MZ: "Moçambique",
+    MM: "Myanmar (Burma)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Nederländerna",
+    NZ: "Nya Zeeland",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Nordkorea",
+    MK: "Nordmakedonien",
+    NO: "Norge",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua Nya Guinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filippinerna",
+    PL: "Polen",
+    PT: "Portugal",
+    QA: "Qatar",
+    RO: "Rumänien",
+    RW: "Rwanda",
+    KN: "S:t Kitts och Nevis",
+    LC: "S:t Lucia",
+    VC: "S:t Vincent och Grenadinerna",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "São Tomé och Príncipe",
+    SN: "Senegal",
+    RS: "Serbien",
+    SC: "Seychellerna",
+    SL: "Sierra Leone",
+    SG: "Singapore",
+    SK: "Slovakien",
+    SI: "Slovenien",
+    SB: "Salomonöarna",
+    SO: "Somalia",
+    KR: "Sydkorea",
+    SS: "Sydsudan",
+    ES: "Spanien",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Surinam",
+    SE: "Sverige",
+    CH: "Schweiz",
+    SY: "Syrien",
+    TJ: "Tadzjikistan",
+    TZ: "Tanzania",
+    TH: "Thailand",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad och Tobago",
+    TN: "Tunisien",
+    TR: "Turkiet",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukraina",
+    AE: "Förenade Arabemiraten",
+    UY: "Uruguay",
+    UZ: "Uzbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Jemen",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Östtimor",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Thai (th), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const th: LocaleData = {
+  locale: "th",
+  names: {
+    US: "สหรัฐอเมริกา",
+    CA: "แคนาดา",
+    BR: "บราซิล",
+    GB: "สหราชอาณาจักร",
+    DE: "เยอรมนี",
+    FR: "ฝรั่งเศส",
+    CN: "จีน",
+    JP: "ญี่ปุ่น",
+    IN: "อินเดีย",
+    AU: "ออสเตรเลีย",
+    ZA: "แอฟริกาใต้",
+    NG: "ไนจีเรีย",
+    MX: "เม็กซิโก",
+    RU: "รัสเซีย",
+    SA: "ซาอุดีอาระเบีย",
+    AF: "อัฟกานิสถาน",
+    AL: "แอลเบเนีย",
+    DZ: "แอลจีเรีย",
+    AD: "อันดอร์รา",
+    AO: "แองโกลา",
+    AG: "แอนติกาและบาร์บูดา",
+    AR: "อาร์เจนตินา",
+    AM: "อาร์เมเนีย",
+    AT: "ออสเตรีย",
+    AZ: "อาเซอร์ไบจาน",
+    BS: "บาฮามาส",
+    BH: "บาห์เรน",
+    BD: "บังกลาเทศ",
+    BB: "บาร์เบโดส",
+    BY: "เบลารุส",
+    BE: "เบลเยียม",
+    BZ: "เบลีซ",
+    BJ: "เบนิน",
+    BT: "ภูฏาน",
+    BO: "โบลิเวีย",
+    BA: "บอสเนียและเฮอร์เซโกวีนา",
+    BW: "บอตสวานา",
+    BN: "บรูไน",
+    BG: "บัลแกเรีย",
+    BF: "บูร์กินาฟาโซ",
+    BI: "บุรุนดี",
+    CV: "เคปเวิร์ด",
+    KH: "กัมพูชา",
+    CM: "แคเมอรูน",
+    CF: "สาธารณรัฐแอฟริกากลาง",
+    TD: "ชาด",
+    CL: "ชิลี",
+    CO: "โคลอมเบีย",
+    KM: "คอโมโรส",
+    CG: "คองโก - บราซซาวิล",
+    CD: "คองโก - กินชาซา",
+    CR: "คอสตาริกา",
+    CI: "โกตดิวัวร์",
+    HR: "โครเอเชีย",
+    CU: "คิวบา",
+    CY: "ไซปรัส",
+    CZ: "เช็ก",
+    DK: "เดนมาร์ก",
+    DJ: "จิบูตี",
+    DM: "โดมินิกา",
+    DO: "สาธารณรัฐโดมินิกัน",
+    EC: "เอกวาดอร์",
+    EG: "อียิปต์",
+    SV: "เอลซัลวาดอร์",
+    GQ: "อิเควทอเรียลกินี",
+    ER: "เอริเทรีย",
+    EE: "เอสโตเนีย",
+    SZ: "เอสวาตีนี",
+    ET: "เอธิโอเปีย",
+    FJ: "ฟิจิ",
+    FI: "ฟินแลนด์",
+    GA: "กาบอง",
+    GM: "แกมเบีย",
+    GE: "จอร์เจีย",
+    GH: "กานา",
+    GR: "กรีซ",
+    GD: "เกรเนดา",
+    GT: "กัวเตมาลา",
+    GN: "กินี",
+    GW: "กินี-บิสเซา",
+    GY: "กายอานา",
+    HT: "เฮติ",
+    HN: "ฮอนดูรัส",
+    HU: "ฮังการี",
+    IS: "ไอซ์แลนด์",
+    ID: "อินโดนีเซีย",
+    IR: "อิหร่าน",
+    IQ: "อิรัก",
+    IE: "ไอร์แลนด์",
+    IL: "อิสราเอล",
+    IT: "อิตาลี",
+    JM: "จาเมกา",
+    JO: "จอร์แดน",
+    KZ: "คาซัคสถาน",
+    KE: "เคนยา",
+    KI: "คิริบาส",
+    KW: "คูเวต",
+    KG: "คีร์กีซสถาน",
+    LA: "ลาว",
+    LV: "ลัตเวีย",
+    LB: "เลบานอน",
+    LS: "เลโซโท",
+    LR: "ไลบีเรีย",
+    LY: "ลิเบีย",
+    LI: "ลิกเตนสไตน์",
+    LT: "ลิทัวเนีย",
+    LU: "ลักเซมเบิร์ก",
+    MG: "มาดากัสการ์",
+    MW: "มาลาวี",
+    MY: "มาเลเซีย",
+    MV: "มัลดีฟส์",
+    ML: "มาลี",
+    MT: "มอลตา",
+    MH: "หมู่เกาะมาร์แชลล์",
+    MR: "มอริเตเนีย",
+    MU: "มอริเชียส",
+    FM: "ไมโครนีเซีย",
+    MD: "มอลโดวา",
+    MC: "โมนาโก",
+    MN: "มองโกเลีย",
+    ME: "มอนเตเนโกร",
+    MA: "โมร็อกโก",
+    MZ: "โมซัมบิก",
+    MM: "เมียนมา (พม่า)",
+    NA: "นามิเบีย",
+    NR: "นาอูรู",
+    NP: "เนปาล",
+    NL: "เนเธอร์แลนด์",
+    NZ: "นิวซีแลนด์",
+    NI: "นิการากัว",
+    NE: "ไนเจอร์",
+    KP: "เกาหลีเหนือ",
+    MK: "มาซิโดเนียเหนือ",
+    NO: "นอร์เวย์",
+    OM: "โอมาน",
+    PK: "ปากีสถาน",
+    PW: "ปาเลา",
+    PA: "ปานามา",
+    PG: "ปาปัวนิวกินี",
+    PY: "ปารากวัย",
+    PE: "เปรู",
+    PH: "ฟิลิปปินส์",
+    PL: "โปแลนด์",
+    PT: "โปรตุเกส",
+    QA: "กาตาร์",
+    RO: "โรมาเนีย",
+    RW: "รวันดา",
+    KN: "เซนต์คิตส์และเนวิส",
+    LC: "เซนต์ลูเซีย",
+    VC: "เซนต์วินเซนต์และเกรนาดีนส์",
+    WS: "ซามัว",
+    SM: "ซานมาริโน",
+    ST: "เซาตูเมและปรินซิปี",
+    SN: "เซเนกัล",
+    RS: "เซอร์เบีย",
+    SC: "เซเชลส์",
+    SL: "เซียร์ราลีโอน",
+    SG: "สิงคโปร์",
+    SK: "สโลวะเกีย",
+    SI: "สโลวีเนีย",
+    SB: "หมู่เกาะโซโลมอน",
+    SO: "โซมาเลีย",
+    KR: "เกาหลีใต้",
+    SS: "ซูดานใต้",
+    ES: "สเปน",
+    LK: "ศรีลังกา",
+    SD: "ซูดาน",
+    SR: "ซูรินาเม",
+    SE: "สวีเดน",
+    CH: "สวิตเซอร์แลนด์",
+    SY: "ซีเรีย",
+    TJ: "ทาจิกิสถาน",
+    TZ: "แทนซาเนีย",
+    TH: "ไทย",
+    TG: "โตโก",
+    TO: "ตองกา",
+    TT: "ตรินิแดดและโตเบโก",
+    TN: "ตูนิเซีย",
+    TR: "ตุรกี",
+    TM: "เติร์กเมนิสถาน",
+    TV: "ตูวาลู",
+    UG: "ยูกันดา",
+    UA: "ยูเครน",
+    AE: "สหรัฐอาหรับเอมิเรตส์",
+    UY: "อุรุกวัย",
+    UZ: "อุซเบกิสถาน",
+    VU: "วานูอาตู",
+    VE: "เวเนซุเอลา",
+    VN: "เวียดนาม",
+    YE: "เยเมน",
+    ZM: "แซมเบีย",
+    ZW: "ซิมบับเว",
+    TL: "ติมอร์-เลสเต",
+  },
+};
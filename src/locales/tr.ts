@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Turkish (tr), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const tr: LocaleData = {
+  locale: "tr",
+  names: {
+    US: "Amerika Birleşik Devletleri",
+    CA: "Kanada",
+    BR: "Brezilya",
+    GB: "Birleşik Krallık",
+    DE: "Almanya",
+    FR: "Fransa",
+    CN: "Çin",
+    JP: "Japonya",
+    IN: "Hindistan",
+    AU: "Avustralya",
+    ZA: "Güney Afrika",
+    NG: "Nijerya",
+    MX: "Meksika",
+    RU: "Rusya",
+    SA: "Suudi Arabistan",
+    AF: "Afganistan",
+    AL: "Arnavutluk",
+    DZ: "Cezayir",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua ve Barbuda",
+    AR: "Arjantin",
+    AM: "Ermenistan",
+    AT: "Avusturya",
+    AZ: "Azerbaycan",
+    BS: "Bahamalar",
+    BH: "Bahreyn",
+    BD: "Bangladeş",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "Belçika",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Butan",
+    BO: "Bolivya",
+    BA: "Bosna-Hersek",
+    BW: "Botsvana",
+    BN: "Brunei",
+    BG: "Bulgaristan",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Cabo Verde",
+    KH: "Kamboçya",
+    CM: "Kamerun",
+    CF: "Orta Afrika Cumhuriyeti",
+    TD: "Çad",
+    CL: "Şili",
+    CO: "Kolombiya",
+    KM: "Komorlar",
+    CG: "Kongo - Brazavil",
+    CD: "Kongo - Kinşasa",
+    CR: "Kosta Rika",
+    CI: "Côte d’Ivoire",
+    HR: "Hırvatistan",
+    CU: "Küba",
+    CY: "Kıbrıs",
+    CZ: "Çekya",
+    DK: "Danimarka",
+    DJ: "Cibuti",
+    DM: "Dominika",
+    DO: "Dominik Cumhuriyeti",
+    EC: "Ekvador",
+    EG: "Mısır",
+    SV: "El Salvador",
+    GQ: "Ekvator Ginesi",
+    ER: "Eritre",
+    EE: "Estonya",
+    SZ: "Esvatini",
+    ET: "Etiyopya",
+    FJ: "Fiji",
+    FI: "Finlandiya",
+    GA: "Gabon",
+    GM: "Gambiya",
+    GE: "Gürcistan",
+    GH: "Gana",
+    GR: "Yunanistan",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Gine",
+    GW: "Gine-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Macaristan",
+    IS: "İzlanda",
+    ID: "Endonezya",
+    IR: "İran",
+    IQ: "Irak",
+    IE: "İrlanda",
+    IL: "İsrail",
+    IT: "İtalya",
+    JM: "Jamaika",
+    JO: "Ürdün",
+    KZ: "Kazakistan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuveyt",
+    KG: "Kırgızistan",
+    LA: "Laos",
+    LV: "Letonya",
+    LB: "Lübnan",
+    LS: "Lesotho",
+    LR: "Liberya",
+    LY: "Libya",
+    LI: "Liechtenstein",
+    LT: "Litvanya",
+    LU: "Lüksemburg",
+    MG: "Madagaskar",
+    MW: "Malavi",
+    MY: "Malezya",
+    MV: "Maldivler",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Marshall Adaları",
+    MR: "Moritanya",
+    MU: "Mauritius",
+    FM: "Mikronezya",
+    MD: "Moldova",
+    MC: "Monako",
+    MN: "Moğolistan",
+    ME: "Karadağ",
+    MA: "Fas",
+    MZ: "Mozambik",
+    MM: "Myanmar (Burma)",
+    NA: "Namibya",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Hollanda",
+    NZ: "Yeni Zelanda",
+    NI: "Nikaragua",
+    NE: "Nijer",
+    KP: "Kuzey Kore",
+    MK: "Kuzey Makedonya",
+    NO: "Norveç",
+    OM: "Umman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua Yeni Gine",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Filipinler",
+    PL: "Polonya",
+    PT: "Portekiz",
+    QA: "Katar",
+    RO: "Romanya",
+    RW: "Ruanda",
+    KN: "Saint Kitts ve Nevis",
+    LC: "Saint Lucia",
+    VC: "Saint Vincent ve Grenadinler",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "Sao Tome ve Principe",
+    SN: "Senegal",
+    RS: "Sırbistan",
+    SC: "Seyşeller",
+    SL: "Sierra Leone",
+    SG: "Singapur",
+    SK: "Slovakya",
+    SI: "Slovenya",
+    SB: "Solomon Adaları",
+    SO: "Somali",
+    KR: "Güney Kore",
+    SS: "Güney Sudan",
+    ES: "İspanya",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Surinam",
+    SE: "İsveç",
+    CH: "İsviçre",
+    SY: "Suriye",
+    TJ: "Tacikistan",
+    TZ: "Tanzanya",
+    TH: "Tayland",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad ve Tobago",
+    TN: "Tunus",
+    TR: "Türkiye",
+    TM: "Türkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukrayna",
+    AE: "Birleşik Arap Emirlikleri",
+    UY: "Uruguay",
+    UZ: "Özbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Vietnam",
+    YE: "Yemen",
+    ZM: "Zambiya",
+    ZW: "Zimbabve",
+    TL: "Timor-Leste",
+  },
+};
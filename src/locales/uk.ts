@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Ukrainian (uk), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const uk: LocaleData = {
+  locale: "uk",
+  names: {
+    US: "Сполучені Штати",
+    CA: "Канада",
+    BR: "Бразилія",
+    GB: "Велика Британія",
+    DE: "Німеччина",
+    FR: "Франція",
+    CN: "Китай",
+    JP: "Японія",
+    IN: "Індія",
+    AU: "Австралія",
+    ZA: "Південно-Африканська Республіка",
+    NG: "Нігерія",
+    MX: "Мексика",
+    RU: "Росія",
+    SA: "Саудівська Аравія",
+    AF: "Афганістан",
+    AL: "Албанія",
+    DZ: "Алжир",
+    AD: "Андорра",
+    AO: "Ангола",
+    AG: "Антигуа і Барбуда",
+    AR: "Аргентина",
+    AM: "Вірменія",
+    AT: "Австрія",
+    AZ: "Азербайджан",
+    BS: "Багамські Острови",
+    BH: "Бахрейн",
+    BD: "Бангладеш",
+    BB: "Барбадос",
+    BY: "Білорусь",
+    BE: "Бельгія",
+    BZ: "Беліз",
+    BJ: "Бенін",
+    BT: "Бутан",
+    BO: "Болівія",
+    BA: "Боснія і Герцеговина",
+    BW: "Ботсвана",
+    BN: "Бруней",
+    BG: "Болгарія",
+    BF: "Буркіна-Фасо",
+    BI: "Бурунді",
+    CV: "Кабо-Верде",
+    KH: "Камбоджа",
+    CM: "Камерун",
+    CF: "Центральноафриканська Республіка",
+    TD: "Чад",
+    CL: "Чилі",
+    CO: "Колумбія",
+    KM: "Комори",
+    CG: "Конго – Браззавіль",
+    CD: "Конго – Кіншаса",
+    CR: "Коста-Рика",
+    CI: "Кот-дʼІвуар",
+    HR: "Хорватія",
+    CU: "Куба",
+    CY: "Кіпр",
+    CZ: "Чехія",
+    DK: "Данія",
+    DJ: "Джибуті",
+    DM: "Домініка",
+    DO: "Домініканська Республіка",
+    EC: "Еквадор",
+    EG: "Єгипет",
+    SV: "Сальвадор",
+    GQ: "Екваторіальна Гвінея",
+    ER: "Еритрея",
+    EE: "Естонія",
+    SZ: "Есватіні",
+    ET: "Ефіопія",
+    FJ: "Фіджі",
+    FI: "Фінляндія",
+    GA: "Габон",
+    GM: "Гамбія",
+    GE: "Грузія",
+    GH: "Гана",
+    GR: "Греція",
+    GD: "Гренада",
+    GT: "Гватемала",
+    GN: "Гвінея",
+    GW: "Гвінея-Бісау",
+    GY: "Гаяна",
+    HT: "Гаїті",
+    HN: "Гондурас",
+    HU: "Угорщина",
+    IS: "Ісландія",
+    ID: "Індонезія",
+    IR: "Іран",
+    IQ: "Ірак",
+    IE: "Ірландія",
+    IL: "Ізраїль",
+    IT: "Італія",
+    JM: "Ямайка",
+    JO: "Йорданія",
+    KZ: "Казахстан",
+    KE: "Кенія",
+    KI: "Кірибаті",
+    KW: "Кувейт",
+    KG: "Киргизстан",
+    LA: "Лаос",
+    LV: "Латвія",
+    LB: "Ліван",
+    LS: "Лесото",
+    LR: "Ліберія",
+    LY: "Лівія",
+    LI: "Ліхтенштейн",
+    LT: "Литва",
+    LU: "Люксембург",
+    MG: "Мадагаскар",
+    MW: "Малаві",
+    MY: "Малайзія",
+    MV: "Мальдіви",
+    ML: "Малі",
+    MT: "Мальта",
+    MH: "Маршаллові Острови",
+    MR: "Мавританія",
+    MU: "Маврикій",
+    FM: "Мікронезія",
+    MD: "Молдова",
+    MC: "Монако",
+    MN: "Монголія",
+    ME: "Чорногорія",
+    MA: "Марокко",
+    MZ: "Мозамбік",
+    MM: "Мʼянма (Бірма)",
+    NA: "Намібія",
+    NR: "Науру",
+    NP: "Непал",
+    NL: "Нідерланди",
+    NZ: "Нова Зеландія",
+    NI: "Нікарагуа",
+    NE: "Нігер",
+    KP: "Північна Корея",
+    MK: "Північна Македонія",
+    NO: "Норвегія",
+    OM: "Оман",
+    PK: "Пакистан",
+    PW: "Палау",
+    PA: "Панама",
+    PG: "Папуа-Нова Гвінея",
+    PY: "Парагвай",
+    PE: "Перу",
+    PH: "Філіппіни",
+    PL: "Польща",
+    PT: "Португалія",
+    QA: "Катар",
+    RO: "Румунія",
+    RW: "Руанда",
+    KN: "Сент-Кітс і Невіс",
+    LC: "Сент-Люсія",
+    VC: "Сент-Вінсент і Гренадіни",
+    WS: "Самоа",
+    SM: "Сан-Марино",
+    ST: "Сан-Томе і Принсіпі",
+    SN: "Сенегал",
+    RS: "Сербія",
+    SC: "Сейшельські Острови",
+    SL: "Сьєрра-Леоне",
+    SG: "Сінгапур",
+    SK: "Словаччина",
+    SI: "Словенія",
+    SB: "Соломонові Острови",
+    SO: "Сомалі",
+    KR: "Південна Корея",
+    SS: "Південний Судан",
+    ES: "Іспанія",
+    LK: "Шрі-Ланка",
+    SD: "Судан",
+    SR: "Суринам",
+    SE: "Швеція",
+    CH: "Швейцарія",
+    SY: "Сирія",
+    TJ: "Таджикистан",
+    TZ: "Танзанія",
+    TH: "Таїланд",
+    TG: "Того",
+    TO: "Тонга",
+    TT: "Тринідад і Тобаго",
+    TN: "Туніс",
+    TR: "Туреччина",
+    TM: "Туркменістан",
+    TV: "Тувалу",
+    UG: "Уганда",
+    UA: "Україна",
+    AE: "Обʼєднані Арабські Емірати",
+    UY: "Уругвай",
+    UZ: "Узбекистан",
+    VU: "Вануату",
+    VE: "Венесуела",
+    VN: "Вʼєтнам",
+    YE: "Ємен",
+    ZM: "Замбія",
+    ZW: "Зімбабве",
+    TL: "Тимор-Лешті",
+  },
+};
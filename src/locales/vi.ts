@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Vietnamese (vi), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const vi: LocaleData = {
+  locale: "vi",
+  names: {
+    US: "Hoa Kỳ",
+    CA: "Canada",
+    BR: "Brazil",
+    GB: "Vương quốc Anh",
+    DE: "Đức",
+    FR: "Pháp",
+    CN: "Trung Quốc",
+    JP: "Nhật Bản",
+    IN: "Ấn Độ",
+    AU: "Australia",
+    ZA: "Nam Phi",
+    NG: "Nigeria",
+    MX: "Mexico",
+    RU: "Nga",
+    SA: "Ả Rập Xê-út",
+    AF: "Afghanistan",
+    AL: "Albania",
+    DZ: "Algeria",
+    AD: "Andorra",
+    AO: "Angola",
+    AG: "Antigua và Barbuda",
+    AR: "Argentina",
+    AM: "Armenia",
+    AT: "Áo",
+    AZ: "Azerbaijan",
+    BS: "Bahamas",
+    BH: "Bahrain",
+    BD: "Bangladesh",
+    BB: "Barbados",
+    BY: "Belarus",
+    BE: "Bỉ",
+    BZ: "Belize",
+    BJ: "Benin",
+    BT: "Bhutan",
+    BO: "Bolivia",
+    BA: "Bosnia và Herzegovina",
+    BW: "Botswana",
+    BN: "Brunei",
+    BG: "Bulgaria",
+    BF: "Burkina Faso",
+    BI: "Burundi",
+    CV: "Cape Verde",
+    KH: "Campuchia",
+    CM: "Cameroon",
+    CF: "Cộng hòa Trung Phi",
+    TD: "Chad",
+    CL: "Chile",
+    CO: "Colombia",
+    KM: "Comoros",
+    CG: "Congo - Brazzaville",
+    CD: "Congo - Kinshasa",
+    CR: "Costa Rica",
+    CI: "Côte d’Ivoire",
+    HR: "Croatia",
+    CU: "Cuba",
+    CY: "Síp",
+    CZ: "Séc",
+    DK: "Đan Mạch",
+    DJ: "Djibouti",
+    DM: "Dominica",
+    DO: "Cộng hòa Dominica",
+    EC: "Ecuador",
+    EG: "Ai Cập",
+    SV: "El Salvador",
+    GQ: "Guinea Xích Đạo",
+    ER: "Eritrea",
+    EE: "Estonia",
+    SZ: "Eswatini",
+    ET: "Ethiopia",
+    FJ: "Fiji",
+    FI: "Phần Lan",
+    GA: "Gabon",
+    GM: "Gambia",
+    GE: "Georgia",
+    GH: "Ghana",
+    GR: "Hy Lạp",
+    GD: "Grenada",
+    GT: "Guatemala",
+    GN: "Guinea",
+    GW: "Guinea-Bissau",
+    GY: "Guyana",
+    HT: "Haiti",
+    HN: "Honduras",
+    HU: "Hungary",
+    IS: "Iceland",
+    ID: "Indonesia",
+    IR: "Iran",
+    IQ: "Iraq",
+    IE: "Ireland",
+    IL: "Israel",
+    IT: "Italy",
+    JM: "Jamaica",
+    JO: "Jordan",
+    KZ: "Kazakhstan",
+    KE: "Kenya",
+    KI: "Kiribati",
+    KW: "Kuwait",
+    KG: "Kyrgyzstan",
+    LA: "Lào",
+    LV: "Latvia",
+    LB: "Li-băng",
+    LS: "Lesotho",
+    LR: "Liberia",
+    LY: "Libya",
+    LI: "Liechtenstein",
+    LT: "Litva",
+    LU: "Luxembourg",
+    MG: "Madagascar",
+    MW: "Malawi",
+    MY: "Malaysia",
+    MV: "Maldives",
+    ML: "Mali",
+    MT: "Malta",
+    MH: "Quần đảo Marshall",
+    MR: "Mauritania",
+    MU: "Mauritius",
+    FM: "Micronesia",
+    MD: "Moldova",
+    MC: "Monaco",
+    MN: "Mông Cổ",
+    ME: "Montenegro",
+    MA: "Ma-rốc",
+    MZ: "Mozambique",
+    MM: "Myanmar (Miến Điện)",
+    NA: "Namibia",
+    NR: "Nauru",
+    NP: "Nepal",
+    NL: "Hà Lan",
+    NZ: "New Zealand",
+    NI: "Nicaragua",
+    NE: "Niger",
+    KP: "Triều Tiên",
+    MK: "Bắc Macedonia",
+    NO: "Na Uy",
+    OM: "Oman",
+    PK: "Pakistan",
+    PW: "Palau",
+    PA: "Panama",
+    PG: "Papua New Guinea",
+    PY: "Paraguay",
+    PE: "Peru",
+    PH: "Philippines",
+    PL: "Ba Lan",
+    PT: "Bồ Đào Nha",
+    QA: "Qatar",
+    RO: "Romania",
+    RW: "Rwanda",
+    KN: "St. Kitts và Nevis",
+    LC: "St. Lucia",
+    VC: "St. Vincent và Grenadines",
+    WS: "Samoa",
+    SM: "San Marino",
+    ST: "São Tomé và Príncipe",
+    SN: "Senegal",
+    RS: "Serbia",
+    SC: "Seychelles",
+    SL: "Sierra Leone",
+    SG: "Singapore",
+    SK: "Slovakia",
+    SI: "Slovenia",
+    SB: "Quần đảo Solomon",
+    SO: "Somalia",
+    KR: "Hàn Quốc",
+    SS: "Nam Sudan",
+    ES: "Tây Ban Nha",
+    LK: "Sri Lanka",
+    SD: "Sudan",
+    SR: "Suriname",
+    SE: "Thụy Điển",
+    CH: "Thụy Sĩ",
+    SY: "Syria",
+    TJ: "Tajikistan",
+    TZ: "Tanzania",
+    TH: "Thái Lan",
+    TG: "Togo",
+    TO: "Tonga",
+    TT: "Trinidad và Tobago",
+    TN: "Tunisia",
+    TR: "Thổ Nhĩ Kỳ",
+    TM: "Turkmenistan",
+    TV: "Tuvalu",
+    UG: "Uganda",
+    UA: "Ukraina",
+    AE: "Các Tiểu Vương quốc Ả Rập Thống nhất",
+    UY: "Uruguay",
+    UZ: "Uzbekistan",
+    VU: "Vanuatu",
+    VE: "Venezuela",
+    VN: "Việt Nam",
+    YE: "Yemen",
+    ZM: "Zambia",
+    ZW: "Zimbabwe",
+    TL: "Timor-Leste",
+  },
+};
@@ -0,0 +1,204 @@
+import { LocaleData } from "../types";
+
+/**
+ * Country names in Traditional Chinese (zh-Hant), from CLDR.
+ * Generated by scripts/generate-locales.ts — do not edit by hand.
+ */
+export const zhHant: LocaleData = {
+  locale: "zh-Hant",
+  names: {
+    US: "美國",
+    CA: "加拿大",
+    BR: "巴西",
+    GB: "英國",
+    DE: "德國",
+    FR: "法國",
+    CN: "中國",
+    JP: "日本",
+    IN: "印度",
+    AU: "澳洲",
+    ZA: "南非",
+    NG: "奈及利亞",
+    MX: "墨西哥",
+    RU: "俄羅斯",
+    SA: "沙烏地阿拉伯",
+    AF: "阿富汗",
+    AL: "阿爾巴尼亞",
+    DZ: "阿爾及利亞",
+    AD: "安道爾",
+    AO: "安哥拉",
+    AG: "安地卡及巴布達",
+    AR: "阿根廷",
+    AM: "亞美尼亞",
+    AT: "奧地利",
+    AZ: "亞塞拜然",
+    BS: "巴哈馬",
+    BH: "巴林",
+    BD: "孟加拉",
+    BB: "巴貝多",
+    BY: "白俄羅斯",
+    BE: "比利時",
+    BZ: "貝里斯",
+    BJ: "貝南",
+    BT: "不丹",
+    BO: "玻利維亞",
+    BA: "波士尼亞與赫塞哥維納",
+    BW: "波札那",
+    BN: "汶萊",
+    BG: "保加利亞",
+    BF: "布吉納法索",
+    BI: "蒲隆地",
+    CV: "維德角",
+    KH: "柬埔寨",
+    CM: "喀麥隆",
+    CF: "中非共和國",
+    TD: "查德",
+    CL: "智利",
+    CO: "哥倫比亞",
+    KM: "葛摩",
+    CG: "剛果（布拉薩）",
+    CD: "剛果（金夏沙）",
+    CR: "哥斯大黎加",
+    CI: "象牙海岸",
+    HR: "克羅埃西亞",
+    CU: "古巴",
+    CY: "賽普勒斯",
+    CZ: "捷克",
+    DK: "丹麥",
+    DJ: "吉布地",
+    DM: "多米尼克",
+    DO: "多明尼加共和國",
+    EC: "厄瓜多",
+    EG: "埃及",
+    SV: "薩爾瓦多",
+    GQ: "赤道幾內亞",
+    ER: "厄利垂亞",
+    EE: "愛沙尼亞",
+    SZ: "史瓦帝尼",
+    ET: "衣索比亞",
+    FJ: "斐濟",
+    FI: "芬蘭",
+    GA: "加彭",
+    GM: "甘比亞",
+    GE: "喬治亞",
+    GH: "迦納",
+    GR: "希臘",
+    GD: "格瑞那達",
+    GT: "瓜地馬拉",
+    GN: "幾內亞",
+    GW: "幾內亞比索",
+    GY: "蓋亞那",
+    HT: "海地",
+    HN: "宏都拉斯",
+    HU: "匈牙利",
+    IS: "冰島",
+    ID: "印尼",
+    IR: "伊朗",
+    IQ: "伊拉克",
+    IE: "愛爾蘭",
+    IL: "以色列",
+    IT: "義大利",
+    JM: "牙買加",
+    JO: "約旦",
+    KZ: "哈薩克",
+    KE: "肯亞",
+    KI: "吉里巴斯",
+    KW: "科威特",
+    KG: "吉爾吉斯",
+    LA: "寮國",
+    LV: "拉脫維亞",
+    LB: "黎巴嫩",
+    LS: "賴索托",
+    LR: "賴比瑞亞",
+    LY: "利比亞",
+    LI: "列支敦斯登",
+    LT: "立陶宛",
+    LU: "盧森堡",
+    MG: "馬達加斯加",
+    MW: "馬拉威",
+    MY: "馬來西亞",
+    MV: "馬爾地夫",
+    ML: "馬利",
+    MT: "馬爾他",
+    MH: "馬紹爾群島",
+    MR: "茅利塔尼亞",
+    MU: "模里西斯",
+    FM: "密克羅尼西亞",
+    MD: "摩爾多瓦",
+    MC: "摩納哥",
+    MN: "蒙古",
+    ME: "蒙特內哥羅",
+    MA: "摩洛哥",
+    MZ: "莫三比克",
+    MM: "緬甸",
+    NA: "納米比亞",
+    NR: "諾魯",
+    NP: "尼泊爾",
+    NL: "荷蘭",
+    NZ: "紐西蘭",
+    NI: "尼加拉瓜",
+    NE: "尼日",
+    KP: "北韓",
+    MK: "北馬其頓",
+    NO: "挪威",
+    OM: "阿曼",
+    PK: "巴基斯坦",
+    PW: "帛琉",
+    PA: "巴拿馬",
+    PG: "巴布亞紐幾內亞",
+    PY: "巴拉圭",
+    PE: "秘魯",
+    PH: "菲律賓",
+    PL: "波蘭",
+    PT: "葡萄牙",
+    QA: "卡達",
+    RO: "羅馬尼亞",
+    RW: "盧安達",
+    KN: "聖克里斯多福及尼維斯",
+    LC: "聖露西亞",
+    VC: "聖文森及格瑞那丁",
+    WS: "薩摩亞",
+    SM: "聖馬利諾",
+    ST: "聖多美普林西比",
+    SN: "塞內加爾",
+    RS: "塞爾維亞",
+    SC: "塞席爾",
+    SL: "獅子山",
+    SG: "新加坡",
+    SK: "斯洛伐克",
+    SI: "斯洛維尼亞",
+    SB: "索羅門群島",
+    SO: "索馬利亞",
+    KR: "南韓",
+    SS: "南蘇丹",
+    ES: "西班牙",
+    LK: "斯里蘭卡",
+    SD: "蘇丹",
+    SR: "蘇利南",
+    SE: "瑞典",
+    CH: "瑞士",
+    SY: "敘利亞",
+    TJ: "塔吉克",
+    TZ: "坦尚尼亞",
+    TH: "泰國",
+    TG: "多哥",
+    TO: "東加",
+    TT: "千里達及托巴哥",
+    TN: "突尼西亞",
+    TR: "土耳其",
+    TM: "土庫曼",
+    TV: "吐瓦魯",
+    UG: "烏干達",
+    UA: "烏克蘭",
+    AE: "阿拉伯聯合大公國",
+    UY: "烏拉圭",
+    UZ: "烏茲別克",
+    VU: "萬那杜",
+    VE: "委內瑞拉",
+    VN: "越南",
+    YE: "葉門",
+    ZM: "尚比亞",
+    ZW: "辛巴威",
+    TL: "東帝汶",
+  },
+};
@@ -0,0 +1,126 @@
+import { CountryAlpha3 } from "./types";
+
+// ============================================================================
+// MARITIME NEIGHBOURS
+// ============================================================================
+
+/**
+ * Countries whose maritime zones adjoin across the sea without a land border,
+ * by alpha-3 code. Every pair is listed in both directions. Boundaries through
+ * dependent territories with their own ISO 3166-1 code (Greenland, French
+ * Guiana, New Caledonia) are not included.
+ */
+export const maritimeBorders: Partial<
+  Record<CountryAlpha3, readonly CountryAlpha3[]>
+> = {
+  ALB: ["ITA"],
+  ARE: ["IRN", "QAT"],
+  ATG: ["KNA"],
+  AUS: ["IDN", "NZL", "PNG", "SLB", "TLS"],
+  AZE: ["KAZ", "TKM"],
+  BEL: ["GBR"],
+  BHR: ["IRN", "QAT", "SAU"],
+  BHS: ["CUB", "HTI", "USA"],
+  BRB: ["GUY", "LCA", "TTO", "VCT"],
+  CHN: ["JPN", "KOR", "PHL"],
+  COL: ["CRI", "DOM", "HND", "HTI", "JAM", "NIC"],
+  COM: ["MDG", "MOZ", "SYC", "TZA"],
+  CPV: ["MRT", "SEN"],
+  CRI: ["COL", "ECU"],
+  CUB: ["BHS", "HTI", "JAM", "MEX", "USA"],
+  CYP: ["EGY", "ISR", "LBN", "SYR", "TUR"],
+  DEU: ["GBR", "SWE"],
+  DJI: ["YEM"],
+  DMA: ["VEN"],
+  DNK: ["GBR", "NLD", "NOR", "POL", "SWE"],
+  DOM: ["COL", "VEN"],
+  DZA: ["ESP", "ITA"],
+  ECU: ["CRI"],
+  EGY: ["CYP", "GRC", "JOR", "SAU"],
+  ERI: ["SAU", "YEM"],
+  ESP: ["DZA", "ITA"],
+  EST: ["FIN", "SWE"],
+  FIN: ["EST"],
+  FJI: ["TON", "TUV", "VUT"],
+  FRA: ["GBR"],
+  FSM: ["MHL", "PLW", "PNG"],
+  GAB: ["STP"],
+  GBR: ["BEL", "DEU", "DNK", "FRA", "NLD", "NOR"],
+  GNQ: ["NGA", "STP"],
+  GRC: ["EGY", "ITA", "LBY"],
+  GRD: ["TTO", "VCT"],
+  GUY: ["BRB", "TTO"],
+  HND: ["COL", "MEX"],
+  HRV: ["ITA"],
+  HTI: ["BHS", "COL", "CUB", "JAM"],
+  IDN: ["AUS", "IND", "PHL", "PLW", "SGP", "THA", "VNM"],
+  IND: ["IDN", "LKA", "MDV", "THA"],
+  IRN: ["ARE", "BHR", "KWT", "OMN", "QAT", "SAU"],
+  ISL: ["NOR"],
+  ISR: ["CYP"],
+  ITA: ["ALB", "DZA", "ESP", "GRC", "HRV", "MLT", "MNE", "TUN"],
+  JAM: ["COL", "CUB", "HTI"],
+  JOR: ["EGY"],
+  JPN: ["CHN", "KOR", "RUS"],
+  KAZ: ["AZE"],
+  KIR: ["MHL", "NRU", "TUV"],
+  KNA: ["ATG", "VEN"],
+  KOR: ["CHN", "JPN"],
+  KWT: ["IRN"],
+  LBN: ["CYP"],
+  LBY: ["GRC", "MLT"],
+  LCA: ["BRB", "VCT"],
+  LKA: ["IND", "MDV"],
+  LTU: ["SWE"],
+  LVA: ["SWE"],
+  MDG: ["COM", "MOZ", "MUS", "SYC"],
+  MDV: ["IND", "LKA"],
+  MEX: ["CUB", "HND"],
+  MHL: ["FSM", "KIR"],
+  MLT: ["ITA", "LBY", "TUN"],
+  MNE: ["ITA"],
+  MOZ: ["COM", "MDG"],
+  MRT: ["CPV"],
+  MUS: ["MDG", "SYC"],
+  MYS: ["PHL", "SGP", "VNM"],
+  NGA: ["GNQ", "STP"],
+  NIC: ["COL"],
+  NLD: ["DNK", "GBR"],
+  NOR: ["DNK", "GBR", "ISL"],
+  NRU: ["KIR"],
+  NZL: ["AUS", "TON"],
+  OMN: ["IRN", "PAK"],
+  PAK: ["OMN"],
+  PHL: ["CHN", "IDN", "MYS", "PLW", "VNM"],
+  PLW: ["FSM", "IDN", "PHL"],
+  PNG: ["AUS", "FSM", "SLB"],
+  POL: ["DNK", "SWE"],
+  QAT: ["ARE", "BHR", "IRN"],
+  RUS: ["JPN", "SWE", "TUR", "USA"],
+  SAU: ["BHR", "EGY", "ERI", "IRN", "SDN"],
+  SDN: ["SAU"],
+  SEN: ["CPV"],
+  SGP: ["IDN", "MYS"],
+  SLB: ["AUS", "PNG", "VUT"],
+  SOM: ["YEM"],
+  STP: ["GAB", "GNQ", "NGA"],
+  SWE: ["DEU", "DNK", "EST", "LTU", "LVA", "POL", "RUS"],
+  SYC: ["COM", "MDG", "MUS", "TZA"],
+  SYR: ["CYP"],
+  THA: ["IDN", "IND", "VNM"],
+  TKM: ["AZE"],
+  TLS: ["AUS"],
+  TON: ["FJI", "NZL"],
+  TTO: ["BRB", "GRD", "GUY", "VEN"],
+  TUN: ["ITA", "MLT"],
+  TUR: ["CYP", "RUS", "UKR"],
+  TUV: ["FJI", "KIR"],
+  TZA: ["COM", "SYC"],
+  UKR: ["TUR"],
+  USA: ["BHS", "CUB", "RUS"],
+  VCT: ["BRB", "GRD", "LCA"],
+  VEN: ["DMA", "DOM", "KNA", "TTO"],
+  VNM: ["IDN", "MYS", "PHL", "THA"],
+  VUT: ["FJI", "SLB"],
+  YEM: ["DJI", "ERI", "SOM"],
+};
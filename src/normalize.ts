@@ -0,0 +1,46 @@
+// ============================================================================
+// NAME NORMALISATION
+// ============================================================================
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const APOSTROPHES = /['`\u00b4\u02bb\u02bc\u2018\u2019]/g;
+const SEPARATORS = /[\s\-\u2010-\u2015_.,;:()\/"]+/g;
+
+/**
+ * Abbreviations folded to their long form, token by token
+ */
+const TOKEN_EQUIVALENTS = new Map<string, string>([
+  ["st", "saint"],
+  ["ste", "sainte"],
+]);
+
+/**
+ * Normalise a country or capital name for comparison.
+ * Decomposes Unicode (NFKD), strips diacritics, lower-cases, drops apostrophes,
+ * turns hyphens and punctuation into spaces, folds "&" into "and" and
+ * "St." into "Saint".
+ *
+ * @example
+ * normalizeName("Brasília");      // "brasilia"
+ * normalizeName("St. George's");  // "saint georges"
+ * normalizeName("Guinea-Bissau"); // "guinea bissau"
+ */
+export const normalizeName = (value: string): string =>
+  value
+    .normalize("NFKD")
+    .replace(COMBINING_MARKS, "")
+    .toLowerCase()
+    .replace(APOSTROPHES, "")
+    .replace(/&/g, " and ")
+    .replace(SEPARATORS, " ")
+    .trim()
+    .split(" ")
+    .map((token) => TOKEN_EQUIVALENTS.get(token) ?? token)
+    .join(" ");
+
+/**
+ * Key used for equality lookups: the normalised name without spaces, so
+ * "Cote d Ivoire" and "Côte d'Ivoire" produce the same key.
+ */
+export const nameKey = (value: string): string =>
+  normalizeName(value).replace(/ /g, "");
@@ -0,0 +1,421 @@
+import { phoneNumberPrefixes } from "./areaCodes";
+import { countries } from "./countries";
+import { getCountryIndexes } from "./indexes";
+import {
+  Country,
+  CountryCode,
+  ParsedPhoneNumber,
+  PhoneNumberFormat,
+  PhoneValidationError,
+  PhoneValidationResult,
+} from "./types";
+
+// ============================================================================
+// PHONE MASK HELPERS
+// ============================================================================
+
+/**
+ * Characters allowed in user input besides digits and a leading "+"
+ */
+const FORMATTING_CHARACTERS = /[\s\-.()\/]/g;
+
+/**
+ * The international calling code without the NANP area code,
+ * e.g. "1" for both "1" and "1-268".
+ */
+export const getCallingCode = (country: Country): string =>
+  country.phoneCode.split("-")[0];
+
+/**
+ * Literal digits at the start of the mask, e.g. "268" for "268-###-####".
+ * They are part of the national number but fixed for the country.
+ */
+export const getMaskPrefix = (country: Country): string =>
+  (country.phoneMask.replace(/-/g, "").match(/^\d*/) ?? [""])[0];
+
+/**
+ * Number of digits in the national significant number described by the mask
+ */
+export const getMaskLength = (country: Country): number =>
+  country.phoneMask.replace(/[^#\d]/g, "").length;
+
+/**
+ * The trunk prefix dialled before national numbers ("1" in NANP, "0" elsewhere)
+ */
+const getTrunkPrefix = (country: Country): string =>
+  getCallingCode(country) === "1" ? "1" : "0";
+
+/**
+ * Split raw input into its digits, reporting whether it was written in
+ * international form ("+55 ..." or "0055 ...").
+ * Returns `undefined` if it contains anything other than digits and formatting.
+ */
+export const parsePhoneInput = (
+  input: string,
+): { digits: string; international: boolean } | undefined => {
+  const trimmed = input.trim();
+  const plus = trimmed.startsWith("+");
+  const rest = (plus ? trimmed.slice(1) : trimmed).replace(
+    FORMATTING_CHARACTERS,
+    "",
+  );
+  if (!/^\d*$/.test(rest)) return undefined;
+
+  if (!plus && rest.startsWith("00")) {
+    return { digits: rest.slice(2), international: true };
+  }
+  return { digits: rest, international: plus };
+};
+
+/**
+ * Reduce parsed input to the national significant number for a country.
+ * Strips the calling code from international input and the trunk prefix
+ * from national input that is one digit longer than the mask.
+ */
+export const toNationalNumber = (
+  country: Country,
+  digits: string,
+  international: boolean,
+): { nationalNumber: string; reason?: PhoneValidationError } => {
+  const callingCode = getCallingCode(country);
+
+  if (international) {
+    if (!digits.startsWith(callingCode)) {
+      return { nationalNumber: digits, reason: "wrong_calling_code" };
+    }
+    return { nationalNumber: digits.slice(callingCode.length) };
+  }
+
+  const trunk = getTrunkPrefix(country);
+  if (
+    digits.length === getMaskLength(country) + 1 &&
+    digits.startsWith(trunk)
+  ) {
+    return { nationalNumber: digits.slice(trunk.length) };
+  }
+  return { nationalNumber: digits };
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a phone number against a country's `phoneCode` and `phoneMask`.
+ * Accepts national ("(11) 91234-5678", "011 91234 5678") and international
+ * ("+55 11 91234-5678", "0055...") input; the expected length comes from the mask.
+ *
+ * @param number - The phone number as typed by the user
+ * @param countryCode - The alpha-2 code of the country the number should belong to
+ * @returns Whether the number is valid, why not, and the national significant number
+ *
+ * @example
+ * validatePhoneNumber("+1 555-123-4567", "US"); // { valid: true, nationalNumber: "5551234567", ... }
+ * validatePhoneNumber("+44 7911 123456", "US"); // { valid: false, reason: "wrong_calling_code", ... }
+ * validatePhoneNumber("555-1234", "US");        // { valid: false, reason: "too_short", ... }
+ */
+export const validatePhoneNumber = (
+  number: string,
+  countryCode: CountryCode,
+): PhoneValidationResult => {
+  const country = getCountryIndexes().alpha2.get(countryCode.toUpperCase());
+  if (!country) {
+    return {
+      valid: false,
+      reason: "unknown_country",
+      nationalNumber: "",
+      expectedLength: 0,
+    };
+  }
+
+  const expectedLength = getMaskLength(country);
+  const invalid = (reason: PhoneValidationError, nationalNumber: string) => ({
+    valid: false,
+    reason,
+    nationalNumber,
+    expectedLength,
+  });
+
+  const parsed = parsePhoneInput(number);
+  if (!parsed) return invalid("invalid_characters", "");
+
+  const { nationalNumber, reason } = toNationalNumber(
+    country,
+    parsed.digits,
+    parsed.international,
+  );
+  if (reason) return invalid(reason, nationalNumber);
+
+  // Area codes behave like part of the calling code for shared codes (+1, +7)
+  const belongsElsewhere = () =>
+    disambiguate(
+      getCountriesByCallingCode(getCallingCode(country)),
+      nationalNumber,
+    ) !== country;
+  if (parsed.international && belongsElsewhere()) {
+    return invalid("wrong_calling_code", nationalNumber);
+  }
+
+  if (nationalNumber.length < expectedLength) {
+    return invalid("too_short", nationalNumber);
+  }
+  if (nationalNumber.length > expectedLength) {
+    return invalid("too_long", nationalNumber);
+  }
+  if (belongsElsewhere()) {
+    return invalid("wrong_calling_code", nationalNumber);
+  }
+  return { valid: true, nationalNumber, expectedLength };
+};
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Lay digits out over a mask, stopping at the last digit so partial input
+ * never ends in a separator. Digits beyond the mask are appended unformatted.
+ */
+const applyMask = (mask: string, digits: string): string => {
+  let formatted = "";
+  let i = 0;
+  for (const char of mask) {
+    if (i >= digits.length) break;
+    formatted += char === "-" ? "-" : digits[i++];
+  }
+  return formatted + digits.slice(i);
+};
+
+/**
+ * Format a phone number with the country's `phoneMask`.
+ *
+ * @param number - Digits or a typed number, national or international
+ * @param countryCode - The alpha-2 code of the country the number belongs to
+ * @param style - "national", "international" or "e164" (default "national")
+ * @returns The formatted number, or `undefined` if it fails `validatePhoneNumber`
+ *
+ * @example
+ * formatPhoneNumber("5551234567", "US");                  // "555-123-4567"
+ * formatPhoneNumber("5551234567", "US", "international"); // "+1 555-123-4567"
+ * formatPhoneNumber("(555) 123-4567", "US", "e164");      // "+15551234567"
+ */
+export const formatPhoneNumber = (
+  number: string,
+  countryCode: CountryCode,
+  style: PhoneNumberFormat = "national",
+): string | undefined => {
+  const result = validatePhoneNumber(number, countryCode);
+  const country = getCountryIndexes().alpha2.get(countryCode.toUpperCase());
+  if (!result.valid || !country) return undefined;
+
+  const callingCode = getCallingCode(country);
+  switch (style) {
+    case "e164":
+      return `+${callingCode}${result.nationalNumber}`;
+    case "international":
+      return `+${callingCode} ${applyMask(country.phoneMask, result.nationalNumber)}`;
+    default:
+      return applyMask(country.phoneMask, result.nationalNumber);
+  }
+};
+
+/**
+ * Incremental formatter for phone inputs: feed it one keystroke at a time and
+ * it re-applies the country's mask as digits arrive.
+ * A leading "+" switches to international input; other non-digits are ignored.
+ *
+ * @example
+ * const formatter = new AsYouTypeFormatter("US");
+ * formatter.input("5"); // "5"
+ * formatter.input("5"); // "55"
+ * formatter.input("5"); // "555"
+ * formatter.input("1"); // "555-1"
+ * formatter.backspace(); // "555"
+ */
+export class AsYouTypeFormatter {
+  private readonly country: Country | undefined;
+  private digits = "";
+  private international = false;
+
+  constructor(
+    countryCode: CountryCode,
+    private readonly style: Exclude<PhoneNumberFormat, "e164"> = "national",
+  ) {
+    this.country = getCountryIndexes().alpha2.get(countryCode.toUpperCase());
+  }
+
+  /**
+   * Add one keystroke (or a pasted chunk) and get the formatted result
+   */
+  input(chars: string): string {
+    for (const char of chars) {
+      if (/\d/.test(char)) this.digits += char;
+      else if (char === "+" && !this.digits) this.international = true;
+    }
+    return this.getFormatted();
+  }
+
+  /**
+   * Remove the last digit (or the leading "+") and get the formatted result
+   */
+  backspace(): string {
+    if (this.digits) this.digits = this.digits.slice(0, -1);
+    else this.international = false;
+    return this.getFormatted();
+  }
+
+  reset(): void {
+    this.digits = "";
+    this.international = false;
+  }
+
+  /**
+   * The digits typed so far, without formatting
+   */
+  getDigits(): string {
+    return this.digits;
+  }
+
+  getFormatted(): string {
+    const { country, digits } = this;
+    if (!country) return (this.international ? "+" : "") + digits;
+
+    const callingCode = getCallingCode(country);
+    const mask = country.phoneMask;
+
+    if (this.international) {
+      // Still typing the calling code, or typing someone else's
+      if (!digits.startsWith(callingCode)) return `+${digits}`;
+      const rest = digits.slice(callingCode.length);
+      return rest
+        ? `+${callingCode} ${applyMask(mask, rest)}`
+        : `+${callingCode}`;
+    }
+
+    if (this.style === "international") {
+      return digits ? `+${callingCode} ${applyMask(mask, digits)}` : "";
+    }
+
+    // Keep a typed trunk prefix in front of the masked national number
+    const trunk = getTrunkPrefix(country);
+    if (digits.startsWith(trunk) && !getMaskPrefix(country).startsWith(trunk)) {
+      const rest = applyMask(mask, digits.slice(trunk.length));
+      return trunk === "1" ? `${trunk} ${rest}`.trim() : trunk + rest;
+    }
+    return applyMask(mask, digits);
+  }
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+let callingCodeIndex: ReadonlyMap<string, Country[]> | undefined;
+
+/**
+ * Countries grouped by calling code, built on first use
+ */
+const getCallingCodeIndex = (): ReadonlyMap<string, Country[]> => {
+  if (!callingCodeIndex) {
+    const index = new Map<string, Country[]>();
+    countries.forEach((c) => {
+      const code = getCallingCode(c);
+      index.set(code, [...(index.get(code) ?? []), c]);
+    });
+    callingCodeIndex = index;
+  }
+  return callingCodeIndex;
+};
+
+/**
+ * Get the countries using a calling code ("1", "+1" or "1-268")
+ */
+export const getCountriesByCallingCode = (phoneCode: string): Country[] => {
+  const code = phoneCode.replace(/^\+/, "");
+  const sharing = getCallingCodeIndex().get(code.split("-")[0]) ?? [];
+  return code.includes("-")
+    ? sharing.filter((c) => c.phoneCode === code)
+    : sharing;
+};
+
+/**
+ * Pick the country a national number belongs to among those sharing its
+ * calling code, using `phoneNumberPrefixes`. Countries without prefixes are
+ * the fallback when no prefix matches.
+ */
+const disambiguate = (
+  candidates: Country[],
+  nationalNumber: string,
+): Country | undefined => {
+  if (candidates.length === 1) return candidates[0];
+
+  const byPrefix = candidates.find((c) =>
+    phoneNumberPrefixes[c.alpha2]?.some((prefix) =>
+      nationalNumber.startsWith(prefix),
+    ),
+  );
+  if (byPrefix) return byPrefix;
+
+  const fallbacks = candidates.filter((c) => !phoneNumberPrefixes[c.alpha2]);
+  return fallbacks.length === 1 ? fallbacks[0] : undefined;
+};
+
+/**
+ * Parse an international phone number, finding its calling code by
+ * longest-prefix matching and the country from its area code.
+ *
+ * @param number - A number in international form ("+44 20 7123 4567" or "0044...")
+ * @returns The calling code, candidate countries, the identified country, the
+ * national number and its formatted version, or `undefined` if no calling code matches
+ *
+ * @example
+ * parsePhoneNumber("+442071234567");
+ * // { callingCode: "44", candidates: [United Kingdom], country: United Kingdom,
+ * //   nationalNumber: "2071234567", formatted: "+44 2071-234567" }
+ * parsePhoneNumber("+1 416 555 0123")?.country?.alpha2; // "CA"
+ */
+export const parsePhoneNumber = (
+  number: string,
+): ParsedPhoneNumber | undefined => {
+  const parsed = parsePhoneInput(number);
+  if (!parsed || !parsed.international) return undefined;
+
+  const index = getCallingCodeIndex();
+  for (let length = 3; length >= 1; length--) {
+    const callingCode = parsed.digits.slice(0, length);
+    const candidates = index.get(callingCode);
+    if (!candidates || callingCode.length < length) continue;
+
+    const nationalNumber = parsed.digits.slice(length);
+    const country = disambiguate(candidates, nationalNumber);
+    return {
+      callingCode,
+      candidates: country
+        ? [country, ...candidates.filter((c) => c !== country)]
+        : [...candidates],
+      country,
+      nationalNumber,
+      formatted:
+        country &&
+        formatPhoneNumber(`+${parsed.digits}`, country.alpha2, "international"),
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Get the single country a phone number belongs to, telling apart countries
+ * that share a calling code (US/Canada/Caribbean on +1, Russia/Kazakhstan on +7)
+ * by their area codes.
+ *
+ * @param number - A number in international form ("+7 701 234 5678" or "007...")
+ * @returns The country, or `undefined` if it can't be determined
+ *
+ * @example
+ * getCountryByPhoneNumber("+1 416 555 0123");  // Canada
+ * getCountryByPhoneNumber("+1 212 555 0123");  // United States
+ * getCountryByPhoneNumber("+7 701 234 5678");  // Kazakhstan
+ * getCountryByPhoneNumber("+7 912 345 67 89"); // Russia
+ */
+export const getCountryByPhoneNumber = (number: string): Country | undefined =>
+  parsePhoneNumber(number)?.country;
@@ -0,0 +1,100 @@
+import { foldCode, getCountryIndexes } from "./indexes";
+import { postalCodeFormats } from "./postalCodes";
+import { CountryCode, PostalCodeFormat } from "./types";
+
+// ============================================================================
+// POSTAL CODE FORMATS
+// ============================================================================
+
+/**
+ * Look up a country's postal code format. `null` means the country doesn't
+ * use postal codes, `undefined` that the country is unknown.
+ */
+const lookupFormat = (
+  countryCode: string,
+): PostalCodeFormat | null | undefined => {
+  const country = getCountryIndexes().alpha2.get(foldCode(countryCode));
+  return country ? postalCodeFormats[country.alpha2] : undefined;
+};
+
+/**
+ * Get the postal code format of a country
+ *
+ * @param countryCode - The alpha-2 code of the country
+ * @returns The format, or undefined if the country doesn't use postal codes
+ *
+ * @example
+ * getPostalCodeFormat("BR"); // { label: "CEP", regex: /^(\d{5})(\d{3})$/, separator: "-", example: "01310-100" }
+ * getPostalCodeFormat("AE"); // undefined
+ */
+export const getPostalCodeFormat = (
+  countryCode: CountryCode,
+): PostalCodeFormat | undefined => lookupFormat(countryCode) ?? undefined;
+
+/**
+ * Check if a country's addresses use postal codes
+ *
+ * @example
+ * usesPostalCodes("IE"); // true
+ * usesPostalCodes("QA"); // false
+ */
+export const usesPostalCodes = (countryCode: CountryCode): boolean =>
+  !!lookupFormat(countryCode);
+
+// ============================================================================
+// VALIDATION AND FORMATTING
+// ============================================================================
+
+/**
+ * Format a postal code the way the country writes it, fixing case, spacing,
+ * hyphens and the country prefix.
+ * For a country without postal codes only blank input is accepted, giving "".
+ *
+ * @param code - The postal code as typed by the user
+ * @param countryCode - The alpha-2 code of the country
+ * @returns The formatted code, or undefined if it isn't valid for the country
+ *
+ * @example
+ * formatPostalCode("k1a0b1", "CA");    // "K1A 0B1"
+ * formatPostalCode("1012js", "NL");    // "1012 JS"
+ * formatPostalCode("123456789", "US"); // "12345-6789"
+ * formatPostalCode("1050", "LV");      // "LV-1050"
+ * formatPostalCode("1234", "US");      // undefined
+ */
+export const formatPostalCode = (
+  code: string,
+  countryCode: CountryCode,
+): string | undefined => {
+  const format = lookupFormat(countryCode);
+  if (format === undefined) return undefined;
+
+  let compact = code.toUpperCase().replace(/[\s-]/g, "");
+  if (format === null) return compact ? undefined : "";
+
+  const prefix = format.prefix ?? "";
+  const compactPrefix = prefix.replace(/[\s-]/g, "");
+  if (compactPrefix && compact.startsWith(compactPrefix)) {
+    compact = compact.slice(compactPrefix.length);
+  }
+
+  const match = format.regex.exec(compact);
+  if (!match) return undefined;
+
+  const parts = match.slice(1).filter((part) => part !== undefined);
+  return prefix + parts.join(format.separator ?? "");
+};
+
+/**
+ * Check if a postal code is valid for a country, ignoring case, spacing and
+ * hyphens. For a country without postal codes only blank input is valid.
+ *
+ * @example
+ * validatePostalCode("K1A 0B1", "CA"); // true
+ * validatePostalCode("1012 JS", "NL"); // true
+ * validatePostalCode("0123 AB", "NL"); // false
+ * validatePostalCode("90210", "GB");   // false
+ */
+export const validatePostalCode = (
+  code: string,
+  countryCode: CountryCode,
+): boolean => formatPostalCode(code, countryCode) !== undefined;
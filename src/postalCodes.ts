@@ -0,0 +1,364 @@
+import { CountryCode, PostalCodeFormat } from "./types";
+
+// ============================================================================
+// POSTAL CODE FORMATS
+// ============================================================================
+
+/**
+ * Postal code format of each country, or `null` where addresses don't use
+ * postal codes. Patterns follow the formats published by each country's postal
+ * operator and the UPU. A `regex` matches the code in upper case with spaces,
+ * hyphens and the `prefix` removed; its capture groups are the parts joined by
+ * `separator` when formatting.
+ */
+export const postalCodeFormats: Readonly<
+  Record<CountryCode, PostalCodeFormat | null>
+> = {
+  US: {
+    label: "ZIP code",
+    regex: /^(\d{5})(\d{4})?$/,
+    separator: "-",
+    example: "20500",
+  },
+  CA: {
+    label: "Postal code",
+    regex: /^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])(\d[ABCEGHJ-NPRSTV-Z]\d)$/,
+    separator: " ",
+    example: "K1A 0B1",
+  },
+  BR: {
+    label: "CEP",
+    regex: /^(\d{5})(\d{3})$/,
+    separator: "-",
+    example: "01310-100",
+  },
+  GB: {
+    label: "Postcode",
+    regex: /^([A-Z]{1,2}\d[A-Z\d]?|GIR)(\d[A-Z]{2})$/,
+    separator: " ",
+    example: "SW1A 1AA",
+  },
+  DE: { label: "PLZ", regex: /^(\d{5})$/, example: "10117" },
+  FR: { label: "Postal code", regex: /^(\d{5})$/, example: "75008" },
+  CN: { label: "Postal code", regex: /^(\d{6})$/, example: "100000" },
+  JP: {
+    label: "Postal code",
+    regex: /^(\d{3})(\d{4})$/,
+    separator: "-",
+    example: "100-0001",
+  },
+  IN: { label: "PIN code", regex: /^([1-9]\d{5})$/, example: "110001" },
+  AU: { label: "Postcode", regex: /^(\d{4})$/, example: "2600" },
+  ZA: { label: "Postal code", regex: /^(\d{4})$/, example: "0001" },
+  NG: { label: "Postal code", regex: /^(\d{6})$/, example: "100001" },
+  MX: { label: "Postal code", regex: /^(\d{5})$/, example: "06000" },
+  RU: { label: "Postal code", regex: /^(\d{6})$/, example: "101000" },
+  SA: {
+    label: "Postal code",
+    regex: /^(\d{5})(\d{4})?$/,
+    separator: "-",
+    example: "11564",
+  },
+  AF: { label: "Postal code", regex: /^(\d{4})$/, example: "1001" },
+  AL: { label: "Postal code", regex: /^(\d{4})$/, example: "1001" },
+  DZ: { label: "Postal code", regex: /^(\d{5})$/, example: "16000" },
+  AD: {
+    label: "Postal code",
+    regex: /^(\d{3})$/,
+    prefix: "AD",
+    example: "AD500",
+  },
+  AO: null,
+  AG: null,
+  AR: {
+    label: "CPA",
+    regex: /^([A-Z]\d{4}[A-Z]{3}|\d{4})$/,
+    example: "C1425DBB",
+  },
+  AM: { label: "Postal code", regex: /^(\d{4})$/, example: "0010" },
+  AT: { label: "PLZ", regex: /^(\d{4})$/, example: "1010" },
+  AZ: {
+    label: "Postal code",
+    regex: /^(\d{4})$/,
+    prefix: "AZ ",
+    example: "AZ 1000",
+  },
+  BS: null,
+  BH: { label: "Postal code", regex: /^(\d{3,4})$/, example: "317" },
+  BD: { label: "Postal code", regex: /^(\d{4})$/, example: "1000" },
+  BB: {
+    label: "Postal code",
+    regex: /^(\d{5})$/,
+    prefix: "BB",
+    example: "BB11000",
+  },
+  BY: { label: "Postal code", regex: /^(\d{6})$/, example: "220050" },
+  BE: { label: "Postal code", regex: /^(\d{4})$/, example: "1000" },
+  BZ: null,
+  BJ: null,
+  BT: { label: "Postal code", regex: /^(\d{5})$/, example: "11001" },
+  BO: null,
+  BA: { label: "Postal code", regex: /^(\d{5})$/, example: "71000" },
+  BW: null,
+  BN: { label: "Postal code", regex: /^([A-Z]{2}\d{4})$/, example: "BS8811" },
+  BG: { label: "Postal code", regex: /^(\d{4})$/, example: "1000" },
+  BF: null,
+  BI: null,
+  CV: { label: "Postal code", regex: /^(\d{4})$/, example: "7600" },
+  KH: { label: "Postal code", regex: /^(\d{5,6})$/, example: "120101" },
+  CM: null,
+  CF: null,
+  TD: null,
+  CL: { label: "Postal code", regex: /^(\d{7})$/, example: "8340457" },
+  CO: { label: "Postal code", regex: /^(\d{6})$/, example: "110111" },
+  KM: null,
+  CG: null,
+  CD: null,
+  CR: { label: "Postal code", regex: /^(\d{5})$/, example: "10101" },
+  CI: null,
+  HR: { label: "Postal code", regex: /^(\d{5})$/, example: "10000" },
+  CU: { label: "Postal code", regex: /^(\d{5})$/, example: "10400" },
+  CY: { label: "Postal code", regex: /^(\d{4})$/, example: "1010" },
+  CZ: {
+    label: "Postal code",
+    regex: /^(\d{3})(\d{2})$/,
+    separator: " ",
+    example: "110 00",
+  },
+  DK: { label: "Postal code", regex: /^(\d{4})$/, example: "1050" },
+  DJ: null,
+  DM: null,
+  DO: { label: "Postal code", regex: /^(\d{5})$/, example: "10101" },
+  EC: { label: "Postal code", regex: /^(\d{6})$/, example: "170150" },
+  EG: { label: "Postal code", regex: /^(\d{5})$/, example: "11511" },
+  SV: { label: "Postal code", regex: /^(\d{4})$/, example: "1101" },
+  GQ: null,
+  ER: null,
+  EE: { label: "Postal code", regex: /^(\d{5})$/, example: "10111" },
+  SZ: { label: "Postal code", regex: /^([A-Z]\d{3})$/, example: "H100" },
+  ET: { label: "Postal code", regex: /^(\d{4})$/, example: "1000" },
+  FJ: null,
+  FI: { label: "Postal code", regex: /^(\d{5})$/, example: "00100" },
+  GA: null,
+  GM: null,
+  GE: { label: "Postal code", regex: /^(\d{4})$/, example: "0105" },
+  GH: null,
+  GR: {
+    label: "Postal code",
+    regex: /^(\d{3})(\d{2})$/,
+    separator: " ",
+    example: "105 57",
+  },
+  GD: null,
+  GT: { label: "Postal code", regex: /^(\d{5})$/, example: "01001" },
+  GN: { label: "Postal code", regex: /^(\d{3})$/, example: "001" },
+  GW: { label: "Postal code", regex: /^(\d{4})$/, example: "1000" },
+  GY: null,
+  HT: {
+    label: "Postal code",
+    regex: /^(\d{4})$/,
+    prefix: "HT",
+    example: "HT6110",
+  },
+  HN: { label: "Postal code", regex: /^(\d{5})$/, example: "11101" },
+  HU: { label: "Postal code", regex: /^(\d{4})$/, example: "1051" },
+  IS: { label: "Postal code", regex: /^(\d{3})$/, example: "101" },
+  ID: { label: "Postal code", regex: /^(\d{5})$/, example: "10110" },
+  IR: {
+    label: "Postal code",
+    regex: /^(\d{5})(\d{5})$/,
+    separator: "-",
+    example: "11369-14111",
+  },
+  IQ: { label: "Postal code", regex: /^(\d{5})$/, example: "10001" },
+  IE: {
+    label: "Eircode",
+    regex: /^([AC-FHKNPRTV-Y]\d{2}|D6W)([AC-FHKNPRTV-Y\d]{4})$/,
+    separator: " ",
+    example: "D02 X285",
+  },
+  IL: { label: "Postal code", regex: /^(\d{7})$/, example: "9614303" },
+  IT: { label: "CAP", regex: /^(\d{5})$/, example: "00144" },
+  JM: null,
+  JO: { label: "Postal code", regex: /^(\d{5})$/, example: "11118" },
+  KZ: { label: "Postal code", regex: /^(\d{6})$/, example: "010000" },
+  KE: { label: "Postal code", regex: /^(\d{5})$/, example: "00100" },
+  KI: null,
+  KW: { label: "Postal code", regex: /^(\d{5})$/, example: "13001" },
+  KG: { label: "Postal code", regex: /^(\d{6})$/, example: "720001" },
+  LA: { label: "Postal code", regex: /^(\d{5})$/, example: "01000" },
+  LV: {
+    label: "Postal code",
+    regex: /^(\d{4})$/,
+    prefix: "LV-",
+    example: "LV-1050",
+  },
+  LB: {
+    label: "Postal code",
+    regex: /^(\d{4})(\d{4})?$/,
+    separator: " ",
+    example: "2038 3054",
+  },
+  LS: { label: "Postal code", regex: /^(\d{3})$/, example: "100" },
+  LR: { label: "Postal code", regex: /^(\d{4})$/, example: "1000" },
+  LY: null,
+  LI: { label: "PLZ", regex: /^(94[89]\d)$/, example: "9490" },
+  LT: {
+    label: "Postal code",
+    regex: /^(\d{5})$/,
+    prefix: "LT-",
+    example: "LT-01001",
+  },
+  LU: {
+    label: "Postal code",
+    regex: /^(\d{4})$/,
+    prefix: "L-",
+    example: "L-1009",
+  },
+  MG: { label: "Postal code", regex: /^(\d{3})$/, example: "101" },
+  MW: null,
+  MY: { label: "Postal code", regex: /^(\d{5})$/, example: "50050" },
+  MV: { label: "Postal code", regex: /^(\d{5})$/, example: "20026" },
+  ML: null,
+  MT: {
+    label: "Postcode",
+    regex: /^([A-Z]{3})(\d{4})$/,
+    separator: " ",
+    example: "VLT 1117",
+  },
+  MH: {
+    label: "ZIP code",
+    regex: /^(\d{5})(\d{4})?$/,
+    separator: "-",
+    example: "96960",
+  },
+  MR: null,
+  MU: { label: "Postal code", regex: /^(\d{5})$/, example: "11302" },
+  FM: {
+    label: "ZIP code",
+    regex: /^(\d{5})(\d{4})?$/,
+    separator: "-",
+    example: "96941",
+  },
+  MD: {
+    label: "Postal code",
+    regex: /^(\d{4})$/,
+    prefix: "MD-",
+    example: "MD-2001",
+  },
+  MC: { label: "Postal code", regex: /^(980\d{2})$/, example: "98000" },
+  MN: { label: "Postal code", regex: /^(\d{5})$/, example: "14200" },
+  ME: { label: "Postal code", regex: /^(\d{5})$/, example: "81000" },
+  MA: { label: "Postal code", regex: /^(\d{5})$/, example: "10000" },
+  MZ: { label: "Postal code", regex: /^(\d{4})$/, example: "1100" },
+  MM: { label: "Postal code", regex: /^(\d{5})$/, example: "11181" },
+  NA: { label: "Postal code", regex: /^(\d{5})$/, example: "10001" },
+  NR: null,
+  NP: { label: "Postal code", regex: /^(\d{5})$/, example: "44600" },
+  NL: {
+    label: "Postcode",
+    regex: /^([1-9]\d{3})([A-Z]{2})$/,
+    separator: " ",
+    example: "1012 JS",
+  },
+  NZ: { label: "Postcode", regex: /^(\d{4})$/, example: "6011" },
+  NI: { label: "Postal code", regex: /^(\d{5})$/, example: "11001" },
+  NE: { label: "Postal code", regex: /^(\d{4})$/, example: "8001" },
+  KP: null,
+  MK: { label: "Postal code", regex: /^(\d{4})$/, example: "1000" },
+  NO: { label: "Postal code", regex: /^(\d{4})$/, example: "0150" },
+  OM: { label: "Postal code", regex: /^(\d{3})$/, example: "100" },
+  PK: { label: "Postal code", regex: /^(\d{5})$/, example: "44000" },
+  PW: {
+    label: "ZIP code",
+    regex: /^(\d{5})(\d{4})?$/,
+    separator: "-",
+    example: "96940",
+  },
+  PA: null,
+  PG: { label: "Postal code", regex: /^(\d{3})$/, example: "111" },
+  PY: { label: "Postal code", regex: /^(\d{4})$/, example: "1209" },
+  PE: { label: "Postal code", regex: /^(\d{5})$/, example: "15001" },
+  PH: { label: "ZIP code", regex: /^(\d{4})$/, example: "1000" },
+  PL: {
+    label: "Postal code",
+    regex: /^(\d{2})(\d{3})$/,
+    separator: "-",
+    example: "00-950",
+  },
+  PT: {
+    label: "Postal code",
+    regex: /^(\d{4})(\d{3})$/,
+    separator: "-",
+    example: "1000-001",
+  },
+  QA: null,
+  RO: { label: "Postal code", regex: /^(\d{6})$/, example: "010011" },
+  RW: null,
+  KN: null,
+  LC: null,
+  VC: {
+    label: "Postal code",
+    regex: /^(\d{4})$/,
+    prefix: "VC",
+    example: "VC0100",
+  },
+  WS: null,
+  SM: { label: "CAP", regex: /^(4789\d)$/, example: "47890" },
+  ST: null,
+  SN: { label: "Postal code", regex: /^(\d{5})$/, example: "12500" },
+  RS: { label: "Postal code", regex: /^(\d{5})$/, example: "11000" },
+  SC: null,
+  SL: null,
+  SG: { label: "Postal code", regex: /^(\d{6})$/, example: "018989" },
+  SK: {
+    label: "Postal code",
+    regex: /^(\d{3})(\d{2})$/,
+    separator: " ",
+    example: "811 01",
+  },
+  SI: { label: "Postal code", regex: /^(\d{4})$/, example: "1000" },
+  SB: null,
+  SO: {
+    label: "Postal code",
+    regex: /^([A-Z]{2})(\d{5})$/,
+    separator: " ",
+    example: "JH 09010",
+  },
+  KR: { label: "Postal code", regex: /^(\d{5})$/, example: "03051" },
+  SS: null,
+  ES: { label: "Postal code", regex: /^(\d{5})$/, example: "28013" },
+  LK: { label: "Postal code", regex: /^(\d{5})$/, example: "00100" },
+  SD: { label: "Postal code", regex: /^(\d{5})$/, example: "11111" },
+  SR: null,
+  SE: {
+    label: "Postal code",
+    regex: /^(\d{3})(\d{2})$/,
+    separator: " ",
+    example: "114 55",
+  },
+  CH: { label: "PLZ", regex: /^(\d{4})$/, example: "8001" },
+  SY: null,
+  TJ: { label: "Postal code", regex: /^(\d{6})$/, example: "734000" },
+  TZ: { label: "Postal code", regex: /^(\d{5})$/, example: "11101" },
+  TH: { label: "Postal code", regex: /^(\d{5})$/, example: "10200" },
+  TG: null,
+  TO: null,
+  TT: { label: "Postal code", regex: /^(\d{6})$/, example: "120110" },
+  TN: { label: "Postal code", regex: /^(\d{4})$/, example: "1000" },
+  TR: { label: "Postal code", regex: /^(\d{5})$/, example: "06100" },
+  TM: { label: "Postal code", regex: /^(\d{6})$/, example: "744000" },
+  TV: null,
+  UG: null,
+  UA: { label: "Postal code", regex: /^(\d{5})$/, example: "01001" },
+  AE: null,
+  UY: { label: "Postal code", regex: /^(\d{5})$/, example: "11000" },
+  UZ: { label: "Postal code", regex: /^(\d{6})$/, example: "100000" },
+  VU: null,
+  VE: { label: "Postal code", regex: /^(\d{4})$/, example: "1010" },
+  VN: { label: "Postal code", regex: /^(\d{5}\d?)$/, example: "100000" },
+  YE: null,
+  ZM: { label: "Postal code", regex: /^(\d{5})$/, example: "10101" },
+  ZW: null,
+  TL: null,
+};
@@ -0,0 +1,121 @@
+import { boundaries } from "./boundaries";
+import { getCountryIndexes } from "./indexes";
+import { Country, CountryCode, LinearRing, Polygon } from "./types";
+
+// ============================================================================
+// REVERSE GEOCODING
+// ============================================================================
+
+interface Shape {
+  readonly country: Country;
+  readonly polygon: Polygon;
+  readonly west: number;
+  readonly south: number;
+  readonly east: number;
+  readonly north: number;
+  readonly area: number;
+}
+
+let shapes: readonly Shape[] | undefined;
+
+/**
+ * Shoelace area of a ring in square degrees, only used to rank overlapping shapes
+ */
+const ringArea = (ring: LinearRing): number => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 2; i < ring.length; j = i, i += 2) {
+    sum += ring[j] * ring[i + 1] - ring[i] * ring[j + 1];
+  }
+  return Math.abs(sum) / 2;
+};
+
+/**
+ * Every polygon with its bounding box and area, computed on first use
+ */
+const getShapes = (): readonly Shape[] => {
+  if (!shapes) {
+    const { alpha2 } = getCountryIndexes();
+    shapes = (Object.keys(boundaries) as CountryCode[]).flatMap((code) =>
+      boundaries[code].map((polygon) => {
+        const outer = polygon[0];
+        const lngs = outer.filter((_, i) => i % 2 === 0);
+        const lats = outer.filter((_, i) => i % 2 === 1);
+        return {
+          country: alpha2.get(code)!,
+          polygon,
+          west: Math.min(...lngs),
+          south: Math.min(...lats),
+          east: Math.max(...lngs),
+          north: Math.max(...lats),
+          area: ringArea(outer),
+        };
+      }),
+    );
+  }
+  return shapes;
+};
+
+/**
+ * Even-odd ray casting test
+ */
+const inRing = (ring: LinearRing, lng: number, lat: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 2; i < ring.length; j = i, i += 2) {
+    const [x1, y1, x2, y2] = [ring[i], ring[i + 1], ring[j], ring[j + 1]];
+    if (
+      y1 > lat !== y2 > lat &&
+      lng < ((x2 - x1) * (lat - y1)) / (y2 - y1) + x1
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const inShape = (shape: Shape, lng: number, lat: number): boolean =>
+  lng >= shape.west &&
+  lng <= shape.east &&
+  lat >= shape.south &&
+  lat <= shape.north &&
+  inRing(shape.polygon[0], lng, lat) &&
+  !shape.polygon.slice(1).some((hole) => inRing(hole, lng, lat));
+
+/**
+ * Find the country containing a point, using simplified outlines bundled in
+ * this module. Import it from its own path so the outlines stay out of the
+ * main bundle.
+ *
+ * Points within roughly 20 km of a border or coastline may resolve to a
+ * neighbour or to no country at all. Where outlines overlap, the smaller
+ * shape wins, so enclaves like Lesotho or San Marino are found.
+ *
+ * @param lat - Latitude in decimal degrees, between -90 and 90
+ * @param lng - Longitude in decimal degrees; values outside -180 to 180 wrap around
+ * @returns The country at that point, or `undefined` for open sea, areas
+ * outside any country in the dataset and invalid coordinates
+ *
+ * @example
+ * import { getCountryByCoordinates } from "ts-countries-list/dist/reverseGeocode";
+ *
+ * getCountryByCoordinates(48.8566, 2.3522)?.alpha2;    // "FR"
+ * getCountryByCoordinates(-16.8, 179.9)?.alpha2;       // "FJ"
+ * getCountryByCoordinates(-16.8, -180.1)?.alpha2;      // "FJ"
+ * getCountryByCoordinates(30, -40);                    // undefined (mid-Atlantic)
+ */
+export const getCountryByCoordinates = (
+  lat: number,
+  lng: number,
+): Country | undefined => {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90) {
+    return undefined;
+  }
+  // Normalise to [-180, 180), then also try +360 for rings that continue past 180
+  const x = ((((lng + 180) % 360) + 360) % 360) - 180;
+
+  let best: Shape | undefined;
+  getShapes().forEach((shape) => {
+    if (best && shape.area >= best.area) return;
+    if (inShape(shape, x, lat) || inShape(shape, x + 360, lat)) best = shape;
+  });
+  return best?.country;
+};
@@ -0,0 +1,85 @@
+import { foldCode, getCountryIndexes } from "./indexes";
+import { subdivisionLoaders } from "./subdivisions";
+import { CountryCode, Subdivision, SubdivisionsOf } from "./types";
+
+// ============================================================================
+// SUBDIVISION LOADING
+// ============================================================================
+
+/**
+ * Subdivision lists by country, each loaded on first request
+ */
+const loaded = new Map<CountryCode, Promise<readonly Subdivision[]>>();
+
+/**
+ * Load a country's subdivision module. Each country lives in its own module
+ * under `subdivisions/`, so only the countries actually asked for are loaded.
+ * The generated loaders import each module by a literal path, so bundlers
+ * include all of them; this module is kept out of the main entry for that reason.
+ */
+const loadSubdivisions = (
+  code: string,
+): Promise<readonly Subdivision[]> | undefined => {
+  const country = getCountryIndexes().alpha2.get(foldCode(code));
+  if (!country) return undefined;
+
+  let pending = loaded.get(country.alpha2);
+  if (!pending) {
+    pending = subdivisionLoaders[country.alpha2]();
+    loaded.set(country.alpha2, pending);
+  }
+  return pending;
+};
+
+// ============================================================================
+// SUBDIVISIONS
+// ============================================================================
+
+/**
+ * Get the ISO 3166-2 subdivisions of a country, such as US states or Canadian
+ * provinces. Nested levels are included, with `parent` pointing to the
+ * enclosing subdivision.
+ *
+ * The records are typed to the country, so their codes narrow to
+ * `SubdivisionCode<C>`.
+ *
+ * @param countryCode - The alpha-2 code of the country
+ * @returns The subdivisions sorted by code, or an empty array for an unknown country
+ *
+ * @example
+ * import { getSubdivisions } from "ts-countries-list/dist/subdivision";
+ *
+ * const states = await getSubdivisions("US");
+ * states.find((s) => s.code === "US-CA"); // { code: "US-CA", name: "California", type: "State" }
+ * states.map((s) => s.code); // SubdivisionCode<"US">[]
+ */
+export const getSubdivisions = async <C extends CountryCode>(
+  countryCode: C,
+): Promise<SubdivisionsOf<C>[]> =>
+  [...((await loadSubdivisions(countryCode)) ?? [])] as SubdivisionsOf<C>[];
+
+/**
+ * Get a subdivision by its ISO 3166-2 code (case-insensitive).
+ *
+ * @example
+ * await getSubdivision("US-CA");  // { code: "US-CA", name: "California", type: "State" }
+ * await getSubdivision("gb-edh"); // { code: "GB-EDH", name: "Edinburgh, City of", ..., parent: "GB-SCT" }
+ * await getSubdivision("US-XX");  // undefined
+ */
+export const getSubdivision = async (
+  code: string,
+): Promise<Subdivision | undefined> => {
+  const normalized = code.trim().toUpperCase();
+  const list = await loadSubdivisions(normalized.split("-")[0]);
+  return list?.find((s) => s.code === normalized);
+};
+
+/**
+ * Check if a string is a valid ISO 3166-2 subdivision code (case-insensitive)
+ *
+ * @example
+ * await isValidSubdivisionCode("CA-ON"); // true
+ * await isValidSubdivisionCode("CA-XX"); // false
+ */
+export const isValidSubdivisionCode = async (code: string): Promise<boolean> =>
+  (await getSubdivision(code)) !== undefined;
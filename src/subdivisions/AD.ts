@@ -0,0 +1,13 @@
+/**
+ * ISO 3166-2 subdivisions of Andorra (AD), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const AD = [
+  { code: "AD-02", name: "Canillo", type: "Parish" },
+  { code: "AD-03", name: "Encamp", type: "Parish" },
+  { code: "AD-04", name: "La Massana", type: "Parish" },
+  { code: "AD-05", name: "Ordino", type: "Parish" },
+  { code: "AD-06", name: "Sant Julià de Lòria", type: "Parish" },
+  { code: "AD-07", name: "Andorra la Vella", type: "Parish" },
+  { code: "AD-08", name: "Escaldes-Engordany", type: "Parish" },
+] as const;
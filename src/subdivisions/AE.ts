@@ -0,0 +1,13 @@
+/**
+ * ISO 3166-2 subdivisions of United Arab Emirates (AE), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const AE = [
+  { code: "AE-AJ", name: "‘Ajmān", type: "Emirate" },
+  { code: "AE-AZ", name: "Abū Z̧aby", type: "Emirate" },
+  { code: "AE-DU", name: "Dubayy", type: "Emirate" },
+  { code: "AE-FU", name: "Al Fujayrah", type: "Emirate" },
+  { code: "AE-RK", name: "Ra’s al Khaymah", type: "Emirate" },
+  { code: "AE-SH", name: "Ash Shāriqah", type: "Emirate" },
+  { code: "AE-UQ", name: "Umm al Qaywayn", type: "Emirate" },
+] as const;
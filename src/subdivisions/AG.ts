@@ -0,0 +1,14 @@
+/**
+ * ISO 3166-2 subdivisions of Antigua and Barbuda (AG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const AG = [
+  { code: "AG-03", name: "Saint George", type: "Parish" },
+  { code: "AG-04", name: "Saint John", type: "Parish" },
+  { code: "AG-05", name: "Saint Mary", type: "Parish" },
+  { code: "AG-06", name: "Saint Paul", type: "Parish" },
+  { code: "AG-07", name: "Saint Peter", type: "Parish" },
+  { code: "AG-08", name: "Saint Philip", type: "Parish" },
+  { code: "AG-10", name: "Barbuda", type: "Dependency" },
+  { code: "AG-11", name: "Redonda", type: "Dependency" },
+] as const;
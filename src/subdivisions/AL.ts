@@ -0,0 +1,18 @@
+/**
+ * ISO 3166-2 subdivisions of Albania (AL), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const AL = [
+  { code: "AL-01", name: "Berat", type: "County" },
+  { code: "AL-02", name: "Durrës", type: "County" },
+  { code: "AL-03", name: "Elbasan", type: "County" },
+  { code: "AL-04", name: "Fier", type: "County" },
+  { code: "AL-05", name: "Gjirokastër", type: "County" },
+  { code: "AL-06", name: "Korçë", type: "County" },
+  { code: "AL-07", name: "Kukës", type: "County" },
+  { code: "AL-08", name: "Lezhë", type: "County" },
+  { code: "AL-09", name: "Dibër", type: "County" },
+  { code: "AL-10", name: "Shkodër", type: "County" },
+  { code: "AL-11", name: "Tiranë", type: "County" },
+  { code: "AL-12", name: "Vlorë", type: "County" },
+] as const;
@@ -0,0 +1,17 @@
+/**
+ * ISO 3166-2 subdivisions of Armenia (AM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const AM = [
+  { code: "AM-AG", name: "Aragac̣otn", type: "Region" },
+  { code: "AM-AR", name: "Ararat", type: "Region" },
+  { code: "AM-AV", name: "Armavir", type: "Region" },
+  { code: "AM-ER", name: "Erevan", type: "City" },
+  { code: "AM-GR", name: "Geġark'unik'", type: "Region" },
+  { code: "AM-KT", name: "Kotayk'", type: "Region" },
+  { code: "AM-LO", name: "Loṙi", type: "Region" },
+  { code: "AM-SH", name: "Širak", type: "Region" },
+  { code: "AM-SU", name: "Syunik'", type: "Region" },
+  { code: "AM-TV", name: "Tavuš", type: "Region" },
+  { code: "AM-VD", name: "Vayoć Jor", type: "Region" },
+] as const;
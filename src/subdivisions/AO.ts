@@ -0,0 +1,24 @@
+/**
+ * ISO 3166-2 subdivisions of Angola (AO), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const AO = [
+  { code: "AO-BGO", name: "Bengo", type: "Province" },
+  { code: "AO-BGU", name: "Benguela", type: "Province" },
+  { code: "AO-BIE", name: "Bié", type: "Province" },
+  { code: "AO-CAB", name: "Cabinda", type: "Province" },
+  { code: "AO-CCU", name: "Cuando Cubango", type: "Province" },
+  { code: "AO-CNN", name: "Cunene", type: "Province" },
+  { code: "AO-CNO", name: "Cuanza-Norte", type: "Province" },
+  { code: "AO-CUS", name: "Cuanza-Sul", type: "Province" },
+  { code: "AO-HUA", name: "Huambo", type: "Province" },
+  { code: "AO-HUI", name: "Huíla", type: "Province" },
+  { code: "AO-LNO", name: "Lunda-Norte", type: "Province" },
+  { code: "AO-LSU", name: "Lunda-Sul", type: "Province" },
+  { code: "AO-LUA", name: "Luanda", type: "Province" },
+  { code: "AO-MAL", name: "Malange", type: "Province" },
+  { code: "AO-MOX", name: "Moxico", type: "Province" },
+  { code: "AO-NAM", name: "Namibe", type: "Province" },
+  { code: "AO-UIG", name: "Uíge", type: "Province" },
+  { code: "AO-ZAI", name: "Zaire", type: "Province" },
+] as const;
@@ -0,0 +1,30 @@
+/**
+ * ISO 3166-2 subdivisions of Argentina (AR), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const AR = [
+  { code: "AR-A", name: "Salta", type: "Province" },
+  { code: "AR-B", name: "Buenos Aires", type: "Province" },
+  { code: "AR-C", name: "Ciudad Autónoma de Buenos Aires", type: "City" },
+  { code: "AR-D", name: "San Luis", type: "Province" },
+  { code: "AR-E", name: "Entre Ríos", type: "Province" },
+  { code: "AR-F", name: "La Rioja", type: "Province" },
+  { code: "AR-G", name: "Santiago del Estero", type: "Province" },
+  { code: "AR-H", name: "Chaco", type: "Province" },
+  { code: "AR-J", name: "San Juan", type: "Province" },
+  { code: "AR-K", name: "Catamarca", type: "Province" },
+  { code: "AR-L", name: "La Pampa", type: "Province" },
+  { code: "AR-M", name: "Mendoza", type: "Province" },
+  { code: "AR-N", name: "Misiones", type: "Province" },
+  { code: "AR-P", name: "Formosa", type: "Province" },
+  { code: "AR-Q", name: "Neuquén", type: "Province" },
+  { code: "AR-R", name: "Río Negro", type: "Province" },
+  { code: "AR-S", name: "Santa Fe", type: "Province" },
+  { code: "AR-T", name: "Tucumán", type: "Province" },
+  { code: "AR-U", name: "Chubut", type: "Province" },
+  { code: "AR-V", name: "Tierra del Fuego", type: "Province" },
+  { code: "AR-W", name: "Corrientes", type: "Province" },
+  { code: "AR-X", name: "Córdoba", type: "Province" },
+  { code: "AR-Y", name: "Jujuy", type: "Province" },
+  { code: "AR-Z", name: "Santa Cruz", type: "Province" },
+] as const;
@@ -0,0 +1,14 @@
+/**
+ * ISO 3166-2 subdivisions of Australia (AU), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const AU = [
+  { code: "AU-ACT", name: "Australian Capital Territory", type: "Territory" },
+  { code: "AU-NSW", name: "New South Wales", type: "State" },
+  { code: "AU-NT", name: "Northern Territory", type: "Territory" },
+  { code: "AU-QLD", name: "Queensland", type: "State" },
+  { code: "AU-SA", name: "South Australia", type: "State" },
+  { code: "AU-TAS", name: "Tasmania", type: "State" },
+  { code: "AU-VIC", name: "Victoria", type: "State" },
+  { code: "AU-WA", name: "Western Australia", type: "State" },
+] as const;
@@ -0,0 +1,13 @@
+/**
+ * ISO 3166-2 subdivisions of Bosnia and Herzegovina (BA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BA = [
+  { code: "BA-BIH", name: "Federacija Bosne i Hercegovine", type: "Entity" },
+  {
+    code: "BA-BRC",
+    name: "Brčko distrikt",
+    type: "District with special status",
+  },
+  { code: "BA-SRP", name: "Republika Srpska", type: "Entity" },
+] as const;
@@ -0,0 +1,17 @@
+/**
+ * ISO 3166-2 subdivisions of Barbados (BB), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BB = [
+  { code: "BB-01", name: "Christ Church", type: "Parish" },
+  { code: "BB-02", name: "Saint Andrew", type: "Parish" },
+  { code: "BB-03", name: "Saint George", type: "Parish" },
+  { code: "BB-04", name: "Saint James", type: "Parish" },
+  { code: "BB-05", name: "Saint John", type: "Parish" },
+  { code: "BB-06", name: "Saint Joseph", type: "Parish" },
+  { code: "BB-07", name: "Saint Lucy", type: "Parish" },
+  { code: "BB-08", name: "Saint Michael", type: "Parish" },
+  { code: "BB-09", name: "Saint Peter", type: "Parish" },
+  { code: "BB-10", name: "Saint Philip", type: "Parish" },
+  { code: "BB-11", name: "Saint Thomas", type: "Parish" },
+] as const;
@@ -0,0 +1,78 @@
+/**
+ * ISO 3166-2 subdivisions of Bangladesh (BD), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BD = [
+  { code: "BD-01", name: "Bandarban", type: "District", parent: "BD-B" },
+  { code: "BD-02", name: "Barguna", type: "District", parent: "BD-A" },
+  { code: "BD-03", name: "Bogura", type: "District", parent: "BD-E" },
+  { code: "BD-04", name: "Brahmanbaria", type: "District", parent: "BD-B" },
+  { code: "BD-05", name: "Bagerhat", type: "District", parent: "BD-D" },
+  { code: "BD-06", name: "Barishal", type: "District", parent: "BD-A" },
+  { code: "BD-07", name: "Bhola", type: "District", parent: "BD-A" },
+  { code: "BD-08", name: "Cumilla", type: "District", parent: "BD-B" },
+  { code: "BD-09", name: "Chandpur", type: "District", parent: "BD-B" },
+  { code: "BD-10", name: "Chattogram", type: "District", parent: "BD-B" },
+  { code: "BD-11", name: "Cox's Bazar", type: "District", parent: "BD-B" },
+  { code: "BD-12", name: "Chuadanga", type: "District", parent: "BD-D" },
+  { code: "BD-13", name: "Dhaka", type: "District", parent: "BD-C" },
+  { code: "BD-14", name: "Dinajpur", type: "District", parent: "BD-F" },
+  { code: "BD-15", name: "Faridpur", type: "District", parent: "BD-C" },
+  { code: "BD-16", name: "Feni", type: "District", parent: "BD-B" },
+  { code: "BD-17", name: "Gopalganj", type: "District", parent: "BD-C" },
+  { code: "BD-18", name: "Gazipur", type: "District", parent: "BD-C" },
+  { code: "BD-19", name: "Gaibandha", type: "District", parent: "BD-F" },
+  { code: "BD-20", name: "Habiganj", type: "District", parent: "BD-G" },
+  { code: "BD-21", name: "Jamalpur", type: "District", parent: "BD-H" },
+  { code: "BD-22", name: "Jashore", type: "District", parent: "BD-D" },
+  { code: "BD-23", name: "Jhenaidah", type: "District", parent: "BD-D" },
+  { code: "BD-24", name: "Joypurhat", type: "District", parent: "BD-E" },
+  { code: "BD-25", name: "Jhalakathi", type: "District", parent: "BD-A" },
+  { code: "BD-26", name: "Kishoreganj", type: "District", parent: "BD-C" },
+  { code: "BD-27", name: "Khulna", type: "District", parent: "BD-D" },
+  { code: "BD-28", name: "Kurigram", type: "District", parent: "BD-F" },
+  { code: "BD-29", name: "Khagrachhari", type: "District", parent: "BD-B" },
+  { code: "BD-30", name: "Kushtia", type: "District", parent: "BD-D" },
+  { code: "BD-31", name: "Lakshmipur", type: "District", parent: "BD-B" },
+  { code: "BD-32", name: "Lalmonirhat", type: "District", parent: "BD-F" },
+  { code: "BD-33", name: "Manikganj", type: "District", parent: "BD-C" },
+  { code: "BD-34", name: "Mymensingh", type: "District", parent: "BD-H" },
+  { code: "BD-35", name: "Munshiganj", type: "District", parent: "BD-C" },
+  { code: "BD-36", name: "Madaripur", type: "District", parent: "BD-C" },
+  { code: "BD-37", name: "Magura", type: "District", parent: "BD-D" },
+  { code: "BD-38", name: "Moulvibazar", type: "District", parent: "BD-G" },
+  { code: "BD-39", name: "Meherpur", type: "District", parent: "BD-D" },
+  { code: "BD-40", name: "Narayanganj", type: "District", parent: "BD-C" },
+  { code: "BD-41", name: "Netrakona", type: "District", parent: "BD-H" },
+  { code: "BD-42", name: "Narsingdi", type: "District", parent: "BD-C" },
+  { code: "BD-43", name: "Narail", type: "District", parent: "BD-D" },
+  { code: "BD-44", name: "Natore", type: "District", parent: "BD-E" },
+  { code: "BD-45", name: "Chapai Nawabganj", type: "District", parent: "BD-E" },
+  { code: "BD-46", name: "Nilphamari", type: "District", parent: "BD-F" },
+  { code: "BD-47", name: "Noakhali", type: "District", parent: "BD-B" },
+  { code: "BD-48", name: "Naogaon", type: "District", parent: "BD-E" },
+  { code: "BD-49", name: "Pabna", type: "District", parent: "BD-E" },
+  { code: "BD-50", name: "Pirojpur", type: "District", parent: "BD-A" },
+  { code: "BD-51", name: "Patuakhali", type: "District", parent: "BD-A" },
+  { code: "BD-52", name: "Panchagarh", type: "District", parent: "BD-F" },
+  { code: "BD-53", name: "Rajbari", type: "District", parent: "BD-C" },
+  { code: "BD-54", name: "Rajshahi", type: "District", parent: "BD-E" },
+  { code: "BD-55", name: "Rangpur", type: "District", parent: "BD-F" },
+  { code: "BD-56", name: "Rangamati", type: "District", parent: "BD-B" },
+  { code: "BD-57", name: "Sherpur", type: "District", parent: "BD-H" },
+  { code: "BD-58", name: "Satkhira", type: "District", parent: "BD-D" },
+  { code: "BD-59", name: "Sirajganj", type: "District", parent: "BD-E" },
+  { code: "BD-60", name: "Sylhet", type: "District", parent: "BD-G" },
+  { code: "BD-61", name: "Sunamganj", type: "District", parent: "BD-G" },
+  { code: "BD-62", name: "Shariatpur", type: "District", parent: "BD-C" },
+  { code: "BD-63", name: "Tangail", type: "District", parent: "BD-C" },
+  { code: "BD-64", name: "Thakurgaon", type: "District", parent: "BD-F" },
+  { code: "BD-A", name: "Barishal", type: "Division" },
+  { code: "BD-B", name: "Chattogram", type: "Division" },
+  { code: "BD-C", name: "Dhaka", type: "Division" },
+  { code: "BD-D", name: "Khulna", type: "Division" },
+  { code: "BD-E", name: "Rajshahi", type: "Division" },
+  { code: "BD-F", name: "Rangpur", type: "Division" },
+  { code: "BD-G", name: "Sylhet", type: "Division" },
+  { code: "BD-H", name: "Mymensingh", type: "Division" },
+] as const;
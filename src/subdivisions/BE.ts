@@ -0,0 +1,39 @@
+/**
+ * ISO 3166-2 subdivisions of Belgium (BE), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BE = [
+  { code: "BE-BRU", name: "Brussels Hoofdstedelijk Gewest", type: "Region" },
+  { code: "BE-VAN", name: "Antwerpen", type: "Province", parent: "BE-VLG" },
+  {
+    code: "BE-VBR",
+    name: "Vlaams-Brabant",
+    type: "Province",
+    parent: "BE-VLG",
+  },
+  { code: "BE-VLG", name: "Vlaams Gewest", type: "Region" },
+  { code: "BE-VLI", name: "Limburg", type: "Province", parent: "BE-VLG" },
+  {
+    code: "BE-VOV",
+    name: "Oost-Vlaanderen",
+    type: "Province",
+    parent: "BE-VLG",
+  },
+  {
+    code: "BE-VWV",
+    name: "West-Vlaanderen",
+    type: "Province",
+    parent: "BE-VLG",
+  },
+  { code: "BE-WAL", name: "wallonne, Région", type: "Region" },
+  {
+    code: "BE-WBR",
+    name: "Brabant wallon",
+    type: "Province",
+    parent: "BE-WAL",
+  },
+  { code: "BE-WHT", name: "Hainaut", type: "Province", parent: "BE-WAL" },
+  { code: "BE-WLG", name: "Liège", type: "Province", parent: "BE-WAL" },
+  { code: "BE-WLX", name: "Luxembourg", type: "Province", parent: "BE-WAL" },
+  { code: "BE-WNA", name: "Namur", type: "Province", parent: "BE-WAL" },
+] as const;
@@ -0,0 +1,64 @@
+/**
+ * ISO 3166-2 subdivisions of Burkina Faso (BF), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BF = [
+  { code: "BF-01", name: "Boucle du Mouhoun", type: "Region" },
+  { code: "BF-02", name: "Cascades", type: "Region" },
+  { code: "BF-03", name: "Centre", type: "Region" },
+  { code: "BF-04", name: "Centre-Est", type: "Region" },
+  { code: "BF-05", name: "Centre-Nord", type: "Region" },
+  { code: "BF-06", name: "Centre-Ouest", type: "Region" },
+  { code: "BF-07", name: "Centre-Sud", type: "Region" },
+  { code: "BF-08", name: "Est", type: "Region" },
+  { code: "BF-09", name: "Hauts-Bassins", type: "Region" },
+  { code: "BF-10", name: "Nord", type: "Region" },
+  { code: "BF-11", name: "Plateau-Central", type: "Region" },
+  { code: "BF-12", name: "Sahel", type: "Region" },
+  { code: "BF-13", name: "Sud-Ouest", type: "Region" },
+  { code: "BF-BAL", name: "Balé", type: "Province", parent: "BF-01" },
+  { code: "BF-BAM", name: "Bam", type: "Province", parent: "BF-05" },
+  { code: "BF-BAN", name: "Banwa", type: "Province", parent: "BF-01" },
+  { code: "BF-BAZ", name: "Bazèga", type: "Province", parent: "BF-07" },
+  { code: "BF-BGR", name: "Bougouriba", type: "Province", parent: "BF-13" },
+  { code: "BF-BLG", name: "Boulgou", type: "Province", parent: "BF-04" },
+  { code: "BF-BLK", name: "Boulkiemdé", type: "Province", parent: "BF-06" },
+  { code: "BF-COM", name: "Comoé", type: "Province", parent: "BF-02" },
+  { code: "BF-GAN", name: "Ganzourgou", type: "Province", parent: "BF-11" },
+  { code: "BF-GNA", name: "Gnagna", type: "Province", parent: "BF-08" },
+  { code: "BF-GOU", name: "Gourma", type: "Province", parent: "BF-08" },
+  { code: "BF-HOU", name: "Houet", type: "Province", parent: "BF-09" },
+  { code: "BF-IOB", name: "Ioba", type: "Province", parent: "BF-13" },
+  { code: "BF-KAD", name: "Kadiogo", type: "Province", parent: "BF-03" },
+  { code: "BF-KEN", name: "Kénédougou", type: "Province", parent: "BF-09" },
+  { code: "BF-KMD", name: "Komondjari", type: "Province", parent: "BF-08" },
+  { code: "BF-KMP", name: "Kompienga", type: "Province", parent: "BF-08" },
+  { code: "BF-KOP", name: "Koulpélogo", type: "Province", parent: "BF-04" },
+  { code: "BF-KOS", name: "Kossi", type: "Province", parent: "BF-01" },
+  { code: "BF-KOT", name: "Kouritenga", type: "Province", parent: "BF-04" },
+  { code: "BF-KOW", name: "Kourwéogo", type: "Province", parent: "BF-11" },
+  { code: "BF-LER", name: "Léraba", type: "Province", parent: "BF-02" },
+  { code: "BF-LOR", name: "Loroum", type: "Province", parent: "BF-10" },
+  { code: "BF-MOU", name: "Mouhoun", type: "Province", parent: "BF-01" },
+  { code: "BF-NAM", name: "Namentenga", type: "Province", parent: "BF-05" },
+  { code: "BF-NAO", name: "Nahouri", type: "Province", parent: "BF-07" },
+  { code: "BF-NAY", name: "Nayala", type: "Province", parent: "BF-01" },
+  { code: "BF-NOU", name: "Noumbiel", type: "Province", parent: "BF-13" },
+  { code: "BF-OUB", name: "Oubritenga", type: "Province", parent: "BF-11" },
+  { code: "BF-OUD", name: "Oudalan", type: "Province", parent: "BF-12" },
+  { code: "BF-PAS", name: "Passoré", type: "Province", parent: "BF-10" },
+  { code: "BF-PON", name: "Poni", type: "Province", parent: "BF-13" },
+  { code: "BF-SEN", name: "Séno", type: "Province", parent: "BF-12" },
+  { code: "BF-SIS", name: "Sissili", type: "Province", parent: "BF-06" },
+  { code: "BF-SMT", name: "Sanmatenga", type: "Province", parent: "BF-05" },
+  { code: "BF-SNG", name: "Sanguié", type: "Province", parent: "BF-06" },
+  { code: "BF-SOM", name: "Soum", type: "Province", parent: "BF-12" },
+  { code: "BF-SOR", name: "Sourou", type: "Province", parent: "BF-01" },
+  { code: "BF-TAP", name: "Tapoa", type: "Province", parent: "BF-08" },
+  { code: "BF-TUI", name: "Tuy", type: "Province", parent: "BF-09" },
+  { code: "BF-YAG", name: "Yagha", type: "Province", parent: "BF-12" },
+  { code: "BF-YAT", name: "Yatenga", type: "Province", parent: "BF-10" },
+  { code: "BF-ZIR", name: "Ziro", type: "Province", parent: "BF-06" },
+  { code: "BF-ZON", name: "Zondoma", type: "Province", parent: "BF-10" },
+  { code: "BF-ZOU", name: "Zoundwéogo", type: "Province", parent: "BF-07" },
+] as const;
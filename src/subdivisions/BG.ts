@@ -0,0 +1,34 @@
+/**
+ * ISO 3166-2 subdivisions of Bulgaria (BG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BG = [
+  { code: "BG-01", name: "Blagoevgrad", type: "District" },
+  { code: "BG-02", name: "Burgas", type: "District" },
+  { code: "BG-03", name: "Varna", type: "District" },
+  { code: "BG-04", name: "Veliko Tarnovo", type: "District" },
+  { code: "BG-05", name: "Vidin", type: "District" },
+  { code: "BG-06", name: "Vratsa", type: "District" },
+  { code: "BG-07", name: "Gabrovo", type: "District" },
+  { code: "BG-08", name: "Dobrich", type: "District" },
+  { code: "BG-09", name: "Kardzhali", type: "District" },
+  { code: "BG-10", name: "Kyustendil", type: "District" },
+  { code: "BG-11", name: "Lovech", type: "District" },
+  { code: "BG-12", name: "Montana", type: "District" },
+  { code: "BG-13", name: "Pazardzhik", type: "District" },
+  { code: "BG-14", name: "Pernik", type: "District" },
+  { code: "BG-15", name: "Pleven", type: "District" },
+  { code: "BG-16", name: "Plovdiv", type: "District" },
+  { code: "BG-17", name: "Razgrad", type: "District" },
+  { code: "BG-18", name: "Ruse", type: "District" },
+  { code: "BG-19", name: "Silistra", type: "District" },
+  { code: "BG-20", name: "Sliven", type: "District" },
+  { code: "BG-21", name: "Smolyan", type: "District" },
+  { code: "BG-22", name: "Sofia (stolitsa)", type: "District" },
+  { code: "BG-23", name: "Sofia", type: "District" },
+  { code: "BG-24", name: "Stara Zagora", type: "District" },
+  { code: "BG-25", name: "Targovishte", type: "District" },
+  { code: "BG-26", name: "Haskovo", type: "District" },
+  { code: "BG-27", name: "Shumen", type: "District" },
+  { code: "BG-28", name: "Yambol", type: "District" },
+] as const;
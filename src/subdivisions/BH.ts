@@ -0,0 +1,10 @@
+/**
+ * ISO 3166-2 subdivisions of Bahrain (BH), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BH = [
+  { code: "BH-13", name: "Al ‘Āşimah", type: "Governorate" },
+  { code: "BH-14", name: "Al Janūbīyah", type: "Governorate" },
+  { code: "BH-15", name: "Al Muḩarraq", type: "Governorate" },
+  { code: "BH-17", name: "Ash Shamālīyah", type: "Governorate" },
+] as const;
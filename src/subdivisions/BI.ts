@@ -0,0 +1,24 @@
+/**
+ * ISO 3166-2 subdivisions of Burundi (BI), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BI = [
+  { code: "BI-BB", name: "Bubanza", type: "Province" },
+  { code: "BI-BL", name: "Bujumbura Rural", type: "Province" },
+  { code: "BI-BM", name: "Bujumbura Mairie", type: "Province" },
+  { code: "BI-BR", name: "Bururi", type: "Province" },
+  { code: "BI-CA", name: "Cankuzo", type: "Province" },
+  { code: "BI-CI", name: "Cibitoke", type: "Province" },
+  { code: "BI-GI", name: "Gitega", type: "Province" },
+  { code: "BI-KI", name: "Kirundo", type: "Province" },
+  { code: "BI-KR", name: "Karuzi", type: "Province" },
+  { code: "BI-KY", name: "Kayanza", type: "Province" },
+  { code: "BI-MA", name: "Makamba", type: "Province" },
+  { code: "BI-MU", name: "Muramvya", type: "Province" },
+  { code: "BI-MW", name: "Mwaro", type: "Province" },
+  { code: "BI-MY", name: "Muyinga", type: "Province" },
+  { code: "BI-NG", name: "Ngozi", type: "Province" },
+  { code: "BI-RM", name: "Rumonge", type: "Province" },
+  { code: "BI-RT", name: "Rutana", type: "Province" },
+  { code: "BI-RY", name: "Ruyigi", type: "Province" },
+] as const;
@@ -0,0 +1,18 @@
+/**
+ * ISO 3166-2 subdivisions of Benin (BJ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BJ = [
+  { code: "BJ-AK", name: "Atacora", type: "Department" },
+  { code: "BJ-AL", name: "Alibori", type: "Department" },
+  { code: "BJ-AQ", name: "Atlantique", type: "Department" },
+  { code: "BJ-BO", name: "Borgou", type: "Department" },
+  { code: "BJ-CO", name: "Collines", type: "Department" },
+  { code: "BJ-DO", name: "Donga", type: "Department" },
+  { code: "BJ-KO", name: "Couffo", type: "Department" },
+  { code: "BJ-LI", name: "Littoral", type: "Department" },
+  { code: "BJ-MO", name: "Mono", type: "Department" },
+  { code: "BJ-OU", name: "Ouémé", type: "Department" },
+  { code: "BJ-PL", name: "Plateau", type: "Department" },
+  { code: "BJ-ZO", name: "Zou", type: "Department" },
+] as const;
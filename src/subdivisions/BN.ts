@@ -0,0 +1,10 @@
+/**
+ * ISO 3166-2 subdivisions of Brunei (BN), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BN = [
+  { code: "BN-BE", name: "Belait", type: "District" },
+  { code: "BN-BM", name: "Brunei-Muara", type: "District" },
+  { code: "BN-TE", name: "Temburong", type: "District" },
+  { code: "BN-TU", name: "Tutong", type: "District" },
+] as const;
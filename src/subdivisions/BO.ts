@@ -0,0 +1,15 @@
+/**
+ * ISO 3166-2 subdivisions of Bolivia (BO), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BO = [
+  { code: "BO-B", name: "El Beni", type: "Department" },
+  { code: "BO-C", name: "Cochabamba", type: "Department" },
+  { code: "BO-H", name: "Chuquisaca", type: "Department" },
+  { code: "BO-L", name: "La Paz", type: "Department" },
+  { code: "BO-N", name: "Pando", type: "Department" },
+  { code: "BO-O", name: "Oruro", type: "Department" },
+  { code: "BO-P", name: "Potosí", type: "Department" },
+  { code: "BO-S", name: "Santa Cruz", type: "Department" },
+  { code: "BO-T", name: "Tarija", type: "Department" },
+] as const;
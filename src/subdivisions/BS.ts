@@ -0,0 +1,38 @@
+/**
+ * ISO 3166-2 subdivisions of Bahamas (BS), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BS = [
+  { code: "BS-AK", name: "Acklins", type: "District" },
+  { code: "BS-BI", name: "Bimini", type: "District" },
+  { code: "BS-BP", name: "Black Point", type: "District" },
+  { code: "BS-BY", name: "Berry Islands", type: "District" },
+  { code: "BS-CE", name: "Central Eleuthera", type: "District" },
+  { code: "BS-CI", name: "Cat Island", type: "District" },
+  { code: "BS-CK", name: "Crooked Island and Long Cay", type: "District" },
+  { code: "BS-CO", name: "Central Abaco", type: "District" },
+  { code: "BS-CS", name: "Central Andros", type: "District" },
+  { code: "BS-EG", name: "East Grand Bahama", type: "District" },
+  { code: "BS-EX", name: "Exuma", type: "District" },
+  { code: "BS-FP", name: "City of Freeport", type: "District" },
+  { code: "BS-GC", name: "Grand Cay", type: "District" },
+  { code: "BS-HI", name: "Harbour Island", type: "District" },
+  { code: "BS-HT", name: "Hope Town", type: "District" },
+  { code: "BS-IN", name: "Inagua", type: "District" },
+  { code: "BS-LI", name: "Long Island", type: "District" },
+  { code: "BS-MC", name: "Mangrove Cay", type: "District" },
+  { code: "BS-MG", name: "Mayaguana", type: "District" },
+  { code: "BS-MI", name: "Moore's Island", type: "District" },
+  { code: "BS-NE", name: "North Eleuthera", type: "District" },
+  { code: "BS-NO", name: "North Abaco", type: "District" },
+  { code: "BS-NP", name: "New Providence", type: "Island" },
+  { code: "BS-NS", name: "North Andros", type: "District" },
+  { code: "BS-RC", name: "Rum Cay", type: "District" },
+  { code: "BS-RI", name: "Ragged Island", type: "District" },
+  { code: "BS-SA", name: "South Andros", type: "District" },
+  { code: "BS-SE", name: "South Eleuthera", type: "District" },
+  { code: "BS-SO", name: "South Abaco", type: "District" },
+  { code: "BS-SS", name: "San Salvador", type: "District" },
+  { code: "BS-SW", name: "Spanish Wells", type: "District" },
+  { code: "BS-WG", name: "West Grand Bahama", type: "District" },
+] as const;
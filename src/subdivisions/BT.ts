@@ -0,0 +1,26 @@
+/**
+ * ISO 3166-2 subdivisions of Bhutan (BT), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BT = [
+  { code: "BT-11", name: "Paro", type: "District" },
+  { code: "BT-12", name: "Chhukha", type: "District" },
+  { code: "BT-13", name: "Haa", type: "District" },
+  { code: "BT-14", name: "Samtse", type: "District" },
+  { code: "BT-15", name: "Thimphu", type: "District" },
+  { code: "BT-21", name: "Tsirang", type: "District" },
+  { code: "BT-22", name: "Dagana", type: "District" },
+  { code: "BT-23", name: "Punakha", type: "District" },
+  { code: "BT-24", name: "Wangdue Phodrang", type: "District" },
+  { code: "BT-31", name: "Sarpang", type: "District" },
+  { code: "BT-32", name: "Trongsa", type: "District" },
+  { code: "BT-33", name: "Bumthang", type: "District" },
+  { code: "BT-34", name: "Zhemgang", type: "District" },
+  { code: "BT-41", name: "Trashigang", type: "District" },
+  { code: "BT-42", name: "Monggar", type: "District" },
+  { code: "BT-43", name: "Pema Gatshel", type: "District" },
+  { code: "BT-44", name: "Lhuentse", type: "District" },
+  { code: "BT-45", name: "Samdrup Jongkhar", type: "District" },
+  { code: "BT-GA", name: "Gasa", type: "District" },
+  { code: "BT-TY", name: "Trashi Yangtse", type: "District" },
+] as const;
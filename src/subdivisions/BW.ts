@@ -0,0 +1,22 @@
+/**
+ * ISO 3166-2 subdivisions of Botswana (BW), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BW = [
+  { code: "BW-CE", name: "Central", type: "District" },
+  { code: "BW-CH", name: "Chobe", type: "District" },
+  { code: "BW-FR", name: "Francistown", type: "City" },
+  { code: "BW-GA", name: "Gaborone", type: "City" },
+  { code: "BW-GH", name: "Ghanzi", type: "District" },
+  { code: "BW-JW", name: "Jwaneng", type: "Town" },
+  { code: "BW-KG", name: "Kgalagadi", type: "District" },
+  { code: "BW-KL", name: "Kgatleng", type: "District" },
+  { code: "BW-KW", name: "Kweneng", type: "District" },
+  { code: "BW-LO", name: "Lobatse", type: "Town" },
+  { code: "BW-NE", name: "North East", type: "District" },
+  { code: "BW-NW", name: "North West", type: "District" },
+  { code: "BW-SE", name: "South East", type: "District" },
+  { code: "BW-SO", name: "Southern", type: "District" },
+  { code: "BW-SP", name: "Selibe Phikwe", type: "Town" },
+  { code: "BW-ST", name: "Sowa Town", type: "Town" },
+] as const;
@@ -0,0 +1,13 @@
+/**
+ * ISO 3166-2 subdivisions of Belarus (BY), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BY = [
+  { code: "BY-BR", name: "Bresckaja voblasć", type: "Oblast" },
+  { code: "BY-HM", name: "Gorod Minsk", type: "City" },
+  { code: "BY-HO", name: "Gomel'skaja oblast'", type: "Oblast" },
+  { code: "BY-HR", name: "Grodnenskaja oblast'", type: "Oblast" },
+  { code: "BY-MA", name: "Mahilioŭskaja voblasć", type: "Oblast" },
+  { code: "BY-MI", name: "Minskaja oblast'", type: "Oblast" },
+  { code: "BY-VI", name: "Viciebskaja voblasć", type: "Oblast" },
+] as const;
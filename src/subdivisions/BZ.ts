@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Belize (BZ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const BZ = [
+  { code: "BZ-BZ", name: "Belize", type: "District" },
+  { code: "BZ-CY", name: "Cayo", type: "District" },
+  { code: "BZ-CZL", name: "Corozal", type: "District" },
+  { code: "BZ-OW", name: "Orange Walk", type: "District" },
+  { code: "BZ-SC", name: "Stann Creek", type: "District" },
+  { code: "BZ-TOL", name: "Toledo", type: "District" },
+] as const;
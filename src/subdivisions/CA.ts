@@ -0,0 +1,19 @@
+/**
+ * ISO 3166-2 subdivisions of Canada (CA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CA = [
+  { code: "CA-AB", name: "Alberta", type: "Province" },
+  { code: "CA-BC", name: "British Columbia", type: "Province" },
+  { code: "CA-MB", name: "Manitoba", type: "Province" },
+  { code: "CA-NB", name: "New Brunswick", type: "Province" },
+  { code: "CA-NL", name: "Newfoundland and Labrador", type: "Province" },
+  { code: "CA-NS", name: "Nova Scotia", type: "Province" },
+  { code: "CA-NT", name: "Northwest Territories", type: "Territory" },
+  { code: "CA-NU", name: "Nunavut", type: "Territory" },
+  { code: "CA-ON", name: "Ontario", type: "Province" },
+  { code: "CA-PE", name: "Prince Edward Island", type: "Province" },
+  { code: "CA-QC", name: "Quebec", type: "Province" },
+  { code: "CA-SK", name: "Saskatchewan", type: "Province" },
+  { code: "CA-YT", name: "Yukon", type: "Territory" },
+] as const;
@@ -0,0 +1,23 @@
+/**
+ * ISO 3166-2 subdivisions of Central African Republic (CF), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CF = [
+  { code: "CF-AC", name: "Ouham", type: "Prefecture" },
+  { code: "CF-BB", name: "Bamingui-Bangoran", type: "Prefecture" },
+  { code: "CF-BGF", name: "Bangui", type: "Commune" },
+  { code: "CF-BK", name: "Basse-Kotto", type: "Prefecture" },
+  { code: "CF-HK", name: "Haute-Kotto", type: "Prefecture" },
+  { code: "CF-HM", name: "Haut-Mbomou", type: "Prefecture" },
+  { code: "CF-HS", name: "Haute-Sangha / Mambéré-Kadéï", type: "Prefecture" },
+  { code: "CF-KB", name: "Gribingui", type: "Economic prefecture" },
+  { code: "CF-KG", name: "Kemö-Gïrïbïngï", type: "Prefecture" },
+  { code: "CF-LB", name: "Lobaye", type: "Prefecture" },
+  { code: "CF-MB", name: "Mbomou", type: "Prefecture" },
+  { code: "CF-MP", name: "Ombella-Mpoko", type: "Prefecture" },
+  { code: "CF-NM", name: "Nana-Mambéré", type: "Prefecture" },
+  { code: "CF-OP", name: "Ouham-Pendé", type: "Prefecture" },
+  { code: "CF-SE", name: "Sangha", type: "Economic prefecture" },
+  { code: "CF-UK", name: "Ouaka", type: "Prefecture" },
+  { code: "CF-VK", name: "Vakaga", type: "Prefecture" },
+] as const;
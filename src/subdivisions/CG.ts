@@ -0,0 +1,18 @@
+/**
+ * ISO 3166-2 subdivisions of Congo (Congo-Brazzaville) (CG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CG = [
+  { code: "CG-11", name: "Bouenza", type: "Department" },
+  { code: "CG-12", name: "Pool", type: "Department" },
+  { code: "CG-13", name: "Sangha", type: "Department" },
+  { code: "CG-14", name: "Plateaux", type: "Department" },
+  { code: "CG-15", name: "Cuvette-Ouest", type: "Department" },
+  { code: "CG-16", name: "Pointe-Noire", type: "Department" },
+  { code: "CG-2", name: "Lékoumou", type: "Department" },
+  { code: "CG-5", name: "Kouilou", type: "Department" },
+  { code: "CG-7", name: "Likouala", type: "Department" },
+  { code: "CG-8", name: "Cuvette", type: "Department" },
+  { code: "CG-9", name: "Niari", type: "Department" },
+  { code: "CG-BZV", name: "Brazzaville", type: "Department" },
+] as const;
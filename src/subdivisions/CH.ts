@@ -0,0 +1,32 @@
+/**
+ * ISO 3166-2 subdivisions of Switzerland (CH), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CH = [
+  { code: "CH-AG", name: "Aargau", type: "Canton" },
+  { code: "CH-AI", name: "Appenzell Innerrhoden", type: "Canton" },
+  { code: "CH-AR", name: "Appenzell Ausserrhoden", type: "Canton" },
+  { code: "CH-BE", name: "Bern", type: "Canton" },
+  { code: "CH-BL", name: "Basel-Landschaft", type: "Canton" },
+  { code: "CH-BS", name: "Basel-Stadt", type: "Canton" },
+  { code: "CH-FR", name: "Freiburg", type: "Canton" },
+  { code: "CH-GE", name: "Genève", type: "Canton" },
+  { code: "CH-GL", name: "Glarus", type: "Canton" },
+  { code: "CH-GR", name: "Graubünden", type: "Canton" },
+  { code: "CH-JU", name: "Jura", type: "Canton" },
+  { code: "CH-LU", name: "Luzern", type: "Canton" },
+  { code: "CH-NE", name: "Neuchâtel", type: "Canton" },
+  { code: "CH-NW", name: "Nidwalden", type: "Canton" },
+  { code: "CH-OW", name: "Obwalden", type: "Canton" },
+  { code: "CH-SG", name: "Sankt Gallen", type: "Canton" },
+  { code: "CH-SH", name: "Schaffhausen", type: "Canton" },
+  { code: "CH-SO", name: "Solothurn", type: "Canton" },
+  { code: "CH-SZ", name: "Schwyz", type: "Canton" },
+  { code: "CH-TG", name: "Thurgau", type: "Canton" },
+  { code: "CH-TI", name: "Ticino", type: "Canton" },
+  { code: "CH-UR", name: "Uri", type: "Canton" },
+  { code: "CH-VD", name: "Vaud", type: "Canton" },
+  { code: "CH-VS", name: "Valais", type: "Canton" },
+  { code: "CH-ZG", name: "Zug", type: "Canton" },
+  { code: "CH-ZH", name: "Zürich", type: "Canton" },
+] as const;
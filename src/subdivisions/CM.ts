@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Cameroon (CM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CM = [
+  { code: "CM-AD", name: "Adamaoua", type: "Region" },
+  { code: "CM-CE", name: "Centre", type: "Region" },
+  { code: "CM-EN", name: "Far North", type: "Region" },
+  { code: "CM-ES", name: "East", type: "Region" },
+  { code: "CM-LT", name: "Littoral", type: "Region" },
+  { code: "CM-NO", name: "North", type: "Region" },
+  { code: "CM-NW", name: "North-West", type: "Region" },
+  { code: "CM-OU", name: "West", type: "Region" },
+  { code: "CM-SU", name: "South", type: "Region" },
+  { code: "CM-SW", name: "South-West", type: "Region" },
+] as const;
@@ -0,0 +1,48 @@
+/**
+ * ISO 3166-2 subdivisions of China (CN), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CN = [
+  { code: "CN-AH", name: "Anhui Sheng", type: "Province" },
+  { code: "CN-BJ", name: "Beijing Shi", type: "Municipality" },
+  { code: "CN-CQ", name: "Chongqing Shi", type: "Municipality" },
+  { code: "CN-FJ", name: "Fujian Sheng", type: "Province" },
+  { code: "CN-GD", name: "Guangdong Sheng", type: "Province" },
+  { code: "CN-GS", name: "Gansu Sheng", type: "Province" },
+  {
+    code: "CN-GX",
+    name: "Guangxi Zhuangzu Zizhiqu",
+    type: "Autonomous region",
+  },
+  { code: "CN-GZ", name: "Guizhou Sheng", type: "Province" },
+  { code: "CN-HA", name: "Henan Sheng", type: "Province" },
+  { code: "CN-HB", name: "Hubei Sheng", type: "Province" },
+  { code: "CN-HE", name: "Hebei Sheng", type: "Province" },
+  { code: "CN-HI", name: "Hainan Sheng", type: "Province" },
+  {
+    code: "CN-HK",
+    name: "Hong Kong SAR",
+    type: "Special administrative region",
+  },
+  { code: "CN-HL", name: "Heilongjiang Sheng", type: "Province" },
+  { code: "CN-HN", name: "Hunan Sheng", type: "Province" },
+  { code: "CN-JL", name: "Jilin Sheng", type: "Province" },
+  { code: "CN-JS", name: "Jiangsu Sheng", type: "Province" },
+  { code: "CN-JX", name: "Jiangxi Sheng", type: "Province" },
+  { code: "CN-LN", name: "Liaoning Sheng", type: "Province" },
+  { code: "CN-MO", name: "Macao SAR", type: "Special administrative region" },
+  { code: "CN-NM", name: "Nei Mongol Zizhiqu", type: "Autonomous region" },
+  { code: "CN-NX", name: "Ningxia Huizi Zizhiqu", type: "Autonomous region" },
+  { code: "CN-QH", name: "Qinghai Sheng", type: "Province" },
+  { code: "CN-SC", name: "Sichuan Sheng", type: "Province" },
+  { code: "CN-SD", name: "Shandong Sheng", type: "Province" },
+  { code: "CN-SH", name: "Shanghai Shi", type: "Municipality" },
+  { code: "CN-SN", name: "Shaanxi Sheng", type: "Province" },
+  { code: "CN-SX", name: "Shanxi Sheng", type: "Province" },
+  { code: "CN-TJ", name: "Tianjin Shi", type: "Municipality" },
+  { code: "CN-TW", name: "Taiwan Sheng", type: "Province" },
+  { code: "CN-XJ", name: "Xinjiang Uygur Zizhiqu", type: "Autonomous region" },
+  { code: "CN-XZ", name: "Xizang Zizhiqu", type: "Autonomous region" },
+  { code: "CN-YN", name: "Yunnan Sheng", type: "Province" },
+  { code: "CN-ZJ", name: "Zhejiang Sheng", type: "Province" },
+] as const;
@@ -0,0 +1,13 @@
+/**
+ * ISO 3166-2 subdivisions of Costa Rica (CR), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CR = [
+  { code: "CR-A", name: "Alajuela", type: "Province" },
+  { code: "CR-C", name: "Cartago", type: "Province" },
+  { code: "CR-G", name: "Guanacaste", type: "Province" },
+  { code: "CR-H", name: "Heredia", type: "Province" },
+  { code: "CR-L", name: "Limón", type: "Province" },
+  { code: "CR-P", name: "Puntarenas", type: "Province" },
+  { code: "CR-SJ", name: "San José", type: "Province" },
+] as const;
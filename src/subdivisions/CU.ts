@@ -0,0 +1,22 @@
+/**
+ * ISO 3166-2 subdivisions of Cuba (CU), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CU = [
+  { code: "CU-01", name: "Pinar del Río", type: "Province" },
+  { code: "CU-03", name: "La Habana", type: "Province" },
+  { code: "CU-04", name: "Matanzas", type: "Province" },
+  { code: "CU-05", name: "Villa Clara", type: "Province" },
+  { code: "CU-06", name: "Cienfuegos", type: "Province" },
+  { code: "CU-07", name: "Sancti Spíritus", type: "Province" },
+  { code: "CU-08", name: "Ciego de Ávila", type: "Province" },
+  { code: "CU-09", name: "Camagüey", type: "Province" },
+  { code: "CU-10", name: "Las Tunas", type: "Province" },
+  { code: "CU-11", name: "Holguín", type: "Province" },
+  { code: "CU-12", name: "Granma", type: "Province" },
+  { code: "CU-13", name: "Santiago de Cuba", type: "Province" },
+  { code: "CU-14", name: "Guantánamo", type: "Province" },
+  { code: "CU-15", name: "Artemisa", type: "Province" },
+  { code: "CU-16", name: "Mayabeque", type: "Province" },
+  { code: "CU-99", name: "Isla de la Juventud", type: "Special municipality" },
+] as const;
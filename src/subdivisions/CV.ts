@@ -0,0 +1,70 @@
+/**
+ * ISO 3166-2 subdivisions of Cabo Verde (CV), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CV = [
+  { code: "CV-B", name: "Ilhas de Barlavento", type: "Geographical region" },
+  { code: "CV-BR", name: "Brava", type: "Municipality", parent: "CV-S" },
+  { code: "CV-BV", name: "Boa Vista", type: "Municipality", parent: "CV-B" },
+  {
+    code: "CV-CA",
+    name: "Santa Catarina",
+    type: "Municipality",
+    parent: "CV-S",
+  },
+  {
+    code: "CV-CF",
+    name: "Santa Catarina do Fogo",
+    type: "Municipality",
+    parent: "CV-S",
+  },
+  { code: "CV-CR", name: "Santa Cruz", type: "Municipality", parent: "CV-S" },
+  { code: "CV-MA", name: "Maio", type: "Municipality", parent: "CV-S" },
+  { code: "CV-MO", name: "Mosteiros", type: "Municipality", parent: "CV-S" },
+  { code: "CV-PA", name: "Paul", type: "Municipality", parent: "CV-B" },
+  { code: "CV-PN", name: "Porto Novo", type: "Municipality", parent: "CV-B" },
+  { code: "CV-PR", name: "Praia", type: "Municipality", parent: "CV-S" },
+  {
+    code: "CV-RB",
+    name: "Ribeira Brava",
+    type: "Municipality",
+    parent: "CV-B",
+  },
+  {
+    code: "CV-RG",
+    name: "Ribeira Grande",
+    type: "Municipality",
+    parent: "CV-B",
+  },
+  {
+    code: "CV-RS",
+    name: "Ribeira Grande de Santiago",
+    type: "Municipality",
+    parent: "CV-S",
+  },
+  { code: "CV-S", name: "Ilhas de Sotavento", type: "Geographical region" },
+  { code: "CV-SD", name: "São Domingos", type: "Municipality", parent: "CV-S" },
+  { code: "CV-SF", name: "São Filipe", type: "Municipality", parent: "CV-S" },
+  { code: "CV-SL", name: "Sal", type: "Municipality", parent: "CV-B" },
+  { code: "CV-SM", name: "São Miguel", type: "Municipality", parent: "CV-S" },
+  {
+    code: "CV-SO",
+    name: "São Lourenço dos Órgãos",
+    type: "Municipality",
+    parent: "CV-S",
+  },
+  {
+    code: "CV-SS",
+    name: "São Salvador do Mundo",
+    type: "Municipality",
+    parent: "CV-S",
+  },
+  { code: "CV-SV", name: "São Vicente", type: "Municipality", parent: "CV-B" },
+  { code: "CV-TA", name: "Tarrafal", type: "Municipality", parent: "CV-S" },
+  {
+    code: "CV-TS",
+    name: "Tarrafal de São Nicolau",
+    type: "Municipality",
+    parent: "CV-B",
+  },
+] as const;
@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Cyprus (CY), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CY = [
+  { code: "CY-01", name: "Lefkosia", type: "District" },
+  { code: "CY-02", name: "Lemesos", type: "District" },
+  { code: "CY-03", name: "Larnaka", type: "District" },
+  { code: "CY-04", name: "Ammochostos", type: "District" },
+  { code: "CY-05", name: "Baf", type: "District" },
+  { code: "CY-06", name: "Girne", type: "District" },
+] as const;
@@ -0,0 +1,131 @@
+/**
+ * ISO 3166-2 subdivisions of Czech Republic (CZ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const CZ = [
+  { code: "CZ-10", name: "Praha, Hlavní město", type: "Capital city" },
+  { code: "CZ-20", name: "Středočeský kraj", type: "Region" },
+  { code: "CZ-201", name: "Benešov", type: "District", parent: "CZ-20" },
+  { code: "CZ-202", name: "Beroun", type: "District", parent: "CZ-20" },
+  { code: "CZ-203", name: "Kladno", type: "District", parent: "CZ-20" },
+  { code: "CZ-204", name: "Kolín", type: "District", parent: "CZ-20" },
+  { code: "CZ-205", name: "Kutná Hora", type: "District", parent: "CZ-20" },
+  { code: "CZ-206", name: "Mělník", type: "District", parent: "CZ-20" },
+  { code: "CZ-207", name: "Mladá Boleslav", type: "District", parent: "CZ-20" },
+  { code: "CZ-208", name: "Nymburk", type: "District", parent: "CZ-20" },
+  { code: "CZ-209", name: "Praha-východ", type: "District", parent: "CZ-20" },
+  { code: "CZ-20A", name: "Praha-západ", type: "District", parent: "CZ-20" },
+  { code: "CZ-20B", name: "Příbram", type: "District", parent: "CZ-20" },
+  { code: "CZ-20C", name: "Rakovník", type: "District", parent: "CZ-20" },
+  { code: "CZ-31", name: "Jihočeský kraj", type: "Region" },
+  {
+    code: "CZ-311",
+    name: "České Budějovice",
+    type: "District",
+    parent: "CZ-31",
+  },
+  { code: "CZ-312", name: "Český Krumlov", type: "District", parent: "CZ-31" },
+  {
+    code: "CZ-313",
+    name: "Jindřichův Hradec",
+    type: "District",
+    parent: "CZ-31",
+  },
+  { code: "CZ-314", name: "Písek", type: "District", parent: "CZ-31" },
+  { code: "CZ-315", name: "Prachatice", type: "District", parent: "CZ-31" },
+  { code: "CZ-316", name: "Strakonice", type: "District", parent: "CZ-31" },
+  { code: "CZ-317", name: "Tábor", type: "District", parent: "CZ-31" },
+  { code: "CZ-32", name: "Plzeňský kraj", type: "Region" },
+  { code: "CZ-321", name: "Domažlice", type: "District", parent: "CZ-32" },
+  { code: "CZ-322", name: "Klatovy", type: "District", parent: "CZ-32" },
+  { code: "CZ-323", name: "Plzeň-město", type: "District", parent: "CZ-32" },
+  { code: "CZ-324", name: "Plzeň-jih", type: "District", parent: "CZ-32" },
+  { code: "CZ-325", name: "Plzeň-sever", type: "District", parent: "CZ-32" },
+  { code: "CZ-326", name: "Rokycany", type: "District", parent: "CZ-32" },
+  { code: "CZ-327", name: "Tachov", type: "District", parent: "CZ-32" },
+  { code: "CZ-41", name: "Karlovarský kraj", type: "Region" },
+  { code: "CZ-411", name: "Cheb", type: "District", parent: "CZ-41" },
+  { code: "CZ-412", name: "Karlovy Vary", type: "District", parent: "CZ-41" },
+  { code: "CZ-413", name: "Sokolov", type: "District", parent: "CZ-41" },
+  { code: "CZ-42", name: "Ústecký kraj", type: "Region" },
+  { code: "CZ-421", name: "Děčín", type: "District", parent: "CZ-42" },
+  { code: "CZ-422", name: "Chomutov", type: "District", parent: "CZ-42" },
+  { code: "CZ-423", name: "Litoměřice", type: "District", parent: "CZ-42" },
+  { code: "CZ-424", name: "Louny", type: "District", parent: "CZ-42" },
+  { code: "CZ-425", name: "Most", type: "District", parent: "CZ-42" },
+  { code: "CZ-426", name: "Teplice", type: "District", parent: "CZ-42" },
+  { code: "CZ-427", name: "Ústí nad Labem", type: "District", parent: "CZ-42" },
+  { code: "CZ-51", name: "Liberecký kraj", type: "Region" },
+  { code: "CZ-511", name: "Česká Lípa", type: "District", parent: "CZ-51" },
+  {
+    code: "CZ-512",
+    name: "Jablonec nad Nisou",
+    type: "District",
+    parent: "CZ-51",
+  },
+  { code: "CZ-513", name: "Liberec", type: "District", parent: "CZ-51" },
+  { code: "CZ-514", name: "Semily", type: "District", parent: "CZ-51" },
+  { code: "CZ-52", name: "Královéhradecký kraj", type: "Region" },
+  { code: "CZ-521", name: "Hradec Králové", type: "District", parent: "CZ-52" },
+  { code: "CZ-522", name: "Jičín", type: "District", parent: "CZ-52" },
+  { code: "CZ-523", name: "Náchod", type: "District", parent: "CZ-52" },
+  {
+    code: "CZ-524",
+    name: "Rychnov nad Kněžnou",
+    type: "District",
+    parent: "CZ-52",
+  },
+  { code: "CZ-525", name: "Trutnov", type: "District", parent: "CZ-52" },
+  { code: "CZ-53", name: "Pardubický kraj", type: "Region" },
+  { code: "CZ-531", name: "Chrudim", type: "District", parent: "CZ-53" },
+  { code: "CZ-532", name: "Pardubice", type: "District", parent: "CZ-53" },
+  { code: "CZ-533", name: "Svitavy", type: "District", parent: "CZ-53" },
+  {
+    code: "CZ-534",
+    name: "Ústí nad Orlicí",
+    type: "District",
+    parent: "CZ-53",
+  },
+  { code: "CZ-63", name: "Kraj Vysočina", type: "Region" },
+  { code: "CZ-631", name: "Havlíčkův Brod", type: "District", parent: "CZ-63" },
+  { code: "CZ-632", name: "Jihlava", type: "District", parent: "CZ-63" },
+  { code: "CZ-633", name: "Pelhřimov", type: "District", parent: "CZ-63" },
+  { code: "CZ-634", name: "Třebíč", type: "District", parent: "CZ-63" },
+  {
+    code: "CZ-635",
+    name: "Žďár nad Sázavou",
+    type: "District",
+    parent: "CZ-63",
+  },
+  { code: "CZ-64", name: "Jihomoravský kraj", type: "Region" },
+  { code: "CZ-641", name: "Blansko", type: "District", parent: "CZ-64" },
+  { code: "CZ-642", name: "Brno-město", type: "District", parent: "CZ-64" },
+  { code: "CZ-643", name: "Brno-venkov", type: "District", parent: "CZ-64" },
+  { code: "CZ-644", name: "Břeclav", type: "District", parent: "CZ-64" },
+  { code: "CZ-645", name: "Hodonín", type: "District", parent: "CZ-64" },
+  { code: "CZ-646", name: "Vyškov", type: "District", parent: "CZ-64" },
+  { code: "CZ-647", name: "Znojmo", type: "District", parent: "CZ-64" },
+  { code: "CZ-71", name: "Olomoucký kraj", type: "Region" },
+  { code: "CZ-711", name: "Jeseník", type: "District", parent: "CZ-71" },
+  { code: "CZ-712", name: "Olomouc", type: "District", parent: "CZ-71" },
+  { code: "CZ-713", name: "Prostějov", type: "District", parent: "CZ-71" },
+  { code: "CZ-714", name: "Přerov", type: "District", parent: "CZ-71" },
+  { code: "CZ-715", name: "Šumperk", type: "District", parent: "CZ-71" },
+  { code: "CZ-72", name: "Zlínský kraj", type: "Region" },
+  { code: "CZ-721", name: "Kroměříž", type: "District", parent: "CZ-72" },
+  {
+    code: "CZ-722",
+    name: "Uherské Hradiště",
+    type: "District",
+    parent: "CZ-72",
+  },
+  { code: "CZ-723", name: "Vsetín", type: "District", parent: "CZ-72" },
+  { code: "CZ-724", name: "Zlín", type: "District", parent: "CZ-72" },
+  { code: "CZ-80", name: "Moravskoslezský kraj", type: "Region" },
+  { code: "CZ-801", name: "Bruntál", type: "District", parent: "CZ-80" },
+  { code: "CZ-802", name: "Frýdek-Místek", type: "District", parent: "CZ-80" },
+  { code: "CZ-803", name: "Karviná", type: "District", parent: "CZ-80" },
+  { code: "CZ-804", name: "Nový Jičín", type: "District", parent: "CZ-80" },
+  { code: "CZ-805", name: "Opava", type: "District", parent: "CZ-80" },
+  { code: "CZ-806", name: "Ostrava-město", type: "District", parent: "CZ-80" },
+] as const;
@@ -0,0 +1,22 @@
+/**
+ * ISO 3166-2 subdivisions of Germany (DE), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const DE = [
+  { code: "DE-BB", name: "Brandenburg", type: "Land" },
+  { code: "DE-BE", name: "Berlin", type: "Land" },
+  { code: "DE-BW", name: "Baden-Württemberg", type: "Land" },
+  { code: "DE-BY", name: "Bayern", type: "Land" },
+  { code: "DE-HB", name: "Bremen", type: "Land" },
+  { code: "DE-HE", name: "Hessen", type: "Land" },
+  { code: "DE-HH", name: "Hamburg", type: "Land" },
+  { code: "DE-MV", name: "Mecklenburg-Vorpommern", type: "Land" },
+  { code: "DE-NI", name: "Niedersachsen", type: "Land" },
+  { code: "DE-NW", name: "Nordrhein-Westfalen", type: "Land" },
+  { code: "DE-RP", name: "Rheinland-Pfalz", type: "Land" },
+  { code: "DE-SH", name: "Schleswig-Holstein", type: "Land" },
+  { code: "DE-SL", name: "Saarland", type: "Land" },
+  { code: "DE-SN", name: "Sachsen", type: "Land" },
+  { code: "DE-ST", name: "Sachsen-Anhalt", type: "Land" },
+  { code: "DE-TH", name: "Thüringen", type: "Land" },
+] as const;
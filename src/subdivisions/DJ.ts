@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Djibouti (DJ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const DJ = [
+  { code: "DJ-AR", name: "Arta", type: "Region" },
+  { code: "DJ-AS", name: "Ali Sabieh", type: "Region" },
+  { code: "DJ-DI", name: "Dikhil", type: "Region" },
+  { code: "DJ-DJ", name: "Djibouti", type: "City" },
+  { code: "DJ-OB", name: "Awbūk", type: "Region" },
+  { code: "DJ-TA", name: "Tadjourah", type: "Region" },
+] as const;
@@ -0,0 +1,11 @@
+/**
+ * ISO 3166-2 subdivisions of Denmark (DK), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const DK = [
+  { code: "DK-81", name: "Nordjylland", type: "Region" },
+  { code: "DK-82", name: "Midtjylland", type: "Region" },
+  { code: "DK-83", name: "Syddanmark", type: "Region" },
+  { code: "DK-84", name: "Hovedstaden", type: "Region" },
+  { code: "DK-85", name: "Sjælland", type: "Region" },
+] as const;
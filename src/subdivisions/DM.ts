@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Dominica (DM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const DM = [
+  { code: "DM-02", name: "Saint Andrew", type: "Parish" },
+  { code: "DM-03", name: "Saint David", type: "Parish" },
+  { code: "DM-04", name: "Saint George", type: "Parish" },
+  { code: "DM-05", name: "Saint John", type: "Parish" },
+  { code: "DM-06", name: "Saint Joseph", type: "Parish" },
+  { code: "DM-07", name: "Saint Luke", type: "Parish" },
+  { code: "DM-08", name: "Saint Mark", type: "Parish" },
+  { code: "DM-09", name: "Saint Patrick", type: "Parish" },
+  { code: "DM-10", name: "Saint Paul", type: "Parish" },
+  { code: "DM-11", name: "Saint Peter", type: "Parish" },
+] as const;
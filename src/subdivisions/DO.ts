@@ -0,0 +1,78 @@
+/**
+ * ISO 3166-2 subdivisions of Dominican Republic (DO), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const DO = [
+  {
+    code: "DO-01",
+    name: "Distrito Nacional (Santo Domingo)",
+    type: "District",
+    parent: "DO-40",
+  },
+  { code: "DO-02", name: "Azua", type: "Province", parent: "DO-41" },
+  { code: "DO-03", name: "Baoruco", type: "Province", parent: "DO-38" },
+  { code: "DO-04", name: "Barahona", type: "Province", parent: "DO-38" },
+  { code: "DO-05", name: "Dajabón", type: "Province", parent: "DO-34" },
+  { code: "DO-06", name: "Duarte", type: "Province", parent: "DO-33" },
+  { code: "DO-07", name: "Elías Piña", type: "Province", parent: "DO-37" },
+  { code: "DO-08", name: "El Seibo", type: "Province", parent: "DO-42" },
+  { code: "DO-09", name: "Espaillat", type: "Province", parent: "DO-35" },
+  { code: "DO-10", name: "Independencia", type: "Province", parent: "DO-38" },
+  { code: "DO-11", name: "La Altagracia", type: "Province", parent: "DO-42" },
+  { code: "DO-12", name: "La Romana", type: "Province", parent: "DO-42" },
+  { code: "DO-13", name: "La Vega", type: "Province", parent: "DO-36" },
+  {
+    code: "DO-14",
+    name: "María Trinidad Sánchez",
+    type: "Province",
+    parent: "DO-33",
+  },
+  { code: "DO-15", name: "Monte Cristi", type: "Province", parent: "DO-34" },
+  { code: "DO-16", name: "Pedernales", type: "Province", parent: "DO-38" },
+  { code: "DO-17", name: "Peravia", type: "Province", parent: "DO-41" },
+  { code: "DO-18", name: "Puerto Plata", type: "Province", parent: "DO-35" },
+  {
+    code: "DO-19",
+    name: "Hermanas Mirabal",
+    type: "Province",
+    parent: "DO-33",
+  },
+  { code: "DO-20", name: "Samaná", type: "Province", parent: "DO-33" },
+  { code: "DO-21", name: "San Cristóbal", type: "Province", parent: "DO-41" },
+  { code: "DO-22", name: "San Juan", type: "Province", parent: "DO-37" },
+  {
+    code: "DO-23",
+    name: "San Pedro de Macorís",
+    type: "Province",
+    parent: "DO-39",
+  },
+  { code: "DO-24", name: "Sánchez Ramírez", type: "Province", parent: "DO-36" },
+  { code: "DO-25", name: "Santiago", type: "Province", parent: "DO-35" },
+  {
+    code: "DO-26",
+    name: "Santiago Rodríguez",
+    type: "Province",
+    parent: "DO-34",
+  },
+  { code: "DO-27", name: "Valverde", type: "Province", parent: "DO-34" },
+  { code: "DO-28", name: "Monseñor Nouel", type: "Province", parent: "DO-36" },
+  { code: "DO-29", name: "Monte Plata", type: "Province", parent: "DO-39" },
+  { code: "DO-30", name: "Hato Mayor", type: "Province", parent: "DO-39" },
+  {
+    code: "DO-31",
+    name: "San José de Ocoa",
+    type: "Province",
+    parent: "DO-41",
+  },
+  { code: "DO-32", name: "Santo Domingo", type: "Province", parent: "DO-40" },
+  { code: "DO-33", name: "Cibao Nordeste", type: "Region" },
+  { code: "DO-34", name: "Cibao Noroeste", type: "Region" },
+  { code: "DO-35", name: "Cibao Norte", type: "Region" },
+  { code: "DO-36", name: "Cibao Sur", type: "Region" },
+  { code: "DO-37", name: "El Valle", type: "Region" },
+  { code: "DO-38", name: "Enriquillo", type: "Region" },
+  { code: "DO-39", name: "Higuamo", type: "Region" },
+  { code: "DO-40", name: "Ozama", type: "Region" },
+  { code: "DO-41", name: "Valdesia", type: "Region" },
+  { code: "DO-42", name: "Yuma", type: "Region" },
+] as const;
@@ -0,0 +1,54 @@
+/**
+ * ISO 3166-2 subdivisions of Algeria (DZ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const DZ = [
+  { code: "DZ-01", name: "Adrar", type: "Province" },
+  { code: "DZ-02", name: "Chlef", type: "Province" },
+  { code: "DZ-03", name: "Laghouat", type: "Province" },
+  { code: "DZ-04", name: "Oum el Bouaghi", type: "Province" },
+  { code: "DZ-05", name: "Batna", type: "Province" },
+  { code: "DZ-06", name: "Béjaïa", type: "Province" },
+  { code: "DZ-07", name: "Biskra", type: "Province" },
+  { code: "DZ-08", name: "Béchar", type: "Province" },
+  { code: "DZ-09", name: "Blida", type: "Province" },
+  { code: "DZ-10", name: "Bouira", type: "Province" },
+  { code: "DZ-11", name: "Tamanrasset", type: "Province" },
+  { code: "DZ-12", name: "Tébessa", type: "Province" },
+  { code: "DZ-13", name: "Tlemcen", type: "Province" },
+  { code: "DZ-14", name: "Tiaret", type: "Province" },
+  { code: "DZ-15", name: "Tizi Ouzou", type: "Province" },
+  { code: "DZ-16", name: "Alger", type: "Province" },
+  { code: "DZ-17", name: "Djelfa", type: "Province" },
+  { code: "DZ-18", name: "Jijel", type: "Province" },
+  { code: "DZ-19", name: "Sétif", type: "Province" },
+  { code: "DZ-20", name: "Saïda", type: "Province" },
+  { code: "DZ-21", name: "Skikda", type: "Province" },
+  { code: "DZ-22", name: "Sidi Bel Abbès", type: "Province" },
+  { code: "DZ-23", name: "Annaba", type: "Province" },
+  { code: "DZ-24", name: "Guelma", type: "Province" },
+  { code: "DZ-25", name: "Constantine", type: "Province" },
+  { code: "DZ-26", name: "Médéa", type: "Province" },
+  { code: "DZ-27", name: "Mostaganem", type: "Province" },
+  { code: "DZ-28", name: "M'sila", type: "Province" },
+  { code: "DZ-29", name: "Mascara", type: "Province" },
+  { code: "DZ-30", name: "Ouargla", type: "Province" },
+  { code: "DZ-31", name: "Oran", type: "Province" },
+  { code: "DZ-32", name: "El Bayadh", type: "Province" },
+  { code: "DZ-33", name: "Illizi", type: "Province" },
+  { code: "DZ-34", name: "Bordj Bou Arréridj", type: "Province" },
+  { code: "DZ-35", name: "Boumerdès", type: "Province" },
+  { code: "DZ-36", name: "El Tarf", type: "Province" },
+  { code: "DZ-37", name: "Tindouf", type: "Province" },
+  { code: "DZ-38", name: "Tissemsilt", type: "Province" },
+  { code: "DZ-39", name: "El Oued", type: "Province" },
+  { code: "DZ-40", name: "Khenchela", type: "Province" },
+  { code: "DZ-41", name: "Souk Ahras", type: "Province" },
+  { code: "DZ-42", name: "Tipaza", type: "Province" },
+  { code: "DZ-43", name: "Mila", type: "Province" },
+  { code: "DZ-44", name: "Aïn Defla", type: "Province" },
+  { code: "DZ-45", name: "Naama", type: "Province" },
+  { code: "DZ-46", name: "Aïn Témouchent", type: "Province" },
+  { code: "DZ-47", name: "Ghardaïa", type: "Province" },
+  { code: "DZ-48", name: "Relizane", type: "Province" },
+] as const;
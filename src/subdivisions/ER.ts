@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Eritrea (ER), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ER = [
+  { code: "ER-AN", name: "Ansabā", type: "Region" },
+  { code: "ER-DK", name: "Debubawi K’eyyĭḥ Baḥri", type: "Region" },
+  { code: "ER-DU", name: "Al Janūbī", type: "Region" },
+  { code: "ER-GB", name: "Gash-Barka", type: "Region" },
+  { code: "ER-MA", name: "Al Awsaţ", type: "Region" },
+  { code: "ER-SK", name: "Semienawi K’eyyĭḥ Baḥri", type: "Region" },
+] as const;
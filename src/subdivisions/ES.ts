@@ -0,0 +1,126 @@
+/**
+ * ISO 3166-2 subdivisions of Spain (ES), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ES = [
+  { code: "ES-A", name: "Alacant*", type: "Province", parent: "ES-VC" },
+  { code: "ES-AB", name: "Albacete", type: "Province", parent: "ES-CM" },
+  { code: "ES-AL", name: "Almería", type: "Province", parent: "ES-AN" },
+  { code: "ES-AN", name: "Andalucía", type: "Autonomous community" },
+  { code: "ES-AR", name: "Aragón", type: "Autonomous community" },
+  {
+    code: "ES-AS",
+    name: "Asturias, Principado de",
+    type: "Autonomous community",
+  },
+  { code: "ES-AV", name: "Ávila", type: "Province", parent: "ES-CL" },
+  {
+    code: "ES-B",
+    name: "Barcelona [Barcelona]",
+    type: "Province",
+    parent: "ES-CT",
+  },
+  { code: "ES-BA", name: "Badajoz", type: "Province", parent: "ES-EX" },
+  { code: "ES-BI", name: "Bizkaia", type: "Province", parent: "ES-PV" },
+  { code: "ES-BU", name: "Burgos", type: "Province", parent: "ES-CL" },
+  {
+    code: "ES-C",
+    name: "A Coruña [La Coruña]",
+    type: "Province",
+    parent: "ES-GA",
+  },
+  { code: "ES-CA", name: "Cádiz", type: "Province", parent: "ES-AN" },
+  { code: "ES-CB", name: "Cantabria", type: "Autonomous community" },
+  { code: "ES-CC", name: "Cáceres", type: "Province", parent: "ES-EX" },
+  { code: "ES-CE", name: "Ceuta", type: "Autonomous city in north africa" },
+  { code: "ES-CL", name: "Castilla y León", type: "Autonomous community" },
+  { code: "ES-CM", name: "Castilla-La Mancha", type: "Autonomous community" },
+  { code: "ES-CN", name: "Canarias", type: "Autonomous community" },
+  { code: "ES-CO", name: "Córdoba", type: "Province", parent: "ES-AN" },
+  { code: "ES-CR", name: "Ciudad Real", type: "Province", parent: "ES-CM" },
+  { code: "ES-CS", name: "Castelló*", type: "Province", parent: "ES-VC" },
+  { code: "ES-CT", name: "Catalunya [Cataluña]", type: "Autonomous community" },
+  { code: "ES-CU", name: "Cuenca", type: "Province", parent: "ES-CM" },
+  { code: "ES-EX", name: "Extremadura", type: "Autonomous community" },
+  { code: "ES-GA", name: "Galicia [Galicia]", type: "Autonomous community" },
+  { code: "ES-GC", name: "Las Palmas", type: "Province", parent: "ES-CN" },
+  { code: "ES-GI", name: "Girona [Gerona]", type: "Province", parent: "ES-CT" },
+  { code: "ES-GR", name: "Granada", type: "Province", parent: "ES-AN" },
+  { code: "ES-GU", name: "Guadalajara", type: "Province", parent: "ES-CM" },
+  { code: "ES-H", name: "Huelva", type: "Province", parent: "ES-AN" },
+  { code: "ES-HU", name: "Huesca", type: "Province", parent: "ES-AR" },
+  {
+    code: "ES-IB",
+    name: "Illes Balears [Islas Baleares]",
+    type: "Autonomous community",
+  },
+  { code: "ES-J", name: "Jaén", type: "Province", parent: "ES-AN" },
+  { code: "ES-L", name: "Lleida [Lérida]", type: "Province", parent: "ES-CT" },
+  { code: "ES-LE", name: "León", type: "Province", parent: "ES-CL" },
+  { code: "ES-LO", name: "La Rioja", type: "Province", parent: "ES-RI" },
+  { code: "ES-LU", name: "Lugo [Lugo]", type: "Province", parent: "ES-GA" },
+  { code: "ES-M", name: "Madrid", type: "Province", parent: "ES-MD" },
+  { code: "ES-MA", name: "Málaga", type: "Province", parent: "ES-AN" },
+  { code: "ES-MC", name: "Murcia, Región de", type: "Autonomous community" },
+  { code: "ES-MD", name: "Madrid, Comunidad de", type: "Autonomous community" },
+  { code: "ES-ML", name: "Melilla", type: "Autonomous city in north africa" },
+  { code: "ES-MU", name: "Murcia", type: "Province", parent: "ES-MC" },
+  { code: "ES-NA", name: "Nafarroa*", type: "Province", parent: "ES-NC" },
+  {
+    code: "ES-NC",
+    name: "Nafarroako Foru Komunitatea*",
+    type: "Autonomous community",
+  },
+  { code: "ES-O", name: "Asturias", type: "Province", parent: "ES-AS" },
+  {
+    code: "ES-OR",
+    name: "Ourense [Orense]",
+    type: "Province",
+    parent: "ES-GA",
+  },
+  { code: "ES-P", name: "Palencia", type: "Province", parent: "ES-CL" },
+  {
+    code: "ES-PM",
+    name: "Illes Balears [Islas Baleares]",
+    type: "Province",
+    parent: "ES-IB",
+  },
+  {
+    code: "ES-PO",
+    name: "Pontevedra [Pontevedra]",
+    type: "Province",
+    parent: "ES-GA",
+  },
+  { code: "ES-PV", name: "Euskal Herria", type: "Autonomous community" },
+  { code: "ES-RI", name: "La Rioja", type: "Autonomous community" },
+  { code: "ES-S", name: "Cantabria", type: "Province", parent: "ES-CB" },
+  { code: "ES-SA", name: "Salamanca", type: "Province", parent: "ES-CL" },
+  { code: "ES-SE", name: "Sevilla", type: "Province", parent: "ES-AN" },
+  { code: "ES-SG", name: "Segovia", type: "Province", parent: "ES-CL" },
+  { code: "ES-SO", name: "Soria", type: "Province", parent: "ES-CL" },
+  { code: "ES-SS", name: "Gipuzkoa", type: "Province", parent: "ES-PV" },
+  {
+    code: "ES-T",
+    name: "Tarragona [Tarragona]",
+    type: "Province",
+    parent: "ES-CT",
+  },
+  { code: "ES-TE", name: "Teruel", type: "Province", parent: "ES-AR" },
+  {
+    code: "ES-TF",
+    name: "Santa Cruz de Tenerife",
+    type: "Province",
+    parent: "ES-CN",
+  },
+  { code: "ES-TO", name: "Toledo", type: "Province", parent: "ES-CM" },
+  { code: "ES-V", name: "Valencia", type: "Province", parent: "ES-VC" },
+  { code: "ES-VA", name: "Valladolid", type: "Province", parent: "ES-CL" },
+  {
+    code: "ES-VC",
+    name: "Valenciana, Comunidad",
+    type: "Autonomous community",
+  },
+  { code: "ES-VI", name: "Araba*", type: "Province", parent: "ES-PV" },
+  { code: "ES-Z", name: "Zaragoza", type: "Province", parent: "ES-AR" },
+  { code: "ES-ZA", name: "Zamora", type: "Province", parent: "ES-CL" },
+] as const;
@@ -0,0 +1,21 @@
+/**
+ * ISO 3166-2 subdivisions of Ethiopia (ET), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ET = [
+  { code: "ET-AA", name: "Addis Ababa", type: "Administration" },
+  { code: "ET-AF", name: "Afar", type: "Regional state" },
+  { code: "ET-AM", name: "Amara", type: "Regional state" },
+  { code: "ET-BE", name: "Benshangul-Gumaz", type: "Regional state" },
+  { code: "ET-DD", name: "Dire Dawa", type: "Administration" },
+  { code: "ET-GA", name: "Gambela Peoples", type: "Regional state" },
+  { code: "ET-HA", name: "Harari People", type: "Regional state" },
+  { code: "ET-OR", name: "Oromia", type: "Regional state" },
+  {
+    code: "ET-SN",
+    name: "Southern Nations, Nationalities and Peoples",
+    type: "Regional state",
+  },
+  { code: "ET-SO", name: "Somali", type: "Regional state" },
+  { code: "ET-TI", name: "Tigrai", type: "Regional state" },
+] as const;
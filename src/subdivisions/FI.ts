@@ -0,0 +1,25 @@
+/**
+ * ISO 3166-2 subdivisions of Finland (FI), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const FI = [
+  { code: "FI-01", name: "Åland", type: "Region" },
+  { code: "FI-02", name: "Etelä-Karjala", type: "Region" },
+  { code: "FI-03", name: "Etelä-Pohjanmaa", type: "Region" },
+  { code: "FI-04", name: "Etelä-Savo", type: "Region" },
+  { code: "FI-05", name: "Kainuu", type: "Region" },
+  { code: "FI-06", name: "Kanta-Häme", type: "Region" },
+  { code: "FI-07", name: "Keski-Pohjanmaa", type: "Region" },
+  { code: "FI-08", name: "Keski-Suomi", type: "Region" },
+  { code: "FI-09", name: "Kymenlaakso", type: "Region" },
+  { code: "FI-10", name: "Lappi", type: "Region" },
+  { code: "FI-11", name: "Pirkanmaa", type: "Region" },
+  { code: "FI-12", name: "Pohjanmaa", type: "Region" },
+  { code: "FI-13", name: "Pohjois-Karjala", type: "Region" },
+  { code: "FI-14", name: "Pohjois-Pohjanmaa", type: "Region" },
+  { code: "FI-15", name: "Pohjois-Savo", type: "Region" },
+  { code: "FI-16", name: "Päijät-Häme", type: "Region" },
+  { code: "FI-17", name: "Satakunta", type: "Region" },
+  { code: "FI-18", name: "Uusimaa", type: "Region" },
+  { code: "FI-19", name: "Varsinais-Suomi", type: "Region" },
+] as const;
@@ -0,0 +1,30 @@
+/**
+ * ISO 3166-2 subdivisions of Fiji (FJ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const FJ = [
+  { code: "FJ-01", name: "Ba", type: "Province", parent: "FJ-W" },
+  { code: "FJ-02", name: "Bua", type: "Province", parent: "FJ-N" },
+  { code: "FJ-03", name: "Cakaudrove", type: "Province", parent: "FJ-N" },
+  { code: "FJ-04", name: "Kadavu", type: "Province", parent: "FJ-E" },
+  { code: "FJ-05", name: "Lau", type: "Province", parent: "FJ-E" },
+  { code: "FJ-06", name: "Lomaiviti", type: "Province", parent: "FJ-E" },
+  { code: "FJ-07", name: "Macuata", type: "Province", parent: "FJ-N" },
+  {
+    code: "FJ-08",
+    name: "Nadroga and Navosa",
+    type: "Province",
+    parent: "FJ-W",
+  },
+  { code: "FJ-09", name: "Naitasiri", type: "Province", parent: "FJ-C" },
+  { code: "FJ-10", name: "Namosi", type: "Province", parent: "FJ-C" },
+  { code: "FJ-11", name: "Ra", type: "Province", parent: "FJ-W" },
+  { code: "FJ-12", name: "Rewa", type: "Province", parent: "FJ-C" },
+  { code: "FJ-13", name: "Serua", type: "Province", parent: "FJ-C" },
+  { code: "FJ-14", name: "Tailevu", type: "Province", parent: "FJ-C" },
+  { code: "FJ-C", name: "Central", type: "Division" },
+  { code: "FJ-E", name: "Eastern", type: "Division" },
+  { code: "FJ-N", name: "Northern", type: "Division" },
+  { code: "FJ-R", name: "Rotuma", type: "Dependency" },
+  { code: "FJ-W", name: "Western", type: "Division" },
+] as const;
@@ -0,0 +1,10 @@
+/**
+ * ISO 3166-2 subdivisions of Micronesia (FM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const FM = [
+  { code: "FM-KSA", name: "Kosrae", type: "State" },
+  { code: "FM-PNI", name: "Pohnpei", type: "State" },
+  { code: "FM-TRK", name: "Chuuk", type: "State" },
+  { code: "FM-YAP", name: "Yap", type: "State" },
+] as const;
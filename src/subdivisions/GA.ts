@@ -0,0 +1,15 @@
+/**
+ * ISO 3166-2 subdivisions of Gabon (GA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GA = [
+  { code: "GA-1", name: "Estuaire", type: "Province" },
+  { code: "GA-2", name: "Haut-Ogooué", type: "Province" },
+  { code: "GA-3", name: "Moyen-Ogooué", type: "Province" },
+  { code: "GA-4", name: "Ngounié", type: "Province" },
+  { code: "GA-5", name: "Nyanga", type: "Province" },
+  { code: "GA-6", name: "Ogooué-Ivindo", type: "Province" },
+  { code: "GA-7", name: "Ogooué-Lolo", type: "Province" },
+  { code: "GA-8", name: "Ogooué-Maritime", type: "Province" },
+  { code: "GA-9", name: "Woleu-Ntem", type: "Province" },
+] as const;
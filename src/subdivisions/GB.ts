@@ -0,0 +1,1166 @@
+/**
+ * ISO 3166-2 subdivisions of United Kingdom (GB), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GB = [
+  {
+    code: "GB-ABC",
+    name: "Armagh City, Banbridge and Craigavon",
+    type: "District",
+    parent: "GB-NIR",
+  },
+  {
+    code: "GB-ABD",
+    name: "Aberdeenshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-ABE",
+    name: "Aberdeen City",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-AGB",
+    name: "Argyll and Bute",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-AGY",
+    name: "Isle of Anglesey [Sir Ynys Môn GB-YNM]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-AND",
+    name: "Ards and North Down",
+    type: "District",
+    parent: "GB-NIR",
+  },
+  {
+    code: "GB-ANN",
+    name: "Antrim and Newtownabbey",
+    type: "District",
+    parent: "GB-NIR",
+  },
+  { code: "GB-ANS", name: "Angus", type: "Council area", parent: "GB-SCT" },
+  {
+    code: "GB-BAS",
+    name: "Bath and North East Somerset",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BBD",
+    name: "Blackburn with Darwen",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BCP",
+    name: "Bournemouth, Christchurch and Poole",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BDF",
+    name: "Bedford",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BDG",
+    name: "Barking and Dagenham",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  { code: "GB-BEN", name: "Brent", type: "London borough", parent: "GB-ENG" },
+  { code: "GB-BEX", name: "Bexley", type: "London borough", parent: "GB-ENG" },
+  { code: "GB-BFS", name: "Belfast City", type: "District", parent: "GB-NIR" },
+  {
+    code: "GB-BGE",
+    name: "Bridgend [Pen-y-bont ar Ogwr GB-POG]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-BGW",
+    name: "Blaenau Gwent",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-BIR",
+    name: "Birmingham",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BKM",
+    name: "Buckinghamshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  { code: "GB-BNE", name: "Barnet", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-BNH",
+    name: "Brighton and Hove",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BNS",
+    name: "Barnsley",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BOL",
+    name: "Bolton",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BPL",
+    name: "Blackpool",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BRC",
+    name: "Bracknell Forest",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BRD",
+    name: "Bradford",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  { code: "GB-BRY", name: "Bromley", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-BST",
+    name: "Bristol, City of",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-BUR",
+    name: "Bury",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-CAM",
+    name: "Cambridgeshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-CAY",
+    name: "Caerphilly [Caerffili GB-CAF]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-CBF",
+    name: "Central Bedfordshire",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-CCG",
+    name: "Causeway Coast and Glens",
+    type: "District",
+    parent: "GB-NIR",
+  },
+  {
+    code: "GB-CGN",
+    name: "Ceredigion [Sir Ceredigion]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-CHE",
+    name: "Cheshire East",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-CHW",
+    name: "Cheshire West and Chester",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-CLD",
+    name: "Calderdale",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-CLK",
+    name: "Clackmannanshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-CMA",
+    name: "Cumbria",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  { code: "GB-CMD", name: "Camden", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-CMN",
+    name: "Carmarthenshire [Sir Gaerfyrddin GB-GFY]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-CON",
+    name: "Cornwall",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-COV",
+    name: "Coventry",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-CRF",
+    name: "Cardiff [Caerdydd GB-CRD]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  { code: "GB-CRY", name: "Croydon", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-CWY",
+    name: "Conwy",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-DAL",
+    name: "Darlington",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-DBY",
+    name: "Derbyshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-DEN",
+    name: "Denbighshire [Sir Ddinbych GB-DDB]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-DER",
+    name: "Derby",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  { code: "GB-DEV", name: "Devon", type: "Two-tier county", parent: "GB-ENG" },
+  {
+    code: "GB-DGY",
+    name: "Dumfries and Galloway",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-DNC",
+    name: "Doncaster",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-DND",
+    name: "Dundee City",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  { code: "GB-DOR", name: "Dorset", type: "Two-tier county", parent: "GB-ENG" },
+  {
+    code: "GB-DRS",
+    name: "Derry and Strabane",
+    type: "District",
+    parent: "GB-NIR",
+  },
+  {
+    code: "GB-DUD",
+    name: "Dudley",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-DUR",
+    name: "Durham, County",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  { code: "GB-EAL", name: "Ealing", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-EAY",
+    name: "East Ayrshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-EDH",
+    name: "Edinburgh, City of",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-EDU",
+    name: "East Dunbartonshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-ELN",
+    name: "East Lothian",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-ELS",
+    name: "Eilean Siar",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  { code: "GB-ENF", name: "Enfield", type: "London borough", parent: "GB-ENG" },
+  { code: "GB-ENG", name: "England", type: "Country" },
+  {
+    code: "GB-ERW",
+    name: "East Renfrewshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-ERY",
+    name: "East Riding of Yorkshire",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  { code: "GB-ESS", name: "Essex", type: "Two-tier county", parent: "GB-ENG" },
+  {
+    code: "GB-ESX",
+    name: "East Sussex",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  { code: "GB-FAL", name: "Falkirk", type: "Council area", parent: "GB-SCT" },
+  { code: "GB-FIF", name: "Fife", type: "Council area", parent: "GB-SCT" },
+  {
+    code: "GB-FLN",
+    name: "Flintshire [Sir y Fflint GB-FFL]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-FMO",
+    name: "Fermanagh and Omagh",
+    type: "District",
+    parent: "GB-NIR",
+  },
+  {
+    code: "GB-GAT",
+    name: "Gateshead",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-GLG",
+    name: "Glasgow City",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-GLS",
+    name: "Gloucestershire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-GRE",
+    name: "Greenwich",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-GWN",
+    name: "Gwynedd",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-HAL",
+    name: "Halton",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-HAM",
+    name: "Hampshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-HAV",
+    name: "Havering",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  { code: "GB-HCK", name: "Hackney", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-HEF",
+    name: "Herefordshire",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-HIL",
+    name: "Hillingdon",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  { code: "GB-HLD", name: "Highland", type: "Council area", parent: "GB-SCT" },
+  {
+    code: "GB-HMF",
+    name: "Hammersmith and Fulham",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-HNS",
+    name: "Hounslow",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-HPL",
+    name: "Hartlepool",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-HRT",
+    name: "Hertfordshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  { code: "GB-HRW", name: "Harrow", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-HRY",
+    name: "Haringey",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-IOS",
+    name: "Isles of Scilly",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-IOW",
+    name: "Isle of Wight",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-ISL",
+    name: "Islington",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-IVC",
+    name: "Inverclyde",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-KEC",
+    name: "Kensington and Chelsea",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  { code: "GB-KEN", name: "Kent", type: "Two-tier county", parent: "GB-ENG" },
+  {
+    code: "GB-KHL",
+    name: "Kingston upon Hull",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-KIR",
+    name: "Kirklees",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-KTT",
+    name: "Kingston upon Thames",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-KWL",
+    name: "Knowsley",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-LAN",
+    name: "Lancashire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-LBC",
+    name: "Lisburn and Castlereagh",
+    type: "District",
+    parent: "GB-NIR",
+  },
+  { code: "GB-LBH", name: "Lambeth", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-LCE",
+    name: "Leicester",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-LDS",
+    name: "Leeds",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-LEC",
+    name: "Leicestershire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-LEW",
+    name: "Lewisham",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-LIN",
+    name: "Lincolnshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-LIV",
+    name: "Liverpool",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-LND",
+    name: "London, City of",
+    type: "City corporation",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-LUT",
+    name: "Luton",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-MAN",
+    name: "Manchester",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-MDB",
+    name: "Middlesbrough",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-MDW",
+    name: "Medway",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-MEA",
+    name: "Mid and East Antrim",
+    type: "District",
+    parent: "GB-NIR",
+  },
+  {
+    code: "GB-MIK",
+    name: "Milton Keynes",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-MLN",
+    name: "Midlothian",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-MON",
+    name: "Monmouthshire [Sir Fynwy GB-FYN]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  { code: "GB-MRT", name: "Merton", type: "London borough", parent: "GB-ENG" },
+  { code: "GB-MRY", name: "Moray", type: "Council area", parent: "GB-SCT" },
+  {
+    code: "GB-MTY",
+    name: "Merthyr Tydfil [Merthyr Tudful GB-MTU]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  { code: "GB-MUL", name: "Mid-Ulster", type: "District", parent: "GB-NIR" },
+  {
+    code: "GB-NAY",
+    name: "North Ayrshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-NBL",
+    name: "Northumberland",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-NEL",
+    name: "North East Lincolnshire",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-NET",
+    name: "Newcastle upon Tyne",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-NFK",
+    name: "Norfolk",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-NGM",
+    name: "Nottingham",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  { code: "GB-NIR", name: "Northern Ireland", type: "Province" },
+  {
+    code: "GB-NLK",
+    name: "North Lanarkshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-NLN",
+    name: "North Lincolnshire",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-NMD",
+    name: "Newry, Mourne and Down",
+    type: "District",
+    parent: "GB-NIR",
+  },
+  {
+    code: "GB-NSM",
+    name: "North Somerset",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-NTH",
+    name: "Northamptonshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-NTL",
+    name: "Neath Port Talbot [Castell-nedd Port Talbot GB-CTL]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-NTT",
+    name: "Nottinghamshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-NTY",
+    name: "North Tyneside",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  { code: "GB-NWM", name: "Newham", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-NWP",
+    name: "Newport [Casnewydd GB-CNW]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-NYK",
+    name: "North Yorkshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-OLD",
+    name: "Oldham",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-ORK",
+    name: "Orkney Islands",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-OXF",
+    name: "Oxfordshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-PEM",
+    name: "Pembrokeshire [Sir Benfro GB-BNF]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-PKN",
+    name: "Perth and Kinross",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-PLY",
+    name: "Plymouth",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-POR",
+    name: "Portsmouth",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-POW",
+    name: "Powys",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-PTE",
+    name: "Peterborough",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-RCC",
+    name: "Redcar and Cleveland",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-RCH",
+    name: "Rochdale",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-RCT",
+    name: "Rhondda Cynon Taff [Rhondda CynonTaf]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-RDB",
+    name: "Redbridge",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-RDG",
+    name: "Reading",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-RFW",
+    name: "Renfrewshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-RIC",
+    name: "Richmond upon Thames",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-ROT",
+    name: "Rotherham",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-RUT",
+    name: "Rutland",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SAW",
+    name: "Sandwell",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SAY",
+    name: "South Ayrshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-SCB",
+    name: "Scottish Borders",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  { code: "GB-SCT", name: "Scotland", type: "Country" },
+  {
+    code: "GB-SFK",
+    name: "Suffolk",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SFT",
+    name: "Sefton",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SGC",
+    name: "South Gloucestershire",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SHF",
+    name: "Sheffield",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SHN",
+    name: "St. Helens",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SHR",
+    name: "Shropshire",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SKP",
+    name: "Stockport",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SLF",
+    name: "Salford",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SLG",
+    name: "Slough",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SLK",
+    name: "South Lanarkshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-SND",
+    name: "Sunderland",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SOL",
+    name: "Solihull",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SOM",
+    name: "Somerset",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SOS",
+    name: "Southend-on-Sea",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  { code: "GB-SRY", name: "Surrey", type: "Two-tier county", parent: "GB-ENG" },
+  {
+    code: "GB-STE",
+    name: "Stoke-on-Trent",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  { code: "GB-STG", name: "Stirling", type: "Council area", parent: "GB-SCT" },
+  {
+    code: "GB-STH",
+    name: "Southampton",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  { code: "GB-STN", name: "Sutton", type: "London borough", parent: "GB-ENG" },
+  {
+    code: "GB-STS",
+    name: "Staffordshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-STT",
+    name: "Stockton-on-Tees",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-STY",
+    name: "South Tyneside",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SWA",
+    name: "Swansea [Abertawe GB-ATA]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-SWD",
+    name: "Swindon",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-SWK",
+    name: "Southwark",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-TAM",
+    name: "Tameside",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-TFW",
+    name: "Telford and Wrekin",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-THR",
+    name: "Thurrock",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-TOB",
+    name: "Torbay",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-TOF",
+    name: "Torfaen [Tor-faen]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-TRF",
+    name: "Trafford",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-TWH",
+    name: "Tower Hamlets",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-VGL",
+    name: "Vale of Glamorgan, The [Bro Morgannwg GB-BMG]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-WAR",
+    name: "Warwickshire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WBK",
+    name: "West Berkshire",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WDU",
+    name: "West Dunbartonshire",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  {
+    code: "GB-WFT",
+    name: "Waltham Forest",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WGN",
+    name: "Wigan",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WIL",
+    name: "Wiltshire",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WKF",
+    name: "Wakefield",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WLL",
+    name: "Walsall",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WLN",
+    name: "West Lothian",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+  { code: "GB-WLS", name: "Wales [Cymru GB-CYM]", type: "Country" },
+  {
+    code: "GB-WLV",
+    name: "Wolverhampton",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WND",
+    name: "Wandsworth",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WNM",
+    name: "Windsor and Maidenhead",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WOK",
+    name: "Wokingham",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WOR",
+    name: "Worcestershire",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WRL",
+    name: "Wirral",
+    type: "Metropolitan district",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WRT",
+    name: "Warrington",
+    type: "Unitary authority",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WRX",
+    name: "Wrexham [Wrecsam GB-WRC]",
+    type: "Unitary authority",
+    parent: "GB-WLS",
+  },
+  {
+    code: "GB-WSM",
+    name: "Westminster",
+    type: "London borough",
+    parent: "GB-ENG",
+  },
+  {
+    code: "GB-WSX",
+    name: "West Sussex",
+    type: "Two-tier county",
+    parent: "GB-ENG",
+  },
+  { code: "GB-YOR", name: "York", type: "Unitary authority", parent: "GB-ENG" },
+  {
+    code: "GB-ZET",
+    name: "Shetland Islands",
+    type: "Council area",
+    parent: "GB-SCT",
+  },
+] as const;
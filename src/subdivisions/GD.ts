@@ -0,0 +1,13 @@
+/**
+ * ISO 3166-2 subdivisions of Grenada (GD), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GD = [
+  { code: "GD-01", name: "Saint Andrew", type: "Parish" },
+  { code: "GD-02", name: "Saint David", type: "Parish" },
+  { code: "GD-03", name: "Saint George", type: "Parish" },
+  { code: "GD-04", name: "Saint John", type: "Parish" },
+  { code: "GD-05", name: "Saint Mark", type: "Parish" },
+  { code: "GD-06", name: "Saint Patrick", type: "Parish" },
+  { code: "GD-10", name: "Southern Grenadine Islands", type: "Dependency" },
+] as const;
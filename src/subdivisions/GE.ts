@@ -0,0 +1,18 @@
+/**
+ * ISO 3166-2 subdivisions of Georgia (GE), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GE = [
+  { code: "GE-AB", name: "Abkhazia", type: "Autonomous republic" },
+  { code: "GE-AJ", name: "Ajaria", type: "Autonomous republic" },
+  { code: "GE-GU", name: "Guria", type: "Region" },
+  { code: "GE-IM", name: "Imereti", type: "Region" },
+  { code: "GE-KA", name: "K'akheti", type: "Region" },
+  { code: "GE-KK", name: "Kvemo Kartli", type: "Region" },
+  { code: "GE-MM", name: "Mtskheta-Mtianeti", type: "Region" },
+  { code: "GE-RL", name: "Rach'a-Lechkhumi-Kvemo Svaneti", type: "Region" },
+  { code: "GE-SJ", name: "Samtskhe-Javakheti", type: "Region" },
+  { code: "GE-SK", name: "Shida Kartli", type: "Region" },
+  { code: "GE-SZ", name: "Samegrelo-Zemo Svaneti", type: "Region" },
+  { code: "GE-TB", name: "Tbilisi", type: "City" },
+] as const;
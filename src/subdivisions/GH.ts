@@ -0,0 +1,22 @@
+/**
+ * ISO 3166-2 subdivisions of Ghana (GH), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GH = [
+  { code: "GH-AA", name: "Greater Accra", type: "Region" },
+  { code: "GH-AF", name: "Ahafo", type: "Region" },
+  { code: "GH-AH", name: "Ashanti", type: "Region" },
+  { code: "GH-BE", name: "Bono East", type: "Region" },
+  { code: "GH-BO", name: "Bono", type: "Region" },
+  { code: "GH-CP", name: "Central", type: "Region" },
+  { code: "GH-EP", name: "Eastern", type: "Region" },
+  { code: "GH-NE", name: "North East", type: "Region" },
+  { code: "GH-NP", name: "Northern", type: "Region" },
+  { code: "GH-OT", name: "Oti", type: "Region" },
+  { code: "GH-SV", name: "Savannah", type: "Region" },
+  { code: "GH-TV", name: "Volta", type: "Region" },
+  { code: "GH-UE", name: "Upper East", type: "Region" },
+  { code: "GH-UW", name: "Upper West", type: "Region" },
+  { code: "GH-WN", name: "Western North", type: "Region" },
+  { code: "GH-WP", name: "Western", type: "Region" },
+] as const;
@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Gambia (GM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GM = [
+  { code: "GM-B", name: "Banjul", type: "City" },
+  { code: "GM-L", name: "Lower River", type: "Division" },
+  { code: "GM-M", name: "Central River", type: "Division" },
+  { code: "GM-N", name: "North Bank", type: "Division" },
+  { code: "GM-U", name: "Upper River", type: "Division" },
+  { code: "GM-W", name: "Western", type: "Division" },
+] as const;
@@ -0,0 +1,47 @@
+/**
+ * ISO 3166-2 subdivisions of Guinea (GN), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GN = [
+  { code: "GN-B", name: "Boké", type: "Administrative region" },
+  { code: "GN-BE", name: "Beyla", type: "Prefecture", parent: "GN-N" },
+  { code: "GN-BF", name: "Boffa", type: "Prefecture", parent: "GN-B" },
+  { code: "GN-BK", name: "Boké", type: "Prefecture", parent: "GN-B" },
+  { code: "GN-C", name: "Conakry", type: "Governorate" },
+  { code: "GN-CO", name: "Coyah", type: "Prefecture", parent: "GN-D" },
+  { code: "GN-D", name: "Kindia", type: "Administrative region" },
+  { code: "GN-DB", name: "Dabola", type: "Prefecture", parent: "GN-F" },
+  { code: "GN-DI", name: "Dinguiraye", type: "Prefecture", parent: "GN-F" },
+  { code: "GN-DL", name: "Dalaba", type: "Prefecture", parent: "GN-M" },
+  { code: "GN-DU", name: "Dubréka", type: "Prefecture", parent: "GN-D" },
+  { code: "GN-F", name: "Faranah", type: "Administrative region" },
+  { code: "GN-FA", name: "Faranah", type: "Prefecture", parent: "GN-F" },
+  { code: "GN-FO", name: "Forécariah", type: "Prefecture", parent: "GN-D" },
+  { code: "GN-FR", name: "Fria", type: "Prefecture", parent: "GN-B" },
+  { code: "GN-GA", name: "Gaoual", type: "Prefecture", parent: "GN-B" },
+  { code: "GN-GU", name: "Guékédou", type: "Prefecture", parent: "GN-N" },
+  { code: "GN-K", name: "Kankan", type: "Administrative region" },
+  { code: "GN-KA", name: "Kankan", type: "Prefecture", parent: "GN-K" },
+  { code: "GN-KB", name: "Koubia", type: "Prefecture", parent: "GN-L" },
+  { code: "GN-KD", name: "Kindia", type: "Prefecture", parent: "GN-D" },
+  { code: "GN-KE", name: "Kérouané", type: "Prefecture", parent: "GN-K" },
+  { code: "GN-KN", name: "Koundara", type: "Prefecture", parent: "GN-B" },
+  { code: "GN-KO", name: "Kouroussa", type: "Prefecture", parent: "GN-K" },
+  { code: "GN-KS", name: "Kissidougou", type: "Prefecture", parent: "GN-F" },
+  { code: "GN-L", name: "Labé", type: "Administrative region" },
+  { code: "GN-LA", name: "Labé", type: "Prefecture", parent: "GN-L" },
+  { code: "GN-LE", name: "Lélouma", type: "Prefecture", parent: "GN-L" },
+  { code: "GN-LO", name: "Lola", type: "Prefecture", parent: "GN-N" },
+  { code: "GN-M", name: "Mamou", type: "Administrative region" },
+  { code: "GN-MC", name: "Macenta", type: "Prefecture", parent: "GN-N" },
+  { code: "GN-MD", name: "Mandiana", type: "Prefecture", parent: "GN-K" },
+  { code: "GN-ML", name: "Mali", type: "Prefecture", parent: "GN-L" },
+  { code: "GN-MM", name: "Mamou", type: "Prefecture", parent: "GN-M" },
+  { code: "GN-N", name: "Nzérékoré", type: "Administrative region" },
+  { code: "GN-NZ", name: "Nzérékoré", type: "Prefecture", parent: "GN-N" },
+  { code: "GN-PI", name: "Pita", type: "Prefecture", parent: "GN-M" },
+  { code: "GN-SI", name: "Siguiri", type: "Prefecture", parent: "GN-K" },
+  { code: "GN-TE", name: "Télimélé", type: "Prefecture", parent: "GN-D" },
+  { code: "GN-TO", name: "Tougué", type: "Prefecture", parent: "GN-L" },
+  { code: "GN-YO", name: "Yomou", type: "Prefecture", parent: "GN-N" },
+] as const;
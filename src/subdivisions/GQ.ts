@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Equatorial Guinea (GQ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GQ = [
+  { code: "GQ-AN", name: "Annobon", type: "Province", parent: "GQ-I" },
+  { code: "GQ-BN", name: "Bioko Nord", type: "Province", parent: "GQ-I" },
+  { code: "GQ-BS", name: "Bioko Sud", type: "Province", parent: "GQ-I" },
+  { code: "GQ-C", name: "Região Continental", type: "Region" },
+  { code: "GQ-CS", name: "Centro Sud", type: "Province", parent: "GQ-C" },
+  { code: "GQ-DJ", name: "Djibloho", type: "Province", parent: "GQ-C" },
+  { code: "GQ-I", name: "Região Insular", type: "Region" },
+  { code: "GQ-KN", name: "Kié-Ntem", type: "Province", parent: "GQ-C" },
+  { code: "GQ-LI", name: "Litoral", type: "Province", parent: "GQ-C" },
+  { code: "GQ-WN", name: "Wele-Nzas", type: "Province", parent: "GQ-C" },
+] as const;
@@ -0,0 +1,28 @@
+/**
+ * ISO 3166-2 subdivisions of Guatemala (GT), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GT = [
+  { code: "GT-AV", name: "Alta Verapaz", type: "Department" },
+  { code: "GT-BV", name: "Baja Verapaz", type: "Department" },
+  { code: "GT-CM", name: "Chimaltenango", type: "Department" },
+  { code: "GT-CQ", name: "Chiquimula", type: "Department" },
+  { code: "GT-ES", name: "Escuintla", type: "Department" },
+  { code: "GT-GU", name: "Guatemala", type: "Department" },
+  { code: "GT-HU", name: "Huehuetenango", type: "Department" },
+  { code: "GT-IZ", name: "Izabal", type: "Department" },
+  { code: "GT-JA", name: "Jalapa", type: "Department" },
+  { code: "GT-JU", name: "Jutiapa", type: "Department" },
+  { code: "GT-PE", name: "Petén", type: "Department" },
+  { code: "GT-PR", name: "El Progreso", type: "Department" },
+  { code: "GT-QC", name: "Quiché", type: "Department" },
+  { code: "GT-QZ", name: "Quetzaltenango", type: "Department" },
+  { code: "GT-RE", name: "Retalhuleu", type: "Department" },
+  { code: "GT-SA", name: "Sacatepéquez", type: "Department" },
+  { code: "GT-SM", name: "San Marcos", type: "Department" },
+  { code: "GT-SO", name: "Sololá", type: "Department" },
+  { code: "GT-SR", name: "Santa Rosa", type: "Department" },
+  { code: "GT-SU", name: "Suchitepéquez", type: "Department" },
+  { code: "GT-TO", name: "Totonicapán", type: "Department" },
+  { code: "GT-ZA", name: "Zacapa", type: "Department" },
+] as const;
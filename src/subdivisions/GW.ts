@@ -0,0 +1,18 @@
+/**
+ * ISO 3166-2 subdivisions of Guinea-Bissau (GW), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GW = [
+  { code: "GW-BA", name: "Bafatá", type: "Region", parent: "GW-L" },
+  { code: "GW-BL", name: "Bolama / Bijagós", type: "Region", parent: "GW-S" },
+  { code: "GW-BM", name: "Biombo", type: "Region", parent: "GW-N" },
+  { code: "GW-BS", name: "Bissau", type: "Autonomous sector" },
+  { code: "GW-CA", name: "Cacheu", type: "Region", parent: "GW-N" },
+  { code: "GW-GA", name: "Gabú", type: "Region", parent: "GW-L" },
+  { code: "GW-L", name: "Leste", type: "Province" },
+  { code: "GW-N", name: "Norte", type: "Province" },
+  { code: "GW-OI", name: "Oio", type: "Region", parent: "GW-N" },
+  { code: "GW-QU", name: "Quinara", type: "Region", parent: "GW-S" },
+  { code: "GW-S", name: "Sul", type: "Province" },
+  { code: "GW-TO", name: "Tombali", type: "Region", parent: "GW-S" },
+] as const;
@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Guyana (GY), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const GY = [
+  { code: "GY-BA", name: "Barima-Waini", type: "Region" },
+  { code: "GY-CU", name: "Cuyuni-Mazaruni", type: "Region" },
+  { code: "GY-DE", name: "Demerara-Mahaica", type: "Region" },
+  { code: "GY-EB", name: "East Berbice-Corentyne", type: "Region" },
+  { code: "GY-ES", name: "Essequibo Islands-West Demerara", type: "Region" },
+  { code: "GY-MA", name: "Mahaica-Berbice", type: "Region" },
+  { code: "GY-PM", name: "Pomeroon-Supenaam", type: "Region" },
+  { code: "GY-PT", name: "Potaro-Siparuni", type: "Region" },
+  { code: "GY-UD", name: "Upper Demerara-Berbice", type: "Region" },
+  { code: "GY-UT", name: "Upper Takutu-Upper Essequibo", type: "Region" },
+] as const;
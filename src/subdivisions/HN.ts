@@ -0,0 +1,24 @@
+/**
+ * ISO 3166-2 subdivisions of Honduras (HN), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const HN = [
+  { code: "HN-AT", name: "Atlántida", type: "Department" },
+  { code: "HN-CH", name: "Choluteca", type: "Department" },
+  { code: "HN-CL", name: "Colón", type: "Department" },
+  { code: "HN-CM", name: "Comayagua", type: "Department" },
+  { code: "HN-CP", name: "Copán", type: "Department" },
+  { code: "HN-CR", name: "Cortés", type: "Department" },
+  { code: "HN-EP", name: "El Paraíso", type: "Department" },
+  { code: "HN-FM", name: "Francisco Morazán", type: "Department" },
+  { code: "HN-GD", name: "Gracias a Dios", type: "Department" },
+  { code: "HN-IB", name: "Islas de la Bahía", type: "Department" },
+  { code: "HN-IN", name: "Intibucá", type: "Department" },
+  { code: "HN-LE", name: "Lempira", type: "Department" },
+  { code: "HN-LP", name: "La Paz", type: "Department" },
+  { code: "HN-OC", name: "Ocotepeque", type: "Department" },
+  { code: "HN-OL", name: "Olancho", type: "Department" },
+  { code: "HN-SB", name: "Santa Bárbara", type: "Department" },
+  { code: "HN-VA", name: "Valle", type: "Department" },
+  { code: "HN-YO", name: "Yoro", type: "Department" },
+] as const;
@@ -0,0 +1,27 @@
+/**
+ * ISO 3166-2 subdivisions of Croatia (HR), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const HR = [
+  { code: "HR-01", name: "Zagrebačka županija", type: "County" },
+  { code: "HR-02", name: "Krapinsko-zagorska županija", type: "County" },
+  { code: "HR-03", name: "Sisačko-moslavačka županija", type: "County" },
+  { code: "HR-04", name: "Karlovačka županija", type: "County" },
+  { code: "HR-05", name: "Varaždinska županija", type: "County" },
+  { code: "HR-06", name: "Koprivničko-križevačka županija", type: "County" },
+  { code: "HR-07", name: "Bjelovarsko-bilogorska županija", type: "County" },
+  { code: "HR-08", name: "Primorsko-goranska županija", type: "County" },
+  { code: "HR-09", name: "Ličko-senjska županija", type: "County" },
+  { code: "HR-10", name: "Virovitičko-podravska županija", type: "County" },
+  { code: "HR-11", name: "Požeško-slavonska županija", type: "County" },
+  { code: "HR-12", name: "Brodsko-posavska županija", type: "County" },
+  { code: "HR-13", name: "Zadarska županija", type: "County" },
+  { code: "HR-14", name: "Osječko-baranjska županija", type: "County" },
+  { code: "HR-15", name: "Šibensko-kninska županija", type: "County" },
+  { code: "HR-16", name: "Vukovarsko-srijemska županija", type: "County" },
+  { code: "HR-17", name: "Splitsko-dalmatinska županija", type: "County" },
+  { code: "HR-18", name: "Istarska županija", type: "County" },
+  { code: "HR-19", name: "Dubrovačko-neretvanska županija", type: "County" },
+  { code: "HR-20", name: "Međimurska županija", type: "County" },
+  { code: "HR-21", name: "Grad Zagreb", type: "City" },
+] as const;
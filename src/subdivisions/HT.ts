@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Haiti (HT), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const HT = [
+  { code: "HT-AR", name: "Artibonite", type: "Department" },
+  { code: "HT-CE", name: "Centre", type: "Department" },
+  { code: "HT-GA", name: "Grandans", type: "Department" },
+  { code: "HT-ND", name: "Nord", type: "Department" },
+  { code: "HT-NE", name: "Nord-Est", type: "Department" },
+  { code: "HT-NI", name: "Nip", type: "Department" },
+  { code: "HT-NO", name: "Nord-Ouest", type: "Department" },
+  { code: "HT-OU", name: "Lwès", type: "Department" },
+  { code: "HT-SD", name: "Sid", type: "Department" },
+  { code: "HT-SE", name: "Sidès", type: "Department" },
+] as const;
@@ -0,0 +1,49 @@
+/**
+ * ISO 3166-2 subdivisions of Hungary (HU), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const HU = [
+  { code: "HU-BA", name: "Baranya", type: "County" },
+  { code: "HU-BC", name: "Békéscsaba", type: "City with county rights" },
+  { code: "HU-BE", name: "Békés", type: "County" },
+  { code: "HU-BK", name: "Bács-Kiskun", type: "County" },
+  { code: "HU-BU", name: "Budapest", type: "Capital city" },
+  { code: "HU-BZ", name: "Borsod-Abaúj-Zemplén", type: "County" },
+  { code: "HU-CS", name: "Csongrád", type: "County" },
+  { code: "HU-DE", name: "Debrecen", type: "City with county rights" },
+  { code: "HU-DU", name: "Dunaújváros", type: "City with county rights" },
+  { code: "HU-EG", name: "Eger", type: "City with county rights" },
+  { code: "HU-ER", name: "Érd", type: "City with county rights" },
+  { code: "HU-FE", name: "Fejér", type: "County" },
+  { code: "HU-GS", name: "Győr-Moson-Sopron", type: "County" },
+  { code: "HU-GY", name: "Győr", type: "City with county rights" },
+  { code: "HU-HB", name: "Hajdú-Bihar", type: "County" },
+  { code: "HU-HE", name: "Heves", type: "County" },
+  { code: "HU-HV", name: "Hódmezővásárhely", type: "City with county rights" },
+  { code: "HU-JN", name: "Jász-Nagykun-Szolnok", type: "County" },
+  { code: "HU-KE", name: "Komárom-Esztergom", type: "County" },
+  { code: "HU-KM", name: "Kecskemét", type: "City with county rights" },
+  { code: "HU-KV", name: "Kaposvár", type: "City with county rights" },
+  { code: "HU-MI", name: "Miskolc", type: "City with county rights" },
+  { code: "HU-NK", name: "Nagykanizsa", type: "City with county rights" },
+  { code: "HU-NO", name: "Nógrád", type: "County" },
+  { code: "HU-NY", name: "Nyíregyháza", type: "City with county rights" },
+  { code: "HU-PE", name: "Pest", type: "County" },
+  { code: "HU-PS", name: "Pécs", type: "City with county rights" },
+  { code: "HU-SD", name: "Szeged", type: "City with county rights" },
+  { code: "HU-SF", name: "Székesfehérvár", type: "City with county rights" },
+  { code: "HU-SH", name: "Szombathely", type: "City with county rights" },
+  { code: "HU-SK", name: "Szolnok", type: "City with county rights" },
+  { code: "HU-SN", name: "Sopron", type: "City with county rights" },
+  { code: "HU-SO", name: "Somogy", type: "County" },
+  { code: "HU-SS", name: "Szekszárd", type: "City with county rights" },
+  { code: "HU-ST", name: "Salgótarján", type: "City with county rights" },
+  { code: "HU-SZ", name: "Szabolcs-Szatmár-Bereg", type: "County" },
+  { code: "HU-TB", name: "Tatabánya", type: "City with county rights" },
+  { code: "HU-TO", name: "Tolna", type: "County" },
+  { code: "HU-VA", name: "Vas", type: "County" },
+  { code: "HU-VE", name: "Veszprém", type: "County" },
+  { code: "HU-VM", name: "Veszprém", type: "City with county rights" },
+  { code: "HU-ZA", name: "Zala", type: "County" },
+  { code: "HU-ZE", name: "Zalaegerszeg", type: "City with county rights" },
+] as const;
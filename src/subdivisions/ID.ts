@@ -0,0 +1,112 @@
+/**
+ * ISO 3166-2 subdivisions of Indonesia (ID), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ID = [
+  { code: "ID-AC", name: "Aceh", type: "Province", parent: "ID-SM" },
+  { code: "ID-BA", name: "Bali", type: "Province", parent: "ID-NU" },
+  {
+    code: "ID-BB",
+    name: "Kepulauan Bangka Belitung",
+    type: "Province",
+    parent: "ID-SM",
+  },
+  { code: "ID-BE", name: "Bengkulu", type: "Province", parent: "ID-SM" },
+  { code: "ID-BT", name: "Banten", type: "Province", parent: "ID-JW" },
+  { code: "ID-GO", name: "Gorontalo", type: "Province", parent: "ID-SL" },
+  { code: "ID-JA", name: "Jambi", type: "Province", parent: "ID-SM" },
+  { code: "ID-JB", name: "Jawa Barat", type: "Province", parent: "ID-JW" },
+  { code: "ID-JI", name: "Jawa Timur", type: "Province", parent: "ID-JW" },
+  {
+    code: "ID-JK",
+    name: "Jakarta Raya",
+    type: "Capital district",
+    parent: "ID-JW",
+  },
+  { code: "ID-JT", name: "Jawa Tengah", type: "Province", parent: "ID-JW" },
+  { code: "ID-JW", name: "Jawa", type: "Geographical unit" },
+  { code: "ID-KA", name: "Kalimantan", type: "Geographical unit" },
+  {
+    code: "ID-KB",
+    name: "Kalimantan Barat",
+    type: "Province",
+    parent: "ID-KA",
+  },
+  {
+    code: "ID-KI",
+    name: "Kalimantan Timur",
+    type: "Province",
+    parent: "ID-KA",
+  },
+  { code: "ID-KR", name: "Kepulauan Riau", type: "Province", parent: "ID-SM" },
+  {
+    code: "ID-KS",
+    name: "Kalimantan Selatan",
+    type: "Province",
+    parent: "ID-KA",
+  },
+  {
+    code: "ID-KT",
+    name: "Kalimantan Tengah",
+    type: "Province",
+    parent: "ID-KA",
+  },
+  {
+    code: "ID-KU",
+    name: "Kalimantan Utara",
+    type: "Province",
+    parent: "ID-KA",
+  },
+  { code: "ID-LA", name: "Lampung", type: "Province", parent: "ID-SM" },
+  { code: "ID-MA", name: "Maluku", type: "Province", parent: "ID-ML" },
+  { code: "ID-ML", name: "Maluku", type: "Geographical unit" },
+  { code: "ID-MU", name: "Maluku Utara", type: "Province", parent: "ID-ML" },
+  {
+    code: "ID-NB",
+    name: "Nusa Tenggara Barat",
+    type: "Province",
+    parent: "ID-NU",
+  },
+  {
+    code: "ID-NT",
+    name: "Nusa Tenggara Timur",
+    type: "Province",
+    parent: "ID-NU",
+  },
+  { code: "ID-NU", name: "Nusa Tenggara", type: "Geographical unit" },
+  { code: "ID-PA", name: "Papua", type: "Province", parent: "ID-PP" },
+  { code: "ID-PB", name: "Papua Barat", type: "Province", parent: "ID-PP" },
+  { code: "ID-PP", name: "Papua", type: "Geographical unit" },
+  { code: "ID-RI", name: "Riau", type: "Province", parent: "ID-SM" },
+  { code: "ID-SA", name: "Sulawesi Utara", type: "Province", parent: "ID-SL" },
+  { code: "ID-SB", name: "Sumatera Barat", type: "Province", parent: "ID-SM" },
+  {
+    code: "ID-SG",
+    name: "Sulawesi Tenggara",
+    type: "Province",
+    parent: "ID-SL",
+  },
+  { code: "ID-SL", name: "Sulawesi", type: "Geographical unit" },
+  { code: "ID-SM", name: "Sumatera", type: "Geographical unit" },
+  {
+    code: "ID-SN",
+    name: "Sulawesi Selatan",
+    type: "Province",
+    parent: "ID-SL",
+  },
+  { code: "ID-SR", name: "Sulawesi Barat", type: "Province", parent: "ID-SL" },
+  {
+    code: "ID-SS",
+    name: "Sumatera Selatan",
+    type: "Province",
+    parent: "ID-SM",
+  },
+  { code: "ID-ST", name: "Sulawesi Tengah", type: "Province", parent: "ID-SL" },
+  { code: "ID-SU", name: "Sumatera Utara", type: "Province", parent: "ID-SM" },
+  {
+    code: "ID-YO",
+    name: "Yogyakarta",
+    type: "Special region",
+    parent: "ID-JW",
+  },
+] as const;
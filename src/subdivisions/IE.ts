@@ -0,0 +1,36 @@
+/**
+ * ISO 3166-2 subdivisions of Ireland (IE), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const IE = [
+  { code: "IE-C", name: "Connaught", type: "Province" },
+  { code: "IE-CE", name: "Clare", type: "County", parent: "IE-M" },
+  { code: "IE-CN", name: "Cavan", type: "County", parent: "IE-U" },
+  { code: "IE-CO", name: "Cork", type: "County", parent: "IE-M" },
+  { code: "IE-CW", name: "Carlow", type: "County", parent: "IE-L" },
+  { code: "IE-D", name: "Dublin", type: "County", parent: "IE-L" },
+  { code: "IE-DL", name: "Donegal", type: "County", parent: "IE-U" },
+  { code: "IE-G", name: "Galway", type: "County", parent: "IE-C" },
+  { code: "IE-KE", name: "Kildare", type: "County", parent: "IE-L" },
+  { code: "IE-KK", name: "Kilkenny", type: "County", parent: "IE-L" },
+  { code: "IE-KY", name: "Kerry", type: "County", parent: "IE-M" },
+  { code: "IE-L", name: "Leinster", type: "Province" },
+  { code: "IE-LD", name: "Longford", type: "County", parent: "IE-L" },
+  { code: "IE-LH", name: "Louth", type: "County", parent: "IE-L" },
+  { code: "IE-LK", name: "Limerick", type: "County", parent: "IE-M" },
+  { code: "IE-LM", name: "Leitrim", type: "County", parent: "IE-C" },
+  { code: "IE-LS", name: "Laois", type: "County", parent: "IE-L" },
+  { code: "IE-M", name: "Munster", type: "Province" },
+  { code: "IE-MH", name: "Meath", type: "County", parent: "IE-L" },
+  { code: "IE-MN", name: "Monaghan", type: "County", parent: "IE-U" },
+  { code: "IE-MO", name: "Mayo", type: "County", parent: "IE-C" },
+  { code: "IE-OY", name: "Offaly", type: "County", parent: "IE-L" },
+  { code: "IE-RN", name: "Roscommon", type: "County", parent: "IE-C" },
+  { code: "IE-SO", name: "Sligo", type: "County", parent: "IE-C" },
+  { code: "IE-TA", name: "Tipperary", type: "County", parent: "IE-M" },
+  { code: "IE-U", name: "Ulster", type: "Province" },
+  { code: "IE-WD", name: "Waterford", type: "County", parent: "IE-M" },
+  { code: "IE-WH", name: "Westmeath", type: "County", parent: "IE-L" },
+  { code: "IE-WW", name: "Wicklow", type: "County", parent: "IE-L" },
+  { code: "IE-WX", name: "Wexford", type: "County", parent: "IE-L" },
+] as const;
@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Israel (IL), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const IL = [
+  { code: "IL-D", name: "Al Janūbī", type: "District" },
+  { code: "IL-HA", name: "H̱efa", type: "District" },
+  { code: "IL-JM", name: "Al Quds", type: "District" },
+  { code: "IL-M", name: "Al Awsaţ", type: "District" },
+  { code: "IL-TA", name: "Tall Abīb", type: "District" },
+  { code: "IL-Z", name: "Ash Shamālī", type: "District" },
+] as const;
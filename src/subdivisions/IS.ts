@@ -0,0 +1,366 @@
+/**
+ * ISO 3166-2 subdivisions of Iceland (IS), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const IS = [
+  { code: "IS-1", name: "Höfuðborgarsvæði", type: "Region" },
+  { code: "IS-2", name: "Suðurnes", type: "Region" },
+  { code: "IS-3", name: "Vesturland", type: "Region" },
+  { code: "IS-4", name: "Vestfirðir", type: "Region" },
+  { code: "IS-5", name: "Norðurland vestra", type: "Region" },
+  { code: "IS-6", name: "Norðurland eystra", type: "Region" },
+  { code: "IS-7", name: "Austurland", type: "Region" },
+  { code: "IS-8", name: "Suðurland", type: "Region" },
+  { code: "IS-AKH", name: "Akrahreppur", type: "Municipality", parent: "IS-5" },
+  {
+    code: "IS-AKN",
+    name: "Akraneskaupstaður",
+    type: "Municipality",
+    parent: "IS-3",
+  },
+  {
+    code: "IS-AKU",
+    name: "Akureyrarbær",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  {
+    code: "IS-ARN",
+    name: "Árneshreppur",
+    type: "Municipality",
+    parent: "IS-4",
+  },
+  { code: "IS-ASA", name: "Ásahreppur", type: "Municipality", parent: "IS-8" },
+  {
+    code: "IS-BFJ",
+    name: "Borgarfjarðarhreppur",
+    type: "Municipality",
+    parent: "IS-7",
+  },
+  {
+    code: "IS-BLA",
+    name: "Bláskógabyggð",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  { code: "IS-BLO", name: "Blönduósbær", type: "Municipality", parent: "IS-5" },
+  { code: "IS-BOG", name: "Borgarbyggð", type: "Municipality", parent: "IS-3" },
+  {
+    code: "IS-BOL",
+    name: "Bolungarvíkurkaupstaður",
+    type: "Municipality",
+    parent: "IS-4",
+  },
+  { code: "IS-DAB", name: "Dalabyggð", type: "Municipality", parent: "IS-3" },
+  {
+    code: "IS-DAV",
+    name: "Dalvíkurbyggð",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  {
+    code: "IS-DJU",
+    name: "Djúpavogshreppur",
+    type: "Municipality",
+    parent: "IS-7",
+  },
+  {
+    code: "IS-EOM",
+    name: "Eyja- og Miklaholtshreppur",
+    type: "Municipality",
+    parent: "IS-3",
+  },
+  {
+    code: "IS-EYF",
+    name: "Eyjafjarðarsveit",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  { code: "IS-FJD", name: "Fjarðabyggð", type: "Municipality", parent: "IS-7" },
+  { code: "IS-FJL", name: "Fjallabyggð", type: "Municipality", parent: "IS-6" },
+  { code: "IS-FLA", name: "Flóahreppur", type: "Municipality", parent: "IS-8" },
+  {
+    code: "IS-FLD",
+    name: "Fljótsdalshérað",
+    type: "Municipality",
+    parent: "IS-7",
+  },
+  {
+    code: "IS-FLR",
+    name: "Fljótsdalshreppur",
+    type: "Municipality",
+    parent: "IS-7",
+  },
+  { code: "IS-GAR", name: "Garðabær", type: "Municipality", parent: "IS-1" },
+  {
+    code: "IS-GOG",
+    name: "Grímsnes- og Grafningshreppur",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  {
+    code: "IS-GRN",
+    name: "Grindavíkurbær",
+    type: "Municipality",
+    parent: "IS-2",
+  },
+  {
+    code: "IS-GRU",
+    name: "Grundarfjarðarbær",
+    type: "Municipality",
+    parent: "IS-3",
+  },
+  {
+    code: "IS-GRY",
+    name: "Grýtubakkahreppur",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  {
+    code: "IS-HAF",
+    name: "Hafnarfjarðarkaupstaður",
+    type: "Municipality",
+    parent: "IS-1",
+  },
+  {
+    code: "IS-HEL",
+    name: "Helgafellssveit",
+    type: "Municipality",
+    parent: "IS-3",
+  },
+  { code: "IS-HRG", name: "Hörgársveit", type: "Municipality", parent: "IS-6" },
+  {
+    code: "IS-HRU",
+    name: "Hrunamannahreppur",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  {
+    code: "IS-HUT",
+    name: "Húnavatnshreppur",
+    type: "Municipality",
+    parent: "IS-5",
+  },
+  {
+    code: "IS-HUV",
+    name: "Húnaþing vestra",
+    type: "Municipality",
+    parent: "IS-5",
+  },
+  {
+    code: "IS-HVA",
+    name: "Hvalfjarðarsveit",
+    type: "Municipality",
+    parent: "IS-3",
+  },
+  {
+    code: "IS-HVE",
+    name: "Hveragerðisbær",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  {
+    code: "IS-ISA",
+    name: "Ísafjarðarbær",
+    type: "Municipality",
+    parent: "IS-4",
+  },
+  {
+    code: "IS-KAL",
+    name: "Kaldrananeshreppur",
+    type: "Municipality",
+    parent: "IS-4",
+  },
+  {
+    code: "IS-KJO",
+    name: "Kjósarhreppur",
+    type: "Municipality",
+    parent: "IS-1",
+  },
+  { code: "IS-KOP", name: "Kópavogsbær", type: "Municipality", parent: "IS-1" },
+  {
+    code: "IS-LAN",
+    name: "Langanesbyggð",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  { code: "IS-MOS", name: "Mosfellsbær", type: "Municipality", parent: "IS-1" },
+  {
+    code: "IS-MYR",
+    name: "Mýrdalshreppur",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  { code: "IS-NOR", name: "Norðurþing", type: "Municipality", parent: "IS-6" },
+  {
+    code: "IS-RGE",
+    name: "Rangárþing eystra",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  {
+    code: "IS-RGY",
+    name: "Rangárþing ytra",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  {
+    code: "IS-RHH",
+    name: "Reykhólahreppur",
+    type: "Municipality",
+    parent: "IS-4",
+  },
+  {
+    code: "IS-RKN",
+    name: "Reykjanesbær",
+    type: "Municipality",
+    parent: "IS-2",
+  },
+  {
+    code: "IS-RKV",
+    name: "Reykjavíkurborg",
+    type: "Municipality",
+    parent: "IS-1",
+  },
+  {
+    code: "IS-SBH",
+    name: "Svalbarðshreppur",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  {
+    code: "IS-SBT",
+    name: "Svalbarðsstrandarhreppur",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  {
+    code: "IS-SDN",
+    name: "Suðurnesjabær",
+    type: "Municipality",
+    parent: "IS-2",
+  },
+  {
+    code: "IS-SDV",
+    name: "Súðavíkurhreppur",
+    type: "Municipality",
+    parent: "IS-4",
+  },
+  {
+    code: "IS-SEL",
+    name: "Seltjarnarnesbær",
+    type: "Municipality",
+    parent: "IS-1",
+  },
+  {
+    code: "IS-SEY",
+    name: "Seyðisfjarðarkaupstaður",
+    type: "Municipality",
+    parent: "IS-7",
+  },
+  {
+    code: "IS-SFA",
+    name: "Sveitarfélagið Árborg",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  {
+    code: "IS-SHF",
+    name: "Sveitarfélagið Hornafjörður",
+    type: "Municipality",
+    parent: "IS-7",
+  },
+  {
+    code: "IS-SKF",
+    name: "Skaftárhreppur",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  { code: "IS-SKG", name: "Skagabyggð", type: "Municipality", parent: "IS-5" },
+  {
+    code: "IS-SKO",
+    name: "Skorradalshreppur",
+    type: "Municipality",
+    parent: "IS-3",
+  },
+  {
+    code: "IS-SKU",
+    name: "Skútustaðahreppur",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  { code: "IS-SNF", name: "Snæfellsbær", type: "Municipality", parent: "IS-3" },
+  {
+    code: "IS-SOG",
+    name: "Skeiða- og Gnúpverjahreppur",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  {
+    code: "IS-SOL",
+    name: "Sveitarfélagið Ölfus",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  {
+    code: "IS-SSF",
+    name: "Sveitarfélagið Skagafjörður",
+    type: "Municipality",
+    parent: "IS-5",
+  },
+  {
+    code: "IS-SSS",
+    name: "Sveitarfélagið Skagaströnd",
+    type: "Municipality",
+    parent: "IS-5",
+  },
+  {
+    code: "IS-STR",
+    name: "Strandabyggð",
+    type: "Municipality",
+    parent: "IS-4",
+  },
+  {
+    code: "IS-STY",
+    name: "Stykkishólmsbær",
+    type: "Municipality",
+    parent: "IS-3",
+  },
+  {
+    code: "IS-SVG",
+    name: "Sveitarfélagið Vogar",
+    type: "Municipality",
+    parent: "IS-2",
+  },
+  {
+    code: "IS-TAL",
+    name: "Tálknafjarðarhreppur",
+    type: "Municipality",
+    parent: "IS-4",
+  },
+  {
+    code: "IS-THG",
+    name: "Þingeyjarsveit",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  {
+    code: "IS-TJO",
+    name: "Tjörneshreppur",
+    type: "Municipality",
+    parent: "IS-6",
+  },
+  {
+    code: "IS-VEM",
+    name: "Vestmannaeyjabær",
+    type: "Municipality",
+    parent: "IS-8",
+  },
+  { code: "IS-VER", name: "Vesturbyggð", type: "Municipality", parent: "IS-4" },
+  {
+    code: "IS-VOP",
+    name: "Vopnafjarðarhreppur",
+    type: "Municipality",
+    parent: "IS-7",
+  },
+] as const;
@@ -0,0 +1,242 @@
+/**
+ * ISO 3166-2 subdivisions of Italy (IT), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const IT = [
+  { code: "IT-21", name: "Piemonte", type: "Region" },
+  { code: "IT-23", name: "Val d'Aoste", type: "Autonomous region" },
+  { code: "IT-25", name: "Lombardia", type: "Region" },
+  { code: "IT-32", name: "Trentino-Alto Adige", type: "Autonomous region" },
+  { code: "IT-34", name: "Veneto", type: "Region" },
+  { code: "IT-36", name: "Friuli Venezia Giulia", type: "Autonomous region" },
+  { code: "IT-42", name: "Liguria", type: "Region" },
+  { code: "IT-45", name: "Emilia-Romagna", type: "Region" },
+  { code: "IT-52", name: "Toscana", type: "Region" },
+  { code: "IT-55", name: "Umbria", type: "Region" },
+  { code: "IT-57", name: "Marche", type: "Region" },
+  { code: "IT-62", name: "Lazio", type: "Region" },
+  { code: "IT-65", name: "Abruzzo", type: "Region" },
+  { code: "IT-67", name: "Molise", type: "Region" },
+  { code: "IT-72", name: "Campania", type: "Region" },
+  { code: "IT-75", name: "Puglia", type: "Region" },
+  { code: "IT-77", name: "Basilicata", type: "Region" },
+  { code: "IT-78", name: "Calabria", type: "Region" },
+  { code: "IT-82", name: "Sicilia", type: "Autonomous region" },
+  { code: "IT-88", name: "Sardegna", type: "Autonomous region" },
+  {
+    code: "IT-AG",
+    name: "Agrigento",
+    type: "Free municipal consortium",
+    parent: "IT-82",
+  },
+  { code: "IT-AL", name: "Alessandria", type: "Province", parent: "IT-21" },
+  { code: "IT-AN", name: "Ancona", type: "Province", parent: "IT-57" },
+  { code: "IT-AP", name: "Ascoli Piceno", type: "Province", parent: "IT-57" },
+  { code: "IT-AQ", name: "L'Aquila", type: "Province", parent: "IT-65" },
+  { code: "IT-AR", name: "Arezzo", type: "Province", parent: "IT-52" },
+  { code: "IT-AT", name: "Asti", type: "Province", parent: "IT-21" },
+  { code: "IT-AV", name: "Avellino", type: "Province", parent: "IT-72" },
+  { code: "IT-BA", name: "Bari", type: "Metropolitan city", parent: "IT-75" },
+  { code: "IT-BG", name: "Bergamo", type: "Province", parent: "IT-25" },
+  { code: "IT-BI", name: "Biella", type: "Province", parent: "IT-21" },
+  { code: "IT-BL", name: "Belluno", type: "Province", parent: "IT-34" },
+  { code: "IT-BN", name: "Benevento", type: "Province", parent: "IT-72" },
+  {
+    code: "IT-BO",
+    name: "Bologna",
+    type: "Metropolitan city",
+    parent: "IT-45",
+  },
+  { code: "IT-BR", name: "Brindisi", type: "Province", parent: "IT-75" },
+  { code: "IT-BS", name: "Brescia", type: "Province", parent: "IT-25" },
+  {
+    code: "IT-BT",
+    name: "Barletta-Andria-Trani",
+    type: "Province",
+    parent: "IT-75",
+  },
+  {
+    code: "IT-BZ",
+    name: "Bolzano",
+    type: "Autonomous province",
+    parent: "IT-32",
+  },
+  {
+    code: "IT-CA",
+    name: "Cagliari",
+    type: "Metropolitan city",
+    parent: "IT-88",
+  },
+  { code: "IT-CB", name: "Campobasso", type: "Province", parent: "IT-67" },
+  { code: "IT-CE", name: "Caserta", type: "Province", parent: "IT-72" },
+  { code: "IT-CH", name: "Chieti", type: "Province", parent: "IT-65" },
+  {
+    code: "IT-CL",
+    name: "Caltanissetta",
+    type: "Free municipal consortium",
+    parent: "IT-82",
+  },
+  { code: "IT-CN", name: "Cuneo", type: "Province", parent: "IT-21" },
+  { code: "IT-CO", name: "Como", type: "Province", parent: "IT-25" },
+  { code: "IT-CR", name: "Cremona", type: "Province", parent: "IT-25" },
+  { code: "IT-CS", name: "Cosenza", type: "Province", parent: "IT-78" },
+  {
+    code: "IT-CT",
+    name: "Catania",
+    type: "Metropolitan city",
+    parent: "IT-82",
+  },
+  { code: "IT-CZ", name: "Catanzaro", type: "Province", parent: "IT-78" },
+  {
+    code: "IT-EN",
+    name: "Enna",
+    type: "Free municipal consortium",
+    parent: "IT-82",
+  },
+  { code: "IT-FC", name: "Forlì-Cesena", type: "Province", parent: "IT-45" },
+  { code: "IT-FE", name: "Ferrara", type: "Province", parent: "IT-45" },
+  { code: "IT-FG", name: "Foggia", type: "Province", parent: "IT-75" },
+  {
+    code: "IT-FI",
+    name: "Firenze",
+    type: "Metropolitan city",
+    parent: "IT-52",
+  },
+  { code: "IT-FM", name: "Fermo", type: "Province", parent: "IT-57" },
+  { code: "IT-FR", name: "Frosinone", type: "Province", parent: "IT-62" },
+  { code: "IT-GE", name: "Genova", type: "Metropolitan city", parent: "IT-42" },
+  {
+    code: "IT-GO",
+    name: "Gorizia",
+    type: "Decentralized regional entity",
+    parent: "IT-36",
+  },
+  { code: "IT-GR", name: "Grosseto", type: "Province", parent: "IT-52" },
+  { code: "IT-IM", name: "Imperia", type: "Province", parent: "IT-42" },
+  { code: "IT-IS", name: "Isernia", type: "Province", parent: "IT-67" },
+  { code: "IT-KR", name: "Crotone", type: "Province", parent: "IT-78" },
+  { code: "IT-LC", name: "Lecco", type: "Province", parent: "IT-25" },
+  { code: "IT-LE", name: "Lecce", type: "Province", parent: "IT-75" },
+  { code: "IT-LI", name: "Livorno", type: "Province", parent: "IT-52" },
+  { code: "IT-LO", name: "Lodi", type: "Province", parent: "IT-25" },
+  { code: "IT-LT", name: "Latina", type: "Province", parent: "IT-62" },
+  { code: "IT-LU", name: "Lucca", type: "Province", parent: "IT-52" },
+  { code: "IT-MB", name: "Monza e Brianza", type: "Province", parent: "IT-25" },
+  { code: "IT-MC", name: "Macerata", type: "Province", parent: "IT-57" },
+  {
+    code: "IT-ME",
+    name: "Messina",
+    type: "Metropolitan city",
+    parent: "IT-82",
+  },
+  { code: "IT-MI", name: "Milano", type: "Metropolitan city", parent: "IT-25" },
+  { code: "IT-MN", name: "Mantova", type: "Province", parent: "IT-25" },
+  { code: "IT-MO", name: "Modena", type: "Province", parent: "IT-45" },
+  { code: "IT-MS", name: "Massa-Carrara", type: "Province", parent: "IT-52" },
+  { code: "IT-MT", name: "Matera", type: "Province", parent: "IT-77" },
+  { code: "IT-NA", name: "Napoli", type: "Metropolitan city", parent: "IT-72" },
+  { code: "IT-NO", name: "Novara", type: "Province", parent: "IT-21" },
+  { code: "IT-NU", name: "Nuoro", type: "Province", parent: "IT-88" },
+  { code: "IT-OR", name: "Oristano", type: "Province", parent: "IT-88" },
+  {
+    code: "IT-PA",
+    name: "Palermo",
+    type: "Metropolitan city",
+    parent: "IT-82",
+  },
+  { code: "IT-PC", name: "Piacenza", type: "Province", parent: "IT-45" },
+  { code: "IT-PD", name: "Padova", type: "Province", parent: "IT-34" },
+  { code: "IT-PE", name: "Pescara", type: "Province", parent: "IT-65" },
+  { code: "IT-PG", name: "Perugia", type: "Province", parent: "IT-55" },
+  { code: "IT-PI", name: "Pisa", type: "Province", parent: "IT-52" },
+  {
+    code: "IT-PN",
+    name: "Pordenone",
+    type: "Decentralized regional entity",
+    parent: "IT-36",
+  },
+  { code: "IT-PO", name: "Prato", type: "Province", parent: "IT-52" },
+  { code: "IT-PR", name: "Parma", type: "Province", parent: "IT-45" },
+  { code: "IT-PT", name: "Pistoia", type: "Province", parent: "IT-52" },
+  { code: "IT-PU", name: "Pesaro e Urbino", type: "Province", parent: "IT-57" },
+  { code: "IT-PV", name: "Pavia", type: "Province", parent: "IT-25" },
+  { code: "IT-PZ", name: "Potenza", type: "Province", parent: "IT-77" },
+  { code: "IT-RA", name: "Ravenna", type: "Province", parent: "IT-45" },
+  {
+    code: "IT-RC",
+    name: "Reggio Calabria",
+    type: "Metropolitan city",
+    parent: "IT-78",
+  },
+  { code: "IT-RE", name: "Reggio Emilia", type: "Province", parent: "IT-45" },
+  {
+    code: "IT-RG",
+    name: "Ragusa",
+    type: "Free municipal consortium",
+    parent: "IT-82",
+  },
+  { code: "IT-RI", name: "Rieti", type: "Province", parent: "IT-62" },
+  { code: "IT-RM", name: "Roma", type: "Metropolitan city", parent: "IT-62" },
+  { code: "IT-RN", name: "Rimini", type: "Province", parent: "IT-45" },
+  { code: "IT-RO", name: "Rovigo", type: "Province", parent: "IT-34" },
+  { code: "IT-SA", name: "Salerno", type: "Province", parent: "IT-72" },
+  { code: "IT-SI", name: "Siena", type: "Province", parent: "IT-52" },
+  { code: "IT-SO", name: "Sondrio", type: "Province", parent: "IT-25" },
+  { code: "IT-SP", name: "La Spezia", type: "Province", parent: "IT-42" },
+  {
+    code: "IT-SR",
+    name: "Siracusa",
+    type: "Free municipal consortium",
+    parent: "IT-82",
+  },
+  { code: "IT-SS", name: "Sassari", type: "Province", parent: "IT-88" },
+  { code: "IT-SU", name: "Sud Sardegna", type: "Province", parent: "IT-88" },
+  { code: "IT-SV", name: "Savona", type: "Province", parent: "IT-42" },
+  { code: "IT-TA", name: "Taranto", type: "Province", parent: "IT-75" },
+  { code: "IT-TE", name: "Teramo", type: "Province", parent: "IT-65" },
+  {
+    code: "IT-TN",
+    name: "Trento",
+    type: "Autonomous province",
+    parent: "IT-32",
+  },
+  { code: "IT-TO", name: "Torino", type: "Metropolitan city", parent: "IT-21" },
+  {
+    code: "IT-TP",
+    name: "Trapani",
+    type: "Free municipal consortium",
+    parent: "IT-82",
+  },
+  { code: "IT-TR", name: "Terni", type: "Province", parent: "IT-55" },
+  {
+    code: "IT-TS",
+    name: "Trieste",
+    type: "Decentralized regional entity",
+    parent: "IT-36",
+  },
+  { code: "IT-TV", name: "Treviso", type: "Province", parent: "IT-34" },
+  {
+    code: "IT-UD",
+    name: "Udine",
+    type: "Decentralized regional entity",
+    parent: "IT-36",
+  },
+  { code: "IT-VA", name: "Varese", type: "Province", parent: "IT-25" },
+  {
+    code: "IT-VB",
+    name: "Verbano-Cusio-Ossola",
+    type: "Province",
+    parent: "IT-21",
+  },
+  { code: "IT-VC", name: "Vercelli", type: "Province", parent: "IT-21" },
+  {
+    code: "IT-VE",
+    name: "Venezia",
+    type: "Metropolitan city",
+    parent: "IT-34",
+  },
+  { code: "IT-VI", name: "Vicenza", type: "Province", parent: "IT-34" },
+  { code: "IT-VR", name: "Verona", type: "Province", parent: "IT-34" },
+  { code: "IT-VT", name: "Viterbo", type: "Province", parent: "IT-62" },
+  { code: "IT-VV", name: "Vibo Valentia", type: "Province", parent: "IT-78" },
+] as const;
@@ -0,0 +1,20 @@
+/**
+ * ISO 3166-2 subdivisions of Jamaica (JM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const JM = [
+  { code: "JM-01", name: "Kingston", type: "Parish" },
+  { code: "JM-02", name: "Saint Andrew", type: "Parish" },
+  { code: "JM-03", name: "Saint Thomas", type: "Parish" },
+  { code: "JM-04", name: "Portland", type: "Parish" },
+  { code: "JM-05", name: "Saint Mary", type: "Parish" },
+  { code: "JM-06", name: "Saint Ann", type: "Parish" },
+  { code: "JM-07", name: "Trelawny", type: "Parish" },
+  { code: "JM-08", name: "Saint James", type: "Parish" },
+  { code: "JM-09", name: "Hanover", type: "Parish" },
+  { code: "JM-10", name: "Westmoreland", type: "Parish" },
+  { code: "JM-11", name: "Saint Elizabeth", type: "Parish" },
+  { code: "JM-12", name: "Manchester", type: "Parish" },
+  { code: "JM-13", name: "Clarendon", type: "Parish" },
+  { code: "JM-14", name: "Saint Catherine", type: "Parish" },
+] as const;
@@ -0,0 +1,53 @@
+/**
+ * ISO 3166-2 subdivisions of Japan (JP), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const JP = [
+  { code: "JP-01", name: "Hokkaido", type: "Prefecture" },
+  { code: "JP-02", name: "Aomori", type: "Prefecture" },
+  { code: "JP-03", name: "Iwate", type: "Prefecture" },
+  { code: "JP-04", name: "Miyagi", type: "Prefecture" },
+  { code: "JP-05", name: "Akita", type: "Prefecture" },
+  { code: "JP-06", name: "Yamagata", type: "Prefecture" },
+  { code: "JP-07", name: "Fukushima", type: "Prefecture" },
+  { code: "JP-08", name: "Ibaraki", type: "Prefecture" },
+  { code: "JP-09", name: "Tochigi", type: "Prefecture" },
+  { code: "JP-10", name: "Gunma", type: "Prefecture" },
+  { code: "JP-11", name: "Saitama", type: "Prefecture" },
+  { code: "JP-12", name: "Chiba", type: "Prefecture" },
+  { code: "JP-13", name: "Tokyo", type: "Prefecture" },
+  { code: "JP-14", name: "Kanagawa", type: "Prefecture" },
+  { code: "JP-15", name: "Niigata", type: "Prefecture" },
+  { code: "JP-16", name: "Toyama", type: "Prefecture" },
+  { code: "JP-17", name: "Ishikawa", type: "Prefecture" },
+  { code: "JP-18", name: "Fukui", type: "Prefecture" },
+  { code: "JP-19", name: "Yamanashi", type: "Prefecture" },
+  { code: "JP-20", name: "Nagano", type: "Prefecture" },
+  { code: "JP-21", name: "Gifu", type: "Prefecture" },
+  { code: "JP-22", name: "Shizuoka", type: "Prefecture" },
+  { code: "JP-23", name: "Aichi", type: "Prefecture" },
+  { code: "JP-24", name: "Mie", type: "Prefecture" },
+  { code: "JP-25", name: "Shiga", type: "Prefecture" },
+  { code: "JP-26", name: "Kyoto", type: "Prefecture" },
+  { code: "JP-27", name: "Osaka", type: "Prefecture" },
+  { code: "JP-28", name: "Hyogo", type: "Prefecture" },
+  { code: "JP-29", name: "Nara", type: "Prefecture" },
+  { code: "JP-30", name: "Wakayama", type: "Prefecture" },
+  { code: "JP-31", name: "Tottori", type: "Prefecture" },
+  { code: "JP-32", name: "Shimane", type: "Prefecture" },
+  { code: "JP-33", name: "Okayama", type: "Prefecture" },
+  { code: "JP-34", name: "Hiroshima", type: "Prefecture" },
+  { code: "JP-35", name: "Yamaguchi", type: "Prefecture" },
+  { code: "JP-36", name: "Tokushima", type: "Prefecture" },
+  { code: "JP-37", name: "Kagawa", type: "Prefecture" },
+  { code: "JP-38", name: "Ehime", type: "Prefecture" },
+  { code: "JP-39", name: "Kochi", type: "Prefecture" },
+  { code: "JP-40", name: "Fukuoka", type: "Prefecture" },
+  { code: "JP-41", name: "Saga", type: "Prefecture" },
+  { code: "JP-42", name: "Nagasaki", type: "Prefecture" },
+  { code: "JP-43", name: "Kumamoto", type: "Prefecture" },
+  { code: "JP-44", name: "Oita", type: "Prefecture" },
+  { code: "JP-45", name: "Miyazaki", type: "Prefecture" },
+  { code: "JP-46", name: "Kagoshima", type: "Prefecture" },
+  { code: "JP-47", name: "Okinawa", type: "Prefecture" },
+] as const;
@@ -0,0 +1,53 @@
+/**
+ * ISO 3166-2 subdivisions of Kenya (KE), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KE = [
+  { code: "KE-01", name: "Baringo", type: "County" },
+  { code: "KE-02", name: "Bomet", type: "County" },
+  { code: "KE-03", name: "Bungoma", type: "County" },
+  { code: "KE-04", name: "Busia", type: "County" },
+  { code: "KE-05", name: "Elgeyo/Marakwet", type: "County" },
+  { code: "KE-06", name: "Embu", type: "County" },
+  { code: "KE-07", name: "Garissa", type: "County" },
+  { code: "KE-08", name: "Homa Bay", type: "County" },
+  { code: "KE-09", name: "Isiolo", type: "County" },
+  { code: "KE-10", name: "Kajiado", type: "County" },
+  { code: "KE-11", name: "Kakamega", type: "County" },
+  { code: "KE-12", name: "Kericho", type: "County" },
+  { code: "KE-13", name: "Kiambu", type: "County" },
+  { code: "KE-14", name: "Kilifi", type: "County" },
+  { code: "KE-15", name: "Kirinyaga", type: "County" },
+  { code: "KE-16", name: "Kisii", type: "County" },
+  { code: "KE-17", name: "Kisumu", type: "County" },
+  { code: "KE-18", name: "Kitui", type: "County" },
+  { code: "KE-19", name: "Kwale", type: "County" },
+  { code: "KE-20", name: "Laikipia", type: "County" },
+  { code: "KE-21", name: "Lamu", type: "County" },
+  { code: "KE-22", name: "Machakos", type: "County" },
+  { code: "KE-23", name: "Makueni", type: "County" },
+  { code: "KE-24", name: "Mandera", type: "County" },
+  { code: "KE-25", name: "Marsabit", type: "County" },
+  { code: "KE-26", name: "Meru", type: "County" },
+  { code: "KE-27", name: "Migori", type: "County" },
+  { code: "KE-28", name: "Mombasa", type: "County" },
+  { code: "KE-29", name: "Murang'a", type: "County" },
+  { code: "KE-30", name: "Nairobi City", type: "County" },
+  { code: "KE-31", name: "Nakuru", type: "County" },
+  { code: "KE-32", name: "Nandi", type: "County" },
+  { code: "KE-33", name: "Narok", type: "County" },
+  { code: "KE-34", name: "Nyamira", type: "County" },
+  { code: "KE-35", name: "Nyandarua", type: "County" },
+  { code: "KE-36", name: "Nyeri", type: "County" },
+  { code: "KE-37", name: "Samburu", type: "County" },
+  { code: "KE-38", name: "Siaya", type: "County" },
+  { code: "KE-39", name: "Taita/Taveta", type: "County" },
+  { code: "KE-40", name: "Tana River", type: "County" },
+  { code: "KE-41", name: "Tharaka-Nithi", type: "County" },
+  { code: "KE-42", name: "Trans Nzoia", type: "County" },
+  { code: "KE-43", name: "Turkana", type: "County" },
+  { code: "KE-44", name: "Uasin Gishu", type: "County" },
+  { code: "KE-45", name: "Vihiga", type: "County" },
+  { code: "KE-46", name: "Wajir", type: "County" },
+  { code: "KE-47", name: "West Pokot", type: "County" },
+] as const;
@@ -0,0 +1,15 @@
+/**
+ * ISO 3166-2 subdivisions of Kyrgyzstan (KG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KG = [
+  { code: "KG-B", name: "Batken", type: "Region" },
+  { code: "KG-C", name: "Chuyskaya oblast'", type: "Region" },
+  { code: "KG-GB", name: "Bishkek Shaary", type: "City" },
+  { code: "KG-GO", name: "Gorod Osh", type: "City" },
+  { code: "KG-J", name: "Dzhalal-Abadskaya oblast'", type: "Region" },
+  { code: "KG-N", name: "Naryn", type: "Region" },
+  { code: "KG-O", name: "Osh", type: "Region" },
+  { code: "KG-T", name: "Talas", type: "Region" },
+  { code: "KG-Y", name: "Issyk-Kul'skaja oblast'", type: "Region" },
+] as const;
@@ -0,0 +1,31 @@
+/**
+ * ISO 3166-2 subdivisions of Cambodia (KH), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KH = [
+  { code: "KH-1", name: "Banteay Mean Choăy", type: "Province" },
+  { code: "KH-10", name: "Kracheh", type: "Province" },
+  { code: "KH-11", name: "Mondol Kiri", type: "Province" },
+  { code: "KH-12", name: "Phnom Penh", type: "Autonomous municipality" },
+  { code: "KH-13", name: "Preah Vihear", type: "Province" },
+  { code: "KH-14", name: "Prey Veaeng", type: "Province" },
+  { code: "KH-15", name: "Pousaat", type: "Province" },
+  { code: "KH-16", name: "Rotanak Kiri", type: "Province" },
+  { code: "KH-17", name: "Siem Reab", type: "Province" },
+  { code: "KH-18", name: "Preah Sihanouk", type: "Province" },
+  { code: "KH-19", name: "Stoĕng Trêng", type: "Province" },
+  { code: "KH-2", name: "Baat Dambang", type: "Province" },
+  { code: "KH-20", name: "Svaay Rieng", type: "Province" },
+  { code: "KH-21", name: "Taakaev", type: "Province" },
+  { code: "KH-22", name: "Otdar Mean Chey", type: "Province" },
+  { code: "KH-23", name: "Kaeb", type: "Province" },
+  { code: "KH-24", name: "Pailin", type: "Province" },
+  { code: "KH-25", name: "Tbong Khmum", type: "Province" },
+  { code: "KH-3", name: "Kampong Chaam", type: "Province" },
+  { code: "KH-4", name: "Kampong Chhnang", type: "Province" },
+  { code: "KH-5", name: "Kampong Spueu", type: "Province" },
+  { code: "KH-6", name: "Kampong Thum", type: "Province" },
+  { code: "KH-7", name: "Kampot", type: "Province" },
+  { code: "KH-8", name: "Kandaal", type: "Province" },
+  { code: "KH-9", name: "Kaoh Kong", type: "Province" },
+] as const;
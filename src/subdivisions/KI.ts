@@ -0,0 +1,21 @@
+/**
+ * ISO 3166-2 subdivisions of Kiribati (KI), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KI = [
+  {
+    code: "KI-G",
+    name: "Gilbert Islands",
+    type: "Group of islands (20 inhabited islands)",
+  },
+  {
+    code: "KI-L",
+    name: "Line Islands",
+    type: "Group of islands (20 inhabited islands)",
+  },
+  {
+    code: "KI-P",
+    name: "Phoenix Islands",
+    type: "Group of islands (20 inhabited islands)",
+  },
+] as const;
@@ -0,0 +1,9 @@
+/**
+ * ISO 3166-2 subdivisions of Comoros (KM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KM = [
+  { code: "KM-A", name: "Andjouân", type: "Island" },
+  { code: "KM-G", name: "Andjazîdja", type: "Island" },
+  { code: "KM-M", name: "Mohéli", type: "Island" },
+] as const;
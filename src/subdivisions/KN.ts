@@ -0,0 +1,82 @@
+/**
+ * ISO 3166-2 subdivisions of Saint Kitts and Nevis (KN), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KN = [
+  {
+    code: "KN-01",
+    name: "Christ Church Nichola Town",
+    type: "Parish",
+    parent: "KN-K",
+  },
+  {
+    code: "KN-02",
+    name: "Saint Anne Sandy Point",
+    type: "Parish",
+    parent: "KN-K",
+  },
+  {
+    code: "KN-03",
+    name: "Saint George Basseterre",
+    type: "Parish",
+    parent: "KN-K",
+  },
+  {
+    code: "KN-04",
+    name: "Saint George Gingerland",
+    type: "Parish",
+    parent: "KN-N",
+  },
+  {
+    code: "KN-05",
+    name: "Saint James Windward",
+    type: "Parish",
+    parent: "KN-N",
+  },
+  {
+    code: "KN-06",
+    name: "Saint John Capisterre",
+    type: "Parish",
+    parent: "KN-K",
+  },
+  { code: "KN-07", name: "Saint John Figtree", type: "Parish", parent: "KN-N" },
+  { code: "KN-08", name: "Saint Mary Cayon", type: "Parish", parent: "KN-K" },
+  {
+    code: "KN-09",
+    name: "Saint Paul Capisterre",
+    type: "Parish",
+    parent: "KN-K",
+  },
+  {
+    code: "KN-10",
+    name: "Saint Paul Charlestown",
+    type: "Parish",
+    parent: "KN-N",
+  },
+  {
+    code: "KN-11",
+    name: "Saint Peter Basseterre",
+    type: "Parish",
+    parent: "KN-K",
+  },
+  {
+    code: "KN-12",
+    name: "Saint Thomas Lowland",
+    type: "Parish",
+    parent: "KN-N",
+  },
+  {
+    code: "KN-13",
+    name: "Saint Thomas Middle Island",
+    type: "Parish",
+    parent: "KN-K",
+  },
+  {
+    code: "KN-15",
+    name: "Trinity Palmetto Point",
+    type: "Parish",
+    parent: "KN-K",
+  },
+  { code: "KN-K", name: "Saint Kitts", type: "State" },
+  { code: "KN-N", name: "Nevis", type: "State" },
+] as const;
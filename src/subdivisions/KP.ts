@@ -0,0 +1,18 @@
+/**
+ * ISO 3166-2 subdivisions of North Korea (KP), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KP = [
+  { code: "KP-01", name: "P'yǒngyang", type: "Capital city" },
+  { code: "KP-02", name: "P'yǒngan-namdo", type: "Province" },
+  { code: "KP-03", name: "P'yǒngan-bukto", type: "Province" },
+  { code: "KP-04", name: "Chagang-do", type: "Province" },
+  { code: "KP-05", name: "Hwanghae-namdo", type: "Province" },
+  { code: "KP-06", name: "Hwanghae-bukto", type: "Province" },
+  { code: "KP-07", name: "Kangweonto", type: "Province" },
+  { code: "KP-08", name: "Hamgyǒng-namdo", type: "Province" },
+  { code: "KP-09", name: "Hamgyǒng-bukto", type: "Province" },
+  { code: "KP-10", name: "Ryanggang-do", type: "Province" },
+  { code: "KP-13", name: "Raseon", type: "Special city" },
+  { code: "KP-14", name: "Nampho", type: "Metropolitan city" },
+] as const;
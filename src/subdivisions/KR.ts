@@ -0,0 +1,27 @@
+/**
+ * ISO 3166-2 subdivisions of South Korea (KR), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KR = [
+  { code: "KR-11", name: "Seoul-teukbyeolsi", type: "Special city" },
+  { code: "KR-26", name: "Busan-gwangyeoksi", type: "Metropolitan city" },
+  { code: "KR-27", name: "Daegu-gwangyeoksi", type: "Metropolitan city" },
+  { code: "KR-28", name: "Incheon-gwangyeoksi", type: "Metropolitan city" },
+  { code: "KR-29", name: "Gwangju-gwangyeoksi", type: "Metropolitan city" },
+  { code: "KR-30", name: "Daejeon-gwangyeoksi", type: "Metropolitan city" },
+  { code: "KR-31", name: "Ulsan-gwangyeoksi", type: "Metropolitan city" },
+  { code: "KR-41", name: "Gyeonggi-do", type: "Province" },
+  { code: "KR-42", name: "Gangwon-do", type: "Province" },
+  { code: "KR-43", name: "Chungcheongbuk-do", type: "Province" },
+  { code: "KR-44", name: "Chungcheongnam-do", type: "Province" },
+  { code: "KR-45", name: "Jeollabuk-do", type: "Province" },
+  { code: "KR-46", name: "Jeollanam-do", type: "Province" },
+  { code: "KR-47", name: "Gyeongsangbuk-do", type: "Province" },
+  { code: "KR-48", name: "Gyeongsangnam-do", type: "Province" },
+  {
+    code: "KR-49",
+    name: "Jeju-teukbyeoljachido",
+    type: "Special self-governing province",
+  },
+  { code: "KR-50", name: "Sejong", type: "Special self-governing city" },
+] as const;
@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Kuwait (KW), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KW = [
+  { code: "KW-AH", name: "Al Aḩmadī", type: "Governorate" },
+  { code: "KW-FA", name: "Al Farwānīyah", type: "Governorate" },
+  { code: "KW-HA", name: "Ḩawallī", type: "Governorate" },
+  { code: "KW-JA", name: "Al Jahrā’", type: "Governorate" },
+  { code: "KW-KU", name: "Al ‘Āşimah", type: "Governorate" },
+  { code: "KW-MU", name: "Mubārak al Kabīr", type: "Governorate" },
+] as const;
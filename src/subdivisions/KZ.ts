@@ -0,0 +1,23 @@
+/**
+ * ISO 3166-2 subdivisions of Kazakhstan (KZ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const KZ = [
+  { code: "KZ-AKM", name: "Akmolinskaja oblast'", type: "Region" },
+  { code: "KZ-AKT", name: "Aktjubinskaja oblast'", type: "Region" },
+  { code: "KZ-ALA", name: "Almaty", type: "City" },
+  { code: "KZ-ALM", name: "Almatinskaja oblast'", type: "Region" },
+  { code: "KZ-AST", name: "Nur-Sultan", type: "City" },
+  { code: "KZ-ATY", name: "Atyrauskaja oblast'", type: "Region" },
+  { code: "KZ-KAR", name: "Karagandinskaja oblast'", type: "Region" },
+  { code: "KZ-KUS", name: "Kostanajskaja oblast'", type: "Region" },
+  { code: "KZ-KZY", name: "Kyzylordinskaja oblast'", type: "Region" },
+  { code: "KZ-MAN", name: "Mangghystaū oblysy", type: "Region" },
+  { code: "KZ-PAV", name: "Pavlodar oblysy", type: "Region" },
+  { code: "KZ-SEV", name: "Severo-Kazahstanskaja oblast'", type: "Region" },
+  { code: "KZ-SHY", name: "Shymkent", type: "City" },
+  { code: "KZ-VOS", name: "Shyghys Qazaqstan oblysy", type: "Region" },
+  { code: "KZ-YUZ", name: "Turkestankaya oblast'", type: "Region" },
+  { code: "KZ-ZAP", name: "Batys Qazaqstan oblysy", type: "Region" },
+  { code: "KZ-ZHA", name: "Zhambyl oblysy", type: "Region" },
+] as const;
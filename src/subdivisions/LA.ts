@@ -0,0 +1,24 @@
+/**
+ * ISO 3166-2 subdivisions of Laos (LA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const LA = [
+  { code: "LA-AT", name: "Attapu", type: "Province" },
+  { code: "LA-BK", name: "Bokèo", type: "Province" },
+  { code: "LA-BL", name: "Bolikhamxai", type: "Province" },
+  { code: "LA-CH", name: "Champasak", type: "Province" },
+  { code: "LA-HO", name: "Houaphan", type: "Province" },
+  { code: "LA-KH", name: "Khammouan", type: "Province" },
+  { code: "LA-LM", name: "Louang Namtha", type: "Province" },
+  { code: "LA-LP", name: "Louangphabang", type: "Province" },
+  { code: "LA-OU", name: "Oudômxai", type: "Province" },
+  { code: "LA-PH", name: "Phôngsali", type: "Province" },
+  { code: "LA-SL", name: "Salavan", type: "Province" },
+  { code: "LA-SV", name: "Savannakhét", type: "Province" },
+  { code: "LA-VI", name: "Viangchan", type: "Province" },
+  { code: "LA-VT", name: "Viangchan", type: "Prefecture" },
+  { code: "LA-XA", name: "Xaignabouli", type: "Province" },
+  { code: "LA-XE", name: "Xékong", type: "Province" },
+  { code: "LA-XI", name: "Xiangkhouang", type: "Province" },
+  { code: "LA-XS", name: "Xaisômboun", type: "Province" },
+] as const;
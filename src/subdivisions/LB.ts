@@ -0,0 +1,14 @@
+/**
+ * ISO 3166-2 subdivisions of Lebanon (LB), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const LB = [
+  { code: "LB-AK", name: "Aakkâr", type: "Governorate" },
+  { code: "LB-AS", name: "Ash Shimāl", type: "Governorate" },
+  { code: "LB-BA", name: "Bayrūt", type: "Governorate" },
+  { code: "LB-BH", name: "Baalbek-Hermel", type: "Governorate" },
+  { code: "LB-BI", name: "Al Biqā‘", type: "Governorate" },
+  { code: "LB-JA", name: "Al Janūb", type: "Governorate" },
+  { code: "LB-JL", name: "Jabal Lubnān", type: "Governorate" },
+  { code: "LB-NA", name: "An Nabaţīyah", type: "Governorate" },
+] as const;
@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Saint Lucia (LC), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const LC = [
+  { code: "LC-01", name: "Anse la Raye", type: "District" },
+  { code: "LC-02", name: "Castries", type: "District" },
+  { code: "LC-03", name: "Choiseul", type: "District" },
+  { code: "LC-05", name: "Dennery", type: "District" },
+  { code: "LC-06", name: "Gros Islet", type: "District" },
+  { code: "LC-07", name: "Laborie", type: "District" },
+  { code: "LC-08", name: "Micoud", type: "District" },
+  { code: "LC-10", name: "Soufrière", type: "District" },
+  { code: "LC-11", name: "Vieux Fort", type: "District" },
+  { code: "LC-12", name: "Canaries", type: "District" },
+] as const;
@@ -0,0 +1,17 @@
+/**
+ * ISO 3166-2 subdivisions of Liechtenstein (LI), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const LI = [
+  { code: "LI-01", name: "Balzers", type: "Commune" },
+  { code: "LI-02", name: "Eschen", type: "Commune" },
+  { code: "LI-03", name: "Gamprin", type: "Commune" },
+  { code: "LI-04", name: "Mauren", type: "Commune" },
+  { code: "LI-05", name: "Planken", type: "Commune" },
+  { code: "LI-06", name: "Ruggell", type: "Commune" },
+  { code: "LI-07", name: "Schaan", type: "Commune" },
+  { code: "LI-08", name: "Schellenberg", type: "Commune" },
+  { code: "LI-09", name: "Triesen", type: "Commune" },
+  { code: "LI-10", name: "Triesenberg", type: "Commune" },
+  { code: "LI-11", name: "Vaduz", type: "Commune" },
+] as const;
@@ -0,0 +1,40 @@
+/**
+ * ISO 3166-2 subdivisions of Sri Lanka (LK), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const LK = [
+  { code: "LK-1", name: "Western Province", type: "Province" },
+  { code: "LK-11", name: "Colombo", type: "District", parent: "LK-1" },
+  { code: "LK-12", name: "Gampaha", type: "District", parent: "LK-1" },
+  { code: "LK-13", name: "Kalutara", type: "District", parent: "LK-1" },
+  { code: "LK-2", name: "Central Province", type: "Province" },
+  { code: "LK-21", name: "Kandy", type: "District", parent: "LK-2" },
+  { code: "LK-22", name: "Matale", type: "District", parent: "LK-2" },
+  { code: "LK-23", name: "Nuwara Eliya", type: "District", parent: "LK-2" },
+  { code: "LK-3", name: "Southern Province", type: "Province" },
+  { code: "LK-31", name: "Galle", type: "District", parent: "LK-3" },
+  { code: "LK-32", name: "Matara", type: "District", parent: "LK-3" },
+  { code: "LK-33", name: "Hambantota", type: "District", parent: "LK-3" },
+  { code: "LK-4", name: "Northern Province", type: "Province" },
+  { code: "LK-41", name: "Jaffna", type: "District", parent: "LK-4" },
+  { code: "LK-42", name: "Kilinochchi", type: "District", parent: "LK-4" },
+  { code: "LK-43", name: "Mannar", type: "District", parent: "LK-4" },
+  { code: "LK-44", name: "Vavuniya", type: "District", parent: "LK-4" },
+  { code: "LK-45", name: "Mullaittivu", type: "District", parent: "LK-4" },
+  { code: "LK-5", name: "Eastern Province", type: "Province" },
+  { code: "LK-51", name: "Batticaloa", type: "District", parent: "LK-5" },
+  { code: "LK-52", name: "Ampara", type: "District", parent: "LK-5" },
+  { code: "LK-53", name: "Trincomalee", type: "District", parent: "LK-5" },
+  { code: "LK-6", name: "North Western Province", type: "Province" },
+  { code: "LK-61", name: "Kurunegala", type: "District", parent: "LK-6" },
+  { code: "LK-62", name: "Puttalam", type: "District", parent: "LK-6" },
+  { code: "LK-7", name: "North Central Province", type: "Province" },
+  { code: "LK-71", name: "Anuradhapura", type: "District", parent: "LK-7" },
+  { code: "LK-72", name: "Polonnaruwa", type: "District", parent: "LK-7" },
+  { code: "LK-8", name: "Uva Province", type: "Province" },
+  { code: "LK-81", name: "Badulla", type: "District", parent: "LK-8" },
+  { code: "LK-82", name: "Monaragala", type: "District", parent: "LK-8" },
+  { code: "LK-9", name: "Sabaragamuwa Province", type: "Province" },
+  { code: "LK-91", name: "Ratnapura", type: "District", parent: "LK-9" },
+  { code: "LK-92", name: "Kegalla", type: "District", parent: "LK-9" },
+] as const;
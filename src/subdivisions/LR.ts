@@ -0,0 +1,21 @@
+/**
+ * ISO 3166-2 subdivisions of Liberia (LR), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const LR = [
+  { code: "LR-BG", name: "Bong", type: "County" },
+  { code: "LR-BM", name: "Bomi", type: "County" },
+  { code: "LR-CM", name: "Grand Cape Mount", type: "County" },
+  { code: "LR-GB", name: "Grand Bassa", type: "County" },
+  { code: "LR-GG", name: "Grand Gedeh", type: "County" },
+  { code: "LR-GK", name: "Grand Kru", type: "County" },
+  { code: "LR-GP", name: "Gbarpolu", type: "County" },
+  { code: "LR-LO", name: "Lofa", type: "County" },
+  { code: "LR-MG", name: "Margibi", type: "County" },
+  { code: "LR-MO", name: "Montserrado", type: "County" },
+  { code: "LR-MY", name: "Maryland", type: "County" },
+  { code: "LR-NI", name: "Nimba", type: "County" },
+  { code: "LR-RG", name: "River Gee", type: "County" },
+  { code: "LR-RI", name: "River Cess", type: "County" },
+  { code: "LR-SI", name: "Sinoe", type: "County" },
+] as const;
@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Lesotho (LS), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const LS = [
+  { code: "LS-A", name: "Maseru", type: "District" },
+  { code: "LS-B", name: "Botha-Bothe", type: "District" },
+  { code: "LS-C", name: "Leribe", type: "District" },
+  { code: "LS-D", name: "Berea", type: "District" },
+  { code: "LS-E", name: "Mafeteng", type: "District" },
+  { code: "LS-F", name: "Mohale's Hoek", type: "District" },
+  { code: "LS-G", name: "Quthing", type: "District" },
+  { code: "LS-H", name: "Qacha's Nek", type: "District" },
+  { code: "LS-J", name: "Mokhotlong", type: "District" },
+  { code: "LS-K", name: "Thaba-Tseka", type: "District" },
+] as const;
@@ -0,0 +1,18 @@
+/**
+ * ISO 3166-2 subdivisions of Luxembourg (LU), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const LU = [
+  { code: "LU-CA", name: "Capellen", type: "Canton" },
+  { code: "LU-CL", name: "Clerf", type: "Canton" },
+  { code: "LU-DI", name: "Diekirch", type: "Canton" },
+  { code: "LU-EC", name: "Echternach", type: "Canton" },
+  { code: "LU-ES", name: "Esch an der Alzette", type: "Canton" },
+  { code: "LU-GR", name: "Grevenmacher", type: "Canton" },
+  { code: "LU-LU", name: "Luxembourg", type: "Canton" },
+  { code: "LU-ME", name: "Mersch", type: "Canton" },
+  { code: "LU-RD", name: "Redange", type: "Canton" },
+  { code: "LU-RM", name: "Remich", type: "Canton" },
+  { code: "LU-VD", name: "Veianen", type: "Canton" },
+  { code: "LU-WI", name: "Wiltz", type: "Canton" },
+] as const;
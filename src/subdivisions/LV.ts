@@ -0,0 +1,125 @@
+/**
+ * ISO 3166-2 subdivisions of Latvia (LV), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const LV = [
+  { code: "LV-001", name: "Aglonas novads", type: "Municipality" },
+  { code: "LV-002", name: "Aizkraukles novads", type: "Municipality" },
+  { code: "LV-003", name: "Aizputes novads", type: "Municipality" },
+  { code: "LV-004", name: "Aknīstes novads", type: "Municipality" },
+  { code: "LV-005", name: "Alojas novads", type: "Municipality" },
+  { code: "LV-006", name: "Alsungas novads", type: "Municipality" },
+  { code: "LV-007", name: "Alūksnes novads", type: "Municipality" },
+  { code: "LV-008", name: "Amatas novads", type: "Municipality" },
+  { code: "LV-009", name: "Apes novads", type: "Municipality" },
+  { code: "LV-010", name: "Auces novads", type: "Municipality" },
+  { code: "LV-011", name: "Ādažu novads", type: "Municipality" },
+  { code: "LV-012", name: "Babītes novads", type: "Municipality" },
+  { code: "LV-013", name: "Baldones novads", type: "Municipality" },
+  { code: "LV-014", name: "Baltinavas novads", type: "Municipality" },
+  { code: "LV-015", name: "Balvu novads", type: "Municipality" },
+  { code: "LV-016", name: "Bauskas novads", type: "Municipality" },
+  { code: "LV-017", name: "Beverīnas novads", type: "Municipality" },
+  { code: "LV-018", name: "Brocēnu novads", type: "Municipality" },
+  { code: "LV-019", name: "Burtnieku novads", type: "Municipality" },
+  { code: "LV-020", name: "Carnikavas novads", type: "Municipality" },
+  { code: "LV-021", name: "Cesvaines novads", type: "Municipality" },
+  { code: "LV-022", name: "Cēsu novads", type: "Municipality" },
+  { code: "LV-023", name: "Ciblas novads", type: "Municipality" },
+  { code: "LV-024", name: "Dagdas novads", type: "Municipality" },
+  { code: "LV-025", name: "Daugavpils novads", type: "Municipality" },
+  { code: "LV-026", name: "Dobeles novads", type: "Municipality" },
+  { code: "LV-027", name: "Dundagas novads", type: "Municipality" },
+  { code: "LV-028", name: "Durbes novads", type: "Municipality" },
+  { code: "LV-029", name: "Engures novads", type: "Municipality" },
+  { code: "LV-030", name: "Ērgļu novads", type: "Municipality" },
+  { code: "LV-031", name: "Garkalnes novads", type: "Municipality" },
+  { code: "LV-032", name: "Grobiņas novads", type: "Municipality" },
+  { code: "LV-033", name: "Gulbenes novads", type: "Municipality" },
+  { code: "LV-034", name: "Iecavas novads", type: "Municipality" },
+  { code: "LV-035", name: "Ikšķiles novads", type: "Municipality" },
+  { code: "LV-036", name: "Ilūkstes novads", type: "Municipality" },
+  { code: "LV-037", name: "Inčukalna novads", type: "Municipality" },
+  { code: "LV-038", name: "Jaunjelgavas novads", type: "Municipality" },
+  { code: "LV-039", name: "Jaunpiebalgas novads", type: "Municipality" },
+  { code: "LV-040", name: "Jaunpils novads", type: "Municipality" },
+  { code: "LV-041", name: "Jelgavas novads", type: "Municipality" },
+  { code: "LV-042", name: "Jēkabpils novads", type: "Municipality" },
+  { code: "LV-043", name: "Kandavas novads", type: "Municipality" },
+  { code: "LV-044", name: "Kārsavas novads", type: "Municipality" },
+  { code: "LV-045", name: "Kocēnu novads", type: "Municipality" },
+  { code: "LV-046", name: "Kokneses novads", type: "Municipality" },
+  { code: "LV-047", name: "Krāslavas novads", type: "Municipality" },
+  { code: "LV-048", name: "Krimuldas novads", type: "Municipality" },
+  { code: "LV-049", name: "Krustpils novads", type: "Municipality" },
+  { code: "LV-050", name: "Kuldīgas novads", type: "Municipality" },
+  { code: "LV-051", name: "Ķeguma novads", type: "Municipality" },
+  { code: "LV-052", name: "Ķekavas novads", type: "Municipality" },
+  { code: "LV-053", name: "Lielvārdes novads", type: "Municipality" },
+  { code: "LV-054", name: "Limbažu novads", type: "Municipality" },
+  { code: "LV-055", name: "Līgatnes novads", type: "Municipality" },
+  { code: "LV-056", name: "Līvānu novads", type: "Municipality" },
+  { code: "LV-057", name: "Lubānas novads", type: "Municipality" },
+  { code: "LV-058", name: "Ludzas novads", type: "Municipality" },
+  { code: "LV-059", name: "Madonas novads", type: "Municipality" },
+  { code: "LV-060", name: "Mazsalacas novads", type: "Municipality" },
+  { code: "LV-061", name: "Mālpils novads", type: "Municipality" },
+  { code: "LV-062", name: "Mārupes novads", type: "Municipality" },
+  { code: "LV-063", name: "Mērsraga novads", type: "Municipality" },
+  { code: "LV-064", name: "Naukšēnu novads", type: "Municipality" },
+  { code: "LV-065", name: "Neretas novads", type: "Municipality" },
+  { code: "LV-066", name: "Nīcas novads", type: "Municipality" },
+  { code: "LV-067", name: "Ogres novads", type: "Municipality" },
+  { code: "LV-068", name: "Olaines novads", type: "Municipality" },
+  { code: "LV-069", name: "Ozolnieku novads", type: "Municipality" },
+  { code: "LV-070", name: "Pārgaujas novads", type: "Municipality" },
+  { code: "LV-071", name: "Pāvilostas novads", type: "Municipality" },
+  { code: "LV-072", name: "Pļaviņu novads", type: "Municipality" },
+  { code: "LV-073", name: "Preiļu novads", type: "Municipality" },
+  { code: "LV-074", name: "Priekules novads", type: "Municipality" },
+  { code: "LV-075", name: "Priekuļu novads", type: "Municipality" },
+  { code: "LV-076", name: "Raunas novads", type: "Municipality" },
+  { code: "LV-077", name: "Rēzeknes novads", type: "Municipality" },
+  { code: "LV-078", name: "Riebiņu novads", type: "Municipality" },
+  { code: "LV-079", name: "Rojas novads", type: "Municipality" },
+  { code: "LV-080", name: "Ropažu novads", type: "Municipality" },
+  { code: "LV-081", name: "Rucavas novads", type: "Municipality" },
+  { code: "LV-082", name: "Rugāju novads", type: "Municipality" },
+  { code: "LV-083", name: "Rundāles novads", type: "Municipality" },
+  { code: "LV-084", name: "Rūjienas novads", type: "Municipality" },
+  { code: "LV-085", name: "Salas novads", type: "Municipality" },
+  { code: "LV-086", name: "Salacgrīvas novads", type: "Municipality" },
+  { code: "LV-087", name: "Salaspils novads", type: "Municipality" },
+  { code: "LV-088", name: "Saldus novads", type: "Municipality" },
+  { code: "LV-089", name: "Saulkrastu novads", type: "Municipality" },
+  { code: "LV-090", name: "Sējas novads", type: "Municipality" },
+  { code: "LV-091", name: "Siguldas novads", type: "Municipality" },
+  { code: "LV-092", name: "Skrīveru novads", type: "Municipality" },
+  { code: "LV-093", name: "Skrundas novads", type: "Municipality" },
+  { code: "LV-094", name: "Smiltenes novads", type: "Municipality" },
+  { code: "LV-095", name: "Stopiņu novads", type: "Municipality" },
+  { code: "LV-096", name: "Strenču novads", type: "Municipality" },
+  { code: "LV-097", name: "Talsu novads", type: "Municipality" },
+  { code: "LV-098", name: "Tērvetes novads", type: "Municipality" },
+  { code: "LV-099", name: "Tukuma novads", type: "Municipality" },
+  { code: "LV-100", name: "Vaiņodes novads", type: "Municipality" },
+  { code: "LV-101", name: "Valkas novads", type: "Municipality" },
+  { code: "LV-102", name: "Varakļānu novads", type: "Municipality" },
+  { code: "LV-103", name: "Vārkavas novads", type: "Municipality" },
+  { code: "LV-104", name: "Vecpiebalgas novads", type: "Municipality" },
+  { code: "LV-105", name: "Vecumnieku novads", type: "Municipality" },
+  { code: "LV-106", name: "Ventspils novads", type: "Municipality" },
+  { code: "LV-107", name: "Viesītes novads", type: "Municipality" },
+  { code: "LV-108", name: "Viļakas novads", type: "Municipality" },
+  { code: "LV-109", name: "Viļānu novads", type: "Municipality" },
+  { code: "LV-110", name: "Zilupes novads", type: "Municipality" },
+  { code: "LV-DGV", name: "Daugavpils", type: "Republican city" },
+  { code: "LV-JEL", name: "Jelgava", type: "Republican city" },
+  { code: "LV-JKB", name: "Jēkabpils", type: "Republican city" },
+  { code: "LV-JUR", name: "Jūrmala", type: "Republican city" },
+  { code: "LV-LPX", name: "Liepāja", type: "Republican city" },
+  { code: "LV-REZ", name: "Rēzekne", type: "Republican city" },
+  { code: "LV-RIX", name: "Rīga", type: "Republican city" },
+  { code: "LV-VEN", name: "Ventspils", type: "Republican city" },
+  { code: "LV-VMR", name: "Valmiera", type: "Republican city" },
+] as const;
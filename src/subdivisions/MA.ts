@@ -0,0 +1,157 @@
+/**
+ * ISO 3166-2 subdivisions of Morocco (MA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MA = [
+  { code: "MA-01", name: "Tanger-Tétouan-Al Hoceïma", type: "Region" },
+  { code: "MA-02", name: "L'Oriental", type: "Region" },
+  { code: "MA-03", name: "Fès-Meknès", type: "Region" },
+  { code: "MA-04", name: "Rabat-Salé-Kénitra", type: "Region" },
+  { code: "MA-05", name: "Béni Mellal-Khénifra", type: "Region" },
+  { code: "MA-06", name: "Casablanca-Settat", type: "Region" },
+  { code: "MA-07", name: "Marrakech-Safi", type: "Region" },
+  { code: "MA-08", name: "Drâa-Tafilalet", type: "Region" },
+  { code: "MA-09", name: "Souss-Massa", type: "Region" },
+  { code: "MA-10", name: "Guelmim-Oued Noun (EH-partial)", type: "Region" },
+  {
+    code: "MA-11",
+    name: "Laâyoune-Sakia El Hamra (EH-partial)",
+    type: "Region",
+  },
+  { code: "MA-12", name: "Dakhla-Oued Ed-Dahab (EH)", type: "Region" },
+  {
+    code: "MA-AGD",
+    name: "Agadir-Ida-Ou-Tanane",
+    type: "Prefecture",
+    parent: "MA-09",
+  },
+  { code: "MA-AOU", name: "Aousserd (EH)", type: "Province", parent: "MA-12" },
+  {
+    code: "MA-ASZ",
+    name: "Assa-Zag (EH-partial)",
+    type: "Province",
+    parent: "MA-10",
+  },
+  { code: "MA-AZI", name: "Azilal", type: "Province", parent: "MA-05" },
+  { code: "MA-BEM", name: "Béni Mellal", type: "Province", parent: "MA-05" },
+  { code: "MA-BER", name: "Berkane", type: "Province", parent: "MA-02" },
+  { code: "MA-BES", name: "Benslimane", type: "Province", parent: "MA-06" },
+  { code: "MA-BOD", name: "Boujdour (EH)", type: "Province", parent: "MA-11" },
+  { code: "MA-BOM", name: "Boulemane", type: "Province", parent: "MA-03" },
+  { code: "MA-BRR", name: "Berrechid", type: "Province", parent: "MA-06" },
+  { code: "MA-CAS", name: "Casablanca", type: "Prefecture", parent: "MA-06" },
+  { code: "MA-CHE", name: "Chefchaouen", type: "Province", parent: "MA-01" },
+  { code: "MA-CHI", name: "Chichaoua", type: "Province", parent: "MA-07" },
+  {
+    code: "MA-CHT",
+    name: "Chtouka-Ait Baha",
+    type: "Province",
+    parent: "MA-06",
+  },
+  { code: "MA-DRI", name: "Driouch", type: "Province", parent: "MA-02" },
+  { code: "MA-ERR", name: "Errachidia", type: "Province", parent: "MA-08" },
+  { code: "MA-ESI", name: "Essaouira", type: "Province", parent: "MA-07" },
+  {
+    code: "MA-ESM",
+    name: "Es-Semara (EH-partial)",
+    type: "Province",
+    parent: "MA-11",
+  },
+  { code: "MA-FAH", name: "Fahs-Anjra", type: "Province", parent: "MA-01" },
+  { code: "MA-FES", name: "Fès", type: "Prefecture", parent: "MA-03" },
+  { code: "MA-FIG", name: "Figuig", type: "Province", parent: "MA-02" },
+  {
+    code: "MA-FQH",
+    name: "Fquih Ben Salah",
+    type: "Province",
+    parent: "MA-05",
+  },
+  { code: "MA-GUE", name: "Guelmim", type: "Province", parent: "MA-10" },
+  { code: "MA-GUF", name: "Guercif", type: "Province", parent: "MA-02" },
+  { code: "MA-HAJ", name: "El Hajeb", type: "Province", parent: "MA-03" },
+  { code: "MA-HAO", name: "Al Haouz", type: "Province", parent: "MA-07" },
+  { code: "MA-HOC", name: "Al Hoceïma", type: "Province", parent: "MA-01" },
+  { code: "MA-IFR", name: "Ifrane", type: "Province", parent: "MA-03" },
+  {
+    code: "MA-INE",
+    name: "Inezgane-Ait Melloul",
+    type: "Prefecture",
+    parent: "MA-09",
+  },
+  { code: "MA-JDI", name: "El Jadida", type: "Province", parent: "MA-06" },
+  { code: "MA-JRA", name: "Jerada", type: "Province", parent: "MA-02" },
+  { code: "MA-KEN", name: "Kénitra", type: "Province", parent: "MA-04" },
+  {
+    code: "MA-KES",
+    name: "El Kelâa des Sraghna",
+    type: "Province",
+    parent: "MA-07",
+  },
+  { code: "MA-KHE", name: "Khémisset", type: "Province", parent: "MA-04" },
+  { code: "MA-KHN", name: "Khénifra", type: "Province", parent: "MA-05" },
+  { code: "MA-KHO", name: "Khouribga", type: "Province", parent: "MA-05" },
+  { code: "MA-LAA", name: "Laâyoune (EH)", type: "Province", parent: "MA-11" },
+  { code: "MA-LAR", name: "Larache", type: "Province", parent: "MA-01" },
+  { code: "MA-MAR", name: "Marrakech", type: "Prefecture", parent: "MA-07" },
+  { code: "MA-MDF", name: "M’diq-Fnideq", type: "Prefecture", parent: "MA-01" },
+  { code: "MA-MED", name: "Médiouna", type: "Province", parent: "MA-06" },
+  { code: "MA-MEK", name: "Meknès", type: "Prefecture", parent: "MA-03" },
+  { code: "MA-MID", name: "Midelt", type: "Province", parent: "MA-08" },
+  { code: "MA-MOH", name: "Mohammadia", type: "Prefecture", parent: "MA-06" },
+  { code: "MA-MOU", name: "Moulay Yacoub", type: "Province", parent: "MA-03" },
+  { code: "MA-NAD", name: "Nador", type: "Province", parent: "MA-02" },
+  { code: "MA-NOU", name: "Nouaceur", type: "Province", parent: "MA-04" },
+  { code: "MA-OUA", name: "Ouarzazate", type: "Province", parent: "MA-08" },
+  {
+    code: "MA-OUD",
+    name: "Oued Ed-Dahab (EH)",
+    type: "Province",
+    parent: "MA-12",
+  },
+  { code: "MA-OUJ", name: "Oujda-Angad", type: "Prefecture", parent: "MA-02" },
+  { code: "MA-OUZ", name: "Ouezzane", type: "Province", parent: "MA-01" },
+  { code: "MA-RAB", name: "Rabat", type: "Prefecture", parent: "MA-04" },
+  { code: "MA-REH", name: "Rehamna", type: "Province", parent: "MA-07" },
+  { code: "MA-SAF", name: "Safi", type: "Province", parent: "MA-07" },
+  { code: "MA-SAL", name: "Salé", type: "Prefecture", parent: "MA-04" },
+  { code: "MA-SEF", name: "Sefrou", type: "Province", parent: "MA-03" },
+  { code: "MA-SET", name: "Settat", type: "Province", parent: "MA-06" },
+  { code: "MA-SIB", name: "Sidi Bennour", type: "Province", parent: "MA-06" },
+  { code: "MA-SIF", name: "Sidi Ifni", type: "Province", parent: "MA-10" },
+  { code: "MA-SIK", name: "Sidi Kacem", type: "Province", parent: "MA-04" },
+  { code: "MA-SIL", name: "Sidi Slimane", type: "Province", parent: "MA-04" },
+  {
+    code: "MA-SKH",
+    name: "Skhirate-Témara",
+    type: "Prefecture",
+    parent: "MA-04",
+  },
+  {
+    code: "MA-TAF",
+    name: "Tarfaya (EH-partial)",
+    type: "Province",
+    parent: "MA-11",
+  },
+  { code: "MA-TAI", name: "Taourirt", type: "Province", parent: "MA-02" },
+  { code: "MA-TAO", name: "Taounate", type: "Province", parent: "MA-03" },
+  { code: "MA-TAR", name: "Taroudannt", type: "Province", parent: "MA-09" },
+  { code: "MA-TAT", name: "Tata", type: "Province", parent: "MA-09" },
+  { code: "MA-TAZ", name: "Taza", type: "Province", parent: "MA-03" },
+  { code: "MA-TET", name: "Tétouan", type: "Province", parent: "MA-01" },
+  { code: "MA-TIN", name: "Tinghir", type: "Province", parent: "MA-08" },
+  { code: "MA-TIZ", name: "Tiznit", type: "Province", parent: "MA-09" },
+  {
+    code: "MA-TNG",
+    name: "Tanger-Assilah",
+    type: "Prefecture",
+    parent: "MA-01",
+  },
+  {
+    code: "MA-TNT",
+    name: "Tan-Tan (EH-partial)",
+    type: "Province",
+    parent: "MA-10",
+  },
+  { code: "MA-YUS", name: "Youssoufia", type: "Province", parent: "MA-07" },
+  { code: "MA-ZAG", name: "Zagora", type: "Province", parent: "MA-08" },
+] as const;
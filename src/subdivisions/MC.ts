@@ -0,0 +1,23 @@
+/**
+ * ISO 3166-2 subdivisions of Monaco (MC), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MC = [
+  { code: "MC-CL", name: "La Colle", type: "Quarter" },
+  { code: "MC-CO", name: "La Condamine", type: "Quarter" },
+  { code: "MC-FO", name: "Fontvieille", type: "Quarter" },
+  { code: "MC-GA", name: "La Gare", type: "Quarter" },
+  { code: "MC-JE", name: "Jardin Exotique", type: "Quarter" },
+  { code: "MC-LA", name: "Larvotto", type: "Quarter" },
+  { code: "MC-MA", name: "Malbousquet", type: "Quarter" },
+  { code: "MC-MC", name: "Monte-Carlo", type: "Quarter" },
+  { code: "MC-MG", name: "Moneghetti", type: "Quarter" },
+  { code: "MC-MO", name: "Monaco-Ville", type: "Quarter" },
+  { code: "MC-MU", name: "Moulins", type: "Quarter" },
+  { code: "MC-PH", name: "Port-Hercule", type: "Quarter" },
+  { code: "MC-SD", name: "Sainte-Dévote", type: "Quarter" },
+  { code: "MC-SO", name: "La Source", type: "Quarter" },
+  { code: "MC-SP", name: "Spélugues", type: "Quarter" },
+  { code: "MC-SR", name: "Saint-Roman", type: "Quarter" },
+  { code: "MC-VR", name: "Vallon de la Rousse", type: "Quarter" },
+] as const;
@@ -0,0 +1,51 @@
+/**
+ * ISO 3166-2 subdivisions of Moldova (MD), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MD = [
+  { code: "MD-AN", name: "Anenii Noi", type: "District" },
+  { code: "MD-BA", name: "Bălți", type: "City" },
+  { code: "MD-BD", name: "Bender [Tighina]", type: "City" },
+  { code: "MD-BR", name: "Briceni", type: "District" },
+  { code: "MD-BS", name: "Basarabeasca", type: "District" },
+  { code: "MD-CA", name: "Cahul", type: "District" },
+  { code: "MD-CL", name: "Călărași", type: "District" },
+  { code: "MD-CM", name: "Cimișlia", type: "District" },
+  { code: "MD-CR", name: "Criuleni", type: "District" },
+  { code: "MD-CS", name: "Căușeni", type: "District" },
+  { code: "MD-CT", name: "Cantemir", type: "District" },
+  { code: "MD-CU", name: "Chișinău", type: "City" },
+  { code: "MD-DO", name: "Dondușeni", type: "District" },
+  { code: "MD-DR", name: "Drochia", type: "District" },
+  { code: "MD-DU", name: "Dubăsari", type: "District" },
+  { code: "MD-ED", name: "Edineț", type: "District" },
+  { code: "MD-FA", name: "Fălești", type: "District" },
+  { code: "MD-FL", name: "Florești", type: "District" },
+  {
+    code: "MD-GA",
+    name: "Găgăuzia, Unitatea teritorială autonomă (UTAG)",
+    type: "Autonomous territorial unit",
+  },
+  { code: "MD-GL", name: "Glodeni", type: "District" },
+  { code: "MD-HI", name: "Hîncești", type: "District" },
+  { code: "MD-IA", name: "Ialoveni", type: "District" },
+  { code: "MD-LE", name: "Leova", type: "District" },
+  { code: "MD-NI", name: "Nisporeni", type: "District" },
+  { code: "MD-OC", name: "Ocnița", type: "District" },
+  { code: "MD-OR", name: "Orhei", type: "District" },
+  { code: "MD-RE", name: "Rezina", type: "District" },
+  { code: "MD-RI", name: "Rîșcani", type: "District" },
+  { code: "MD-SD", name: "Șoldănești", type: "District" },
+  { code: "MD-SI", name: "Sîngerei", type: "District" },
+  {
+    code: "MD-SN",
+    name: "Stînga Nistrului, unitatea teritorială din",
+    type: "Territorial unit",
+  },
+  { code: "MD-SO", name: "Soroca", type: "District" },
+  { code: "MD-ST", name: "Strășeni", type: "District" },
+  { code: "MD-SV", name: "Ștefan Vodă", type: "District" },
+  { code: "MD-TA", name: "Taraclia", type: "District" },
+  { code: "MD-TE", name: "Telenești", type: "District" },
+  { code: "MD-UN", name: "Ungheni", type: "District" },
+] as const;
@@ -0,0 +1,30 @@
+/**
+ * ISO 3166-2 subdivisions of Montenegro (ME), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ME = [
+  { code: "ME-01", name: "Andrijevica", type: "Municipality" },
+  { code: "ME-02", name: "Bar", type: "Municipality" },
+  { code: "ME-03", name: "Berane", type: "Municipality" },
+  { code: "ME-04", name: "Bijelo Polje", type: "Municipality" },
+  { code: "ME-05", name: "Budva", type: "Municipality" },
+  { code: "ME-06", name: "Cetinje", type: "Municipality" },
+  { code: "ME-07", name: "Danilovgrad", type: "Municipality" },
+  { code: "ME-08", name: "Herceg-Novi", type: "Municipality" },
+  { code: "ME-09", name: "Kolašin", type: "Municipality" },
+  { code: "ME-10", name: "Kotor", type: "Municipality" },
+  { code: "ME-11", name: "Mojkovac", type: "Municipality" },
+  { code: "ME-12", name: "Nikšić", type: "Municipality" },
+  { code: "ME-13", name: "Plav", type: "Municipality" },
+  { code: "ME-14", name: "Pljevlja", type: "Municipality" },
+  { code: "ME-15", name: "Plužine", type: "Municipality" },
+  { code: "ME-16", name: "Podgorica", type: "Municipality" },
+  { code: "ME-17", name: "Rožaje", type: "Municipality" },
+  { code: "ME-18", name: "Šavnik", type: "Municipality" },
+  { code: "ME-19", name: "Tivat", type: "Municipality" },
+  { code: "ME-20", name: "Ulcinj", type: "Municipality" },
+  { code: "ME-21", name: "Žabljak", type: "Municipality" },
+  { code: "ME-22", name: "Gusinje", type: "Municipality" },
+  { code: "ME-23", name: "Petnjica", type: "Municipality" },
+  { code: "ME-24", name: "Tuzi", type: "Municipality" },
+] as const;
@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Madagascar (MG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MG = [
+  { code: "MG-A", name: "Toamasina", type: "Province" },
+  { code: "MG-D", name: "Antsiranana", type: "Province" },
+  { code: "MG-F", name: "Fianarantsoa", type: "Province" },
+  { code: "MG-M", name: "Mahajanga", type: "Province" },
+  { code: "MG-T", name: "Antananarivo", type: "Province" },
+  { code: "MG-U", name: "Toliara", type: "Province" },
+] as const;
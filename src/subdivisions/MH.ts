@@ -0,0 +1,47 @@
+/**
+ * ISO 3166-2 subdivisions of Marshall Islands (MH), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MH = [
+  { code: "MH-ALK", name: "Ailuk", type: "Municipality", parent: "MH-T" },
+  {
+    code: "MH-ALL",
+    name: "Ailinglaplap",
+    type: "Municipality",
+    parent: "MH-L",
+  },
+  { code: "MH-ARN", name: "Arno", type: "Municipality", parent: "MH-T" },
+  { code: "MH-AUR", name: "Aur", type: "Municipality", parent: "MH-T" },
+  { code: "MH-EBO", name: "Ebon", type: "Municipality", parent: "MH-L" },
+  {
+    code: "MH-ENI",
+    name: "Enewetak & Ujelang",
+    type: "Municipality",
+    parent: "MH-L",
+  },
+  { code: "MH-JAB", name: "Jabat", type: "Municipality", parent: "MH-L" },
+  { code: "MH-JAL", name: "Jaluit", type: "Municipality", parent: "MH-L" },
+  {
+    code: "MH-KIL",
+    name: "Bikini & Kili",
+    type: "Municipality",
+    parent: "MH-L",
+  },
+  { code: "MH-KWA", name: "Kwajalein", type: "Municipality", parent: "MH-L" },
+  { code: "MH-L", name: "Ralik chain", type: "Chain (of islands)" },
+  { code: "MH-LAE", name: "Lae", type: "Municipality", parent: "MH-L" },
+  { code: "MH-LIB", name: "Lib", type: "Municipality", parent: "MH-L" },
+  { code: "MH-LIK", name: "Likiep", type: "Municipality", parent: "MH-T" },
+  { code: "MH-MAJ", name: "Majuro", type: "Municipality", parent: "MH-T" },
+  { code: "MH-MAL", name: "Maloelap", type: "Municipality", parent: "MH-T" },
+  { code: "MH-MEJ", name: "Mejit", type: "Municipality", parent: "MH-T" },
+  { code: "MH-MIL", name: "Mili", type: "Municipality", parent: "MH-T" },
+  { code: "MH-NMK", name: "Namdrik", type: "Municipality", parent: "MH-L" },
+  { code: "MH-NMU", name: "Namu", type: "Municipality", parent: "MH-L" },
+  { code: "MH-RON", name: "Rongelap", type: "Municipality", parent: "MH-L" },
+  { code: "MH-T", name: "Ratak chain", type: "Chain (of islands)" },
+  { code: "MH-UJA", name: "Ujae", type: "Municipality", parent: "MH-L" },
+  { code: "MH-UTI", name: "Utrik", type: "Municipality", parent: "MH-T" },
+  { code: "MH-WTH", name: "Wotho", type: "Municipality", parent: "MH-L" },
+  { code: "MH-WTJ", name: "Wotje", type: "Municipality", parent: "MH-T" },
+] as const;
@@ -0,0 +1,17 @@
+/**
+ * ISO 3166-2 subdivisions of Mali (ML), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ML = [
+  { code: "ML-1", name: "Kayes", type: "Region" },
+  { code: "ML-10", name: "Taoudénit", type: "Region" },
+  { code: "ML-2", name: "Koulikoro", type: "Region" },
+  { code: "ML-3", name: "Sikasso", type: "Region" },
+  { code: "ML-4", name: "Ségou", type: "Region" },
+  { code: "ML-5", name: "Mopti", type: "Region" },
+  { code: "ML-6", name: "Tombouctou", type: "Region" },
+  { code: "ML-7", name: "Gao", type: "Region" },
+  { code: "ML-8", name: "Kidal", type: "Region" },
+  { code: "ML-9", name: "Ménaka", type: "Region" },
+  { code: "ML-BKO", name: "Bamako", type: "District" },
+] as const;
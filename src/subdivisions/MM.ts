@@ -0,0 +1,21 @@
+/**
+ * ISO 3166-2 subdivisions of Myanmar (MM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MM = [
+  { code: "MM-01", name: "Sagaing", type: "Region" },
+  { code: "MM-02", name: "Bago", type: "Region" },
+  { code: "MM-03", name: "Magway", type: "Region" },
+  { code: "MM-04", name: "Mandalay", type: "Region" },
+  { code: "MM-05", name: "Tanintharyi", type: "Region" },
+  { code: "MM-06", name: "Yangon", type: "Region" },
+  { code: "MM-07", name: "Ayeyarwady", type: "Region" },
+  { code: "MM-11", name: "Kachin", type: "State" },
+  { code: "MM-12", name: "Kayah", type: "State" },
+  { code: "MM-13", name: "Kayin", type: "State" },
+  { code: "MM-14", name: "Chin", type: "State" },
+  { code: "MM-15", name: "Mon", type: "State" },
+  { code: "MM-16", name: "Rakhine", type: "State" },
+  { code: "MM-17", name: "Shan", type: "State" },
+  { code: "MM-18", name: "Nay Pyi Taw", type: "Union territory" },
+] as const;
@@ -0,0 +1,21 @@
+/**
+ * ISO 3166-2 subdivisions of Mauritania (MR), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MR = [
+  { code: "MR-01", name: "Hodh ech Chargui", type: "Region" },
+  { code: "MR-02", name: "Hodh el Gharbi", type: "Region" },
+  { code: "MR-03", name: "Assaba", type: "Region" },
+  { code: "MR-04", name: "Gorgol", type: "Region" },
+  { code: "MR-05", name: "Brakna", type: "Region" },
+  { code: "MR-06", name: "Trarza", type: "Region" },
+  { code: "MR-07", name: "Adrar", type: "Region" },
+  { code: "MR-08", name: "Dakhlet Nouâdhibou", type: "Region" },
+  { code: "MR-09", name: "Tagant", type: "Region" },
+  { code: "MR-10", name: "Guidimaka", type: "Region" },
+  { code: "MR-11", name: "Tiris Zemmour", type: "Region" },
+  { code: "MR-12", name: "Inchiri", type: "Region" },
+  { code: "MR-13", name: "Nouakchott Ouest", type: "Region" },
+  { code: "MR-14", name: "Nouakchott Nord", type: "Region" },
+  { code: "MR-15", name: "Nouakchott Sud", type: "Region" },
+] as const;
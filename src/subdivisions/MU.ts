@@ -0,0 +1,18 @@
+/**
+ * ISO 3166-2 subdivisions of Mauritius (MU), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MU = [
+  { code: "MU-AG", name: "Agalega Islands", type: "Dependency" },
+  { code: "MU-BL", name: "Black River", type: "District" },
+  { code: "MU-CC", name: "Cargados Carajos Shoals", type: "Dependency" },
+  { code: "MU-FL", name: "Flacq", type: "District" },
+  { code: "MU-GP", name: "Grand Port", type: "District" },
+  { code: "MU-MO", name: "Moka", type: "District" },
+  { code: "MU-PA", name: "Pamplemousses", type: "District" },
+  { code: "MU-PL", name: "Port Louis", type: "District" },
+  { code: "MU-PW", name: "Plaines Wilhems", type: "District" },
+  { code: "MU-RO", name: "Rodrigues Island", type: "Dependency" },
+  { code: "MU-RR", name: "Rivière du Rempart", type: "District" },
+  { code: "MU-SA", name: "Savanne", type: "District" },
+] as const;
@@ -0,0 +1,27 @@
+/**
+ * ISO 3166-2 subdivisions of Maldives (MV), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MV = [
+  { code: "MV-00", name: "South Ari Atoll", type: "Administrative atoll" },
+  { code: "MV-01", name: "Addu City", type: "City" },
+  { code: "MV-02", name: "North Ari Atoll", type: "Administrative atoll" },
+  { code: "MV-03", name: "Faadhippolhu", type: "Administrative atoll" },
+  { code: "MV-04", name: "Felidhu Atoll", type: "Administrative atoll" },
+  { code: "MV-05", name: "Hahdhunmathi", type: "Administrative atoll" },
+  { code: "MV-07", name: "North Thiladhunmathi", type: "Administrative atoll" },
+  { code: "MV-08", name: "Kolhumadulu", type: "Administrative atoll" },
+  { code: "MV-12", name: "Mulaku Atoll", type: "Administrative atoll" },
+  { code: "MV-13", name: "North Maalhosmadulu", type: "Administrative atoll" },
+  { code: "MV-14", name: "North Nilandhe Atoll", type: "Administrative atoll" },
+  { code: "MV-17", name: "South Nilandhe Atoll", type: "Administrative atoll" },
+  { code: "MV-20", name: "South Maalhosmadulu", type: "Administrative atoll" },
+  { code: "MV-23", name: "South Thiladhunmathi", type: "Administrative atoll" },
+  { code: "MV-24", name: "North Miladhunmadulu", type: "Administrative atoll" },
+  { code: "MV-25", name: "South Miladhunmadulu", type: "Administrative atoll" },
+  { code: "MV-26", name: "Male Atoll", type: "Administrative atoll" },
+  { code: "MV-27", name: "North Huvadhu Atoll", type: "Administrative atoll" },
+  { code: "MV-28", name: "South Huvadhu Atoll", type: "Administrative atoll" },
+  { code: "MV-29", name: "Fuvammulah", type: "Administrative atoll" },
+  { code: "MV-MLE", name: "Male", type: "City" },
+] as const;
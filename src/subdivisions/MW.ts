@@ -0,0 +1,37 @@
+/**
+ * ISO 3166-2 subdivisions of Malawi (MW), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MW = [
+  { code: "MW-BA", name: "Balaka", type: "District", parent: "MW-S" },
+  { code: "MW-BL", name: "Blantyre", type: "District", parent: "MW-S" },
+  { code: "MW-C", name: "Central Region", type: "Region" },
+  { code: "MW-CK", name: "Chikwawa", type: "District", parent: "MW-S" },
+  { code: "MW-CR", name: "Chiradzulu", type: "District", parent: "MW-S" },
+  { code: "MW-CT", name: "Chitipa", type: "District", parent: "MW-N" },
+  { code: "MW-DE", name: "Dedza", type: "District", parent: "MW-C" },
+  { code: "MW-DO", name: "Dowa", type: "District", parent: "MW-C" },
+  { code: "MW-KR", name: "Karonga", type: "District", parent: "MW-N" },
+  { code: "MW-KS", name: "Kasungu", type: "District", parent: "MW-C" },
+  { code: "MW-LI", name: "Lilongwe", type: "District", parent: "MW-C" },
+  { code: "MW-LK", name: "Likoma", type: "District", parent: "MW-N" },
+  { code: "MW-MC", name: "Mchinji", type: "District", parent: "MW-C" },
+  { code: "MW-MG", name: "Mangochi", type: "District", parent: "MW-S" },
+  { code: "MW-MH", name: "Machinga", type: "District", parent: "MW-S" },
+  { code: "MW-MU", name: "Mulanje", type: "District", parent: "MW-S" },
+  { code: "MW-MW", name: "Mwanza", type: "District", parent: "MW-S" },
+  { code: "MW-MZ", name: "Mzimba", type: "District", parent: "MW-N" },
+  { code: "MW-N", name: "Northern Region", type: "Region" },
+  { code: "MW-NB", name: "Nkhata Bay", type: "District", parent: "MW-N" },
+  { code: "MW-NE", name: "Neno", type: "District", parent: "MW-S" },
+  { code: "MW-NI", name: "Ntchisi", type: "District", parent: "MW-C" },
+  { code: "MW-NK", name: "Nkhotakota", type: "District", parent: "MW-C" },
+  { code: "MW-NS", name: "Nsanje", type: "District", parent: "MW-S" },
+  { code: "MW-NU", name: "Ntcheu", type: "District", parent: "MW-C" },
+  { code: "MW-PH", name: "Phalombe", type: "District", parent: "MW-S" },
+  { code: "MW-RU", name: "Rumphi", type: "District", parent: "MW-N" },
+  { code: "MW-S", name: "Southern Region", type: "Region" },
+  { code: "MW-SA", name: "Salima", type: "District", parent: "MW-C" },
+  { code: "MW-TH", name: "Thyolo", type: "District", parent: "MW-S" },
+  { code: "MW-ZO", name: "Zomba", type: "District", parent: "MW-S" },
+] as const;
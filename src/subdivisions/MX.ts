@@ -0,0 +1,38 @@
+/**
+ * ISO 3166-2 subdivisions of Mexico (MX), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MX = [
+  { code: "MX-AGU", name: "Aguascalientes", type: "State" },
+  { code: "MX-BCN", name: "Baja California", type: "State" },
+  { code: "MX-BCS", name: "Baja California Sur", type: "State" },
+  { code: "MX-CAM", name: "Campeche", type: "State" },
+  { code: "MX-CHH", name: "Chihuahua", type: "State" },
+  { code: "MX-CHP", name: "Chiapas", type: "State" },
+  { code: "MX-CMX", name: "Ciudad de México", type: "Federal district" },
+  { code: "MX-COA", name: "Coahuila de Zaragoza", type: "State" },
+  { code: "MX-COL", name: "Colima", type: "State" },
+  { code: "MX-DUR", name: "Durango", type: "State" },
+  { code: "MX-GRO", name: "Guerrero", type: "State" },
+  { code: "MX-GUA", name: "Guanajuato", type: "State" },
+  { code: "MX-HID", name: "Hidalgo", type: "State" },
+  { code: "MX-JAL", name: "Jalisco", type: "State" },
+  { code: "MX-MEX", name: "México", type: "State" },
+  { code: "MX-MIC", name: "Michoacán de Ocampo", type: "State" },
+  { code: "MX-MOR", name: "Morelos", type: "State" },
+  { code: "MX-NAY", name: "Nayarit", type: "State" },
+  { code: "MX-NLE", name: "Nuevo León", type: "State" },
+  { code: "MX-OAX", name: "Oaxaca", type: "State" },
+  { code: "MX-PUE", name: "Puebla", type: "State" },
+  { code: "MX-QUE", name: "Querétaro", type: "State" },
+  { code: "MX-ROO", name: "Quintana Roo", type: "State" },
+  { code: "MX-SIN", name: "Sinaloa", type: "State" },
+  { code: "MX-SLP", name: "San Luis Potosí", type: "State" },
+  { code: "MX-SON", name: "Sonora", type: "State" },
+  { code: "MX-TAB", name: "Tabasco", type: "State" },
+  { code: "MX-TAM", name: "Tamaulipas", type: "State" },
+  { code: "MX-TLA", name: "Tlaxcala", type: "State" },
+  { code: "MX-VER", name: "Veracruz de Ignacio de la Llave", type: "State" },
+  { code: "MX-YUC", name: "Yucatán", type: "State" },
+  { code: "MX-ZAC", name: "Zacatecas", type: "State" },
+] as const;
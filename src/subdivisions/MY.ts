@@ -0,0 +1,34 @@
+/**
+ * ISO 3166-2 subdivisions of Malaysia (MY), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MY = [
+  { code: "MY-01", name: "Johor", type: "State" },
+  { code: "MY-02", name: "Kedah", type: "State" },
+  { code: "MY-03", name: "Kelantan", type: "State" },
+  { code: "MY-04", name: "Melaka", type: "State" },
+  { code: "MY-05", name: "Negeri Sembilan", type: "State" },
+  { code: "MY-06", name: "Pahang", type: "State" },
+  { code: "MY-07", name: "Pulau Pinang", type: "State" },
+  { code: "MY-08", name: "Perak", type: "State" },
+  { code: "MY-09", name: "Perlis", type: "State" },
+  { code: "MY-10", name: "Selangor", type: "State" },
+  { code: "MY-11", name: "Terengganu", type: "State" },
+  { code: "MY-12", name: "Sabah", type: "State" },
+  { code: "MY-13", name: "Sarawak", type: "State" },
+  {
+    code: "MY-14",
+    name: "Wilayah Persekutuan Kuala Lumpur",
+    type: "Federal territory",
+  },
+  {
+    code: "MY-15",
+    name: "Wilayah Persekutuan Labuan",
+    type: "Federal territory",
+  },
+  {
+    code: "MY-16",
+    name: "Wilayah Persekutuan Putrajaya",
+    type: "Federal territory",
+  },
+] as const;
@@ -0,0 +1,17 @@
+/**
+ * ISO 3166-2 subdivisions of Mozambique (MZ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const MZ = [
+  { code: "MZ-A", name: "Niassa", type: "Province" },
+  { code: "MZ-B", name: "Manica", type: "Province" },
+  { code: "MZ-G", name: "Gaza", type: "Province" },
+  { code: "MZ-I", name: "Inhambane", type: "Province" },
+  { code: "MZ-L", name: "Maputo", type: "Province" },
+  { code: "MZ-MPM", name: "Maputo", type: "City" },
+  { code: "MZ-N", name: "Nampula", type: "Province" },
+  { code: "MZ-P", name: "Cabo Delgado", type: "Province" },
+  { code: "MZ-Q", name: "Zambézia", type: "Province" },
+  { code: "MZ-S", name: "Sofala", type: "Province" },
+  { code: "MZ-T", name: "Tete", type: "Province" },
+] as const;
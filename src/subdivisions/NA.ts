@@ -0,0 +1,20 @@
+/**
+ * ISO 3166-2 subdivisions of Namibia (NA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const NA = [
+  { code: "NA-CA", name: "Zambezi", type: "Region" },
+  { code: "NA-ER", name: "Erongo", type: "Region" },
+  { code: "NA-HA", name: "Hardap", type: "Region" },
+  { code: "NA-KA", name: "//Karas", type: "Region" },
+  { code: "NA-KE", name: "Kavango East", type: "Region" },
+  { code: "NA-KH", name: "Khomas", type: "Region" },
+  { code: "NA-KU", name: "Kunene", type: "Region" },
+  { code: "NA-KW", name: "Kavango West", type: "Region" },
+  { code: "NA-OD", name: "Otjozondjupa", type: "Region" },
+  { code: "NA-OH", name: "Omaheke", type: "Region" },
+  { code: "NA-ON", name: "Oshana", type: "Region" },
+  { code: "NA-OS", name: "Omusati", type: "Region" },
+  { code: "NA-OT", name: "Oshikoto", type: "Region" },
+  { code: "NA-OW", name: "Ohangwena", type: "Region" },
+] as const;
@@ -0,0 +1,14 @@
+/**
+ * ISO 3166-2 subdivisions of Niger (NE), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const NE = [
+  { code: "NE-1", name: "Agadez", type: "Region" },
+  { code: "NE-2", name: "Diffa", type: "Region" },
+  { code: "NE-3", name: "Dosso", type: "Region" },
+  { code: "NE-4", name: "Maradi", type: "Region" },
+  { code: "NE-5", name: "Tahoua", type: "Region" },
+  { code: "NE-6", name: "Tillabéri", type: "Region" },
+  { code: "NE-7", name: "Zinder", type: "Region" },
+  { code: "NE-8", name: "Niamey", type: "Urban community" },
+] as const;
@@ -0,0 +1,47 @@
+/**
+ * ISO 3166-2 subdivisions of Nigeria (NG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const NG = [
+  { code: "NG-AB", name: "Abia", type: "State" },
+  { code: "NG-AD", name: "Adamawa", type: "State" },
+  { code: "NG-AK", name: "Akwa Ibom", type: "State" },
+  { code: "NG-AN", name: "Anambra", type: "State" },
+  { code: "NG-BA", name: "Bauchi", type: "State" },
+  { code: "NG-BE", name: "Benue", type: "State" },
+  { code: "NG-BO", name: "Borno", type: "State" },
+  { code: "NG-BY", name: "Bayelsa", type: "State" },
+  { code: "NG-CR", name: "Cross River", type: "State" },
+  { code: "NG-DE", name: "Delta", type: "State" },
+  { code: "NG-EB", name: "Ebonyi", type: "State" },
+  { code: "NG-ED", name: "Edo", type: "State" },
+  { code: "NG-EK", name: "Ekiti", type: "State" },
+  { code: "NG-EN", name: "Enugu", type: "State" },
+  {
+    code: "NG-FC",
+    name: "Abuja Federal Capital Territory",
+    type: "Capital territory",
+  },
+  { code: "NG-GO", name: "Gombe", type: "State" },
+  { code: "NG-IM", name: "Imo", type: "State" },
+  { code: "NG-JI", name: "Jigawa", type: "State" },
+  { code: "NG-KD", name: "Kaduna", type: "State" },
+  { code: "NG-KE", name: "Kebbi", type: "State" },
+  { code: "NG-KN", name: "Kano", type: "State" },
+  { code: "NG-KO", name: "Kogi", type: "State" },
+  { code: "NG-KT", name: "Katsina", type: "State" },
+  { code: "NG-KW", name: "Kwara", type: "State" },
+  { code: "NG-LA", name: "Lagos", type: "State" },
+  { code: "NG-NA", name: "Nasarawa", type: "State" },
+  { code: "NG-NI", name: "Niger", type: "State" },
+  { code: "NG-OG", name: "Ogun", type: "State" },
+  { code: "NG-ON", name: "Ondo", type: "State" },
+  { code: "NG-OS", name: "Osun", type: "State" },
+  { code: "NG-OY", name: "Oyo", type: "State" },
+  { code: "NG-PL", name: "Plateau", type: "State" },
+  { code: "NG-RI", name: "Rivers", type: "State" },
+  { code: "NG-SO", name: "Sokoto", type: "State" },
+  { code: "NG-TA", name: "Taraba", type: "State" },
+  { code: "NG-YO", name: "Yobe", type: "State" },
+  { code: "NG-ZA", name: "Zamfara", type: "State" },
+] as const;
@@ -0,0 +1,23 @@
+/**
+ * ISO 3166-2 subdivisions of Nicaragua (NI), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const NI = [
+  { code: "NI-AN", name: "Costa Caribe Norte", type: "Autonomous region" },
+  { code: "NI-AS", name: "Costa Caribe Sur", type: "Autonomous region" },
+  { code: "NI-BO", name: "Boaco", type: "Department" },
+  { code: "NI-CA", name: "Carazo", type: "Department" },
+  { code: "NI-CI", name: "Chinandega", type: "Department" },
+  { code: "NI-CO", name: "Chontales", type: "Department" },
+  { code: "NI-ES", name: "Estelí", type: "Department" },
+  { code: "NI-GR", name: "Granada", type: "Department" },
+  { code: "NI-JI", name: "Jinotega", type: "Department" },
+  { code: "NI-LE", name: "León", type: "Department" },
+  { code: "NI-MD", name: "Madriz", type: "Department" },
+  { code: "NI-MN", name: "Managua", type: "Department" },
+  { code: "NI-MS", name: "Masaya", type: "Department" },
+  { code: "NI-MT", name: "Matagalpa", type: "Department" },
+  { code: "NI-NS", name: "Nueva Segovia", type: "Department" },
+  { code: "NI-RI", name: "Rivas", type: "Department" },
+  { code: "NI-SJ", name: "Río San Juan", type: "Department" },
+] as const;
@@ -0,0 +1,24 @@
+/**
+ * ISO 3166-2 subdivisions of Netherlands (NL), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const NL = [
+  { code: "NL-AW", name: "Aruba", type: "Country" },
+  { code: "NL-BQ1", name: "Bonaire", type: "Special municipality" },
+  { code: "NL-BQ2", name: "Saba", type: "Special municipality" },
+  { code: "NL-BQ3", name: "Sint Eustatius", type: "Special municipality" },
+  { code: "NL-CW", name: "Curaçao", type: "Country" },
+  { code: "NL-DR", name: "Drenthe", type: "Province" },
+  { code: "NL-FL", name: "Flevoland", type: "Province" },
+  { code: "NL-FR", name: "Fryslân", type: "Province" },
+  { code: "NL-GE", name: "Gelderland", type: "Province" },
+  { code: "NL-GR", name: "Groningen", type: "Province" },
+  { code: "NL-LI", name: "Limburg", type: "Province" },
+  { code: "NL-NB", name: "Noord-Brabant", type: "Province" },
+  { code: "NL-NH", name: "Noord-Holland", type: "Province" },
+  { code: "NL-OV", name: "Overijssel", type: "Province" },
+  { code: "NL-SX", name: "Sint Maarten", type: "Country" },
+  { code: "NL-UT", name: "Utrecht", type: "Province" },
+  { code: "NL-ZE", name: "Zeeland", type: "Province" },
+  { code: "NL-ZH", name: "Zuid-Holland", type: "Province" },
+] as const;
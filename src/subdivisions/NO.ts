@@ -0,0 +1,19 @@
+/**
+ * ISO 3166-2 subdivisions of Norway (NO), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const NO = [
+  { code: "NO-03", name: "Oslo", type: "County" },
+  { code: "NO-11", name: "Rogaland", type: "County" },
+  { code: "NO-15", name: "Møre og Romsdal", type: "County" },
+  { code: "NO-18", name: "Nordland", type: "County" },
+  { code: "NO-21", name: "Svalbard (Arctic Region)", type: "Arctic region" },
+  { code: "NO-22", name: "Jan Mayen (Arctic Region)", type: "Arctic region" },
+  { code: "NO-30", name: "Viken", type: "County" },
+  { code: "NO-34", name: "Innlandet", type: "County" },
+  { code: "NO-38", name: "Vestfold og Telemark", type: "County" },
+  { code: "NO-42", name: "Agder", type: "County" },
+  { code: "NO-46", name: "Vestland", type: "County" },
+  { code: "NO-50", name: "Trööndelage", type: "County" },
+  { code: "NO-54", name: "Romssa ja Finnmárkku", type: "County" },
+] as const;
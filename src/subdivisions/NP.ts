@@ -0,0 +1,32 @@
+/**
+ * ISO 3166-2 subdivisions of Nepal (NP), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const NP = [
+  { code: "NP-1", name: "Central", type: "Development region" },
+  { code: "NP-2", name: "Mid Western", type: "Development region" },
+  { code: "NP-3", name: "Western", type: "Development region" },
+  { code: "NP-4", name: "Eastern", type: "Development region" },
+  { code: "NP-5", name: "Far Western", type: "Development region" },
+  { code: "NP-BA", name: "Bagmati", type: "Zone", parent: "NP-1" },
+  { code: "NP-BH", name: "Bheri", type: "Zone", parent: "NP-2" },
+  { code: "NP-DH", name: "Dhawalagiri", type: "Zone", parent: "NP-3" },
+  { code: "NP-GA", name: "Gandaki", type: "Zone", parent: "NP-3" },
+  { code: "NP-JA", name: "Janakpur", type: "Zone", parent: "NP-1" },
+  { code: "NP-KA", name: "Karnali", type: "Zone", parent: "NP-2" },
+  { code: "NP-KO", name: "Kosi", type: "Zone", parent: "NP-4" },
+  { code: "NP-LU", name: "Lumbini", type: "Zone", parent: "NP-3" },
+  { code: "NP-MA", name: "Mahakali", type: "Zone", parent: "NP-5" },
+  { code: "NP-ME", name: "Mechi", type: "Zone", parent: "NP-4" },
+  { code: "NP-NA", name: "Narayani", type: "Zone", parent: "NP-1" },
+  { code: "NP-P1", name: "Province 1", type: "Province" },
+  { code: "NP-P2", name: "Province 2", type: "Province" },
+  { code: "NP-P3", name: "Bāgmatī", type: "Province" },
+  { code: "NP-P4", name: "Gandaki", type: "Province" },
+  { code: "NP-P5", name: "Province 5", type: "Province" },
+  { code: "NP-P6", name: "Karnali", type: "Province" },
+  { code: "NP-P7", name: "Sudūr Pashchim", type: "Province" },
+  { code: "NP-RA", name: "Rapti", type: "Zone", parent: "NP-2" },
+  { code: "NP-SA", name: "Sagarmatha", type: "Zone", parent: "NP-4" },
+  { code: "NP-SE", name: "Seti", type: "Zone", parent: "NP-5" },
+] as const;
@@ -0,0 +1,20 @@
+/**
+ * ISO 3166-2 subdivisions of Nauru (NR), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const NR = [
+  { code: "NR-01", name: "Aiwo", type: "District" },
+  { code: "NR-02", name: "Anabar", type: "District" },
+  { code: "NR-03", name: "Anetan", type: "District" },
+  { code: "NR-04", name: "Anibare", type: "District" },
+  { code: "NR-05", name: "Baitsi", type: "District" },
+  { code: "NR-06", name: "Boe", type: "District" },
+  { code: "NR-07", name: "Buada", type: "District" },
+  { code: "NR-08", name: "Denigomodu", type: "District" },
+  { code: "NR-09", name: "Ewa", type: "District" },
+  { code: "NR-10", name: "Ijuw", type: "District" },
+  { code: "NR-11", name: "Meneng", type: "District" },
+  { code: "NR-12", name: "Nibok", type: "District" },
+  { code: "NR-13", name: "Uaboe", type: "District" },
+  { code: "NR-14", name: "Yaren", type: "District" },
+] as const;
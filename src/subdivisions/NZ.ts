@@ -0,0 +1,27 @@
+/**
+ * ISO 3166-2 subdivisions of New Zealand (NZ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const NZ = [
+  { code: "NZ-AUK", name: "Auckland", type: "Region" },
+  { code: "NZ-BOP", name: "Bay of Plenty", type: "Region" },
+  { code: "NZ-CAN", name: "Canterbury", type: "Region" },
+  {
+    code: "NZ-CIT",
+    name: "Chatham Islands Territory",
+    type: "Special island authority",
+  },
+  { code: "NZ-GIS", name: "Gisborne", type: "Region" },
+  { code: "NZ-HKB", name: "Hawke's Bay", type: "Region" },
+  { code: "NZ-MBH", name: "Marlborough", type: "Region" },
+  { code: "NZ-MWT", name: "Manawatu-Wanganui", type: "Region" },
+  { code: "NZ-NSN", name: "Nelson", type: "Region" },
+  { code: "NZ-NTL", name: "Northland", type: "Region" },
+  { code: "NZ-OTA", name: "Otago", type: "Region" },
+  { code: "NZ-STL", name: "Southland", type: "Region" },
+  { code: "NZ-TAS", name: "Tasman", type: "Region" },
+  { code: "NZ-TKI", name: "Taranaki", type: "Region" },
+  { code: "NZ-WGN", name: "Wellington", type: "Region" },
+  { code: "NZ-WKO", name: "Waikato", type: "Region" },
+  { code: "NZ-WTC", name: "West Coast", type: "Region" },
+] as const;
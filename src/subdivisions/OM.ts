@@ -0,0 +1,17 @@
+/**
+ * ISO 3166-2 subdivisions of Oman (OM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const OM = [
+  { code: "OM-BJ", name: "Janūb al Bāţinah", type: "Governorate" },
+  { code: "OM-BS", name: "Shamāl al Bāţinah", type: "Governorate" },
+  { code: "OM-BU", name: "Al Buraymī", type: "Governorate" },
+  { code: "OM-DA", name: "Ad Dākhilīyah", type: "Governorate" },
+  { code: "OM-MA", name: "Masqaţ", type: "Governorate" },
+  { code: "OM-MU", name: "Musandam", type: "Governorate" },
+  { code: "OM-SJ", name: "Janūb ash Sharqīyah", type: "Governorate" },
+  { code: "OM-SS", name: "Shamāl ash Sharqīyah", type: "Governorate" },
+  { code: "OM-WU", name: "Al Wusţá", type: "Governorate" },
+  { code: "OM-ZA", name: "Az̧ Z̧āhirah", type: "Governorate" },
+  { code: "OM-ZU", name: "Z̧ufār", type: "Governorate" },
+] as const;
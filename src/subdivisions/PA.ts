@@ -0,0 +1,19 @@
+/**
+ * ISO 3166-2 subdivisions of Panama (PA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const PA = [
+  { code: "PA-1", name: "Bocas del Toro", type: "Province" },
+  { code: "PA-10", name: "Panamá Oeste", type: "Province" },
+  { code: "PA-2", name: "Coclé", type: "Province" },
+  { code: "PA-3", name: "Colón", type: "Province" },
+  { code: "PA-4", name: "Chiriquí", type: "Province" },
+  { code: "PA-5", name: "Darién", type: "Province" },
+  { code: "PA-6", name: "Herrera", type: "Province" },
+  { code: "PA-7", name: "Los Santos", type: "Province" },
+  { code: "PA-8", name: "Panamá", type: "Province" },
+  { code: "PA-9", name: "Veraguas", type: "Province" },
+  { code: "PA-EM", name: "Emberá", type: "Indigenous region" },
+  { code: "PA-KY", name: "Guna Yala", type: "Indigenous region" },
+  { code: "PA-NB", name: "Ngöbe-Buglé", type: "Indigenous region" },
+] as const;
@@ -0,0 +1,32 @@
+/**
+ * ISO 3166-2 subdivisions of Peru (PE), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const PE = [
+  { code: "PE-AMA", name: "Amarumayu", type: "Region" },
+  { code: "PE-ANC", name: "Ancash", type: "Region" },
+  { code: "PE-APU", name: "Apurimaq", type: "Region" },
+  { code: "PE-ARE", name: "Arequipa", type: "Region" },
+  { code: "PE-AYA", name: "Ayacucho", type: "Region" },
+  { code: "PE-CAJ", name: "Cajamarca", type: "Region" },
+  { code: "PE-CAL", name: "El Callao", type: "Region" },
+  { code: "PE-CUS", name: "Cusco", type: "Region" },
+  { code: "PE-HUC", name: "Huánuco", type: "Region" },
+  { code: "PE-HUV", name: "Huancavelica", type: "Region" },
+  { code: "PE-ICA", name: "Ica", type: "Region" },
+  { code: "PE-JUN", name: "Hunin", type: "Region" },
+  { code: "PE-LAL", name: "La Libertad", type: "Region" },
+  { code: "PE-LAM", name: "Lambayeque", type: "Region" },
+  { code: "PE-LIM", name: "Lima", type: "Region" },
+  { code: "PE-LMA", name: "Lima hatun llaqta", type: "Municipality" },
+  { code: "PE-LOR", name: "Loreto", type: "Region" },
+  { code: "PE-MDD", name: "Madre de Dios", type: "Region" },
+  { code: "PE-MOQ", name: "Moquegua", type: "Region" },
+  { code: "PE-PAS", name: "Pasco", type: "Region" },
+  { code: "PE-PIU", name: "Piura", type: "Region" },
+  { code: "PE-PUN", name: "Puno", type: "Region" },
+  { code: "PE-SAM", name: "San Martin", type: "Region" },
+  { code: "PE-TAC", name: "Tacna", type: "Region" },
+  { code: "PE-TUM", name: "Tumbes", type: "Region" },
+  { code: "PE-UCA", name: "Ucayali", type: "Region" },
+] as const;
@@ -0,0 +1,32 @@
+/**
+ * ISO 3166-2 subdivisions of Papua New Guinea (PG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const PG = [
+  { code: "PG-CPK", name: "Chimbu", type: "Province" },
+  { code: "PG-CPM", name: "Central", type: "Province" },
+  { code: "PG-EBR", name: "East New Britain", type: "Province" },
+  { code: "PG-EHG", name: "Eastern Highlands", type: "Province" },
+  { code: "PG-EPW", name: "Enga", type: "Province" },
+  { code: "PG-ESW", name: "East Sepik", type: "Province" },
+  { code: "PG-GPK", name: "Gulf", type: "Province" },
+  { code: "PG-HLA", name: "Hela", type: "Province" },
+  { code: "PG-JWK", name: "Jiwaka", type: "Province" },
+  { code: "PG-MBA", name: "Milne Bay", type: "Province" },
+  { code: "PG-MPL", name: "Morobe", type: "Province" },
+  { code: "PG-MPM", name: "Madang", type: "Province" },
+  { code: "PG-MRL", name: "Manus", type: "Province" },
+  {
+    code: "PG-NCD",
+    name: "National Capital District (Port Moresby)",
+    type: "District",
+  },
+  { code: "PG-NIK", name: "New Ireland", type: "Province" },
+  { code: "PG-NPP", name: "Northern", type: "Province" },
+  { code: "PG-NSB", name: "Bougainville", type: "Autonomous region" },
+  { code: "PG-SAN", name: "West Sepik", type: "Province" },
+  { code: "PG-SHM", name: "Southern Highlands", type: "Province" },
+  { code: "PG-WBK", name: "West New Britain", type: "Province" },
+  { code: "PG-WHM", name: "Western Highlands", type: "Province" },
+  { code: "PG-WPD", name: "Western", type: "Province" },
+] as const;
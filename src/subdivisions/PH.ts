@@ -0,0 +1,202 @@
+/**
+ * ISO 3166-2 subdivisions of Philippines (PH), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const PH = [
+  { code: "PH-00", name: "National Capital Region", type: "Region" },
+  { code: "PH-01", name: "Ilocos (Region I)", type: "Region" },
+  { code: "PH-02", name: "Cagayan Valley (Region II)", type: "Region" },
+  { code: "PH-03", name: "Central Luzon (Region III)", type: "Region" },
+  { code: "PH-05", name: "Bicol (Region V)", type: "Region" },
+  { code: "PH-06", name: "Western Visayas (Region VI)", type: "Region" },
+  { code: "PH-07", name: "Central Visayas (Region VII)", type: "Region" },
+  { code: "PH-08", name: "Eastern Visayas (Region VIII)", type: "Region" },
+  { code: "PH-09", name: "Zamboanga Peninsula (Region IX)", type: "Region" },
+  { code: "PH-10", name: "Northern Mindanao (Region X)", type: "Region" },
+  { code: "PH-11", name: "Davao (Region XI)", type: "Region" },
+  { code: "PH-12", name: "Soccsksargen (Region XII)", type: "Region" },
+  { code: "PH-13", name: "Caraga (Region XIII)", type: "Region" },
+  {
+    code: "PH-14",
+    name: "Autonomous Region in Muslim Mindanao (ARMM)",
+    type: "Region",
+  },
+  {
+    code: "PH-15",
+    name: "Cordillera Administrative Region (CAR)",
+    type: "Region",
+  },
+  { code: "PH-40", name: "Calabarzon (Region IV-A)", type: "Region" },
+  { code: "PH-41", name: "Mimaropa (Region IV-B)", type: "Region" },
+  { code: "PH-ABR", name: "Abra", type: "Province", parent: "PH-15" },
+  {
+    code: "PH-AGN",
+    name: "Agusan del Norte",
+    type: "Province",
+    parent: "PH-13",
+  },
+  { code: "PH-AGS", name: "Agusan del Sur", type: "Province", parent: "PH-13" },
+  { code: "PH-AKL", name: "Aklan", type: "Province", parent: "PH-06" },
+  { code: "PH-ALB", name: "Albay", type: "Province", parent: "PH-05" },
+  { code: "PH-ANT", name: "Antique", type: "Province", parent: "PH-06" },
+  { code: "PH-APA", name: "Apayao", type: "Province", parent: "PH-15" },
+  { code: "PH-AUR", name: "Aurora", type: "Province", parent: "PH-03" },
+  { code: "PH-BAN", name: "Bataan", type: "Province", parent: "PH-03" },
+  { code: "PH-BAS", name: "Basilan", type: "Province", parent: "PH-09" },
+  { code: "PH-BEN", name: "Benguet", type: "Province", parent: "PH-15" },
+  { code: "PH-BIL", name: "Biliran", type: "Province", parent: "PH-08" },
+  { code: "PH-BOH", name: "Bohol", type: "Province", parent: "PH-07" },
+  { code: "PH-BTG", name: "Batangas", type: "Province", parent: "PH-40" },
+  { code: "PH-BTN", name: "Batanes", type: "Province", parent: "PH-02" },
+  { code: "PH-BUK", name: "Bukidnon", type: "Province", parent: "PH-10" },
+  { code: "PH-BUL", name: "Bulacan", type: "Province", parent: "PH-03" },
+  { code: "PH-CAG", name: "Cagayan", type: "Province", parent: "PH-02" },
+  { code: "PH-CAM", name: "Camiguin", type: "Province", parent: "PH-10" },
+  {
+    code: "PH-CAN",
+    name: "Camarines Norte",
+    type: "Province",
+    parent: "PH-05",
+  },
+  { code: "PH-CAP", name: "Capiz", type: "Province", parent: "PH-06" },
+  { code: "PH-CAS", name: "Camarines Sur", type: "Province", parent: "PH-05" },
+  { code: "PH-CAT", name: "Catanduanes", type: "Province", parent: "PH-05" },
+  { code: "PH-CAV", name: "Cavite", type: "Province", parent: "PH-40" },
+  { code: "PH-CEB", name: "Cebu", type: "Province", parent: "PH-07" },
+  { code: "PH-COM", name: "Davao de Oro", type: "Province", parent: "PH-11" },
+  { code: "PH-DAO", name: "Davao Oriental", type: "Province", parent: "PH-11" },
+  { code: "PH-DAS", name: "Davao del Sur", type: "Province", parent: "PH-11" },
+  {
+    code: "PH-DAV",
+    name: "Davao del Norte",
+    type: "Province",
+    parent: "PH-11",
+  },
+  {
+    code: "PH-DIN",
+    name: "Dinagat Islands",
+    type: "Province",
+    parent: "PH-13",
+  },
+  {
+    code: "PH-DVO",
+    name: "Davao Occidental",
+    type: "Province",
+    parent: "PH-11",
+  },
+  { code: "PH-EAS", name: "Eastern Samar", type: "Province", parent: "PH-08" },
+  { code: "PH-GUI", name: "Guimaras", type: "Province", parent: "PH-06" },
+  { code: "PH-IFU", name: "Ifugao", type: "Province", parent: "PH-15" },
+  { code: "PH-ILI", name: "Iloilo", type: "Province", parent: "PH-06" },
+  { code: "PH-ILN", name: "Ilocos Norte", type: "Province", parent: "PH-01" },
+  { code: "PH-ILS", name: "Ilocos Sur", type: "Province", parent: "PH-01" },
+  { code: "PH-ISA", name: "Isabela", type: "Province", parent: "PH-02" },
+  { code: "PH-KAL", name: "Kalinga", type: "Province", parent: "PH-15" },
+  { code: "PH-LAG", name: "Laguna", type: "Province", parent: "PH-40" },
+  {
+    code: "PH-LAN",
+    name: "Lanao del Norte",
+    type: "Province",
+    parent: "PH-12",
+  },
+  { code: "PH-LAS", name: "Lanao del Sur", type: "Province", parent: "PH-14" },
+  { code: "PH-LEY", name: "Leyte", type: "Province", parent: "PH-08" },
+  { code: "PH-LUN", name: "La Union", type: "Province", parent: "PH-01" },
+  { code: "PH-MAD", name: "Marinduque", type: "Province", parent: "PH-41" },
+  { code: "PH-MAG", name: "Maguindanao", type: "Province", parent: "PH-14" },
+  { code: "PH-MAS", name: "Masbate", type: "Province", parent: "PH-05" },
+  {
+    code: "PH-MDC",
+    name: "Mindoro Occidental",
+    type: "Province",
+    parent: "PH-41",
+  },
+  {
+    code: "PH-MDR",
+    name: "Mindoro Oriental",
+    type: "Province",
+    parent: "PH-41",
+  },
+  {
+    code: "PH-MOU",
+    name: "Mountain Province",
+    type: "Province",
+    parent: "PH-15",
+  },
+  {
+    code: "PH-MSC",
+    name: "Misamis Occidental",
+    type: "Province",
+    parent: "PH-10",
+  },
+  {
+    code: "PH-MSR",
+    name: "Misamis Oriental",
+    type: "Province",
+    parent: "PH-10",
+  },
+  { code: "PH-NCO", name: "Cotabato", type: "Province", parent: "PH-12" },
+  {
+    code: "PH-NEC",
+    name: "Negros Occidental",
+    type: "Province",
+    parent: "PH-06",
+  },
+  {
+    code: "PH-NER",
+    name: "Negros Oriental",
+    type: "Province",
+    parent: "PH-07",
+  },
+  { code: "PH-NSA", name: "Northern Samar", type: "Province", parent: "PH-08" },
+  { code: "PH-NUE", name: "Nueva Ecija", type: "Province", parent: "PH-03" },
+  { code: "PH-NUV", name: "Nueva Vizcaya", type: "Province", parent: "PH-02" },
+  { code: "PH-PAM", name: "Pampanga", type: "Province", parent: "PH-03" },
+  { code: "PH-PAN", name: "Pangasinan", type: "Province", parent: "PH-01" },
+  { code: "PH-PLW", name: "Palawan", type: "Province", parent: "PH-41" },
+  { code: "PH-QUE", name: "Quezon", type: "Province", parent: "PH-40" },
+  { code: "PH-QUI", name: "Quirino", type: "Province", parent: "PH-02" },
+  { code: "PH-RIZ", name: "Rizal", type: "Province", parent: "PH-40" },
+  { code: "PH-ROM", name: "Romblon", type: "Province", parent: "PH-41" },
+  { code: "PH-SAR", name: "Sarangani", type: "Province", parent: "PH-11" },
+  { code: "PH-SCO", name: "South Cotabato", type: "Province", parent: "PH-11" },
+  { code: "PH-SIG", name: "Siquijor", type: "Province", parent: "PH-07" },
+  { code: "PH-SLE", name: "Southern Leyte", type: "Province", parent: "PH-08" },
+  { code: "PH-SLU", name: "Sulu", type: "Province", parent: "PH-14" },
+  { code: "PH-SOR", name: "Sorsogon", type: "Province", parent: "PH-05" },
+  { code: "PH-SUK", name: "Sultan Kudarat", type: "Province", parent: "PH-12" },
+  {
+    code: "PH-SUN",
+    name: "Surigao del Norte",
+    type: "Province",
+    parent: "PH-13",
+  },
+  {
+    code: "PH-SUR",
+    name: "Surigao del Sur",
+    type: "Province",
+    parent: "PH-13",
+  },
+  { code: "PH-TAR", name: "Tarlac", type: "Province", parent: "PH-03" },
+  { code: "PH-TAW", name: "Tawi-Tawi", type: "Province", parent: "PH-14" },
+  { code: "PH-WSA", name: "Samar", type: "Province", parent: "PH-08" },
+  {
+    code: "PH-ZAN",
+    name: "Zamboanga del Norte",
+    type: "Province",
+    parent: "PH-09",
+  },
+  {
+    code: "PH-ZAS",
+    name: "Zamboanga del Sur",
+    type: "Province",
+    parent: "PH-09",
+  },
+  { code: "PH-ZMB", name: "Zambales", type: "Province", parent: "PH-03" },
+  {
+    code: "PH-ZSI",
+    name: "Zamboanga Sibugay",
+    type: "Province",
+    parent: "PH-09",
+  },
+] as const;
@@ -0,0 +1,21 @@
+/**
+ * ISO 3166-2 subdivisions of Pakistan (PK), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const PK = [
+  { code: "PK-BA", name: "Balochistan", type: "Province" },
+  {
+    code: "PK-GB",
+    name: "Gilgit-Baltistan",
+    type: "Pakistan administered area",
+  },
+  { code: "PK-IS", name: "Islamabad", type: "Federal capital territory" },
+  {
+    code: "PK-JK",
+    name: "Azad Jammu and Kashmir",
+    type: "Pakistan administered area",
+  },
+  { code: "PK-KP", name: "Khyber Pakhtunkhwa", type: "Province" },
+  { code: "PK-PB", name: "Punjab", type: "Province" },
+  { code: "PK-SD", name: "Sindh", type: "Province" },
+] as const;
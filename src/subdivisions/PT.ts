@@ -0,0 +1,34 @@
+/**
+ * ISO 3166-2 subdivisions of Portugal (PT), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const PT = [
+  { code: "PT-01", name: "Aveiro", type: "District" },
+  { code: "PT-02", name: "Beja", type: "District" },
+  { code: "PT-03", name: "Braga", type: "District" },
+  { code: "PT-04", name: "Bragança", type: "District" },
+  { code: "PT-05", name: "Castelo Branco", type: "District" },
+  { code: "PT-06", name: "Coimbra", type: "District" },
+  { code: "PT-07", name: "Évora", type: "District" },
+  { code: "PT-08", name: "Faro", type: "District" },
+  { code: "PT-09", name: "Guarda", type: "District" },
+  { code: "PT-10", name: "Leiria", type: "District" },
+  { code: "PT-11", name: "Lisboa", type: "District" },
+  { code: "PT-12", name: "Portalegre", type: "District" },
+  { code: "PT-13", name: "Porto", type: "District" },
+  { code: "PT-14", name: "Santarém", type: "District" },
+  { code: "PT-15", name: "Setúbal", type: "District" },
+  { code: "PT-16", name: "Viana do Castelo", type: "District" },
+  { code: "PT-17", name: "Vila Real", type: "District" },
+  { code: "PT-18", name: "Viseu", type: "District" },
+  {
+    code: "PT-20",
+    name: "Região Autónoma dos Açores",
+    type: "Autonomous region",
+  },
+  {
+    code: "PT-30",
+    name: "Região Autónoma da Madeira",
+    type: "Autonomous region",
+  },
+] as const;
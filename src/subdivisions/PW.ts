@@ -0,0 +1,22 @@
+/**
+ * ISO 3166-2 subdivisions of Palau (PW), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const PW = [
+  { code: "PW-002", name: "Aimeliik", type: "State" },
+  { code: "PW-004", name: "Airai", type: "State" },
+  { code: "PW-010", name: "Angaur", type: "State" },
+  { code: "PW-050", name: "Hatohobei", type: "State" },
+  { code: "PW-100", name: "Kayangel", type: "State" },
+  { code: "PW-150", name: "Koror", type: "State" },
+  { code: "PW-212", name: "Melekeok", type: "State" },
+  { code: "PW-214", name: "Ngaraard", type: "State" },
+  { code: "PW-218", name: "Ngarchelong", type: "State" },
+  { code: "PW-222", name: "Ngardmau", type: "State" },
+  { code: "PW-224", name: "Ngatpang", type: "State" },
+  { code: "PW-226", name: "Ngchesar", type: "State" },
+  { code: "PW-227", name: "Ngeremlengui", type: "State" },
+  { code: "PW-228", name: "Ngiwal", type: "State" },
+  { code: "PW-350", name: "Peleliu", type: "State" },
+  { code: "PW-370", name: "Sonsorol", type: "State" },
+] as const;
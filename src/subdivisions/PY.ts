@@ -0,0 +1,24 @@
+/**
+ * ISO 3166-2 subdivisions of Paraguay (PY), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const PY = [
+  { code: "PY-1", name: "Concepción", type: "Department" },
+  { code: "PY-10", name: "Alto Paraná", type: "Department" },
+  { code: "PY-11", name: "Central", type: "Department" },
+  { code: "PY-12", name: "Ñeembucú", type: "Department" },
+  { code: "PY-13", name: "Amambay", type: "Department" },
+  { code: "PY-14", name: "Canindeyú", type: "Department" },
+  { code: "PY-15", name: "Presidente Hayes", type: "Department" },
+  { code: "PY-16", name: "Alto Paraguay", type: "Department" },
+  { code: "PY-19", name: "Boquerón", type: "Department" },
+  { code: "PY-2", name: "San Pedro", type: "Department" },
+  { code: "PY-3", name: "Cordillera", type: "Department" },
+  { code: "PY-4", name: "Guairá", type: "Department" },
+  { code: "PY-5", name: "Caaguazú", type: "Department" },
+  { code: "PY-6", name: "Caazapá", type: "Department" },
+  { code: "PY-7", name: "Itapúa", type: "Department" },
+  { code: "PY-8", name: "Misiones", type: "Department" },
+  { code: "PY-9", name: "Paraguarí", type: "Department" },
+  { code: "PY-ASU", name: "Asunción", type: "Capital" },
+] as const;
@@ -0,0 +1,14 @@
+/**
+ * ISO 3166-2 subdivisions of Qatar (QA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const QA = [
+  { code: "QA-DA", name: "Ad Dawḩah", type: "Municipality" },
+  { code: "QA-KH", name: "Al Khawr wa adh Dhakhīrah", type: "Municipality" },
+  { code: "QA-MS", name: "Ash Shamāl", type: "Municipality" },
+  { code: "QA-RA", name: "Ar Rayyān", type: "Municipality" },
+  { code: "QA-SH", name: "Ash Shīḩānīyah", type: "Municipality" },
+  { code: "QA-US", name: "Umm Şalāl", type: "Municipality" },
+  { code: "QA-WA", name: "Al Wakrah", type: "Municipality" },
+  { code: "QA-ZA", name: "Az̧ Z̧a‘āyin", type: "Municipality" },
+] as const;
@@ -0,0 +1,83 @@
+/**
+ * ISO 3166-2 subdivisions of Serbia (RS), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const RS = [
+  { code: "RS-00", name: "Beograd", type: "City" },
+  {
+    code: "RS-01",
+    name: "Severnobački okrug",
+    type: "District",
+    parent: "RS-VO",
+  },
+  {
+    code: "RS-02",
+    name: "Srednjebanatski okrug",
+    type: "District",
+    parent: "RS-VO",
+  },
+  {
+    code: "RS-03",
+    name: "Severnobanatski okrug",
+    type: "District",
+    parent: "RS-VO",
+  },
+  {
+    code: "RS-04",
+    name: "Južnobanatski okrug",
+    type: "District",
+    parent: "RS-VO",
+  },
+  {
+    code: "RS-05",
+    name: "Zapadnobački okrug",
+    type: "District",
+    parent: "RS-VO",
+  },
+  {
+    code: "RS-06",
+    name: "Južnobački okrug",
+    type: "District",
+    parent: "RS-VO",
+  },
+  { code: "RS-07", name: "Sremski okrug", type: "District", parent: "RS-VO" },
+  { code: "RS-08", name: "Mačvanski okrug", type: "District" },
+  { code: "RS-09", name: "Kolubarski okrug", type: "District" },
+  { code: "RS-10", name: "Podunavski okrug", type: "District" },
+  { code: "RS-11", name: "Braničevski okrug", type: "District" },
+  { code: "RS-12", name: "Šumadijski okrug", type: "District" },
+  { code: "RS-13", name: "Pomoravski okrug", type: "District" },
+  { code: "RS-14", name: "Borski okrug", type: "District" },
+  { code: "RS-15", name: "Zaječarski okrug", type: "District" },
+  { code: "RS-16", name: "Zlatiborski okrug", type: "District" },
+  { code: "RS-17", name: "Moravički okrug", type: "District" },
+  { code: "RS-18", name: "Raški okrug", type: "District" },
+  { code: "RS-19", name: "Rasinski okrug", type: "District" },
+  { code: "RS-20", name: "Nišavski okrug", type: "District" },
+  { code: "RS-21", name: "Toplički okrug", type: "District" },
+  { code: "RS-22", name: "Pirotski okrug", type: "District" },
+  { code: "RS-23", name: "Jablanički okrug", type: "District" },
+  { code: "RS-24", name: "Pčinjski okrug", type: "District" },
+  { code: "RS-25", name: "Kosovski okrug", type: "District", parent: "RS-KM" },
+  { code: "RS-26", name: "Pećki okrug", type: "District", parent: "RS-KM" },
+  {
+    code: "RS-27",
+    name: "Prizrenski okrug",
+    type: "District",
+    parent: "RS-KM",
+  },
+  {
+    code: "RS-28",
+    name: "Kosovsko-Mitrovački okrug",
+    type: "District",
+    parent: "RS-KM",
+  },
+  {
+    code: "RS-29",
+    name: "Kosovsko-Pomoravski okrug",
+    type: "District",
+    parent: "RS-KM",
+  },
+  { code: "RS-KM", name: "Kosovo-Metohija", type: "Autonomous province" },
+  { code: "RS-VO", name: "Vojvodina", type: "Autonomous province" },
+] as const;
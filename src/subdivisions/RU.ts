@@ -0,0 +1,269 @@
+/**
+ * ISO 3166-2 subdivisions of Russia (RU), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const RU = [
+  { code: "RU-AD", name: "Adygeja, Respublika", type: "Republic" },
+  { code: "RU-AL", name: "Altaj, Respublika", type: "Republic" },
+  { code: "RU-ALT", name: "Altajskij kraj", type: "Administrative territory" },
+  { code: "RU-AMU", name: "Amurskaja oblast'", type: "Administrative region" },
+  {
+    code: "RU-ARK",
+    name: "Arhangel'skaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-AST",
+    name: "Astrahanskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-BA", name: "Bashkortostan, Respublika", type: "Republic" },
+  {
+    code: "RU-BEL",
+    name: "Belgorodskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-BRY", name: "Brjanskaja oblast'", type: "Administrative region" },
+  { code: "RU-BU", name: "Burjatija, Respublika", type: "Republic" },
+  { code: "RU-CE", name: "Chechenskaya Respublika", type: "Republic" },
+  {
+    code: "RU-CHE",
+    name: "Chelyabinskaya oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-CHU",
+    name: "Chukotskiy avtonomnyy okrug",
+    type: "Autonomous district",
+  },
+  { code: "RU-CU", name: "Chuvashskaya Respublika", type: "Republic" },
+  { code: "RU-DA", name: "Dagestan, Respublika", type: "Republic" },
+  { code: "RU-IN", name: "Ingushetiya, Respublika", type: "Republic" },
+  { code: "RU-IRK", name: "Irkutskaja oblast'", type: "Administrative region" },
+  {
+    code: "RU-IVA",
+    name: "Ivanovskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-KAM",
+    name: "Kamchatskiy kray",
+    type: "Administrative territory",
+  },
+  { code: "RU-KB", name: "Kabardino-Balkarskaja Respublika", type: "Republic" },
+  {
+    code: "RU-KC",
+    name: "Karachayevo-Cherkesskaya Respublika",
+    type: "Republic",
+  },
+  {
+    code: "RU-KDA",
+    name: "Krasnodarskij kraj",
+    type: "Administrative territory",
+  },
+  {
+    code: "RU-KEM",
+    name: "Kemerovskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-KGD",
+    name: "Kaliningradskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-KGN",
+    name: "Kurganskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-KHA",
+    name: "Habarovskij kraj",
+    type: "Administrative territory",
+  },
+  {
+    code: "RU-KHM",
+    name: "Hanty-Mansijskij avtonomnyj okrug",
+    type: "Autonomous district",
+  },
+  { code: "RU-KIR", name: "Kirovskaja oblast'", type: "Administrative region" },
+  { code: "RU-KK", name: "Hakasija, Respublika", type: "Republic" },
+  { code: "RU-KL", name: "Kalmykija, Respublika", type: "Republic" },
+  {
+    code: "RU-KLU",
+    name: "Kaluzhskaya oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-KO", name: "Komi, Respublika", type: "Republic" },
+  {
+    code: "RU-KOS",
+    name: "Kostromskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-KR", name: "Karelija, Respublika", type: "Republic" },
+  { code: "RU-KRS", name: "Kurskaja oblast'", type: "Administrative region" },
+  {
+    code: "RU-KYA",
+    name: "Krasnojarskij kraj",
+    type: "Administrative territory",
+  },
+  {
+    code: "RU-LEN",
+    name: "Leningradskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-LIP", name: "Lipeckaja oblast'", type: "Administrative region" },
+  {
+    code: "RU-MAG",
+    name: "Magadanskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-ME", name: "Marij Èl, Respublika", type: "Republic" },
+  { code: "RU-MO", name: "Mordovija, Respublika", type: "Republic" },
+  {
+    code: "RU-MOS",
+    name: "Moskovskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-MOW", name: "Moskva", type: "Autonomous city" },
+  {
+    code: "RU-MUR",
+    name: "Murmanskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-NEN",
+    name: "Neneckij avtonomnyj okrug",
+    type: "Autonomous district",
+  },
+  {
+    code: "RU-NGR",
+    name: "Novgorodskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-NIZ",
+    name: "Nizhegorodskaya oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-NVS",
+    name: "Novosibirskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-OMS", name: "Omskaja oblast'", type: "Administrative region" },
+  {
+    code: "RU-ORE",
+    name: "Orenburgskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-ORL", name: "Orlovskaja oblast'", type: "Administrative region" },
+  { code: "RU-PER", name: "Permskij kraj", type: "Administrative territory" },
+  {
+    code: "RU-PNZ",
+    name: "Penzenskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-PRI", name: "Primorskij kraj", type: "Administrative territory" },
+  { code: "RU-PSK", name: "Pskovskaja oblast'", type: "Administrative region" },
+  {
+    code: "RU-ROS",
+    name: "Rostovskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-RYA",
+    name: "Rjazanskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-SA", name: "Saha, Respublika", type: "Republic" },
+  {
+    code: "RU-SAK",
+    name: "Sahalinskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-SAM", name: "Samarskaja oblast'", type: "Administrative region" },
+  {
+    code: "RU-SAR",
+    name: "Saratovskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-SE", name: "Severnaja Osetija, Respublika", type: "Republic" },
+  {
+    code: "RU-SMO",
+    name: "Smolenskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-SPE", name: "Sankt-Peterburg", type: "Autonomous city" },
+  {
+    code: "RU-STA",
+    name: "Stavropol'skij kraj",
+    type: "Administrative territory",
+  },
+  {
+    code: "RU-SVE",
+    name: "Sverdlovskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-TA", name: "Tatarstan, Respublika", type: "Republic" },
+  {
+    code: "RU-TAM",
+    name: "Tambovskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-TOM", name: "Tomskaja oblast'", type: "Administrative region" },
+  { code: "RU-TUL", name: "Tul'skaja oblast'", type: "Administrative region" },
+  { code: "RU-TVE", name: "Tverskaja oblast'", type: "Administrative region" },
+  { code: "RU-TY", name: "Tyva, Respublika", type: "Republic" },
+  {
+    code: "RU-TYU",
+    name: "Tjumenskaja oblast'",
+    type: "Administrative region",
+  },
+  { code: "RU-UD", name: "Udmurtskaja Respublika", type: "Republic" },
+  {
+    code: "RU-ULY",
+    name: "Ul'janovskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-VGG",
+    name: "Volgogradskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-VLA",
+    name: "Vladimirskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-VLG",
+    name: "Vologodskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-VOR",
+    name: "Voronezhskaya oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-YAN",
+    name: "Jamalo-Neneckij avtonomnyj okrug",
+    type: "Autonomous district",
+  },
+  {
+    code: "RU-YAR",
+    name: "Jaroslavskaja oblast'",
+    type: "Administrative region",
+  },
+  {
+    code: "RU-YEV",
+    name: "Evrejskaja avtonomnaja oblast'",
+    type: "Autonomous region",
+  },
+  {
+    code: "RU-ZAB",
+    name: "Zabajkal'skij kraj",
+    type: "Administrative territory",
+  },
+] as const;
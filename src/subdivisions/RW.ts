@@ -0,0 +1,11 @@
+/**
+ * ISO 3166-2 subdivisions of Rwanda (RW), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const RW = [
+  { code: "RW-01", name: "City of Kigali", type: "City" },
+  { code: "RW-02", name: "Eastern", type: "Province" },
+  { code: "RW-03", name: "Northern", type: "Province" },
+  { code: "RW-04", name: "Western", type: "Province" },
+  { code: "RW-05", name: "Southern", type: "Province" },
+] as const;
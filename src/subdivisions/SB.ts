@@ -0,0 +1,20 @@
+/**
+ * ISO 3166-2 subdivisions of Solomon Islands (SB), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SB = [
+  { code: "SB-CE", name: "Central", type: "Province" },
+  { code: "SB-CH", name: "Choiseul", type: "Province" },
+  {
+    code: "SB-CT",
+    name: "Capital Territory (Honiara)",
+    type: "Capital territory",
+  },
+  { code: "SB-GU", name: "Guadalcanal", type: "Province" },
+  { code: "SB-IS", name: "Isabel", type: "Province" },
+  { code: "SB-MK", name: "Makira-Ulawa", type: "Province" },
+  { code: "SB-ML", name: "Malaita", type: "Province" },
+  { code: "SB-RB", name: "Rennell and Bellona", type: "Province" },
+  { code: "SB-TE", name: "Temotu", type: "Province" },
+  { code: "SB-WE", name: "Western", type: "Province" },
+] as const;
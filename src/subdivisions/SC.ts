@@ -0,0 +1,33 @@
+/**
+ * ISO 3166-2 subdivisions of Seychelles (SC), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SC = [
+  { code: "SC-01", name: "Anse aux Pins", type: "District" },
+  { code: "SC-02", name: "Anse Boileau", type: "District" },
+  { code: "SC-03", name: "Anse Etoile", type: "District" },
+  { code: "SC-04", name: "Au Cap", type: "District" },
+  { code: "SC-05", name: "Anse Royale", type: "District" },
+  { code: "SC-06", name: "Baie Lazare", type: "District" },
+  { code: "SC-07", name: "Baie Sainte Anne", type: "District" },
+  { code: "SC-08", name: "Beau Vallon", type: "District" },
+  { code: "SC-09", name: "Bel Air", type: "District" },
+  { code: "SC-10", name: "Bel Ombre", type: "District" },
+  { code: "SC-11", name: "Cascade", type: "District" },
+  { code: "SC-12", name: "Glacis", type: "District" },
+  { code: "SC-13", name: "Grand Anse Mahe", type: "District" },
+  { code: "SC-14", name: "Grand Anse Praslin", type: "District" },
+  { code: "SC-15", name: "La Digue", type: "District" },
+  { code: "SC-16", name: "English River", type: "District" },
+  { code: "SC-17", name: "Mont Buxton", type: "District" },
+  { code: "SC-18", name: "Mont Fleuri", type: "District" },
+  { code: "SC-19", name: "Plaisance", type: "District" },
+  { code: "SC-20", name: "Pointe Larue", type: "District" },
+  { code: "SC-21", name: "Port Glaud", type: "District" },
+  { code: "SC-22", name: "Saint Louis", type: "District" },
+  { code: "SC-23", name: "Takamaka", type: "District" },
+  { code: "SC-24", name: "Les Mamelles", type: "District" },
+  { code: "SC-25", name: "Roche Caiman", type: "District" },
+  { code: "SC-26", name: "Ile Perseverance I", type: "District" },
+  { code: "SC-27", name: "Ile Perseverance II", type: "District" },
+] as const;
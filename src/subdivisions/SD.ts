@@ -0,0 +1,24 @@
+/**
+ * ISO 3166-2 subdivisions of Sudan (SD), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SD = [
+  { code: "SD-DC", name: "Central Darfur", type: "State" },
+  { code: "SD-DE", name: "East Darfur", type: "State" },
+  { code: "SD-DN", name: "North Darfur", type: "State" },
+  { code: "SD-DS", name: "South Darfur", type: "State" },
+  { code: "SD-DW", name: "West Darfur", type: "State" },
+  { code: "SD-GD", name: "Gedaref", type: "State" },
+  { code: "SD-GK", name: "West Kordofan", type: "State" },
+  { code: "SD-GZ", name: "Gezira", type: "State" },
+  { code: "SD-KA", name: "Kassala", type: "State" },
+  { code: "SD-KH", name: "Khartoum", type: "State" },
+  { code: "SD-KN", name: "North Kordofan", type: "State" },
+  { code: "SD-KS", name: "South Kordofan", type: "State" },
+  { code: "SD-NB", name: "Blue Nile", type: "State" },
+  { code: "SD-NO", name: "Northern", type: "State" },
+  { code: "SD-NR", name: "River Nile", type: "State" },
+  { code: "SD-NW", name: "White Nile", type: "State" },
+  { code: "SD-RS", name: "Red Sea", type: "State" },
+  { code: "SD-SI", name: "Sennar", type: "State" },
+] as const;
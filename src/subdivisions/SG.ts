@@ -0,0 +1,11 @@
+/**
+ * ISO 3166-2 subdivisions of Singapore (SG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SG = [
+  { code: "SG-01", name: "Central Singapore", type: "District" },
+  { code: "SG-02", name: "North East", type: "District" },
+  { code: "SG-03", name: "North West", type: "District" },
+  { code: "SG-04", name: "South East", type: "District" },
+  { code: "SG-05", name: "South West", type: "District" },
+] as const;
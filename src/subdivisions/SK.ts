@@ -0,0 +1,14 @@
+/**
+ * ISO 3166-2 subdivisions of Slovakia (SK), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SK = [
+  { code: "SK-BC", name: "Banskobystrický kraj", type: "Region" },
+  { code: "SK-BL", name: "Bratislavský kraj", type: "Region" },
+  { code: "SK-KI", name: "Košický kraj", type: "Region" },
+  { code: "SK-NI", name: "Nitriansky kraj", type: "Region" },
+  { code: "SK-PV", name: "Prešovský kraj", type: "Region" },
+  { code: "SK-TA", name: "Trnavský kraj", type: "Region" },
+  { code: "SK-TC", name: "Trenčiansky kraj", type: "Region" },
+  { code: "SK-ZI", name: "Žilinský kraj", type: "Region" },
+] as const;
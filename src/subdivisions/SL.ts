@@ -0,0 +1,11 @@
+/**
+ * ISO 3166-2 subdivisions of Sierra Leone (SL), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SL = [
+  { code: "SL-E", name: "Eastern", type: "Province" },
+  { code: "SL-N", name: "Northern", type: "Province" },
+  { code: "SL-NW", name: "North Western", type: "Province" },
+  { code: "SL-S", name: "Southern", type: "Province" },
+  { code: "SL-W", name: "Western Area (Freetown)", type: "Area" },
+] as const;
@@ -0,0 +1,15 @@
+/**
+ * ISO 3166-2 subdivisions of San Marino (SM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SM = [
+  { code: "SM-01", name: "Acquaviva", type: "Municipality" },
+  { code: "SM-02", name: "Chiesanuova", type: "Municipality" },
+  { code: "SM-03", name: "Domagnano", type: "Municipality" },
+  { code: "SM-04", name: "Faetano", type: "Municipality" },
+  { code: "SM-05", name: "Fiorentino", type: "Municipality" },
+  { code: "SM-06", name: "Borgo Maggiore", type: "Municipality" },
+  { code: "SM-07", name: "Città di San Marino", type: "Municipality" },
+  { code: "SM-08", name: "Montegiardino", type: "Municipality" },
+  { code: "SM-09", name: "Serravalle", type: "Municipality" },
+] as const;
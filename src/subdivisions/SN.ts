@@ -0,0 +1,20 @@
+/**
+ * ISO 3166-2 subdivisions of Senegal (SN), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SN = [
+  { code: "SN-DB", name: "Diourbel", type: "Region" },
+  { code: "SN-DK", name: "Dakar", type: "Region" },
+  { code: "SN-FK", name: "Fatick", type: "Region" },
+  { code: "SN-KA", name: "Kaffrine", type: "Region" },
+  { code: "SN-KD", name: "Kolda", type: "Region" },
+  { code: "SN-KE", name: "Kédougou", type: "Region" },
+  { code: "SN-KL", name: "Kaolack", type: "Region" },
+  { code: "SN-LG", name: "Louga", type: "Region" },
+  { code: "SN-MT", name: "Matam", type: "Region" },
+  { code: "SN-SE", name: "Sédhiou", type: "Region" },
+  { code: "SN-SL", name: "Saint-Louis", type: "Region" },
+  { code: "SN-TC", name: "Tambacounda", type: "Region" },
+  { code: "SN-TH", name: "Thiès", type: "Region" },
+  { code: "SN-ZG", name: "Ziguinchor", type: "Region" },
+] as const;
@@ -0,0 +1,24 @@
+/**
+ * ISO 3166-2 subdivisions of Somalia (SO), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SO = [
+  { code: "SO-AW", name: "Awdal", type: "Region" },
+  { code: "SO-BK", name: "Bakool", type: "Region" },
+  { code: "SO-BN", name: "Banaadir", type: "Region" },
+  { code: "SO-BR", name: "Bari", type: "Region" },
+  { code: "SO-BY", name: "Bay", type: "Region" },
+  { code: "SO-GA", name: "Galguduud", type: "Region" },
+  { code: "SO-GE", name: "Gedo", type: "Region" },
+  { code: "SO-HI", name: "Hiiraan", type: "Region" },
+  { code: "SO-JD", name: "Jubbada Dhexe", type: "Region" },
+  { code: "SO-JH", name: "Jubbada Hoose", type: "Region" },
+  { code: "SO-MU", name: "Mudug", type: "Region" },
+  { code: "SO-NU", name: "Nugaal", type: "Region" },
+  { code: "SO-SA", name: "Sanaag", type: "Region" },
+  { code: "SO-SD", name: "Shabeellaha Dhexe", type: "Region" },
+  { code: "SO-SH", name: "Shabeellaha Hoose", type: "Region" },
+  { code: "SO-SO", name: "Sool", type: "Region" },
+  { code: "SO-TO", name: "Togdheer", type: "Region" },
+  { code: "SO-WO", name: "Woqooyi Galbeed", type: "Region" },
+] as const;
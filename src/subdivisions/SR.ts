@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Suriname (SR), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SR = [
+  { code: "SR-BR", name: "Brokopondo", type: "District" },
+  { code: "SR-CM", name: "Commewijne", type: "District" },
+  { code: "SR-CR", name: "Coronie", type: "District" },
+  { code: "SR-MA", name: "Marowijne", type: "District" },
+  { code: "SR-NI", name: "Nickerie", type: "District" },
+  { code: "SR-PM", name: "Paramaribo", type: "District" },
+  { code: "SR-PR", name: "Para", type: "District" },
+  { code: "SR-SA", name: "Saramacca", type: "District" },
+  { code: "SR-SI", name: "Sipaliwini", type: "District" },
+  { code: "SR-WA", name: "Wanica", type: "District" },
+] as const;
@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of South Sudan (SS), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SS = [
+  { code: "SS-BN", name: "Northern Bahr el Ghazal", type: "State" },
+  { code: "SS-BW", name: "Western Bahr el Ghazal", type: "State" },
+  { code: "SS-EC", name: "Central Equatoria", type: "State" },
+  { code: "SS-EE", name: "Eastern Equatoria", type: "State" },
+  { code: "SS-EW", name: "Western Equatoria", type: "State" },
+  { code: "SS-JG", name: "Jonglei", type: "State" },
+  { code: "SS-LK", name: "Lakes", type: "State" },
+  { code: "SS-NU", name: "Upper Nile", type: "State" },
+  { code: "SS-UY", name: "Unity", type: "State" },
+  { code: "SS-WR", name: "Warrap", type: "State" },
+] as const;
@@ -0,0 +1,13 @@
+/**
+ * ISO 3166-2 subdivisions of Sao Tome and Principe (ST), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ST = [
+  { code: "ST-01", name: "Água Grande", type: "District" },
+  { code: "ST-02", name: "Cantagalo", type: "District" },
+  { code: "ST-03", name: "Caué", type: "District" },
+  { code: "ST-04", name: "Lembá", type: "District" },
+  { code: "ST-05", name: "Lobata", type: "District" },
+  { code: "ST-06", name: "Mé-Zóchi", type: "District" },
+  { code: "ST-P", name: "Príncipe", type: "Autonomous region" },
+] as const;
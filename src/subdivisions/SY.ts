@@ -0,0 +1,20 @@
+/**
+ * ISO 3166-2 subdivisions of Syria (SY), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SY = [
+  { code: "SY-DI", name: "Dimashq", type: "Province" },
+  { code: "SY-DR", name: "Dar'ā", type: "Province" },
+  { code: "SY-DY", name: "Dayr az Zawr", type: "Province" },
+  { code: "SY-HA", name: "Al Ḩasakah", type: "Province" },
+  { code: "SY-HI", name: "Ḩimş", type: "Province" },
+  { code: "SY-HL", name: "Ḩalab", type: "Province" },
+  { code: "SY-HM", name: "Ḩamāh", type: "Province" },
+  { code: "SY-ID", name: "Idlib", type: "Province" },
+  { code: "SY-LA", name: "Al Lādhiqīyah", type: "Province" },
+  { code: "SY-QU", name: "Al Qunayţirah", type: "Province" },
+  { code: "SY-RA", name: "Ar Raqqah", type: "Province" },
+  { code: "SY-RD", name: "Rīf Dimashq", type: "Province" },
+  { code: "SY-SU", name: "As Suwaydā'", type: "Province" },
+  { code: "SY-TA", name: "Ţarţūs", type: "Province" },
+] as const;
@@ -0,0 +1,10 @@
+/**
+ * ISO 3166-2 subdivisions of Eswatini (SZ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const SZ = [
+  { code: "SZ-HH", name: "Hhohho", type: "Region" },
+  { code: "SZ-LU", name: "Lubombo", type: "Region" },
+  { code: "SZ-MA", name: "Manzini", type: "Region" },
+  { code: "SZ-SH", name: "Shiselweni", type: "Region" },
+] as const;
@@ -0,0 +1,29 @@
+/**
+ * ISO 3166-2 subdivisions of Chad (TD), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TD = [
+  { code: "TD-BA", name: "Al Baţḩā’", type: "Province" },
+  { code: "TD-BG", name: "Bahr el Ghazal", type: "Province" },
+  { code: "TD-BO", name: "Borkou", type: "Province" },
+  { code: "TD-CB", name: "Chari-Baguirmi", type: "Province" },
+  { code: "TD-EE", name: "Ennedi-Est", type: "Province" },
+  { code: "TD-EO", name: "Ennedi-Ouest", type: "Province" },
+  { code: "TD-GR", name: "Guéra", type: "Province" },
+  { code: "TD-HL", name: "Hadjer Lamis", type: "Province" },
+  { code: "TD-KA", name: "Kanem", type: "Province" },
+  { code: "TD-LC", name: "Al Buḩayrah", type: "Province" },
+  { code: "TD-LO", name: "Logone-Occidental", type: "Province" },
+  { code: "TD-LR", name: "Logone-Oriental", type: "Province" },
+  { code: "TD-MA", name: "Mandoul", type: "Province" },
+  { code: "TD-MC", name: "Moyen-Chari", type: "Province" },
+  { code: "TD-ME", name: "Mayo-Kebbi-Est", type: "Province" },
+  { code: "TD-MO", name: "Mayo-Kebbi-Ouest", type: "Province" },
+  { code: "TD-ND", name: "Madīnat Injamīnā", type: "Province" },
+  { code: "TD-OD", name: "Ouaddaï", type: "Province" },
+  { code: "TD-SA", name: "Salamat", type: "Province" },
+  { code: "TD-SI", name: "Sila", type: "Province" },
+  { code: "TD-TA", name: "Tandjilé", type: "Province" },
+  { code: "TD-TI", name: "Tibastī", type: "Province" },
+  { code: "TD-WF", name: "Wadi Fira", type: "Province" },
+] as const;
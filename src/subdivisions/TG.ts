@@ -0,0 +1,11 @@
+/**
+ * ISO 3166-2 subdivisions of Togo (TG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TG = [
+  { code: "TG-C", name: "Centrale", type: "Region" },
+  { code: "TG-K", name: "Kara", type: "Region" },
+  { code: "TG-M", name: "Maritime (Région)", type: "Region" },
+  { code: "TG-P", name: "Plateaux", type: "Region" },
+  { code: "TG-S", name: "Savanes", type: "Region" },
+] as const;
@@ -0,0 +1,88 @@
+/**
+ * ISO 3166-2 subdivisions of Thailand (TH), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TH = [
+  {
+    code: "TH-10",
+    name: "Krung Thep Maha Nakhon",
+    type: "Metropolitan administration",
+  },
+  { code: "TH-11", name: "Samut Prakan", type: "Province" },
+  { code: "TH-12", name: "Nonthaburi", type: "Province" },
+  { code: "TH-13", name: "Pathum Thani", type: "Province" },
+  { code: "TH-14", name: "Phra Nakhon Si Ayutthaya", type: "Province" },
+  { code: "TH-15", name: "Ang Thong", type: "Province" },
+  { code: "TH-16", name: "Lop Buri", type: "Province" },
+  { code: "TH-17", name: "Sing Buri", type: "Province" },
+  { code: "TH-18", name: "Chai Nat", type: "Province" },
+  { code: "TH-19", name: "Saraburi", type: "Province" },
+  { code: "TH-20", name: "Chon Buri", type: "Province" },
+  { code: "TH-21", name: "Rayong", type: "Province" },
+  { code: "TH-22", name: "Chanthaburi", type: "Province" },
+  { code: "TH-23", name: "Trat", type: "Province" },
+  { code: "TH-24", name: "Chachoengsao", type: "Province" },
+  { code: "TH-25", name: "Prachin Buri", type: "Province" },
+  { code: "TH-26", name: "Nakhon Nayok", type: "Province" },
+  { code: "TH-27", name: "Sa Kaeo", type: "Province" },
+  { code: "TH-30", name: "Nakhon Ratchasima", type: "Province" },
+  { code: "TH-31", name: "Buri Ram", type: "Province" },
+  { code: "TH-32", name: "Surin", type: "Province" },
+  { code: "TH-33", name: "Si Sa Ket", type: "Province" },
+  { code: "TH-34", name: "Ubon Ratchathani", type: "Province" },
+  { code: "TH-35", name: "Yasothon", type: "Province" },
+  { code: "TH-36", name: "Chaiyaphum", type: "Province" },
+  { code: "TH-37", name: "Amnat Charoen", type: "Province" },
+  { code: "TH-38", name: "Bueng Kan", type: "Province" },
+  { code: "TH-39", name: "Nong Bua Lam Phu", type: "Province" },
+  { code: "TH-40", name: "Khon Kaen", type: "Province" },
+  { code: "TH-41", name: "Udon Thani", type: "Province" },
+  { code: "TH-42", name: "Loei", type: "Province" },
+  { code: "TH-43", name: "Nong Khai", type: "Province" },
+  { code: "TH-44", name: "Maha Sarakham", type: "Province" },
+  { code: "TH-45", name: "Roi Et", type: "Province" },
+  { code: "TH-46", name: "Kalasin", type: "Province" },
+  { code: "TH-47", name: "Sakon Nakhon", type: "Province" },
+  { code: "TH-48", name: "Nakhon Phanom", type: "Province" },
+  { code: "TH-49", name: "Mukdahan", type: "Province" },
+  { code: "TH-50", name: "Chiang Mai", type: "Province" },
+  { code: "TH-51", name: "Lamphun", type: "Province" },
+  { code: "TH-52", name: "Lampang", type: "Province" },
+  { code: "TH-53", name: "Uttaradit", type: "Province" },
+  { code: "TH-54", name: "Phrae", type: "Province" },
+  { code: "TH-55", name: "Nan", type: "Province" },
+  { code: "TH-56", name: "Phayao", type: "Province" },
+  { code: "TH-57", name: "Chiang Rai", type: "Province" },
+  { code: "TH-58", name: "Mae Hong Son", type: "Province" },
+  { code: "TH-60", name: "Nakhon Sawan", type: "Province" },
+  { code: "TH-61", name: "Uthai Thani", type: "Province" },
+  { code: "TH-62", name: "Kamphaeng Phet", type: "Province" },
+  { code: "TH-63", name: "Tak", type: "Province" },
+  { code: "TH-64", name: "Sukhothai", type: "Province" },
+  { code: "TH-65", name: "Phitsanulok", type: "Province" },
+  { code: "TH-66", name: "Phichit", type: "Province" },
+  { code: "TH-67", name: "Phetchabun", type: "Province" },
+  { code: "TH-70", name: "Ratchaburi", type: "Province" },
+  { code: "TH-71", name: "Kanchanaburi", type: "Province" },
+  { code: "TH-72", name: "Suphan Buri", type: "Province" },
+  { code: "TH-73", name: "Nakhon Pathom", type: "Province" },
+  { code: "TH-74", name: "Samut Sakhon", type: "Province" },
+  { code: "TH-75", name: "Samut Songkhram", type: "Province" },
+  { code: "TH-76", name: "Phetchaburi", type: "Province" },
+  { code: "TH-77", name: "Prachuap Khiri Khan", type: "Province" },
+  { code: "TH-80", name: "Nakhon Si Thammarat", type: "Province" },
+  { code: "TH-81", name: "Krabi", type: "Province" },
+  { code: "TH-82", name: "Phangnga", type: "Province" },
+  { code: "TH-83", name: "Phuket", type: "Province" },
+  { code: "TH-84", name: "Surat Thani", type: "Province" },
+  { code: "TH-85", name: "Ranong", type: "Province" },
+  { code: "TH-86", name: "Chumphon", type: "Province" },
+  { code: "TH-90", name: "Songkhla", type: "Province" },
+  { code: "TH-91", name: "Satun", type: "Province" },
+  { code: "TH-92", name: "Trang", type: "Province" },
+  { code: "TH-93", name: "Phatthalung", type: "Province" },
+  { code: "TH-94", name: "Pattani", type: "Province" },
+  { code: "TH-95", name: "Yala", type: "Province" },
+  { code: "TH-96", name: "Narathiwat", type: "Province" },
+  { code: "TH-S", name: "Phatthaya", type: "Special administrative city" },
+] as const;
@@ -0,0 +1,15 @@
+/**
+ * ISO 3166-2 subdivisions of Tajikistan (TJ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TJ = [
+  { code: "TJ-DU", name: "Dushanbe", type: "Capital territory" },
+  { code: "TJ-GB", name: "Kŭhistoni Badakhshon", type: "Autonomous region" },
+  { code: "TJ-KT", name: "Khatlon", type: "Region" },
+  {
+    code: "TJ-RA",
+    name: "nohiyahoi tobei jumhurí",
+    type: "Districts under republic administration",
+  },
+  { code: "TJ-SU", name: "Sughd", type: "Region" },
+] as const;
@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Turkmenistan (TM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TM = [
+  { code: "TM-A", name: "Ahal", type: "Region" },
+  { code: "TM-B", name: "Balkan", type: "Region" },
+  { code: "TM-D", name: "Daşoguz", type: "Region" },
+  { code: "TM-L", name: "Lebap", type: "Region" },
+  { code: "TM-M", name: "Mary", type: "Region" },
+  { code: "TM-S", name: "Aşgabat", type: "City" },
+] as const;
@@ -0,0 +1,30 @@
+/**
+ * ISO 3166-2 subdivisions of Tunisia (TN), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TN = [
+  { code: "TN-11", name: "Tunis", type: "Governorate" },
+  { code: "TN-12", name: "L'Ariana", type: "Governorate" },
+  { code: "TN-13", name: "Ben Arous", type: "Governorate" },
+  { code: "TN-14", name: "La Manouba", type: "Governorate" },
+  { code: "TN-21", name: "Nabeul", type: "Governorate" },
+  { code: "TN-22", name: "Zaghouan", type: "Governorate" },
+  { code: "TN-23", name: "Bizerte", type: "Governorate" },
+  { code: "TN-31", name: "Béja", type: "Governorate" },
+  { code: "TN-32", name: "Jendouba", type: "Governorate" },
+  { code: "TN-33", name: "Le Kef", type: "Governorate" },
+  { code: "TN-34", name: "Siliana", type: "Governorate" },
+  { code: "TN-41", name: "Kairouan", type: "Governorate" },
+  { code: "TN-42", name: "Kasserine", type: "Governorate" },
+  { code: "TN-43", name: "Sidi Bouzid", type: "Governorate" },
+  { code: "TN-51", name: "Sousse", type: "Governorate" },
+  { code: "TN-52", name: "Monastir", type: "Governorate" },
+  { code: "TN-53", name: "Mahdia", type: "Governorate" },
+  { code: "TN-61", name: "Sfax", type: "Governorate" },
+  { code: "TN-71", name: "Gafsa", type: "Governorate" },
+  { code: "TN-72", name: "Tozeur", type: "Governorate" },
+  { code: "TN-73", name: "Kébili", type: "Governorate" },
+  { code: "TN-81", name: "Gabès", type: "Governorate" },
+  { code: "TN-82", name: "Médenine", type: "Governorate" },
+  { code: "TN-83", name: "Tataouine", type: "Governorate" },
+] as const;
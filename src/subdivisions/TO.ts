@@ -0,0 +1,11 @@
+/**
+ * ISO 3166-2 subdivisions of Tonga (TO), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TO = [
+  { code: "TO-01", name: "'Eua", type: "Division" },
+  { code: "TO-02", name: "Ha'apai", type: "Division" },
+  { code: "TO-03", name: "Niuas", type: "Division" },
+  { code: "TO-04", name: "Tongatapu", type: "Division" },
+  { code: "TO-05", name: "Vava'u", type: "Division" },
+] as const;
@@ -0,0 +1,87 @@
+/**
+ * ISO 3166-2 subdivisions of Turkey (TR), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TR = [
+  { code: "TR-01", name: "Adana", type: "Province" },
+  { code: "TR-02", name: "Adıyaman", type: "Province" },
+  { code: "TR-03", name: "Afyonkarahisar", type: "Province" },
+  { code: "TR-04", name: "Ağrı", type: "Province" },
+  { code: "TR-05", name: "Amasya", type: "Province" },
+  { code: "TR-06", name: "Ankara", type: "Province" },
+  { code: "TR-07", name: "Antalya", type: "Province" },
+  { code: "TR-08", name: "Artvin", type: "Province" },
+  { code: "TR-09", name: "Aydın", type: "Province" },
+  { code: "TR-10", name: "Balıkesir", type: "Province" },
+  { code: "TR-11", name: "Bilecik", type: "Province" },
+  { code: "TR-12", name: "Bingöl", type: "Province" },
+  { code: "TR-13", name: "Bitlis", type: "Province" },
+  { code: "TR-14", name: "Bolu", type: "Province" },
+  { code: "TR-15", name: "Burdur", type: "Province" },
+  { code: "TR-16", name: "Bursa", type: "Province" },
+  { code: "TR-17", name: "Çanakkale", type: "Province" },
+  { code: "TR-18", name: "Çankırı", type: "Province" },
+  { code: "TR-19", name: "Çorum", type: "Province" },
+  { code: "TR-20", name: "Denizli", type: "Province" },
+  { code: "TR-21", name: "Diyarbakır", type: "Province" },
+  { code: "TR-22", name: "Edirne", type: "Province" },
+  { code: "TR-23", name: "Elazığ", type: "Province" },
+  { code: "TR-24", name: "Erzincan", type: "Province" },
+  { code: "TR-25", name: "Erzurum", type: "Province" },
+  { code: "TR-26", name: "Eskişehir", type: "Province" },
+  { code: "TR-27", name: "Gaziantep", type: "Province" },
+  { code: "TR-28", name: "Giresun", type: "Province" },
+  { code: "TR-29", name: "Gümüşhane", type: "Province" },
+  { code: "TR-30", name: "Hakkâri", type: "Province" },
+  { code: "TR-31", name: "Hatay", type: "Province" },
+  { code: "TR-32", name: "Isparta", type: "Province" },
+  { code: "TR-33", name: "Mersin", type: "Province" },
+  { code: "TR-34", name: "İstanbul", type: "Province" },
+  { code: "TR-35", name: "İzmir", type: "Province" },
+  { code: "TR-36", name: "Kars", type: "Province" },
+  { code: "TR-37", name: "Kastamonu", type: "Province" },
+  { code: "TR-38", name: "Kayseri", type: "Province" },
+  { code: "TR-39", name: "Kırklareli", type: "Province" },
+  { code: "TR-40", name: "Kırşehir", type: "Province" },
+  { code: "TR-41", name: "Kocaeli", type: "Province" },
+  { code: "TR-42", name: "Konya", type: "Province" },
+  { code: "TR-43", name: "Kütahya", type: "Province" },
+  { code: "TR-44", name: "Malatya", type: "Province" },
+  { code: "TR-45", name: "Manisa", type: "Province" },
+  { code: "TR-46", name: "Kahramanmaraş", type: "Province" },
+  { code: "TR-47", name: "Mardin", type: "Province" },
+  { code: "TR-48", name: "Muğla", type: "Province" },
+  { code: "TR-49", name: "Muş", type: "Province" },
+  { code: "TR-50", name: "Nevşehir", type: "Province" },
+  { code: "TR-51", name: "Niğde", type: "Province" },
+  { code: "TR-52", name: "Ordu", type: "Province" },
+  { code: "TR-53", name: "Rize", type: "Province" },
+  { code: "TR-54", name: "Sakarya", type: "Province" },
+  { code: "TR-55", name: "Samsun", type: "Province" },
+  { code: "TR-56", name: "Siirt", type: "Province" },
+  { code: "TR-57", name: "Sinop", type: "Province" },
+  { code: "TR-58", name: "Sivas", type: "Province" },
+  { code: "TR-59", name: "Tekirdağ", type: "Province" },
+  { code: "TR-60", name: "Tokat", type: "Province" },
+  { code: "TR-61", name: "Trabzon", type: "Province" },
+  { code: "TR-62", name: "Tunceli", type: "Province" },
+  { code: "TR-63", name: "Şanlıurfa", type: "Province" },
+  { code: "TR-64", name: "Uşak", type: "Province" },
+  { code: "TR-65", name: "Van", type: "Province" },
+  { code: "TR-66", name: "Yozgat", type: "Province" },
+  { code: "TR-67", name: "Zonguldak", type: "Province" },
+  { code: "TR-68", name: "Aksaray", type: "Province" },
+  { code: "TR-69", name: "Bayburt", type: "Province" },
+  { code: "TR-70", name: "Karaman", type: "Province" },
+  { code: "TR-71", name: "Kırıkkale", type: "Province" },
+  { code: "TR-72", name: "Batman", type: "Province" },
+  { code: "TR-73", name: "Şırnak", type: "Province" },
+  { code: "TR-74", name: "Bartın", type: "Province" },
+  { code: "TR-75", name: "Ardahan", type: "Province" },
+  { code: "TR-76", name: "Iğdır", type: "Province" },
+  { code: "TR-77", name: "Yalova", type: "Province" },
+  { code: "TR-78", name: "Karabük", type: "Province" },
+  { code: "TR-79", name: "Kilis", type: "Province" },
+  { code: "TR-80", name: "Osmaniye", type: "Province" },
+  { code: "TR-81", name: "Düzce", type: "Province" },
+] as const;
@@ -0,0 +1,21 @@
+/**
+ * ISO 3166-2 subdivisions of Trinidad and Tobago (TT), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TT = [
+  { code: "TT-ARI", name: "Arima", type: "Borough" },
+  { code: "TT-CHA", name: "Chaguanas", type: "Borough" },
+  { code: "TT-CTT", name: "Couva-Tabaquite-Talparo", type: "Region" },
+  { code: "TT-DMN", name: "Diego Martin", type: "Region" },
+  { code: "TT-MRC", name: "Mayaro-Rio Claro", type: "Region" },
+  { code: "TT-PED", name: "Penal-Debe", type: "Region" },
+  { code: "TT-POS", name: "Port of Spain", type: "City" },
+  { code: "TT-PRT", name: "Princes Town", type: "Region" },
+  { code: "TT-PTF", name: "Point Fortin", type: "Borough" },
+  { code: "TT-SFO", name: "San Fernando", type: "City" },
+  { code: "TT-SGE", name: "Sangre Grande", type: "Region" },
+  { code: "TT-SIP", name: "Siparia", type: "Region" },
+  { code: "TT-SJL", name: "San Juan-Laventille", type: "Region" },
+  { code: "TT-TOB", name: "Tobago", type: "Ward" },
+  { code: "TT-TUP", name: "Tunapuna-Piarco", type: "Region" },
+] as const;
@@ -0,0 +1,14 @@
+/**
+ * ISO 3166-2 subdivisions of Tuvalu (TV), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TV = [
+  { code: "TV-FUN", name: "Funafuti", type: "Town council" },
+  { code: "TV-NIT", name: "Niutao", type: "Island council" },
+  { code: "TV-NKF", name: "Nukufetau", type: "Island council" },
+  { code: "TV-NKL", name: "Nukulaelae", type: "Island council" },
+  { code: "TV-NMA", name: "Nanumea", type: "Island council" },
+  { code: "TV-NMG", name: "Nanumaga", type: "Island council" },
+  { code: "TV-NUI", name: "Nui", type: "Island council" },
+  { code: "TV-VAI", name: "Vaitupu", type: "Island council" },
+] as const;
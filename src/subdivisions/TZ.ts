@@ -0,0 +1,37 @@
+/**
+ * ISO 3166-2 subdivisions of Tanzania (TZ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const TZ = [
+  { code: "TZ-01", name: "Arusha", type: "Region" },
+  { code: "TZ-02", name: "Dar es Salaam", type: "Region" },
+  { code: "TZ-03", name: "Dodoma", type: "Region" },
+  { code: "TZ-04", name: "Iringa", type: "Region" },
+  { code: "TZ-05", name: "Kagera", type: "Region" },
+  { code: "TZ-06", name: "Pemba North", type: "Region" },
+  { code: "TZ-07", name: "Zanzibar North", type: "Region" },
+  { code: "TZ-08", name: "Kigoma", type: "Region" },
+  { code: "TZ-09", name: "Kilimanjaro", type: "Region" },
+  { code: "TZ-10", name: "Pemba South", type: "Region" },
+  { code: "TZ-11", name: "Zanzibar South", type: "Region" },
+  { code: "TZ-12", name: "Lindi", type: "Region" },
+  { code: "TZ-13", name: "Mara", type: "Region" },
+  { code: "TZ-14", name: "Mbeya", type: "Region" },
+  { code: "TZ-15", name: "Zanzibar West", type: "Region" },
+  { code: "TZ-16", name: "Morogoro", type: "Region" },
+  { code: "TZ-17", name: "Mtwara", type: "Region" },
+  { code: "TZ-18", name: "Mwanza", type: "Region" },
+  { code: "TZ-19", name: "Coast", type: "Region" },
+  { code: "TZ-20", name: "Rukwa", type: "Region" },
+  { code: "TZ-21", name: "Ruvuma", type: "Region" },
+  { code: "TZ-22", name: "Shinyanga", type: "Region" },
+  { code: "TZ-23", name: "Singida", type: "Region" },
+  { code: "TZ-24", name: "Tabora", type: "Region" },
+  { code: "TZ-25", name: "Tanga", type: "Region" },
+  { code: "TZ-26", name: "Manyara", type: "Region" },
+  { code: "TZ-27", name: "Geita", type: "Region" },
+  { code: "TZ-28", name: "Katavi", type: "Region" },
+  { code: "TZ-29", name: "Njombe", type: "Region" },
+  { code: "TZ-30", name: "Simiyu", type: "Region" },
+  { code: "TZ-31", name: "Songwe", type: "Region" },
+] as const;
@@ -0,0 +1,33 @@
+/**
+ * ISO 3166-2 subdivisions of Ukraine (UA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const UA = [
+  { code: "UA-05", name: "Vinnytska oblast", type: "Region" },
+  { code: "UA-07", name: "Volynska oblast", type: "Region" },
+  { code: "UA-09", name: "Luhanska oblast", type: "Region" },
+  { code: "UA-12", name: "Dnipropetrovska oblast", type: "Region" },
+  { code: "UA-14", name: "Donetska oblast", type: "Region" },
+  { code: "UA-18", name: "Zhytomyrska oblast", type: "Region" },
+  { code: "UA-21", name: "Zakarpatska oblast", type: "Region" },
+  { code: "UA-23", name: "Zaporizka oblast", type: "Region" },
+  { code: "UA-26", name: "Ivano-Frankivska oblast", type: "Region" },
+  { code: "UA-30", name: "Kyiv", type: "City" },
+  { code: "UA-32", name: "Kyivska oblast", type: "Region" },
+  { code: "UA-35", name: "Kirovohradska oblast", type: "Region" },
+  { code: "UA-40", name: "Sevastopol", type: "City" },
+  { code: "UA-43", name: "Avtonomna Respublika Krym", type: "Republic" },
+  { code: "UA-46", name: "Lvivska oblast", type: "Region" },
+  { code: "UA-48", name: "Mykolaivska oblast", type: "Region" },
+  { code: "UA-51", name: "Odeska oblast", type: "Region" },
+  { code: "UA-53", name: "Poltavska oblast", type: "Region" },
+  { code: "UA-56", name: "Rivnenska oblast", type: "Region" },
+  { code: "UA-59", name: "Sumska oblast", type: "Region" },
+  { code: "UA-61", name: "Ternopilska oblast", type: "Region" },
+  { code: "UA-63", name: "Kharkivska oblast", type: "Region" },
+  { code: "UA-65", name: "Khersonska oblast", type: "Region" },
+  { code: "UA-68", name: "Khmelnytska oblast", type: "Region" },
+  { code: "UA-71", name: "Cherkaska oblast", type: "Region" },
+  { code: "UA-74", name: "Chernihivska oblast", type: "Region" },
+  { code: "UA-77", name: "Chernivetska oblast", type: "Region" },
+] as const;
@@ -0,0 +1,145 @@
+/**
+ * ISO 3166-2 subdivisions of Uganda (UG), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const UG = [
+  { code: "UG-101", name: "Kalangala", type: "District", parent: "UG-C" },
+  { code: "UG-102", name: "Kampala", type: "City", parent: "UG-C" },
+  { code: "UG-103", name: "Kiboga", type: "District", parent: "UG-C" },
+  { code: "UG-104", name: "Luwero", type: "District", parent: "UG-C" },
+  { code: "UG-105", name: "Masaka", type: "District", parent: "UG-C" },
+  { code: "UG-106", name: "Mpigi", type: "District", parent: "UG-C" },
+  { code: "UG-107", name: "Mubende", type: "District", parent: "UG-C" },
+  { code: "UG-108", name: "Mukono", type: "District", parent: "UG-C" },
+  { code: "UG-109", name: "Nakasongola", type: "District", parent: "UG-C" },
+  { code: "UG-110", name: "Rakai", type: "District", parent: "UG-C" },
+  { code: "UG-111", name: "Sembabule", type: "District", parent: "UG-C" },
+  { code: "UG-112", name: "Kayunga", type: "District", parent: "UG-C" },
+  { code: "UG-113", name: "Wakiso", type: "District", parent: "UG-C" },
+  { code: "UG-114", name: "Lyantonde", type: "District", parent: "UG-C" },
+  { code: "UG-115", name: "Mityana", type: "District", parent: "UG-C" },
+  { code: "UG-116", name: "Nakaseke", type: "District", parent: "UG-C" },
+  { code: "UG-117", name: "Buikwe", type: "District", parent: "UG-C" },
+  { code: "UG-118", name: "Bukomansibi", type: "District", parent: "UG-C" },
+  { code: "UG-119", name: "Butambala", type: "District", parent: "UG-C" },
+  { code: "UG-120", name: "Buvuma", type: "District", parent: "UG-C" },
+  { code: "UG-121", name: "Gomba", type: "District", parent: "UG-C" },
+  { code: "UG-122", name: "Kalungu", type: "District", parent: "UG-C" },
+  { code: "UG-123", name: "Kyankwanzi", type: "District", parent: "UG-C" },
+  { code: "UG-124", name: "Lwengo", type: "District", parent: "UG-C" },
+  { code: "UG-125", name: "Kyotera", type: "District", parent: "UG-C" },
+  { code: "UG-126", name: "Kasanda", type: "District", parent: "UG-C" },
+  { code: "UG-201", name: "Bugiri", type: "District", parent: "UG-E" },
+  { code: "UG-202", name: "Busia", type: "District", parent: "UG-E" },
+  { code: "UG-203", name: "Iganga", type: "District", parent: "UG-E" },
+  { code: "UG-204", name: "Jinja", type: "District", parent: "UG-E" },
+  { code: "UG-205", name: "Kamuli", type: "District", parent: "UG-E" },
+  { code: "UG-206", name: "Kapchorwa", type: "District", parent: "UG-E" },
+  { code: "UG-207", name: "Katakwi", type: "District", parent: "UG-E" },
+  { code: "UG-208", name: "Kumi", type: "District", parent: "UG-E" },
+  { code: "UG-209", name: "Mbale", type: "District", parent: "UG-E" },
+  { code: "UG-210", name: "Pallisa", type: "District", parent: "UG-E" },
+  { code: "UG-211", name: "Soroti", type: "District", parent: "UG-E" },
+  { code: "UG-212", name: "Tororo", type: "District", parent: "UG-E" },
+  { code: "UG-213", name: "Kaberamaido", type: "District", parent: "UG-E" },
+  { code: "UG-214", name: "Mayuge", type: "District", parent: "UG-E" },
+  { code: "UG-215", name: "Sironko", type: "District", parent: "UG-E" },
+  { code: "UG-216", name: "Amuria", type: "District", parent: "UG-E" },
+  { code: "UG-217", name: "Budaka", type: "District", parent: "UG-E" },
+  { code: "UG-218", name: "Bududa", type: "District", parent: "UG-E" },
+  { code: "UG-219", name: "Bukedea", type: "District", parent: "UG-E" },
+  { code: "UG-220", name: "Bukwo", type: "District", parent: "UG-E" },
+  { code: "UG-221", name: "Butaleja", type: "District", parent: "UG-E" },
+  { code: "UG-222", name: "Kaliro", type: "District", parent: "UG-E" },
+  { code: "UG-223", name: "Manafwa", type: "District", parent: "UG-E" },
+  { code: "UG-224", name: "Namutumba", type: "District", parent: "UG-E" },
+  { code: "UG-225", name: "Bulambuli", type: "District", parent: "UG-E" },
+  { code: "UG-226", name: "Buyende", type: "District", parent: "UG-E" },
+  { code: "UG-227", name: "Kibuku", type: "District", parent: "UG-E" },
+  { code: "UG-228", name: "Kween", type: "District", parent: "UG-E" },
+  { code: "UG-229", name: "Luuka", type: "District", parent: "UG-E" },
+  { code: "UG-230", name: "Namayingo", type: "District", parent: "UG-E" },
+  { code: "UG-231", name: "Ngora", type: "District", parent: "UG-E" },
+  { code: "UG-232", name: "Serere", type: "District", parent: "UG-E" },
+  { code: "UG-233", name: "Butebo", type: "District", parent: "UG-E" },
+  { code: "UG-234", name: "Namisindwa", type: "District", parent: "UG-E" },
+  { code: "UG-235", name: "Bugweri", type: "District", parent: "UG-E" },
+  { code: "UG-236", name: "Kapelebyong", type: "District", parent: "UG-E" },
+  { code: "UG-237", name: "Kalaki", type: "District", parent: "UG-E" },
+  { code: "UG-301", name: "Adjumani", type: "District", parent: "UG-N" },
+  { code: "UG-302", name: "Apac", type: "District", parent: "UG-N" },
+  { code: "UG-303", name: "Arua", type: "District", parent: "UG-N" },
+  { code: "UG-304", name: "Gulu", type: "District", parent: "UG-N" },
+  { code: "UG-305", name: "Kitgum", type: "District", parent: "UG-N" },
+  { code: "UG-306", name: "Kotido", type: "District", parent: "UG-N" },
+  { code: "UG-307", name: "Lira", type: "District", parent: "UG-N" },
+  { code: "UG-308", name: "Moroto", type: "District", parent: "UG-N" },
+  { code: "UG-309", name: "Moyo", type: "District", parent: "UG-N" },
+  { code: "UG-310", name: "Nebbi", type: "District", parent: "UG-N" },
+  { code: "UG-311", name: "Nakapiripirit", type: "District", parent: "UG-N" },
+  { code: "UG-312", name: "Pader", type: "District", parent: "UG-N" },
+  { code: "UG-313", name: "Yumbe", type: "District", parent: "UG-N" },
+  { code: "UG-314", name: "Abim", type: "District", parent: "UG-N" },
+  { code: "UG-315", name: "Amolatar", type: "District", parent: "UG-N" },
+  { code: "UG-316", name: "Amuru", type: "District", parent: "UG-N" },
+  { code: "UG-317", name: "Dokolo", type: "District", parent: "UG-N" },
+  { code: "UG-318", name: "Kaabong", type: "District", parent: "UG-N" },
+  { code: "UG-319", name: "Koboko", type: "District", parent: "UG-N" },
+  { code: "UG-320", name: "Maracha", type: "District", parent: "UG-N" },
+  { code: "UG-321", name: "Oyam", type: "District", parent: "UG-N" },
+  { code: "UG-322", name: "Agago", type: "District", parent: "UG-N" },
+  { code: "UG-323", name: "Alebtong", type: "District", parent: "UG-N" },
+  { code: "UG-324", name: "Amudat", type: "District", parent: "UG-N" },
+  { code: "UG-325", name: "Kole", type: "District", parent: "UG-N" },
+  { code: "UG-326", name: "Lamwo", type: "District", parent: "UG-N" },
+  { code: "UG-327", name: "Napak", type: "District", parent: "UG-N" },
+  { code: "UG-328", name: "Nwoya", type: "District", parent: "UG-N" },
+  { code: "UG-329", name: "Otuke", type: "District", parent: "UG-N" },
+  { code: "UG-330", name: "Zombo", type: "District", parent: "UG-N" },
+  { code: "UG-331", name: "Omoro", type: "District", parent: "UG-N" },
+  { code: "UG-332", name: "Pakwach", type: "District", parent: "UG-N" },
+  { code: "UG-333", name: "Kwania", type: "District", parent: "UG-N" },
+  { code: "UG-334", name: "Nabilatuk", type: "District", parent: "UG-N" },
+  { code: "UG-335", name: "Karenga", type: "District", parent: "UG-N" },
+  { code: "UG-336", name: "Madi-Okollo", type: "District", parent: "UG-N" },
+  { code: "UG-337", name: "Obongi", type: "District", parent: "UG-N" },
+  { code: "UG-401", name: "Bundibugyo", type: "District", parent: "UG-W" },
+  { code: "UG-402", name: "Bushenyi", type: "District", parent: "UG-W" },
+  { code: "UG-403", name: "Hoima", type: "District", parent: "UG-W" },
+  { code: "UG-404", name: "Kabale", type: "District", parent: "UG-W" },
+  { code: "UG-405", name: "Kabarole", type: "District", parent: "UG-W" },
+  { code: "UG-406", name: "Kasese", type: "District", parent: "UG-W" },
+  { code: "UG-407", name: "Kibaale", type: "District", parent: "UG-W" },
+  { code: "UG-408", name: "Kisoro", type: "District", parent: "UG-W" },
+  { code: "UG-409", name: "Masindi", type: "District", parent: "UG-W" },
+  { code: "UG-410", name: "Mbarara", type: "District", parent: "UG-W" },
+  { code: "UG-411", name: "Ntungamo", type: "District", parent: "UG-W" },
+  { code: "UG-412", name: "Rukungiri", type: "District", parent: "UG-W" },
+  { code: "UG-413", name: "Kamwenge", type: "District", parent: "UG-W" },
+  { code: "UG-414", name: "Kanungu", type: "District", parent: "UG-W" },
+  { code: "UG-415", name: "Kyenjojo", type: "District", parent: "UG-W" },
+  { code: "UG-416", name: "Buliisa", type: "District", parent: "UG-W" },
+  { code: "UG-417", name: "Ibanda", type: "District", parent: "UG-W" },
+  { code: "UG-418", name: "Isingiro", type: "District", parent: "UG-W" },
+  { code: "UG-419", name: "Kiruhura", type: "District", parent: "UG-W" },
+  { code: "UG-420", name: "Buhweju", type: "District", parent: "UG-W" },
+  { code: "UG-421", name: "Kiryandongo", type: "District", parent: "UG-W" },
+  { code: "UG-422", name: "Kyegegwa", type: "District", parent: "UG-W" },
+  { code: "UG-423", name: "Mitooma", type: "District", parent: "UG-W" },
+  { code: "UG-424", name: "Ntoroko", type: "District", parent: "UG-W" },
+  { code: "UG-425", name: "Rubirizi", type: "District", parent: "UG-W" },
+  { code: "UG-426", name: "Sheema", type: "District", parent: "UG-W" },
+  { code: "UG-427", name: "Kagadi", type: "District", parent: "UG-W" },
+  { code: "UG-428", name: "Kakumiro", type: "District", parent: "UG-W" },
+  { code: "UG-429", name: "Rubanda", type: "District", parent: "UG-W" },
+  { code: "UG-430", name: "Bunyangabu", type: "District", parent: "UG-W" },
+  { code: "UG-431", name: "Rukiga", type: "District", parent: "UG-W" },
+  { code: "UG-432", name: "Kikuube", type: "District", parent: "UG-W" },
+  { code: "UG-433", name: "Kazo", type: "District", parent: "UG-W" },
+  { code: "UG-434", name: "Kitagwenda", type: "District", parent: "UG-W" },
+  { code: "UG-435", name: "Rwampara", type: "District", parent: "UG-W" },
+  { code: "UG-C", name: "Central", type: "Geographical region" },
+  { code: "UG-E", name: "Eastern", type: "Geographical region" },
+  { code: "UG-N", name: "Northern", type: "Geographical region" },
+  { code: "UG-W", name: "Western", type: "Geographical region" },
+] as const;
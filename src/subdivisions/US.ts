@@ -0,0 +1,67 @@
+/**
+ * ISO 3166-2 subdivisions of United States (US), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const US = [
+  { code: "US-AK", name: "Alaska", type: "State" },
+  { code: "US-AL", name: "Alabama", type: "State" },
+  { code: "US-AR", name: "Arkansas", type: "State" },
+  { code: "US-AS", name: "American Samoa", type: "Outlying area" },
+  { code: "US-AZ", name: "Arizona", type: "State" },
+  { code: "US-CA", name: "California", type: "State" },
+  { code: "US-CO", name: "Colorado", type: "State" },
+  { code: "US-CT", name: "Connecticut", type: "State" },
+  { code: "US-DC", name: "District of Columbia", type: "District" },
+  { code: "US-DE", name: "Delaware", type: "State" },
+  { code: "US-FL", name: "Florida", type: "State" },
+  { code: "US-GA", name: "Georgia", type: "State" },
+  { code: "US-GU", name: "Guam", type: "Outlying area" },
+  { code: "US-HI", name: "Hawaii", type: "State" },
+  { code: "US-IA", name: "Iowa", type: "State" },
+  { code: "US-ID", name: "Idaho", type: "State" },
+  { code: "US-IL", name: "Illinois", type: "State" },
+  { code: "US-IN", name: "Indiana", type: "State" },
+  { code: "US-KS", name: "Kansas", type: "State" },
+  { code: "US-KY", name: "Kentucky", type: "State" },
+  { code: "US-LA", name: "Louisiana", type: "State" },
+  { code: "US-MA", name: "Massachusetts", type: "State" },
+  { code: "US-MD", name: "Maryland", type: "State" },
+  { code: "US-ME", name: "Maine", type: "State" },
+  { code: "US-MI", name: "Michigan", type: "State" },
+  { code: "US-MN", name: "Minnesota", type: "State" },
+  { code: "US-MO", name: "Missouri", type: "State" },
+  { code: "US-MP", name: "Northern Mariana Islands", type: "Outlying area" },
+  { code: "US-MS", name: "Mississippi", type: "State" },
+  { code: "US-MT", name: "Montana", type: "State" },
+  { code: "US-NC", name: "North Carolina", type: "State" },
+  { code: "US-ND", name: "North Dakota", type: "State" },
+  { code: "US-NE", name: "Nebraska", type: "State" },
+  { code: "US-NH", name: "New Hampshire", type: "State" },
+  { code: "US-NJ", name: "New Jersey", type: "State" },
+  { code: "US-NM", name: "New Mexico", type: "State" },
+  { code: "US-NV", name: "Nevada", type: "State" },
+  { code: "US-NY", name: "New York", type: "State" },
+  { code: "US-OH", name: "Ohio", type: "State" },
+  { code: "US-OK", name: "Oklahoma", type: "State" },
+  { code: "US-OR", name: "Oregon", type: "State" },
+  { code: "US-PA", name: "Pennsylvania", type: "State" },
+  { code: "US-PR", name: "Puerto Rico", type: "Outlying area" },
+  { code: "US-RI", name: "Rhode Island", type: "State" },
+  { code: "US-SC", name: "South Carolina", type: "State" },
+  { code: "US-SD", name: "South Dakota", type: "State" },
+  { code: "US-TN", name: "Tennessee", type: "State" },
+  { code: "US-TX", name: "Texas", type: "State" },
+  {
+    code: "US-UM",
+    name: "United States Minor Outlying Islands",
+    type: "Outlying area",
+  },
+  { code: "US-UT", name: "Utah", type: "State" },
+  { code: "US-VA", name: "Virginia", type: "State" },
+  { code: "US-VI", name: "Virgin Islands, U.S.", type: "Outlying area" },
+  { code: "US-VT", name: "Vermont", type: "State" },
+  { code: "US-WA", name: "Washington", type: "State" },
+  { code: "US-WI", name: "Wisconsin", type: "State" },
+  { code: "US-WV", name: "West Virginia", type: "State" },
+  { code: "US-WY", name: "Wyoming", type: "State" },
+] as const;
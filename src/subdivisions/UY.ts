@@ -0,0 +1,25 @@
+/**
+ * ISO 3166-2 subdivisions of Uruguay (UY), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const UY = [
+  { code: "UY-AR", name: "Artigas", type: "Department" },
+  { code: "UY-CA", name: "Canelones", type: "Department" },
+  { code: "UY-CL", name: "Cerro Largo", type: "Department" },
+  { code: "UY-CO", name: "Colonia", type: "Department" },
+  { code: "UY-DU", name: "Durazno", type: "Department" },
+  { code: "UY-FD", name: "Florida", type: "Department" },
+  { code: "UY-FS", name: "Flores", type: "Department" },
+  { code: "UY-LA", name: "Lavalleja", type: "Department" },
+  { code: "UY-MA", name: "Maldonado", type: "Department" },
+  { code: "UY-MO", name: "Montevideo", type: "Department" },
+  { code: "UY-PA", name: "Paysandú", type: "Department" },
+  { code: "UY-RN", name: "Río Negro", type: "Department" },
+  { code: "UY-RO", name: "Rocha", type: "Department" },
+  { code: "UY-RV", name: "Rivera", type: "Department" },
+  { code: "UY-SA", name: "Salto", type: "Department" },
+  { code: "UY-SJ", name: "San José", type: "Department" },
+  { code: "UY-SO", name: "Soriano", type: "Department" },
+  { code: "UY-TA", name: "Tacuarembó", type: "Department" },
+  { code: "UY-TT", name: "Treinta y Tres", type: "Department" },
+] as const;
@@ -0,0 +1,20 @@
+/**
+ * ISO 3166-2 subdivisions of Uzbekistan (UZ), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const UZ = [
+  { code: "UZ-AN", name: "Andijon", type: "Region" },
+  { code: "UZ-BU", name: "Buxoro", type: "Region" },
+  { code: "UZ-FA", name: "Farg‘ona", type: "Region" },
+  { code: "UZ-JI", name: "Jizzax", type: "Region" },
+  { code: "UZ-NG", name: "Namangan", type: "Region" },
+  { code: "UZ-NW", name: "Navoiy", type: "Region" },
+  { code: "UZ-QA", name: "Qashqadaryo", type: "Region" },
+  { code: "UZ-QR", name: "Qoraqalpog‘iston Respublikasi", type: "Republic" },
+  { code: "UZ-SA", name: "Samarqand", type: "Region" },
+  { code: "UZ-SI", name: "Sirdaryo", type: "Region" },
+  { code: "UZ-SU", name: "Surxondaryo", type: "Region" },
+  { code: "UZ-TK", name: "Toshkent", type: "City" },
+  { code: "UZ-TO", name: "Toshkent", type: "Region" },
+  { code: "UZ-XO", name: "Xorazm", type: "Region" },
+] as const;
@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Saint Vincent and the Grenadines (VC), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const VC = [
+  { code: "VC-01", name: "Charlotte", type: "Parish" },
+  { code: "VC-02", name: "Saint Andrew", type: "Parish" },
+  { code: "VC-03", name: "Saint David", type: "Parish" },
+  { code: "VC-04", name: "Saint George", type: "Parish" },
+  { code: "VC-05", name: "Saint Patrick", type: "Parish" },
+  { code: "VC-06", name: "Grenadines", type: "Parish" },
+] as const;
@@ -0,0 +1,69 @@
+/**
+ * ISO 3166-2 subdivisions of Vietnam (VN), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const VN = [
+  { code: "VN-01", name: "Lai Châu", type: "Province" },
+  { code: "VN-02", name: "Lào Cai", type: "Province" },
+  { code: "VN-03", name: "Hà Giang", type: "Province" },
+  { code: "VN-04", name: "Cao Bằng", type: "Province" },
+  { code: "VN-05", name: "Sơn La", type: "Province" },
+  { code: "VN-06", name: "Yên Bái", type: "Province" },
+  { code: "VN-07", name: "Tuyên Quang", type: "Province" },
+  { code: "VN-09", name: "Lạng Sơn", type: "Province" },
+  { code: "VN-13", name: "Quảng Ninh", type: "Province" },
+  { code: "VN-14", name: "Hòa Bình", type: "Province" },
+  { code: "VN-18", name: "Ninh Bình", type: "Province" },
+  { code: "VN-20", name: "Thái Bình", type: "Province" },
+  { code: "VN-21", name: "Thanh Hóa", type: "Province" },
+  { code: "VN-22", name: "Nghệ An", type: "Province" },
+  { code: "VN-23", name: "Hà Tĩnh", type: "Province" },
+  { code: "VN-24", name: "Quảng Bình", type: "Province" },
+  { code: "VN-25", name: "Quảng Trị", type: "Province" },
+  { code: "VN-26", name: "Thừa Thiên-Huế", type: "Province" },
+  { code: "VN-27", name: "Quảng Nam", type: "Province" },
+  { code: "VN-28", name: "Kon Tum", type: "Province" },
+  { code: "VN-29", name: "Quảng Ngãi", type: "Province" },
+  { code: "VN-30", name: "Gia Lai", type: "Province" },
+  { code: "VN-31", name: "Bình Định", type: "Province" },
+  { code: "VN-32", name: "Phú Yên", type: "Province" },
+  { code: "VN-33", name: "Đắk Lắk", type: "Province" },
+  { code: "VN-34", name: "Khánh Hòa", type: "Province" },
+  { code: "VN-35", name: "Lâm Đồng", type: "Province" },
+  { code: "VN-36", name: "Ninh Thuận", type: "Province" },
+  { code: "VN-37", name: "Tây Ninh", type: "Province" },
+  { code: "VN-39", name: "Đồng Nai", type: "Province" },
+  { code: "VN-40", name: "Bình Thuận", type: "Province" },
+  { code: "VN-41", name: "Long An", type: "Province" },
+  { code: "VN-43", name: "Bà Rịa - Vũng Tàu", type: "Province" },
+  { code: "VN-44", name: "An Giang", type: "Province" },
+  { code: "VN-45", name: "Đồng Tháp", type: "Province" },
+  { code: "VN-46", name: "Tiền Giang", type: "Province" },
+  { code: "VN-47", name: "Kiến Giang", type: "Province" },
+  { code: "VN-49", name: "Vĩnh Long", type: "Province" },
+  { code: "VN-50", name: "Bến Tre", type: "Province" },
+  { code: "VN-51", name: "Trà Vinh", type: "Province" },
+  { code: "VN-52", name: "Sóc Trăng", type: "Province" },
+  { code: "VN-53", name: "Bắc Kạn", type: "Province" },
+  { code: "VN-54", name: "Bắc Giang", type: "Province" },
+  { code: "VN-55", name: "Bạc Liêu", type: "Province" },
+  { code: "VN-56", name: "Bắc Ninh", type: "Province" },
+  { code: "VN-57", name: "Bình Dương", type: "Province" },
+  { code: "VN-58", name: "Bình Phước", type: "Province" },
+  { code: "VN-59", name: "Cà Mau", type: "Province" },
+  { code: "VN-61", name: "Hải Dương", type: "Province" },
+  { code: "VN-63", name: "Hà Nam", type: "Province" },
+  { code: "VN-66", name: "Hưng Yên", type: "Province" },
+  { code: "VN-67", name: "Nam Định", type: "Province" },
+  { code: "VN-68", name: "Phú Thọ", type: "Province" },
+  { code: "VN-69", name: "Thái Nguyên", type: "Province" },
+  { code: "VN-70", name: "Vĩnh Phúc", type: "Province" },
+  { code: "VN-71", name: "Điện Biên", type: "Province" },
+  { code: "VN-72", name: "Đắk Nông", type: "Province" },
+  { code: "VN-73", name: "Hậu Giang", type: "Province" },
+  { code: "VN-CT", name: "Cần Thơ", type: "Municipality" },
+  { code: "VN-DN", name: "Đà Nẵng", type: "Municipality" },
+  { code: "VN-HN", name: "Hà Nội", type: "Municipality" },
+  { code: "VN-HP", name: "Hải Phòng", type: "Municipality" },
+  { code: "VN-SG", name: "Hồ Chí Minh", type: "Municipality" },
+] as const;
@@ -0,0 +1,12 @@
+/**
+ * ISO 3166-2 subdivisions of Vanuatu (VU), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const VU = [
+  { code: "VU-MAP", name: "Malampa", type: "Province" },
+  { code: "VU-PAM", name: "Pénama", type: "Province" },
+  { code: "VU-SAM", name: "Sanma", type: "Province" },
+  { code: "VU-SEE", name: "Shéfa", type: "Province" },
+  { code: "VU-TAE", name: "Taféa", type: "Province" },
+  { code: "VU-TOB", name: "Torba", type: "Province" },
+] as const;
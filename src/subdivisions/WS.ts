@@ -0,0 +1,17 @@
+/**
+ * ISO 3166-2 subdivisions of Samoa (WS), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const WS = [
+  { code: "WS-AA", name: "A'ana", type: "District" },
+  { code: "WS-AL", name: "Aiga-i-le-Tai", type: "District" },
+  { code: "WS-AT", name: "Atua", type: "District" },
+  { code: "WS-FA", name: "Fa'asaleleaga", type: "District" },
+  { code: "WS-GE", name: "Gaga'emauga", type: "District" },
+  { code: "WS-GI", name: "Gagaifomauga", type: "District" },
+  { code: "WS-PA", name: "Palauli", type: "District" },
+  { code: "WS-SA", name: "Satupa'itea", type: "District" },
+  { code: "WS-TU", name: "Tuamasaga", type: "District" },
+  { code: "WS-VF", name: "Va'a-o-Fonoti", type: "District" },
+  { code: "WS-VS", name: "Vaisigano", type: "District" },
+] as const;
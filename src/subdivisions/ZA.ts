@@ -0,0 +1,15 @@
+/**
+ * ISO 3166-2 subdivisions of South Africa (ZA), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ZA = [
+  { code: "ZA-EC", name: "Eastern Cape", type: "Province" },
+  { code: "ZA-FS", name: "Free State", type: "Province" },
+  { code: "ZA-GP", name: "Gauteng", type: "Province" },
+  { code: "ZA-KZN", name: "Kwazulu-Natal", type: "Province" },
+  { code: "ZA-LP", name: "Limpopo", type: "Province" },
+  { code: "ZA-MP", name: "Mpumalanga", type: "Province" },
+  { code: "ZA-NC", name: "Northern Cape", type: "Province" },
+  { code: "ZA-NW", name: "North-West", type: "Province" },
+  { code: "ZA-WC", name: "Western Cape", type: "Province" },
+] as const;
@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Zambia (ZM), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ZM = [
+  { code: "ZM-01", name: "Western", type: "Province" },
+  { code: "ZM-02", name: "Central", type: "Province" },
+  { code: "ZM-03", name: "Eastern", type: "Province" },
+  { code: "ZM-04", name: "Luapula", type: "Province" },
+  { code: "ZM-05", name: "Northern", type: "Province" },
+  { code: "ZM-06", name: "North-Western", type: "Province" },
+  { code: "ZM-07", name: "Southern", type: "Province" },
+  { code: "ZM-08", name: "Copperbelt", type: "Province" },
+  { code: "ZM-09", name: "Lusaka", type: "Province" },
+  { code: "ZM-10", name: "Muchinga", type: "Province" },
+] as const;
@@ -0,0 +1,16 @@
+/**
+ * ISO 3166-2 subdivisions of Zimbabwe (ZW), from iso-codes.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export const ZW = [
+  { code: "ZW-BU", name: "Bulawayo", type: "Province" },
+  { code: "ZW-HA", name: "Harare", type: "Province" },
+  { code: "ZW-MA", name: "Manicaland", type: "Province" },
+  { code: "ZW-MC", name: "Mashonaland Central", type: "Province" },
+  { code: "ZW-ME", name: "Mashonaland East", type: "Province" },
+  { code: "ZW-MI", name: "Midlands", type: "Province" },
+  { code: "ZW-MN", name: "Matabeleland North", type: "Province" },
+  { code: "ZW-MS", name: "Matabeleland South", type: "Province" },
+  { code: "ZW-MV", name: "Masvingo", type: "Province" },
+  { code: "ZW-MW", name: "Mashonaland West", type: "Province" },
+] as const;
@@ -0,0 +1,398 @@
+/**
+ * Subdivision data by country: the type of each module's data, and a
+ * loader that imports the module on first use.
+ * Generated by scripts/generate-subdivisions.ts — do not edit by hand.
+ */
+export interface SubdivisionData {
+  US: (typeof import("./US"))["US"];
+  CA: (typeof import("./CA"))["CA"];
+  BR: (typeof import("./BR"))["BR"];
+  GB: (typeof import("./GB"))["GB"];
+  DE: (typeof import("./DE"))["DE"];
+  FR: (typeof import("./FR"))["FR"];
+  CN: (typeof import("./CN"))["CN"];
+  JP: (typeof import("./JP"))["JP"];
+  IN: (typeof import("./IN"))["IN"];
+  AU: (typeof import("./AU"))["AU"];
+  ZA: (typeof import("./ZA"))["ZA"];
+  NG: (typeof import("./NG"))["NG"];
+  MX: (typeof import("./MX"))["MX"];
+  RU: (typeof import("./RU"))["RU"];
+  SA: (typeof import("./SA"))["SA"];
+  AF: (typeof import("./AF"))["AF"];
+  AL: (typeof import("./AL"))["AL"];
+  DZ: (typeof import("./DZ"))["DZ"];
+  AD: (typeof import("./AD"))["AD"];
+  AO: (typeof import("./AO"))["AO"];
+  AG: (typeof import("./AG"))["AG"];
+  AR: (typeof import("./AR"))["AR"];
+  AM: (typeof import("./AM"))["AM"];
+  AT: (typeof import("./AT"))["AT"];
+  AZ: (typeof import("./AZ"))["AZ"];
+  BS: (typeof import("./BS"))["BS"];
+  BH: (typeof import("./BH"))["BH"];
+  BD: (typeof import("./BD"))["BD"];
+  BB: (typeof import("./BB"))["BB"];
+  BY: (typeof import("./BY"))["BY"];
+  BE: (typeof import("./BE"))["BE"];
+  BZ: (typeof import("./BZ"))["BZ"];
+  BJ: (typeof import("./BJ"))["BJ"];
+  BT: (typeof import("./BT"))["BT"];
+  BO: (typeof import("./BO"))["BO"];
+  BA: (typeof import("./BA"))["BA"];
+  BW: (typeof import("./BW"))["BW"];
+  BN: (typeof import("./BN"))["BN"];
+  BG: (typeof import("./BG"))["BG"];
+  BF: (typeof import("./BF"))["BF"];
+  BI: (typeof import("./BI"))["BI"];
+  CV: (typeof import("./CV"))["CV"];
+  KH: (typeof import("./KH"))["KH"];
+  CM: (typeof import("./CM"))["CM"];
+  CF: (typeof import("./CF"))["CF"];
+  TD: (typeof import("./TD"))["TD"];
+  CL: (typeof import("./CL"))["CL"];
+  CO: (typeof import("./CO"))["CO"];
+  KM: (typeof import("./KM"))["KM"];
+  CG: (typeof import("./CG"))["CG"];
+  CD: (typeof import("./CD"))["CD"];
+  CR: (typeof import("./CR"))["CR"];
+  CI: (typeof import("./CI"))["CI"];
+  HR: (typeof import("./HR"))["HR"];
+  CU: (typeof import("./CU"))["CU"];
+  CY: (typeof import("./CY"))["CY"];
+  CZ: (typeof import("./CZ"))["CZ"];
+  DK: (typeof import("./DK"))["DK"];
+  DJ: (typeof import("./DJ"))["DJ"];
+  DM: (typeof import("./DM"))["DM"];
+  DO: (typeof import("./DO"))["DO"];
+  EC: (typeof import("./EC"))["EC"];
+  EG: (typeof import("./EG"))["EG"];
+  SV: (typeof import("./SV"))["SV"];
+  GQ: (typeof import("./GQ"))["GQ"];
+  ER: (typeof import("./ER"))["ER"];
+  EE: (typeof import("./EE"))["EE"];
+  SZ: (typeof import("./SZ"))["SZ"];
+  ET: (typeof import("./ET"))["ET"];
+  FJ: (typeof import("./FJ"))["FJ"];
+  FI: (typeof import("./FI"))["FI"];
+  GA: (typeof import("./GA"))["GA"];
+  GM: (typeof import("./GM"))["GM"];
+  GE: (typeof import("./GE"))["GE"];
+  GH: (typeof import("./GH"))["GH"];
+  GR: (typeof import("./GR"))["GR"];
+  GD: (typeof import("./GD"))["GD"];
+  GT: (typeof import("./GT"))["GT"];
+  GN: (typeof import("./GN"))["GN"];
+  GW: (typeof import("./GW"))["GW"];
+  GY: (typeof import("./GY"))["GY"];
+  HT: (typeof import("./HT"))["HT"];
+  HN: (typeof import("./HN"))["HN"];
+  HU: (typeof import("./HU"))["HU"];
+  IS: (typeof import("./IS"))["IS"];
+  ID: (typeof import("./ID"))["ID"];
+  IR: (typeof import("./IR"))["IR"];
+  IQ: (typeof import("./IQ"))["IQ"];
+  IE: (typeof import("./IE"))["IE"];
+  IL: (typeof import("./IL"))["IL"];
+  IT: (typeof import("./IT"))["IT"];
+  JM: (typeof import("./JM"))["JM"];
+  JO: (typeof import("./JO"))["JO"];
+  KZ: (typeof import("./KZ"))["KZ"];
+  KE: (typeof import("./KE"))["KE"];
+  KI: (typeof import("./KI"))["KI"];
+  KW: (typeof import("./KW"))["KW"];
+  KG: (typeof import("./KG"))["KG"];
+  LA: (typeof import("./LA"))["LA"];
+  LV: (typeof import("./LV"))["LV"];
+  LB: (typeof import("./LB"))["LB"];
+  LS: (typeof import("./LS"))["LS"];
+  LR: (typeof import("./LR"))["LR"];
+  LY: (typeof import("./LY"))["LY"];
+  LI: (typeof import("./LI"))["LI"];
+  LT: (typeof import("./LT"))["LT"];
+  LU: (typeof import("./LU"))["LU"];
+  MG: (typeof import("./MG"))["MG"];
+  MW: (typeof import("./MW"))["MW"];
+  MY: (typeof import("./MY"))["MY"];
+  MV: (typeof import("./MV"))["MV"];
+  ML: (typeof import("./ML"))["ML"];
+  MT: (typeof import("./MT"))["MT"];
+  MH: (typeof import("./MH"))["MH"];
+  MR: (typeof import("./MR"))["MR"];
+  MU: (typeof import("./MU"))["MU"];
+  FM: (typeof import("./FM"))["FM"];
+  MD: (typeof import("./MD"))["MD"];
+  MC: (typeof import("./MC"))["MC"];
+  MN: (typeof import("./MN"))["MN"];
+  ME: (typeof import("./ME"))["ME"];
+  MA: (typeof import("./MA"))["MA"];
+  MZ: (typeof import("./MZ"))["MZ"];
+  MM: (typeof import("./MM"))["MM"];
+  NA: (typeof import("./NA"))["NA"];
+  NR: (typeof import("./NR"))["NR"];
+  NP: (typeof import("./NP"))["NP"];
+  NL: (typeof import("./NL"))["NL"];
+  NZ: (typeof import("./NZ"))["NZ"];
+  NI: (typeof import("./NI"))["NI"];
+  NE: (typeof import("./NE"))["NE"];
+  KP: (typeof import("./KP"))["KP"];
+  MK: (typeof import("./MK"))["MK"];
+  NO: (typeof import("./NO"))["NO"];
+  OM: (typeof import("./OM"))["OM"];
+  PK: (typeof import("./PK"))["PK"];
+  PW: (typeof import("./PW"))["PW"];
+  PA: (typeof import("./PA"))["PA"];
+  PG: (typeof import("./PG"))["PG"];
+  PY: (typeof import("./PY"))["PY"];
+  PE: (typeof import("./PE"))["PE"];
+  PH: (typeof import("./PH"))["PH"];
+  PL: (typeof import("./PL"))["PL"];
+  PT: (typeof import("./PT"))["PT"];
+  QA: (typeof import("./QA"))["QA"];
+  RO: (typeof import("./RO"))["RO"];
+  RW: (typeof import("./RW"))["RW"];
+  KN: (typeof import("./KN"))["KN"];
+  LC: (typeof import("./LC"))["LC"];
+  VC: (typeof import("./VC"))["VC"];
+  WS: (typeof import("./WS"))["WS"];
+  SM: (typeof import("./SM"))["SM"];
+  ST: (typeof import("./ST"))["ST"];
+  SN: (typeof import("./SN"))["SN"];
+  RS: (typeof import("./RS"))["RS"];
+  SC: (typeof import("./SC"))["SC"];
+  SL: (typeof import("./SL"))["SL"];
+  SG: (typeof import("./SG"))["SG"];
+  SK: (typeof import("./SK"))["SK"];
+  SI: (typeof import("./SI"))["SI"];
+  SB: (typeof import("./SB"))["SB"];
+  SO: (typeof import("./SO"))["SO"];
+  KR: (typeof import("./KR"))["KR"];
+  SS: (typeof import("./SS"))["SS"];
+  ES: (typeof import("./ES"))["ES"];
+  LK: (typeof import("./LK"))["LK"];
+  SD: (typeof import("./SD"))["SD"];
+  SR: (typeof import("./SR"))["SR"];
+  SE: (typeof import("./SE"))["SE"];
+  CH: (typeof import("./CH"))["CH"];
+  SY: (typeof import("./SY"))["SY"];
+  TJ: (typeof import("./TJ"))["TJ"];
+  TZ: (typeof import("./TZ"))["TZ"];
+  TH: (typeof import("./TH"))["TH"];
+  TG: (typeof import("./TG"))["TG"];
+  TO: (typeof import("./TO"))["TO"];
+  TT: (typeof import("./TT"))["TT"];
+  TN: (typeof import("./TN"))["TN"];
+  TR: (typeof import("./TR"))["TR"];
+  TM: (typeof import("./TM"))["TM"];
+  TV: (typeof import("./TV"))["TV"];
+  UG: (typeof import("./UG"))["UG"];
+  UA: (typeof import("./UA"))["UA"];
+  AE: (typeof import("./AE"))["AE"];
+  UY: (typeof import("./UY"))["UY"];
+  UZ: (typeof import("./UZ"))["UZ"];
+  VU: (typeof import("./VU"))["VU"];
+  VE: (typeof import("./VE"))["VE"];
+  VN: (typeof import("./VN"))["VN"];
+  YE: (typeof import("./YE"))["YE"];
+  ZM: (typeof import("./ZM"))["ZM"];
+  ZW: (typeof import("./ZW"))["ZW"];
+  TL: (typeof import("./TL"))["TL"];
+}
+
+export const subdivisionLoaders: {
+  readonly [C in keyof SubdivisionData]: () => Promise<SubdivisionData[C]>;
+} = {
+  US: () => import("./US").then((m) => m.US),
+  CA: () => import("./CA").then((m) => m.CA),
+  BR: () => import("./BR").then((m) => m.BR),
+  GB: () => import("./GB").then((m) => m.GB),
+  DE: () => import("./DE").then((m) => m.DE),
+  FR: () => import("./FR").then((m) => m.FR),
+  CN: () => import("./CN").then((m) => m.CN),
+  JP: () => import("./JP").then((m) => m.JP),
+  IN: () => import("./IN").then((m) => m.IN),
+  AU: () => import("./AU").then((m) => m.AU),
+  ZA: () => import("./ZA").then((m) => m.ZA),
+  NG: () => import("./NG").then((m) => m.NG),
+  MX: () => import("./MX").then((m) => m.MX),
+  RU: () => import("./RU").then((m) => m.RU),
+  SA: () => import("./SA").then((m) => m.SA),
+  AF: () => import("./AF").then((m) => m.AF),
+  AL: () => import("./AL").then((m) => m.AL),
+  DZ: () => import("./DZ").then((m) => m.DZ),
+  AD: () => import("./AD").then((m) => m.AD),
+  AO: () => import("./AO").then((m) => m.AO),
+  AG: () => import("./AG").then((m) => m.AG),
+  AR: () => import("./AR").then((m) => m.AR),
+  AM: () => import("./AM").then((m) => m.AM),
+  AT: () => import("./AT").then((m) => m.AT),
+  AZ: () => import("./AZ").then((m) => m.AZ),
+  BS: () => import("./BS").then((m) => m.BS),
+  BH: () => import("./BH").then((m) => m.BH),
+  BD: () => import("./BD").then((m) => m.BD),
+  BB: () => import("./BB").then((m) => m.BB),
+  BY: () => import("./BY").then((m) => m.BY),
+  BE: () => import("./BE").then((m) => m.BE),
+  BZ: () => import("./BZ").then((m) => m.BZ),
+  BJ: () => import("./BJ").then((m) => m.BJ),
+  BT: () => import("./BT").then((m) => m.BT),
+  BO: () => import("./BO").then((m) => m.BO),
+  BA: () => import("./BA").then((m) => m.BA),
+  BW: () => import("./BW").then((m) => m.BW),
+  BN: () => import("./BN").then((m) => m.BN),
+  BG: () => import("./BG").then((m) => m.BG),
+  BF: () => import("./BF").then((m) => m.BF),
+  BI: () => import("./BI").then((m) => m.BI),
+  CV: () => import("./CV").then((m) => m.CV),
+  KH: () => import("./KH").then((m) => m.KH),
+  CM: () => import("./CM").then((m) => m.CM),
+  CF: () => import("./CF").then((m) => m.CF),
+  TD: () => import("./TD").then((m) => m.TD),
+  CL: () => import("./CL").then((m) => m.CL),
+  CO: () => import("./CO").then((m) => m.CO),
+  KM: () => import("./KM").then((m) => m.KM),
+  CG: () => import("./CG").then((m) => m.CG),
+  CD: () => import("./CD").then((m) => m.CD),
+  CR: () => import("./CR").then((m) => m.CR),
+  CI: () => import("./CI").then((m) => m.CI),
+  HR: () => import("./HR").then((m) => m.HR),
+  CU: () => import("./CU").then((m) => m.CU),
+  CY: () => import("./CY").then((m) => m.CY),
+  CZ: () => import("./CZ").then((m) => m.CZ),
+  DK: () => import("./DK").then((m) => m.DK),
+  DJ: () => import("./DJ").then((m) => m.DJ),
+  DM: () => import("./DM").then((m) => m.DM),
+  DO: () => import("./DO").then((m) => m.DO),
+  EC: () => import("./EC").then((m) => m.EC),
+  EG: () => import("./EG").then((m) => m.EG),
+  SV: () => import("./SV").then((m) => m.SV),
+  GQ: () => import("./GQ").then((m) => m.GQ),
+  ER: () => import("./ER").then((m) => m.ER),
+  EE: () => import("./EE").then((m) => m.EE),
+  SZ: () => import("./SZ").then((m) => m.SZ),
+  ET: () => import("./ET").then((m) => m.ET),
+  FJ: () => import("./FJ").then((m) => m.FJ),
+  FI: () => import("./FI").then((m) => m.FI),
+  GA: () => import("./GA").then((m) => m.GA),
+  GM: () => import("./GM").then((m) => m.GM),
+  GE: () => import("./GE").then((m) => m.GE),
+  GH: () => import("./GH").then((m) => m.GH),
+  GR: () => import("./GR").then((m) => m.GR),
+  GD: () => import("./GD").then((m) => m.GD),
+  GT: () => import("./GT").then((m) => m.GT),
+  GN: () => import("./GN").then((m) => m.GN),
+  GW: () => import("./GW").then((m) => m.GW),
+  GY: () => import("./GY").then((m) => m.GY),
+  HT: () => import("./HT").then((m) => m.HT),
+  HN: () => import("./HN").then((m) => m.HN),
+  HU: () => import("./HU").then((m) => m.HU),
+  IS: () => import("./IS").then((m) => m.IS),
+  ID: () => import("./ID").then((m) => m.ID),
+  IR: () => import("./IR").then((m) => m.IR),
+  IQ: () => import("./IQ").then((m) => m.IQ),
+  IE: () => import("./IE").then((m) => m.IE),
+  IL: () => import("./IL").then((m) => m.IL),
+  IT: () => import("./IT").then((m) => m.IT),
+  JM: () => import("./JM").then((m) => m.JM),
+  JO: () => import("./JO").then((m) => m.JO),
+  KZ: () => import("./KZ").then((m) => m.KZ),
+  KE: () => import("./KE").then((m) => m.KE),
+  KI: () => import("./KI").then((m) => m.KI),
+  KW: () => import("./KW").then((m) => m.KW),
+  KG: () => import("./KG").then((m) => m.KG),
+  LA: () => import("./LA").then((m) => m.LA),
+  LV: () => import("./LV").then((m) => m.LV),
+  LB: () => import("./LB").then((m) => m.LB),
+  LS: () => import("./LS").then((m) => m.LS),
+  LR: () => import("./LR").then((m) => m.LR),
+  LY: () => import("./LY").then((m) => m.LY),
+  LI: () => import("./LI").then((m) => m.LI),
+  LT: () => import("./LT").then((m) => m.LT),
+  LU: () => import("./LU").then((m) => m.LU),
+  MG: () => import("./MG").then((m) => m.MG),
+  MW: () => import("./MW").then((m) => m.MW),
+  MY: () => import("./MY").then((m) => m.MY),
+  MV: () => import("./MV").then((m) => m.MV),
+  ML: () => import("./ML").then((m) => m.ML),
+  MT: () => import("./MT").then((m) => m.MT),
+  MH: () => import("./MH").then((m) => m.MH),
+  MR: () => import("./MR").then((m) => m.MR),
+  MU: () => import("./MU").then((m) => m.MU),
+  FM: () => import("./FM").then((m) => m.FM),
+  MD: () => import("./MD").then((m) => m.MD),
+  MC: () => import("./MC").then((m) => m.MC),
+  MN: () => import("./MN").then((m) => m.MN),
+  ME: () => import("./ME").then((m) => m.ME),
+  MA: () => import("./MA").then((m) => m.MA),
+  MZ: () => import("./MZ").then((m) => m.MZ),
+  MM: () => import("./MM").then((m) => m.MM),
+  NA: () => import("./NA").then((m) => m.NA),
+  NR: () => import("./NR").then((m) => m.NR),
+  NP: () => import("./NP").then((m) => m.NP),
+  NL: () => import("./NL").then((m) => m.NL),
+  NZ: () => import("./NZ").then((m) => m.NZ),
+  NI: () => import("./NI").then((m) => m.NI),
+  NE: () => import("./NE").then((m) => m.NE),
+  KP: () => import("./KP").then((m) => m.KP),
+  MK: () => import("./MK").then((m) => m.MK),
+  NO: () => import("./NO").then((m) => m.NO),
+  OM: () => import("./OM").then((m) => m.OM),
+  PK: () => import("./PK").then((m) => m.PK),
+  PW: () => import("./PW").then((m) => m.PW),
+  PA: () => import("./PA").then((m) => m.PA),
+  PG: () => import("./PG").then((m) => m.PG),
+  PY: () => import("./PY").then((m) => m.PY),
+  PE: () => import("./PE").then((m) => m.PE),
+  PH: () => import("./PH").then((m) => m.PH),
+  PL: () => import("./PL").then((m) => m.PL),
+  PT: () => import("./PT").then((m) => m.PT),
+  QA: () => import("./QA").then((m) => m.QA),
+  RO: () => import("./RO").then((m) => m.RO),
+  RW: () => import("./RW").then((m) => m.RW),
+  KN: () => import("./KN").then((m) => m.KN),
+  LC: () => import("./LC").then((m) => m.LC),
+  VC: () => import("./VC").then((m) => m.VC),
+  WS: () => import("./WS").then((m) => m.WS),
+  SM: () => import("./SM").then((m) => m.SM),
+  ST: () => import("./ST").then((m) => m.ST),
+  SN: () => import("./SN").then((m) => m.SN),
+  RS: () => import("./RS").then((m) => m.RS),
+  SC: () => import("./SC").then((m) => m.SC),
+  SL: () => import("./SL").then((m) => m.SL),
+  SG: () => import("./SG").then((m) => m.SG),
+  SK: () => import("./SK").then((m) => m.SK),
+  SI: () => import("./SI").then((m) => m.SI),
+  SB: () => import("./SB").then((m) => m.SB),
+  SO: () => import("./SO").then((m) => m.SO),
+  KR: () => import("./KR").then((m) => m.KR),
+  SS: () => import("./SS").then((m) => m.SS),
+  ES: () => import("./ES").then((m) => m.ES),
+  LK: () => import("./LK").then((m) => m.LK),
+  SD: () => import("./SD").then((m) => m.SD),
+  SR: () => import("./SR").then((m) => m.SR),
+  SE: () => import("./SE").then((m) => m.SE),
+  CH: () => import("./CH").then((m) => m.CH),
+  SY: () => import("./SY").then((m) => m.SY),
+  TJ: () => import("./TJ").then((m) => m.TJ),
+  TZ: () => import("./TZ").then((m) => m.TZ),
+  TH: () => import("./TH").then((m) => m.TH),
+  TG: () => import("./TG").then((m) => m.TG),
+  TO: () => import("./TO").then((m) => m.TO),
+  TT: () => import("./TT").then((m) => m.TT),
+  TN: () => import("./TN").then((m) => m.TN),
+  TR: () => import("./TR").then((m) => m.TR),
+  TM: () => import("./TM").then((m) => m.TM),
+  TV: () => import("./TV").then((m) => m.TV),
+  UG: () => import("./UG").then((m) => m.UG),
+  UA: () => import("./UA").then((m) => m.UA),
+  AE: () => import("./AE").then((m) => m.AE),
+  UY: () => import("./UY").then((m) => m.UY),
+  UZ: () => import("./UZ").then((m) => m.UZ),
+  VU: () => import("./VU").then((m) => m.VU),
+  VE: () => import("./VE").then((m) => m.VE),
+  VN: () => import("./VN").then((m) => m.VN),
+  YE: () => import("./YE").then((m) => m.YE),
+  ZM: () => import("./ZM").then((m) => m.ZM),
+  ZW: () => import("./ZW").then((m) => m.ZW),
+  TL: () => import("./TL").then((m) => m.TL),
+};
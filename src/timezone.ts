@@ -0,0 +1,238 @@
+import { countries } from "./countries";
+import { foldCode, getCountryIndexes } from "./indexes";
+import { timezoneLinks } from "./timezones";
+import {
+  Country,
+  CountryCode,
+  TimezoneId,
+  TimezoneMatchOptions,
+} from "./types";
+
+// ============================================================================
+// TIME ZONE INDEX
+// ============================================================================
+
+let timezoneIndex: ReadonlyMap<string, Country> | undefined;
+
+/**
+ * The country each zone in the dataset belongs to, built on first use
+ */
+const getTimezoneIndex = (): ReadonlyMap<string, Country> => {
+  if (!timezoneIndex) {
+    const index = new Map<string, Country>();
+    countries.forEach((c) => c.timezones.forEach((tz) => index.set(tz.id, c)));
+    timezoneIndex = index;
+  }
+  return timezoneIndex;
+};
+
+/**
+ * The names reached by following links from `tz`, starting with `tz` itself
+ */
+const linkChain = (tz: string): string[] => {
+  const chain = [tz];
+  for (let next = timezoneLinks[tz]; next; next = timezoneLinks[next]) {
+    chain.push(next);
+  }
+  return chain;
+};
+
+/**
+ * The first name in `tz`'s link chain that a country lists, which resolves
+ * legacy aliases ("Asia/Calcutta" to "Asia/Kolkata") but leaves listed zones as they are
+ */
+const resolveTimezone = (tz: string): string | undefined => {
+  const index = getTimezoneIndex();
+  return linkChain(tz).find((name) => index.has(name));
+};
+
+const canonicalTimezone = (tz: string): string => {
+  const chain = linkChain(tz);
+  return chain[chain.length - 1];
+};
+
+// ============================================================================
+// TIME ZONES
+// ============================================================================
+
+/**
+ * Get the IANA time zones a country spans, primary zone first.
+ * The primary zone is the one its capital uses.
+ *
+ * @param code - The alpha-2 code of the country
+ * @returns Time zone IDs, or an empty array for an unknown code
+ *
+ * @example
+ * getTimezonesByCountry("FR"); // ["Europe/Paris"]
+ * getTimezonesByCountry("AU"); // ["Australia/Sydney", "Australia/Lord_Howe", ...]
+ */
+export const getTimezonesByCountry = (code: CountryCode): TimezoneId[] => {
+  const country = getCountryIndexes().alpha2.get(foldCode(code));
+  return country ? country.timezones.map((tz) => tz.id) : [];
+};
+
+/**
+ * Get the countries that list a time zone. Legacy names such as
+ * "Asia/Calcutta" are accepted. Zones that merely share a clock are distinct
+ * unless `options.sameClock` is set, which treats zones whose clocks have
+ * agreed since 1970 as one.
+ *
+ * @example
+ * getCountriesByTimezone("Europe/Zurich").map((c) => c.alpha2);                      // ["CH"]
+ * getCountriesByTimezone("Europe/Zurich", { sameClock: true }).map((c) => c.alpha2); // ["DE", "LI", "CH"]
+ * getCountriesByTimezone("UTC");                                                     // []
+ */
+export const getCountriesByTimezone = (
+  tz: string,
+  options: TimezoneMatchOptions = {},
+): Country[] => {
+  if (options.sameClock) {
+    const canonical = canonicalTimezone(tz);
+    return countries.filter((c) =>
+      c.timezones.some((zone) => canonicalTimezone(zone.id) === canonical),
+    );
+  }
+  const id = resolveTimezone(tz);
+  return id
+    ? countries.filter((c) => c.timezones.some((zone) => zone.id === id))
+    : [];
+};
+
+/**
+ * Get the country a time zone belongs to, e.g. to default a user's country
+ * from `Intl.DateTimeFormat().resolvedOptions().timeZone`. Legacy names that
+ * runtimes still report, such as "Asia/Calcutta" or "Europe/Kiev", are accepted.
+ *
+ * @param tz - An IANA time zone name
+ * @returns The country, or `undefined` for zones outside any country in the
+ * dataset, such as "UTC" or "Asia/Hong_Kong"
+ *
+ * @example
+ * getCountryByTimezone("America/Chicago")?.alpha2; // "US"
+ * getCountryByTimezone("Asia/Calcutta")?.alpha2;   // "IN"
+ * getCountryByTimezone("Europe/Vaduz")?.alpha2;    // "LI"
+ */
+export const getCountryByTimezone = (tz: string): Country | undefined => {
+  const id = resolveTimezone(tz);
+  return id ? getTimezoneIndex().get(id) : undefined;
+};
+
+// ============================================================================
+// UTC OFFSETS
+// ============================================================================
+
+/**
+ * Wall-clock formatters by zone; `null` when the runtime knows neither the
+ * zone nor any zone it links to
+ */
+const offsetFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+/**
+ * A formatter for the first name in `tz`'s link chain that the runtime's tz
+ * data knows, so zones newer than that data (America/Coyhaique) fall back to
+ * the zone they link to
+ */
+const getOffsetFormatter = (tz: string): Intl.DateTimeFormat | null => {
+  let formatter = offsetFormatters.get(tz);
+  if (formatter === undefined) {
+    formatter = null;
+    for (const name of linkChain(tz)) {
+      try {
+        formatter = new Intl.DateTimeFormat("en-US", {
+          timeZone: name,
+          hour12: false,
+          year: "numeric",
+          month: "numeric",
+          day: "numeric",
+          hour: "numeric",
+          minute: "numeric",
+          second: "numeric",
+        });
+        break;
+      } catch (e) {
+        // RangeError for a zone missing from the runtime's tz data
+        if (!(e instanceof RangeError)) throw e;
+      }
+    }
+    offsetFormatters.set(tz, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * A zone's offset from UTC in minutes at `date`, read from the platform's
+ * tz data so daylight saving time is applied. The offset is the difference
+ * between the zone's wall clock and UTC, which works on runtimes without the
+ * `longOffset` time zone name. `undefined` if the runtime can't resolve the zone.
+ */
+const getUtcOffset = (tz: string, date: Date): number | undefined => {
+  const formatter = getOffsetFormatter(tz);
+  if (!formatter) return undefined;
+
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+  formatter.formatToParts(date).forEach(({ type, value }) => {
+    if (type !== "literal") parts[type] = Number(value);
+  });
+  // Older runtimes write midnight as hour 24 despite `hour12: false`
+  const wallClock = Date.UTC(
+    parts.year!,
+    parts.month! - 1,
+    parts.day!,
+    parts.hour! % 24,
+    parts.minute!,
+    parts.second!,
+  );
+  // The formatted clock has no milliseconds
+  const instant = date.getTime() - date.getUTCMilliseconds();
+  return Math.round((wallClock - instant) / 60000);
+};
+
+/**
+ * Get the distinct UTC offsets in use across a country's time zones at a
+ * given instant, taking daylight saving time into account.
+ *
+ * @param code - The alpha-2 code of the country
+ * @param date - The instant to check (default now)
+ * @returns Offsets in minutes east of UTC, ascending, or an empty array for
+ * an unknown code or invalid date. Zones missing from the runtime's tz data
+ * use the zone they link to in `timezoneLinks`, or are skipped.
+ *
+ * @example
+ * getCurrentUtcOffsets("IN");                                // [330]
+ * getCurrentUtcOffsets("GB", new Date("2025-01-15T12:00Z")); // [0]
+ * getCurrentUtcOffsets("GB", new Date("2025-07-15T12:00Z")); // [60]
+ */
+export const getCurrentUtcOffsets = (
+  code: CountryCode,
+  date: Date = new Date(),
+): number[] => {
+  if (Number.isNaN(date.getTime())) return [];
+  const offsets = new Set<number>();
+  getTimezonesByCountry(code).forEach((tz) => {
+    const offset = getUtcOffset(tz, date);
+    if (offset !== undefined) offsets.add(offset);
+  });
+  return Array.from(offsets).sort((a, b) => a - b);
+};
+
+/**
+ * Get the countries where at least one time zone is at a UTC offset at a
+ * given instant, taking daylight saving time into account.
+ *
+ * @param offset - Minutes east of UTC, e.g. 330 for UTC+05:30 or -300 for UTC-05:00
+ * @param date - The instant to check (default now)
+ *
+ * @example
+ * const date = new Date("2025-07-15T12:00Z");
+ * getCountriesByUtcOffset(60, date).map((c) => c.alpha2);   // ["GB", "NG", "DZ", "AO", ...]
+ * getCountriesByUtcOffset(-150, date).map((c) => c.alpha2); // ["CA"] (Newfoundland)
+ */
+export const getCountriesByUtcOffset = (
+  offset: number,
+  date: Date = new Date(),
+): Country[] => {
+  if (Number.isNaN(date.getTime())) return [];
+  return countries.filter((c) =>
+    c.timezones.some((tz) => getUtcOffset(tz.id, date) === offset),
+  );
+};
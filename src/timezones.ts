@@ -0,0 +1,213 @@
+// ============================================================================
+// TIME ZONE LINKS
+// ============================================================================
+
+/**
+ * IANA time zone names that are links to another zone, mapped to their target.
+ * Covers zones in `countries` whose clocks have matched another zone since 1970
+ * (Europe/Vaduz follows Europe/Zurich), and legacy names that runtimes still
+ * report, such as Asia/Calcutta for Asia/Kolkata. Zones newer than the tz
+ * data some runtimes ship (America/Coyhaique) link to a zone with the same
+ * current clock, so offsets can still be computed there. Follow links until a
+ * name has no entry to find its canonical zone.
+ */
+export const timezoneLinks: Readonly<Record<string, string>> = {
+  "Africa/Accra": "Africa/Abidjan",
+  "Africa/Addis_Ababa": "Africa/Nairobi",
+  "Africa/Asmara": "Africa/Nairobi",
+  "Africa/Asmera": "Africa/Nairobi",
+  "Africa/Bamako": "Africa/Abidjan",
+  "Africa/Bangui": "Africa/Lagos",
+  "Africa/Banjul": "Africa/Abidjan",
+  "Africa/Blantyre": "Africa/Maputo",
+  "Africa/Brazzaville": "Africa/Lagos",
+  "Africa/Bujumbura": "Africa/Maputo",
+  "Africa/Conakry": "Africa/Abidjan",
+  "Africa/Dakar": "Africa/Abidjan",
+  "Africa/Dar_es_Salaam": "Africa/Nairobi",
+  "Africa/Djibouti": "Africa/Nairobi",
+  "Africa/Douala": "Africa/Lagos",
+  "Africa/Freetown": "Africa/Abidjan",
+  "Africa/Gaborone": "Africa/Maputo",
+  "Africa/Harare": "Africa/Maputo",
+  "Africa/Kampala": "Africa/Nairobi",
+  "Africa/Kigali": "Africa/Maputo",
+  "Africa/Kinshasa": "Africa/Lagos",
+  "Africa/Libreville": "Africa/Lagos",
+  "Africa/Lome": "Africa/Abidjan",
+  "Africa/Luanda": "Africa/Lagos",
+  "Africa/Lubumbashi": "Africa/Maputo",
+  "Africa/Lusaka": "Africa/Maputo",
+  "Africa/Malabo": "Africa/Lagos",
+  "Africa/Maseru": "Africa/Johannesburg",
+  "Africa/Mbabane": "Africa/Johannesburg",
+  "Africa/Mogadishu": "Africa/Nairobi",
+  "Africa/Niamey": "Africa/Lagos",
+  "Africa/Nouakchott": "Africa/Abidjan",
+  "Africa/Ouagadougou": "Africa/Abidjan",
+  "Africa/Porto-Novo": "Africa/Lagos",
+  "Africa/Timbuktu": "Africa/Abidjan",
+  "America/Antigua": "America/Puerto_Rico",
+  "America/Argentina/ComodRivadavia": "America/Argentina/Catamarca",
+  "America/Atikokan": "America/Panama",
+  "America/Atka": "America/Adak",
+  "America/Blanc-Sablon": "America/Puerto_Rico",
+  "America/Buenos_Aires": "America/Argentina/Buenos_Aires",
+  "America/Catamarca": "America/Argentina/Catamarca",
+  // Added in tzdata 2022g; same clock as Denver since it split from Ojinaga
+  "America/Ciudad_Juarez": "America/Denver",
+  "America/Coral_Harbour": "America/Atikokan",
+  // Added in tzdata 2025b; UTC-03 all year, like Punta Arenas
+  "America/Coyhaique": "America/Punta_Arenas",
+  "America/Cordoba": "America/Argentina/Cordoba",
+  "America/Creston": "America/Phoenix",
+  "America/Dominica": "America/Puerto_Rico",
+  "America/Ensenada": "America/Tijuana",
+  "America/Fort_Wayne": "America/Indiana/Indianapolis",
+  "America/Grenada": "America/Puerto_Rico",
+  "America/Indianapolis": "America/Indiana/Indianapolis",
+  "America/Jujuy": "America/Argentina/Jujuy",
+  "America/Knox_IN": "America/Indiana/Knox",
+  "America/Louisville": "America/Kentucky/Louisville",
+  "America/Mendoza": "America/Argentina/Mendoza",
+  "America/Montreal": "America/Toronto",
+  "America/Nassau": "America/Toronto",
+  "America/Nipigon": "America/Toronto",
+  "America/Pangnirtung": "America/Iqaluit",
+  "America/Port_of_Spain": "America/Puerto_Rico",
+  "America/Porto_Acre": "America/Rio_Branco",
+  "America/Rainy_River": "America/Winnipeg",
+  "America/Rosario": "America/Argentina/Cordoba",
+  "America/Santa_Isabel": "America/Tijuana",
+  "America/Shiprock": "America/Denver",
+  "America/St_Kitts": "America/Puerto_Rico",
+  "America/St_Lucia": "America/Puerto_Rico",
+  "America/St_Vincent": "America/Puerto_Rico",
+  "America/Thunder_Bay": "America/Toronto",
+  "America/Yellowknife": "America/Edmonton",
+  "Antarctica/South_Pole": "Pacific/Auckland",
+  "Arctic/Longyearbyen": "Europe/Berlin",
+  "Asia/Aden": "Asia/Riyadh",
+  "Asia/Ashkhabad": "Asia/Ashgabat",
+  "Asia/Bahrain": "Asia/Qatar",
+  "Asia/Brunei": "Asia/Kuching",
+  "Asia/Calcutta": "Asia/Kolkata",
+  "Asia/Choibalsan": "Asia/Ulaanbaatar",
+  "Asia/Chongqing": "Asia/Shanghai",
+  "Asia/Chungking": "Asia/Shanghai",
+  "Asia/Dacca": "Asia/Dhaka",
+  "Asia/Harbin": "Asia/Shanghai",
+  "Asia/Istanbul": "Europe/Istanbul",
+  "Asia/Kashgar": "Asia/Urumqi",
+  "Asia/Katmandu": "Asia/Kathmandu",
+  "Asia/Kuala_Lumpur": "Asia/Singapore",
+  "Asia/Kuwait": "Asia/Riyadh",
+  "Asia/Muscat": "Asia/Dubai",
+  "Asia/Phnom_Penh": "Asia/Bangkok",
+  "Asia/Rangoon": "Asia/Yangon",
+  "Asia/Saigon": "Asia/Ho_Chi_Minh",
+  "Asia/Tel_Aviv": "Asia/Jerusalem",
+  "Asia/Thimbu": "Asia/Thimphu",
+  "Asia/Ujung_Pandang": "Asia/Makassar",
+  "Asia/Ulan_Bator": "Asia/Ulaanbaatar",
+  "Asia/Vientiane": "Asia/Bangkok",
+  "Atlantic/Jan_Mayen": "Europe/Berlin",
+  "Atlantic/Reykjavik": "Africa/Abidjan",
+  "Australia/ACT": "Australia/Sydney",
+  "Australia/Canberra": "Australia/Sydney",
+  "Australia/Currie": "Australia/Hobart",
+  "Australia/LHI": "Australia/Lord_Howe",
+  "Australia/NSW": "Australia/Sydney",
+  "Australia/North": "Australia/Darwin",
+  "Australia/Queensland": "Australia/Brisbane",
+  "Australia/South": "Australia/Adelaide",
+  "Australia/Tasmania": "Australia/Hobart",
+  "Australia/Victoria": "Australia/Melbourne",
+  "Australia/West": "Australia/Perth",
+  "Australia/Yancowinna": "Australia/Broken_Hill",
+  "Brazil/Acre": "America/Rio_Branco",
+  "Brazil/DeNoronha": "America/Noronha",
+  "Brazil/East": "America/Sao_Paulo",
+  "Brazil/West": "America/Manaus",
+  "Canada/Atlantic": "America/Halifax",
+  "Canada/Central": "America/Winnipeg",
+  "Canada/Eastern": "America/Toronto",
+  "Canada/Mountain": "America/Edmonton",
+  "Canada/Newfoundland": "America/St_Johns",
+  "Canada/Pacific": "America/Vancouver",
+  "Canada/Saskatchewan": "America/Regina",
+  "Canada/Yukon": "America/Whitehorse",
+  "Chile/Continental": "America/Santiago",
+  "Chile/EasterIsland": "Pacific/Easter",
+  Cuba: "America/Havana",
+  Egypt: "Africa/Cairo",
+  Eire: "Europe/Dublin",
+  "Europe/Amsterdam": "Europe/Brussels",
+  "Europe/Belfast": "Europe/London",
+  "Europe/Bratislava": "Europe/Prague",
+  "Europe/Busingen": "Europe/Zurich",
+  "Europe/Copenhagen": "Europe/Berlin",
+  "Europe/Kiev": "Europe/Kyiv",
+  "Europe/Ljubljana": "Europe/Belgrade",
+  "Europe/Luxembourg": "Europe/Brussels",
+  "Europe/Mariehamn": "Europe/Helsinki",
+  "Europe/Monaco": "Europe/Paris",
+  "Europe/Nicosia": "Asia/Nicosia",
+  "Europe/Oslo": "Europe/Berlin",
+  "Europe/Podgorica": "Europe/Belgrade",
+  "Europe/San_Marino": "Europe/Rome",
+  "Europe/Sarajevo": "Europe/Belgrade",
+  "Europe/Skopje": "Europe/Belgrade",
+  "Europe/Stockholm": "Europe/Berlin",
+  "Europe/Tiraspol": "Europe/Chisinau",
+  "Europe/Uzhgorod": "Europe/Kyiv",
+  "Europe/Vaduz": "Europe/Zurich",
+  "Europe/Vatican": "Europe/Rome",
+  "Europe/Zagreb": "Europe/Belgrade",
+  "Europe/Zaporozhye": "Europe/Kyiv",
+  GB: "Europe/London",
+  "GB-Eire": "Europe/London",
+  Iceland: "Africa/Abidjan",
+  "Indian/Antananarivo": "Africa/Nairobi",
+  "Indian/Comoro": "Africa/Nairobi",
+  "Indian/Mahe": "Asia/Dubai",
+  Iran: "Asia/Tehran",
+  Israel: "Asia/Jerusalem",
+  Jamaica: "America/Jamaica",
+  Japan: "Asia/Tokyo",
+  Kwajalein: "Pacific/Kwajalein",
+  Libya: "Africa/Tripoli",
+  "Mexico/BajaNorte": "America/Tijuana",
+  "Mexico/BajaSur": "America/Mazatlan",
+  "Mexico/General": "America/Mexico_City",
+  NZ: "Pacific/Auckland",
+  "NZ-CHAT": "Pacific/Chatham",
+  Navajo: "America/Denver",
+  PRC: "Asia/Shanghai",
+  "Pacific/Chuuk": "Pacific/Port_Moresby",
+  "Pacific/Enderbury": "Pacific/Kanton",
+  "Pacific/Funafuti": "Pacific/Tarawa",
+  "Pacific/Johnston": "Pacific/Honolulu",
+  "Pacific/Majuro": "Pacific/Tarawa",
+  "Pacific/Pohnpei": "Pacific/Guadalcanal",
+  "Pacific/Ponape": "Pacific/Guadalcanal",
+  "Pacific/Truk": "Pacific/Port_Moresby",
+  "Pacific/Yap": "Pacific/Port_Moresby",
+  Poland: "Europe/Warsaw",
+  Portugal: "Europe/Lisbon",
+  ROK: "Asia/Seoul",
+  Singapore: "Asia/Singapore",
+  Turkey: "Europe/Istanbul",
+  "US/Alaska": "America/Anchorage",
+  "US/Aleutian": "America/Adak",
+  "US/Arizona": "America/Phoenix",
+  "US/Central": "America/Chicago",
+  "US/East-Indiana": "America/Indiana/Indianapolis",
+  "US/Eastern": "America/New_York",
+  "US/Hawaii": "Pacific/Honolulu",
+  "US/Indiana-Starke": "America/Indiana/Knox",
+  "US/Michigan": "America/Detroit",
+  "US/Mountain": "America/Denver",
+  "US/Pacific": "America/Los_Angeles",
+  "W-SU": "Europe/Moscow",
+};
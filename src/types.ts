@@ -1,4 +1,7 @@
 import { countries } from "./countries";
+import { currencies } from "./currencies";
+import { historicalCurrencies } from "./historicalCurrencies";
+import type { SubdivisionData } from "./subdivisions";
 
 // ============================================================================
 // BASE COUNTRY TYPE
@@ -16,13 +19,46 @@ export type Continents = Country["continent"];
 export type CountryCode = Country["alpha2"];
 export type CountryCodeNumeric = Country["numeric"];
 export type CountryAlpha3 = Country["alpha3"];
-export type Currency = NonNullable<Country["currency"]>;
-export type CurrencyCode = Currency["code"];
+export type CountryCurrency = Country["currencies"][number];
+export type Currency = Pick<CountryCurrency, "code" | "name" | "symbol">;
+export type CurrencyCode = Registered<CountryCurrency["code"]>;
+export type CurrencyStatus = CountryCurrency["status"];
 export type CountrySubRegion = Country["subregion"];
 export type CountryFields = keyof Country;
 export type PhoneCountryCode = Country["phoneCode"];
 export type Language = Country["languages"][number];
 export type Capitals = Country["capital"];
+export type CountryAlias = Country["aliases"][number];
+export type CountryTimezone = Country["timezones"][number];
+export type TimezoneId = CountryTimezone["id"];
+
+// ============================================================================
+// CURRENCY REGISTRY TYPES
+// ============================================================================
+
+export type CurrencyInfo = (typeof currencies)[number];
+export type IsoCurrencyCode = CurrencyInfo["code"];
+export type CurrencyNumeric = CurrencyInfo["numeric"];
+
+/**
+ * Constrains country currency codes to the ISO 4217 registry, so adding a
+ * currency to `countries.ts` without registering it fails to compile
+ */
+type Registered<T extends IsoCurrencyCode> = T;
+
+export type HistoricalCurrencyInfo = (typeof historicalCurrencies)[number];
+export type HistoricalCurrencyCode = HistoricalCurrencyInfo["code"];
+
+/**
+ * A span of time in which a country used a currency, as "YYYY-MM-DD" dates
+ */
+export interface CurrencyPeriod {
+  code: HistoricalCurrencyCode | IsoCurrencyCode;
+  /** First day of use; omitted when it predates the records */
+  from?: string;
+  /** Last day of use */
+  to: string;
+}
 
 // ============================================================================
 // REGION AND SUBREGION MAPPING
@@ -89,6 +125,46 @@ export interface CountryFilterOptions {
  */
 export type CountryWithFields<F extends CountryFields> = Pick<Country, F>;
 
+/**
+ * Accepts any string while still suggesting the known literals
+ */
+export type LooseString<T extends string> = T | (string & {});
+
+/**
+ * Options for name- and capital-based lookups
+ */
+export interface NameMatchOptions {
+  /**
+   * Compare with a plain case-insensitive match instead of ignoring
+   * diacritics, punctuation and "St."/"Saint" differences (default false)
+   */
+  strict?: boolean;
+}
+
+/**
+ * Which of a country's currencies count when matching by currency.
+ * By default every legal-tender currency matches.
+ */
+export interface CurrencyMatchOptions {
+  /** Only match each country's primary currency (default false) */
+  primaryOnly?: boolean;
+  /** Also match currencies that are widely accepted but not legal tender (default false) */
+  includeWidelyAccepted?: boolean;
+}
+
+/**
+ * How time zones are compared when finding the countries that use one
+ */
+export interface TimezoneMatchOptions {
+  /** Also match zones whose clocks have agreed since 1970, so "Europe/Zurich" matches "Europe/Vaduz" (default false) */
+  sameClock?: boolean;
+}
+
+export interface CurrencyValidationOptions {
+  /** Also accept withdrawn currencies such as DEM or VEF (default false) */
+  includeHistorical?: boolean;
+}
+
 /**
  * Type for grouping results
  */
@@ -100,8 +176,344 @@ export type GroupedCountries<K extends string> = Record<K, Country[]>;
 export interface CountryComparison {
   country1: Country | undefined;
   country2: Country | undefined;
+  /** Whether both countries have the same primary currency */
   sameCurrency: boolean;
+  /** Legal-tender currencies the two countries have in common */
+  sharedCurrencies: CurrencyCode[];
   sameRegion: boolean;
   sameContinent: boolean;
   sharedLanguages: Language[];
+  /** Whether the two countries share a land border */
+  bordering: boolean;
+  /** Great-circle distance between the capitals in km */
+  capitalDistanceKm: number | undefined;
+}
+
+// ============================================================================
+// MATCH TYPES
+// ============================================================================
+
+/**
+ * The identifier a lookup matched on
+ */
+export type CountryMatchField =
+  | "alpha2"
+  | "alpha3"
+  | "numeric"
+  | "name"
+  | "officialName"
+  | "nativeName"
+  | "alias"
+  | "localizedName";
+
+export interface CountryMatch {
+  country: Country;
+  /** Which identifier matched */
+  field: CountryMatchField;
+  /** The stored value that matched, e.g. the alias "Burma" */
+  matched: string;
+  /** The locale whose name table matched, when `field` is "localizedName" */
+  locale?: LocaleCode;
+}
+
+/**
+ * Options for `resolveCountry` and `searchCountryByCodeOrName`
+ */
+export interface ResolveOptions extends NameMatchOptions {
+  /**
+   * Registered locales whose names are also searched, in order
+   * (default all registered locales)
+   */
+  locales?: readonly LocaleCode[];
+}
+
+// ============================================================================
+// FUZZY SEARCH TYPES
+// ============================================================================
+
+/**
+ * Country fields that fuzzy search can match against
+ */
+export type FuzzyMatchField =
+  "name" | "officialName" | "nativeName" | "alias" | "alpha2" | "alpha3";
+
+export interface FuzzySearchOptions {
+  /** Maximum number of results (default 10) */
+  limit?: number;
+  /** Minimum score between 0 and 1 a match needs to be returned (default 0.6) */
+  minScore?: number;
+  /** Fields to match against (default all) */
+  fields?: readonly FuzzyMatchField[];
+}
+
+export interface FuzzySearchResult {
+  country: Country;
+  /** Similarity between 0 and 1, where 1 is an exact match */
+  score: number;
+  /** The field that produced the best score */
+  field: FuzzyMatchField;
+  /** The value of that field */
+  matched: string;
+}
+
+// ============================================================================
+// LOCALE TYPES
+// ============================================================================
+
+/**
+ * Locales with a country name module in `locales/`. English is built in.
+ */
+export const supportedLocales = [
+  "ar",
+  "bn",
+  "cs",
+  "da",
+  "de",
+  "el",
+  "es",
+  "fa",
+  "fi",
+  "fr",
+  "he",
+  "hi",
+  "hu",
+  "id",
+  "it",
+  "ja",
+  "ko",
+  "ms",
+  "nb",
+  "nl",
+  "pl",
+  "pt",
+  "pt-BR",
+  "ro",
+  "ru",
+  "sv",
+  "th",
+  "tr",
+  "uk",
+  "vi",
+  "zh",
+  "zh-Hant",
+] as const;
+
+export type LocaleCode = "en" | (typeof supportedLocales)[number];
+
+/**
+ * Country names for one locale, as exported by each `locales/` module
+ */
+export interface LocaleData {
+  locale: LocaleCode;
+  names: Readonly<Record<CountryCode, string>>;
+}
+
+// ============================================================================
+// PHONE NUMBER TYPES
+// ============================================================================
+
+/**
+ * Why a phone number failed validation
+ */
+export type PhoneValidationError =
+  | "invalid_characters"
+  | "wrong_calling_code"
+  | "too_short"
+  | "too_long"
+  | "unknown_country";
+
+/**
+ * Output style for formatted phone numbers:
+ * "national" (555-123-4567), "international" (+1 555-123-4567) or "e164" (+15551234567)
+ */
+export type PhoneNumberFormat = "national" | "international" | "e164";
+
+export interface PhoneValidationResult {
+  valid: boolean;
+  /** Set when `valid` is false */
+  reason?: PhoneValidationError;
+  /** The national significant number (digits only, no trunk prefix) */
+  nationalNumber: string;
+  /** Number of digits the country's `phoneMask` expects */
+  expectedLength: number;
+}
+
+export interface ParsedPhoneNumber {
+  /** The calling code found by longest-prefix matching, e.g. "44" */
+  callingCode: string;
+  /** Every country using that calling code, the most likely first */
+  candidates: Country[];
+  /** The country identified from the area code, if it could be determined */
+  country?: Country;
+  /** The digits after the calling code */
+  nationalNumber: string;
+  /** International format for `country`, if the number is valid for it */
+  formatted?: string;
+}
+
+// ============================================================================
+// CURRENCY FORMATTING TYPES
+// ============================================================================
+
+/**
+ * How the currency is shown in a formatted amount:
+ * "symbol" (US$ or $, depending on locale), "narrowSymbol" ($), "code" (USD)
+ * or "name" (US dollars)
+ */
+export type CurrencyDisplay = "symbol" | "narrowSymbol" | "code" | "name";
+
+export interface CurrencyFormatOptions {
+  /** BCP 47 locale used for symbol placement and separators (default "en") */
+  locale?: string;
+  /** How to show the currency (default "symbol") */
+  display?: CurrencyDisplay;
+}
+
+export interface CurrencyParseOptions {
+  /** BCP 47 locale whose separators and symbols the input uses (default "en") */
+  locale?: string;
+}
+
+export interface ParsedCurrencyAmount {
+  /** The amount as a number, e.g. 1234.5 */
+  amount: number;
+  /** The amount in minor units, e.g. 123450 for 1234.50 USD */
+  minorAmount: number;
+  /** The currency found in the input, or the expected currency if none was written */
+  currency: IsoCurrencyCode;
+}
+
+// ============================================================================
+// CURRENCY CONVERSION TYPES
+// ============================================================================
+
+/**
+ * Exchange rates keyed by currency: units of that currency per one unit of the base
+ */
+export type RateTable = Partial<Record<CurrencyCode, number>>;
+
+/**
+ * Source of exchange rates for `CurrencyConverter`
+ */
+export interface RateProvider {
+  /**
+   * Units of `to` per one unit of `from`, or `undefined` if the provider
+   * has no direct rate for the pair
+   */
+  getRate(from: CurrencyCode, to: CurrencyCode): number | undefined;
+}
+
+export interface CurrencyConverterOptions {
+  /** Currency to convert through when there is no direct rate (default "USD") */
+  base?: CurrencyCode;
+}
+
+/**
+ * Shape of a JSON rate snapshot, as published by most rate APIs
+ */
+export interface RateSnapshot {
+  base: CurrencyCode;
+  /** When the rates were taken, e.g. "2024-06-28" */
+  date?: string;
+  rates: RateTable;
+}
+
+// ============================================================================
+// GEOGRAPHY TYPES
+// ============================================================================
+
+/**
+ * A point in decimal degrees (WGS 84)
+ */
+export interface Coordinates {
+  readonly lat: number;
+  readonly lng: number;
+}
+
+/**
+ * A bounding box in decimal degrees. `west` is greater than `east` when the
+ * box crosses the antimeridian (Fiji, Kiribati, Russia, United States).
+ */
+export interface BoundingBox {
+  readonly south: number;
+  readonly west: number;
+  readonly north: number;
+  readonly east: number;
+}
+
+/**
+ * Unit for great-circle distances: kilometres or statute miles
+ */
+export type DistanceUnit = "km" | "mi";
+
+/**
+ * A closed polygon ring as flat `[lng, lat, lng, lat, ...]` pairs, without
+ * repeating the first point. Longitudes go past 180 rather than wrapping
+ * when a ring crosses the antimeridian.
+ */
+export type LinearRing = readonly number[];
+
+/**
+ * An outer ring followed by any holes, e.g. Lesotho inside South Africa
+ */
+export type Polygon = readonly LinearRing[];
+
+export interface NeighborOptions {
+  /** Also include countries that only share a maritime boundary (default false) */
+  includeMaritime?: boolean;
+}
+
+// ============================================================================
+// SUBDIVISION TYPES
+// ============================================================================
+
+/**
+ * An ISO 3166-2 subdivision such as a state, province or emirate
+ */
+export interface Subdivision {
+  /** ISO 3166-2 code, e.g. "US-CA" */
+  readonly code: string;
+  /** Name in the local language, as published in ISO 3166-2 */
+  readonly name: string;
+  /** Category as published in ISO 3166-2, e.g. "State", "Province", "Emirate" */
+  readonly type: string;
+  /** Code of the subdivision this one belongs to, e.g. "GB-SCT" for "GB-EDH" */
+  readonly parent?: string;
+}
+
+/**
+ * The subdivision records of a specific country, with literal codes and names
+ *
+ * @example
+ * type UsState = SubdivisionsOf<"US">; // { code: "US-AL", name: "Alabama", type: "State" } | ...
+ */
+export type SubdivisionsOf<C extends CountryCode> = SubdivisionData[C][number];
+
+/**
+ * ISO 3166-2 subdivision codes, narrowed to one country when given
+ *
+ * @example
+ * type UsState = SubdivisionCode<"US">; // "US-AK" | "US-AL" | ...
+ */
+export type SubdivisionCode<C extends CountryCode = CountryCode> =
+  SubdivisionsOf<C>["code"];
+
+// ============================================================================
+// POSTAL CODE TYPES
+// ============================================================================
+
+/**
+ * How a country writes its postal codes
+ */
+export interface PostalCodeFormat {
+  /** What the code is called locally, e.g. "ZIP code", "PIN code", "CEP" */
+  readonly label: string;
+  /** Matches the compact code (upper case, no spaces, hyphens or prefix); each capture group is one part */
+  readonly regex: RegExp;
+  /** Written between the parts, e.g. " " in "K1A 0B1" */
+  readonly separator?: " " | "-";
+  /** Fixed text written before the code, e.g. "LV-" in "LV-1050" */
+  readonly prefix?: string;
+  /** A valid code as it is normally written */
+  readonly example: string;
 }